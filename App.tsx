@@ -2,8 +2,13 @@
 import React, { useState, useEffect, useRef, useCallback, lazy, Suspense, useMemo } from 'react';
 import type { NovelState, Chapter, WorldEntry, Character, Arc, Realm, Territory, Relationship, SystemLog, Scene, NovelItem, NovelTechnique, CharacterItemPossession, CharacterTechniqueMastery, ItemCategory, TechniqueCategory, TechniqueType, Antagonist, AntagonistRole, SymbolicElement } from './types';
 import type { GlobalMarketState } from './types/market';
+import type { PowerLevelHierarchy } from './types/powerSystem';
+import type { WorldMapState } from './types/worldMap';
+import type { NovelCalendar, InWorldTimestamp } from './types/calendar';
 import { getAntagonistsForArc, addAntagonistToChapter } from './services/antagonistService';
 import { createDefaultMarketState } from './services/market/marketService';
+import { anchorCharacterAge, chapterInWorldDay } from './services/calendarService';
+import { applySecretUpdates } from './services/secretService';
 import { findMatchingAntagonist, mergeAntagonistInfo } from './utils/antagonistMatching';
 import { findBestMatch } from './utils/characterNameMatching';
 import Sidebar from './components/Sidebar';
@@ -12,6 +17,7 @@ import VoiceInput from './components/VoiceInput';
 import CreativeSpark from './components/CreativeSpark';
 import ConfirmDialog from './components/ConfirmDialog';
 import GenerationProgressBar from './components/GenerationProgressBar';
+import { StreamingChapterPreview, GenerationDraftBanner } from './components/StreamingChapterPreview';
 import LoadingIndicator from './components/LoadingIndicator';
 import { LoadingSpinnerCentered } from './components/LoadingSpinner';
 import NotificationPanel from './components/NotificationPanel';
@@ -27,7 +33,11 @@ import { useAuth } from './contexts/AuthContext';
 import { LoginForm } from './components/LoginForm';
 import { validateWorldEntryInput } from './utils/validation';
 import { novelChangeTracker } from './utils/novelTracking';
-import { extractPostChapterUpdates, generateNextChapter, planArc, processLoreDictation, ChapterGenerationResult } from './services/aiService';
+import { extractPostChapterUpdates, generateNextChapter, planArc, processLoreDictation, ChapterGenerationResult, ChapterStreamPreview } from './services/aiService';
+import { clearGenerationDraft, createChapterFromDraft, getGenerationDraft, saveGenerationDraft, GenerationDraft } from './services/generationDraftService';
+import { isAbortError } from './utils/streaming';
+import { setUsageContext } from './services/usageLedgerService';
+import { AppError } from './utils/errorHandling';
 import TribulationGateModal from './components/TribulationGateModal';
 import ManualTribulationGateDialog from './components/ManualTribulationGateDialog';
 import WhatIfGateReplayDialog from './components/WhatIfGateReplayDialog';
@@ -43,6 +53,8 @@ import {
   WhatIfChapter,
 } from './services/tribulationGateService';
 import { saveRevision } from './services/revisionService';
+import { downloadProjectArchive, restoreProjectArchive } from './services/projectArchiveService';
+import { backfillAllChapters } from './services/chapterBackfillService';
 import { useNovel } from './contexts/NovelContext';
 import { findOrCreateItem, findOrCreateTechnique } from './services/itemTechniqueService';
 import { addOrUpdateRelationship } from './services/relationshipService';
@@ -61,6 +73,7 @@ import { generatePreGenerationSuggestions, analyzeGaps } from './services/gapDet
 import { TrustScoreWidget } from './components/TrustScoreWidget';
 import { GapAnalysisPanel } from './components/widgets/GapAnalysisPanel';
 import { MarketPanel } from './components/MarketPanel';
+import PowerSystemEditor from './components/PowerSystemEditor';
 import { PreGenerationAnalysis } from './components/PreGenerationAnalysis';
 import { analyzeStoryStructure } from './services/storyStructureAnalyzer';
 import { analyzeEngagement } from './services/engagementAnalyzer';
@@ -74,6 +87,8 @@ import FixApprovalDialog from './components/FixApprovalDialog';
 import type { EditorFixProposal, EditorFix, EditorReportWithInternal } from './types/editor';
 import { useGlobalShortcuts } from './hooks/useGlobalShortcuts';
 import { useOnboarding } from './hooks/useOnboarding';
+import { useNovelPermissions } from './hooks/useNovelPermissions';
+import { isViewAllowed, permissionDeniedMessage } from './services/permissionService';
 import { OnboardingTour } from './components/OnboardingTour';
 import { getTourById, MAIN_ONBOARDING_TOUR } from './utils/onboardingTours';
 import { AUTHENTICATION_ENABLED } from './config/supabase';
@@ -179,6 +194,9 @@ const CharactersView = lazy(() => import('./components/views/CharactersView'));
 const ChaptersView = safeLazyImport(() => import('./components/views/ChaptersView'));
 const PlanningView = safeLazyImport(() => import('./components/views/PlanningView'));
 const TribulationGateHistoryView = safeLazyImport(() => import('./components/views/TribulationGateHistoryView'));
+const UniverseView = safeLazyImport(() => import('./components/views/UniverseView'));
+const MembersView = safeLazyImport(() => import('./components/views/MembersView'));
+const ChapterReader = safeLazyImport(() => import('./components/ChapterReader'));
 const KeyboardShortcutsHelp = safeLazyImport(() => import('./components/KeyboardShortcutsHelp'));
 
 const App: React.FC = () => {
@@ -197,11 +215,18 @@ const App: React.FC = () => {
     setActiveChapterId,
     updateActiveNovel,
     createNovel,
+    importNovel,
     deleteNovelById,
     deleteChapterById,
     saveChapter,
   } = useNovel();
   const { applyFixes: applyEditorFixes, isApplying: isApplyingFixes } = useEditorFixApplication();
+  const { role: novelRole, can } = useNovelPermissions(activeNovel);
+
+  // Leave views the role does not open, e.g. after switching to a novel shared for reading
+  useEffect(() => {
+    if (activeNovel && !isViewAllowed(novelRole, currentView)) setView('chapters');
+  }, [activeNovel, novelRole, currentView, setView]);
 
   // Onboarding
   const {
@@ -323,6 +348,7 @@ const App: React.FC = () => {
   const [editingChar, setEditingChar] = useState<Character | null>(null);
   const [editingArc, setEditingArc] = useState<Arc | null>(null);
   const [showEconomyPanel, setShowEconomyPanel] = useState(false);
+  const [showPowerSystemPanel, setShowPowerSystemPanel] = useState(false);
   const [arcAntagonists, setArcAntagonists] = useState<Antagonist[]>([]);
   const [isLoadingArcAntagonists, setIsLoadingArcAntagonists] = useState(false);
   const [isGeneratingPortrait, setIsGeneratingPortrait] = useState<string | null>(null);
@@ -331,6 +357,10 @@ const App: React.FC = () => {
   const [pendingFixProposals, setPendingFixProposals] = useState<EditorFixProposal[]>([]);
   const [currentEditorReport, setCurrentEditorReport] = useState<EditorReport | null>(null);
   const activeGenerationIdRef = useRef<string | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const streamPreviewRef = useRef<ChapterStreamPreview | null>(null);
+  const [streamingPreview, setStreamingPreview] = useState<ChapterStreamPreview | null>(null);
+  const [generationDraft, setGenerationDraft] = useState<GenerationDraft | null>(null);
 
   // Tribulation Gate state
   const [showTribulationGate, setShowTribulationGate] = useState(false);
@@ -377,6 +407,16 @@ const App: React.FC = () => {
     }
   }, [editingArc?.id, activeNovel?.id]);
 
+  // Offer any draft left behind by a cancelled or failed generation
+  useEffect(() => {
+    setGenerationDraft(activeNovel ? getGenerationDraft(activeNovel.id) : null);
+  }, [activeNovel?.id]);
+
+  // Bill AI requests made while a novel is open to that novel in the usage ledger
+  useEffect(() => {
+    setUsageContext(activeNovel ? { novelId: activeNovel.id } : null);
+  }, [activeNovel?.id]);
+
   const handleCreateNovel = useCallback(
     async (title: string, genre: string) => {
       await createNovel(title, genre);
@@ -384,6 +424,60 @@ const App: React.FC = () => {
     [createNovel]
   );
 
+  const handleBackupNovel = useCallback(async (novel: NovelState) => {
+    try {
+      await downloadProjectArchive(novel);
+      showSuccess('Project archive downloaded');
+    } catch (error) {
+      logger.error('Error exporting project archive', 'App', error instanceof Error ? error : new Error(String(error)));
+      showError('Failed to export project archive.');
+    }
+  }, [showError, showSuccess]);
+
+  const handleRestoreNovel = useCallback(async (file: File) => {
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const { novel, remapped } = await restoreProjectArchive(bytes, {
+        existingNovelIds: library.map(n => n.id),
+      });
+      await importNovel(novel);
+      if (remapped) {
+        showWarning('A novel with the same ID already exists; the archive was restored as a copy.');
+      }
+    } catch (error) {
+      logger.error('Error restoring project archive', 'App', error instanceof Error ? error : new Error(String(error)));
+      showError(error instanceof Error ? error.message : 'Failed to restore project archive.');
+    }
+  }, [importNovel, library, showError, showWarning]);
+
+  const handleImportManuscript = useCallback(async (novel: NovelState, runBackfill: boolean) => {
+    let importedNovel = novel;
+    if (runBackfill) {
+      startLoading(`Back-filling ${novel.chapters.length} imported chapters...`, true);
+      try {
+        // Imported numbering can start late or skip, so count chapters as they come
+        let processed = 0;
+        const result = await backfillAllChapters(
+          novel,
+          (_chapterNumber, total, chapter) => {
+            processed++;
+            updateProgress(Math.round((processed / total) * 100), `Processing chapter ${processed}/${total}: ${chapter.title}`);
+          }
+        );
+        if (result.updatedState) importedNovel = result.updatedState;
+        if (result.errors.length > 0) {
+          showWarning(`Back-fill finished with ${result.errors.length} chapter error(s); you can re-run it from Planning.`);
+        }
+      } catch (error) {
+        logger.error('Back-fill after manuscript import failed', 'App', error instanceof Error ? error : new Error(String(error)));
+        showWarning('Back-fill failed; the manuscript was imported without extracted entities.');
+      } finally {
+        stopLoading();
+      }
+    }
+    await importNovel(importedNovel);
+  }, [importNovel, showWarning, startLoading, stopLoading, updateProgress]);
+
   const addLog = (msg: string, type: SystemLog['type'] = 'discovery') => {
     const log: SystemLog = { id: crypto.randomUUID(), message: msg, type, timestamp: Date.now() };
     setActiveLogs(prev => [...prev, log]);
@@ -592,12 +686,25 @@ const App: React.FC = () => {
 
   const handleGenerateNext = async (customInstruction?: string) => {
     if (!activeNovel) return;
+    if (!can('generate')) {
+      showError(permissionDeniedMessage(novelRole, 'generate'));
+      return;
+    }
     const generationId = crypto.randomUUID();
     activeGenerationIdRef.current = generationId;
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+    streamPreviewRef.current = null;
+    setStreamingPreview(null);
     setIsGenerating(true);
     setGenerationProgress(5);
     setGenerationStatus('Analyzing story context...');
     const newLogs: SystemLog[] = [];
+    const nextNumberForDraft = activeNovel.chapters.length > 0
+      ? Math.max(...activeNovel.chapters.map(c => c.number), 0) + 1
+      : 1;
+    // Throttle preview renders; the ref always holds the latest text for draft recovery
+    let lastPreviewRender = 0;
 
     const localAddLog = (msg: string, type: SystemLog['type'] = 'discovery') => {
       const log: SystemLog = { id: crypto.randomUUID(), message: msg, type, timestamp: Date.now() };
@@ -634,6 +741,18 @@ const App: React.FC = () => {
 
       addEphemeralLog('Building prompt context...', 'discovery');
       const result = await generateNextChapter(activeNovel, customInstruction || instruction, {
+        signal: abortController.signal,
+        onChapterStream: (preview) => {
+          if (activeGenerationIdRef.current !== generationId) return;
+          streamPreviewRef.current = preview;
+          const now = Date.now();
+          if (now - lastPreviewRender >= 100) {
+            // The editor shows the chapter as it streams in
+            if (lastPreviewRender === 0) setView('editor');
+            lastPreviewRender = now;
+            setStreamingPreview(preview);
+          }
+        },
         onPhase: (phase, data) => {
           if (activeGenerationIdRef.current !== generationId) return; // cancelled
 
@@ -651,6 +770,9 @@ const App: React.FC = () => {
               'discovery'
             );
           }
+          if (phase === 'budget_warning') {
+            addEphemeralLog(`💰 ${typeof data?.message === 'string' ? data.message : 'Usage budget exceeded.'}`, 'update');
+          }
           if (phase === 'queue_estimate') {
             setGenerationProgress(25);
             setGenerationStatus('Checking system load...');
@@ -820,6 +942,7 @@ const App: React.FC = () => {
         summary: (result.chapterSummary || '').trim() || `Chapter ${nextChapterNumber}: ${normalizedTitle.replace(/^Chapter\s+\d+[:\s]+/i, '').trim()}`,
         logicAudit: result.logicAudit,
         scenes: [],
+        povCharacterId: result.povCharacterId,
         createdAt: Date.now()
       };
 
@@ -1573,6 +1696,8 @@ const App: React.FC = () => {
           initialCharacters: mergedCharacters.slice(0, 3).map(c => ({ name: c.name, cultivation: c.currentCultivation }))
         });
 
+        // Ages stated in this chapter are as of its in-world day
+        const ageAnchorDay = chapterInWorldDay(workingNovelState, newChapter);
         extraction.characterUpserts?.forEach((u) => {
           const name = String(u?.name || '').trim();
           if (!name) return;
@@ -1582,7 +1707,10 @@ const App: React.FC = () => {
           const applyTo = (char: Character): Character => {
             const next: Character = { ...char };
             const set = u?.set || {};
-            if (typeof set.age === 'string' && set.age.trim()) next.age = set.age;
+            if (typeof set.age === 'string' && set.age.trim()) {
+              next.age = set.age;
+              next.ageAnchorDay = ageAnchorDay;
+            }
             if (typeof set.personality === 'string' && set.personality.trim()) next.personality = set.personality;
             if (typeof set.currentCultivation === 'string' && set.currentCultivation.trim()) next.currentCultivation = set.currentCultivation;
             if (typeof set.appearance === 'string' && set.appearance.trim()) next.appearance = set.appearance;
@@ -2296,6 +2424,14 @@ const App: React.FC = () => {
           localAddLog(`Arc Notes: ${extraction.arcChecklistProgress.notes}`, 'discovery');
         }
 
+        // Secrets: record new secrets and who learned them in this chapter
+        let mergedSecrets = workingNovelState.secrets;
+        if (extraction.secretUpdates && extraction.secretUpdates.length > 0) {
+          const secretResult = applySecretUpdates(mergedSecrets || [], extraction.secretUpdates, mergedCharacters, newChapter.number);
+          mergedSecrets = secretResult.secrets;
+          secretResult.changes.forEach(change => localAddLog(change, 'discovery'));
+        }
+
         // Update the chapter with extracted scenes if any were created
         const updatedChapter: Chapter = extractedScenes.length > 0
           ? { ...newChapter, scenes: extractedScenes }
@@ -2348,6 +2484,7 @@ const App: React.FC = () => {
           antagonists: mergedAntagonists,
           storyThreads: mergedThreads,
           plotLedger: mergedLedger,
+          secrets: mergedSecrets,
           updatedAt: now,
         };
 
@@ -3053,21 +3190,86 @@ const App: React.FC = () => {
       }
 
     } catch (e) {
-      logger.error('Error generating chapter', 'App', e instanceof Error ? e : new Error(String(e)));
-      const errorMessage = e instanceof Error ? e.message : String(e);
-      showError(
-        `Dao failure! Connection severed.\n\nError: ${errorMessage}\n\nPlease check:\n1. Your DEEPSEEK_API_KEY is set in .env.local\n2. Your internet connection\n3. Browser console for more details (F12)`
-      );
+      const cancelled = isAbortError(e);
+      // Read through the ref type: callbacks update it after the reset above
+      const partial: ChapterStreamPreview | null = streamPreviewRef.current as ChapterStreamPreview | null;
+      if (partial?.content.trim()) {
+        const draft: GenerationDraft = {
+          novelId: activeNovel.id,
+          chapterNumber: nextNumberForDraft,
+          title: partial.title,
+          content: partial.content,
+          reason: cancelled ? 'cancelled' : 'failed',
+          savedAt: Date.now(),
+        };
+        if (saveGenerationDraft(draft)) {
+          setGenerationDraft(draft);
+          // The recovered draft banner lives on the dashboard
+          setView('dashboard');
+        }
+      }
+
+      if (cancelled) {
+        addEphemeralLog(
+          partial?.content.trim()
+            ? 'Generation cancelled. The partial chapter was kept as a recoverable draft.'
+            : 'Generation cancelled.',
+          'update'
+        );
+      } else if (e instanceof AppError && e.code === 'BUDGET_EXCEEDED') {
+        showError(`Generation blocked by your usage budget.\n\n${e.message}\n\nRaise or remove the cap under Usage & Budgets on the dashboard.`);
+      } else {
+        logger.error('Error generating chapter', 'App', e instanceof Error ? e : new Error(String(e)));
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        showError(
+          `Dao failure! Connection severed.\n\nError: ${errorMessage}\n\nPlease check:\n1. Your DEEPSEEK_API_KEY is set in .env.local\n2. Your internet connection\n3. Browser console for more details (F12)`
+        );
+      }
     } finally {
       // Only end "generating" if this is still the active request (cancel may have already flipped it).
       if (activeGenerationIdRef.current === generationId) {
         setIsGenerating(false);
         activeGenerationIdRef.current = null;
       }
+      if (generationAbortRef.current === abortController) {
+        generationAbortRef.current = null;
+      }
+      streamPreviewRef.current = null;
+      setStreamingPreview(null);
       setInstruction('');
     }
   };
 
+  const handleCancelGeneration = () => {
+    // Drop the result even if it arrives after the abort was noticed
+    activeGenerationIdRef.current = null;
+    setIsGenerating(false);
+    if (generationAbortRef.current) {
+      // The generation's catch block saves any streamed text as a draft
+      generationAbortRef.current.abort();
+      return;
+    }
+    addEphemeralLog('Generation cancelled. If the AI returns later, the result will be ignored.', 'update');
+  };
+
+  const handleRestoreGenerationDraft = useCallback(() => {
+    if (!activeNovel || !generationDraft) return;
+    const nextNumber = activeNovel.chapters.length > 0
+      ? Math.max(...activeNovel.chapters.map(c => c.number), 0) + 1
+      : 1;
+    const chapter = createChapterFromDraft(generationDraft, nextNumber);
+    updateActiveNovel(prev => ({ ...prev, chapters: [...prev.chapters, chapter], updatedAt: Date.now() }));
+    clearGenerationDraft(activeNovel.id);
+    setGenerationDraft(null);
+    showSuccess(`Draft restored as Chapter ${nextNumber}`);
+  }, [activeNovel, generationDraft, updateActiveNovel, showSuccess]);
+
+  const handleDiscardGenerationDraft = useCallback(() => {
+    if (!activeNovel) return;
+    clearGenerationDraft(activeNovel.id);
+    setGenerationDraft(null);
+  }, [activeNovel]);
+
   // Tribulation Gate handlers
   const handleTribulationGateSelect = useCallback(async (pathId: string) => {
     if (!currentTribulationGate || !activeNovel) return;
@@ -3307,6 +3509,10 @@ the reader's choice. The consequences should begin to manifest in this chapter.
 
   const handleBatchGenerate = async (customInstruction?: string) => {
     if (!activeNovel) return;
+    if (!can('generate')) {
+      showError(permissionDeniedMessage(novelRole, 'generate'));
+      return;
+    }
     const generationId = crypto.randomUUID();
     activeGenerationIdRef.current = generationId;
     setIsGenerating(true);
@@ -3606,7 +3812,9 @@ the reader's choice. The consequences should begin to manifest in this chapter.
     URL.revokeObjectURL(url);
   };
 
-  const handleSaveCharacter = useCallback((character: Character) => {
+  const handleSaveCharacter = useCallback((edited: Character) => {
+    // An edited age is the character's age as of the latest chapter
+    const character = activeNovel ? anchorCharacterAge(edited, activeNovel) : edited;
     updateActiveNovel(prev => {
       const nextCodex = prev.characterCodex.some(c => c.id === character.id)
         ? prev.characterCodex.map(c => (c.id === character.id ? character : c))
@@ -3818,7 +4026,11 @@ the reader's choice. The consequences should begin to manifest in this chapter.
       onConfirm: () => {
         updateActiveNovel(prev => ({
           ...prev,
-          territories: prev.territories.filter(t => t.id !== id)
+          territories: prev.territories.filter(t => t.id !== id),
+          worldMap: prev.worldMap && {
+            ...prev.worldMap,
+            routes: prev.worldMap.routes.filter(r => r.fromTerritoryId !== id && r.toTerritoryId !== id),
+          },
         }));
         setConfirmDialog({ ...confirmDialog, isOpen: false });
         showSuccess('Territory deleted');
@@ -3854,6 +4066,59 @@ the reader's choice. The consequences should begin to manifest in this chapter.
     }));
   }, [updateActiveNovel]);
 
+  /**
+   * Handle map canvas and route edits from the WorldMapView
+   */
+  const handleUpdateWorldMap = useCallback((worldMap: WorldMapState) => {
+    updateActiveNovel(prev => ({
+      ...prev,
+      worldMap,
+      updatedAt: Date.now(),
+    }));
+  }, [updateActiveNovel]);
+
+  /**
+   * Handle power ladder edits from the PowerSystemEditor
+   */
+  const handleUpdatePowerSystems = useCallback((powerSystems: PowerLevelHierarchy[]) => {
+    updateActiveNovel(prev => ({
+      ...prev,
+      powerSystems: powerSystems.length > 0 ? powerSystems : undefined,
+      updatedAt: Date.now(),
+    }));
+  }, [updateActiveNovel]);
+
+  /**
+   * Handle calendar edits from the TimelineView
+   */
+  const handleUpdateCalendar = useCallback((calendar: NovelCalendar) => {
+    updateActiveNovel(prev => ({
+      ...prev,
+      calendar,
+      updatedAt: Date.now(),
+    }));
+  }, [updateActiveNovel]);
+
+  /**
+   * Set or clear the in-world date of a chapter, or of one of its scenes
+   */
+  const handleSetInWorldTime = useCallback((chapterId: string, sceneId: string | null, time: InWorldTimestamp | undefined) => {
+    updateActiveNovel(prev => ({
+      ...prev,
+      chapters: prev.chapters.map(chapter => {
+        if (chapter.id !== chapterId) return chapter;
+        if (!sceneId) return { ...chapter, inWorldTime: time };
+        return {
+          ...chapter,
+          scenes: chapter.scenes.map(scene =>
+            scene.id === sceneId ? { ...scene, inWorldTime: time, updatedAt: Date.now() } : scene
+          ),
+        };
+      }),
+      updatedAt: Date.now(),
+    }));
+  }, [updateActiveNovel]);
+
   /**
    * Loom Dashboard handlers
    */
@@ -3965,6 +4230,10 @@ the reader's choice. The consequences should begin to manifest in this chapter.
 
   const handleDeleteChapter = async (chapterId: string) => {
     if (!activeNovel) return;
+    if (!can('delete_chapter')) {
+      showError(permissionDeniedMessage(novelRole, 'delete_chapter'));
+      return;
+    }
 
     setConfirmDialog({
       isOpen: true,
@@ -4013,11 +4282,17 @@ the reader's choice. The consequences should begin to manifest in this chapter.
           onSelect={(id) => { setActiveNovelId(id); setView('dashboard'); }}
           onCreate={handleCreateNovel}
           onDelete={handleDeleteNovel}
+          onBackup={handleBackupNovel}
+          onRestore={handleRestoreNovel}
+          onImportManuscript={handleImportManuscript}
         />
       </div>
     );
   }
 
+  // A chapter being generated takes the editor's place until it is saved
+  const isStreamingChapter = isGenerating && streamingPreview !== null;
+
   return (
     <div className="flex h-screen h-dvh w-screen overflow-hidden bg-zinc-950 text-zinc-100 selection:bg-amber-600/30">
       <LoadingIndicator
@@ -4210,6 +4485,12 @@ the reader's choice. The consequences should begin to manifest in this chapter.
                       return null;
                     })()}
 
+                    <GenerationDraftBanner
+                      draft={isGenerating ? null : generationDraft}
+                      onRestore={handleRestoreGenerationDraft}
+                      onDiscard={handleDiscardGenerationDraft}
+                    />
+
                     <textarea
                       value={instruction}
                       onChange={(e) => setInstruction(e.target.value)}
@@ -4219,9 +4500,9 @@ the reader's choice. The consequences should begin to manifest in this chapter.
                     />
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <button
-                        disabled={isGenerating}
+                        disabled={isGenerating || !can('generate')}
                         onClick={() => handleGenerateNext()}
-                        className={`py-3 md:py-4 rounded-xl font-fantasy text-base md:text-lg font-semibold transition-all duration-200 ${isGenerating
+                        className={`py-3 md:py-4 rounded-xl font-fantasy text-base md:text-lg font-semibold transition-all duration-200 ${isGenerating || !can('generate')
                           ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
                           : 'bg-gradient-to-r from-amber-600 to-amber-700 hover:from-amber-500 hover:to-amber-600 hover:scale-105 text-white shadow-lg shadow-amber-900/30'
                           }`}
@@ -4239,19 +4520,16 @@ the reader's choice. The consequences should begin to manifest in this chapter.
                       {isGenerating ? (
                         <button
                           type="button"
-                          onClick={() => {
-                            activeGenerationIdRef.current = null;
-                            setIsGenerating(false);
-                            addEphemeralLog('Generation cancelled. If the AI returns later, the result will be ignored.', 'update');
-                          }}
+                          onClick={handleCancelGeneration}
                           className="py-3 md:py-4 border border-zinc-700 rounded-xl font-fantasy text-sm md:text-base font-semibold text-zinc-400 hover:text-zinc-200 hover:border-zinc-500 transition-all duration-200 flex items-center justify-center space-x-2 hover:bg-zinc-900/40"
                           aria-label="Cancel chapter generation"
-                          title="Cancel generation (does not stop the remote request, but ignores the result)"
+                          title="Stop generation and keep any streamed text as a recoverable draft"
                         >
                           <span>Cancel</span>
                         </button>
                       ) : (
                         <button
+                          disabled={!can('generate')}
                           onClick={() => handleGenerateNext("Introduce a shocking reversal or 'BUT' event.")}
                           className="py-3 md:py-4 border border-zinc-700 rounded-xl font-fantasy text-sm md:text-base font-semibold text-zinc-400 hover:text-red-400 hover:border-red-500/50 transition-all duration-200 flex items-center justify-center space-x-2 hover:bg-red-950/10"
                           title="Generate a chapter with a shocking reversal or 'BUT' event"
@@ -4266,6 +4544,7 @@ the reader's choice. The consequences should begin to manifest in this chapter.
                       isVisible={isGenerating}
                       progress={generationProgress}
                       statusMessage={generationStatus}
+                      onCancel={handleCancelGeneration}
                     />
                   </div>
                 </div>
@@ -4448,7 +4727,29 @@ the reader's choice. The consequences should begin to manifest in this chapter.
           </div>
         )}
 
-        {currentView === 'editor' && activeChapter && (
+        {currentView === 'editor' && isStreamingChapter && (
+          <StreamingChapterPreview
+            preview={streamingPreview}
+            isVisible={isGenerating}
+            chapterNumber={Math.max(...activeNovel.chapters.map(c => c.number), 0) + 1}
+            statusMessage={generationStatus}
+            onCancel={handleCancelGeneration}
+          />
+        )}
+        {currentView === 'editor' && !isStreamingChapter && activeChapter && !can('comment') && (
+          <Suspense fallback={<LoadingSpinnerCentered />}>
+            <ChapterReader
+              chapter={activeChapter}
+              novelState={activeNovel}
+              onClose={() => setView('chapters')}
+              onNavigateChapter={(chapterId) => {
+                setActiveChapterId(chapterId);
+                setView('editor');
+              }}
+            />
+          </Suspense>
+        )}
+        {currentView === 'editor' && !isStreamingChapter && activeChapter && can('comment') && (
           <Suspense fallback={<LoadingSpinnerCentered />}>
             <ChapterEditor
               chapter={activeChapter}
@@ -4464,7 +4765,7 @@ the reader's choice. The consequences should begin to manifest in this chapter.
         )}
         {currentView === 'world-map' && (
           <Suspense fallback={<LoadingSpinnerCentered />}>
-            <WorldMapView state={activeNovel} onSaveTerritory={handleSaveTerritory} onDeleteTerritory={handleDeleteTerritory} />
+            <WorldMapView state={activeNovel} onSaveTerritory={handleSaveTerritory} onDeleteTerritory={handleDeleteTerritory} onUpdateWorldMap={handleUpdateWorldMap} />
           </Suspense>
         )}
         {currentView === 'storyboard' && (
@@ -4474,7 +4775,11 @@ the reader's choice. The consequences should begin to manifest in this chapter.
         )}
         {currentView === 'timeline' && (
           <Suspense fallback={<LoadingSpinnerCentered />}>
-            <TimelineView novelState={activeNovel} />
+            <TimelineView
+              novelState={activeNovel}
+              onUpdateCalendar={handleUpdateCalendar}
+              onSetInWorldTime={handleSetInWorldTime}
+            />
           </Suspense>
         )}
         {currentView === 'beatsheet' && (
@@ -4494,7 +4799,13 @@ the reader's choice. The consequences should begin to manifest in this chapter.
         )}
         {currentView === 'search' && (
           <Suspense fallback={<LoadingSpinnerCentered />}>
-            <GlobalSearch novelState={activeNovel} />
+            <GlobalSearch
+              novelState={activeNovel}
+              onReplaceChapters={can('edit_content') ? (replaced) => {
+                const byId = new Map(replaced.map(c => [c.id, c]));
+                updateActiveNovel(prev => ({ ...prev, chapters: prev.chapters.map(c => byId.get(c.id) ?? c) }));
+              } : undefined}
+            />
           </Suspense>
         )}
         {currentView === 'goals' && (
@@ -4594,6 +4905,25 @@ the reader's choice. The consequences should begin to manifest in this chapter.
                     </span>
                   )}
                 </button>
+                {/* Power Systems Toggle Button */}
+                <button
+                  onClick={() => setShowPowerSystemPanel(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2.5 rounded-xl font-semibold text-sm transition-all duration-200 whitespace-nowrap ${showPowerSystemPanel
+                    ? 'bg-amber-600/20 text-amber-400 border border-amber-600/30 hover:bg-amber-600/30'
+                    : 'bg-zinc-800 text-zinc-400 border border-zinc-700 hover:bg-zinc-700 hover:text-zinc-300'
+                    }`}
+                  title="Define this novel's power ladders"
+                  aria-label="Toggle Power Systems Panel"
+                >
+                  <span>⚡</span>
+                  <span>Power Systems</span>
+                  {activeNovel.powerSystems && activeNovel.powerSystems.length > 0 && (
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded-full ${showPowerSystemPanel ? 'bg-amber-600/30' : 'bg-zinc-700'
+                      }`}>
+                      {activeNovel.powerSystems.length}
+                    </span>
+                  )}
+                </button>
                 <div className="flex items-center bg-zinc-900 border border-zinc-700 rounded-xl px-4 py-2.5 space-x-3 flex-shrink-0">
                   <span className="text-xs font-semibold text-zinc-400 uppercase tracking-wide whitespace-nowrap">Dictate Lore:</span>
                   <VoiceInput onResult={handleVoiceLore} />
@@ -4629,6 +4959,25 @@ the reader's choice. The consequences should begin to manifest in this chapter.
               </div>
             )}
 
+            {/* Power Systems Panel - per-novel power ladders */}
+            {showPowerSystemPanel && (
+              <div className="mb-8 md:mb-12 bg-zinc-900/50 border border-amber-900/30 rounded-2xl p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xl">⚡</span>
+                    <h3 className="text-base md:text-lg font-bold text-amber-400">Power Systems</h3>
+                  </div>
+                  <p className="text-xs text-zinc-500 hidden sm:block">
+                    Realms and rules used by progression checks and chapter prompts
+                  </p>
+                </div>
+                <PowerSystemEditor
+                  powerSystems={activeNovel.powerSystems}
+                  onUpdatePowerSystems={handleUpdatePowerSystems}
+                />
+              </div>
+            )}
+
             {activeNovel.worldBible.filter(e => e.realmId === activeNovel.currentRealmId).length === 0 ? (
               <div className="py-16 px-8 text-center border-2 border-dashed border-zinc-700 rounded-2xl bg-zinc-900/30">
                 <div className="text-6xl mb-4">📜</div>
@@ -5285,6 +5634,18 @@ the reader's choice. The consequences should begin to manifest in this chapter.
           </Suspense>
         )}
 
+        {currentView === 'universe' && activeNovel && (
+          <Suspense fallback={<LoadingSpinnerCentered />}>
+            <UniverseView novel={activeNovel} />
+          </Suspense>
+        )}
+
+        {currentView === 'members' && activeNovel && (
+          <Suspense fallback={<LoadingSpinnerCentered />}>
+            <MembersView novel={activeNovel} />
+          </Suspense>
+        )}
+
         {currentView === 'gate-history' && activeNovel && (
           <Suspense fallback={<LoadingSpinnerCentered />}>
             <div className="p-6 md:p-8 lg:p-12 max-w-5xl mx-auto pt-20 md:pt-24">
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- IN-WORLD CALENDAR
+-- ============================================================================
+-- Adds the per-novel calendar (months, eras, story start day), in-story
+-- timestamps for chapters and scenes, and the in-world day a character's
+-- recorded age refers to. Timestamps are { day, source } where day counts
+-- days since the calendar epoch.
+-- ============================================================================
+
+ALTER TABLE novels ADD COLUMN IF NOT EXISTS calendar JSONB;
+ALTER TABLE chapters ADD COLUMN IF NOT EXISTS in_world_time JSONB;
+ALTER TABLE scenes ADD COLUMN IF NOT EXISTS in_world_time JSONB;
+ALTER TABLE characters ADD COLUMN IF NOT EXISTS age_anchor_day DOUBLE PRECISION;
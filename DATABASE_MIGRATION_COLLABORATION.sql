@@ -0,0 +1,9 @@
+-- ============================================================================
+-- COLLABORATIVE EDITING
+-- ============================================================================
+-- Adds the co-editing anchor of editor comments: the ids of the first and
+-- last commented characters in the shared chapter document, so a comment
+-- keeps its range while several writers edit the chapter at once.
+-- ============================================================================
+
+ALTER TABLE editor_comments ADD COLUMN IF NOT EXISTS anchor JSONB;
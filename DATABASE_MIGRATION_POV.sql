@@ -0,0 +1,12 @@
+-- ============================================================================
+-- VIEWPOINT CHARACTERS AND KNOWLEDGE LEDGER
+-- ============================================================================
+-- Adds the viewpoint character of each chapter and scene, and the per-novel
+-- list of facts tracked for viewpoint characters (who learned what, and in
+-- which chapter). The character columns carry no foreign key because
+-- chapters and scenes are saved before characters in one save.
+-- ============================================================================
+
+ALTER TABLE chapters ADD COLUMN IF NOT EXISTS pov_character_id UUID;
+ALTER TABLE scenes ADD COLUMN IF NOT EXISTS pov_character_id UUID;
+ALTER TABLE novels ADD COLUMN IF NOT EXISTS knowledge_facts JSONB;
@@ -0,0 +1,9 @@
+-- ============================================================================
+-- PER-NOVEL POWER SYSTEMS
+-- ============================================================================
+-- Stores each novel's power ladders (stages, sub-stages, aliases and
+-- progression rules) edited in the World Bible. NULL means the novel uses the
+-- generic cultivation ladder.
+-- ============================================================================
+
+ALTER TABLE novels ADD COLUMN IF NOT EXISTS power_systems JSONB;
@@ -0,0 +1,279 @@
+-- ============================================================================
+-- NOVEL ROLES
+-- ============================================================================
+-- Shares a novel with other signed-in users in one of four roles:
+--   author       owner of the novel (implicitly) or invited author: everything
+--   co_writer    writes chapters and the world; cannot delete chapters,
+--                generate, roll back or manage members
+--   editor       reads, comments and suggests (editor_suggestions)
+--   beta_reader  reads and highlights
+--
+-- Replaces the owner-only policies of DATABASE_MIGRATION_AUTHENTICATION.sql
+-- and the permissive "Enable all" setup policies with policies based on the
+-- caller's role in the novel a row belongs to.
+-- Generation runs in the browser and saves rows like a co-writer's manual
+-- edits, so "only authors generate" is enforced by the app; rolling back
+-- improvements is enforced here through improvement_history.
+--
+-- Run after DATABASE_MIGRATION_AUTHENTICATION.sql; DATABASE_TEST_ROLES.sql
+-- checks the result.
+-- ============================================================================
+
+-- Step 1: Members and invitations
+CREATE TABLE IF NOT EXISTS novel_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  novel_id UUID NOT NULL REFERENCES novels(id) ON DELETE CASCADE,
+  -- Set when the invitee signs in with the invited email
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('author', 'co_writer', 'editor', 'beta_reader')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  invited_at TIMESTAMPTZ DEFAULT NOW(),
+  accepted_at TIMESTAMPTZ,
+  UNIQUE (novel_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_novel_members_novel_id ON novel_members(novel_id);
+CREATE INDEX IF NOT EXISTS idx_novel_members_user_id ON novel_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_novel_members_email ON novel_members(lower(email));
+
+-- Step 2: Role lookup (SECURITY DEFINER so policies can read novels and
+-- novel_members without recursing into their own policies)
+CREATE OR REPLACE FUNCTION novel_role(p_novel_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL OR p_novel_id IS NULL THEN NULL
+    WHEN EXISTS (SELECT 1 FROM novels WHERE id = p_novel_id AND user_id = auth.uid()) THEN 'author'
+    ELSE (SELECT role FROM novel_members WHERE novel_id = p_novel_id AND user_id = auth.uid() LIMIT 1)
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION chapter_novel_id(p_chapter_id UUID)
+RETURNS UUID AS $$
+  SELECT novel_id FROM chapters WHERE id = p_chapter_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION realm_novel_id(p_realm_id UUID)
+RETURNS UUID AS $$
+  SELECT novel_id FROM realms WHERE id = p_realm_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION character_novel_id(p_character_id UUID)
+RETURNS UUID AS $$
+  SELECT novel_id FROM characters WHERE id = p_character_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION antagonist_novel_id(p_antagonist_id UUID)
+RETURNS UUID AS $$
+  SELECT novel_id FROM antagonists WHERE id = p_antagonist_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 3: Accepting invitations (called by the app after sign-in)
+CREATE OR REPLACE FUNCTION accept_novel_invites()
+RETURNS INTEGER AS $$
+DECLARE
+  accepted INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE novel_members
+  SET user_id = auth.uid(), accepted_at = NOW()
+  WHERE user_id IS NULL
+    AND lower(email) = lower(auth.jwt() ->> 'email');
+
+  GET DIAGNOSTICS accepted = ROW_COUNT;
+  RETURN accepted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Step 4: Novels - members read, writers update, only the owner deletes
+ALTER TABLE novel_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS novels_select ON novels;
+DROP POLICY IF EXISTS novels_insert ON novels;
+DROP POLICY IF EXISTS novels_update ON novels;
+DROP POLICY IF EXISTS novels_delete ON novels;
+
+CREATE POLICY novels_select ON novels FOR SELECT USING (novel_role(id) IS NOT NULL);
+CREATE POLICY novels_insert ON novels FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY novels_update ON novels FOR UPDATE
+  USING (novel_role(id) IN ('author', 'co_writer'))
+  WITH CHECK (novel_role(id) IN ('author', 'co_writer'));
+CREATE POLICY novels_delete ON novels FOR DELETE USING (auth.uid() = user_id);
+
+-- Co-writers may update a novel, but only its owner may hand it to someone
+-- else; otherwise a co-writer could take user_id and become its author
+CREATE OR REPLACE FUNCTION protect_novel_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Only the owner of a novel can change its owner'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS novels_protect_owner ON novels;
+CREATE TRIGGER novels_protect_owner
+  BEFORE UPDATE OF user_id ON novels
+  FOR EACH ROW EXECUTE FUNCTION protect_novel_owner();
+
+-- Step 5: Members - visible to the novel's members and to the invitee,
+-- managed by its authors
+DROP POLICY IF EXISTS novel_members_select ON novel_members;
+DROP POLICY IF EXISTS novel_members_insert ON novel_members;
+DROP POLICY IF EXISTS novel_members_update ON novel_members;
+DROP POLICY IF EXISTS novel_members_delete ON novel_members;
+
+CREATE POLICY novel_members_select ON novel_members FOR SELECT
+  USING (novel_role(novel_id) IS NOT NULL OR lower(email) = lower(auth.jwt() ->> 'email'));
+CREATE POLICY novel_members_insert ON novel_members FOR INSERT
+  WITH CHECK (novel_role(novel_id) = 'author');
+CREATE POLICY novel_members_update ON novel_members FOR UPDATE
+  USING (novel_role(novel_id) = 'author')
+  WITH CHECK (novel_role(novel_id) = 'author');
+CREATE POLICY novel_members_delete ON novel_members FOR DELETE
+  USING (novel_role(novel_id) = 'author');
+
+-- Step 6: Story content - members read, authors and co-writers write,
+-- only authors delete chapters. Each table is matched to its novel through
+-- the first key column it has.
+DO $$
+DECLARE
+  target_table TEXT;
+  novel_expr TEXT;
+  delete_roles TEXT;
+  tables TEXT[] := ARRAY[
+    'realms', 'territories', 'world_entries', 'characters',
+    'character_skills', 'character_items', 'relationships',
+    'chapters', 'scenes', 'arcs', 'system_logs', 'tags', 'writing_goals',
+    'story_threads', 'novel_items', 'novel_techniques', 'character_item_possessions',
+    'character_technique_mastery', 'antagonists', 'antagonist_relationships',
+    'antagonist_arcs', 'antagonist_chapters', 'antagonist_groups',
+    'antagonist_progression', 'foreshadowing_elements', 'symbolic_elements',
+    'emotional_payoffs', 'subtext_elements', 'editor_reports', 'editor_fixes',
+    'recurring_issue_patterns', 'pattern_occurrences'
+  ];
+BEGIN
+  FOREACH target_table IN ARRAY tables
+  LOOP
+    IF NOT EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = target_table) THEN
+      CONTINUE;
+    END IF;
+
+    SELECT CASE c.column_name
+      WHEN 'novel_id' THEN 'novel_id'
+      WHEN 'chapter_id' THEN 'chapter_novel_id(chapter_id)'
+      WHEN 'realm_id' THEN 'realm_novel_id(realm_id)'
+      WHEN 'character_id' THEN 'character_novel_id(character_id)'
+      WHEN 'antagonist_id' THEN 'antagonist_novel_id(antagonist_id)'
+    END INTO novel_expr
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = target_table
+      AND c.column_name IN ('novel_id', 'chapter_id', 'realm_id', 'character_id', 'antagonist_id')
+    ORDER BY array_position(ARRAY['novel_id', 'chapter_id', 'realm_id', 'character_id', 'antagonist_id'], c.column_name::TEXT)
+    LIMIT 1;
+
+    -- Tables not tied to a novel keep their owner-only policies
+    IF novel_expr IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    delete_roles := CASE WHEN target_table = 'chapters' THEN '''author''' ELSE '''author'', ''co_writer''' END;
+
+    -- Permissive policies are OR-ed with these, so the open setup ones must go
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', target_table);
+    EXECUTE format('DROP POLICY IF EXISTS "Enable all for anon" ON %I', target_table);
+    EXECUTE format('DROP POLICY IF EXISTS "Enable all for authenticated" ON %I', target_table);
+    EXECUTE format('DROP POLICY IF EXISTS %I_select ON %I', target_table, target_table);
+    EXECUTE format('DROP POLICY IF EXISTS %I_insert ON %I', target_table, target_table);
+    EXECUTE format('DROP POLICY IF EXISTS %I_update ON %I', target_table, target_table);
+    EXECUTE format('DROP POLICY IF EXISTS %I_delete ON %I', target_table, target_table);
+
+    EXECUTE format(
+      'CREATE POLICY %I_select ON %I FOR SELECT USING (novel_role(%s) IS NOT NULL)',
+      target_table, target_table, novel_expr
+    );
+    EXECUTE format(
+      'CREATE POLICY %I_insert ON %I FOR INSERT WITH CHECK (novel_role(%s) IN (''author'', ''co_writer''))',
+      target_table, target_table, novel_expr
+    );
+    EXECUTE format(
+      'CREATE POLICY %I_update ON %I FOR UPDATE USING (novel_role(%s) IN (''author'', ''co_writer'')) WITH CHECK (novel_role(%s) IN (''author'', ''co_writer''))',
+      target_table, target_table, novel_expr, novel_expr
+    );
+    EXECUTE format(
+      'CREATE POLICY %I_delete ON %I FOR DELETE USING (novel_role(%s) IN (%s))',
+      target_table, target_table, novel_expr, delete_roles
+    );
+  END LOOP;
+END $$;
+
+-- Step 7: Annotations - editors comment and suggest, every member
+-- highlights; writers resolve, and everyone may change or remove their own
+DROP POLICY IF EXISTS editor_comments_select ON editor_comments;
+DROP POLICY IF EXISTS editor_comments_insert ON editor_comments;
+DROP POLICY IF EXISTS editor_comments_update ON editor_comments;
+DROP POLICY IF EXISTS editor_comments_delete ON editor_comments;
+
+CREATE POLICY editor_comments_select ON editor_comments FOR SELECT
+  USING (novel_role(chapter_novel_id(chapter_id)) IS NOT NULL);
+CREATE POLICY editor_comments_insert ON editor_comments FOR INSERT
+  WITH CHECK (novel_role(chapter_novel_id(chapter_id)) IN ('author', 'co_writer', 'editor'));
+CREATE POLICY editor_comments_update ON editor_comments FOR UPDATE
+  USING (novel_role(chapter_novel_id(chapter_id)) IN ('author', 'co_writer') OR auth.uid() = user_id);
+CREATE POLICY editor_comments_delete ON editor_comments FOR DELETE
+  USING (novel_role(chapter_novel_id(chapter_id)) = 'author' OR auth.uid() = user_id);
+
+DROP POLICY IF EXISTS editor_suggestions_select ON editor_suggestions;
+DROP POLICY IF EXISTS editor_suggestions_insert ON editor_suggestions;
+DROP POLICY IF EXISTS editor_suggestions_update ON editor_suggestions;
+DROP POLICY IF EXISTS editor_suggestions_delete ON editor_suggestions;
+
+CREATE POLICY editor_suggestions_select ON editor_suggestions FOR SELECT
+  USING (novel_role(chapter_novel_id(chapter_id)) IS NOT NULL);
+CREATE POLICY editor_suggestions_insert ON editor_suggestions FOR INSERT
+  WITH CHECK (novel_role(chapter_novel_id(chapter_id)) IN ('author', 'co_writer', 'editor'));
+CREATE POLICY editor_suggestions_update ON editor_suggestions FOR UPDATE
+  USING (novel_role(chapter_novel_id(chapter_id)) IN ('author', 'co_writer'));
+CREATE POLICY editor_suggestions_delete ON editor_suggestions FOR DELETE
+  USING (novel_role(chapter_novel_id(chapter_id)) = 'author' OR auth.uid() = user_id);
+
+DROP POLICY IF EXISTS editor_highlights_select ON editor_highlights;
+DROP POLICY IF EXISTS editor_highlights_insert ON editor_highlights;
+DROP POLICY IF EXISTS editor_highlights_update ON editor_highlights;
+DROP POLICY IF EXISTS editor_highlights_delete ON editor_highlights;
+
+CREATE POLICY editor_highlights_select ON editor_highlights FOR SELECT
+  USING (novel_role(chapter_novel_id(chapter_id)) IS NOT NULL);
+CREATE POLICY editor_highlights_insert ON editor_highlights FOR INSERT
+  WITH CHECK (novel_role(chapter_novel_id(chapter_id)) IS NOT NULL);
+CREATE POLICY editor_highlights_update ON editor_highlights FOR UPDATE
+  USING (novel_role(chapter_novel_id(chapter_id)) = 'author' OR auth.uid() = user_id);
+CREATE POLICY editor_highlights_delete ON editor_highlights FOR DELETE
+  USING (novel_role(chapter_novel_id(chapter_id)) = 'author' OR auth.uid() = user_id);
+
+-- Step 8: Improvements - members read the history, only authors record
+-- improvements and roll them back
+DROP POLICY IF EXISTS improvement_history_select_own ON improvement_history;
+DROP POLICY IF EXISTS improvement_history_insert_own ON improvement_history;
+DROP POLICY IF EXISTS improvement_history_update_own ON improvement_history;
+DROP POLICY IF EXISTS improvement_history_delete_own ON improvement_history;
+DROP POLICY IF EXISTS improvement_history_select ON improvement_history;
+DROP POLICY IF EXISTS improvement_history_insert ON improvement_history;
+DROP POLICY IF EXISTS improvement_history_update ON improvement_history;
+DROP POLICY IF EXISTS improvement_history_delete ON improvement_history;
+
+CREATE POLICY improvement_history_select ON improvement_history FOR SELECT
+  USING (novel_role(novel_id) IS NOT NULL);
+CREATE POLICY improvement_history_insert ON improvement_history FOR INSERT
+  WITH CHECK (novel_role(novel_id) = 'author');
+CREATE POLICY improvement_history_update ON improvement_history FOR UPDATE
+  USING (novel_role(novel_id) = 'author')
+  WITH CHECK (novel_role(novel_id) = 'author');
+CREATE POLICY improvement_history_delete ON improvement_history FOR DELETE
+  USING (novel_role(novel_id) = 'author');
@@ -0,0 +1,8 @@
+-- ============================================================================
+-- SECRETS LEDGER
+-- ============================================================================
+-- Adds the per-novel list of secrets: what each secret is, its reveal
+-- status, and which characters hold it from which chapter.
+-- ============================================================================
+
+ALTER TABLE novels ADD COLUMN IF NOT EXISTS secrets JSONB;
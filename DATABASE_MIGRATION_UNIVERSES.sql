@@ -0,0 +1,38 @@
+-- ============================================================================
+-- SHARED UNIVERSES AND SERIES
+-- ============================================================================
+-- Adds universes (realms, world entries, characters, techniques and power
+-- ladders shared by several novels), the link of each novel to its universe
+-- with its per-novel overrides, and the series info of sequels.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS universes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  realms JSONB,
+  world_bible JSONB,
+  characters JSONB,
+  techniques JSONB,
+  power_systems JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_universes_user_id ON universes(user_id);
+
+ALTER TABLE universes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS universes_select ON universes;
+DROP POLICY IF EXISTS universes_insert ON universes;
+DROP POLICY IF EXISTS universes_update ON universes;
+DROP POLICY IF EXISTS universes_delete ON universes;
+
+CREATE POLICY universes_select ON universes FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY universes_insert ON universes FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY universes_update ON universes FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY universes_delete ON universes FOR DELETE USING (auth.uid() = user_id);
+
+ALTER TABLE novels ADD COLUMN IF NOT EXISTS universe_link JSONB;
+ALTER TABLE novels ADD COLUMN IF NOT EXISTS series JSONB;
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- WORLD MAP
+-- ============================================================================
+-- Stores where each territory sits on its realm's map canvas (a pin or a
+-- polygon outline), plus the per-realm canvases and the travel routes between
+-- territories. Coordinates are map units on a 1000 x 650 canvas.
+-- ============================================================================
+
+ALTER TABLE territories ADD COLUMN IF NOT EXISTS map_placement JSONB;
+
+-- { canvases: [{ realmId, backgroundImage?, widthDistance?, distanceUnit? }],
+--   routes: [{ id, realmId, fromTerritoryId, toTerritoryId, travelTime?, ... }] }
+ALTER TABLE novels ADD COLUMN IF NOT EXISTS world_map JSONB;
@@ -0,0 +1,66 @@
+-- ============================================================================
+-- NOVEL ROLES - POLICY CHECKS
+-- ============================================================================
+-- Run in the Supabase SQL editor (or psql as postgres) after
+-- DATABASE_MIGRATION_ROLES.sql. Everything happens in one transaction that
+-- is rolled back, so no test users or novels are left behind. A failed
+-- check raises an exception naming it.
+-- ============================================================================
+
+BEGIN;
+
+INSERT INTO auth.users (id, email)
+VALUES
+  ('00000000-0000-4000-a000-000000000001', 'owner@roles.test'),
+  ('00000000-0000-4000-a000-000000000002', 'cowriter@roles.test');
+
+INSERT INTO novels (id, title, genre, user_id)
+VALUES ('00000000-0000-4000-b000-000000000001', 'Roles Test', 'Xianxia', '00000000-0000-4000-a000-000000000001');
+
+INSERT INTO novel_members (novel_id, user_id, email, role, accepted_at)
+VALUES (
+  '00000000-0000-4000-b000-000000000001',
+  '00000000-0000-4000-a000-000000000002',
+  'cowriter@roles.test',
+  'co_writer',
+  NOW()
+);
+
+-- Act as the co-writer
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000002", "role": "authenticated"}', true);
+
+-- A co-writer edits the novel...
+DO $$
+BEGIN
+  UPDATE novels SET grand_saga = 'Edited by the co-writer' WHERE id = '00000000-0000-4000-b000-000000000001';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'FAILED: co-writer could not update the novel';
+  END IF;
+END $$;
+
+-- ...but cannot make themselves its owner
+DO $$
+BEGIN
+  BEGIN
+    UPDATE novels SET user_id = auth.uid() WHERE id = '00000000-0000-4000-b000-000000000001';
+  EXCEPTION WHEN insufficient_privilege THEN
+    RETURN;
+  END;
+  RAISE EXCEPTION 'FAILED: co-writer took ownership of the novel';
+END $$;
+
+-- Act as the owner, who may hand the novel over
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000001", "role": "authenticated"}', true);
+
+DO $$
+BEGIN
+  UPDATE novels SET user_id = '00000000-0000-4000-a000-000000000002' WHERE id = '00000000-0000-4000-b000-000000000001';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'FAILED: owner could not transfer the novel';
+  END IF;
+END $$;
+
+SELECT 'All role policy checks passed' AS result;
+
+ROLLBACK;
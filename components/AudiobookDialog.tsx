@@ -0,0 +1,277 @@
+/**
+ * Audiobook Dialog
+ * Renders a chapter or an arc to downloadable WAV files, one per chapter,
+ * with a voice for the narrator and each speaking character
+ */
+
+import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { NovelState } from '../types';
+import type { AudiobookCast, AudiobookRenderJob, AudiobookRenderProgress } from '../types/audiobook';
+import { buildChapterScript, speakingCharacters } from '../services/audiobook/audiobookScript';
+import { castVoices, loadSavedCast, saveCast } from '../services/audiobook/voiceCasting';
+import { buildCueSheet, clearRenderJob, loadRenderJob, renderAudiobook } from '../services/audiobook/audiobookRenderer';
+import { geminiTTS } from '../services/ttsProviders/geminiTTS';
+import { getLexicon } from '../services/pronunciationService';
+import { ttsCache } from '../services/ttsProviders/ttsCache';
+import { downloadFile } from '../services/exportService';
+import { getChaptersForArc, sortChapters } from '../utils/manuscriptUtils';
+import { isAbortError } from '../utils/streaming';
+import { logger } from '../services/loggingService';
+import { useToast } from '../contexts/ToastContext';
+
+interface AudiobookDialogProps {
+  novel: NovelState;
+  onClose: () => void;
+}
+
+const RATES = [0.85, 1, 1.15];
+
+const selectClass =
+  'bg-zinc-900 border border-zinc-700 rounded-lg px-2 py-1 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none';
+
+const AudiobookDialog: React.FC<AudiobookDialogProps> = ({ novel, onClose }) => {
+  const { showError, showSuccess, showInfo } = useToast();
+  const chapters = useMemo(() => sortChapters(novel.chapters), [novel.chapters]);
+  const arcsWithChapters = useMemo(
+    () => novel.plotLedger.filter(arc => typeof arc.startedAtChapter === 'number'),
+    [novel.plotLedger]
+  );
+  const [mode, setMode] = useState<'chapter' | 'arc'>('chapter');
+  const [chapterId, setChapterId] = useState(() => chapters[chapters.length - 1]?.id || '');
+  const [arcId, setArcId] = useState(() => arcsWithChapters[0]?.id || '');
+  const [pendingJob, setPendingJob] = useState<AudiobookRenderJob | null>(() => loadRenderJob(novel.id));
+  const [progress, setProgress] = useState<AudiobookRenderProgress | null>(null);
+  const [rendering, setRendering] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const selected = useMemo(() => {
+    if (mode === 'arc') return getChaptersForArc(novel, arcId);
+    return chapters.filter(ch => ch.id === chapterId);
+  }, [mode, novel, arcId, chapters, chapterId]);
+
+  const speakers = useMemo(
+    () => speakingCharacters(selected.map(ch => buildChapterScript(ch, novel))),
+    [selected, novel]
+  );
+
+  const [cast, setCast] = useState<AudiobookCast>(() =>
+    castVoices(novel, geminiTTS.voices, [], loadSavedCast(novel.id))
+  );
+
+  useEffect(() => {
+    setCast(prev => castVoices(novel, geminiTTS.voices, speakers.map(s => s.characterId), { ...loadSavedCast(novel.id), ...prev }));
+  }, [novel, speakers]);
+
+  const updateVoice = useCallback((characterId: string | null, patch: { voiceName?: string; rate?: number }) => {
+    setCast(prev => {
+      const next: AudiobookCast = characterId
+        ? { ...prev, characters: { ...prev.characters, [characterId]: { ...prev.characters[characterId], ...patch } } }
+        : { ...prev, narrator: { ...prev.narrator, ...patch } };
+      saveCast(novel.id, next);
+      return next;
+    });
+  }, [novel.id]);
+
+  const render = useCallback(async (resume: AudiobookRenderJob | null) => {
+    const targets = resume
+      ? sortChapters(novel.chapters.filter(ch => resume.chapterIds.includes(ch.id)))
+      : selected;
+    if (targets.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRendering(true);
+    try {
+      const job = await renderAudiobook(novel, targets, {
+        provider: geminiTTS,
+        cast,
+        lexicon: getLexicon(novel),
+        cache: ttsCache,
+        job: resume,
+        signal: controller.signal,
+        onProgress: setProgress,
+        onChapterRendered: file => downloadFile(file.data, file.filename, 'audio/wav'),
+      });
+      if (job.completed.length > 1) {
+        const safeTitle = novel.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+        downloadFile(buildCueSheet(novel, job), `${safeTitle}_audiobook.cue`, 'application/x-cue');
+      }
+      setPendingJob(null);
+      showSuccess(`Rendered ${targets.length} chapter${targets.length !== 1 ? 's' : ''} to audio`);
+    } catch (error) {
+      setPendingJob(loadRenderJob(novel.id));
+      if (isAbortError(error)) {
+        showInfo('Render paused; finished chapters are kept and it can be resumed');
+      } else {
+        logger.error('Audiobook render failed', 'audiobook', error instanceof Error ? error : undefined);
+        showError(`Render stopped: ${error instanceof Error ? error.message : 'unknown error'}. It can be resumed.`);
+      }
+    } finally {
+      abortRef.current = null;
+      setRendering(false);
+      setProgress(null);
+    }
+  }, [novel, selected, cast, showSuccess, showInfo, showError]);
+
+  const discardJob = useCallback(() => {
+    clearRenderJob(novel.id);
+    setPendingJob(null);
+  }, [novel.id]);
+
+  const characterName = (id: string) => novel.characterCodex.find(c => c.id === id)?.name || 'Unknown';
+  const available = geminiTTS.isAvailable();
+
+  const voiceRow = (label: string, characterId: string | null, lines?: number) => {
+    const profile = characterId ? cast.characters[characterId] : cast.narrator;
+    if (!profile) return null;
+    return (
+      <div key={characterId || 'narrator'} className="flex items-center gap-2 text-sm">
+        <span className="flex-1 text-zinc-300 truncate">
+          {label}
+          {lines !== undefined && <span className="text-zinc-500 text-xs ml-1">({lines} line{lines !== 1 ? 's' : ''})</span>}
+        </span>
+        <select
+          value={profile.voiceName}
+          onChange={e => updateVoice(characterId, { voiceName: e.target.value })}
+          className={selectClass}
+          aria-label={`Voice for ${label}`}
+          disabled={rendering}
+        >
+          {geminiTTS.voices.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+        </select>
+        <select
+          value={profile.rate}
+          onChange={e => updateVoice(characterId, { rate: Number(e.target.value) })}
+          className={selectClass}
+          aria-label={`Pace for ${label}`}
+          disabled={rendering}
+        >
+          {RATES.map(rate => <option key={rate} value={rate}>{rate === 1 ? 'Normal' : rate < 1 ? 'Slow' : 'Brisk'}</option>)}
+        </select>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/95 backdrop-blur-xl flex items-center justify-center z-50 p-4">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-zinc-700">
+          <h2 className="text-2xl font-fantasy font-bold text-amber-500">Render Audiobook</h2>
+          <button
+            onClick={onClose}
+            className="text-zinc-500 hover:text-zinc-300 w-8 h-8 flex items-center justify-center rounded-lg hover:bg-zinc-800 transition-colors"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!available && (
+            <p className="text-sm text-red-400">
+              Rendering audio files needs GEMINI_API_KEY; browser speech can only read aloud live.
+            </p>
+          )}
+
+          {pendingJob && !rendering && (
+            <div className="bg-amber-900/20 border border-amber-700/50 rounded-xl p-4 space-y-2">
+              <p className="text-sm text-amber-300">
+                An earlier render stopped after {pendingJob.completed.length} of {pendingJob.chapterIds.length} chapters.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => render(pendingJob)}
+                  disabled={!available}
+                  className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-40"
+                >
+                  Resume
+                </button>
+                <button onClick={discardJob} className="px-3 py-1.5 rounded-lg text-sm bg-zinc-800 hover:bg-zinc-700 text-zinc-300">
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <select
+              value={mode}
+              onChange={e => setMode(e.target.value as 'chapter' | 'arc')}
+              className={`${selectClass} w-full py-2`}
+              aria-label="What to render"
+              disabled={rendering}
+            >
+              <option value="chapter">Single chapter</option>
+              <option value="arc" disabled={arcsWithChapters.length === 0}>Whole arc</option>
+            </select>
+            {mode === 'chapter' ? (
+              <select
+                value={chapterId}
+                onChange={e => setChapterId(e.target.value)}
+                className={`${selectClass} w-full py-2`}
+                aria-label="Chapter"
+                disabled={rendering}
+              >
+                {chapters.map(ch => <option key={ch.id} value={ch.id}>Chapter {ch.number}: {ch.title}</option>)}
+              </select>
+            ) : (
+              <select
+                value={arcId}
+                onChange={e => setArcId(e.target.value)}
+                className={`${selectClass} w-full py-2`}
+                aria-label="Arc"
+                disabled={rendering}
+              >
+                {arcsWithChapters.map(arc => <option key={arc.id} value={arc.id}>{arc.title}</option>)}
+              </select>
+            )}
+          </div>
+
+          <div className="bg-zinc-800 border border-zinc-700 rounded-xl p-4 space-y-2">
+            <p className="text-xs font-bold text-zinc-400 uppercase tracking-wide">Voices</p>
+            {voiceRow('Narrator', null)}
+            {speakers.map(s => voiceRow(characterName(s.characterId), s.characterId, s.lines))}
+            {speakers.length === 0 && (
+              <p className="text-xs text-zinc-500">No dialogue could be attributed; the narrator reads everything.</p>
+            )}
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+                <div className="h-full bg-amber-500 transition-all" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+              </div>
+              <p className="text-xs text-zinc-400">
+                Chapter {progress.chapterNumber} ({progress.chapterIndex + 1} of {progress.chapterCount}) · line {progress.segmentIndex} of {progress.segmentCount}
+                {progress.cachedSegments > 0 && ` · ${progress.cachedSegments} from cache`}
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            {rendering ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-4 py-2 rounded-lg text-sm bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700"
+              >
+                Pause
+              </button>
+            ) : (
+              <button
+                onClick={() => render(null)}
+                disabled={!available || selected.length === 0}
+                className="px-4 py-2 rounded-lg text-sm font-semibold bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Render {selected.length} chapter{selected.length !== 1 ? 's' : ''}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(AudiobookDialog);
@@ -14,7 +14,7 @@ import { RelatedEntities } from './RelatedEntities';
 // Professional Editor Features
 import { EditingMode, EditorComment, EditorSuggestion, EditorHighlight, StyleCheck, HighlightCategory } from '../types/editor';
 import { getComments, createComment, updateComment, deleteComment, resolveComment, unresolveComment } from '../services/commentService';
-import { getSuggestions, acceptSuggestion, rejectSuggestion } from '../services/suggestionService';
+import { getSuggestions, createSuggestion, acceptSuggestion, rejectSuggestion } from '../services/suggestionService';
 import { getHighlights, createHighlight, deleteHighlight, getDefaultColorForType } from '../services/highlightService';
 import { getStyleChecks, checkChapter } from '../services/styleCheckerService';
 import TrackChangesView from './TrackChangesView';
@@ -31,6 +31,15 @@ import { ChapterNavigation } from './chapterEditor/ChapterNavigation';
 import { ChapterScenesEditor } from './chapterEditor/ChapterScenesEditor';
 import { ChapterAntagonistsEditor } from './chapterEditor/ChapterAntagonistsEditor';
 import PromptDialog from './PromptDialog';
+import { CollaborationBar, RemoteCursors } from './chapterEditor/CollaborationPresence';
+import { useCollaboration } from '../hooks/useCollaboration';
+import { useAuth } from '../contexts/AuthContext';
+import { env } from '../utils/env';
+import { useNovelPermissions } from '../hooks/useNovelPermissions';
+import { ROLE_LABELS } from '../services/permissionService';
+
+/** Relay started by `npm run server`, when VITE_COLLAB_URL is not set */
+const DEFAULT_COLLAB_URL = 'ws://localhost:3001/collab';
 
 interface ChapterEditorProps {
   chapter: Chapter;
@@ -43,6 +52,10 @@ interface ChapterEditorProps {
 const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSave, onClose, onNavigateChapter }) => {
   const { showSuccess, showError } = useToast();
   const { startLoading, stopLoading, updateMessage } = useLoading();
+  const { user } = useAuth();
+  const { role, can } = useNovelPermissions(novelState);
+  // Editors read the text and work through comments and suggestions
+  const canEdit = can('edit_content');
 
   // Calculate previous and next chapters early to avoid initialization issues
   const { previousChapter, nextChapter } = useMemo(() => {
@@ -65,6 +78,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
 
   const [content, setContent] = useState(chapter.content);
   const [title, setTitle] = useState(chapter.title);
+  const [povCharacterId, setPovCharacterId] = useState(chapter.povCharacterId);
   const [isAiEditing, setIsAiEditing] = useState(false);
   const [showTTS, setShowTTS] = useState(false);
   const [instruction, setInstruction] = useState('');
@@ -108,6 +122,18 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
   const contentTextareaRef = useRef<HTMLTextAreaElement>(null);
   const instructionTextareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Co-editing through the local relay
+  const [collabEnabled, setCollabEnabled] = useState(Boolean(env.collab.url));
+  const collab = useCollaboration({
+    url: env.collab.url || DEFAULT_COLLAB_URL,
+    room: chapter.id,
+    enabled: collabEnabled,
+    userName: user?.email?.split('@')[0] || 'Writer',
+    content,
+    setContent,
+    textareaRef: contentTextareaRef,
+  });
+
   // Mobile optimization state
   const [isMobile, setIsMobile] = useState(false);
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
@@ -116,7 +142,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   const handleAiEdit = useCallback(async () => {
-    if (!instruction) return;
+    if (!instruction || !can('generate')) return;
     if (!novelState) {
       console.warn('Novel state not provided, cannot use enhanced editing');
       return;
@@ -145,15 +171,30 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
       setInstruction('');
       stopLoading();
     }
-  }, [content, instruction, novelState, chapter, showError, showSuccess, startLoading, stopLoading, updateMessage]);
+  }, [content, instruction, novelState, chapter, can, showError, showSuccess, startLoading, stopLoading, updateMessage]);
 
   const handleToggleTTS = useCallback(() => {
     setShowTTS(!showTTS);
   }, [showTTS]);
 
+  // Comments follow their anchors through collaborators' edits
+  const anchoredComments = useMemo(() => comments.map(comment => {
+    const range = collab.resolveAnchor(comment.anchor);
+    if (!range || (range.start === comment.textRange.start && range.end === comment.textRange.end)) return comment;
+    return { ...comment, textRange: range, selectedText: content.substring(range.start, range.end).substring(0, 200) };
+  }), [comments, content, collab.resolveAnchor]);
+
   const handleSave = useCallback(() => {
-    onSave({ ...chapter, content, title, scenes });
-  }, [chapter, content, title, scenes, onSave]);
+    if (!canEdit) return;
+    onSave({ ...chapter, content, title, scenes, povCharacterId });
+    // Store where moved comments now sit, for sessions that start from the saved text
+    anchoredComments.forEach((comment, i) => {
+      if (comment === comments[i]) return;
+      updateComment(comment.id, { textRange: comment.textRange, selectedText: comment.selectedText })
+        .then(updated => setComments(prev => prev.map(c => (c.id === updated.id ? updated : c))))
+        .catch(error => console.error('Error re-anchoring comment:', error instanceof Error ? error.message : String(error)));
+    });
+  }, [canEdit, chapter, content, title, scenes, povCharacterId, onSave, anchoredComments, comments]);
 
   const handleSaveScene = useCallback((updatedScene: Scene) => {
     const updatedScenes = scenes.some(s => s.id === updatedScene.id)
@@ -163,6 +204,10 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
     setEditingScene(null);
   }, [scenes]);
 
+  const handleChangeScenePov = useCallback((sceneId: string, characterId: string | undefined) => {
+    setScenes(scenes.map(s => s.id === sceneId ? { ...s, povCharacterId: characterId, updatedAt: Date.now() } : s));
+  }, [scenes]);
+
   const handleCreateScene = useCallback(() => {
     const newScene: Scene = {
       id: crypto.randomUUID(),
@@ -401,6 +446,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
   useEffect(() => {
     setContent(chapter.content);
     setTitle(chapter.title);
+    setPovCharacterId(chapter.povCharacterId);
     setScenes(chapter.scenes || []);
     setOriginalContent(chapter.content);
     setInstruction(''); // Clear AI instruction when switching chapters
@@ -418,7 +464,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
     if (mainContainer) {
       mainContainer.scrollTop = 0;
     }
-  }, [chapter.id, chapter.content, chapter.title, chapter.scenes]);
+  }, [chapter.id, chapter.content, chapter.title, chapter.povCharacterId, chapter.scenes]);
 
   // Load antagonists for this chapter
   useEffect(() => {
@@ -479,6 +525,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
 
     const start = textarea.selectionStart;
     const end = textarea.selectionEnd;
+    collab.updateCursor(start, end, textarea.value);
 
     if (start !== end) {
       const selected = content.substring(start, end);
@@ -488,7 +535,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
       setSelectedText('');
       setSelectedRange(null);
     }
-  }, [content]);
+  }, [content, collab.updateCursor]);
 
   const [showCommentPrompt, setShowCommentPrompt] = useState(false);
 
@@ -510,6 +557,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
         entityType: 'chapter',
         entityId: chapter.id,
         textRange: selectedRange,
+        anchor: collab.anchorRange(selectedRange),
         selectedText: selectedText.substring(0, 200),
         comment: commentText.trim(),
         author: 'user',
@@ -521,7 +569,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
     } catch (error: any) {
       showError(error.message || 'Failed to add comment');
     }
-  }, [chapter.id, selectedRange, selectedText, showError, showSuccess]);
+  }, [chapter.id, selectedRange, selectedText, showError, showSuccess, collab.anchorRange]);
 
   const handleAcceptSuggestion = useCallback(async (suggestionId: string) => {
     try {
@@ -545,6 +593,38 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
     }
   }, [chapter.id, showError, showSuccess]);
 
+  const [showSuggestPrompt, setShowSuggestPrompt] = useState(false);
+
+  const handleSuggestEdit = useCallback(() => {
+    if (!selectedRange || !selectedText.trim()) {
+      showError('Please select the text to suggest a change to');
+      return;
+    }
+    setShowSuggestPrompt(true);
+  }, [selectedRange, selectedText, showError]);
+
+  const confirmSuggestEdit = useCallback(async (replacement: string) => {
+    setShowSuggestPrompt(false);
+    if (!selectedRange) return;
+
+    try {
+      const suggestion = await createSuggestion({
+        chapterId: chapter.id,
+        suggestionType: replacement ? 'replacement' : 'deletion',
+        originalText: selectedText,
+        suggestedText: replacement,
+        textRange: selectedRange,
+        author: 'user',
+      });
+      setSuggestions(prev => [...prev, suggestion]);
+      setSelectedText('');
+      setSelectedRange(null);
+      showSuccess('Suggestion sent to the writers');
+    } catch (error: any) {
+      showError(error.message || 'Failed to create suggestion');
+    }
+  }, [chapter.id, selectedRange, selectedText, showError, showSuccess]);
+
   const handleHighlight = useCallback(async (category: HighlightCategory, color: string, note?: string) => {
     if (!selectedRange) return;
 
@@ -586,16 +666,17 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
     const hasUnsavedChanges =
       content !== chapter.content ||
       title !== chapter.title ||
+      povCharacterId !== chapter.povCharacterId ||
       JSON.stringify(scenes) !== JSON.stringify(chapter.scenes || []);
 
     if (hasUnsavedChanges) {
       // Auto-save before navigating
-      onSave({ ...chapter, content, title, scenes });
+      onSave({ ...chapter, content, title, scenes, povCharacterId });
     }
 
     // Navigate to the new chapter
     onNavigateChapter(chapterId);
-  }, [onNavigateChapter, chapter, content, title, scenes, onSave]);
+  }, [onNavigateChapter, chapter, content, title, scenes, povCharacterId, onSave]);
 
   // Keyboard shortcuts for navigation (Ctrl/Cmd + Left/Right Arrow)
   useEffect(() => {
@@ -644,6 +725,8 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
           activeTab={activeTab}
           isVisible={isHeaderVisible}
           isMobile={isMobile}
+          readOnly={!canEdit}
+          novel={novelState}
         />
 
         <ChapterEditorTabs
@@ -652,6 +735,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
           scenesCount={scenes.length}
           antagonistsCount={chapterAntagonists.length}
           professionalEditorBadgeCount={professionalEditorBadgeCount}
+          hiddenTabs={canEdit ? [] : ['scenes', 'antagonists']}
         />
 
         {(previousChapter || nextChapter) && (
@@ -671,15 +755,17 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
             <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
               <div className="flex-1 relative overflow-y-auto p-3 xs:p-4 sm:p-6 md:p-8 lg:p-12 scrollbar-thin">
                 {/* Voice Input - top right */}
-                <div className="absolute top-4 right-4 z-10">
-                  <VoiceInput
-                    onResult={(text) => setContent(prev => prev + "\n" + text)}
-                    className="shadow-xl bg-zinc-900/95 backdrop-blur-sm border border-zinc-700"
-                  />
-                </div>
+                {canEdit && (
+                  <div className="absolute top-4 right-4 z-10">
+                    <VoiceInput
+                      onResult={(text) => setContent(prev => prev + "\n" + text)}
+                      className="shadow-xl bg-zinc-900/95 backdrop-blur-sm border border-zinc-700"
+                    />
+                  </div>
+                )}
 
                 {/* FAB - AI Editor Toggle (Mobile Only) */}
-                {isMobile && !isAiDrawerOpen && activeTab === 'content' && (
+                {isMobile && !isAiDrawerOpen && activeTab === 'content' && can('generate') && (
                   <button
                     onClick={() => setIsAiDrawerOpen(true)}
                     className="fixed bottom-20 right-4 z-30 min-w-[56px] min-h-[56px] rounded-full bg-gradient-to-br from-amber-600 to-amber-500 text-white font-semibold text-sm shadow-lg shadow-amber-900/40 hover:shadow-xl hover:shadow-amber-900/50 hover:scale-110 transition-all duration-200 flex items-center justify-center md:hidden"
@@ -690,9 +776,23 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
                   </button>
                 )}
 
+                <CollaborationBar
+                  status={collab.status}
+                  peers={collab.peers}
+                  enabled={collabEnabled}
+                  onToggle={() => setCollabEnabled(prev => !prev)}
+                />
+
+                {!canEdit && (
+                  <p className="mb-3 text-xs text-zinc-500">
+                    Reading as {ROLE_LABELS[role].toLowerCase()}: select text, then comment or suggest a change from the Professional Editor tab.
+                  </p>
+                )}
+
                 <textarea
                   ref={contentTextareaRef}
                   value={content}
+                  readOnly={!canEdit}
                   data-tour="editor-content"
                   onChange={(e) => {
                     const textarea = e.target as HTMLTextAreaElement;
@@ -712,6 +812,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
                   placeholder="The story begins here... Use @ to reference characters, places, and world entries."
                   aria-label="Chapter content"
                 />
+                <RemoteCursors textareaRef={contentTextareaRef} content={content} peers={collab.peers} />
                 {showAutocomplete && autocompleteTarget === 'content' && novelState && (
                   <div className="reference-autocomplete-container">
                     <ReferenceAutocomplete
@@ -769,61 +870,63 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
                   </button>
                 )}
 
-                <div>
-                  <div className="flex justify-between items-center mb-3">
-                    <h3 className="text-sm font-bold text-zinc-400 uppercase tracking-wide">AI Editor Agent</h3>
-                    <VoiceInput onResult={(text) => setInstruction(prev => prev ? prev + " " + text : text)} />
-                  </div>
-                  <div className="relative">
-                    <textarea
-                      ref={instructionTextareaRef}
-                      value={instruction}
-                      onChange={(e) => {
-                        const textarea = e.target as HTMLTextAreaElement;
-                        handleTextChange(e.target.value, 'instruction', textarea);
-                      }}
-                      onKeyDown={(e) => {
-                        if (showAutocomplete && (e.key === 'ArrowDown' || e.key === 'ArrowUp' || e.key === 'Enter' || e.key === 'Escape')) {
-                          e.preventDefault();
-                          // Let autocomplete handle these keys
-                          return;
-                        }
-                      }}
-                      placeholder="E.g., 'Make @CharacterName's face-slapping more satisfying'... Use @ to reference entities."
-                      className="w-full bg-zinc-800/50 border border-zinc-700 rounded-lg p-3 text-sm text-zinc-300 h-24 focus:border-amber-500 focus:ring-2 focus:ring-amber-500/20 outline-none transition-all leading-relaxed"
-                      aria-label="AI editing instructions"
-                    />
-                    {showAutocomplete && autocompleteTarget === 'instruction' && novelState && (
-                      <div className="reference-autocomplete-container">
-                        <ReferenceAutocomplete
-                          query={autocompleteQuery}
-                          state={novelState}
-                          position={autocompletePosition}
-                          onSelect={handleAutocompleteSelect}
-                          onClose={() => setShowAutocomplete(false)}
-                        />
-                      </div>
-                    )}
+                {can('generate') && (
+                  <div>
+                    <div className="flex justify-between items-center mb-3">
+                      <h3 className="text-sm font-bold text-zinc-400 uppercase tracking-wide">AI Editor Agent</h3>
+                      <VoiceInput onResult={(text) => setInstruction(prev => prev ? prev + " " + text : text)} />
+                    </div>
+                    <div className="relative">
+                      <textarea
+                        ref={instructionTextareaRef}
+                        value={instruction}
+                        onChange={(e) => {
+                          const textarea = e.target as HTMLTextAreaElement;
+                          handleTextChange(e.target.value, 'instruction', textarea);
+                        }}
+                        onKeyDown={(e) => {
+                          if (showAutocomplete && (e.key === 'ArrowDown' || e.key === 'ArrowUp' || e.key === 'Enter' || e.key === 'Escape')) {
+                            e.preventDefault();
+                            // Let autocomplete handle these keys
+                            return;
+                          }
+                        }}
+                        placeholder="E.g., 'Make @CharacterName's face-slapping more satisfying'... Use @ to reference entities."
+                        className="w-full bg-zinc-800/50 border border-zinc-700 rounded-lg p-3 text-sm text-zinc-300 h-24 focus:border-amber-500 focus:ring-2 focus:ring-amber-500/20 outline-none transition-all leading-relaxed"
+                        aria-label="AI editing instructions"
+                      />
+                      {showAutocomplete && autocompleteTarget === 'instruction' && novelState && (
+                        <div className="reference-autocomplete-container">
+                          <ReferenceAutocomplete
+                            query={autocompleteQuery}
+                            state={novelState}
+                            position={autocompletePosition}
+                            onSelect={handleAutocompleteSelect}
+                            onClose={() => setShowAutocomplete(false)}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      disabled={isAiEditing}
+                      onClick={handleAiEdit}
+                      className={`w-full mt-2 py-2.5 rounded-lg text-sm font-semibold transition-all duration-200 ${isAiEditing
+                        ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
+                        : 'bg-zinc-100 text-zinc-950 hover:bg-white hover:scale-105'
+                        }`}
+                      aria-label={isAiEditing ? 'AI is editing...' : 'Rewrite with AI'}
+                    >
+                      {isAiEditing ? (
+                        <span className="flex items-center justify-center">
+                          <span className="animate-spin rounded-full h-3 w-3 border-2 border-zinc-950/30 border-t-zinc-950 mr-2"></span>
+                          Refining Prose...
+                        </span>
+                      ) : (
+                        'Rewrite with AI'
+                      )}
+                    </button>
                   </div>
-                  <button
-                    disabled={isAiEditing}
-                    onClick={handleAiEdit}
-                    className={`w-full mt-2 py-2.5 rounded-lg text-sm font-semibold transition-all duration-200 ${isAiEditing
-                      ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
-                      : 'bg-zinc-100 text-zinc-950 hover:bg-white hover:scale-105'
-                      }`}
-                    aria-label={isAiEditing ? 'AI is editing...' : 'Rewrite with AI'}
-                  >
-                    {isAiEditing ? (
-                      <span className="flex items-center justify-center">
-                        <span className="animate-spin rounded-full h-3 w-3 border-2 border-zinc-950/30 border-t-zinc-950 mr-2"></span>
-                        Refining Prose...
-                      </span>
-                    ) : (
-                      'Rewrite with AI'
-                    )}
-                  </button>
-                </div>
+                )}
 
                 <div className="p-4 bg-amber-600/10 border border-amber-600/20 rounded-lg">
                   <h4 className="text-xs text-amber-500 font-bold uppercase mb-2">Writer Tip</h4>
@@ -852,6 +955,10 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
           {activeTab === 'scenes' && (
             <ChapterScenesEditor
               scenes={scenes}
+              characters={novelState?.characterCodex}
+              povCharacterId={povCharacterId}
+              onChangeChapterPov={setPovCharacterId}
+              onChangeScenePov={handleChangeScenePov}
               onCreateScene={handleCreateScene}
               onEditScene={setEditingScene}
               onDeleteScene={handleDeleteScene}
@@ -895,23 +1002,38 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
               {/* Professional Editor Toolbar */}
               <div className="px-4 md:px-6 py-3 border-b border-zinc-700 bg-zinc-900/40">
                 <div className="flex items-center justify-between flex-wrap gap-2">
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs text-zinc-500">Edit Mode:</span>
-                    {(['normal', 'suggest', 'track'] as EditingMode[]).map(mode => (
-                      <button
-                        key={mode}
-                        onClick={() => setEditingMode(mode)}
-                        className={`px-3 py-1 text-xs rounded transition-colors ${editingMode === mode
-                          ? 'bg-amber-600/30 text-amber-400 border border-amber-600/50'
-                          : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700 border border-zinc-700'
-                          }`}
-                      >
-                        {mode === 'normal' ? 'Normal' : mode === 'suggest' ? 'Suggest' : 'Track Changes'}
-                      </button>
-                    ))}
-                  </div>
+                  {canEdit ? (
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-zinc-500">Edit Mode:</span>
+                      {(['normal', 'suggest', 'track'] as EditingMode[]).map(mode => (
+                        <button
+                          key={mode}
+                          onClick={() => setEditingMode(mode)}
+                          className={`px-3 py-1 text-xs rounded transition-colors ${editingMode === mode
+                            ? 'bg-amber-600/30 text-amber-400 border border-amber-600/50'
+                            : 'bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700 border border-zinc-700'
+                            }`}
+                        >
+                          {mode === 'normal' ? 'Normal' : mode === 'suggest' ? 'Suggest' : 'Track Changes'}
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-xs text-zinc-500">Suggesting as {ROLE_LABELS[role].toLowerCase()}</span>
+                  )}
 
                   <div className="flex items-center gap-2">
+                    {can('suggest') && (editingMode === 'suggest' || !canEdit) && (
+                      <Tooltip content="Propose new wording for the selected text. The writers accept or reject it." position="bottom" delay={200}>
+                        <button
+                          onClick={handleSuggestEdit}
+                          disabled={!selectedRange}
+                          className="px-3 py-1 text-xs rounded transition-colors bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700 border border-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Suggest Edit
+                        </button>
+                      </Tooltip>
+                    )}
                     <Tooltip content="Add comments to specific parts of your chapter. Select text and add notes for review." position="bottom" delay={200}>
                       <button
                         onClick={() => setShowComments(!showComments)}
@@ -992,7 +1114,7 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
                   {showComments && (
                     <div>
                       <CommentPanel
-                        comments={comments}
+                        comments={anchoredComments}
                         onAddComment={handleAddComment}
                         onEditComment={async (id, text) => {
                           try {
@@ -1050,8 +1172,8 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
                     <div>
                       <TrackChangesView
                         suggestions={suggestions}
-                        onAccept={handleAcceptSuggestion}
-                        onReject={handleRejectSuggestion}
+                        onAccept={can('resolve_suggestions') ? handleAcceptSuggestion : undefined}
+                        onReject={can('resolve_suggestions') ? handleRejectSuggestion : undefined}
                       />
                     </div>
                   )}
@@ -1184,11 +1306,11 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
           <RevisionHistory
             entityType="chapter"
             entityId={chapter.id}
-            onRestore={(revision) => {
+            onRestore={can('rollback') ? (revision) => {
               handleRestoreRevision(revision);
               setShowHistory(false);
               setActiveTab('content');
-            }}
+            } : undefined}
             onClose={() => {
               setShowHistory(false);
               setActiveTab('content');
@@ -1213,8 +1335,8 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
                   originalText={originalContent}
                   editedText={content}
                   suggestions={suggestions}
-                  onAccept={handleAcceptSuggestion}
-                  onReject={handleRejectSuggestion}
+                  onAccept={can('resolve_suggestions') ? handleAcceptSuggestion : undefined}
+                  onReject={can('resolve_suggestions') ? handleRejectSuggestion : undefined}
                 />
               </div>
             </div>
@@ -1232,6 +1354,18 @@ const ChapterEditor: React.FC<ChapterEditorProps> = ({ chapter, novelState, onSa
         onCancel={() => setShowCommentPrompt(false)}
         variant="info"
       />
+
+      <PromptDialog
+        isOpen={showSuggestPrompt}
+        title="Suggest Edit"
+        message={`Replace "${selectedText.substring(0, 80)}${selectedText.length > 80 ? '…' : ''}" with (leave empty to suggest deleting it):`}
+        defaultValue={selectedText}
+        placeholder="Suggested text..."
+        confirmText="Suggest"
+        onConfirm={confirmSuggestEdit}
+        onCancel={() => setShowSuggestPrompt(false)}
+        variant="info"
+      />
     </>
   );
 };
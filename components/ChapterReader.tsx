@@ -0,0 +1,175 @@
+/**
+ * Chapter Reader
+ * Read-only view of a chapter for beta readers, who can highlight passages
+ * and leave a note on them
+ */
+
+import React, { useState, memo, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Chapter, NovelState } from '../types';
+import type { EditorHighlight, HighlightCategory, TextRange } from '../types/editor';
+import { getHighlights, createHighlight, deleteHighlight } from '../services/highlightService';
+import { useToast } from '../contexts/ToastContext';
+import HighlightToolbar from './HighlightToolbar';
+import { ChapterNavigation } from './chapterEditor/ChapterNavigation';
+
+interface ChapterReaderProps {
+  chapter: Chapter;
+  novelState: NovelState;
+  onClose: () => void;
+  onNavigateChapter?: (chapterId: string) => void;
+}
+
+/** Offset of a DOM position within the text of `container` */
+function textOffset(container: Node, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(container, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+const ChapterReader: React.FC<ChapterReaderProps> = ({ chapter, novelState, onClose, onNavigateChapter }) => {
+  const { showSuccess, showError } = useToast();
+  const [highlights, setHighlights] = useState<EditorHighlight[]>([]);
+  const [selectedRange, setSelectedRange] = useState<TextRange | null>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+  const content = chapter.content;
+
+  useEffect(() => {
+    setSelectedRange(null);
+    getHighlights(chapter.id)
+      .then(setHighlights)
+      .catch(() => setHighlights([]));
+  }, [chapter.id]);
+
+  const { previousChapter, nextChapter } = useMemo(() => {
+    const sorted = [...novelState.chapters].sort((a, b) => a.number - b.number);
+    const index = sorted.findIndex(c => c.id === chapter.id);
+    return {
+      previousChapter: index > 0 ? sorted[index - 1] : null,
+      nextChapter: index >= 0 && index < sorted.length - 1 ? sorted[index + 1] : null,
+    };
+  }, [novelState.chapters, chapter.id]);
+
+  const handleSelection = useCallback(() => {
+    const container = textRef.current;
+    const selection = window.getSelection();
+    if (!container || !selection || selection.rangeCount === 0 || selection.isCollapsed) {
+      setSelectedRange(null);
+      return;
+    }
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+    const start = textOffset(container, range.startContainer, range.startOffset);
+    const end = textOffset(container, range.endContainer, range.endOffset);
+    setSelectedRange(start < end ? { start, end } : null);
+  }, []);
+
+  const handleHighlight = useCallback(async (category: HighlightCategory, color: string, note?: string) => {
+    if (!selectedRange) return;
+    try {
+      const highlight = await createHighlight({
+        chapterId: chapter.id,
+        textRange: selectedRange,
+        highlightType: category,
+        color,
+        note,
+      });
+      setHighlights(prev => [...prev, highlight]);
+      setSelectedRange(null);
+      window.getSelection()?.removeAllRanges();
+      showSuccess('Passage highlighted');
+    } catch (error: any) {
+      showError(error.message || 'Failed to highlight passage');
+    }
+  }, [chapter.id, selectedRange, showError, showSuccess]);
+
+  const handleRemoveHighlight = useCallback(async (highlightId: string) => {
+    try {
+      await deleteHighlight(highlightId);
+      setHighlights(prev => prev.filter(h => h.id !== highlightId));
+    } catch (error: any) {
+      showError(error.message || 'Failed to remove highlight');
+    }
+  }, [showError]);
+
+  // Text split at highlight boundaries, each part colored by the highlight covering it
+  const segments = useMemo(() => {
+    const cuts = new Set<number>([0, content.length]);
+    highlights.forEach(h => {
+      cuts.add(Math.min(h.textRange.start, content.length));
+      cuts.add(Math.min(h.textRange.end, content.length));
+    });
+    const points = [...cuts].sort((a, b) => a - b);
+    return points.slice(0, -1).map((start, i) => {
+      const end = points[i + 1];
+      const covering = highlights.find(h => h.textRange.start <= start && h.textRange.end >= end);
+      return (
+        <span
+          key={start}
+          style={covering ? { backgroundColor: `${covering.color}40` } : undefined}
+          title={covering?.note}
+        >
+          {content.slice(start, end)}
+        </span>
+      );
+    });
+  }, [content, highlights]);
+
+  return (
+    <div className="flex flex-col h-full bg-zinc-950 animate-in fade-in duration-300">
+      <div className="flex items-center gap-3 p-3 sm:p-4 md:p-6 border-b border-zinc-700 bg-zinc-900/50">
+        <button
+          onClick={onClose}
+          className="text-zinc-400 hover:text-zinc-100 p-2 rounded-lg hover:bg-zinc-800 transition-colors duration-200"
+          aria-label="Close reader"
+        >
+          ← <span className="hidden xs:inline">Back</span>
+        </button>
+        <h2 className="flex-1 min-w-0 truncate text-base sm:text-lg md:text-xl font-fantasy font-bold text-amber-500">{chapter.title}</h2>
+        <span className="text-xs text-zinc-500 uppercase tracking-wide whitespace-nowrap">Reading · read only</span>
+      </div>
+
+      {onNavigateChapter && (
+        <ChapterNavigation
+          previousChapter={previousChapter}
+          nextChapter={nextChapter}
+          currentChapterNumber={chapter.number}
+          totalChapters={novelState.chapters.length}
+          onNavigate={onNavigateChapter}
+          variant="top"
+        />
+      )}
+
+      <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 md:p-8 lg:p-12 scrollbar-thin">
+          <div
+            ref={textRef}
+            onMouseUp={handleSelection}
+            onKeyUp={handleSelection}
+            className="max-w-3xl mx-auto whitespace-pre-wrap text-zinc-300 font-serif-novel text-base md:text-lg lg:text-xl leading-relaxed"
+          >
+            {segments}
+          </div>
+        </div>
+
+        <div className="md:w-80 border-t md:border-t-0 md:border-l border-zinc-700 bg-zinc-900/40 p-4 md:p-6 overflow-y-auto scrollbar-thin">
+          {selectedRange ? (
+            <HighlightToolbar
+              selectedText={content.slice(selectedRange.start, selectedRange.end)}
+              selectedRange={selectedRange}
+              highlights={highlights}
+              onHighlight={handleHighlight}
+              onRemoveHighlight={handleRemoveHighlight}
+            />
+          ) : (
+            <p className="text-sm text-zinc-500 italic">
+              Select a passage to highlight it. {highlights.length > 0 && `${highlights.length} highlight${highlights.length !== 1 ? 's' : ''} in this chapter.`}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(ChapterReader);
@@ -10,6 +10,7 @@ import { RelatedEntities } from './RelatedEntities';
 import { textContainsCharacterName } from '../utils/characterNameMatching';
 import { RelationshipEditor } from './RelationshipEditor';
 import { getRelationshipStrength } from '../services/relationshipService';
+import type { RenameEntityType } from '../types/rename';
 
 interface CharacterDetailPanelProps {
   character: Character | null;
@@ -22,6 +23,8 @@ interface CharacterDetailPanelProps {
   onUpdateNovel?: (updater: (prev: NovelState) => NovelState) => void;
   onNavigate?: () => void;
   onDeleteCharacter?: (characterId: string) => void;
+  /** Opens the rename of the character or one of its techniques or items everywhere in the novel */
+  onRenameEntity?: (entityType: RenameEntityType, entityId: string, currentName: string) => void;
 }
 
 export const CharacterDetailPanel: React.FC<CharacterDetailPanelProps> = ({
@@ -35,6 +38,7 @@ export const CharacterDetailPanel: React.FC<CharacterDetailPanelProps> = ({
   onUpdateNovel,
   onNavigate,
   onDeleteCharacter,
+  onRenameEntity,
 }) => {
   const [editingRelationship, setEditingRelationship] = useState<{
     relationship: Relationship | null;
@@ -154,6 +158,15 @@ export const CharacterDetailPanel: React.FC<CharacterDetailPanelProps> = ({
               >
                 Edit
               </button>
+              {onRenameEntity && (
+                <button
+                  onClick={() => onRenameEntity('character', displayCharacter.id, displayCharacter.name)}
+                  className="text-xs text-zinc-400 hover:text-amber-500 hover:bg-amber-500/10 uppercase font-semibold bg-zinc-800/90 backdrop-blur-sm px-3 py-1.5 rounded-lg border border-zinc-700 hover:border-amber-500/50 transition-all duration-200"
+                  title="Rename everywhere in the novel"
+                >
+                  Rename
+                </button>
+              )}
               <button
                 onClick={() => onSetProtagonist(character.id)}
                 className={`text-xs uppercase font-bold tracking-wider px-3 py-1.5 rounded-lg border transition-all duration-200 ${
@@ -301,6 +314,15 @@ export const CharacterDetailPanel: React.FC<CharacterDetailPanelProps> = ({
                                   <span className="ml-1 text-amber-500/60">⚡</span>
                                 )}
                               </span>
+                              {onRenameEntity && (
+                                <button
+                                  onClick={() => onRenameEntity('item', item.id, item.name)}
+                                  className="text-[10px] text-zinc-500 hover:text-amber-400 opacity-0 group-hover:opacity-100 transition-opacity px-1.5 py-0.5 rounded hover:bg-zinc-800"
+                                  title="Rename this item everywhere"
+                                >
+                                  ✎
+                                </button>
+                              )}
                               {onUpdateNovel && (
                                 <button
                                   onClick={() => {
@@ -411,6 +433,15 @@ export const CharacterDetailPanel: React.FC<CharacterDetailPanelProps> = ({
                                   <span className="ml-1 text-emerald-500/60">⚡</span>
                                 )}
                               </span>
+                              {onRenameEntity && (
+                                <button
+                                  onClick={() => onRenameEntity('technique', technique.id, technique.name)}
+                                  className="text-[10px] text-zinc-500 hover:text-emerald-400 opacity-0 group-hover:opacity-100 transition-opacity px-1.5 py-0.5 rounded hover:bg-zinc-800"
+                                  title="Rename this technique everywhere"
+                                >
+                                  ✎
+                                </button>
+                              )}
                               {onUpdateNovel && (
                                 <button
                                   onClick={() => {
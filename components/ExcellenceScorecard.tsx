@@ -19,6 +19,7 @@ import { analyzeMarketReadiness } from '../services/marketReadinessService';
 import { analyzeTension } from '../services/tensionAnalyzer';
 import { analyzeLiteraryDevices } from '../services/literaryDeviceAnalyzer';
 import { RelatedViews, RELATED_VIEWS_MAP } from './RelatedViews';
+import { useNovelPermissions } from '../hooks/useNovelPermissions';
 import { analyzeVoiceUniqueness } from '../services/voiceAnalysisService';
 
 interface ExcellenceScorecardProps {
@@ -31,6 +32,7 @@ const ExcellenceScorecard: React.FC<ExcellenceScorecardProps> = ({ novelState })
   const [improvementHistory, setImprovementHistory] = useState<ImprovementHistory[]>([]);
   const [lastImprovementId, setLastImprovementId] = useState<string | null>(null);
   const { updateActiveNovel, activeNovel } = useNovel();
+  const { can } = useNovelPermissions(novelState);
   const { showSuccess, showError, showWarning } = useToast();
 
   // Load improvement history for this category
@@ -277,7 +279,7 @@ const ExcellenceScorecard: React.FC<ExcellenceScorecardProps> = ({ novelState })
       {/* Improvement Button */}
       <div className="mb-4 flex justify-end items-center gap-3">
         <div className="flex items-center gap-2">
-          {lastImprovementId && (
+          {lastImprovementId && can('rollback') && (
             <button
               onClick={handleUndoImprovement}
               className="px-3 py-2 bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded-lg font-semibold transition-all duration-200 flex items-center gap-2 border border-zinc-600"
@@ -287,18 +289,20 @@ const ExcellenceScorecard: React.FC<ExcellenceScorecardProps> = ({ novelState })
               <span>Undo</span>
             </button>
           )}
-          <button
-            onClick={handleImproveNovel}
-            className="relative px-4 py-2 bg-gradient-to-r from-amber-600 to-amber-700 hover:from-amber-500 hover:to-amber-600 text-white rounded-lg font-semibold transition-all duration-200 flex items-center gap-2 shadow-lg shadow-amber-900/20 hover:shadow-xl hover:shadow-amber-900/30"
-          >
-            <span>⭐</span>
-            <span>Improve Novel</span>
-            {improvementHistory.length > 0 && (
-              <span className="absolute -top-1 -right-1 bg-amber-500 text-zinc-900 text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center">
-                {improvementHistory.length}
-              </span>
-            )}
-          </button>
+          {can('generate') && (
+            <button
+              onClick={handleImproveNovel}
+              className="relative px-4 py-2 bg-gradient-to-r from-amber-600 to-amber-700 hover:from-amber-500 hover:to-amber-600 text-white rounded-lg font-semibold transition-all duration-200 flex items-center gap-2 shadow-lg shadow-amber-900/20 hover:shadow-xl hover:shadow-amber-900/30"
+            >
+              <span>⭐</span>
+              <span>Improve Novel</span>
+              {improvementHistory.length > 0 && (
+                <span className="absolute -top-1 -right-1 bg-amber-500 text-zinc-900 text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center">
+                  {improvementHistory.length}
+                </span>
+              )}
+            </button>
+          )}
         </div>
         {improvementHistory.length > 0 && improvementHistory[0] && (
           <div className="flex items-center text-xs text-zinc-400">
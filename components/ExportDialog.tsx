@@ -1,7 +1,9 @@
-import React, { memo, useCallback } from 'react';
+import React, { memo, useCallback, useMemo, useState } from 'react';
 import { NovelState } from '../types';
-import { exportNovel } from '../services/exportService';
+import { exportNovel, NovelExportFormat } from '../services/exportService';
+import { DocxChapterSelection } from '../services/docxExportService';
 import { useToast } from '../contexts/ToastContext';
+import AudiobookDialog from './AudiobookDialog';
 
 interface ExportDialogProps {
   novel: NovelState;
@@ -10,21 +12,56 @@ interface ExportDialogProps {
 
 const ExportDialog: React.FC<ExportDialogProps> = ({ novel, onClose }) => {
   const { showError, showSuccess } = useToast();
+  const [author, setAuthor] = useState('');
+  const [groupByArc, setGroupByArc] = useState(true);
+  const [includeGlossary, setIncludeGlossary] = useState(true);
+  const [includeSynopsis, setIncludeSynopsis] = useState(false);
+  const chapterNumbers = useMemo(() => novel.chapters.map(ch => ch.number), [novel.chapters]);
+  const arcsWithChapters = useMemo(
+    () => novel.plotLedger.filter(arc => typeof arc.startedAtChapter === 'number'),
+    [novel.plotLedger]
+  );
+  const [docxMode, setDocxMode] = useState<DocxChapterSelection['mode']>('all');
+  const [fromChapter, setFromChapter] = useState(() => (chapterNumbers.length ? Math.min(...chapterNumbers) : 1));
+  const [toChapter, setToChapter] = useState(() => (chapterNumbers.length ? Math.max(...chapterNumbers) : 1));
+  const [arcId, setArcId] = useState(() => arcsWithChapters[0]?.id || '');
+  const [showAudiobook, setShowAudiobook] = useState(false);
+
+  const docxSelection = useMemo((): DocxChapterSelection => {
+    if (docxMode === 'range') return { mode: 'range', fromChapter, toChapter };
+    if (docxMode === 'arc' && arcId) return { mode: 'arc', arcId };
+    return { mode: 'all' };
+  }, [docxMode, fromChapter, toChapter, arcId]);
   
-  const handleExport = useCallback(async (format: 'markdown' | 'text') => {
+  const handleExport = useCallback(async (format: NovelExportFormat) => {
     try {
-      await exportNovel(novel, format);
+      await exportNovel(novel, format, {
+        epub: {
+          author: author.trim() || undefined,
+          groupByArc,
+          includeGlossary,
+          includeSynopsis,
+        },
+        docx: {
+          author: author.trim() || undefined,
+          selection: docxSelection,
+        },
+      });
       showSuccess('Novel exported successfully');
       onClose();
     } catch (error) {
       console.error('Error exporting novel:', error);
       showError('Failed to export novel. Please try again.');
     }
-  }, [novel, onClose, showError, showSuccess]);
+  }, [novel, onClose, showError, showSuccess, author, groupByArc, includeGlossary, includeSynopsis, docxSelection]);
+
+  if (showAudiobook) {
+    return <AudiobookDialog novel={novel} onClose={() => setShowAudiobook(false)} />;
+  }
 
   return (
     <div className="fixed inset-0 bg-black/95 backdrop-blur-xl flex items-center justify-center z-50 p-4">
-      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-md">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center p-6 border-b border-zinc-700">
           <h2 className="text-2xl font-fantasy font-bold text-amber-500">Export Novel</h2>
           <button
@@ -41,6 +78,15 @@ const ExportDialog: React.FC<ExportDialogProps> = ({ novel, onClose }) => {
             Choose a format to export your novel:
           </p>
 
+          <input
+            type="text"
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            placeholder="Author name (used by EPUB and DOCX)"
+            className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none"
+            aria-label="Author name"
+          />
+
           <button
             onClick={() => handleExport('markdown')}
             className="w-full bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 hover:border-amber-500/50 rounded-xl p-4 text-left transition-all duration-200 group"
@@ -67,9 +113,112 @@ const ExportDialog: React.FC<ExportDialogProps> = ({ novel, onClose }) => {
             </div>
           </button>
 
+          <div className="bg-zinc-800 border border-zinc-700 rounded-xl p-4 space-y-3">
+            <button
+              onClick={() => handleExport('epub')}
+              className="w-full text-left group"
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-base font-bold text-amber-400 mb-1 group-hover:text-amber-300">EPUB 3 (.epub)</div>
+                  <div className="text-sm text-zinc-400">E-book with table of contents, generated offline</div>
+                </div>
+                <span className="text-2xl">📚</span>
+              </div>
+            </button>
+            <div className="pt-3 border-t border-zinc-700 space-y-2">
+              <label className="flex items-center gap-2 text-sm text-zinc-400">
+                <input type="checkbox" checked={groupByArc} onChange={(e) => setGroupByArc(e.target.checked)} />
+                Group chapters into parts by arc
+              </label>
+              <label className="flex items-center gap-2 text-sm text-zinc-400">
+                <input type="checkbox" checked={includeGlossary} onChange={(e) => setIncludeGlossary(e.target.checked)} />
+                Include glossary (world bible, techniques, items)
+              </label>
+              <label className="flex items-center gap-2 text-sm text-zinc-400">
+                <input type="checkbox" checked={includeSynopsis} onChange={(e) => setIncludeSynopsis(e.target.checked)} />
+                Include synopsis in front matter
+              </label>
+            </div>
+          </div>
+
+          <div className="bg-zinc-800 border border-zinc-700 rounded-xl p-4 space-y-3">
+            <button
+              onClick={() => handleExport('docx')}
+              className="w-full text-left group"
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-base font-bold text-amber-400 mb-1 group-hover:text-amber-300">Word Manuscript (.docx)</div>
+                  <div className="text-sm text-zinc-400">Standard submission format with title page and word count</div>
+                </div>
+                <span className="text-2xl">🖋️</span>
+              </div>
+            </button>
+            <div className="pt-3 border-t border-zinc-700 space-y-2">
+              <select
+                value={docxMode}
+                onChange={(e) => setDocxMode(e.target.value as DocxChapterSelection['mode'])}
+                className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none"
+                aria-label="Chapters to include"
+              >
+                <option value="all">All chapters</option>
+                <option value="range">Chapter range</option>
+                <option value="arc" disabled={arcsWithChapters.length === 0}>Single arc</option>
+              </select>
+              {docxMode === 'range' && (
+                <div className="flex items-center gap-2 text-sm text-zinc-400">
+                  <span>From</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={fromChapter}
+                    onChange={(e) => setFromChapter(Number(e.target.value) || 1)}
+                    className="w-20 bg-zinc-900 border border-zinc-700 rounded-lg px-2 py-1 text-zinc-200"
+                    aria-label="From chapter"
+                  />
+                  <span>to</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={toChapter}
+                    onChange={(e) => setToChapter(Number(e.target.value) || 1)}
+                    className="w-20 bg-zinc-900 border border-zinc-700 rounded-lg px-2 py-1 text-zinc-200"
+                    aria-label="To chapter"
+                  />
+                </div>
+              )}
+              {docxMode === 'arc' && (
+                <select
+                  value={arcId}
+                  onChange={(e) => setArcId(e.target.value)}
+                  className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none"
+                  aria-label="Arc"
+                >
+                  {arcsWithChapters.map(arc => (
+                    <option key={arc.id} value={arc.id}>{arc.title}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+
+          <button
+            onClick={() => setShowAudiobook(true)}
+            className="w-full bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 hover:border-amber-500/50 rounded-xl p-4 text-left transition-all duration-200 group"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-base font-bold text-amber-400 mb-1">Audiobook (.wav)</div>
+                <div className="text-sm text-zinc-400">Chapter or arc read with a voice per character, with chapter markers</div>
+              </div>
+              <span className="text-2xl">🎧</span>
+            </div>
+          </button>
+
           <div className="pt-4 border-t border-zinc-700">
             <p className="text-xs text-zinc-500 italic">
-              Note: PDF, DOCX, and EPUB export will be available in a future update.
+              Note: PDF export will be available in a future update.
             </p>
           </div>
         </div>
@@ -0,0 +1,239 @@
+/**
+ * Find and Replace Panel
+ * Novel-wide find-and-replace with a preview of every hit; hits can be
+ * deselected before replacing
+ */
+
+import React, { useState, memo, useCallback, useEffect, useMemo } from 'react';
+import type { Chapter, NovelState } from '../types';
+import type { ReplaceField, ReplaceHit } from '../types/search';
+import { findInNovel, applyReplacements } from '../services/searchService';
+import { parseChapterRange } from '../services/search/queryParser';
+import { useToast } from '../contexts/ToastContext';
+
+interface FindReplacePanelProps {
+  novelState: NovelState;
+  /** Chapters rewritten by a replace; absent when the user cannot edit */
+  onApply?: (chapters: Chapter[]) => void;
+}
+
+const MAX_PREVIEW_HITS = 500;
+
+const FIELD_LABELS: Record<ReplaceField, string> = {
+  content: 'Text',
+  title: 'Titles',
+  summary: 'Summaries',
+};
+
+const inputClass =
+  'w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:border-amber-600 outline-none';
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ novelState, onApply }) => {
+  const { showSuccess, showWarning } = useToast();
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(true);
+  const [chapters, setChapters] = useState('');
+  const [fields, setFields] = useState<ReplaceField[]>(['content']);
+  const [hits, setHits] = useState<ReplaceHit[] | null>(null);
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const runFind = useCallback((novel: NovelState) => {
+    const chapterRange = chapters.trim() ? parseChapterRange(chapters.trim()) : undefined;
+    if (chapterRange === null) {
+      setError('Chapters must look like 10 or 10..40');
+      setHits(null);
+      return;
+    }
+    try {
+      setHits(findInNovel(novel, find, replace, { regex, caseSensitive, wholeWord, chapterRange, fields }));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setHits(null);
+    }
+  }, [chapters, find, replace, regex, caseSensitive, wholeWord, fields]);
+
+  const findAll = useCallback(() => {
+    setDeselected(new Set());
+    runFind(novelState);
+  }, [novelState, runFind]);
+
+  // Keep the previewed replacements in step with the replacement text
+  useEffect(() => {
+    if (hits) runFind(novelState);
+  }, [replace]);
+
+  const toggleField = useCallback((field: ReplaceField) => {
+    setFields(prev => {
+      const next = prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field];
+      return next.length > 0 ? next : prev;
+    });
+  }, []);
+
+  const toggleHit = useCallback((id: string) => {
+    setDeselected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const selectedHits = useMemo(() => (hits ?? []).filter(h => !deselected.has(h.id)), [hits, deselected]);
+  const chapterCount = useMemo(() => new Set((hits ?? []).map(h => h.chapterId)).size, [hits]);
+
+  const handleReplace = useCallback(() => {
+    if (!onApply || selectedHits.length === 0) return;
+    const affected = new Set(selectedHits.map(h => h.chapterId)).size;
+    if (!window.confirm(`Replace ${selectedHits.length} occurrence${selectedHits.length !== 1 ? 's' : ''} in ${affected} chapter${affected !== 1 ? 's' : ''}?`)) {
+      return;
+    }
+    const outcome = applyReplacements(novelState, selectedHits);
+    if (outcome.chapters.length > 0) onApply(outcome.chapters);
+    if (outcome.skipped > 0) {
+      showWarning(`Replaced ${outcome.applied}; ${outcome.skipped} skipped because the text changed since the search`);
+    } else {
+      showSuccess(`Replaced ${outcome.applied} occurrence${outcome.applied !== 1 ? 's' : ''} in ${outcome.chapters.length} chapter${outcome.chapters.length !== 1 ? 's' : ''}`);
+    }
+    setHits(null);
+    setDeselected(new Set());
+  }, [novelState, onApply, selectedHits, showSuccess, showWarning]);
+
+  const handleFindKey = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') findAll();
+  }, [findAll]);
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-700 rounded-xl p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={find}
+          onChange={e => setFind(e.target.value)}
+          onKeyDown={handleFindKey}
+          placeholder={regex ? 'Find (regular expression)' : 'Find'}
+          className={inputClass}
+          aria-label="Find"
+        />
+        <input
+          type="text"
+          value={replace}
+          onChange={e => setReplace(e.target.value)}
+          onKeyDown={handleFindKey}
+          placeholder={regex ? 'Replace with ($1 for groups)' : 'Replace with'}
+          className={inputClass}
+          aria-label="Replace with"
+          disabled={!onApply}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-zinc-400">
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={wholeWord} onChange={e => setWholeWord(e.target.checked)} /> Whole word
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={caseSensitive} onChange={e => setCaseSensitive(e.target.checked)} /> Match case
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={regex} onChange={e => setRegex(e.target.checked)} /> Regex
+        </label>
+        <span className="text-zinc-600">|</span>
+        {(Object.keys(FIELD_LABELS) as ReplaceField[]).map(field => (
+          <label key={field} className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={fields.includes(field)} onChange={() => toggleField(field)} /> {FIELD_LABELS[field]}
+          </label>
+        ))}
+        <input
+          type="text"
+          value={chapters}
+          onChange={e => setChapters(e.target.value)}
+          onKeyDown={handleFindKey}
+          placeholder="Chapters, e.g. 10..40"
+          className="bg-zinc-900 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-zinc-200 w-40 focus:border-amber-600 outline-none"
+          aria-label="Chapter range"
+        />
+        <button
+          onClick={findAll}
+          disabled={!find}
+          className="ml-auto px-4 py-1.5 rounded-lg text-xs font-semibold bg-zinc-800 hover:bg-zinc-700 text-zinc-200 border border-zinc-700 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Find All
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {hits && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <p className="text-sm text-zinc-300 flex-1">
+              {hits.length === 0
+                ? 'No matches.'
+                : `${hits.length} match${hits.length !== 1 ? 'es' : ''} in ${chapterCount} chapter${chapterCount !== 1 ? 's' : ''}, ${selectedHits.length} selected`}
+            </p>
+            {hits.length > 0 && (
+              <>
+                <button
+                  onClick={() => setDeselected(deselected.size > 0 ? new Set() : new Set(hits.map(h => h.id)))}
+                  className="text-xs text-zinc-400 hover:text-zinc-200"
+                >
+                  {deselected.size > 0 ? 'Select all' : 'Select none'}
+                </button>
+                {onApply && (
+                  <button
+                    onClick={handleReplace}
+                    disabled={selectedHits.length === 0}
+                    className="px-4 py-1.5 rounded-lg text-xs font-semibold bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Replace {selectedHits.length}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+
+          <ul className="max-h-[28rem] overflow-y-auto scrollbar-thin space-y-1">
+            {hits.slice(0, MAX_PREVIEW_HITS).map(hit => (
+              <li key={hit.id}>
+                <label className="flex items-start gap-2 p-2 rounded-lg hover:bg-zinc-800/60 cursor-pointer text-xs">
+                  <input
+                    type="checkbox"
+                    checked={!deselected.has(hit.id)}
+                    onChange={() => toggleHit(hit.id)}
+                    className="mt-0.5"
+                  />
+                  <span className="text-amber-500 font-semibold whitespace-nowrap">
+                    Ch {hit.chapterNumber}{hit.field !== 'content' ? ` · ${hit.field}` : ''}
+                  </span>
+                  <span className="text-zinc-400 break-words min-w-0">
+                    {hit.before}
+                    {onApply ? (
+                      <>
+                        <del className="bg-red-900/40 text-red-300">{hit.match}</del>
+                        <ins className="bg-emerald-900/40 text-emerald-300 no-underline">{hit.replacement}</ins>
+                      </>
+                    ) : (
+                      <mark className="bg-amber-600/30 text-amber-200">{hit.match}</mark>
+                    )}
+                    {hit.after}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          {hits.length > MAX_PREVIEW_HITS && (
+            <p className="text-xs text-zinc-500">
+              Showing the first {MAX_PREVIEW_HITS}; the other {hits.length - MAX_PREVIEW_HITS} are replaced with them unless you narrow the search.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(FindReplacePanel);
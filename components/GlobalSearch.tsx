@@ -1,19 +1,24 @@
 import React, { useState, memo, useCallback, useMemo, useEffect } from 'react';
-import { NovelState } from '../types';
-import { searchNovel, SearchResult } from '../services/searchService';
+import { Chapter, NovelState } from '../types';
+import { searchNovel, parseSearchQuery, SearchResult } from '../services/searchService';
 import { useNavigation } from '../contexts/NavigationContext';
-import { SkeletonCard } from './Skeleton';
+import { useDebounce } from '../hooks/useDebounce';
+import FindReplacePanel from './FindReplacePanel';
 
 interface GlobalSearchProps {
   novelState: NovelState;
+  /** Saves chapters rewritten by find-and-replace; replacing is hidden without it */
+  onReplaceChapters?: (chapters: Chapter[]) => void;
 }
 
 const SEARCH_HISTORY_KEY = 'global-search-history';
 const MAX_HISTORY_ITEMS = 10;
 
-const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState }) => {
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState, onReplaceChapters }) => {
   const { navigate } = useNavigation();
   const [query, setQuery] = useState('');
+  const debouncedQuery = useDebounce(query, 200);
+  const [showReplace, setShowReplace] = useState(false);
   const [selectedTypes, setSelectedTypes] = useState<Set<string>>(new Set(['chapter', 'scene', 'character', 'world']));
   const [searchHistory, setSearchHistory] = useState<string[]>(() => {
     try {
@@ -39,13 +44,15 @@ const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState }) => {
   }, [searchHistory]);
 
   const results = useMemo(() => {
-    if (!query.trim()) return [];
+    if (!debouncedQuery.trim()) return [];
     return searchNovel(novelState, {
-      query: query.trim(),
+      query: debouncedQuery.trim(),
       types: Array.from(selectedTypes) as any[],
       limit: 50
     });
-  }, [novelState, query, selectedTypes]);
+  }, [novelState, debouncedQuery, selectedTypes]);
+
+  const queryErrors = useMemo(() => parseSearchQuery(debouncedQuery).errors, [debouncedQuery]);
 
   const groupedResults = useMemo(() => {
     const grouped: Record<string, SearchResult[]> = {
@@ -64,15 +71,15 @@ const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState }) => {
 
   // Add query to history when search is performed
   useEffect(() => {
-    if (query.trim() && results.length > 0) {
+    if (debouncedQuery.trim() && results.length > 0) {
       setSearchHistory(prev => {
-        const trimmed = query.trim();
+        const trimmed = debouncedQuery.trim();
         const filtered = prev.filter(q => q !== trimmed);
         const updated = [trimmed, ...filtered].slice(0, MAX_HISTORY_ITEMS);
         return updated;
       });
     }
-  }, [query, results.length]);
+  }, [debouncedQuery, results.length]);
 
   const toggleType = useCallback((type: string) => {
     setSelectedTypes(prev => {
@@ -146,6 +153,11 @@ const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState }) => {
       <div className="mb-8 border-b border-zinc-700 pb-6">
         <h2 className="text-2xl md:text-3xl font-fantasy font-bold text-amber-500 tracking-wider uppercase">Global Search</h2>
         <p className="text-sm text-zinc-400 mt-2">Search across all chapters, scenes, characters, and world entries</p>
+        <p className="text-xs text-zinc-500 mt-1">
+          Use <code className="text-zinc-400">"exact phrase"</code>, <code className="text-zinc-400">-exclude</code>,{' '}
+          <code className="text-zinc-400">type:character</code>, <code className="text-zinc-400">chapter:10..40</code> and{' '}
+          <code className="text-zinc-400">/regex/i</code>.
+        </p>
       </div>
 
       <div className="mb-6 relative">
@@ -209,6 +221,14 @@ const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState }) => {
         )}
       </div>
 
+      {queryErrors.length > 0 && (
+        <div className="mb-4 space-y-1">
+          {queryErrors.map(error => (
+            <p key={error} className="text-xs text-red-400">{error}</p>
+          ))}
+        </div>
+      )}
+
       <div className="mb-6 flex flex-wrap gap-2 items-center">
         {['chapter', 'scene', 'character', 'world'].map(type => (
           <button
@@ -224,6 +244,16 @@ const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState }) => {
             {type.charAt(0).toUpperCase() + type.slice(1)}
           </button>
         ))}
+        <button
+          onClick={() => setShowReplace(!showReplace)}
+          className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+            showReplace
+              ? 'bg-amber-600/20 text-amber-400 border border-amber-600/30'
+              : 'bg-zinc-800 text-zinc-400 border border-zinc-700 hover:border-zinc-600'
+          }`}
+        >
+          🔁 {onReplaceChapters ? 'Find & Replace' : 'Find All'}
+        </button>
         {results.length > 0 && (
           <button
             onClick={() => setGroupResults(!groupResults)}
@@ -239,6 +269,12 @@ const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState }) => {
         )}
       </div>
 
+      {showReplace && (
+        <div className="mb-6">
+          <FindReplacePanel novelState={novelState} onApply={onReplaceChapters} />
+        </div>
+      )}
+
       <div className="space-y-3">
         {query.trim() === '' ? (
           <div className="py-16 px-8 text-center border-2 border-dashed border-zinc-700 rounded-2xl bg-zinc-900/30">
@@ -299,7 +335,7 @@ const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState }) => {
                           </div>
                         </div>
                         <span className={`text-xs font-bold px-2 py-1 rounded bg-${typeColors[result.type]}-600/20 text-${typeColors[result.type]}-400 border border-${typeColors[result.type]}-600/30`}>
-                          {result.type}
+                          {result.type}{result.hitCount && result.hitCount > 1 ? ` · ${result.hitCount} hits` : ''}
                         </span>
                       </div>
                       {result.context && (
@@ -333,7 +369,7 @@ const GlobalSearch: React.FC<GlobalSearchProps> = ({ novelState }) => {
                     </div>
                   </div>
                   <span className={`text-xs font-bold px-2 py-1 rounded bg-${typeColors[result.type]}-600/20 text-${typeColors[result.type]}-400 border border-${typeColors[result.type]}-600/30 flex-shrink-0`}>
-                    {result.type}
+                    {result.type}{result.hitCount && result.hitCount > 1 ? ` · ${result.hitCount} hits` : ''}
                   </span>
                 </div>
                 {result.context && (
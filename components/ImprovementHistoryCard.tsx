@@ -13,7 +13,8 @@ interface ImprovementHistoryCardProps {
   isSelected: boolean;
   onToggleExpand: () => void;
   onSelect: () => void;
-  onRollback: () => void;
+  /** Rolling back is offered only when this is given */
+  onRollback?: () => void;
   onRefresh: () => void;
 }
 
@@ -300,7 +301,7 @@ const ImprovementHistoryCard: React.FC<ImprovementHistoryCardProps> = ({
               </button>
               
               {/* Rollback Button */}
-              {!record.rolledBack && record.fullBeforeState && (
+              {!record.rolledBack && record.fullBeforeState && onRollback && (
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
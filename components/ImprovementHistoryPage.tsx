@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useNovel } from '../contexts/NovelContext';
 import { useToast } from '../contexts/ToastContext';
+import { useNovelPermissions } from '../hooks/useNovelPermissions';
 import { NovelState } from '../types';
 import { 
   ImprovementHistoryRecord, 
@@ -66,6 +67,7 @@ const EVALUATION_OPTIONS: { value: EvaluationStatus; label: string; color: strin
 
 const ImprovementHistoryPage: React.FC = () => {
   const { activeNovel, updateActiveNovel } = useNovel();
+  const { can } = useNovelPermissions(activeNovel);
   const { addToast } = useToast();
   
   // setNovel is used for rollback - wrap updateActiveNovel to accept NovelState directly
@@ -481,7 +483,7 @@ const ImprovementHistoryPage: React.FC = () => {
           selectedId={selectedRecordId}
           onToggleExpand={handleToggleExpand}
           onSelect={handleSelectRecord}
-          onRollback={handleRollback}
+          onRollback={can('rollback') ? handleRollback : undefined}
           onRefresh={loadData}
         />
       ) : (
@@ -494,7 +496,7 @@ const ImprovementHistoryPage: React.FC = () => {
               isSelected={selectedRecordId === record.id}
               onToggleExpand={() => handleToggleExpand(record.id)}
               onSelect={() => handleSelectRecord(record.id)}
-              onRollback={() => handleRollback(record.id)}
+              onRollback={can('rollback') ? () => handleRollback(record.id) : undefined}
               onRefresh={loadData}
             />
           ))}
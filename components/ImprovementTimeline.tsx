@@ -12,7 +12,8 @@ interface ImprovementTimelineProps {
   selectedId: string | null;
   onToggleExpand: (id: string) => void;
   onSelect: (id: string) => void;
-  onRollback: (id: string) => void;
+  /** Rolling back is offered only when this is given */
+  onRollback?: (id: string) => void;
   onRefresh: () => void;
 }
 
@@ -148,7 +149,7 @@ const ImprovementTimeline: React.FC<ImprovementTimelineProps> = ({
                   isSelected={selectedId === record.id}
                   onToggleExpand={() => onToggleExpand(record.id)}
                   onSelect={() => onSelect(record.id)}
-                  onRollback={() => onRollback(record.id)}
+                  onRollback={onRollback ? () => onRollback(record.id) : undefined}
                   isLast={index === dayRecords.length - 1}
                 />
               ))}
@@ -170,7 +171,7 @@ interface TimelineEntryProps {
   isSelected: boolean;
   onToggleExpand: () => void;
   onSelect: () => void;
-  onRollback: () => void;
+  onRollback?: () => void;
   isLast: boolean;
 }
 
@@ -329,7 +330,7 @@ const TimelineEntry: React.FC<TimelineEntryProps> = ({
                 View Diff
               </button>
               
-              {!record.rolledBack && (
+              {!record.rolledBack && onRollback && (
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
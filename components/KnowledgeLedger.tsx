@@ -0,0 +1,200 @@
+/**
+ * Knowledge Ledger
+ *
+ * Edits the facts tracked for viewpoint characters: what each fact is, the
+ * words that refer to it, where it happens on the page and who learned it
+ * off the page.
+ */
+
+import React, { memo, useMemo, useState } from 'react';
+import type { NovelState } from '../types';
+import type { KnowledgeFact, KnowledgeHolder, KnowledgeSource } from '../types/pov';
+import { buildWitnessIndex } from '../services/povService';
+import { generateUUID } from '../utils/uuid';
+
+interface KnowledgeLedgerProps {
+  novel: NovelState;
+  onUpdateFacts: (facts: KnowledgeFact[]) => void;
+}
+
+const SOURCES: { value: KnowledgeSource; label: string }[] = [
+  { value: 'witnessed', label: 'Witnessed' },
+  { value: 'told', label: 'Told' },
+  { value: 'deduced', label: 'Deduced' },
+];
+
+const inputClass =
+  'bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none';
+
+/**
+ * Keyword list that commits on blur, so typing a comma does not drop the
+ * trailing entry
+ */
+export const KeywordInput: React.FC<{
+  keywords: string[];
+  onCommit: (keywords: string[]) => void;
+  placeholder?: string;
+}> = ({ keywords, onCommit, placeholder = "Words that refer to it, e.g. poisoned patriarch, Elder Mo's betrayal" }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  return (
+    <input
+      type="text"
+      value={draft ?? keywords.join(', ')}
+      placeholder={placeholder}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null) {
+          onCommit(draft.split(',').map(k => k.trim()).filter(Boolean));
+          setDraft(null);
+        }
+      }}
+      className={`w-full ${inputClass}`}
+    />
+  );
+};
+
+const KnowledgeLedgerComponent: React.FC<KnowledgeLedgerProps> = ({ novel, onUpdateFacts }) => {
+  const facts = novel.knowledgeFacts || [];
+  const witnessIndex = useMemo(() => buildWitnessIndex(novel), [novel]);
+  const names = useMemo(() => new Map(novel.characterCodex.map(c => [c.id, c.name])), [novel.characterCodex]);
+  const latestChapter = novel.chapters.length;
+
+  const updateFact = (id: string, changes: Partial<KnowledgeFact>) =>
+    onUpdateFacts(facts.map(f => (f.id === id ? { ...f, ...changes, updatedAt: Date.now() } : f)));
+
+  const updateHolder = (fact: KnowledgeFact, index: number, changes: Partial<KnowledgeHolder>) =>
+    updateFact(fact.id, { holders: fact.holders.map((h, i) => (i === index ? { ...h, ...changes } : h)) });
+
+  const addFact = () =>
+    onUpdateFacts([
+      ...facts,
+      { id: generateUUID(), description: '', keywords: [], holders: [], createdAt: Date.now(), updatedAt: Date.now() },
+    ]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-zinc-400">
+          Characters present in the chapter where a fact happens know it from then on. Record anyone who learns it later.
+        </p>
+        <button
+          onClick={addFact}
+          className="bg-amber-600 hover:bg-amber-500 text-white px-4 py-2 rounded-lg text-sm font-semibold whitespace-nowrap"
+        >
+          + Add Fact
+        </button>
+      </div>
+
+      {facts.length === 0 ? (
+        <div className="py-12 text-center border-2 border-dashed border-zinc-700 rounded-2xl bg-zinc-900/30">
+          <div className="text-4xl mb-3">🧠</div>
+          <p className="text-sm text-zinc-500">No facts tracked yet. Add the revelations your viewpoint characters must not know too early.</p>
+        </div>
+      ) : (
+        facts.map(fact => {
+          const witnesses = fact.occurredInChapter !== undefined
+            ? [...witnessIndex.entries()]
+                .filter(([, chapters]) => chapters.has(fact.occurredInChapter!))
+                .map(([id]) => names.get(id))
+                .filter(Boolean)
+            : [];
+
+          return (
+            <div key={fact.id} className="bg-zinc-900 border border-zinc-700 rounded-xl p-4 space-y-3">
+              <div className="flex items-start gap-3">
+                <input
+                  type="text"
+                  value={fact.description}
+                  placeholder="The fact, e.g. Elder Mo poisoned the old patriarch"
+                  onChange={e => updateFact(fact.id, { description: e.target.value })}
+                  className={`flex-1 ${inputClass}`}
+                />
+                <label className="text-xs text-zinc-500 flex items-center gap-2 whitespace-nowrap">
+                  Happens in ch.
+                  <input
+                    type="number"
+                    min={1}
+                    max={latestChapter || undefined}
+                    value={fact.occurredInChapter ?? ''}
+                    onChange={e => updateFact(fact.id, { occurredInChapter: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                    className={`w-20 ${inputClass}`}
+                  />
+                </label>
+                <button
+                  onClick={() => onUpdateFacts(facts.filter(f => f.id !== fact.id))}
+                  className="text-zinc-500 hover:text-red-400 px-2 py-1"
+                  aria-label="Delete fact"
+                >
+                  ×
+                </button>
+              </div>
+
+              <KeywordInput keywords={fact.keywords} onCommit={keywords => updateFact(fact.id, { keywords })} />
+
+              {witnesses.length > 0 && (
+                <p className="text-xs text-zinc-500">
+                  Witnessed in Chapter {fact.occurredInChapter} by {witnesses.join(', ')}
+                </p>
+              )}
+
+              <div className="space-y-2">
+                {fact.holders.map((holder, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <select
+                      value={holder.characterId}
+                      onChange={e => updateHolder(fact, index, { characterId: e.target.value })}
+                      className={`flex-1 ${inputClass}`}
+                    >
+                      {novel.characterCodex.map(c => (
+                        <option key={c.id} value={c.id}>{c.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={holder.source}
+                      onChange={e => updateHolder(fact, index, { source: e.target.value as KnowledgeSource })}
+                      className={inputClass}
+                    >
+                      {SOURCES.map(s => (
+                        <option key={s.value} value={s.value}>{s.label}</option>
+                      ))}
+                    </select>
+                    <span className="text-xs text-zinc-500">in ch.</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={holder.learnedInChapter}
+                      onChange={e => updateHolder(fact, index, { learnedInChapter: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                      className={`w-20 ${inputClass}`}
+                    />
+                    <button
+                      onClick={() => updateFact(fact.id, { holders: fact.holders.filter((_, i) => i !== index) })}
+                      className="text-zinc-500 hover:text-red-400 px-2"
+                      aria-label="Remove holder"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => novel.characterCodex.length > 0 && updateFact(fact.id, {
+                    holders: [...fact.holders, {
+                      characterId: novel.characterCodex[0].id,
+                      learnedInChapter: Math.max(1, latestChapter),
+                      source: 'told',
+                    }],
+                  })}
+                  disabled={novel.characterCodex.length === 0}
+                  className="text-xs text-amber-500 hover:text-amber-400 disabled:opacity-40"
+                >
+                  + Character learns this
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export const KnowledgeLedger = memo(KnowledgeLedgerComponent);
@@ -1,16 +1,25 @@
 
-import React, { useState, useMemo, memo } from 'react';
+import React, { useState, useMemo, useRef, memo } from 'react';
 import { NovelState } from '../types';
 import { NOVEL_TEMPLATES, type NovelTemplate, applyNovelTemplate } from '../utils/templates';
+import ManuscriptImportDialog from './ManuscriptImportDialog';
 
 interface LibraryViewProps {
   novels: NovelState[];
   onSelect: (id: string) => void;
   onCreate: (title: string, genre: string) => void;
   onDelete: (id: string) => void;
+  /** Download a full project archive for a novel */
+  onBackup?: (novel: NovelState) => void;
+  /** Restore a novel from a project archive file */
+  onRestore?: (file: File) => void;
+  /** Create a novel from an imported manuscript, optionally back-filling entities */
+  onImportManuscript?: (novel: NovelState, runBackfill: boolean) => void;
 }
 
-const LibraryView: React.FC<LibraryViewProps> = ({ novels, onSelect, onCreate, onDelete }) => {
+const LibraryView: React.FC<LibraryViewProps> = ({ novels, onSelect, onCreate, onDelete, onBackup, onRestore, onImportManuscript }) => {
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [newTitle, setNewTitle] = useState('');
   const [newGenre, setNewGenre] = useState('Xianxia');
@@ -142,6 +151,41 @@ const LibraryView: React.FC<LibraryViewProps> = ({ novels, onSelect, onCreate, o
               </>
             ) : (
               <>
+                {onImportManuscript && (
+                  <button
+                    onClick={() => setShowImportDialog(true)}
+                    className="px-2 xs:px-3 sm:px-4 py-1.5 xs:py-2 bg-zinc-700 hover:bg-zinc-600 text-white rounded-lg font-semibold text-xs xs:text-sm transition-all duration-200 flex items-center gap-1 xs:gap-2 whitespace-nowrap flex-shrink-0"
+                    aria-label="Import manuscript"
+                    title="Import an existing manuscript (Markdown, DOCX or text)"
+                  >
+                    <span>📥</span>
+                    <span className="hidden xs:inline">Import</span>
+                  </button>
+                )}
+                {onRestore && (
+                  <>
+                    <button
+                      onClick={() => restoreInputRef.current?.click()}
+                      className="px-2 xs:px-3 sm:px-4 py-1.5 xs:py-2 bg-zinc-700 hover:bg-zinc-600 text-white rounded-lg font-semibold text-xs xs:text-sm transition-all duration-200 flex items-center gap-1 xs:gap-2 whitespace-nowrap flex-shrink-0"
+                      aria-label="Restore novel from project archive"
+                      title="Restore from project archive (.hoj.zip or .json)"
+                    >
+                      <span>📦</span>
+                      <span className="hidden xs:inline">Restore</span>
+                    </button>
+                    <input
+                      ref={restoreInputRef}
+                      type="file"
+                      accept=".zip,.json,application/zip,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onRestore(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </>
+                )}
                 <button
                   onClick={() => setIsBulkMode(true)}
                   className="px-2 xs:px-3 sm:px-4 py-1.5 xs:py-2 bg-zinc-700 hover:bg-zinc-600 text-white rounded-lg font-semibold text-xs xs:text-sm transition-all duration-200 flex items-center gap-1 xs:gap-2 whitespace-nowrap flex-shrink-0"
@@ -269,6 +313,18 @@ const LibraryView: React.FC<LibraryViewProps> = ({ novels, onSelect, onCreate, o
                 ×
               </button>
 
+              {onBackup && !isBulkMode && (
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); onBackup(novel); }}
+                  className="absolute bottom-3 xs:bottom-4 md:bottom-5 left-1/2 -translate-x-1/2 text-zinc-500 hover:text-amber-500 hover:bg-amber-500/10 rounded-full w-6 h-6 xs:w-7 xs:h-7 flex items-center justify-center transition-all duration-200 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 focus-visible:outline-amber-600 focus-visible:outline-2"
+                  aria-label={`Download project archive for ${novel.title}`}
+                  title="Download Project Archive"
+                >
+                  📦
+                </button>
+              )}
+
               <div className="absolute top-3 xs:top-4 right-3 xs:right-4 opacity-10 group-hover:opacity-20 transition-opacity duration-300 pointer-events-none">
                 <span className="text-2xl xs:text-3xl md:text-4xl grayscale brightness-50">📜</span>
               </div>
@@ -278,6 +334,16 @@ const LibraryView: React.FC<LibraryViewProps> = ({ novels, onSelect, onCreate, o
         </div>
       </div>
 
+      {showImportDialog && onImportManuscript && (
+        <ManuscriptImportDialog
+          onClose={() => setShowImportDialog(false)}
+          onImport={(novel, runBackfill) => {
+            setShowImportDialog(false);
+            onImportManuscript(novel, runBackfill);
+          }}
+        />
+      )}
+
       {/* Create Modal - mobile-optimized */}
       {showModal && (
         <div 
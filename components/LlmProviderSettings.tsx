@@ -0,0 +1,226 @@
+/**
+ * LLM Provider Settings Component
+ *
+ * Configure provider instances (base URL, model, cost table), add local
+ * OpenAI-compatible servers, and choose which provider serves each task type.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  getProvider,
+  getProviderConfigs,
+  removeProviderConfig,
+  saveProviderConfig,
+  LlmProviderConfig,
+} from '../services/llmProviders';
+import { getAllModelAssignments, setTaskProvider, TaskType } from '../services/modelOrchestrator';
+import { generateUUID } from '../utils/uuid';
+
+const inputClass =
+  'w-full bg-zinc-950 border border-zinc-700 rounded-lg px-2.5 py-1.5 text-sm text-zinc-100 focus:border-amber-600 outline-none';
+
+const LlmProviderSettings: React.FC = () => {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [revision, setRevision] = useState(0);
+  const [editing, setEditing] = useState<LlmProviderConfig | null>(null);
+  const [testStatus, setTestStatus] = useState<Record<string, string>>({});
+
+  // `revision` forces a re-read after localStorage writes
+  const providers = useMemo(() => getProviderConfigs(), [revision]);
+  const assignments = useMemo(() => getAllModelAssignments(), [revision]);
+
+  const refresh = useCallback(() => setRevision(r => r + 1), []);
+
+  const handleAssign = useCallback((taskType: TaskType, providerId: string) => {
+    setTaskProvider(taskType, providerId);
+    refresh();
+  }, [refresh]);
+
+  const handleSave = useCallback(() => {
+    if (!editing) return;
+    saveProviderConfig(editing);
+    setEditing(null);
+    refresh();
+  }, [editing, refresh]);
+
+  const handleRemove = useCallback((config: LlmProviderConfig) => {
+    removeProviderConfig(config.id);
+    refresh();
+  }, [refresh]);
+
+  const handleAddLocal = useCallback(() => {
+    setEditing({
+      id: `local-${generateUUID().slice(0, 8)}`,
+      name: 'Local server',
+      kind: 'openai-compatible',
+      baseUrl: 'http://localhost:8080/v1',
+      model: '',
+      costs: { input: 0, output: 0 },
+    });
+  }, []);
+
+  const handleTest = useCallback(async (config: LlmProviderConfig) => {
+    setTestStatus(prev => ({ ...prev, [config.id]: 'Testing...' }));
+    try {
+      const provider = getProvider(config.id);
+      const configError = provider.getConfigurationError();
+      if (configError) throw new Error(configError);
+      const response = await provider.text({ user: 'Say "Hello" and nothing else.', maxTokens: 10 });
+      setTestStatus(prev => ({ ...prev, [config.id]: `✅ "${response.trim()}"` }));
+    } catch (error) {
+      setTestStatus(prev => ({ ...prev, [config.id]: `❌ ${error instanceof Error ? error.message : String(error)}` }));
+    }
+  }, []);
+
+  const updateEditing = (patch: Partial<LlmProviderConfig>) =>
+    setEditing(prev => (prev ? { ...prev, ...patch } : prev));
+
+  return (
+    <div className="p-6 bg-zinc-900 rounded-xl border border-zinc-700">
+      <button
+        onClick={() => setIsCollapsed(c => !c)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={!isCollapsed}
+      >
+        <div>
+          <h2 className="text-xl font-bold text-zinc-100">AI Providers</h2>
+          <p className="text-sm text-zinc-400">Choose which model serves each task, including local OpenAI-compatible servers</p>
+        </div>
+        <span className="text-zinc-500">{isCollapsed ? '▸' : '▾'}</span>
+      </button>
+
+      {!isCollapsed && (
+        <div className="mt-5 space-y-6">
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-zinc-300 uppercase tracking-wide">Task Assignments</h3>
+            <div className="divide-y divide-zinc-800 border border-zinc-800 rounded-lg">
+              {(Object.entries(assignments) as Array<[TaskType, { provider: string; model: string; description: string }]>).map(
+                ([taskType, assignment]) => (
+                  <div key={taskType} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm text-zinc-200">{assignment.description}</p>
+                      <p className="text-xs text-zinc-500 font-mono">{taskType} · {assignment.model}</p>
+                    </div>
+                    <select
+                      value={assignment.provider}
+                      onChange={(e) => handleAssign(taskType, e.target.value)}
+                      className="bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-1 text-sm text-zinc-100"
+                      aria-label={`Provider for ${assignment.description}`}
+                    >
+                      {providers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                  </div>
+                )
+              )}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-zinc-300 uppercase tracking-wide">Providers</h3>
+              <button
+                onClick={handleAddLocal}
+                className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-amber-400 rounded-lg text-xs font-semibold"
+              >
+                + Add OpenAI-compatible server
+              </button>
+            </div>
+            {providers.map(config => (
+              <div key={config.id} className="p-3 bg-zinc-800/50 border border-zinc-700 rounded-lg">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-zinc-200">{config.name}</p>
+                    <p className="text-xs text-zinc-500 font-mono truncate">{config.baseUrl} · {config.model || '(no model)'}</p>
+                    <p className="text-xs text-zinc-500">
+                      ${config.costs.input}/1M in · ${config.costs.output}/1M out
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button onClick={() => handleTest(config)} className="text-xs text-zinc-400 hover:text-zinc-200">Test</button>
+                    <button onClick={() => setEditing({ ...config })} className="text-xs text-zinc-400 hover:text-zinc-200">Edit</button>
+                    <button onClick={() => handleRemove(config)} className="text-xs text-zinc-400 hover:text-red-400">
+                      {config.builtIn ? 'Reset' : 'Remove'}
+                    </button>
+                  </div>
+                </div>
+                {testStatus[config.id] && (
+                  <p className="mt-2 text-xs text-zinc-400 whitespace-pre-wrap">{testStatus[config.id]}</p>
+                )}
+              </div>
+            ))}
+          </section>
+
+          {editing && (
+            <section className="p-4 border border-amber-600/40 rounded-lg space-y-3">
+              <h3 className="text-sm font-semibold text-zinc-300">Edit {editing.name}</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="space-y-1 text-xs text-zinc-400">
+                  Name
+                  <input
+                    value={editing.name}
+                    disabled={editing.builtIn}
+                    onChange={(e) => updateEditing({ name: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1 text-xs text-zinc-400">
+                  Model
+                  <input value={editing.model} onChange={(e) => updateEditing({ model: e.target.value })} className={inputClass} />
+                </label>
+                <label className="space-y-1 text-xs text-zinc-400 sm:col-span-2">
+                  Base URL
+                  <input value={editing.baseUrl} onChange={(e) => updateEditing({ baseUrl: e.target.value })} className={inputClass} />
+                </label>
+                {editing.kind === 'openai-compatible' && (
+                  <label className="space-y-1 text-xs text-zinc-400 sm:col-span-2">
+                    API key (optional, stored in this browser)
+                    <input
+                      type="password"
+                      value={editing.apiKey || ''}
+                      onChange={(e) => updateEditing({ apiKey: e.target.value || undefined })}
+                      className={inputClass}
+                    />
+                  </label>
+                )}
+                <label className="space-y-1 text-xs text-zinc-400">
+                  Input cost ($ / 1M tokens)
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={editing.costs.input}
+                    onChange={(e) => updateEditing({ costs: { ...editing.costs, input: Number(e.target.value) || 0 } })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="space-y-1 text-xs text-zinc-400">
+                  Output cost ($ / 1M tokens)
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={editing.costs.output}
+                    onChange={(e) => updateEditing({ costs: { ...editing.costs, output: Number(e.target.value) || 0 } })}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-xs text-zinc-400 hover:text-zinc-200">Cancel</button>
+                <button
+                  onClick={handleSave}
+                  disabled={!editing.baseUrl || !editing.model}
+                  className="px-4 py-1.5 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-xs font-semibold disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LlmProviderSettings;
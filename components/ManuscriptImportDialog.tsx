@@ -0,0 +1,214 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import type { NovelState } from '../types';
+import { Modal } from './Modal';
+import {
+  DEFAULT_HEADING_OPTIONS,
+  HeadingDetectionOptions,
+  createNovelFromManuscript,
+  readManuscriptFile,
+  splitManuscript,
+} from '../services/manuscriptImportService';
+
+interface ManuscriptImportDialogProps {
+  onImport: (novel: NovelState, runBackfill: boolean) => void;
+  onClose: () => void;
+}
+
+const GENRES = ['Xianxia', 'Xuanhuan', 'LitRPG / System', 'Reincarnation / Isekai', 'Urban Cultivation'];
+
+const ManuscriptImportDialog: React.FC<ManuscriptImportDialogProps> = ({ onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [title, setTitle] = useState('');
+  const [genre, setGenre] = useState('Xianxia');
+  const [options, setOptions] = useState<HeadingDetectionOptions>(DEFAULT_HEADING_OPTIONS);
+  const [sceneMarkers, setSceneMarkers] = useState('');
+  const [runBackfill, setRunBackfill] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const effectiveOptions = useMemo((): HeadingDetectionOptions => ({
+    ...options,
+    sceneBreakMarkers: sceneMarkers.split(',').map(m => m.trim()).filter(Boolean),
+  }), [options, sceneMarkers]);
+
+  const result = useMemo(
+    () => (text ? splitManuscript(text, effectiveOptions) : null),
+    [text, effectiveOptions]
+  );
+
+  const totalWords = useMemo(
+    () => result?.chapters.reduce((sum, ch) => sum + ch.wordCount, 0) || 0,
+    [result]
+  );
+
+  const handleFile = useCallback(async (file: File) => {
+    setIsReading(true);
+    setReadError(null);
+    try {
+      const content = await readManuscriptFile(file);
+      setText(content);
+      setFileName(file.name);
+      if (!title) setTitle(file.name.replace(/\.(md|markdown|txt|docx)$/i, ''));
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : 'Could not read file');
+      setText('');
+    } finally {
+      setIsReading(false);
+    }
+  }, [title]);
+
+  const handleImport = useCallback(() => {
+    if (!result || result.chapters.length === 0) return;
+    onImport(createNovelFromManuscript(title, genre, result.chapters), runBackfill);
+  }, [result, title, genre, runBackfill, onImport]);
+
+  const toggleOption = (key: 'english' | 'chinese' | 'markdown') =>
+    setOptions(prev => ({ ...prev, [key]: !prev[key] }));
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onClose}
+      title="Import Manuscript"
+      maxWidth="2xl"
+      footer={
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-zinc-400 hover:text-zinc-200 transition-colors uppercase font-semibold text-xs rounded-lg hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!result || result.chapters.length === 0}
+            className="bg-amber-600 hover:bg-amber-500 text-white px-6 py-2 rounded-xl font-semibold text-sm transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {result?.chapters.length || 0} Chapter{result?.chapters.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      }
+    >
+      <div className="space-y-5">
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-zinc-400 uppercase tracking-wide" htmlFor="manuscript-file">
+            Manuscript File
+          </label>
+          <input
+            id="manuscript-file"
+            type="file"
+            accept=".md,.markdown,.txt,.docx,text/plain,text/markdown,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+            className="block w-full text-sm text-zinc-400 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-zinc-800 file:text-amber-400 hover:file:bg-zinc-700"
+          />
+          {isReading && <p className="text-xs text-zinc-500">Reading {fileName || 'file'}...</p>}
+          {readError && <p className="text-xs text-red-400">{readError}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold text-zinc-400 uppercase tracking-wide" htmlFor="import-title">Title</label>
+            <input
+              id="import-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2.5 text-sm text-zinc-100 focus:border-amber-600 outline-none"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold text-zinc-400 uppercase tracking-wide" htmlFor="import-genre">Genre</label>
+            <select
+              id="import-genre"
+              value={genre}
+              onChange={(e) => setGenre(e.target.value)}
+              className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2.5 text-sm text-zinc-100 focus:border-amber-600 outline-none"
+            >
+              {GENRES.map(g => <option key={g}>{g}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="p-4 bg-zinc-900/50 border border-zinc-700 rounded-xl space-y-3">
+          <p className="text-sm font-semibold text-zinc-400 uppercase tracking-wide">Chapter Heading Detection</p>
+          <div className="flex flex-wrap gap-4 text-sm text-zinc-300">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.english} onChange={() => toggleOption('english')} />
+              "Chapter 12"
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.chinese} onChange={() => toggleOption('chinese')} />
+              "第十二章"
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.markdown} onChange={() => toggleOption('markdown')} />
+              Markdown
+              <select
+                value={options.markdownLevel}
+                onChange={(e) => setOptions(prev => ({ ...prev, markdownLevel: Number(e.target.value) }))}
+                className="bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-xs"
+                aria-label="Markdown heading level"
+              >
+                {[1, 2, 3].map(level => <option key={level} value={level}>{'#'.repeat(level)}</option>)}
+              </select>
+            </label>
+          </div>
+          <input
+            value={options.customPattern || ''}
+            onChange={(e) => setOptions(prev => ({ ...prev, customPattern: e.target.value || undefined }))}
+            placeholder="Custom heading regex, e.g. ^Episode (\d+)[:\s]*(.*)$"
+            className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 text-xs font-mono text-zinc-200 focus:border-amber-600 outline-none"
+            aria-label="Custom heading pattern"
+          />
+          <input
+            value={sceneMarkers}
+            onChange={(e) => setSceneMarkers(e.target.value)}
+            placeholder="Extra scene-break markers, comma separated (built-in: * * *, ###, ◇◇◇)"
+            className="w-full bg-zinc-950 border border-zinc-700 rounded-lg p-2 text-xs text-zinc-200 focus:border-amber-600 outline-none"
+            aria-label="Scene break markers"
+          />
+        </div>
+
+        {result && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-zinc-500">
+              <span>{result.chapters.length} chapters · {totalWords.toLocaleString()} words</span>
+              {result.renumbered && <span className="text-amber-500">Numbered sequentially (headings had no usable numbers)</span>}
+            </div>
+            <div className="max-h-56 overflow-y-auto scrollbar-thin border border-zinc-800 rounded-lg divide-y divide-zinc-800">
+              {result.chapters.map((chapter, index) => (
+                <div key={index} className="flex justify-between px-3 py-2 text-sm">
+                  <span className="text-zinc-200 truncate">
+                    <span className="text-amber-500 font-semibold mr-2">{chapter.number}</span>
+                    {chapter.title}
+                  </span>
+                  <span className="text-zinc-500 text-xs whitespace-nowrap ml-3">
+                    {chapter.wordCount.toLocaleString()} words{chapter.scenes.length > 1 ? ` · ${chapter.scenes.length} scenes` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {result.frontMatter && (
+              <p className="text-xs text-zinc-500 italic">
+                Text before the first heading ({result.frontMatter.length.toLocaleString()} characters) will not be imported.
+              </p>
+            )}
+          </div>
+        )}
+
+        <label className="flex items-start gap-2 text-sm text-zinc-300">
+          <input type="checkbox" checked={runBackfill} onChange={(e) => setRunBackfill(e.target.checked)} className="mt-1" />
+          <span>
+            Back-fill characters, items, techniques and threads after import
+            <span className="block text-xs text-zinc-500">Runs AI extraction chapter by chapter; this can take a while for long manuscripts.</span>
+          </span>
+        </label>
+      </div>
+    </Modal>
+  );
+};
+
+export default memo(ManuscriptImportDialog);
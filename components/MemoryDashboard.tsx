@@ -5,13 +5,37 @@ import { buildLoreBible, formatLoreBibleCompact, validateLoreBibleConsistency }
 import { gatherMemoryContext, MemoryContext } from '../services/memory/memoryTierManager';
 import { getRelevantArcMemories, ArcMemorySummary } from '../services/memory/arcMemoryService';
 import { analyzeChapterContext, QueryAnalysisResult } from '../services/memory/queryAnalyzer';
-import { getIndexingStats, fullReindex, isPineconeReady, getNovelStats, isEmbeddingServiceAvailable, generateEmbedding, ensureIndexExists } from '../services/vectorDb';
+import {
+  getIndexingStats,
+  fullReindex,
+  isPineconeReady,
+  isVectorStoreReady,
+  getActiveVectorStore,
+  getActiveEmbeddingBackend,
+  getEmbeddingSettings,
+  saveEmbeddingSettings,
+  getNovelStats,
+  isEmbeddingServiceAvailable,
+  generateEmbedding,
+  ensureIndexExists,
+  type EmbeddingBackendSettings,
+  type VectorStoreKind,
+} from '../services/vectorDb';
 import { logger } from '../services/loggingService';
 
 interface MemoryDashboardProps {
   novelState: NovelState | null;
 }
 
+interface VectorDbStats {
+  ready: boolean;
+  store: VectorStoreKind;
+  /** Label of the embedding backend vectors are generated with */
+  backendLabel: string;
+  vectorCount: number;
+  lastIndexed: number | null;
+}
+
 type TabType = 'overview' | 'loreBible' | 'arcMemory' | 'vectorDb' | 'queryAnalysis';
 
 export const MemoryDashboard: React.FC<MemoryDashboardProps> = ({ novelState }) => {
@@ -20,11 +44,7 @@ export const MemoryDashboard: React.FC<MemoryDashboardProps> = ({ novelState })
   const [arcMemories, setArcMemories] = useState<ArcMemorySummary[]>([]);
   const [memoryContext, setMemoryContext] = useState<MemoryContext | null>(null);
   const [queryAnalysis, setQueryAnalysis] = useState<QueryAnalysisResult | null>(null);
-  const [vectorDbStats, setVectorDbStats] = useState<{
-    ready: boolean;
-    vectorCount: number;
-    lastIndexed: number | null;
-  } | null>(null);
+  const [vectorDbStats, setVectorDbStats] = useState<VectorDbStats | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isIndexing, setIsIndexing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -56,16 +76,20 @@ export const MemoryDashboard: React.FC<MemoryDashboardProps> = ({ novelState })
       setQueryAnalysis(analysis);
 
       // Check vector DB status
-      const ready = await isPineconeReady();
+      const ready = await isVectorStoreReady();
+      const store = getActiveVectorStore();
+      const backendLabel = getActiveEmbeddingBackend().label;
       if (ready) {
         const stats = await getNovelStats(novelState.id);
         setVectorDbStats({
           ready: true,
+          store,
+          backendLabel,
           vectorCount: stats?.vectorCount || 0,
           lastIndexed: null, // Would come from sync status table
         });
       } else {
-        setVectorDbStats({ ready: false, vectorCount: 0, lastIndexed: null });
+        setVectorDbStats({ ready: false, store, backendLabel, vectorCount: 0, lastIndexed: null });
       }
 
     } catch (err) {
@@ -196,6 +220,7 @@ export const MemoryDashboard: React.FC<MemoryDashboardProps> = ({ novelState })
                 isIndexing={isIndexing}
                 onReindex={handleFullReindex}
                 onIndexCreated={loadMemoryData}
+                onSettingsChanged={loadMemoryData}
               />
             )}
             {activeTab === 'queryAnalysis' && (
@@ -558,13 +583,81 @@ const ArcMemoryTab: React.FC<{
   );
 };
 
+// Embedding backend selector for the Vector DB tab
+const EmbeddingBackendSettingsPanel: React.FC<{ onSaved?: () => void }> = ({ onSaved }) => {
+  const [settings, setSettings] = useState<EmbeddingBackendSettings>(() => getEmbeddingSettings());
+  const [isDirty, setIsDirty] = useState(false);
+
+  const update = (changes: Partial<EmbeddingBackendSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    setSettings(saveEmbeddingSettings(settings));
+    setIsDirty(false);
+    onSaved?.();
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 border border-slate-700 space-y-3">
+      <div>
+        <h3 className="text-amber-400 font-medium">Embedding Backend</h3>
+        <p className="text-xs text-slate-400 mt-1">
+          Pinecone is used with OpenAI embeddings when configured. Every other backend indexes into a local
+          store in this browser. Switching backends requires a full reindex.
+        </p>
+      </div>
+      <select
+        value={settings.backend}
+        onChange={(e) => update({ backend: e.target.value as EmbeddingBackendSettings['backend'] })}
+        className="w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-slate-200"
+        aria-label="Embedding backend"
+      >
+        <option value="auto">Automatic (OpenAI if configured, otherwise lexical)</option>
+        <option value="openai">OpenAI text-embedding-3-small</option>
+        <option value="local">Local model (OpenAI-compatible server)</option>
+        <option value="lexical">Lexical (offline, no model)</option>
+      </select>
+      {settings.backend === 'local' && (
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            value={settings.localBaseUrl}
+            onChange={(e) => update({ localBaseUrl: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-slate-200"
+            aria-label="Local embedding server URL"
+          />
+          <input
+            value={settings.localModel}
+            onChange={(e) => update({ localModel: e.target.value })}
+            placeholder="nomic-embed-text"
+            className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-slate-200"
+            aria-label="Local embedding model"
+          />
+        </div>
+      )}
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="px-4 py-1.5 rounded-lg text-sm font-medium bg-amber-600 hover:bg-amber-700 text-white disabled:bg-slate-700 disabled:text-slate-400"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
 // Vector DB Tab Component
 const VectorDbTab: React.FC<{
-  stats: { ready: boolean; vectorCount: number; lastIndexed: number | null } | null;
+  stats: VectorDbStats | null;
   isIndexing: boolean;
   onReindex: () => void;
   onIndexCreated?: () => void;
-}> = ({ stats, isIndexing, onReindex, onIndexCreated }) => {
+  onSettingsChanged?: () => void;
+}> = ({ stats, isIndexing, onReindex, onIndexCreated, onSettingsChanged }) => {
   const [isTesting, setIsTesting] = useState(false);
   const [isCreatingIndex, setIsCreatingIndex] = useState(false);
   const [testResult, setTestResult] = useState<{
@@ -613,19 +706,22 @@ const VectorDbTab: React.FC<{
 
     try {
       // Test 1: Check if embedding service is available
+      const backend = getActiveEmbeddingBackend();
       const embeddingAvailable = isEmbeddingServiceAvailable();
       if (!embeddingAvailable) {
         setTestResult({
           success: false,
-          message: 'OpenAI API key not configured',
-          details: 'Embeddings require OPENAI_API_KEY to be set in environment variables.',
+          message: `${backend.label} embeddings not configured`,
+          details: backend.id === 'openai'
+            ? 'Embeddings require OPENAI_API_KEY to be set in environment variables.'
+            : 'Set the local server URL and model in the embedding backend settings.',
         });
         return;
       }
 
-      // Test 2: Check Pinecone connection
-      const pineconeReady = await isPineconeReady();
-      if (!pineconeReady) {
+      // Test 2: Check Pinecone connection (the local store needs none)
+      const usesPinecone = getActiveVectorStore() === 'pinecone';
+      if (usesPinecone && !(await isPineconeReady())) {
         setTestResult({
           success: false,
           message: 'Pinecone index not found',
@@ -650,7 +746,8 @@ const VectorDbTab: React.FC<{
       setTestResult({
         success: true,
         message: 'All systems operational!',
-        details: `✓ OpenAI embeddings working (${embedding.length} dimensions)\n✓ Pinecone connected\n✓ Ready for indexing`,
+        details: `✓ ${backend.label} embeddings working (${embedding.length} dimensions)\n` +
+          `✓ ${usesPinecone ? 'Pinecone connected' : 'Local vector store (IndexedDB)'}\n✓ Ready for indexing`,
       });
     } catch (error) {
       setTestResult({
@@ -665,6 +762,8 @@ const VectorDbTab: React.FC<{
 
   return (
     <div className="space-y-6">
+      <EmbeddingBackendSettingsPanel onSaved={onSettingsChanged} />
+
       {/* Connection Status */}
       <div className={`p-4 rounded-lg border ${
         stats?.ready 
@@ -674,10 +773,14 @@ const VectorDbTab: React.FC<{
         <div className="flex items-center gap-2">
           <div className={`w-3 h-3 rounded-full ${stats?.ready ? 'bg-green-400' : 'bg-amber-400'}`}></div>
           <span className={stats?.ready ? 'text-green-300' : 'text-amber-300'}>
-            {stats?.ready ? 'Pinecone Connected' : 'Pinecone Index Not Found'}
+            {stats?.store === 'local'
+              ? stats.ready
+                ? `Local Vector Store (${stats.backendLabel} embeddings)`
+                : `${stats.backendLabel} Embeddings Not Configured`
+              : stats?.ready ? 'Pinecone Connected' : 'Pinecone Index Not Found'}
           </span>
         </div>
-        {!stats?.ready && (
+        {!stats?.ready && stats?.store !== 'local' && (
           <div className="mt-3">
             <p className="text-sm text-slate-400 mb-3">
               The Pinecone index "hall-of-jade-manuscripts" doesn't exist yet. Click below to create it.
@@ -722,7 +825,7 @@ const VectorDbTab: React.FC<{
               Testing...
             </span>
           ) : (
-            'Test Pinecone + Embeddings'
+            'Test Vector Store + Embeddings'
           )}
         </button>
 
@@ -0,0 +1,370 @@
+/**
+ * Power System Editor
+ *
+ * Edits a novel's power ladders in the World Bible: stage order, sub-stages,
+ * alternative names and per-stage progression rules.
+ */
+
+import React, { useState, memo } from 'react';
+import type {
+  PowerLevelCategory,
+  PowerLevelHierarchy,
+  PowerLevelProgressionRule,
+  PowerLevelStage,
+} from '../types/powerSystem';
+import { DEFAULT_POWER_HIERARCHIES, DEFAULT_PROGRESSION_RULES } from '../services/powerLevelSystem';
+import { generateUUID } from '../utils/uuid';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface PowerSystemEditorProps {
+  powerSystems: PowerLevelHierarchy[] | undefined;
+  onUpdatePowerSystems: (powerSystems: PowerLevelHierarchy[]) => void;
+}
+
+const CATEGORIES: { value: PowerLevelCategory; label: string }[] = [
+  { value: 'cultivation', label: 'Cultivation' },
+  { value: 'combat', label: 'Combat' },
+  { value: 'spiritual', label: 'Spiritual' },
+  { value: 'body_refinement', label: 'Body Refinement' },
+];
+
+const inputClass =
+  'w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none';
+
+const parseList = (value: string): string[] =>
+  value.split(',').map(part => part.trim()).filter(Boolean);
+
+/** Stages renumbered to match their position in the list */
+const renumber = (stages: PowerLevelStage[]): PowerLevelStage[] =>
+  stages.map((stage, index) => ({ ...stage, order: index + 1 }));
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+/**
+ * Comma-separated list input that commits on blur, so typing a comma does not
+ * lose the trailing entry
+ */
+const ListInput: React.FC<{
+  values: string[] | undefined;
+  placeholder: string;
+  onCommit: (values: string[] | undefined) => void;
+}> = ({ values, placeholder, onCommit }) => {
+  const joined = (values || []).join(', ');
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="text"
+      value={draft ?? joined}
+      placeholder={placeholder}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null) {
+          const parsed = parseList(draft);
+          onCommit(parsed.length > 0 ? parsed : undefined);
+          setDraft(null);
+        }
+      }}
+      className={inputClass}
+    />
+  );
+};
+
+/**
+ * Optional rule override; blank inherits the ladder or default rule
+ */
+const RuleInput: React.FC<{
+  label: string;
+  rule: 'maxChaptersPerStage' | 'minChaptersForBreakthrough';
+  rules: Partial<PowerLevelProgressionRule> | undefined;
+  onChange: (rules: Partial<PowerLevelProgressionRule> | undefined) => void;
+}> = ({ label, rule, rules, onChange }) => (
+  <label className="block">
+    <span className="block text-[10px] uppercase tracking-wide text-zinc-500 mb-1">{label}</span>
+    <input
+      type="number"
+      min={0}
+      value={rules?.[rule] ?? ''}
+      placeholder={String(DEFAULT_PROGRESSION_RULES[rule])}
+      onChange={e => {
+        const next = { ...rules };
+        if (e.target.value === '') {
+          delete next[rule];
+        } else {
+          next[rule] = Math.max(0, Number(e.target.value));
+        }
+        onChange(Object.keys(next).length > 0 ? next : undefined);
+      }}
+      className={inputClass}
+    />
+  </label>
+);
+
+const RuleToggle: React.FC<{
+  label: string;
+  rule: 'allowRegression' | 'requireBreakthroughEvent';
+  rules: Partial<PowerLevelProgressionRule> | undefined;
+  onChange: (rules: Partial<PowerLevelProgressionRule> | undefined) => void;
+}> = ({ label, rule, rules, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-zinc-400">
+    <input
+      type="checkbox"
+      checked={rules?.[rule] ?? DEFAULT_PROGRESSION_RULES[rule]}
+      onChange={e => onChange({ ...rules, [rule]: e.target.checked })}
+      className="accent-amber-500"
+    />
+    {label}
+  </label>
+);
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+const PowerSystemEditor: React.FC<PowerSystemEditorProps> = ({ powerSystems, onUpdatePowerSystems }) => {
+  const ladders = powerSystems || [];
+  const [selectedId, setSelectedId] = useState<string | null>(ladders[0]?.id ?? null);
+  const [expandedStage, setExpandedStage] = useState<number | null>(null);
+
+  const selected = ladders.find(ladder => ladder.id === selectedId) || ladders[0];
+
+  const updateLadder = (id: string | undefined, changes: Partial<PowerLevelHierarchy>) => {
+    onUpdatePowerSystems(ladders.map(ladder => (ladder.id === id ? { ...ladder, ...changes } : ladder)));
+  };
+
+  const updateStages = (stages: PowerLevelStage[]) => {
+    if (selected) updateLadder(selected.id, { stages: renumber(stages) });
+  };
+
+  const updateStage = (index: number, changes: Partial<PowerLevelStage>) => {
+    if (!selected) return;
+    updateStages(selected.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    if (!selected) return;
+    const target = index + direction;
+    if (target < 0 || target >= selected.stages.length) return;
+    const stages = [...selected.stages];
+    [stages[index], stages[target]] = [stages[target], stages[index]];
+    updateStages(stages);
+    setExpandedStage(expandedStage === index ? target : expandedStage);
+  };
+
+  const addLadder = () => {
+    const ladder: PowerLevelHierarchy = {
+      id: generateUUID(),
+      name: ladders.length === 0 ? 'Cultivation Realms' : 'New Path',
+      category: 'cultivation',
+      stages: [],
+    };
+    onUpdatePowerSystems([...ladders, ladder]);
+    setSelectedId(ladder.id!);
+  };
+
+  const startFromDefaults = () => {
+    const copies = DEFAULT_POWER_HIERARCHIES.map(ladder => ({
+      ...ladder,
+      id: generateUUID(),
+      stages: ladder.stages.map(stage => ({ ...stage })),
+    }));
+    onUpdatePowerSystems([...ladders, ...copies]);
+    setSelectedId(copies[0].id);
+  };
+
+  const removeLadder = (id: string | undefined) => {
+    const remaining = ladders.filter(ladder => ladder.id !== id);
+    onUpdatePowerSystems(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  if (ladders.length === 0) {
+    return (
+      <div className="py-8 text-center border-2 border-dashed border-zinc-700 rounded-xl">
+        <p className="text-sm text-zinc-400 mb-1">This novel uses the generic Qi Refining ladder.</p>
+        <p className="text-xs text-zinc-500 mb-4">
+          Define your own realms so consistency checks and prompts follow your power system.
+        </p>
+        <div className="flex justify-center gap-3">
+          <button
+            onClick={startFromDefaults}
+            className="px-4 py-2 rounded-lg text-sm bg-zinc-800 text-zinc-300 border border-zinc-700 hover:bg-zinc-700"
+          >
+            Start from default ladder
+          </button>
+          <button
+            onClick={addLadder}
+            className="px-4 py-2 rounded-lg text-sm bg-amber-600 hover:bg-amber-500 text-white font-semibold"
+          >
+            + New Ladder
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Ladder tabs */}
+      <div className="flex flex-wrap items-center gap-2">
+        {ladders.map(ladder => (
+          <button
+            key={ladder.id}
+            onClick={() => setSelectedId(ladder.id ?? null)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+              ladder.id === selected?.id
+                ? 'bg-amber-600/20 text-amber-400 border border-amber-600/30'
+                : 'bg-zinc-800 text-zinc-400 border border-zinc-700 hover:text-zinc-200'
+            }`}
+          >
+            {ladder.name || 'Untitled'} ({ladder.stages.length})
+          </button>
+        ))}
+        <button onClick={addLadder} className="text-xs text-amber-400 hover:text-amber-300 px-2">
+          + Ladder
+        </button>
+      </div>
+
+      {selected && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="block sm:col-span-2">
+              <span className="block text-xs text-zinc-500 mb-1">Ladder Name</span>
+              <input
+                type="text"
+                value={selected.name || ''}
+                onChange={e => updateLadder(selected.id, { name: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-zinc-500 mb-1">Category</span>
+              <select
+                value={selected.category}
+                onChange={e => {
+                  const category = e.target.value as PowerLevelCategory;
+                  updateLadder(selected.id, {
+                    category,
+                    stages: selected.stages.map(stage => ({ ...stage, category })),
+                  });
+                }}
+                className={inputClass}
+              >
+                {CATEGORIES.map(category => (
+                  <option key={category.value} value={category.value}>{category.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="block text-xs text-zinc-500 mb-1">Sub-stages (lowest first, applies to every stage)</span>
+            <ListInput
+              values={selected.subStages}
+              placeholder="Early, Mid, Late, Peak"
+              onCommit={subStages => updateLadder(selected.id, { subStages })}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+            <RuleInput label="Max chapters / stage" rule="maxChaptersPerStage" rules={selected.rules} onChange={rules => updateLadder(selected.id, { rules })} />
+            <RuleInput label="Min chapters / breakthrough" rule="minChaptersForBreakthrough" rules={selected.rules} onChange={rules => updateLadder(selected.id, { rules })} />
+            <RuleToggle label="Allow regression" rule="allowRegression" rules={selected.rules} onChange={rules => updateLadder(selected.id, { rules })} />
+            <RuleToggle label="Require breakthrough scene" rule="requireBreakthroughEvent" rules={selected.rules} onChange={rules => updateLadder(selected.id, { rules })} />
+          </div>
+
+          {/* Stages, lowest first */}
+          <ol className="space-y-2">
+            {selected.stages.map((stage, index) => (
+              <li key={`${selected.id}-${index}`} className="border border-zinc-700 rounded-xl bg-zinc-900/50">
+                <div className="flex items-center gap-2 p-2">
+                  <span className="w-6 text-center text-xs font-mono text-zinc-500">{stage.order}</span>
+                  <input
+                    type="text"
+                    value={stage.name}
+                    placeholder="Stage name"
+                    onChange={e => updateStage(index, { name: e.target.value })}
+                    className={inputClass}
+                  />
+                  <button onClick={() => moveStage(index, -1)} disabled={index === 0} className="px-2 text-zinc-400 hover:text-zinc-200 disabled:opacity-30" aria-label="Move stage up">↑</button>
+                  <button onClick={() => moveStage(index, 1)} disabled={index === selected.stages.length - 1} className="px-2 text-zinc-400 hover:text-zinc-200 disabled:opacity-30" aria-label="Move stage down">↓</button>
+                  <button
+                    onClick={() => setExpandedStage(expandedStage === index ? null : index)}
+                    className="px-2 text-xs text-amber-400 hover:text-amber-300 whitespace-nowrap"
+                  >
+                    {expandedStage === index ? 'Less' : 'Details'}
+                  </button>
+                  <button
+                    onClick={() => updateStages(selected.stages.filter((_, i) => i !== index))}
+                    className="px-2 text-red-400 hover:text-red-300"
+                    aria-label="Remove stage"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                {expandedStage === index && (
+                  <div className="px-3 pb-3 space-y-3 border-t border-zinc-800 pt-3">
+                    <textarea
+                      value={stage.description || ''}
+                      placeholder="Description"
+                      rows={2}
+                      onChange={e => updateStage(index, { description: e.target.value || undefined })}
+                      className={inputClass}
+                    />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <label className="block">
+                        <span className="block text-xs text-zinc-500 mb-1">Also called</span>
+                        <ListInput
+                          values={stage.aliases}
+                          placeholder="Names used in the text"
+                          onCommit={aliases => updateStage(index, { aliases })}
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="block text-xs text-zinc-500 mb-1">Sub-stages (overrides ladder)</span>
+                        <ListInput
+                          values={stage.subStages}
+                          placeholder={(selected.subStages || []).join(', ') || 'Layer 1, Layer 2, ...'}
+                          onCommit={subStages => updateStage(index, { subStages })}
+                        />
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+                      <RuleInput label="Max chapters" rule="maxChaptersPerStage" rules={stage.rules} onChange={rules => updateStage(index, { rules })} />
+                      <RuleInput label="Min chapters" rule="minChaptersForBreakthrough" rules={stage.rules} onChange={rules => updateStage(index, { rules })} />
+                      <RuleToggle label="Allow regression" rule="allowRegression" rules={stage.rules} onChange={rules => updateStage(index, { rules })} />
+                      <RuleToggle label="Breakthrough scene" rule="requireBreakthroughEvent" rules={stage.rules} onChange={rules => updateStage(index, { rules })} />
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex justify-between">
+            <button
+              onClick={() => updateStages([...selected.stages, { name: '', order: selected.stages.length + 1, category: selected.category }])}
+              className="px-4 py-2 rounded-lg text-sm bg-zinc-800 text-zinc-300 border border-zinc-700 hover:bg-zinc-700"
+            >
+              + Add Stage
+            </button>
+            <button
+              onClick={() => removeLadder(selected.id)}
+              className="px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-900/20"
+            >
+              Delete Ladder
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(PowerSystemEditor);
@@ -125,6 +125,8 @@ export const RELATED_VIEWS_MAP: Record<ViewType, RelatedView[]> = {
   'planning': [],
   'library': [],
   'world-map': [],
+  'universe': [],
+  'members': [],
   'storyboard': [],
   'timeline': [],
   'beatsheet': [],
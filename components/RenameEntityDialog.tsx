@@ -0,0 +1,250 @@
+/**
+ * Rename Entity Dialog
+ * Renames a character, technique or item across prose and metadata: choose
+ * the new name and the aliases to rewrite, review the references and the
+ * chapter diff, then apply everything as one undoable step
+ */
+
+import React, { useState, memo, useCallback, useMemo } from 'react';
+import type { NovelState } from '../types';
+import type { RenameAlias, RenameChangeSet, RenameEntityType } from '../types/rename';
+import {
+  planRename,
+  applyRename,
+  previewRenamedNovel,
+  recordRename,
+  suggestRenameAliases,
+} from '../services/entityRenameService';
+import { useToast } from '../contexts/ToastContext';
+import ImprovementDiffView from './ImprovementDiffView';
+
+interface RenameEntityDialogProps {
+  novel: NovelState;
+  entityType: RenameEntityType;
+  entityId: string;
+  currentName: string;
+  onUpdateNovel: (updater: (prev: NovelState) => NovelState) => void;
+  onClose: () => void;
+}
+
+const SNIPPET_CHARS = 40;
+
+/** The stretch of text around the first difference between two strings */
+function changedSnippet(before: string, after: string): { before: string; after: string } {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+  const from = Math.max(0, start - SNIPPET_CHARS);
+  const prefix = from > 0 ? '…' : '';
+  return {
+    before: prefix + before.slice(from, Math.min(before.length, endBefore + SNIPPET_CHARS)),
+    after: prefix + after.slice(from, Math.min(after.length, endAfter + SNIPPET_CHARS)),
+  };
+}
+
+const inputClass =
+  'bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none';
+
+const RenameEntityDialog: React.FC<RenameEntityDialogProps> = ({
+  novel,
+  entityType,
+  entityId,
+  currentName,
+  onUpdateNovel,
+  onClose,
+}) => {
+  const { showSuccess, showError, showWarning } = useToast();
+  const [newName, setNewName] = useState('');
+  const [aliases, setAliases] = useState<RenameAlias[]>([]);
+  const [changeSet, setChangeSet] = useState<RenameChangeSet | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const handleNameChange = useCallback((value: string) => {
+    setNewName(value);
+    setChangeSet(null);
+    setAliases(value.trim() ? suggestRenameAliases(currentName, value, entityType) : []);
+  }, [currentName, entityType]);
+
+  const updateAlias = useCallback((index: number, patch: Partial<RenameAlias>) => {
+    setChangeSet(null);
+    setAliases(prev => prev.map((alias, i) => (i === index ? { ...alias, ...patch } : alias)));
+  }, []);
+
+  const addAlias = useCallback(() => {
+    setChangeSet(null);
+    setAliases(prev => [...prev, { from: '', to: newName.trim(), enabled: true }]);
+  }, [newName]);
+
+  const handlePreview = useCallback(() => {
+    try {
+      setChangeSet(planRename(novel, { entityType, entityId, newName, aliases }));
+    } catch (error: any) {
+      showError(error.message || 'Failed to prepare the rename');
+    }
+  }, [novel, entityType, entityId, newName, aliases, showError]);
+
+  const handleApply = useCallback(() => {
+    if (!changeSet) return;
+    const { conflicts } = applyRename(novel, changeSet);
+    if (conflicts > 0) {
+      showWarning(`Nothing was renamed: ${conflicts} entr${conflicts === 1 ? 'y was' : 'ies were'} edited since the preview. Preview again to include the changes.`);
+      setShowDiff(false);
+      setChangeSet(null);
+      return;
+    }
+    onUpdateNovel(prev => applyRename(prev, changeSet).state);
+    recordRename(changeSet);
+    showSuccess(`Renamed ${changeSet.oldName} to ${changeSet.newName} in ${changeSet.changes.length} place${changeSet.changes.length !== 1 ? 's' : ''}`);
+    onClose();
+  }, [changeSet, novel, onUpdateNovel, onClose, showSuccess, showWarning]);
+
+  const renamedNovel = useMemo(
+    () => (changeSet && showDiff ? previewRenamedNovel(novel, changeSet) : null),
+    [changeSet, novel, showDiff]
+  );
+
+  const metadataChanges = useMemo(() => (changeSet?.changes ?? []).filter(c => !c.chapterId), [changeSet]);
+  const proseChanges = useMemo(() => (changeSet?.changes ?? []).filter(c => c.chapterId), [changeSet]);
+  const chapterCount = useMemo(() => new Set(proseChanges.map(c => c.chapterId)).size, [proseChanges]);
+  const total = changeSet ? changeSet.counts.name + changeSet.counts.alias + changeSet.counts.honorific : 0;
+
+  if (showDiff && renamedNovel) {
+    return (
+      <ImprovementDiffView
+        originalState={novel}
+        improvedState={renamedNovel}
+        category="rename"
+        onClose={() => setShowDiff(false)}
+        onAcceptAll={handleApply}
+        onRejectAll={() => setShowDiff(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-zinc-700 flex items-center justify-between">
+          <h2 className="text-lg font-fantasy font-bold text-amber-400">Rename {currentName}</h2>
+          <button onClick={onClose} className="text-zinc-400 hover:text-white text-xl" aria-label="Close">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5 scrollbar-thin">
+          <label className="block space-y-1">
+            <span className="text-xs font-bold text-zinc-400 uppercase tracking-wide">New name</span>
+            <input
+              type="text"
+              value={newName}
+              onChange={e => handleNameChange(e.target.value)}
+              className={`${inputClass} w-full`}
+              autoFocus
+            />
+          </label>
+
+          {aliases.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-bold text-zinc-400 uppercase tracking-wide">Rewrite</span>
+                <button onClick={addAlias} className="text-xs text-amber-500 hover:text-amber-400">+ Add alias</button>
+              </div>
+              <p className="text-xs text-zinc-500">
+                Each spelling is replaced as a whole word; honorifics around it (Senior Brother, -xiong) are kept.
+              </p>
+              {aliases.map((alias, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={alias.enabled}
+                    onChange={e => updateAlias(index, { enabled: e.target.checked })}
+                    aria-label={`Rewrite ${alias.from || 'alias'}`}
+                  />
+                  <input
+                    type="text"
+                    value={alias.from}
+                    onChange={e => updateAlias(index, { from: e.target.value })}
+                    placeholder="Old spelling"
+                    className={`${inputClass} flex-1`}
+                  />
+                  <span className="text-zinc-500">→</span>
+                  <input
+                    type="text"
+                    value={alias.to}
+                    onChange={e => updateAlias(index, { to: e.target.value })}
+                    placeholder="New spelling"
+                    className={`${inputClass} flex-1`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {changeSet && (
+            <div className="space-y-3 border-t border-zinc-700 pt-4">
+              <p className="text-sm text-zinc-300">
+                {total === 0
+                  ? 'No references found; only the name itself changes.'
+                  : `${total} reference${total !== 1 ? 's' : ''}: ${changeSet.counts.name} by full name, ${changeSet.counts.alias} by alias, ${changeSet.counts.honorific} with an honorific — in ${chapterCount} chapter${chapterCount !== 1 ? 's' : ''} and ${metadataChanges.length} other entr${metadataChanges.length === 1 ? 'y' : 'ies'}.`}
+              </p>
+              {metadataChanges.length > 0 && (
+                <ul className="space-y-2">
+                  {metadataChanges.map((change, index) => {
+                    const snippet = changedSnippet(change.before, change.after);
+                    return (
+                      <li key={index} className="bg-zinc-800/50 rounded-lg p-3 text-xs space-y-1">
+                        <p className="text-amber-500 font-semibold">{change.location}</p>
+                        <p className="text-red-300/80 line-through break-words">{snippet.before}</p>
+                        <p className="text-emerald-300 break-words">{snippet.after}</p>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-zinc-700 flex flex-wrap justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700"
+          >
+            Cancel
+          </button>
+          {!changeSet ? (
+            <button
+              onClick={handlePreview}
+              disabled={!newName.trim() || newName.trim() === currentName}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Find References
+            </button>
+          ) : (
+            <>
+              {proseChanges.length > 0 && (
+                <button
+                  onClick={() => setShowDiff(true)}
+                  className="px-4 py-2 rounded-lg text-sm bg-zinc-800 hover:bg-zinc-700 text-zinc-200 border border-zinc-700"
+                >
+                  Review Chapter Diff
+                </button>
+              )}
+              <button
+                onClick={handleApply}
+                className="px-4 py-2 rounded-lg text-sm font-semibold bg-amber-600 hover:bg-amber-500 text-white"
+              >
+                Rename
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(RenameEntityDialog);
@@ -6,6 +6,7 @@ import { useToast } from '../contexts/ToastContext';
 interface RevisionHistoryProps {
   entityType: 'chapter' | 'scene' | 'character' | 'world';
   entityId: string;
+  /** Restoring is offered only when this is given */
   onRestore?: (revision: Revision) => void;
   onClose: () => void;
 }
@@ -113,12 +114,14 @@ const RevisionHistory: React.FC<RevisionHistoryProps> = ({ entityType, entityId,
                       >
                         Preview
                       </button>
-                      <button
-                        onClick={() => handleRestore(revision)}
-                        className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-sm font-semibold transition-all duration-200"
-                      >
-                        Restore
-                      </button>
+                      {onRestore && (
+                        <button
+                          onClick={() => handleRestore(revision)}
+                          className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-sm font-semibold transition-all duration-200"
+                        >
+                          Restore
+                        </button>
+                      )}
                     </div>
                   </div>
                   {selectedRevision?.id === revision.id &&
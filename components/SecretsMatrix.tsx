@@ -0,0 +1,313 @@
+/**
+ * Secrets Matrix
+ *
+ * Who knows what: one row per secret, one column per character, as of a
+ * chosen chapter. Selecting a secret opens its editor for status, keywords
+ * and holders.
+ */
+
+import React, { memo, useMemo, useState } from 'react';
+import type { NovelState } from '../types';
+import type { Secret, SecretCategory, SecretHolder, SecretLearnedHow, SecretRevealStatus } from '../types/secrets';
+import { buildSecretMatrix } from '../services/secretService';
+import { generateUUID } from '../utils/uuid';
+import { KeywordInput } from './KnowledgeLedger';
+
+interface SecretsMatrixProps {
+  novel: NovelState;
+  onUpdateSecrets: (secrets: Secret[]) => void;
+}
+
+const CATEGORIES: SecretCategory[] = ['bloodline', 'identity', 'technique', 'treasure', 'crime', 'relationship', 'other'];
+
+const STATUSES: { value: SecretRevealStatus; label: string }[] = [
+  { value: 'hidden', label: 'Hidden' },
+  { value: 'partially_revealed', label: 'Partially revealed' },
+  { value: 'revealed', label: 'Public' },
+];
+
+const HOW: { value: SecretLearnedHow; label: string }[] = [
+  { value: 'original', label: 'Always knew' },
+  { value: 'told', label: 'Told' },
+  { value: 'discovered', label: 'Discovered' },
+  { value: 'overheard', label: 'Overheard' },
+];
+
+const inputClass =
+  'bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none';
+
+const SecretsMatrixComponent: React.FC<SecretsMatrixProps> = ({ novel, onUpdateSecrets }) => {
+  const secrets = novel.secrets || [];
+  const latestChapter = novel.chapters.length;
+  const [asOfChapter, setAsOfChapter] = useState<number>(latestChapter);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const matrix = useMemo(() => buildSecretMatrix(novel, asOfChapter), [novel, asOfChapter]);
+  // Characters who hold at least one secret come first
+  const columns = useMemo(() => {
+    const holders = new Set(secrets.flatMap(s => s.holders.map(h => h.characterId)));
+    return [...novel.characterCodex].sort((a, b) => Number(holders.has(b.id)) - Number(holders.has(a.id)));
+  }, [novel.characterCodex, secrets]);
+  const names = useMemo(() => new Map(novel.characterCodex.map(c => [c.id, c.name])), [novel.characterCodex]);
+
+  const editing = secrets.find(s => s.id === editingId);
+
+  const updateSecret = (id: string, changes: Partial<Secret>) =>
+    onUpdateSecrets(secrets.map(s => (s.id === id ? { ...s, ...changes, updatedAt: Date.now() } : s)));
+
+  const updateHolder = (secret: Secret, index: number, changes: Partial<SecretHolder>) =>
+    updateSecret(secret.id, { holders: secret.holders.map((h, i) => (i === index ? { ...h, ...changes } : h)) });
+
+  const addSecret = () => {
+    const secret: Secret = {
+      id: generateUUID(),
+      title: 'New secret',
+      description: '',
+      category: 'other',
+      keywords: [],
+      status: 'hidden',
+      holders: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    onUpdateSecrets([...secrets, secret]);
+    setEditingId(secret.id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <label className="text-sm text-zinc-400 flex items-center gap-2">
+          As of chapter
+          <input
+            type="number"
+            min={0}
+            max={latestChapter}
+            value={asOfChapter}
+            onChange={e => setAsOfChapter(Math.min(latestChapter, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+            className={`w-20 ${inputClass}`}
+          />
+        </label>
+        <button
+          onClick={addSecret}
+          className="bg-amber-600 hover:bg-amber-500 text-white px-4 py-2 rounded-lg text-sm font-semibold whitespace-nowrap"
+        >
+          + Add Secret
+        </button>
+      </div>
+
+      {secrets.length === 0 ? (
+        <div className="py-12 text-center border-2 border-dashed border-zinc-700 rounded-2xl bg-zinc-900/30">
+          <div className="text-4xl mb-3">🔒</div>
+          <p className="text-sm text-zinc-500">No secrets recorded yet. They are added as chapters reveal them, or add one here.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-zinc-700 rounded-xl">
+          <table className="text-sm border-collapse">
+            <thead>
+              <tr className="bg-zinc-900">
+                <th className="sticky left-0 bg-zinc-900 text-left px-3 py-2 text-zinc-400 font-semibold min-w-[220px]">Secret</th>
+                {columns.map(c => (
+                  <th key={c.id} className="px-2 py-2 text-xs text-zinc-400 font-medium whitespace-nowrap">{c.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {secrets.map(secret => (
+                <tr
+                  key={secret.id}
+                  className={`border-t border-zinc-800 ${editingId === secret.id ? 'bg-amber-900/10' : 'hover:bg-zinc-800/40'}`}
+                >
+                  <td className="sticky left-0 bg-zinc-900 px-3 py-2">
+                    <button
+                      onClick={() => setEditingId(editingId === secret.id ? null : secret.id)}
+                      className="text-left text-zinc-200 hover:text-amber-400"
+                    >
+                      {secret.title}
+                    </button>
+                    <div className="text-xs text-zinc-500">
+                      {secret.category} · {STATUSES.find(s => s.value === secret.status)?.label}
+                      {secret.subjectCharacterId && names.get(secret.subjectCharacterId) && ` · about ${names.get(secret.subjectCharacterId)}`}
+                    </div>
+                  </td>
+                  {columns.map(c => {
+                    const cell = matrix.get(secret.id)?.get(c.id);
+                    return (
+                      <td key={c.id} className="px-2 py-2 text-center">
+                        {cell?.knows ? (
+                          <span
+                            className={cell.how === 'public' ? 'text-zinc-500' : 'text-emerald-400'}
+                            title={`${cell.how === 'public' ? 'Public' : HOW.find(h => h.value === cell.how)?.label} in ch. ${cell.revealedInChapter ?? '?'}`}
+                          >
+                            ✓<span className="text-[10px] ml-0.5">{cell.revealedInChapter ?? ''}</span>
+                          </span>
+                        ) : (
+                          <span className="text-zinc-700">·</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing && (
+        <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <input
+              type="text"
+              value={editing.title}
+              onChange={e => updateSecret(editing.id, { title: e.target.value })}
+              className={`flex-1 ${inputClass}`}
+            />
+            <select
+              value={editing.category}
+              onChange={e => updateSecret(editing.id, { category: e.target.value as SecretCategory })}
+              className={inputClass}
+            >
+              {CATEGORIES.map(c => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+            <select
+              value={editing.status}
+              onChange={e => {
+                const status = e.target.value as SecretRevealStatus;
+                updateSecret(editing.id, {
+                  status,
+                  publiclyRevealedInChapter: status === 'revealed' ? editing.publiclyRevealedInChapter ?? latestChapter : undefined,
+                });
+              }}
+              className={inputClass}
+            >
+              {STATUSES.map(s => (
+                <option key={s.value} value={s.value}>{s.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => {
+                onUpdateSecrets(secrets.filter(s => s.id !== editing.id));
+                setEditingId(null);
+              }}
+              className="text-zinc-500 hover:text-red-400 px-2 py-1"
+              aria-label="Delete secret"
+            >
+              ×
+            </button>
+          </div>
+
+          <textarea
+            value={editing.description}
+            placeholder="What the secret is"
+            rows={2}
+            onChange={e => updateSecret(editing.id, { description: e.target.value })}
+            className={`w-full ${inputClass}`}
+          />
+
+          <div className="flex items-center gap-3">
+            <select
+              value={editing.subjectCharacterId || ''}
+              onChange={e => updateSecret(editing.id, { subjectCharacterId: e.target.value || undefined })}
+              className={`flex-1 ${inputClass}`}
+            >
+              <option value="">About no one in particular</option>
+              {novel.characterCodex.map(c => (
+                <option key={c.id} value={c.id}>About {c.name}</option>
+              ))}
+            </select>
+            {editing.status === 'revealed' && (
+              <label className="text-xs text-zinc-500 flex items-center gap-2 whitespace-nowrap">
+                Public from ch.
+                <input
+                  type="number"
+                  min={1}
+                  value={editing.publiclyRevealedInChapter ?? ''}
+                  onChange={e => updateSecret(editing.id, {
+                    publiclyRevealedInChapter: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                  })}
+                  className={`w-20 ${inputClass}`}
+                />
+              </label>
+            )}
+          </div>
+
+          <KeywordInput
+            keywords={editing.keywords}
+            placeholder="Words that give it away in dialogue, e.g. phoenix bloodline, true name"
+            onCommit={keywords => updateSecret(editing.id, { keywords })}
+          />
+
+          <div className="space-y-2">
+            {editing.holders.map((holder, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select
+                  value={holder.characterId}
+                  onChange={e => updateHolder(editing, index, { characterId: e.target.value })}
+                  className={`flex-1 ${inputClass}`}
+                >
+                  {novel.characterCodex.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={holder.how}
+                  onChange={e => updateHolder(editing, index, { how: e.target.value as SecretLearnedHow })}
+                  className={inputClass}
+                >
+                  {HOW.map(h => (
+                    <option key={h.value} value={h.value}>{h.label}</option>
+                  ))}
+                </select>
+                {holder.how === 'told' && (
+                  <select
+                    value={holder.toldByCharacterId || ''}
+                    onChange={e => updateHolder(editing, index, { toldByCharacterId: e.target.value || undefined })}
+                    className={inputClass}
+                  >
+                    <option value="">by…</option>
+                    {novel.characterCodex.filter(c => c.id !== holder.characterId).map(c => (
+                      <option key={c.id} value={c.id}>by {c.name}</option>
+                    ))}
+                  </select>
+                )}
+                <span className="text-xs text-zinc-500">in ch.</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={holder.revealedInChapter}
+                  onChange={e => updateHolder(editing, index, { revealedInChapter: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className={`w-20 ${inputClass}`}
+                />
+                <button
+                  onClick={() => updateSecret(editing.id, { holders: editing.holders.filter((_, i) => i !== index) })}
+                  className="text-zinc-500 hover:text-red-400 px-2"
+                  aria-label="Remove holder"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => novel.characterCodex.length > 0 && updateSecret(editing.id, {
+                holders: [...editing.holders, {
+                  characterId: novel.characterCodex[0].id,
+                  revealedInChapter: Math.max(1, latestChapter),
+                  how: 'told',
+                }],
+              })}
+              disabled={novel.characterCodex.length === 0}
+              className="text-xs text-amber-500 hover:text-amber-400 disabled:opacity-40"
+            >
+              + Character learns this
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const SecretsMatrix = memo(SecretsMatrixComponent);
@@ -4,6 +4,10 @@ import { ViewType } from '../types';
 import { useNovel } from '../contexts/NovelContext';
 import { useChapterGenerationModel } from '../contexts/ChapterGenerationModelContext';
 import { Tooltip } from './Tooltip';
+import SyncConflictDialog from './SyncConflictDialog';
+import { useNovelPermissions } from '../hooks/useNovelPermissions';
+import { isViewAllowed } from '../services/permissionService';
+import { AUTHENTICATION_ENABLED } from '../config/supabase';
 
 interface SidebarProps {
   onNavigate?: () => void;
@@ -23,8 +27,14 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate, isCollapsed = false, onTo
     isSaving,
     syncNow,
     lastCloudErrorMessage,
+    library,
+    syncConflicts,
+    resolveSyncConflict,
   } = useNovel();
+  const [conflictNovelId, setConflictNovelId] = useState<string | null>(null);
+  const openConflict = syncConflicts.find(c => c.novelId === conflictNovelId);
   const { model: chapterModel, setModel: setChapterModel } = useChapterGenerationModel();
+  const { role: novelRole } = useNovelPermissions(activeNovel);
 
   const handleViewChange = useCallback((view: ViewType) => {
     setView(view);
@@ -47,6 +57,7 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate, isCollapsed = false, onTo
     { id: 'dashboard', label: 'Dashboard', icon: '🏠' },
     { id: 'chapters', label: 'Chapters', icon: '📖' },
     { id: 'editor', label: 'Editor', icon: '✏️' },
+    ...(AUTHENTICATION_ENABLED ? [{ id: 'members' as ViewType, label: 'Members', icon: '🤝' }] : []),
   ];
 
   const planningItems: { id: ViewType; label: string; icon: string }[] = [
@@ -66,6 +77,7 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate, isCollapsed = false, onTo
     { id: 'characters', label: 'Codex', icon: '👥' },
     { id: 'antagonists', label: 'Opposition', icon: '⚔️' },
     { id: 'character-systems', label: 'Systems', icon: '⚙️' },
+    { id: 'universe', label: 'Universe', icon: '🌌' },
   ];
 
   const analysisItems: { id: ViewType; label: string; icon: string }[] = [
@@ -87,13 +99,16 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate, isCollapsed = false, onTo
     { id: 'improvement-history', label: 'History', icon: '📜', tooltip: 'View all novel improvements and changes made over time' },
   ];
 
+  // Readers and editors only get the views their role opens
+  const allowed = <T extends { id: ViewType }>(items: T[]): T[] => items.filter(item => isViewAllowed(novelRole, item.id));
+
   const renderNavGroup = (
     items: { id: ViewType; label: string; icon: string }[],
     groupLabel?: string,
     isGroupCollapsible: boolean = false,
     isExpanded: boolean = true,
     onToggle?: () => void
-  ) => (
+  ) => items.length === 0 ? null : (
     <div key={groupLabel || 'ungrouped'} className="space-y-2">
       {groupLabel && !isCollapsed && (
         <div className="px-4 pt-4 pb-2">
@@ -222,12 +237,12 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate, isCollapsed = false, onTo
       {/* Navigation */}
       <nav className={`flex-1 ${isCollapsed ? 'p-2' : 'p-4'} overflow-y-auto scrollbar-thin`} aria-label="Navigation menu">
         <div className="space-y-1">
-          {renderNavGroup(coreWritingItems, 'CORE WRITING', false, true, undefined)}
-          {renderNavGroup(planningItems, 'PLANNING')}
-          {renderNavGroup(worldBuildingItems, 'WORLD BUILDING')}
-          {renderNavGroup(analysisItems, 'ANALYSIS')}
+          {renderNavGroup(allowed(coreWritingItems), 'CORE WRITING', false, true, undefined)}
+          {renderNavGroup(allowed(planningItems), 'PLANNING')}
+          {renderNavGroup(allowed(worldBuildingItems), 'WORLD BUILDING')}
+          {renderNavGroup(allowed(analysisItems), 'ANALYSIS')}
           {renderNavGroup(
-            advancedAnalysisItems,
+            allowed(advancedAnalysisItems),
             'ADVANCED ANALYSIS',
             true,
             advancedAnalysisExpanded,
@@ -308,6 +323,18 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate, isCollapsed = false, onTo
               </button>
             )}
 
+            {syncConflicts.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setConflictNovelId(syncConflicts[0].novelId)}
+                className="mt-3 w-full text-[10px] uppercase font-semibold tracking-widest px-3 py-2 rounded-lg border border-red-600/40 bg-red-600/10 text-red-400 hover:bg-red-600/15 hover:border-red-500/60 transition-all"
+                aria-label="Resolve sync conflicts"
+                title="Changes made on another device collide with yours"
+              >
+                Resolve conflicts ({syncConflicts.length})
+              </button>
+            )}
+
             {!cloudAvailable && isOnline && (
               <button
                 type="button"
@@ -326,6 +353,15 @@ const Sidebar: React.FC<SidebarProps> = ({ onNavigate, isCollapsed = false, onTo
           </div>
         )}
       </div>
+
+      {openConflict && (
+        <SyncConflictDialog
+          conflict={openConflict}
+          novelTitle={library.find(n => n.id === openConflict.novelId)?.title ?? 'Untitled'}
+          onResolve={(choice) => resolveSyncConflict(openConflict.novelId, choice)}
+          onClose={() => setConflictNovelId(null)}
+        />
+      )}
     </div>
   );
 };
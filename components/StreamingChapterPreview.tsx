@@ -0,0 +1,111 @@
+import React, { useEffect, useRef } from 'react';
+import type { ChapterStreamPreview } from '../services/aiService';
+import type { GenerationDraft } from '../services/generationDraftService';
+
+/**
+ * Streaming Chapter Preview
+ *
+ * Stands in for the chapter editor while a new chapter streams in, and offers
+ * a recovered draft left behind by a cancelled or failed generation.
+ */
+
+interface StreamingChapterPreviewProps {
+  preview: ChapterStreamPreview | null;
+  isVisible: boolean;
+  chapterNumber: number;
+  statusMessage?: string;
+  onCancel: () => void;
+}
+
+export const StreamingChapterPreview: React.FC<StreamingChapterPreviewProps> = ({
+  preview,
+  isVisible,
+  chapterNumber,
+  statusMessage,
+  onCancel,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Follow the newest text
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [preview?.content]);
+
+  if (!isVisible || !preview || (!preview.content && !preview.title)) return null;
+
+  return (
+    <div className="flex flex-col h-full bg-zinc-950" aria-live="polite" aria-busy="true">
+      <div className="flex items-center justify-between gap-4 px-4 md:px-8 py-4 border-b border-zinc-800 bg-zinc-900/60">
+        <div className="min-w-0">
+          <p className="text-xs font-bold uppercase tracking-wider text-amber-500">
+            Chapter {chapterNumber} · {statusMessage || 'Manifesting...'}
+          </p>
+          <h2 className="text-lg md:text-xl font-fantasy font-semibold text-zinc-200 truncate">
+            {preview.title || 'Untitled'}
+          </h2>
+        </div>
+        <div className="flex items-center gap-4 flex-shrink-0">
+          <span className="text-xs text-zinc-500">
+            {preview.content.split(/\s+/).filter(Boolean).length} words
+          </span>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded-lg border border-zinc-700 text-zinc-400 hover:text-zinc-200 hover:border-zinc-500 text-xs font-semibold transition-colors"
+            title="Stop generation and keep the streamed text as a recoverable draft"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-y-auto p-3 xs:p-4 sm:p-6 md:p-8 lg:p-12 scrollbar-thin text-zinc-300 font-serif-novel text-base md:text-lg lg:text-xl leading-relaxed whitespace-pre-wrap"
+      >
+        {preview.content}
+        <span className="inline-block w-2 h-5 ml-0.5 bg-amber-500/70 animate-pulse align-middle" />
+      </div>
+    </div>
+  );
+};
+
+interface GenerationDraftBannerProps {
+  draft: GenerationDraft | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const GenerationDraftBanner: React.FC<GenerationDraftBannerProps> = ({ draft, onRestore, onDiscard }) => {
+  if (!draft) return null;
+  const words = draft.content.split(/\s+/).filter(Boolean).length;
+  return (
+    <div className="mb-6 flex flex-col md:flex-row md:items-center justify-between gap-3 bg-amber-950/20 border border-amber-600/30 rounded-xl px-4 py-3">
+      <div className="text-sm text-zinc-300">
+        <span className="font-semibold text-amber-400">Recovered draft</span>
+        {' — '}
+        {draft.reason === 'cancelled' ? 'generation was cancelled' : 'generation failed'} after {words} words
+        {draft.title ? ` of "${draft.title}"` : ''}.
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onRestore}
+          className="px-3 py-1.5 rounded-lg bg-amber-600 hover:bg-amber-500 text-white text-xs font-semibold transition-colors"
+        >
+          Restore as chapter
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-3 py-1.5 rounded-lg border border-zinc-700 text-zinc-400 hover:text-zinc-200 text-xs font-semibold transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StreamingChapterPreview;
@@ -0,0 +1,168 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import type { ConflictInfo } from '../services/novelSyncService';
+import type { EntityConflict, MergeResolutions, MergeSide } from '../types/novelMerge';
+import { Modal } from './Modal';
+
+interface SyncConflictDialogProps {
+  conflict: ConflictInfo;
+  novelTitle: string;
+  onResolve: (choice: MergeResolutions | 'local' | 'remote') => Promise<void>;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<EntityConflict['kind'], string> = {
+  both_modified: 'Edited on both devices',
+  both_added: 'Added on both devices',
+  modified_deleted: 'Edited here, deleted in the cloud',
+  deleted_modified: 'Deleted here, edited in the cloud',
+};
+
+const COLLECTION_LABELS: Record<string, string> = {
+  novel: 'Novel',
+  chapters: 'Chapter',
+  scenes: 'Scene',
+  characterCodex: 'Character',
+  plotLedger: 'Arc',
+  worldBible: 'World entry',
+  storyThreads: 'Thread',
+};
+
+function preview(entity: unknown, fields: string[]): string {
+  if (entity === undefined) return '(deleted)';
+  if (!entity || typeof entity !== 'object') return String(entity);
+  const record = entity as Record<string, unknown>;
+  const shown = fields.length > 0 ? fields : Object.keys(record).filter(key => typeof record[key] === 'string');
+  const text = shown
+    .map(field => {
+      const value = record[field];
+      const rendered = typeof value === 'string' ? value : JSON.stringify(value);
+      return `${field}: ${rendered ?? '—'}`;
+    })
+    .join('\n');
+  return text.length > 400 ? `${text.slice(0, 400)}…` : text;
+}
+
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflict, novelTitle, onResolve, onClose }) => {
+  const entityConflicts = useMemo(() => conflict.merge?.conflicts ?? [], [conflict]);
+  const [choices, setChoices] = useState<MergeResolutions>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  const setAll = useCallback((side: MergeSide) => {
+    setChoices(Object.fromEntries(entityConflicts.map(c => [c.key, side])));
+  }, [entityConflicts]);
+
+  const resolve = useCallback(async (choice: MergeResolutions | 'local' | 'remote') => {
+    setIsResolving(true);
+    try {
+      await onResolve(choice);
+      onClose();
+    } finally {
+      setIsResolving(false);
+    }
+  }, [onClose, onResolve]);
+
+  const sideButton = (key: string, side: MergeSide, label: string) => {
+    const selected = (choices[key] ?? 'local') === side;
+    return (
+      <button
+        type="button"
+        onClick={() => setChoices(prev => ({ ...prev, [key]: side }))}
+        className={`px-3 py-1 rounded-lg text-xs font-semibold transition-colors ${
+          selected ? 'bg-amber-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-zinc-200'
+        }`}
+        aria-pressed={selected}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={onClose}
+      title={`Sync Conflicts: ${novelTitle}`}
+      maxWidth="3xl"
+      footer={
+        <div className="flex flex-wrap justify-end gap-3">
+          <button
+            onClick={() => void resolve('local')}
+            disabled={isResolving}
+            className="px-4 py-2 text-zinc-400 hover:text-zinc-200 transition-colors uppercase font-semibold text-xs rounded-lg hover:bg-zinc-800 disabled:opacity-50"
+          >
+            Keep all mine
+          </button>
+          <button
+            onClick={() => void resolve('remote')}
+            disabled={isResolving}
+            className="px-4 py-2 text-zinc-400 hover:text-zinc-200 transition-colors uppercase font-semibold text-xs rounded-lg hover:bg-zinc-800 disabled:opacity-50"
+          >
+            Take all cloud
+          </button>
+          {entityConflicts.length > 0 && (
+            <button
+              onClick={() => void resolve(choices)}
+              disabled={isResolving}
+              className="bg-amber-600 hover:bg-amber-500 text-white px-6 py-2 rounded-xl font-semibold text-sm transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply Choices
+            </button>
+          )}
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-zinc-400">
+          {entityConflicts.length > 0
+            ? `${conflict.merge?.autoMergedCount ?? 0} change(s) from the cloud were merged automatically. ` +
+              `${entityConflicts.length} item(s) were changed on both sides — choose which version to keep.`
+            : 'This novel changed both here and in the cloud. Choose which copy to keep.'}
+        </p>
+
+        {entityConflicts.length > 0 && (
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setAll('local')} className="text-xs text-amber-400 hover:text-amber-300">
+              Mark all mine
+            </button>
+            <span className="text-zinc-600">·</span>
+            <button type="button" onClick={() => setAll('remote')} className="text-xs text-amber-400 hover:text-amber-300">
+              Mark all cloud
+            </button>
+          </div>
+        )}
+
+        <ul className="space-y-3">
+          {entityConflicts.map(entityConflict => (
+            <li key={entityConflict.key} className="border border-zinc-700 rounded-xl p-3 bg-zinc-900/50">
+              <div className="flex items-center justify-between gap-3 mb-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-zinc-200 truncate">
+                    {COLLECTION_LABELS[entityConflict.collection] ?? entityConflict.collection}: {entityConflict.label}
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {KIND_LABELS[entityConflict.kind]}
+                    {entityConflict.fields.length > 0 && ` (${entityConflict.fields.join(', ')})`}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  {sideButton(entityConflict.key, 'local', 'Mine')}
+                  {sideButton(entityConflict.key, 'remote', 'Cloud')}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <pre className="text-[11px] text-zinc-400 bg-zinc-950 rounded-lg p-2 whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+                  {preview(entityConflict.local, entityConflict.fields)}
+                </pre>
+                <pre className="text-[11px] text-zinc-400 bg-zinc-950 rounded-lg p-2 whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+                  {preview(entityConflict.remote, entityConflict.fields)}
+                </pre>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </Modal>
+  );
+};
+
+export default memo(SyncConflictDialog);
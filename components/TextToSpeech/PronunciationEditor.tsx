@@ -0,0 +1,141 @@
+/**
+ * Pronunciation Editor Component
+ * Edits the novel's pronunciation lexicon: respellings and IPA for names and terms
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { PronunciationEntry } from '../../types/pronunciation';
+
+export interface PronunciationEditorProps {
+  entries: PronunciationEntry[];
+  onChange: (entries: PronunciationEntry[]) => void;
+  /** Speak a respelling to check it */
+  onPreview?: (text: string) => void;
+}
+
+const SOURCE_LABELS: Record<PronunciationEntry['source'], string> = {
+  character: 'Character',
+  technique: 'Technique',
+  item: 'Item',
+  world: 'World',
+  glossary: 'Glossary',
+  custom: 'Custom',
+};
+
+const inputClass =
+  'min-w-0 flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 focus:border-amber-500 focus:outline-none';
+
+export const PronunciationEditor: React.FC<PronunciationEditorProps> = ({ entries, onChange, onPreview }) => {
+  const [filter, setFilter] = useState('');
+  const [newTerm, setNewTerm] = useState('');
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => !query || entry.term.toLowerCase().includes(query) || entry.alias.toLowerCase().includes(query));
+  }, [entries, filter]);
+
+  const update = (index: number, patch: Partial<PronunciationEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+  };
+
+  const addTerm = () => {
+    const term = newTerm.trim();
+    if (!term || entries.some(e => e.term.toLowerCase() === term.toLowerCase())) return;
+    onChange([...entries, { term, alias: '', source: 'custom', enabled: true }]);
+    setNewTerm('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs font-semibold text-zinc-400 uppercase tracking-wide">
+          Pronunciation ({entries.filter(e => e.enabled).length})
+        </label>
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter terms"
+          className={`${inputClass} max-w-[10rem]`}
+          aria-label="Filter pronunciation terms"
+        />
+      </div>
+
+      <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+        {visible.length === 0 && (
+          <p className="text-xs text-zinc-500">No names or terms need a pronunciation yet.</p>
+        )}
+        {visible.map(({ entry, index }) => (
+          <div key={`${entry.term}-${index}`} className={`flex items-center gap-1.5 ${entry.enabled ? '' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={entry.enabled}
+              onChange={(e) => update(index, { enabled: e.target.checked })}
+              aria-label={`Use pronunciation for ${entry.term}`}
+            />
+            <span className="w-24 truncate text-xs text-zinc-200" title={`${entry.term} · ${SOURCE_LABELS[entry.source]}`}>
+              {entry.term}
+            </span>
+            <input
+              type="text"
+              value={entry.alias}
+              onChange={(e) => update(index, { alias: e.target.value })}
+              placeholder="Say as"
+              className={inputClass}
+              aria-label={`Respelling for ${entry.term}`}
+            />
+            <input
+              type="text"
+              value={entry.phoneme || ''}
+              onChange={(e) => update(index, { phoneme: e.target.value || undefined })}
+              placeholder="IPA"
+              className={`${inputClass} max-w-[6rem]`}
+              aria-label={`IPA for ${entry.term}`}
+            />
+            {onPreview && (
+              <button
+                onClick={() => onPreview(entry.alias || entry.term)}
+                className="text-zinc-400 hover:text-amber-400 text-xs px-1"
+                aria-label={`Preview ${entry.term}`}
+              >
+                ▶
+              </button>
+            )}
+            {entry.source === 'custom' && (
+              <button
+                onClick={() => onChange(entries.filter((_, i) => i !== index))}
+                className="text-zinc-500 hover:text-red-400 text-xs px-1"
+                aria-label={`Remove ${entry.term}`}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-1.5">
+        <input
+          type="text"
+          value={newTerm}
+          onChange={(e) => setNewTerm(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addTerm();
+          }}
+          placeholder="Add a word or name"
+          className={inputClass}
+          aria-label="New pronunciation term"
+        />
+        <button
+          onClick={addTerm}
+          disabled={!newTerm.trim()}
+          className="px-2 py-1 rounded text-xs font-semibold bg-zinc-800 text-zinc-300 hover:bg-zinc-700 disabled:opacity-40"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
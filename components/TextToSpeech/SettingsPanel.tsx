@@ -4,6 +4,8 @@
  */
 
 import React from 'react';
+import type { PronunciationEntry } from '../../types/pronunciation';
+import { PronunciationEditor } from './PronunciationEditor';
 
 export interface SettingsPanelProps {
   speed: number;
@@ -16,6 +18,9 @@ export interface SettingsPanelProps {
   onKeyboardShortcutsChange?: (enabled: boolean) => void;
   autoPlay?: boolean;
   onAutoPlayChange?: (enabled: boolean) => void;
+  lexicon?: PronunciationEntry[];
+  onLexiconChange?: (entries: PronunciationEntry[]) => void;
+  onPreviewPronunciation?: (text: string) => void;
 }
 
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({
@@ -28,7 +33,10 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   keyboardShortcuts = true,
   onKeyboardShortcutsChange,
   autoPlay = false,
-  onAutoPlayChange
+  onAutoPlayChange,
+  lexicon,
+  onLexiconChange,
+  onPreviewPronunciation
 }) => {
   const speedPresets = [0.5, 0.75, 1.0, 1.25, 1.5, 1.75, 2.0, 2.5, 3.0];
 
@@ -146,6 +154,17 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
           </div>
         )}
       </div>
+
+      {/* Pronunciation Lexicon */}
+      {lexicon && onLexiconChange && (
+        <div className="pt-2 border-t border-zinc-700">
+          <PronunciationEditor
+            entries={lexicon}
+            onChange={onLexiconChange}
+            onPreview={onPreviewPronunciation}
+          />
+        </div>
+      )}
     </div>
   );
 };
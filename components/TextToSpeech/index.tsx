@@ -4,6 +4,8 @@
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { NovelState } from '../../types';
+import type { PronunciationEntry } from '../../types/pronunciation';
 import { useTextToSpeech } from '../../hooks/useTextToSpeech';
 import { useTextSync } from '../../hooks/useTextSync';
 import { PlayerControls } from './PlayerControls';
@@ -12,6 +14,7 @@ import { VoiceSelector } from './VoiceSelector';
 import { SettingsPanel } from './SettingsPanel';
 import { TextHighlighter } from './TextHighlighter';
 import { ttsService } from '../../services/ttsService';
+import { getLexicon, saveLexicon } from '../../services/pronunciationService';
 import { useToast } from '../../contexts/ToastContext';
 
 interface TextToSpeechProps {
@@ -19,6 +22,8 @@ interface TextToSpeechProps {
   onClose?: () => void;
   showTextHighlight?: boolean; // Show text highlighting in component
   highlightMode?: 'word' | 'sentence';
+  /** Novel whose pronunciation lexicon applies */
+  novel?: NovelState;
 }
 
 // List of storytelling voices
@@ -57,7 +62,8 @@ const TextToSpeech: React.FC<TextToSpeechProps> = ({
   text,
   onClose,
   showTextHighlight = false,
-  highlightMode = 'sentence'
+  highlightMode = 'sentence',
+  novel
 }) => {
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [voiceIndex, setVoiceIndex] = useState(0);
@@ -67,6 +73,8 @@ const TextToSpeech: React.FC<TextToSpeechProps> = ({
   const [volume, setVolume] = useState(1.0);
   const [keyboardShortcuts, setKeyboardShortcuts] = useState(true);
   const [autoPlay, setAutoPlay] = useState(false);
+  const [lexicon, setLexicon] = useState<PronunciationEntry[] | undefined>(() => (novel ? getLexicon(novel) : undefined));
+  const novelId = novel?.id;
 
   const { showToast } = useToast();
 
@@ -91,6 +99,7 @@ const TextToSpeech: React.FC<TextToSpeechProps> = ({
     rate: speed,
     pitch,
     volume,
+    lexicon,
     onError: (err) => {
       showToast(err.message, 'error');
     }
@@ -187,6 +196,15 @@ const TextToSpeech: React.FC<TextToSpeechProps> = ({
     }
   }, [availableVoices, setVoice]);
 
+  const handleLexiconChange = useCallback((entries: PronunciationEntry[]) => {
+    setLexicon(entries);
+    if (novelId) saveLexicon(novelId, entries);
+  }, [novelId]);
+
+  const previewPronunciation = useCallback((sample: string) => {
+    ttsService.speak(sample, { voice: availableVoices[voiceIndex], rate: speed, pitch, volume }).catch(() => {});
+  }, [availableVoices, voiceIndex, speed, pitch, volume]);
+
   const handleSpeedChange = useCallback((newSpeed: number) => {
     setSpeed(newSpeed);
     setRate(newSpeed);
@@ -300,6 +318,9 @@ const TextToSpeech: React.FC<TextToSpeechProps> = ({
           onKeyboardShortcutsChange={setKeyboardShortcuts}
           autoPlay={autoPlay}
           onAutoPlayChange={setAutoPlay}
+          lexicon={lexicon}
+          onLexiconChange={novel ? handleLexiconChange : undefined}
+          onPreviewPronunciation={previewPronunciation}
         />
       )}
 
@@ -1,18 +1,222 @@
 import React, { memo, useMemo, useState, useEffect } from 'react';
 import { NovelState, Chapter, Scene, Antagonist } from '../types';
+import type { InWorldTimestamp, NovelCalendar } from '../types/calendar';
 import { getAntagonistsForChapter } from '../services/antagonistService';
+import {
+  buildChapterTimeline,
+  characterAgeOnDay,
+  checkCalendarContinuity,
+  dateToDay,
+  dayToDate,
+  daysPerYear,
+  formatElapsed,
+  formatInWorldDate,
+  getCalendar,
+} from '../services/calendarService';
 
 interface TimelineViewProps {
   novelState: NovelState;
+  onUpdateCalendar?: (calendar: NovelCalendar) => void;
+  onSetInWorldTime?: (chapterId: string, sceneId: string | null, time: InWorldTimestamp | undefined) => void;
 }
 
-const TimelineView: React.FC<TimelineViewProps> = ({ novelState }) => {
+interface InWorldDateEditorProps {
+  calendar: NovelCalendar;
+  day: number;
+  onSave: (day: number) => void;
+  onClear?: () => void;
+  onCancel: () => void;
+}
+
+const InWorldDateEditor: React.FC<InWorldDateEditorProps> = ({ calendar, day, onSave, onClear, onCancel }) => {
+  const [date, setDate] = useState(() => dayToDate(day, calendar));
+  const monthLength = Math.max(1, calendar.months[date.month - 1]?.days || 1);
+
+  return (
+    <div className="mt-3 flex flex-wrap items-end gap-2 bg-zinc-950/60 border border-zinc-700 rounded-lg p-3">
+      <label className="text-xs text-zinc-400">
+        Year
+        <input
+          type="number"
+          min={1}
+          value={date.year}
+          onChange={e => setDate({ ...date, year: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+          className="block w-24 mt-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+        />
+      </label>
+      <label className="text-xs text-zinc-400">
+        Month
+        <select
+          value={date.month}
+          onChange={e => setDate({ ...date, month: parseInt(e.target.value, 10) })}
+          className="block mt-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+        >
+          {calendar.months.map((month, index) => (
+            <option key={index} value={index + 1}>{month.name}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-xs text-zinc-400">
+        Day
+        <input
+          type="number"
+          min={1}
+          max={monthLength}
+          value={Math.min(date.day, monthLength)}
+          onChange={e => setDate({ ...date, day: Math.min(monthLength, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+          className="block w-20 mt-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200"
+        />
+      </label>
+      <button
+        onClick={() => onSave(dateToDay({ ...date, day: Math.min(date.day, monthLength) }, calendar))}
+        className="px-3 py-1.5 text-xs font-semibold rounded bg-amber-600 hover:bg-amber-500 text-white"
+      >
+        Set Date
+      </button>
+      {onClear && (
+        <button
+          onClick={onClear}
+          className="px-3 py-1.5 text-xs font-semibold rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+        >
+          Clear
+        </button>
+      )}
+      <button onClick={onCancel} className="px-3 py-1.5 text-xs text-zinc-500 hover:text-zinc-300">
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+interface CalendarSettingsProps {
+  calendar: NovelCalendar;
+  onChange: (calendar: NovelCalendar) => void;
+}
+
+const CalendarSettings: React.FC<CalendarSettingsProps> = ({ calendar, onChange }) => {
+  const start = dayToDate(calendar.storyStartDay ?? 0, calendar);
+  const inputClass = 'bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200';
+
+  const updateMonth = (index: number, changes: Partial<NovelCalendar['months'][number]>) =>
+    onChange({ ...calendar, months: calendar.months.map((m, i) => (i === index ? { ...m, ...changes } : m)) });
+  const updateEra = (index: number, changes: Partial<NovelCalendar['eras'][number]>) =>
+    onChange({ ...calendar, eras: calendar.eras.map((e, i) => (i === index ? { ...e, ...changes } : e)) });
+
+  return (
+    <div className="mb-6 bg-zinc-900 border border-zinc-700 rounded-xl p-4 space-y-5">
+      <div>
+        <h3 className="text-sm font-bold text-amber-500 uppercase mb-2">Months ({daysPerYear(calendar)} days per year)</h3>
+        <div className="space-y-2">
+          {calendar.months.map((month, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                value={month.name}
+                onChange={e => updateMonth(index, { name: e.target.value })}
+                className={`flex-1 ${inputClass}`}
+              />
+              <input
+                type="number"
+                min={1}
+                value={month.days}
+                onChange={e => updateMonth(index, { days: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className={`w-20 ${inputClass}`}
+              />
+              <span className="text-xs text-zinc-500">days</span>
+              <button
+                onClick={() => onChange({ ...calendar, months: calendar.months.filter((_, i) => i !== index) })}
+                disabled={calendar.months.length <= 1}
+                className="text-xs text-red-400 hover:text-red-300 disabled:opacity-30"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => onChange({ ...calendar, months: [...calendar.months, { name: `Month ${calendar.months.length + 1}`, days: 30 }] })}
+          className="mt-2 text-xs text-amber-500 hover:text-amber-400"
+        >
+          + Add Month
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-bold text-amber-500 uppercase mb-2">Eras</h3>
+        <div className="space-y-2">
+          {calendar.eras.map((era, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                value={era.name}
+                onChange={e => updateEra(index, { name: e.target.value })}
+                className={`flex-1 ${inputClass}`}
+              />
+              <span className="text-xs text-zinc-500">from year</span>
+              <input
+                type="number"
+                min={1}
+                value={era.startYear}
+                onChange={e => updateEra(index, { startYear: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className={`w-24 ${inputClass}`}
+              />
+              <button
+                onClick={() => onChange({ ...calendar, eras: calendar.eras.filter((_, i) => i !== index) })}
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => onChange({ ...calendar, eras: [...calendar.eras, { name: 'New Era', startYear: start.year }] })}
+          className="mt-2 text-xs text-amber-500 hover:text-amber-400"
+        >
+          + Add Era
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-bold text-amber-500 uppercase mb-1">Story Opens On</h3>
+        <p className="text-xs text-zinc-500 mb-2">{formatInWorldDate(calendar.storyStartDay ?? 0, calendar)}</p>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            value={start.year}
+            onChange={e => onChange({ ...calendar, storyStartDay: dateToDay({ ...start, year: Math.max(1, parseInt(e.target.value, 10) || 1) }, calendar) })}
+            className={`w-24 ${inputClass}`}
+          />
+          <select
+            value={start.month}
+            onChange={e => onChange({ ...calendar, storyStartDay: dateToDay({ ...start, month: parseInt(e.target.value, 10), day: 1 }, calendar) })}
+            className={inputClass}
+          >
+            {calendar.months.map((month, index) => (
+              <option key={index} value={index + 1}>{month.name}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={start.day}
+            onChange={e => onChange({ ...calendar, storyStartDay: dateToDay({ ...start, day: Math.max(1, parseInt(e.target.value, 10) || 1) }, calendar) })}
+            className={`w-20 ${inputClass}`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TimelineView: React.FC<TimelineViewProps> = ({ novelState, onUpdateCalendar, onSetInWorldTime }) => {
   const [chapterAntagonists, setChapterAntagonists] = useState<Map<string, Antagonist[]>>(new Map());
+  const [showCalendarSettings, setShowCalendarSettings] = useState(false);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
 
   useEffect(() => {
     const loadAntagonists = async () => {
       const antagonistMap = new Map<string, Antagonist[]>();
-      
+
       for (const chapter of novelState.chapters) {
         try {
           const appearances = await getAntagonistsForChapter(chapter.id);
@@ -26,45 +230,93 @@ const TimelineView: React.FC<TimelineViewProps> = ({ novelState }) => {
           antagonistMap.set(chapter.id, []);
         }
       }
-      
+
       setChapterAntagonists(antagonistMap);
     };
-    
+
     if (novelState.chapters.length > 0) {
       loadAntagonists();
     }
   }, [novelState.id, novelState.chapters]);
 
+  const calendar = useMemo(() => getCalendar(novelState), [novelState]);
+  const timeline = useMemo(() => buildChapterTimeline(novelState), [novelState]);
+  const continuityIssues = useMemo(() => checkCalendarContinuity(novelState), [novelState]);
+  const protagonists = useMemo(
+    () => novelState.characterCodex.filter(c => c.isProtagonist && c.status !== 'Deceased'),
+    [novelState.characterCodex]
+  );
+
   const timelineItems = useMemo(() => {
-    const items: Array<{ type: 'chapter' | 'scene'; data: Chapter | Scene; chapter?: Chapter; timestamp: number }> = [];
-    
-    novelState.chapters.forEach(chapter => {
+    const items: Array<{ type: 'chapter' | 'scene'; data: Chapter | Scene; chapter: Chapter; day: number; manual: boolean; elapsedDays?: number; cue?: string }> = [];
+    const chapters = new Map(novelState.chapters.map(chapter => [chapter.id, chapter]));
+
+    timeline.forEach(entry => {
+      const chapter = chapters.get(entry.chapterId);
+      if (!chapter) return;
       items.push({
         type: 'chapter',
         data: chapter,
-        timestamp: chapter.createdAt
+        chapter,
+        day: entry.day,
+        manual: entry.source === 'manual',
+        elapsedDays: entry.elapsedDays,
+        cue: entry.cue,
       });
-      
-      chapter.scenes.forEach(scene => {
+
+      entry.scenes.forEach(sceneEntry => {
+        const scene = chapter.scenes.find(s => s.id === sceneEntry.sceneId);
+        if (!scene) return;
         items.push({
           type: 'scene',
           data: scene,
           chapter,
-          timestamp: scene.createdAt
+          day: sceneEntry.day,
+          manual: sceneEntry.source === 'manual',
         });
       });
     });
-    
-    return items.sort((a, b) => a.timestamp - b.timestamp);
-  }, [novelState.chapters]);
+
+    return items;
+  }, [novelState.chapters, timeline]);
+
+  const yearLength = daysPerYear(calendar);
 
   return (
     <div className="p-4 md:p-5 lg:p-6 max-w-4xl mx-auto pt-12 md:pt-16">
-      <div className="mb-6 border-b border-zinc-700 pb-4">
-        <h2 className="text-xl md:text-2xl font-fantasy font-bold text-amber-500 tracking-wider uppercase">Timeline</h2>
-        <p className="text-sm text-zinc-400 mt-2">Chronological view of story events</p>
+      <div className="mb-6 border-b border-zinc-700 pb-4 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl md:text-2xl font-fantasy font-bold text-amber-500 tracking-wider uppercase">Timeline</h2>
+          <p className="text-sm text-zinc-400 mt-2">Story events in in-world order</p>
+        </div>
+        {onUpdateCalendar && (
+          <button
+            onClick={() => setShowCalendarSettings(!showCalendarSettings)}
+            className="px-3 py-2 text-xs font-semibold rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700"
+          >
+            {showCalendarSettings ? 'Hide Calendar' : '📅 Calendar'}
+          </button>
+        )}
       </div>
 
+      {showCalendarSettings && onUpdateCalendar && (
+        <CalendarSettings calendar={calendar} onChange={onUpdateCalendar} />
+      )}
+
+      {continuityIssues.length > 0 && (
+        <div className="mb-6 bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
+          <h3 className="text-sm font-bold text-yellow-400 uppercase mb-2">Time Continuity</h3>
+          <ul className="space-y-2">
+            {continuityIssues.map((issue, index) => (
+              <li key={index} className="text-sm text-zinc-300">
+                {issue.message}
+                {issue.suggestion && <span className="block text-xs text-zinc-500 mt-0.5">{issue.suggestion}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {timelineItems.length === 0 ? (
         <div className="py-12 px-6 text-center border-2 border-dashed border-zinc-700 rounded-2xl bg-zinc-900/30">
           <div className="text-4xl mb-3">⏱️</div>
@@ -75,11 +327,29 @@ const TimelineView: React.FC<TimelineViewProps> = ({ novelState }) => {
         <div className="relative">
           <div className="absolute left-8 top-0 bottom-0 w-0.5 bg-zinc-700"></div>
           <div className="space-y-8">
-            {timelineItems.map((item, idx) => (
-              <div key={idx} className="relative flex items-start space-x-6">
+            {timelineItems.map(item => {
+              const key = `${item.type}-${item.data.id}`;
+              const sceneId = item.type === 'scene' ? item.data.id : null;
+              const dateLabel = (
+                <span className={`text-xs ${item.manual ? 'text-amber-300' : 'text-zinc-500'}`} title={item.manual ? 'Date set by author' : 'Date inferred from the text'}>
+                  {formatInWorldDate(item.day, calendar)}
+                  {onSetInWorldTime && (
+                    <button
+                      onClick={() => setEditingKey(editingKey === key ? null : key)}
+                      className="ml-2 text-zinc-500 hover:text-amber-400"
+                      aria-label="Edit in-world date"
+                    >
+                      ✎
+                    </button>
+                  )}
+                </span>
+              );
+
+              return (
+              <div key={key} className="relative flex items-start space-x-6">
                 <div className={`relative z-10 w-16 h-16 rounded-full flex items-center justify-center border-2 ${
-                  item.type === 'chapter' 
-                    ? 'bg-amber-600/20 border-amber-600' 
+                  item.type === 'chapter'
+                    ? 'bg-amber-600/20 border-amber-600'
                     : 'bg-zinc-800 border-zinc-600'
                 }`}>
                   <span className="text-2xl">
@@ -90,22 +360,43 @@ const TimelineView: React.FC<TimelineViewProps> = ({ novelState }) => {
                   {item.type === 'chapter' ? (
                     <>
                       <div className="flex items-center justify-between mb-2">
-                        <span className="text-xs font-bold text-amber-600 uppercase">Chapter {(item.data as Chapter).number}</span>
-                        <span className="text-xs text-zinc-500">
-                          {new Date((item.data as Chapter).createdAt).toLocaleDateString()}
-                        </span>
+                        <span className="text-xs font-bold text-amber-600 uppercase">Chapter {item.chapter.number}</span>
+                        {dateLabel}
                       </div>
+                      {item.elapsedDays !== undefined && item.elapsedDays !== 0 && (
+                        <div className="mb-2">
+                          <span
+                            className={`px-2 py-0.5 text-xs rounded border ${
+                              item.elapsedDays < 0
+                                ? 'bg-red-500/10 text-red-400 border-red-500/30'
+                                : 'bg-zinc-800 text-zinc-400 border-zinc-700'
+                            }`}
+                          >
+                            {item.elapsedDays < 0 ? `${formatElapsed(-item.elapsedDays, yearLength)} earlier` : `+${formatElapsed(item.elapsedDays, yearLength)}`}
+                            {item.cue && <span className="italic"> · “{item.cue}”</span>}
+                          </span>
+                        </div>
+                      )}
                       <h4 className="text-lg font-fantasy font-bold text-amber-400 mb-2">
-                        {(item.data as Chapter).title}
+                        {item.chapter.title}
                       </h4>
-                      {(item.data as Chapter).summary && (
+                      {item.chapter.summary && (
                         <p className="text-sm text-zinc-400 italic line-clamp-2">
-                          {(item.data as Chapter).summary}
+                          {item.chapter.summary}
+                        </p>
+                      )}
+                      {protagonists.length > 0 && (
+                        <p className="mt-2 text-xs text-zinc-500">
+                          {protagonists
+                            .map(c => ({ name: c.name, age: characterAgeOnDay(c, item.day, novelState, timeline) }))
+                            .filter(c => c.age !== null)
+                            .map(c => `${c.name}, age ${c.age}`)
+                            .join(' · ')}
                         </p>
                       )}
-                      {chapterAntagonists.get((item.data as Chapter).id) && (
+                      {chapterAntagonists.get(item.chapter.id) && (
                         <div className="mt-2 flex flex-wrap gap-2">
-                          {chapterAntagonists.get((item.data as Chapter).id)?.map(ant => (
+                          {chapterAntagonists.get(item.chapter.id)?.map(ant => (
                             <span
                               key={ant.id}
                               className={`px-2 py-1 text-xs rounded ${
@@ -125,11 +416,9 @@ const TimelineView: React.FC<TimelineViewProps> = ({ novelState }) => {
                     <>
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-xs font-bold text-zinc-500 uppercase">
-                          Scene {(item.data as Scene).number} • Ch {item.chapter?.number}
-                        </span>
-                        <span className="text-xs text-zinc-500">
-                          {new Date((item.data as Scene).createdAt).toLocaleDateString()}
+                          Scene {(item.data as Scene).number} • Ch {item.chapter.number}
                         </span>
+                        {dateLabel}
                       </div>
                       {(item.data as Scene).title && (
                         <h4 className="text-base font-fantasy font-bold text-zinc-300 mb-2">
@@ -143,9 +432,25 @@ const TimelineView: React.FC<TimelineViewProps> = ({ novelState }) => {
                       )}
                     </>
                   )}
+                  {editingKey === key && onSetInWorldTime && (
+                    <InWorldDateEditor
+                      calendar={calendar}
+                      day={item.day}
+                      onSave={day => {
+                        onSetInWorldTime(item.chapter.id, sceneId, { day, source: 'manual' });
+                        setEditingKey(null);
+                      }}
+                      onClear={item.manual ? () => {
+                        onSetInWorldTime(item.chapter.id, sceneId, undefined);
+                        setEditingKey(null);
+                      } : undefined}
+                      onCancel={() => setEditingKey(null)}
+                    />
+                  )}
                 </div>
               </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
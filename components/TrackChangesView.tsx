@@ -3,8 +3,9 @@ import { EditorSuggestion } from '../types/editor';
 
 interface TrackChangesViewProps {
   suggestions: EditorSuggestion[];
-  onAccept: (suggestionId: string) => void;
-  onReject: (suggestionId: string) => void;
+  /** Without accept/reject handlers the suggestions are listed read-only */
+  onAccept?: (suggestionId: string) => void;
+  onReject?: (suggestionId: string) => void;
   onAcceptAll?: () => void;
   onRejectAll?: () => void;
   className?: string;
@@ -171,7 +172,7 @@ const TrackChangesView: React.FC<TrackChangesViewProps> = ({
                       </span>
                     </div>
 
-                    {isPending && (
+                    {isPending && onAccept && onReject && (
                       <div className="flex items-center gap-2">
                         <button
                           onClick={() => onAccept(suggestion.id)}
@@ -0,0 +1,232 @@
+/**
+ * Usage Dashboard Component
+ *
+ * Shows spend from the usage ledger (this month, this novel, by task and by
+ * provider) and edits the monthly and per-novel budget caps.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  getMonthStart,
+  getUsageBudgets,
+  getUsageEntries,
+  setMonthlyBudget,
+  setNovelBudget,
+  summarizeUsage,
+} from '../services/usageLedgerService';
+import type { UsageBudget, UsageLedgerEntry, UsageTotals } from '../types/usageLedger';
+
+interface UsageDashboardProps {
+  novelId: string;
+  novelTitle: string;
+}
+
+const inputClass =
+  'w-full bg-zinc-950 border border-zinc-700 rounded-lg px-2.5 py-1.5 text-sm text-zinc-100 focus:border-amber-600 outline-none';
+
+const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+const formatTokens = (value: number) => value.toLocaleString();
+
+const TotalsTable: React.FC<{ title: string; rows: Record<string, UsageTotals> }> = ({ title, rows }) => {
+  const sorted = Object.entries(rows).sort(([, a], [, b]) => b.cost - a.cost);
+  if (sorted.length === 0) return null;
+  return (
+    <section className="space-y-2">
+      <h3 className="text-sm font-semibold text-zinc-300 uppercase tracking-wide">{title}</h3>
+      <div className="divide-y divide-zinc-800 border border-zinc-800 rounded-lg">
+        {sorted.map(([key, totals]) => (
+          <div key={key} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+            <span className="text-zinc-200 font-mono truncate">{key}</span>
+            <span className="text-zinc-500 text-xs shrink-0">
+              {totals.requests} req · {formatTokens(totals.promptTokens)} in
+              {totals.cacheHitTokens > 0 ? ` (${formatTokens(totals.cacheHitTokens)} cached)` : ''}
+              {' · '}{formatTokens(totals.completionTokens)} out
+            </span>
+            <span className="text-amber-400 shrink-0">{formatUsd(totals.cost)}</span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+const BudgetEditor: React.FC<{
+  label: string;
+  budget?: UsageBudget;
+  onSave: (budget: UsageBudget | null) => void;
+}> = ({ label, budget, onSave }) => {
+  const [limit, setLimit] = useState(budget ? String(budget.limitUsd) : '');
+  const [action, setAction] = useState<UsageBudget['action']>(budget?.action || 'warn');
+
+  useEffect(() => {
+    setLimit(budget ? String(budget.limitUsd) : '');
+    setAction(budget?.action || 'warn');
+  }, [budget?.limitUsd, budget?.action]);
+
+  const parsed = Number(limit);
+  return (
+    <div className="p-3 bg-zinc-800/50 border border-zinc-700 rounded-lg space-y-2">
+      <p className="text-sm font-medium text-zinc-200">{label}</p>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="number"
+          min={0}
+          step="0.5"
+          placeholder="No cap"
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+          className={inputClass}
+          aria-label={`${label} limit in USD`}
+        />
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as UsageBudget['action'])}
+          className={inputClass}
+          aria-label={`${label} action`}
+        >
+          <option value="warn">Warn</option>
+          <option value="block">Block generation</option>
+        </select>
+      </div>
+      <div className="flex justify-end gap-2">
+        {budget && (
+          <button onClick={() => onSave(null)} className="px-3 py-1 text-xs text-zinc-400 hover:text-red-400">
+            Remove
+          </button>
+        )}
+        <button
+          onClick={() => onSave({ limitUsd: parsed, action })}
+          disabled={!limit || !(parsed > 0)}
+          className="px-3 py-1 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-xs font-semibold disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ novelId, novelTitle }) => {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [entries, setEntries] = useState<UsageLedgerEntry[]>([]);
+  const [budgetRevision, setBudgetRevision] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await getUsageEntries());
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : String(error));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isCollapsed) void loadEntries();
+  }, [isCollapsed, loadEntries]);
+
+  // `budgetRevision` forces a re-read after localStorage writes
+  const budgets = useMemo(() => getUsageBudgets(), [budgetRevision]);
+
+  const { month, novel } = useMemo(() => {
+    const monthStart = getMonthStart();
+    return {
+      month: summarizeUsage(entries.filter(entry => entry.timestamp >= monthStart)),
+      novel: summarizeUsage(entries.filter(entry => entry.novelId === novelId)),
+    };
+  }, [entries, novelId]);
+
+  const recent = useMemo(() => entries.slice(-10).reverse(), [entries]);
+
+  const saveMonthly = (budget: UsageBudget | null) => {
+    setMonthlyBudget(budget);
+    setBudgetRevision(r => r + 1);
+  };
+
+  const saveNovel = (budget: UsageBudget | null) => {
+    setNovelBudget(novelId, budget);
+    setBudgetRevision(r => r + 1);
+  };
+
+  return (
+    <div className="p-6 bg-zinc-900 rounded-xl border border-zinc-700">
+      <button
+        onClick={() => setIsCollapsed(c => !c)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={!isCollapsed}
+      >
+        <div>
+          <h2 className="text-xl font-bold text-zinc-100">Usage &amp; Budgets</h2>
+          <p className="text-sm text-zinc-400">AI spend recorded from provider-reported usage, with monthly and per-novel caps</p>
+        </div>
+        <span className="text-zinc-500">{isCollapsed ? '▸' : '▾'}</span>
+      </button>
+
+      {!isCollapsed && (
+        <div className="mt-5 space-y-6">
+          {loadError && <p className="text-sm text-red-400">Could not read the usage ledger: {loadError}</p>}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="p-4 bg-zinc-800/50 border border-zinc-700 rounded-lg">
+              <p className="text-xs text-zinc-500 uppercase tracking-wide">This month</p>
+              <p className="text-2xl font-bold text-amber-400">{formatUsd(month.total.cost)}</p>
+              <p className="text-xs text-zinc-500">
+                {month.total.requests} requests
+                {budgets.monthly ? ` · cap ${formatUsd(budgets.monthly.limitUsd)}` : ''}
+              </p>
+            </div>
+            <div className="p-4 bg-zinc-800/50 border border-zinc-700 rounded-lg">
+              <p className="text-xs text-zinc-500 uppercase tracking-wide truncate">{novelTitle}</p>
+              <p className="text-2xl font-bold text-amber-400">{formatUsd(novel.total.cost)}</p>
+              <p className="text-xs text-zinc-500">
+                {novel.total.requests} requests
+                {budgets.novels[novelId] ? ` · cap ${formatUsd(budgets.novels[novelId].limitUsd)}` : ''}
+              </p>
+            </div>
+          </div>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-zinc-300 uppercase tracking-wide">Budgets</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <BudgetEditor label="Monthly (all novels)" budget={budgets.monthly} onSave={saveMonthly} />
+              <BudgetEditor label="This novel" budget={budgets.novels[novelId]} onSave={saveNovel} />
+            </div>
+          </section>
+
+          <TotalsTable title="This month by task" rows={month.byTask} />
+          <TotalsTable title="This month by provider" rows={month.byProvider} />
+
+          {recent.length > 0 && (
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-zinc-300 uppercase tracking-wide">Recent requests</h3>
+                <button onClick={() => void loadEntries()} className="text-xs text-zinc-400 hover:text-zinc-200">Refresh</button>
+              </div>
+              <div className="divide-y divide-zinc-800 border border-zinc-800 rounded-lg">
+                {recent.map(entry => (
+                  <div key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2 text-xs">
+                    <span className="text-zinc-500 shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+                    <span className="text-zinc-300 font-mono truncate">
+                      {entry.taskType} · {entry.model}
+                      {entry.chapterNumber ? ` · Ch ${entry.chapterNumber}` : ''}
+                    </span>
+                    <span className="text-zinc-500 shrink-0" title={entry.estimated ? 'Counted locally; the provider reported no usage' : undefined}>
+                      {entry.estimated ? '~' : ''}{formatTokens(entry.promptTokens + entry.completionTokens)} tok
+                    </span>
+                    <span className="text-amber-400 shrink-0">{formatUsd(entry.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {entries.length === 0 && !loadError && (
+            <p className="text-sm text-zinc-500">No AI requests recorded yet.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,449 @@
+/**
+ * World Map Canvas
+ *
+ * Places territories on a realm's map as pins or outlines and draws travel
+ * routes between them, on a blank grid or an uploaded map image.
+ */
+
+import React, { useMemo, useRef, useState, memo } from 'react';
+import type { NovelState, Territory } from '../types';
+import {
+  WORLD_MAP_HEIGHT,
+  WORLD_MAP_WIDTH,
+  type MapPoint,
+  type RealmMapCanvas,
+  type TravelRoute,
+  type TravelTimeUnit,
+  type WorldMapState,
+} from '../types/worldMap';
+import { createEmptyWorldMap, getPlacementCenter, getRealmCanvas, mapDistance } from '../services/worldMapService';
+import { generateUUID } from '../utils/uuid';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface WorldMapCanvasProps {
+  state: NovelState;
+  onSaveTerritory: (territory: Territory) => void;
+  onUpdateWorldMap: (worldMap: WorldMapState) => void;
+}
+
+type MapMode = 'select' | 'pin' | 'outline' | 'route';
+
+const MAX_BACKGROUND_BYTES = 2 * 1024 * 1024;
+
+const TYPE_COLORS: Record<Territory['type'], string> = {
+  Empire: '#f59e0b',
+  Kingdom: '#38bdf8',
+  Neutral: '#a1a1aa',
+  Hidden: '#a78bfa',
+};
+
+const TIME_UNITS: TravelTimeUnit[] = ['hours', 'days', 'weeks', 'months'];
+
+const inputClass =
+  'w-full bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-zinc-200 focus:border-amber-500 focus:outline-none';
+
+const MODE_LABELS: Record<MapMode, string> = {
+  select: 'Select',
+  pin: 'Place pin',
+  outline: 'Draw outline',
+  route: 'Draw route',
+};
+
+const MODE_HINTS: Record<MapMode, string> = {
+  select: 'Select a territory or route to edit it.',
+  pin: 'Click the map to pin the selected territory.',
+  outline: 'Click to add outline corners, then finish the outline.',
+  route: 'Click two placed territories to connect them.',
+};
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+const WorldMapCanvas: React.FC<WorldMapCanvasProps> = ({ state, onSaveTerritory, onUpdateWorldMap }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [mode, setMode] = useState<MapMode>('select');
+  const [selectedTerritoryId, setSelectedTerritoryId] = useState<string | null>(null);
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
+  const [draftPoints, setDraftPoints] = useState<MapPoint[]>([]);
+  const [routeStartId, setRouteStartId] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const worldMap = state.worldMap || createEmptyWorldMap();
+  const canvas = getRealmCanvas(worldMap, state.currentRealmId);
+  const territories = useMemo(
+    () => state.territories.filter(t => t.realmId === state.currentRealmId),
+    [state.territories, state.currentRealmId]
+  );
+  const territoryById = useMemo(() => new Map(territories.map(t => [t.id, t])), [territories]);
+  const routes = worldMap.routes.filter(r => r.realmId === state.currentRealmId);
+  const selectedTerritory = selectedTerritoryId ? territoryById.get(selectedTerritoryId) : undefined;
+  const selectedRoute = routes.find(r => r.id === selectedRouteId);
+
+  const updateCanvas = (changes: Partial<RealmMapCanvas>) => {
+    const others = worldMap.canvases.filter(c => c.realmId !== state.currentRealmId);
+    onUpdateWorldMap({ ...worldMap, canvases: [...others, { ...canvas, ...changes }] });
+  };
+
+  const updateRoute = (id: string, changes: Partial<TravelRoute>) => {
+    onUpdateWorldMap({ ...worldMap, routes: worldMap.routes.map(r => (r.id === id ? { ...r, ...changes } : r)) });
+  };
+
+  const deleteRoute = (id: string) => {
+    onUpdateWorldMap({ ...worldMap, routes: worldMap.routes.filter(r => r.id !== id) });
+    setSelectedRouteId(null);
+  };
+
+  const switchMode = (next: MapMode) => {
+    setMode(next);
+    setDraftPoints([]);
+    setRouteStartId(null);
+  };
+
+  const toMapPoint = (event: React.MouseEvent): MapPoint | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: Math.round(((event.clientX - rect.left) / rect.width) * WORLD_MAP_WIDTH),
+      y: Math.round(((event.clientY - rect.top) / rect.height) * WORLD_MAP_HEIGHT),
+    };
+  };
+
+  const handleCanvasClick = (event: React.MouseEvent) => {
+    const point = toMapPoint(event);
+    if (!point) return;
+
+    if (mode === 'pin' && selectedTerritory) {
+      onSaveTerritory({ ...selectedTerritory, mapPlacement: { kind: 'pin', point } });
+      switchMode('select');
+    } else if (mode === 'outline' && selectedTerritory) {
+      setDraftPoints(prev => [...prev, point]);
+    } else if (mode === 'select') {
+      setSelectedTerritoryId(null);
+      setSelectedRouteId(null);
+    }
+  };
+
+  const handleTerritoryClick = (event: React.MouseEvent, territory: Territory) => {
+    if (mode === 'pin' || mode === 'outline') return; // let the canvas place the point
+    event.stopPropagation();
+
+    if (mode === 'route') {
+      if (!routeStartId) {
+        setRouteStartId(territory.id);
+      } else if (routeStartId !== territory.id) {
+        const route: TravelRoute = {
+          id: generateUUID(),
+          realmId: state.currentRealmId,
+          fromTerritoryId: routeStartId,
+          toTerritoryId: territory.id,
+          travelTimeUnit: 'days',
+        };
+        onUpdateWorldMap({ ...worldMap, routes: [...worldMap.routes, route] });
+        setSelectedRouteId(route.id);
+        switchMode('select');
+      }
+      return;
+    }
+
+    setSelectedTerritoryId(territory.id);
+    setSelectedRouteId(null);
+  };
+
+  const finishOutline = () => {
+    if (selectedTerritory && draftPoints.length >= 3) {
+      onSaveTerritory({ ...selectedTerritory, mapPlacement: { kind: 'polygon', points: draftPoints } });
+    }
+    switchMode('select');
+  };
+
+  const handleBackgroundUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_BACKGROUND_BYTES) {
+      setUploadError('Map images must be under 2 MB.');
+      return;
+    }
+    setUploadError(null);
+    const reader = new FileReader();
+    reader.onload = () => updateCanvas({ backgroundImage: String(reader.result) });
+    reader.readAsDataURL(file);
+  };
+
+  const routeLength = (route: TravelRoute): string | null => {
+    const from = territoryById.get(route.fromTerritoryId)?.mapPlacement;
+    const to = territoryById.get(route.toTerritoryId)?.mapPlacement;
+    if (!from || !to) return null;
+    const distance = mapDistance(getPlacementCenter(from), getPlacementCenter(to), canvas);
+    return distance ? `~${Math.round(distance.value)} ${distance.unit} direct` : null;
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Canvas */}
+      <div className="lg:col-span-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(MODE_LABELS) as MapMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => switchMode(option)}
+              disabled={(option === 'pin' || option === 'outline') && !selectedTerritory}
+              className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors disabled:opacity-40 ${
+                mode === option
+                  ? 'bg-amber-600/20 text-amber-400 border border-amber-600/30'
+                  : 'bg-zinc-800 text-zinc-400 border border-zinc-700 hover:text-zinc-200'
+              }`}
+            >
+              {MODE_LABELS[option]}
+            </button>
+          ))}
+          {mode === 'outline' && (
+            <>
+              <button
+                onClick={finishOutline}
+                disabled={draftPoints.length < 3}
+                className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-amber-600 text-white disabled:opacity-40"
+              >
+                Finish outline ({draftPoints.length})
+              </button>
+              <button onClick={() => switchMode('select')} className="text-xs text-zinc-400 hover:text-zinc-200 px-2">
+                Cancel
+              </button>
+            </>
+          )}
+          <span className="text-xs text-zinc-500 ml-auto">{MODE_HINTS[mode]}</span>
+        </div>
+
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WORLD_MAP_WIDTH} ${WORLD_MAP_HEIGHT}`}
+          className={`w-full rounded-2xl border border-zinc-700 bg-zinc-950 select-none ${mode === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+          onClick={handleCanvasClick}
+          role="img"
+          aria-label="World map"
+        >
+          <defs>
+            <pattern id="world-map-grid" width="50" height="50" patternUnits="userSpaceOnUse">
+              <path d="M 50 0 L 0 0 0 50" fill="none" stroke="#27272a" strokeWidth="1" />
+            </pattern>
+          </defs>
+          {canvas.backgroundImage ? (
+            <image href={canvas.backgroundImage} width={WORLD_MAP_WIDTH} height={WORLD_MAP_HEIGHT} preserveAspectRatio="xMidYMid slice" />
+          ) : (
+            <rect width={WORLD_MAP_WIDTH} height={WORLD_MAP_HEIGHT} fill="url(#world-map-grid)" />
+          )}
+
+          {/* Routes */}
+          {routes.map(route => {
+            const from = territoryById.get(route.fromTerritoryId)?.mapPlacement;
+            const to = territoryById.get(route.toTerritoryId)?.mapPlacement;
+            if (!from || !to) return null;
+            const points = [getPlacementCenter(from), ...(route.waypoints || []), getPlacementCenter(to)];
+            const mid = points.length === 2
+              ? { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 }
+              : points[Math.floor(points.length / 2)];
+            const selected = route.id === selectedRouteId;
+            return (
+              <g
+                key={route.id}
+                onClick={event => {
+                  if (mode !== 'select') return;
+                  event.stopPropagation();
+                  setSelectedRouteId(route.id);
+                  setSelectedTerritoryId(null);
+                }}
+                className="cursor-pointer"
+              >
+                <polyline
+                  points={points.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke={selected ? '#f59e0b' : '#e4e4e7'}
+                  strokeWidth={selected ? 4 : 2.5}
+                  strokeDasharray="10 6"
+                  opacity={0.8}
+                />
+                {route.travelTime !== undefined && (
+                  <text x={mid.x} y={mid.y - 8} textAnchor="middle" fontSize="14" fill="#fbbf24" stroke="#09090b" strokeWidth="3" paintOrder="stroke">
+                    {route.travelTime} {route.travelTimeUnit || 'days'}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {/* Territories */}
+          {territories.map(territory => {
+            const placement = territory.mapPlacement;
+            if (!placement) return null;
+            const center = getPlacementCenter(placement);
+            const color = TYPE_COLORS[territory.type];
+            const highlighted = territory.id === selectedTerritoryId || territory.id === routeStartId;
+            return (
+              <g key={territory.id} onClick={event => handleTerritoryClick(event, territory)} className="cursor-pointer">
+                {placement.kind === 'polygon' ? (
+                  <polygon
+                    points={placement.points.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill={color}
+                    fillOpacity={highlighted ? 0.35 : 0.18}
+                    stroke={color}
+                    strokeWidth={highlighted ? 3 : 1.5}
+                  />
+                ) : (
+                  <circle cx={center.x} cy={center.y} r={highlighted ? 10 : 7} fill={color} stroke="#09090b" strokeWidth="2" />
+                )}
+                <text
+                  x={center.x}
+                  y={center.y + (placement.kind === 'pin' ? 24 : 5)}
+                  textAnchor="middle"
+                  fontSize="15"
+                  fontWeight="600"
+                  fill="#f4f4f5"
+                  stroke="#09090b"
+                  strokeWidth="3"
+                  paintOrder="stroke"
+                >
+                  {territory.name}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* Outline in progress */}
+          {draftPoints.length > 0 && (
+            <g pointerEvents="none">
+              <polyline points={draftPoints.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke="#f59e0b" strokeWidth="2" />
+              {draftPoints.map((p, i) => (
+                <circle key={i} cx={p.x} cy={p.y} r="4" fill="#f59e0b" />
+              ))}
+            </g>
+          )}
+        </svg>
+      </div>
+
+      {/* Side panel */}
+      <aside className="space-y-6">
+        <section className="space-y-2">
+          <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Territories</h4>
+          {territories.length === 0 ? (
+            <p className="text-xs text-zinc-500">Forge a territory to place it on the map.</p>
+          ) : (
+            <ul className="space-y-1 max-h-56 overflow-y-auto">
+              {territories.map(territory => (
+                <li key={territory.id}>
+                  <button
+                    onClick={() => {
+                      setSelectedTerritoryId(territory.id);
+                      setSelectedRouteId(null);
+                    }}
+                    className={`w-full text-left px-2 py-1.5 rounded-lg text-xs flex items-center justify-between gap-2 ${
+                      territory.id === selectedTerritoryId ? 'bg-amber-600/15 text-amber-400' : 'text-zinc-300 hover:bg-zinc-800'
+                    }`}
+                  >
+                    <span className="truncate">{territory.name}</span>
+                    <span className="text-[10px] text-zinc-500 flex-shrink-0">
+                      {territory.mapPlacement ? (territory.mapPlacement.kind === 'pin' ? 'pinned' : 'outlined') : 'unplaced'}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {selectedTerritory?.mapPlacement && (
+            <button
+              onClick={() => onSaveTerritory({ ...selectedTerritory, mapPlacement: undefined })}
+              className="text-xs text-red-400 hover:text-red-300"
+            >
+              Remove {selectedTerritory.name} from map
+            </button>
+          )}
+        </section>
+
+        {selectedRoute && (
+          <section className="space-y-2 border border-zinc-700 rounded-xl p-3 bg-zinc-900/50">
+            <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-wider">
+              {territoryById.get(selectedRoute.fromTerritoryId)?.name} ↔ {territoryById.get(selectedRoute.toTerritoryId)?.name}
+            </h4>
+            <input
+              type="text"
+              value={selectedRoute.name || ''}
+              placeholder="Route name (optional)"
+              onChange={e => updateRoute(selectedRoute.id, { name: e.target.value || undefined })}
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={selectedRoute.travelTime ?? ''}
+                placeholder="Travel time"
+                onChange={e => updateRoute(selectedRoute.id, { travelTime: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                className={inputClass}
+              />
+              <select
+                value={selectedRoute.travelTimeUnit || 'days'}
+                onChange={e => updateRoute(selectedRoute.id, { travelTimeUnit: e.target.value as TravelTimeUnit })}
+                className={inputClass}
+              >
+                {TIME_UNITS.map(unit => (
+                  <option key={unit} value={unit}>{unit}</option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="text"
+              value={selectedRoute.travelMode || ''}
+              placeholder="How (on foot, flying sword...)"
+              onChange={e => updateRoute(selectedRoute.id, { travelMode: e.target.value || undefined })}
+              className={inputClass}
+            />
+            {routeLength(selectedRoute) && <p className="text-[10px] text-zinc-500">{routeLength(selectedRoute)}</p>}
+            <button onClick={() => deleteRoute(selectedRoute.id)} className="text-xs text-red-400 hover:text-red-300">
+              Delete route
+            </button>
+          </section>
+        )}
+
+        <section className="space-y-2">
+          <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Map</h4>
+          <label className="block text-xs text-zinc-300 cursor-pointer hover:text-amber-400">
+            {canvas.backgroundImage ? 'Replace map image' : 'Upload map image'}
+            <input type="file" accept="image/*" onChange={handleBackgroundUpload} className="hidden" />
+          </label>
+          {canvas.backgroundImage && (
+            <button onClick={() => updateCanvas({ backgroundImage: undefined })} className="text-xs text-zinc-400 hover:text-zinc-200">
+              Use blank canvas
+            </button>
+          )}
+          {uploadError && <p className="text-xs text-red-400">{uploadError}</p>}
+          <div>
+            <span className="block text-[10px] uppercase tracking-wide text-zinc-500 mb-1">Map width spans</span>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                value={canvas.widthDistance ?? ''}
+                placeholder="e.g. 5000"
+                onChange={e => updateCanvas({ widthDistance: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={canvas.distanceUnit || ''}
+                placeholder="li"
+                onChange={e => updateCanvas({ distanceUnit: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </section>
+      </aside>
+    </div>
+  );
+};
+
+export default memo(WorldMapCanvas);
@@ -1,18 +1,24 @@
 
 import React, { useState } from 'react';
 import { NovelState, Territory } from '../types';
+import type { WorldMapState } from '../types/worldMap';
 import TerritoryForm from './forms/TerritoryForm';
+import WorldMapCanvas from './WorldMapCanvas';
 
 interface WorldMapViewProps {
   state: NovelState;
   onSaveTerritory: (territory: Territory) => void;
   onDeleteTerritory: (id: string) => void;
+  onUpdateWorldMap: (worldMap: WorldMapState) => void;
 }
 
-const WorldMapView: React.FC<WorldMapViewProps> = ({ state, onSaveTerritory, onDeleteTerritory }) => {
+const WorldMapView: React.FC<WorldMapViewProps> = ({ state, onSaveTerritory, onDeleteTerritory, onUpdateWorldMap }) => {
   const [editingTerritory, setEditingTerritory] = useState<Partial<Territory> | null>(null);
   const currentRealm = state.realms.find(r => r.id === state.currentRealmId);
   const currentTerritories = state.territories.filter(t => t.realmId === state.currentRealmId);
+  const [layout, setLayout] = useState<'map' | 'list'>(() =>
+    currentTerritories.some(t => t.mapPlacement) ? 'map' : 'list'
+  );
 
   const handleAddNew = () => {
     setEditingTerritory({
@@ -53,6 +59,26 @@ const WorldMapView: React.FC<WorldMapViewProps> = ({ state, onSaveTerritory, onD
         </div>
       </header>
 
+      <div className="flex gap-2" role="tablist" aria-label="Geography layout">
+        {(['list', 'map'] as const).map(option => (
+          <button
+            key={option}
+            role="tab"
+            aria-selected={layout === option}
+            onClick={() => setLayout(option)}
+            className={`px-4 py-2 rounded-xl text-sm font-semibold transition-all duration-200 ${layout === option
+              ? 'bg-amber-600/20 text-amber-400 border border-amber-600/30'
+              : 'bg-zinc-800 text-zinc-400 border border-zinc-700 hover:bg-zinc-700 hover:text-zinc-300'
+              }`}
+          >
+            {option === 'list' ? 'Territories' : 'Map'}
+          </button>
+        ))}
+      </div>
+
+      {layout === 'map' ? (
+        <WorldMapCanvas state={state} onSaveTerritory={onSaveTerritory} onUpdateWorldMap={onUpdateWorldMap} />
+      ) : (
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 md:gap-8">
         <aside className="lg:col-span-1 space-y-4">
           <h3 className="text-sm font-bold text-zinc-400 uppercase tracking-wider border-l-4 border-amber-600 pl-4">Realms</h3>
@@ -117,6 +143,7 @@ const WorldMapView: React.FC<WorldMapViewProps> = ({ state, onSaveTerritory, onD
           )}
         </section>
       </div>
+      )}
 
       <TerritoryForm
         initialData={editingTerritory}
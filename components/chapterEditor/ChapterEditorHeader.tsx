@@ -7,6 +7,7 @@
 import React from 'react';
 import VoiceInput from '../VoiceInput';
 import TextToSpeech from '../TextToSpeech';
+import type { NovelState } from '../../types';
 
 interface ChapterEditorHeaderProps {
   title: string;
@@ -21,6 +22,10 @@ interface ChapterEditorHeaderProps {
   activeTab: string;
   isVisible?: boolean;
   isMobile?: boolean;
+  /** Roles that cannot edit the text get no title editing or Save */
+  readOnly?: boolean;
+  /** Supplies the pronunciation lexicon for read-aloud */
+  novel?: NovelState;
 }
 
 export const ChapterEditorHeader: React.FC<ChapterEditorHeaderProps> = ({
@@ -36,6 +41,8 @@ export const ChapterEditorHeader: React.FC<ChapterEditorHeaderProps> = ({
   activeTab,
   isVisible = true,
   isMobile = false,
+  readOnly = false,
+  novel,
 }) => {
   return (
     <>
@@ -55,15 +62,18 @@ export const ChapterEditorHeader: React.FC<ChapterEditorHeaderProps> = ({
             <input
               value={title}
               onChange={(e) => onTitleChange(e.target.value)}
+              readOnly={readOnly}
               className="bg-transparent border-none text-sm xs:text-base sm:text-lg md:text-xl font-fantasy font-bold text-amber-500 focus:ring-0 w-full pr-10 xs:pr-12 placeholder-zinc-600 truncate"
               placeholder="Chapter Title..."
               aria-label="Chapter title"
             />
-            <VoiceInput
-              onResult={(text) => onTitleChange(text)}
-              className="absolute right-0 flex-shrink-0"
-              title="Voice Input: Speak to set chapter title"
-            />
+            {!readOnly && (
+              <VoiceInput
+                onResult={(text) => onTitleChange(text)}
+                className="absolute right-0 flex-shrink-0"
+                title="Voice Input: Speak to set chapter title"
+              />
+            )}
           </div>
         </div>
 
@@ -92,21 +102,23 @@ export const ChapterEditorHeader: React.FC<ChapterEditorHeaderProps> = ({
             <span className="hidden xs:inline">{showTTS ? 'Hide' : 'Read'}</span>
           </button>
           {/* Save button - more prominent */}
-          <button
-            onClick={onSave}
-            className="bg-amber-600 hover:bg-amber-500 text-white px-3 xs:px-4 sm:px-5 py-1.5 xs:py-2 rounded-lg text-xs xs:text-sm font-semibold transition-all duration-200 hover:scale-105 shadow-lg shadow-amber-900/20 whitespace-nowrap flex-shrink-0 ml-auto"
-            aria-label="Save chapter"
-          >
-            <span className="xs:hidden">Save</span>
-            <span className="hidden xs:inline">Save Chapter</span>
-          </button>
+          {!readOnly && (
+            <button
+              onClick={onSave}
+              className="bg-amber-600 hover:bg-amber-500 text-white px-3 xs:px-4 sm:px-5 py-1.5 xs:py-2 rounded-lg text-xs xs:text-sm font-semibold transition-all duration-200 hover:scale-105 shadow-lg shadow-amber-900/20 whitespace-nowrap flex-shrink-0 ml-auto"
+              aria-label="Save chapter"
+            >
+              <span className="xs:hidden">Save</span>
+              <span className="hidden xs:inline">Save Chapter</span>
+            </button>
+          )}
         </div>
       </div>
 
       {/* Text-to-Speech panel */}
       {showTTS && (
         <div className="border-b border-zinc-700 bg-zinc-900/50 p-2 xs:p-3 sm:p-4">
-          <TextToSpeech text={content} onClose={onToggleTTS} />
+          <TextToSpeech text={content} onClose={onToggleTTS} novel={novel} />
         </div>
       )}
     </>
@@ -14,6 +14,8 @@ interface ChapterEditorTabsProps {
   scenesCount: number;
   antagonistsCount: number;
   professionalEditorBadgeCount: number;
+  /** Tabs the current user has no use for, e.g. scene editing for read-only roles */
+  hiddenTabs?: ChapterEditorTab[];
 }
 
 // Tab configurations with icons for mobile
@@ -30,6 +32,7 @@ export const ChapterEditorTabs: React.FC<ChapterEditorTabsProps> = ({
   scenesCount,
   antagonistsCount,
   professionalEditorBadgeCount,
+  hiddenTabs = [],
 }) => {
   // Get badge count for a tab
   const getBadgeCount = (tabId: ChapterEditorTab): number => {
@@ -45,7 +48,7 @@ export const ChapterEditorTabs: React.FC<ChapterEditorTabsProps> = ({
     <div className="px-2 xs:px-3 sm:px-4 md:px-6 py-2 border-b border-zinc-700 bg-zinc-900/40">
       {/* Horizontal scroll container */}
       <div className="flex items-center gap-1 xs:gap-1.5 sm:gap-2 overflow-x-auto scrollbar-hide -mx-2 px-2 xs:-mx-3 xs:px-3 sm:mx-0 sm:px-0">
-        {tabs.map((tab) => {
+        {tabs.filter(tab => !hiddenTabs.includes(tab.id)).map((tab) => {
           const badgeCount = getBadgeCount(tab.id);
           const isActive = activeTab === tab.id;
           
@@ -4,10 +4,14 @@
  */
 
 import React from 'react';
-import type { Scene } from '../../types';
+import type { Character, Scene } from '../../types';
 
 interface ChapterScenesEditorProps {
   scenes: Scene[];
+  characters?: Character[];
+  povCharacterId?: string;
+  onChangeChapterPov?: (characterId: string | undefined) => void;
+  onChangeScenePov?: (sceneId: string, characterId: string | undefined) => void;
   onCreateScene: () => void;
   onEditScene: (scene: Scene) => void;
   onDeleteScene: (sceneId: string) => void;
@@ -15,6 +19,10 @@ interface ChapterScenesEditorProps {
 
 export const ChapterScenesEditor: React.FC<ChapterScenesEditorProps> = ({
   scenes,
+  characters = [],
+  povCharacterId,
+  onChangeChapterPov,
+  onChangeScenePov,
   onCreateScene,
   onEditScene,
   onDeleteScene,
@@ -32,6 +40,22 @@ export const ChapterScenesEditor: React.FC<ChapterScenesEditorProps> = ({
             + Create Scene
           </button>
         </div>
+        {onChangeChapterPov && characters.length > 0 && (
+          <div className="flex items-center gap-3 bg-zinc-900/60 border border-zinc-700 rounded-xl px-4 py-3">
+            <label htmlFor="chapter-pov" className="text-xs font-bold text-zinc-400 uppercase">Chapter POV</label>
+            <select
+              id="chapter-pov"
+              value={povCharacterId || ''}
+              onChange={(e) => onChangeChapterPov(e.target.value || undefined)}
+              className="flex-1 bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:border-amber-500 outline-none"
+            >
+              <option value="">Not set</option>
+              {characters.map(c => (
+                <option key={c.id} value={c.id}>{c.name}{c.isProtagonist ? ' (protagonist)' : ''}</option>
+              ))}
+            </select>
+          </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {scenes.length === 0 ? (
             <div className="col-span-2 py-12 text-center bg-zinc-900/50 border border-dashed border-zinc-700 rounded-2xl">
@@ -55,6 +79,19 @@ export const ChapterScenesEditor: React.FC<ChapterScenesEditorProps> = ({
                       <p className="text-sm text-zinc-400 line-clamp-3 italic mb-2">{scene.summary}</p>
                     )}
                     <p className="text-xs text-zinc-500">{scene.wordCount} words</p>
+                    {onChangeScenePov && characters.length > 0 && (
+                      <select
+                        value={scene.povCharacterId || ''}
+                        onChange={(e) => onChangeScenePov(scene.id, e.target.value || undefined)}
+                        className="mt-2 w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 focus:border-amber-500 outline-none"
+                        aria-label={`Viewpoint character for scene ${scene.number}`}
+                      >
+                        <option value="">POV: same as chapter</option>
+                        {characters.map(c => (
+                          <option key={c.id} value={c.id}>POV: {c.name}</option>
+                        ))}
+                      </select>
+                    )}
                   </div>
                   <div className="flex items-center space-x-2 ml-3">
                     <button
@@ -0,0 +1,168 @@
+/**
+ * Collaboration Presence Components
+ * Co-editing toggle with the writers in the chapter, and their cursors drawn
+ * over the content textarea
+ */
+
+import React, { useLayoutEffect, useMemo, useState } from 'react';
+import type { CollabStatus, ResolvedPeer } from '../../types/collab';
+
+const STATUS_LABELS: Record<CollabStatus, { label: string; dot: string }> = {
+  disabled: { label: 'Solo', dot: 'bg-zinc-600' },
+  connecting: { label: 'Connecting…', dot: 'bg-amber-500 animate-pulse' },
+  connected: { label: 'Live', dot: 'bg-emerald-500' },
+  offline: { label: 'Relay offline, retrying', dot: 'bg-red-500' },
+};
+
+interface CollaborationBarProps {
+  status: CollabStatus;
+  peers: ResolvedPeer[];
+  enabled: boolean;
+  onToggle: () => void;
+}
+
+export const CollaborationBar: React.FC<CollaborationBarProps> = ({ status, peers, enabled, onToggle }) => {
+  const { label, dot } = STATUS_LABELS[status];
+
+  return (
+    <div className="flex items-center gap-2 mb-3 pr-16 flex-wrap text-xs">
+      <button
+        onClick={onToggle}
+        className={`px-2.5 py-1 rounded-lg border transition-colors ${enabled
+          ? 'bg-emerald-600/20 text-emerald-400 border-emerald-600/50'
+          : 'bg-zinc-800/50 text-zinc-400 border-zinc-700 hover:bg-zinc-700'
+          }`}
+        title={enabled ? 'Stop co-editing this chapter' : 'Co-edit this chapter through the local relay (npm run server)'}
+      >
+        👥 Co-edit
+      </button>
+      <span className="flex items-center gap-1.5 text-zinc-500">
+        <span className={`w-2 h-2 rounded-full ${dot}`} />
+        {label}
+      </span>
+      {peers.map(peer => (
+        <span
+          key={peer.clientId}
+          className="px-2 py-0.5 rounded-full text-zinc-950 font-semibold"
+          style={{ backgroundColor: peer.user.color }}
+          title={peer.selection ? `At character ${peer.selection.end}` : 'Not in the text yet'}
+        >
+          {peer.user.name}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+interface RemoteCursorsProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  content: string;
+  peers: ResolvedPeer[];
+}
+
+interface Box {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+  scrollTop: number;
+  style: React.CSSProperties;
+}
+
+/**
+ * Mirrors the textarea's text (invisibly, with the same font and wrapping) so
+ * collaborators' carets and selections land on the right characters
+ */
+export const RemoteCursors: React.FC<RemoteCursorsProps> = ({ textareaRef, content, peers }) => {
+  const [box, setBox] = useState<Box | null>(null);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const measure = () => {
+      const computed = window.getComputedStyle(textarea);
+      setBox({
+        top: textarea.offsetTop,
+        left: textarea.offsetLeft,
+        width: textarea.clientWidth,
+        height: textarea.clientHeight,
+        scrollTop: textarea.scrollTop,
+        style: {
+          font: computed.font,
+          letterSpacing: computed.letterSpacing,
+          lineHeight: computed.lineHeight,
+          paddingTop: computed.paddingTop,
+          paddingRight: computed.paddingRight,
+          paddingBottom: computed.paddingBottom,
+          paddingLeft: computed.paddingLeft,
+        },
+      });
+    };
+
+    measure();
+    textarea.addEventListener('scroll', measure, { passive: true });
+    window.addEventListener('resize', measure);
+    return () => {
+      textarea.removeEventListener('scroll', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, [textareaRef, content]);
+
+  const segments = useMemo(() => {
+    const located = peers.filter(peer => peer.selection);
+    const cuts = new Set<number>([0, content.length]);
+    located.forEach(peer => {
+      cuts.add(Math.min(peer.selection!.start, content.length));
+      cuts.add(Math.min(peer.selection!.end, content.length));
+    });
+    const points = [...cuts].sort((a, b) => a - b);
+
+    const parts: React.ReactNode[] = [];
+    points.forEach((point, i) => {
+      located
+        .filter(peer => Math.min(peer.selection!.end, content.length) === point)
+        .forEach(peer => parts.push(
+          <span
+            key={`caret-${peer.clientId}`}
+            className="relative"
+            style={{ borderLeft: `2px solid ${peer.user.color}`, marginLeft: -1, marginRight: -1 }}
+          >
+            <span
+              className="absolute -top-4 left-0 px-1 rounded text-[10px] leading-4 font-sans font-semibold text-zinc-950 whitespace-nowrap"
+              style={{ backgroundColor: peer.user.color }}
+            >
+              {peer.user.name}
+            </span>
+          </span>
+        ));
+
+      const next = points[i + 1];
+      if (next === undefined || next === point) return;
+      const covering = located.find(peer => peer.selection!.start <= point && peer.selection!.end >= next);
+      parts.push(
+        <span key={`text-${point}`} style={covering ? { backgroundColor: `${covering.user.color}33` } : undefined}>
+          {content.slice(point, next)}
+        </span>
+      );
+    });
+    return parts;
+  }, [content, peers]);
+
+  if (!box || peers.every(peer => !peer.selection)) return null;
+
+  return (
+    <div
+      className="absolute pointer-events-none overflow-hidden"
+      style={{ top: box.top, left: box.left, width: box.width, height: box.height }}
+      aria-hidden="true"
+    >
+      <div
+        className="whitespace-pre-wrap break-words text-transparent"
+        style={{ ...box.style, transform: `translateY(-${box.scrollTop}px)` }}
+      >
+        {segments}
+      </div>
+    </div>
+  );
+};
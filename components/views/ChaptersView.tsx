@@ -5,6 +5,7 @@
 
 import React, { memo, useCallback, useState } from 'react';
 import type { NovelState, Chapter } from '../../types';
+import { useNovelPermissions } from '../../hooks/useNovelPermissions';
 
 interface ChaptersViewProps {
   novel: NovelState;
@@ -27,6 +28,7 @@ const ChaptersViewComponent: React.FC<ChaptersViewProps> = ({
 }) => {
   const [selectedChapters, setSelectedChapters] = useState<Set<string>>(new Set());
   const [isBulkMode, setIsBulkMode] = useState(false);
+  const { can } = useNovelPermissions(novel);
   const formatChapterTitleForDisplay = useCallback((chapter: Chapter): string => {
     // If title already starts with "Chapter X", return as-is
     if (/^Chapter\s+\d+/i.test(chapter.title)) {
@@ -115,16 +117,18 @@ const ChaptersViewComponent: React.FC<ChaptersViewProps> = ({
                 <span className="hidden xs:inline">Export</span>
                 <span>({selectedChapters.size})</span>
               </button>
-              <button
-                onClick={handleBulkDelete}
-                disabled={selectedChapters.size === 0}
-                className="px-2 xs:px-3 sm:px-4 py-1.5 xs:py-2 bg-red-600 hover:bg-red-500 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed text-white rounded-lg font-semibold text-xs xs:text-sm transition-all duration-200 flex items-center gap-1 xs:gap-2 whitespace-nowrap flex-shrink-0"
-                aria-label={`Delete ${selectedChapters.size} selected chapters`}
-              >
-                <span>🗑️</span>
-                <span className="hidden xs:inline">Delete</span>
-                <span>({selectedChapters.size})</span>
-              </button>
+              {can('delete_chapter') && (
+                <button
+                  onClick={handleBulkDelete}
+                  disabled={selectedChapters.size === 0}
+                  className="px-2 xs:px-3 sm:px-4 py-1.5 xs:py-2 bg-red-600 hover:bg-red-500 disabled:bg-zinc-700 disabled:text-zinc-500 disabled:cursor-not-allowed text-white rounded-lg font-semibold text-xs xs:text-sm transition-all duration-200 flex items-center gap-1 xs:gap-2 whitespace-nowrap flex-shrink-0"
+                  aria-label={`Delete ${selectedChapters.size} selected chapters`}
+                >
+                  <span>🗑️</span>
+                  <span className="hidden xs:inline">Delete</span>
+                  <span>({selectedChapters.size})</span>
+                </button>
+              )}
               <button
                 onClick={() => {
                   setIsBulkMode(false);
@@ -146,24 +150,28 @@ const ChaptersViewComponent: React.FC<ChaptersViewProps> = ({
                 <span>☑️</span>
                 <span className="hidden xs:inline">Bulk</span>
               </button>
-              <button
-                onClick={onFixChapters}
-                className="px-2 xs:px-3 sm:px-4 py-1.5 xs:py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-semibold text-xs xs:text-sm transition-all duration-200 flex items-center gap-1 xs:gap-2 whitespace-nowrap flex-shrink-0"
-                title="Fix duplicate chapter numbers and normalize titles (adds 'Chapter X: ' prefix if missing)"
-                aria-label="Fix chapter numbers and titles"
-              >
-                <span>🔧</span>
-                <span className="hidden xs:inline">Fix</span>
-              </button>
-              <button
-                onClick={onEditorReview}
-                className="px-2 xs:px-3 sm:px-4 py-1.5 xs:py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-semibold text-xs xs:text-sm transition-all duration-200 flex items-center gap-1 xs:gap-2 whitespace-nowrap flex-shrink-0"
-                title="Manually trigger editor review for chapters"
-                aria-label="Trigger editor review"
-              >
-                <span>✏️</span>
-                <span className="hidden xs:inline">Review</span>
-              </button>
+              {can('edit_content') && (
+                <>
+                  <button
+                    onClick={onFixChapters}
+                    className="px-2 xs:px-3 sm:px-4 py-1.5 xs:py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-semibold text-xs xs:text-sm transition-all duration-200 flex items-center gap-1 xs:gap-2 whitespace-nowrap flex-shrink-0"
+                    title="Fix duplicate chapter numbers and normalize titles (adds 'Chapter X: ' prefix if missing)"
+                    aria-label="Fix chapter numbers and titles"
+                  >
+                    <span>🔧</span>
+                    <span className="hidden xs:inline">Fix</span>
+                  </button>
+                  <button
+                    onClick={onEditorReview}
+                    className="px-2 xs:px-3 sm:px-4 py-1.5 xs:py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-semibold text-xs xs:text-sm transition-all duration-200 flex items-center gap-1 xs:gap-2 whitespace-nowrap flex-shrink-0"
+                    title="Manually trigger editor review for chapters"
+                    aria-label="Trigger editor review"
+                  >
+                    <span>✏️</span>
+                    <span className="hidden xs:inline">Review</span>
+                  </button>
+                </>
+              )}
             </>
           )}
         </div>
@@ -214,14 +222,16 @@ const ChaptersViewComponent: React.FC<ChaptersViewProps> = ({
                     >
                       Export
                     </button>
-                    <button
-                      type="button"
-                      onClick={(e) => { e.stopPropagation(); onChapterDelete(chapter.id); }}
-                      className="flex-1 sm:flex-none text-xs text-zinc-500 hover:text-red-500 uppercase font-semibold bg-zinc-800/90 backdrop-blur-sm px-2 xs:px-3 py-1.5 rounded-lg border border-zinc-700 hover:border-red-500/50 transition-all duration-200 hover:bg-red-950/20 focus-visible:outline-red-600 focus-visible:outline-2 shadow-lg text-center"
-                      aria-label={`Delete chapter ${chapter.number}`}
-                    >
-                      Delete
-                    </button>
+                    {can('delete_chapter') && (
+                      <button
+                        type="button"
+                        onClick={(e) => { e.stopPropagation(); onChapterDelete(chapter.id); }}
+                        className="flex-1 sm:flex-none text-xs text-zinc-500 hover:text-red-500 uppercase font-semibold bg-zinc-800/90 backdrop-blur-sm px-2 xs:px-3 py-1.5 rounded-lg border border-zinc-700 hover:border-red-500/50 transition-all duration-200 hover:bg-red-950/20 focus-visible:outline-red-600 focus-visible:outline-2 shadow-lg text-center"
+                        aria-label={`Delete chapter ${chapter.number}`}
+                      >
+                        Delete
+                      </button>
+                    )}
                   </div>
                 )}
                 
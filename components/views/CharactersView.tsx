@@ -8,8 +8,14 @@ import type { NovelState, Character } from '../../types';
 import { SkeletonList } from '../Skeleton';
 import { CharacterDetailPanel } from '../CharacterDetailPanel';
 import { RelationshipNetworkGraph } from '../RelationshipNetworkGraph';
+import { KnowledgeLedger } from '../KnowledgeLedger';
+import { SecretsMatrix } from '../SecretsMatrix';
 import { textContainsCharacterName } from '../../utils/characterNameMatching';
 import { backfillAllChapters } from '../../services/chapterBackfillService';
+import { currentCharacterAges } from '../../services/calendarService';
+import { getLastRename, revertRename, forgetRename } from '../../services/entityRenameService';
+import type { RenameEntityType } from '../../types/rename';
+import RenameEntityDialog from '../RenameEntityDialog';
 import { useToast } from '../../contexts/ToastContext';
 
 interface CharactersViewProps {
@@ -28,7 +34,7 @@ interface CharactersViewProps {
 type SortOption = 'name' | 'realm' | 'protagonist' | 'status';
 type FilterStatus = 'all' | 'Alive' | 'Deceased' | 'Unknown';
 type FilterProtagonist = 'all' | 'protagonist' | 'non-protagonist';
-type ViewMode = 'grid' | 'list' | 'network';
+type ViewMode = 'grid' | 'list' | 'network' | 'knowledge' | 'secrets';
 
 const CharactersViewComponent: React.FC<CharactersViewProps> = ({
   novel,
@@ -49,6 +55,7 @@ const CharactersViewComponent: React.FC<CharactersViewProps> = ({
   const [filterProtagonist, setFilterProtagonist] = useState<FilterProtagonist>('all');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [isBackfilling, setIsBackfilling] = useState(false);
+  const [renameTarget, setRenameTarget] = useState<{ type: RenameEntityType; id: string; name: string } | null>(null);
   const { showSuccess, showError, showInfo, showWarning } = useToast();
 
   // Calculate character appearances in chapters
@@ -69,6 +76,9 @@ const CharactersViewComponent: React.FC<CharactersViewProps> = ({
     return appearances;
   }, [novel.characterCodex, novel.chapters]);
 
+  // Ages advanced to the latest chapter's in-world date
+  const currentAges = useMemo(() => currentCharacterAges(novel), [novel]);
+
   // Filter and sort characters
   const filteredAndSortedCharacters = useMemo(() => {
     let filtered = [...novel.characterCodex];
@@ -80,7 +90,7 @@ const CharactersViewComponent: React.FC<CharactersViewProps> = ({
         // Basic fields
         if (char.name.toLowerCase().includes(query) ||
           char.currentCultivation?.toLowerCase().includes(query) ||
-          char.age?.toLowerCase().includes(query) ||
+          String(char.age ?? '').toLowerCase().includes(query) ||
           char.personality?.toLowerCase().includes(query) ||
           char.background?.toLowerCase().includes(query) ||
           char.goals?.toLowerCase().includes(query)) {
@@ -160,6 +170,21 @@ const CharactersViewComponent: React.FC<CharactersViewProps> = ({
     setSelectedCharacter(null);
   };
 
+  // Re-read on every render: a rename or its undo always changes the novel
+  const lastRename = getLastRename(novel.id);
+
+  const handleUndoRename = useCallback(() => {
+    if (!lastRename || !onUpdateNovel) return;
+    const { conflicts } = revertRename(novel, lastRename);
+    onUpdateNovel(prev => revertRename(prev, lastRename).state);
+    forgetRename(lastRename);
+    if (conflicts > 0) {
+      showWarning(`Rename undone; ${conflicts} entr${conflicts === 1 ? 'y was' : 'ies were'} edited since and kept the new name`);
+    } else {
+      showSuccess(`${lastRename.newName} is ${lastRename.oldName} again`);
+    }
+  }, [lastRename, novel, onUpdateNovel, showSuccess, showWarning]);
+
   const clearFilters = () => {
     setSearchQuery('');
     setFilterStatus('all');
@@ -301,6 +326,32 @@ const CharactersViewComponent: React.FC<CharactersViewProps> = ({
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
                 </svg>
               </button>
+              {onUpdateNovel && (
+                <button
+                  onClick={() => setViewMode('knowledge')}
+                  className={`px-3 py-1.5 rounded text-xs font-semibold transition-all ${viewMode === 'knowledge'
+                    ? 'bg-amber-600 text-white'
+                    : 'text-zinc-400 hover:text-zinc-200'
+                    }`}
+                  aria-label="Knowledge view"
+                  title="What each viewpoint character knows"
+                >
+                  🧠
+                </button>
+              )}
+              {onUpdateNovel && (
+                <button
+                  onClick={() => setViewMode('secrets')}
+                  className={`px-3 py-1.5 rounded text-xs font-semibold transition-all ${viewMode === 'secrets'
+                    ? 'bg-amber-600 text-white'
+                    : 'text-zinc-400 hover:text-zinc-200'
+                    }`}
+                  aria-label="Secrets view"
+                  title="Who knows which secret"
+                >
+                  🔒
+                </button>
+              )}
             </div>
 
             {/* Export Button */}
@@ -359,6 +410,15 @@ const CharactersViewComponent: React.FC<CharactersViewProps> = ({
             >
               {isBackfilling ? 'Backfilling...' : 'Backfill Codex'}
             </button>
+            {lastRename && onUpdateNovel && (
+              <button
+                onClick={handleUndoRename}
+                className="bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 px-4 py-2.5 rounded-xl font-semibold text-sm text-zinc-300 transition-all duration-200 whitespace-nowrap"
+                title={`Undo the rename of ${lastRename.oldName} to ${lastRename.newName} everywhere`}
+              >
+                ↶ Undo Rename
+              </button>
+            )}
             <button
               onClick={onAddCharacter}
               className="bg-amber-600 hover:bg-amber-500 px-6 py-2.5 rounded-xl font-semibold text-sm transition-all duration-200 shadow-lg shadow-amber-900/20 hover:scale-105 whitespace-nowrap"
@@ -461,7 +521,25 @@ const CharactersViewComponent: React.FC<CharactersViewProps> = ({
         </div>
 
         {/* Character View Content */}
-        {viewMode === 'network' ? (
+        {viewMode === 'knowledge' && onUpdateNovel ? (
+          <KnowledgeLedger
+            novel={novel}
+            onUpdateFacts={(facts) => onUpdateNovel(prev => ({
+              ...prev,
+              knowledgeFacts: facts.length > 0 ? facts : undefined,
+              updatedAt: Date.now(),
+            }))}
+          />
+        ) : viewMode === 'secrets' && onUpdateNovel ? (
+          <SecretsMatrix
+            novel={novel}
+            onUpdateSecrets={(secrets) => onUpdateNovel(prev => ({
+              ...prev,
+              secrets: secrets.length > 0 ? secrets : undefined,
+              updatedAt: Date.now(),
+            }))}
+          />
+        ) : viewMode === 'network' ? (
           <div className="h-[calc(100vh-300px)] min-h-[500px] relative">
             <RelationshipNetworkGraph
               characters={filteredAndSortedCharacters}
@@ -631,7 +709,12 @@ const CharactersViewComponent: React.FC<CharactersViewProps> = ({
                         {char.age && (
                           <div>
                             <label className="text-[10px] text-zinc-500 uppercase tracking-wide">Age</label>
-                            <p className="text-xs text-zinc-300 mt-0.5 line-clamp-1">{char.age}</p>
+                            <p className="text-xs text-zinc-300 mt-0.5 line-clamp-1">
+                              {char.age}
+                              {currentAges.has(char.id) && String(currentAges.get(char.id)) !== String(char.age).match(/\d+/)?.[0] && (
+                                <span className="ml-1.5 text-amber-400/80">(now {currentAges.get(char.id)})</span>
+                              )}
+                            </p>
                           </div>
                         )}
                         {char.personality && (
@@ -718,6 +801,18 @@ const CharactersViewComponent: React.FC<CharactersViewProps> = ({
             handleClosePanel();
             onDeleteCharacter(charId);
           } : undefined}
+          onRenameEntity={onUpdateNovel ? (type, id, name) => setRenameTarget({ type, id, name }) : undefined}
+        />
+      )}
+
+      {renameTarget && onUpdateNovel && (
+        <RenameEntityDialog
+          novel={novel}
+          entityType={renameTarget.type}
+          entityId={renameTarget.id}
+          currentName={renameTarget.name}
+          onUpdateNovel={onUpdateNovel}
+          onClose={() => setRenameTarget(null)}
         />
       )}
     </>
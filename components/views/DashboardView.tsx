@@ -8,6 +8,8 @@ import type { NovelState } from '../../types';
 import { GapAnalysisPanel } from '../widgets/GapAnalysisPanel';
 import { PostGenerationSummary } from '../PostGenerationSummary';
 import { ApiKeyTester } from '../ApiKeyTester';
+import LlmProviderSettings from '../LlmProviderSettings';
+import UsageDashboard from '../UsageDashboard';
 import { analyzeGaps } from '../../services/gapDetectionService';
 import type { TrustScore } from '../../services/trustService';
 import type { Connection } from '../../services/autoConnectionService';
@@ -18,6 +20,8 @@ import TribulationGateWidget from '../widgets/TribulationGateWidget';
 import TribulationGateSettings from '../TribulationGateSettings';
 import ConsequenceTrackerWidget from '../widgets/ConsequenceTrackerWidget';
 import { TribulationGateConfig } from '../../types/tribulationGates';
+import { useNovelPermissions } from '../../hooks/useNovelPermissions';
+import { ROLE_LABELS } from '../../services/permissionService';
 
 interface DashboardViewProps {
   novel: NovelState;
@@ -53,6 +57,7 @@ const DashboardViewComponent: React.FC<DashboardViewProps> = ({
   const [showPreGenerationAnalysis, setShowPreGenerationAnalysis] = useState(false);
   const [showPostGenerationSummary, setShowPostGenerationSummary] = useState(false);
   const prevGeneratingRef = useRef(isGenerating);
+  const { role, can } = useNovelPermissions(novel);
 
   // Track when generation completes to show summary
   useEffect(() => {
@@ -198,6 +203,8 @@ const DashboardViewComponent: React.FC<DashboardViewProps> = ({
       >
         {/* API Key Tester - Show at top for easy access */}
         <ApiKeyTester />
+        <LlmProviderSettings />
+        <UsageDashboard novelId={novel.id} novelTitle={novel.title} />
 
         {/* Tribulation Gates Section - Interactive Story Features */}
         <section className="space-y-4 lg:space-y-6">
@@ -536,47 +543,31 @@ const DashboardViewComponent: React.FC<DashboardViewProps> = ({
               />
             </div>
           )}
-          <div className="space-y-5">
-            <div>
-              <label className="block text-sm font-semibold text-zinc-400 uppercase tracking-wide mb-2">
-                Optional Instructions
-              </label>
-              <textarea
-                value={instruction}
-                onChange={(e) => onInstructionChange(e.target.value)}
-                placeholder="Add specific instructions for this chapter (e.g., 'Focus on character development' or 'Introduce a new antagonist')..."
-                className="w-full bg-zinc-950/50 border border-zinc-700/50 rounded-xl p-4 text-sm text-zinc-200 h-28 font-serif-novel resize-none focus:border-amber-600/50 focus:ring-2 focus:ring-amber-600/20 outline-none transition-all placeholder:text-zinc-600"
-                disabled={isGenerating}
-                aria-label="Chapter generation instructions"
-                aria-describedby="instruction-description"
-              />
-              <span id="instruction-description" className="sr-only">
-                Optional instructions to guide the AI in generating the next chapter
-              </span>
-            </div>
-            <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                onClick={() => onGenerateChapter(instruction)}
-                disabled={isGenerating || (gapAnalysis.summary.critical > 0 && !showPreGenerationAnalysis)}
-                className="flex-1 bg-gradient-to-r from-amber-600 to-amber-500 hover:from-amber-500 hover:to-amber-400 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 px-8 rounded-xl transition-all duration-200 shadow-xl shadow-amber-900/30 hover:shadow-2xl hover:shadow-amber-900/40 hover:scale-[1.01] disabled:hover:scale-100 text-lg"
-                aria-label={isGenerating ? `Generating chapter, ${generationProgress}% complete` : 'Generate next chapter'}
-                {...(isGenerating && { 'aria-busy': 'true' })}
-              >
-                {isGenerating ? (
-                  <span className="flex items-center justify-center gap-3">
-                    <span className="animate-spin rounded-full h-5 w-5 border-2 border-white/30 border-t-white"></span>
-                    <span>Generating... ({generationProgress}%)</span>
-                  </span>
-                ) : (
-                  'Generate Next Chapter'
-                )}
-              </button>
-              {onBatchGenerate && (
+          {can('generate') ? (
+            <div className="space-y-5">
+              <div>
+                <label className="block text-sm font-semibold text-zinc-400 uppercase tracking-wide mb-2">
+                  Optional Instructions
+                </label>
+                <textarea
+                  value={instruction}
+                  onChange={(e) => onInstructionChange(e.target.value)}
+                  placeholder="Add specific instructions for this chapter (e.g., 'Focus on character development' or 'Introduce a new antagonist')..."
+                  className="w-full bg-zinc-950/50 border border-zinc-700/50 rounded-xl p-4 text-sm text-zinc-200 h-28 font-serif-novel resize-none focus:border-amber-600/50 focus:ring-2 focus:ring-amber-600/20 outline-none transition-all placeholder:text-zinc-600"
+                  disabled={isGenerating}
+                  aria-label="Chapter generation instructions"
+                  aria-describedby="instruction-description"
+                />
+                <span id="instruction-description" className="sr-only">
+                  Optional instructions to guide the AI in generating the next chapter
+                </span>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
                 <button
-                  onClick={() => onBatchGenerate(instruction)}
+                  onClick={() => onGenerateChapter(instruction)}
                   disabled={isGenerating || (gapAnalysis.summary.critical > 0 && !showPreGenerationAnalysis)}
-                  className="flex-1 bg-gradient-to-r from-amber-700 to-amber-600 hover:from-amber-600 hover:to-amber-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 px-8 rounded-xl transition-all duration-200 shadow-xl shadow-amber-900/30 hover:shadow-2xl hover:shadow-amber-900/40 hover:scale-[1.01] disabled:hover:scale-100 text-lg"
-                  aria-label={isGenerating ? `Generating batch, ${generationProgress}% complete` : 'Generate batch of 5 chapters'}
+                  className="flex-1 bg-gradient-to-r from-amber-600 to-amber-500 hover:from-amber-500 hover:to-amber-400 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 px-8 rounded-xl transition-all duration-200 shadow-xl shadow-amber-900/30 hover:shadow-2xl hover:shadow-amber-900/40 hover:scale-[1.01] disabled:hover:scale-100 text-lg"
+                  aria-label={isGenerating ? `Generating chapter, ${generationProgress}% complete` : 'Generate next chapter'}
                   {...(isGenerating && { 'aria-busy': 'true' })}
                 >
                   {isGenerating ? (
@@ -585,23 +576,45 @@ const DashboardViewComponent: React.FC<DashboardViewProps> = ({
                       <span>Generating... ({generationProgress}%)</span>
                     </span>
                   ) : (
-                    'Generate Batch (5 Chapters)'
+                    'Generate Next Chapter'
                   )}
                 </button>
+                {onBatchGenerate && (
+                  <button
+                    onClick={() => onBatchGenerate(instruction)}
+                    disabled={isGenerating || (gapAnalysis.summary.critical > 0 && !showPreGenerationAnalysis)}
+                    className="flex-1 bg-gradient-to-r from-amber-700 to-amber-600 hover:from-amber-600 hover:to-amber-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 px-8 rounded-xl transition-all duration-200 shadow-xl shadow-amber-900/30 hover:shadow-2xl hover:shadow-amber-900/40 hover:scale-[1.01] disabled:hover:scale-100 text-lg"
+                    aria-label={isGenerating ? `Generating batch, ${generationProgress}% complete` : 'Generate batch of 5 chapters'}
+                    {...(isGenerating && { 'aria-busy': 'true' })}
+                  >
+                    {isGenerating ? (
+                      <span className="flex items-center justify-center gap-3">
+                        <span className="animate-spin rounded-full h-5 w-5 border-2 border-white/30 border-t-white"></span>
+                        <span>Generating... ({generationProgress}%)</span>
+                      </span>
+                    ) : (
+                      'Generate Batch (5 Chapters)'
+                    )}
+                  </button>
+                )}
+              </div>
+              {isGenerating && generationStatus && (
+                <p className="text-sm text-zinc-400 text-center font-medium">{generationStatus}</p>
+              )}
+              {gapAnalysis.summary.critical > 0 && !showPreGenerationAnalysis && (
+                <div className="bg-red-950/20 border border-red-600/30 rounded-xl p-3 flex items-start gap-2">
+                  <span className="text-red-400 text-lg">⚠️</span>
+                  <p className="text-sm text-red-300 flex-1">
+                    {gapAnalysis.summary.critical} critical gap{gapAnalysis.summary.critical !== 1 ? 's' : ''} detected. Review before generating.
+                  </p>
+                </div>
               )}
             </div>
-            {isGenerating && generationStatus && (
-              <p className="text-sm text-zinc-400 text-center font-medium">{generationStatus}</p>
-            )}
-            {gapAnalysis.summary.critical > 0 && !showPreGenerationAnalysis && (
-              <div className="bg-red-950/20 border border-red-600/30 rounded-xl p-3 flex items-start gap-2">
-                <span className="text-red-400 text-lg">⚠️</span>
-                <p className="text-sm text-red-300 flex-1">
-                  {gapAnalysis.summary.critical} critical gap{gapAnalysis.summary.critical !== 1 ? 's' : ''} detected. Review before generating.
-                </p>
-              </div>
-            )}
-          </div>
+          ) : (
+            <p className="text-sm text-zinc-500 italic">
+              You are a {ROLE_LABELS[role].toLowerCase()} on this novel; only authors can generate chapters.
+            </p>
+          )}
         </section>
 
         {/* Post-Generation Summary */}
@@ -661,12 +674,14 @@ const DashboardViewComponent: React.FC<DashboardViewProps> = ({
               <div className="text-3xl xs:text-4xl mb-2 xs:mb-3">📊</div>
               <h4 className="text-base xs:text-lg font-semibold text-zinc-300 mb-1 xs:mb-2">No Analysis Data Yet</h4>
               <p className="text-xs xs:text-sm text-zinc-500 mb-3 xs:mb-4">Generate chapters to unlock world-class analysis tools</p>
-              <button
-                onClick={() => onGenerateChapter()}
-                className="inline-flex items-center gap-2 px-3 xs:px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg font-semibold text-xs xs:text-sm transition-all"
-              >
-                Generate First Chapter
-              </button>
+              {can('generate') && (
+                <button
+                  onClick={() => onGenerateChapter()}
+                  className="inline-flex items-center gap-2 px-3 xs:px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg font-semibold text-xs xs:text-sm transition-all"
+                >
+                  Generate First Chapter
+                </button>
+              )}
             </div>
           ) : (
             <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-5 gap-2 xs:gap-3 md:gap-4">
@@ -0,0 +1,186 @@
+/**
+ * Members View Component
+ * Who the active novel is shared with and in which role; authors invite
+ * people by email, change their roles and remove them
+ */
+
+import React, { memo, useCallback, useEffect, useState } from 'react';
+import type { NovelState } from '../../types';
+import type { NovelMember, NovelRole } from '../../types/membership';
+import { useToast } from '../../contexts/ToastContext';
+import { useNovelPermissions } from '../../hooks/useNovelPermissions';
+import { fetchMembers, inviteMember, removeMember, updateMemberRole } from '../../services/membershipService';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '../../services/permissionService';
+import { AUTHENTICATION_ENABLED } from '../../config/supabase';
+
+interface MembersViewProps {
+  novel: NovelState;
+}
+
+const ROLES: NovelRole[] = ['author', 'co_writer', 'editor', 'beta_reader'];
+
+const inputClass =
+  'bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none';
+const buttonClass =
+  'px-3 py-1.5 rounded-lg text-xs font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+const MembersViewComponent: React.FC<MembersViewProps> = ({ novel }) => {
+  const { showSuccess, showError } = useToast();
+  const { role, can } = useNovelPermissions(novel);
+  const canManage = can('manage_members');
+  const [members, setMembers] = useState<NovelMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<NovelRole>('editor');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setMembers(await fetchMembers(novel.id));
+    } catch (error: any) {
+      showError(error.message || 'Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [novel.id, showError]);
+
+  useEffect(() => {
+    if (AUTHENTICATION_ENABLED) load();
+  }, [load]);
+
+  const handleInvite = useCallback(async () => {
+    const address = email.trim();
+    if (!/^[^\s@]+@[^\s@]+$/.test(address)) {
+      showError('Enter the email address to invite');
+      return;
+    }
+    if (members.some(m => m.email === address.toLowerCase())) {
+      showError(`${address} is already invited`);
+      return;
+    }
+    try {
+      const member = await inviteMember(novel.id, address, inviteRole);
+      setMembers(prev => [...prev, member]);
+      setEmail('');
+      showSuccess(`Invited ${member.email} as ${ROLE_LABELS[member.role].toLowerCase()}`);
+    } catch (error: any) {
+      showError(error.message || 'Failed to invite member');
+    }
+  }, [email, inviteRole, members, novel.id, showError, showSuccess]);
+
+  const handleRoleChange = useCallback(async (member: NovelMember, nextRole: NovelRole) => {
+    try {
+      const updated = await updateMemberRole(member.id, nextRole);
+      setMembers(prev => prev.map(m => m.id === updated.id ? updated : m));
+    } catch (error: any) {
+      showError(error.message || 'Failed to change role');
+    }
+  }, [showError]);
+
+  const handleRemove = useCallback(async (member: NovelMember) => {
+    if (!window.confirm(`Remove ${member.email} from "${novel.title}"?`)) return;
+    try {
+      await removeMember(member.id);
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+    } catch (error: any) {
+      showError(error.message || 'Failed to remove member');
+    }
+  }, [novel.title, showError]);
+
+  return (
+    <div
+      className="p-3 xs:p-4 md:p-8 lg:p-12 max-w-5xl mx-auto space-y-8"
+      style={{ paddingTop: 'max(4rem, calc(env(safe-area-inset-top, 1rem) + 3.5rem))' }}
+    >
+      <div className="border-b border-zinc-700 pb-4 xs:pb-6">
+        <h2 className="text-xl xs:text-2xl md:text-3xl font-fantasy font-bold text-amber-500 tracking-wider uppercase">Members</h2>
+        <p className="text-sm text-zinc-400 mt-2">
+          You are the {ROLE_LABELS[role].toLowerCase()} of this novel: {ROLE_DESCRIPTIONS[role].toLowerCase()}.
+        </p>
+      </div>
+
+      {!AUTHENTICATION_ENABLED ? (
+        <p className="text-sm text-zinc-500">
+          Sign-in is disabled, so everyone using this app is the author. Enable authentication
+          (see AUTHENTICATION_DISABLED.md) to share the novel with co-writers, editors and beta readers.
+        </p>
+      ) : (
+        <>
+          {canManage && (
+            <section className="bg-zinc-900 border border-zinc-700 rounded-xl p-4 space-y-3">
+              <h3 className="text-sm font-bold text-zinc-400 uppercase tracking-wide">Invite</h3>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={e => setEmail(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') handleInvite(); }}
+                  placeholder="name@example.com"
+                  className={`${inputClass} flex-1`}
+                  aria-label="Email to invite"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={e => setInviteRole(e.target.value as NovelRole)}
+                  className={inputClass}
+                  aria-label="Role of the invited member"
+                >
+                  {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button
+                  onClick={handleInvite}
+                  disabled={!email.trim()}
+                  className={`${buttonClass} bg-amber-600 hover:bg-amber-500 text-white`}
+                >
+                  Invite
+                </button>
+              </div>
+              <p className="text-xs text-zinc-500">{ROLE_DESCRIPTIONS[inviteRole]}. They join the next time they sign in with this email.</p>
+            </section>
+          )}
+
+          <section className="space-y-2">
+            {isLoading ? (
+              <p className="text-sm text-zinc-500">Loading members...</p>
+            ) : members.length === 0 ? (
+              <p className="text-sm text-zinc-500 italic">Not shared with anyone yet.</p>
+            ) : (
+              members.map(member => (
+                <div key={member.id} className="bg-zinc-900 border border-zinc-700 rounded-xl p-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-zinc-200 truncate">{member.email}</p>
+                    <p className="text-xs text-zinc-500">
+                      {member.acceptedAt ? `Joined ${new Date(member.acceptedAt).toLocaleDateString()}` : 'Invitation pending'}
+                    </p>
+                  </div>
+                  {canManage ? (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={e => handleRoleChange(member, e.target.value as NovelRole)}
+                        className={inputClass}
+                        aria-label={`Role of ${member.email}`}
+                      >
+                        {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                      </select>
+                      <button
+                        onClick={() => handleRemove(member)}
+                        className={`${buttonClass} bg-zinc-800 hover:bg-red-900/50 text-red-400 border border-zinc-700`}
+                      >
+                        Remove
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-zinc-400">{ROLE_LABELS[member.role]}</span>
+                  )}
+                </div>
+              ))
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default memo(MembersViewComponent);
@@ -0,0 +1,278 @@
+/**
+ * Universe View Component
+ * Links the active novel to a shared universe, shows its per-novel overrides,
+ * and starts the next book of the series
+ */
+
+import React, { memo, useMemo, useState } from 'react';
+import type { NovelState } from '../../types';
+import type { UniverseCollection } from '../../types/universe';
+import { useNovel } from '../../contexts/NovelContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useUniverses } from '../../hooks/useUniverses';
+import {
+  COLLECTION_LABELS,
+  UNIVERSE_COLLECTIONS,
+  createUniverseFromNovel,
+  getUniverseOverrides,
+  getUnsharedEntities,
+  publishToUniverse,
+  revertToUniverse,
+  syncNovelWithUniverse,
+} from '../../services/universeInheritanceService';
+import { createSequel } from '../../services/sequelService';
+
+interface UniverseViewProps {
+  novel: NovelState;
+}
+
+const inputClass =
+  'bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:border-amber-500 focus:outline-none';
+const buttonClass =
+  'px-3 py-1.5 rounded-lg text-xs font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+const UniverseViewComponent: React.FC<UniverseViewProps> = ({ novel }) => {
+  const { library, updateActiveNovel, importNovel } = useNovel();
+  const { showSuccess, showInfo } = useToast();
+  const { universes, isLoading, persistUniverse } = useUniverses();
+  const [newUniverseName, setNewUniverseName] = useState('');
+  const [selectedUniverseId, setSelectedUniverseId] = useState('');
+  const [sequelTitle, setSequelTitle] = useState('');
+  const [lastChanges, setLastChanges] = useState<string[]>([]);
+
+  const universe = universes.find(u => u.id === novel.universeLink?.universeId);
+  const overrides = useMemo(() => getUniverseOverrides(novel), [novel]);
+  const unshared = useMemo(() => getUnsharedEntities(novel), [novel]);
+  const siblings = useMemo(
+    () => library.filter(n => n.id !== novel.id && universe && n.universeLink?.universeId === universe.id),
+    [library, novel.id, universe]
+  );
+
+  const handleCreateUniverse = async () => {
+    const result = createUniverseFromNovel(novel, newUniverseName || novel.title);
+    if (await persistUniverse(result.universe)) {
+      updateActiveNovel(() => result.novel);
+      setNewUniverseName('');
+      showSuccess(`Universe "${result.universe.name}" created from this novel`);
+    }
+  };
+
+  const handleSync = (universeId: string) => {
+    const target = universes.find(u => u.id === universeId);
+    if (!target) return;
+    const result = syncNovelWithUniverse(novel, target);
+    updateActiveNovel(() => result.novel);
+    setLastChanges(result.changes);
+    if (result.changes.length === 0) showInfo('Already up to date with the universe');
+    else showSuccess(`${result.changes.length} change(s) from "${target.name}"`);
+  };
+
+  const handlePublish = async (collection: UniverseCollection, novelEntityId: string) => {
+    if (!universe) return;
+    const result = publishToUniverse(novel, universe, collection, novelEntityId);
+    if (await persistUniverse(result.universe)) {
+      updateActiveNovel(() => result.novel);
+    }
+  };
+
+  const handleRevert = (collection: UniverseCollection, novelEntityId: string) => {
+    if (!universe) return;
+    updateActiveNovel(prev => revertToUniverse(prev, universe, collection, novelEntityId));
+  };
+
+  const handleUnlink = () => {
+    updateActiveNovel(prev => ({ ...prev, universeLink: undefined, updatedAt: Date.now() }));
+    setLastChanges([]);
+  };
+
+  const handleStartSequel = async () => {
+    const sequel = createSequel(novel, sequelTitle);
+    setSequelTitle('');
+    await importNovel(sequel);
+  };
+
+  return (
+    <div
+      className="p-3 xs:p-4 md:p-8 lg:p-12 max-w-5xl mx-auto space-y-8"
+      style={{ paddingTop: 'max(4rem, calc(env(safe-area-inset-top, 1rem) + 3.5rem))' }}
+    >
+      <div className="border-b border-zinc-700 pb-4 xs:pb-6">
+        <h2 className="text-xl xs:text-2xl md:text-3xl font-fantasy font-bold text-amber-500 tracking-wider uppercase">Universe</h2>
+        {novel.series && (
+          <p className="text-sm text-zinc-400 mt-2">
+            Book {novel.series.bookNumber}, continuing "{novel.series.predecessorTitle}"
+          </p>
+        )}
+      </div>
+
+      {/* Link */}
+      <section className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-zinc-500">Loading universes...</p>
+        ) : universe ? (
+          <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-4 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <h3 className="text-lg font-fantasy font-bold text-zinc-100">🌌 {universe.name}</h3>
+                <p className="text-xs text-zinc-500">
+                  {UNIVERSE_COLLECTIONS.map(c => `${universe[c].length} ${COLLECTION_LABELS[c].toLowerCase()}`).join(' · ')}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => handleSync(universe.id)} className={`${buttonClass} bg-amber-600 hover:bg-amber-500 text-white`}>
+                  Sync from universe
+                </button>
+                <button onClick={handleUnlink} className={`${buttonClass} bg-zinc-700 hover:bg-zinc-600 text-zinc-200`}>
+                  Unlink
+                </button>
+              </div>
+            </div>
+            <textarea
+              key={universe.id}
+              defaultValue={universe.description}
+              placeholder="What ties the books of this universe together"
+              rows={2}
+              onBlur={e => {
+                if (e.target.value !== universe.description) {
+                  void persistUniverse({ ...universe, description: e.target.value, updatedAt: Date.now() });
+                }
+              }}
+              className={`w-full ${inputClass}`}
+            />
+            {siblings.length > 0 && (
+              <p className="text-xs text-zinc-400">Also in this universe: {siblings.map(n => n.title).join(', ')}</p>
+            )}
+            {lastChanges.length > 0 && (
+              <ul className="text-xs text-zinc-400 space-y-0.5 max-h-40 overflow-y-auto">
+                {lastChanges.map((change, i) => <li key={i}>• {change}</li>)}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-4 space-y-3">
+              <h3 className="text-sm font-semibold text-zinc-300">Join a universe</h3>
+              <p className="text-xs text-zinc-500">Inherit its realms, characters, techniques and power ladders. Entities with matching names are linked instead of copied.</p>
+              <div className="flex gap-2">
+                <select
+                  value={selectedUniverseId}
+                  onChange={e => setSelectedUniverseId(e.target.value)}
+                  className={`flex-1 ${inputClass}`}
+                >
+                  <option value="">Select a universe</option>
+                  {universes.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                </select>
+                <button
+                  onClick={() => handleSync(selectedUniverseId)}
+                  disabled={!selectedUniverseId}
+                  className={`${buttonClass} bg-amber-600 hover:bg-amber-500 text-white`}
+                >
+                  Link
+                </button>
+              </div>
+            </div>
+            <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-4 space-y-3">
+              <h3 className="text-sm font-semibold text-zinc-300">Start a universe from this novel</h3>
+              <p className="text-xs text-zinc-500">Its realms, world entries, characters, techniques and power ladders become shared.</p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newUniverseName}
+                  placeholder={novel.title}
+                  onChange={e => setNewUniverseName(e.target.value)}
+                  className={`flex-1 ${inputClass}`}
+                />
+                <button onClick={handleCreateUniverse} className={`${buttonClass} bg-amber-600 hover:bg-amber-500 text-white`}>
+                  Create
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* Overrides */}
+      {universe && (
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-zinc-300 uppercase tracking-wide">Per-novel overrides</h3>
+          {overrides.length === 0 ? (
+            <p className="text-sm text-zinc-500">This novel follows the universe everywhere.</p>
+          ) : (
+            overrides.map(override => (
+              <div key={`${override.collection}:${override.novelEntityId}`} className="flex items-center justify-between gap-3 bg-zinc-900 border border-zinc-800 rounded-lg px-4 py-2">
+                <div>
+                  <span className="text-sm text-zinc-200">{override.label}</span>
+                  <span className="text-xs text-zinc-500 ml-2">{COLLECTION_LABELS[override.collection]} · {override.fields.join(', ')}</span>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handlePublish(override.collection, override.novelEntityId)}
+                    className={`${buttonClass} bg-zinc-700 hover:bg-zinc-600 text-zinc-200`}
+                    title="Make this novel's version the universe's"
+                  >
+                    Publish
+                  </button>
+                  <button
+                    onClick={() => handleRevert(override.collection, override.novelEntityId)}
+                    className={`${buttonClass} bg-zinc-700 hover:bg-zinc-600 text-zinc-200`}
+                    title="Follow the universe again"
+                  >
+                    Revert
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+
+          {unshared.length > 0 && (
+            <details className="bg-zinc-900/50 border border-zinc-800 rounded-lg px-4 py-2">
+              <summary className="text-sm text-zinc-400 cursor-pointer">{unshared.length} entities only in this novel</summary>
+              <div className="mt-2 space-y-1">
+                {unshared.map(entity => (
+                  <div key={`${entity.collection}:${entity.id}`} className="flex items-center justify-between text-sm">
+                    <span className="text-zinc-300">
+                      {entity.label} <span className="text-xs text-zinc-500">{COLLECTION_LABELS[entity.collection]}</span>
+                    </span>
+                    <button
+                      onClick={() => handlePublish(entity.collection, entity.id)}
+                      className="text-xs text-amber-500 hover:text-amber-400"
+                    >
+                      Share with universe
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+        </section>
+      )}
+
+      {/* Sequel */}
+      <section className="bg-zinc-900 border border-zinc-700 rounded-xl p-4 space-y-3">
+        <h3 className="text-sm font-semibold text-zinc-300">Start the next book</h3>
+        <p className="text-xs text-zinc-500">
+          Creates Book {(novel.series?.bookNumber ?? 1) + 1} from the state at the end of Chapter {novel.chapters.length}: the world, cast,
+          cultivation levels, techniques, items and secrets carry over, and the final lore bible opens the new book.
+        </p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={sequelTitle}
+            placeholder={`${novel.title} II`}
+            onChange={e => setSequelTitle(e.target.value)}
+            className={`flex-1 ${inputClass}`}
+          />
+          <button
+            onClick={handleStartSequel}
+            disabled={novel.chapters.length === 0}
+            className={`${buttonClass} bg-amber-600 hover:bg-amber-500 text-white`}
+          >
+            Create sequel
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default memo(UniverseViewComponent);
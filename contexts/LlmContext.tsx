@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { getProviderConfig } from '../services/llmProviders';
 
 /**
  * LLM Context - Simplified Two-Model Architecture
@@ -16,9 +17,12 @@ import React, { createContext, useContext, useEffect, useMemo, useState } from '
  * 
  * The model selection is handled automatically by the Model Orchestrator based on task type.
  * This context primarily tracks user preferences and provides UI state.
+ *
+ * Any provider registered in services/llmProviders (e.g. a local OpenAI-compatible
+ * server) is a valid LlmId.
  */
 
-export type LlmId = 'deepseek' | 'gemini';
+export type LlmId = 'deepseek' | 'gemini' | (string & {});
 
 export type LlmRole = 'writer' | 'clerk';
 
@@ -30,7 +34,7 @@ const STORAGE_KEY = 'apexforge.llm';
 export function getStoredLlm(): LlmId {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw === 'deepseek' || raw === 'gemini') return raw;
+    if (raw && getProviderConfig(raw)) return raw;
   } catch {
     // localStorage may be blocked
   }
@@ -58,7 +62,7 @@ export function getLlmDisplayName(llm: LlmId): string {
     case 'gemini':
       return 'Gemini Flash (The Clerk)';
     default:
-      return 'Unknown';
+      return getProviderConfig(llm)?.name || 'Unknown';
   }
 }
 
@@ -79,7 +83,7 @@ export function getLlmDescription(llm: LlmId): string {
     case 'gemini':
       return 'Fast and accurate. Used for state extraction, metadata processing, and Lore Bible updates.';
     default:
-      return '';
+      return getProviderConfig(llm)?.description || '';
   }
 }
 
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, type ReactNode } from 'react';
 import type { Chapter, NovelState, ViewType } from '../types';
+import type { MergeResolutions } from '../types/novelMerge';
 
 /**
  * Context type for novel actions (stable functions that don't change)
@@ -13,11 +14,13 @@ export interface NovelActionsContextType {
   setActiveChapterId: (id: string | null) => void;
   updateActiveNovel: (updater: (prev: NovelState) => NovelState) => void;
   createNovel: (title: string, genre: string) => Promise<void>;
+  importNovel: (novel: NovelState) => Promise<void>;
   deleteNovelById: (id: string) => Promise<void>;
   deleteChapterById: (chapterId: string) => Promise<void>;
   saveChapter: (updatedChapter: Chapter) => Promise<void>;
   loadNovels: () => Promise<void>;
   syncNow: () => Promise<void>;
+  resolveSyncConflict: (novelId: string, choice: MergeResolutions | 'local' | 'remote') => Promise<void>;
 }
 
 const NovelActionsContext = createContext<NovelActionsContextType | undefined>(undefined);
@@ -36,6 +39,7 @@ const NovelActionsContext = createContext<NovelActionsContextType | undefined>(u
  * - setActiveChapterId: Set the active chapter ID
  * - updateActiveNovel: Update the active novel using an updater function
  * - createNovel: Create a new novel
+ * - importNovel: Add an imported or restored novel to the library
  * - deleteNovelById: Delete a novel by ID
  * - deleteChapterById: Delete a chapter by ID
  * - saveChapter: Save a chapter
@@ -9,17 +9,29 @@ import React, {
   type ReactNode,
 } from 'react';
 import type { Chapter, NovelState, ViewType } from '../types';
+import type { MergeResolutions } from '../types/novelMerge';
 import { deleteChapter, deleteNovel } from '../services/supabaseService';
 import { useToast } from './ToastContext';
 import { logger } from '../services/loggingService';
 import { INITIAL_NOVEL_STATE } from '../constants';
 import { novelChangeTracker } from '../utils/novelTracking';
-import { enqueueSaveNovel, getSyncStateSnapshot, loadMergedLibrary, syncPendingToCloud, removePendingSync } from '../services/novelSyncService';
+import {
+  enqueueSaveNovel,
+  getSyncStateSnapshot,
+  loadMergedLibrary,
+  syncPendingToCloud,
+  removePendingSync,
+  resolveConflictAcceptLocal,
+  resolveConflictAcceptRemote,
+  resolveConflictWithChoices,
+  type ConflictInfo,
+} from '../services/novelSyncService';
 import { indexedDbService } from '../services/indexedDbService';
 import { clearImprovementHistory } from '../services/improvementHistoryService';
 import { getChapterSnapshot, deleteChapterSnapshot } from '../services/chapterStateSnapshotService';
 import { rollbackChapterChanges } from '../services/chapterRollbackService';
 import { detectDependentChapters, markChaptersForRegeneration } from '../services/chapterDependencyAnalyzer';
+import { indexChapter } from '../services/searchService';
 import { NovelDataProvider, type NovelDataContextType } from './NovelDataContext';
 import { NovelActionsProvider, type NovelActionsContextType } from './NovelActionsContext';
 
@@ -38,6 +50,7 @@ interface NovelContextType {
   pendingSyncCount: number;
   lastSuccessfulCloudSyncAt: number | null;
   lastCloudErrorMessage: string | null;
+  syncConflicts: ConflictInfo[];
   
   // Active novel/chapter getters
   activeNovel: NovelState | undefined;
@@ -53,11 +66,13 @@ interface NovelContextType {
   setActiveChapterId: (id: string | null) => void;
   updateActiveNovel: (updater: (prev: NovelState) => NovelState) => void;
   createNovel: (title: string, genre: string) => Promise<void>;
+  importNovel: (novel: NovelState) => Promise<void>;
   deleteNovelById: (id: string) => Promise<void>;
   deleteChapterById: (chapterId: string) => Promise<void>;
   saveChapter: (updatedChapter: Chapter) => Promise<void>;
   loadNovels: () => Promise<void>;
   syncNow: () => Promise<void>;
+  resolveSyncConflict: (novelId: string, choice: MergeResolutions | 'local' | 'remote') => Promise<void>;
 }
 
 export const NovelContext = createContext<NovelContextType | undefined>(undefined);
@@ -73,7 +88,7 @@ export const NovelContext = createContext<NovelContextType | undefined>(undefine
  * - Connectivity: isOnline, cloudAvailable, pendingSyncCount, sync timestamps
  * - Computed: activeNovel, activeChapter, novelsCount, totalChaptersCount
  * - Actions: setActiveNovelId, setView, setActiveChapterId, updateActiveNovel,
- *   createNovel, deleteNovelById, deleteChapterById, saveChapter, loadNovels, syncNow
+ *   createNovel, importNovel, deleteNovelById, deleteChapterById, saveChapter, loadNovels, syncNow
  * 
  * @throws {Error} If used outside of a NovelProvider
  * 
@@ -124,6 +139,7 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
   const [lastCloudErrorMessage, setLastCloudErrorMessage] = useState<string | null>(
     () => getSyncStateSnapshot().lastCloudErrorMessage
   );
+  const [syncConflicts, setSyncConflicts] = useState<ConflictInfo[]>(() => getSyncStateSnapshot().conflicts);
 
   const saveTimeoutRef = useRef<number | null>(null);
   const didInitialLoadRef = useRef(false);
@@ -153,6 +169,7 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
     setPendingSyncCount(snap.pendingSyncCount);
     setLastSuccessfulCloudSyncAt(snap.lastSuccessfulCloudSyncAt);
     setLastCloudErrorMessage(snap.lastCloudErrorMessage);
+    setSyncConflicts(snap.conflicts);
   }, []);
 
   const updateActiveNovel = useCallback((updater: (prev: NovelState) => NovelState) => {
@@ -283,6 +300,28 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
     }
   }, [refreshSyncSnapshot, showError, showSuccess, showWarning]);
 
+  const importNovel = useCallback(async (novel: NovelState) => {
+    setLibrary((prev) => [...prev.filter((n) => n.id !== novel.id), novel]);
+    setActiveNovelId(novel.id);
+    setView('dashboard');
+
+    setIsSaving(true);
+    try {
+      const res = await enqueueSaveNovel(novel);
+      refreshSyncSnapshot();
+      if (!res.supabaseSuccess && res.localSuccess) {
+        showWarning('Imported to local backup only (offline mode).');
+      } else {
+        showSuccess(`Imported "${novel.title}"`);
+      }
+    } catch (error) {
+      logger.error('Error saving imported novel', 'novelSync', error instanceof Error ? error : new Error(String(error)));
+      showError('Failed to save imported novel. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [refreshSyncSnapshot, showError, showSuccess, showWarning]);
+
   const deleteNovelById = useCallback(async (id: string) => {
     const deletionSteps: { step: string; success: boolean; error?: Error }[] = [];
     
@@ -639,6 +678,7 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
     };
     
     updateActiveNovel(() => updatedNovel);
+    indexChapter(activeNovel.id, updatedChapter);
     
     setIsSaving(true);
     try {
@@ -673,6 +713,35 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
     }
   }, [library, refreshSyncSnapshot, showSuccess, showWarning]);
 
+  const resolveSyncConflict = useCallback(async (novelId: string, choice: MergeResolutions | 'local' | 'remote') => {
+    const localNovel = library.find((n) => n.id === novelId);
+    try {
+      let resolved: NovelState | null = null;
+      if (choice === 'remote') {
+        resolved = await resolveConflictAcceptRemote(novelId);
+      } else if (choice === 'local') {
+        if (localNovel) {
+          resolved = { ...localNovel, updatedAt: Date.now() };
+          await resolveConflictAcceptLocal(novelId, resolved);
+        }
+      } else {
+        resolved = await resolveConflictWithChoices(novelId, choice);
+      }
+
+      if (resolved) {
+        const novel = resolved;
+        setLibrary((prev) => prev.map((n) => (n.id === novelId ? novel : n)));
+        novelChangeTracker.updateOriginal(novel);
+      }
+      refreshSyncSnapshot();
+      showSuccess('Sync conflict resolved.');
+    } catch (e) {
+      logger.error('Failed to resolve sync conflict', 'novelSync', e instanceof Error ? e : new Error(String(e)), { novelId });
+      refreshSyncSnapshot();
+      showError('Failed to resolve sync conflict.');
+    }
+  }, [library, refreshSyncSnapshot, showError, showSuccess]);
+
   // Initial load (only once; avoids double-run in StrictMode)
   useEffect(() => {
     if (didInitialLoadRef.current) return;
@@ -727,10 +796,19 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
         // Use the novels that were saved (they're already the latest from library)
         novelsToSave.forEach((novel, index) => {
           if (results[index]?.supabaseSuccess || results[index]?.localSuccess) {
-            novelChangeTracker.updateOriginal(novel);
+            novelChangeTracker.updateOriginal(results[index].mergedNovel ?? novel);
           }
         });
 
+        // Adopt changes merged in from other devices
+        const merged = results.flatMap((r) => (r.mergedNovel ? [r.mergedNovel] : []));
+        if (merged.length > 0) {
+          setLibrary((prev) => prev.map((n) => merged.find((m) => m.id === n.id) ?? n));
+        }
+        if (results.some((r) => r.conflicted)) {
+          showWarning('Another device changed the same content. Resolve the sync conflicts to keep syncing.');
+        }
+
         const anyLocalOnly = results.some((r) => !r.supabaseSuccess && r.localSuccess);
         if (anyLocalOnly) {
           showWarning('Saved to local backup only (offline mode).');
@@ -765,6 +843,7 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
       pendingSyncCount,
       lastSuccessfulCloudSyncAt,
       lastCloudErrorMessage,
+      syncConflicts,
       activeNovel,
       activeChapter,
       novelsCount,
@@ -782,6 +861,7 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
       pendingSyncCount,
       lastSuccessfulCloudSyncAt,
       lastCloudErrorMessage,
+      syncConflicts,
       activeNovel,
       activeChapter,
       novelsCount,
@@ -797,11 +877,13 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
       setActiveChapterId,
       updateActiveNovel,
       createNovel,
+      importNovel,
       deleteNovelById,
       deleteChapterById,
       saveChapter,
       loadNovels,
       syncNow,
+      resolveSyncConflict,
     }),
     [
       setActiveNovelId,
@@ -809,11 +891,13 @@ export const NovelProvider: React.FC<NovelProviderProps> = ({ children }) => {
       setActiveChapterId,
       updateActiveNovel,
       createNovel,
+      importNovel,
       deleteNovelById,
       deleteChapterById,
       saveChapter,
       loadNovels,
       syncNow,
+      resolveSyncConflict,
     ]
   );
 
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, type ReactNode } from 'react';
 import type { Chapter, NovelState, ViewType } from '../types';
+import type { ConflictInfo } from '../services/novelSyncService';
 
 /**
  * Context type for novel data (state that changes frequently)
@@ -20,6 +21,7 @@ export interface NovelDataContextType {
   pendingSyncCount: number;
   lastSuccessfulCloudSyncAt: number | null;
   lastCloudErrorMessage: string | null;
+  syncConflicts: ConflictInfo[];
 
   // Active novel/chapter getters (computed)
   activeNovel: NovelState | undefined;
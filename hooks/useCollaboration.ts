@@ -0,0 +1,139 @@
+/**
+ * useCollaboration Hook
+ *
+ * Co-editing of one chapter's text through the local collaboration relay.
+ * Keeps the editor's content and the shared document in step, restores the
+ * local selection when collaborators' edits arrive, and resolves everyone's
+ * cursors and comment anchors against the current text.
+ */
+
+import { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback, type RefObject } from 'react';
+import type { CollabPeer, CollabStatus, CollabUser, CommentAnchor, ResolvedPeer } from '../types/collab';
+import type { TextRange } from '../types/editor';
+import { CollabSession } from '../services/collab/collabSession';
+
+const PEER_COLORS = ['#f59e0b', '#38bdf8', '#a78bfa', '#34d399', '#f472b6', '#fb923c', '#4ade80', '#e879f9'];
+
+/** Stable color per writer name */
+export function collabColorFor(name: string): string {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+interface UseCollaborationOptions {
+  /** Relay URL, e.g. ws://localhost:3001/collab */
+  url: string;
+  /** Room to join (the chapter id); nothing is shared while undefined */
+  room: string | undefined;
+  enabled: boolean;
+  userName: string;
+  content: string;
+  setContent: (content: string) => void;
+  textareaRef: RefObject<HTMLTextAreaElement | null>;
+}
+
+interface UseCollaborationResult {
+  status: CollabStatus;
+  peers: ResolvedPeer[];
+  /** Share the local selection; `text` is the editor text it refers to */
+  updateCursor: (start: number, end: number, text: string) => void;
+  anchorRange: (range: TextRange) => CommentAnchor | undefined;
+  /** Current range of an anchored comment, or undefined outside its session */
+  resolveAnchor: (anchor: CommentAnchor | undefined) => TextRange | undefined;
+}
+
+export function useCollaboration({
+  url,
+  room,
+  enabled,
+  userName,
+  content,
+  setContent,
+  textareaRef,
+}: UseCollaborationOptions): UseCollaborationResult {
+  const [status, setStatus] = useState<CollabStatus>('disabled');
+  const [rawPeers, setRawPeers] = useState<CollabPeer[]>([]);
+  const sessionRef = useRef<CollabSession | null>(null);
+  const contentRef = useRef(content);
+  const pendingSelectionRef = useRef<TextRange | null>(null);
+  contentRef.current = content;
+
+  useEffect(() => {
+    if (!enabled || !room || !url) {
+      setStatus('disabled');
+      return;
+    }
+
+    const user: CollabUser = { name: userName, color: collabColorFor(userName) };
+    const session = new CollabSession(url, room, user, () => contentRef.current, {
+      onRemoteChange: text => {
+        const textarea = textareaRef.current;
+        if (textarea && document.activeElement === textarea) {
+          pendingSelectionRef.current = session.localSelection() ?? null;
+        }
+        contentRef.current = text;
+        setContent(text);
+      },
+      onPeersChange: setRawPeers,
+      onStatusChange: setStatus,
+    });
+    sessionRef.current = session;
+    session.connect();
+
+    return () => {
+      session.disconnect();
+      sessionRef.current = null;
+      setRawPeers([]);
+    };
+  }, [url, room, enabled, userName, setContent, textareaRef]);
+
+  // Local edits from any source (typing, AI edits, voice input) become operations
+  useEffect(() => {
+    sessionRef.current?.applyLocalText(content);
+  }, [content]);
+
+  // Keep the caret on the same text after collaborators' edits
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    const textarea = textareaRef.current;
+    if (!selection || !textarea) return;
+    pendingSelectionRef.current = null;
+    textarea.setSelectionRange(selection.start, selection.end);
+  }, [content, textareaRef]);
+
+  const updateCursor = useCallback((start: number, end: number, text: string) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.applyLocalText(text);
+    session.setCursor(start, end);
+  }, []);
+
+  const peers = useMemo<ResolvedPeer[]>(() => {
+    const doc = sessionRef.current?.doc;
+    return rawPeers.map(peer => {
+      const anchor = peer.cursor && doc ? doc.absolutePosition(peer.cursor.anchor) : undefined;
+      const head = peer.cursor && doc ? doc.absolutePosition(peer.cursor.head) : undefined;
+      return {
+        clientId: peer.clientId,
+        user: peer.user,
+        selection: anchor !== undefined && head !== undefined
+          ? { start: Math.min(anchor, head), end: Math.max(anchor, head) }
+          : undefined,
+      };
+    });
+    // Positions move whenever the text does
+  }, [rawPeers, content]);
+
+  const anchorRange = useCallback((range: TextRange) => {
+    const session = sessionRef.current;
+    return session?.isSynced ? session.doc.anchorRange(range) : undefined;
+  }, []);
+
+  const resolveAnchor = useCallback((anchor: CommentAnchor | undefined) => {
+    const session = sessionRef.current;
+    return anchor && session?.isSynced ? session.doc.resolveAnchor(anchor) : undefined;
+  }, []);
+
+  return { status, peers, updateCursor, anchorRange, resolveAnchor };
+}
@@ -0,0 +1,23 @@
+/**
+ * useNovelPermissions Hook
+ *
+ * The signed-in user's role in a novel and what it allows them to do.
+ */
+
+import { useMemo } from 'react';
+import type { NovelState } from '../types';
+import type { NovelPermission, NovelRole } from '../types/membership';
+import { getNovelRole, hasPermission } from '../services/permissionService';
+
+interface UseNovelPermissionsResult {
+  role: NovelRole;
+  can: (permission: NovelPermission) => boolean;
+}
+
+export function useNovelPermissions(novel: NovelState | null | undefined): UseNovelPermissionsResult {
+  const role = getNovelRole(novel);
+  return useMemo(() => ({
+    role,
+    can: (permission: NovelPermission) => hasPermission(role, permission),
+  }), [role]);
+}
@@ -5,6 +5,7 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { ttsService, TTSOptions, TTSResult } from '../services/ttsService';
+import type { PronunciationEntry } from '../types/pronunciation';
 
 export type PlaybackState = 'idle' | 'loading' | 'playing' | 'paused' | 'error';
 
@@ -14,6 +15,7 @@ export interface UseTTSOptions {
   rate?: number;
   pitch?: number;
   volume?: number;
+  lexicon?: PronunciationEntry[];
   onStateChange?: (state: PlaybackState) => void;
   onProgress?: (progress: number) => void;
   onError?: (error: Error) => void;
@@ -55,6 +57,7 @@ export function useTextToSpeech(text: string, options: UseTTSOptions = {}): UseT
 
   const {
     provider = 'auto',
+    lexicon,
     onStateChange,
     onProgress,
     onError
@@ -159,6 +162,7 @@ export function useTextToSpeech(text: string, options: UseTTSOptions = {}): UseT
         rate,
         pitch,
         volume,
+        lexicon,
         onProgress: (prog) => {
           setProgress(prog);
           onProgress?.(prog);
@@ -184,7 +188,7 @@ export function useTextToSpeech(text: string, options: UseTTSOptions = {}): UseT
       updateState('error');
       onError?.(err instanceof Error ? err : new Error(errorMessage));
     }
-  }, [text, provider, voice, rate, pitch, volume, stop, updateState, onProgress, onError, startProgressTracking, cleanup]);
+  }, [text, provider, voice, rate, pitch, volume, lexicon, stop, updateState, onProgress, onError, startProgressTracking, cleanup]);
 
   // Cleanup on unmount
   useEffect(() => {
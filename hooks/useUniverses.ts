@@ -0,0 +1,66 @@
+/**
+ * useUniverses Hook
+ *
+ * Loads the current user's universes and saves or deletes them, keeping the
+ * local list in step with the database.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { Universe } from '../types/universe';
+import { fetchUniverses, saveUniverse, deleteUniverse } from '../services/universeService';
+import { useToast } from '../contexts/ToastContext';
+import { logger } from '../services/loggingService';
+
+interface UseUniversesResult {
+  universes: Universe[];
+  isLoading: boolean;
+  reload: () => Promise<void>;
+  persistUniverse: (universe: Universe) => Promise<boolean>;
+  removeUniverse: (universeId: string) => Promise<void>;
+}
+
+export function useUniverses(): UseUniversesResult {
+  const { showError } = useToast();
+  const [universes, setUniverses] = useState<Universe[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setUniverses(await fetchUniverses());
+    } catch (error) {
+      logger.error('Failed to load universes', 'universe', error instanceof Error ? error : undefined);
+      showError('Failed to load universes.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const persistUniverse = useCallback(async (universe: Universe) => {
+    setUniverses(prev => [...prev.filter(u => u.id !== universe.id), universe]);
+    try {
+      await saveUniverse(universe);
+      return true;
+    } catch (error) {
+      logger.error('Failed to save universe', 'universe', error instanceof Error ? error : undefined, { universeId: universe.id });
+      showError(`Failed to save universe "${universe.name}".`);
+      return false;
+    }
+  }, [showError]);
+
+  const removeUniverse = useCallback(async (universeId: string) => {
+    try {
+      await deleteUniverse(universeId);
+      setUniverses(prev => prev.filter(u => u.id !== universeId));
+    } catch (error) {
+      logger.error('Failed to delete universe', 'universe', error instanceof Error ? error : undefined, { universeId });
+      showError('Failed to delete universe.');
+    }
+  }, [showError]);
+
+  return { universes, isLoading, reload, persistUniverse, removeUniverse };
+}
@@ -0,0 +1,105 @@
+/**
+ * Collaboration Relay
+ *
+ * WebSocket relay for co-editing chapters without a cloud service. Each chapter
+ * is a room: the relay keeps the room's CRDT operations so that late joiners
+ * catch up, forwards new operations and cursor updates to the other writers,
+ * and announces when someone leaves. It never interprets the text itself.
+ *
+ * Protocol (JSON messages, see types/collab.ts):
+ *   client -> relay: join { room, clientId, user } | ops { ops } | presence { cursor }
+ *   relay -> client: sync { ops, peers, seed } | ops { clientId, ops } | presence { peer } | leave { clientId }
+ */
+
+import { WebSocketServer } from 'ws';
+
+/** Rooms nobody is in are kept this long, so a reload does not lose unsaved edits */
+const EMPTY_ROOM_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * @param {import('http').Server} server
+ * @param {{ path?: string }} [options]
+ */
+export function attachCollabRelay(server, { path = '/collab' } = {}) {
+  const wss = new WebSocketServer({ server, path });
+  /** @type {Map<string, { ops: unknown[], seeded: boolean, peers: Map<import('ws').WebSocket, { clientId: string, user: unknown, cursor?: unknown }>, emptySince: number | null }>} */
+  const rooms = new Map();
+
+  const broadcast = (room, sender, message) => {
+    const payload = JSON.stringify(message);
+    for (const socket of room.peers.keys()) {
+      if (socket !== sender && socket.readyState === socket.OPEN) socket.send(payload);
+    }
+  };
+
+  const leave = (socket) => {
+    for (const [name, room] of rooms) {
+      const peer = room.peers.get(socket);
+      if (!peer) continue;
+      room.peers.delete(socket);
+      broadcast(room, socket, { type: 'leave', clientId: peer.clientId });
+      if (room.peers.size === 0) room.emptySince = Date.now();
+      // The peer asked for the starting text left before sending it
+      if (room.ops.length === 0) room.seeded = false;
+      console.log(`✍️  ${peer.clientId} left ${name} (${room.peers.size} remaining)`);
+    }
+  };
+
+  wss.on('connection', (socket) => {
+    /** @type {string | null} */
+    let roomName = null;
+
+    socket.on('message', (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+
+      if (message.type === 'join' && typeof message.room === 'string') {
+        if (roomName) leave(socket);
+        roomName = message.room;
+        let room = rooms.get(roomName);
+        if (!room) {
+          room = { ops: [], seeded: false, peers: new Map(), emptySince: null };
+          rooms.set(roomName, room);
+        }
+        // Only one peer provides the starting text; the rest receive it
+        const seed = !room.seeded;
+        room.seeded = true;
+        const peer = { clientId: String(message.clientId), user: message.user };
+        socket.send(JSON.stringify({ type: 'sync', ops: room.ops, peers: [...room.peers.values()], seed }));
+        room.peers.set(socket, peer);
+        room.emptySince = null;
+        broadcast(room, socket, { type: 'presence', peer });
+        console.log(`✍️  ${peer.clientId} joined ${roomName} (${room.peers.size} editing)`);
+        return;
+      }
+
+      const room = roomName ? rooms.get(roomName) : undefined;
+      const peer = room?.peers.get(socket);
+      if (!room || !peer) return;
+
+      if (message.type === 'ops' && Array.isArray(message.ops)) {
+        room.ops.push(...message.ops);
+        broadcast(room, socket, { type: 'ops', clientId: peer.clientId, ops: message.ops });
+      } else if (message.type === 'presence') {
+        peer.cursor = message.cursor;
+        broadcast(room, socket, { type: 'presence', peer });
+      }
+    });
+
+    socket.on('close', () => leave(socket));
+  });
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [name, room] of rooms) {
+      if (room.emptySince !== null && now - room.emptySince > EMPTY_ROOM_TTL_MS) rooms.delete(name);
+    }
+  }, 60 * 1000);
+  sweep.unref();
+
+  return wss;
+}
@@ -19,6 +19,7 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { attachCollabRelay } from './collabRelay.js';
 
 // Load environment variables from .env.local
 const __filename = fileURLToPath(import.meta.url);
@@ -70,7 +71,7 @@ app.get('/', (req, res) => {
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Proxy Server running on http://localhost:${PORT}`);
   console.log(`\n📝 NOTE: This server is NOT required for the two-model architecture.`);
   console.log(`   Both DeepSeek and Gemini APIs work directly from the browser.\n`);
@@ -78,3 +79,7 @@ app.listen(PORT, () => {
   console.log(`   - DEEPSEEK_API_KEY (The Writer): ${process.env.DEEPSEEK_API_KEY ? '✓ Set' : '✗ Not Set'}`);
   console.log(`   - GEMINI_API_KEY (The Clerk): ${process.env.GEMINI_API_KEY ? '✓ Set' : '✗ Not Set'}`);
 });
+
+// Chapter co-editing relay (ws://localhost:PORT/collab)
+attachCollabRelay(server);
+console.log(`✍️  Collaboration relay on ws://localhost:${PORT}/collab`);
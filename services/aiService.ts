@@ -4,7 +4,8 @@ import { applyCritiqueCorrectionLoop } from './critiqueCorrectionService';
 import { getStoredLlm, type LlmId } from '../contexts/LlmContext';
 import { getStoredChapterGenerationModel } from '../contexts/ChapterGenerationModelContext';
 import { rateLimiter } from './rateLimiter';
-import { routeTextTask, routeJsonTask } from './modelOrchestrator';
+import { routeTextTask, routeJsonTask, estimateTaskCost } from './modelOrchestrator';
+import { checkUsageBudget } from './usageLedgerService';
 import { buildArcPrompt } from './promptEngine/writers/arcPromptWriter';
 import { buildChapterPrompt } from './promptEngine/writers/chapterPromptWriter';
 import { buildEditPrompt } from './promptEngine/writers/editPromptWriter';
@@ -20,6 +21,7 @@ import {
 } from './postGenerationQualityService';
 import { AppError, formatErrorMessage } from '../utils/errorHandling';
 import { generateUUID } from '../utils/uuid';
+import { extractPartialJsonString, isAbortError, throwIfAborted } from '../utils/streaming';
 import { logger } from './loggingService';
 import { regenerateWithQualityCheck } from './chapterRegenerationService';
 import { isJsonChapterContent, extractChapterContent } from '../utils/chapterContentRepair';
@@ -53,8 +55,10 @@ import { buildConsequenceReminder } from './gateConsequenceTracker';
 import { generateFaceGraphContext, getFaceGraphConfig } from './faceGraph';
 import type { FaceGraphContext } from '../types/faceGraph';
 import { generateMarketContext } from './market';
+import { estimateTokens } from './promptEngine/tokenEstimator';
 import type { MarketContextResult } from './market/marketContextGenerator';
 import { generateLoomDirective, runLoomClerkAudit } from './loom/loomIntegrationService';
+import { resolveNextChapterPov } from './povService';
 
 // Legacy function kept for backward compatibility but no longer used for model selection
 // Models are now selected automatically via the orchestrator based on task type
@@ -155,6 +159,7 @@ export type ChapterGenPhase =
   | 'prompt_build_start'
   | 'memory_context_gather'
   | 'prompt_build_end'
+  | 'budget_warning'
   | 'queue_estimate'
   | 'queue_dequeued'
   | 'llm_request_start'
@@ -306,8 +311,20 @@ export type ChapterGenerationResult = {
   // Tribulation Gate interrupt
   requiresUserChoice?: boolean;
   tribulationGate?: TribulationGate;
+  /** Viewpoint character the chapter was written from; store it on the chapter */
+  povCharacterId?: string;
 };
 
+/**
+ * Partial chapter decoded from the streaming JSON response
+ */
+export interface ChapterStreamPreview {
+  title: string;
+  content: string;
+  /** Characters of raw JSON received so far */
+  receivedChars: number;
+}
+
 export const generateNextChapter = async (
   state: NovelState,
   userInstruction: string = '',
@@ -316,6 +333,8 @@ export const generateNextChapter = async (
     skipRegeneration?: boolean; // Set to true when called from regeneration to prevent infinite loops
     skipTribulationGate?: boolean; // Set to true when resuming after user makes gate choice
     resolvedGateId?: string; // If resuming from a gate, the ID of the resolved gate
+    onChapterStream?: (preview: ChapterStreamPreview) => void; // Live preview while the chapter streams in
+    signal?: AbortSignal; // Abort generation; rejects with a GENERATION_ABORTED AppError
   }
 ): Promise<ChapterGenerationResult | null> => {
 
@@ -932,7 +951,22 @@ export const generateNextChapter = async (
   }
 
   const promptBuildMs = Date.now() - promptStart;
-  opts?.onPhase?.('prompt_build_end', { promptBuildMs });
+  // The chapter JSON (1500+ words plus updates) usually fills most of the 8192-token output cap
+  const costEstimate = estimateTaskCost(
+    'prose_generation',
+    (builtPrompt.systemInstruction || SYSTEM_INSTRUCTION) + '\n' + builtPrompt.userPrompt,
+    8192,
+    selectedModel
+  );
+  opts?.onPhase?.('prompt_build_end', { promptBuildMs, estimatedPromptTokens: costEstimate.inputTokens });
+
+  const budget = await checkUsageBudget(state.id, costEstimate.cost);
+  if (budget.status === 'block') {
+    throw new AppError(budget.message || 'Usage budget exceeded', 'BUDGET_EXCEEDED', undefined, false, true);
+  }
+  if (budget.status === 'warn') {
+    opts?.onPhase?.('budget_warning', { message: budget.message, estimatedCost: costEstimate.cost });
+  }
 
   // Keep the same phase keys so App.tsx logging continues to work (we'll rename UI strings later).
   const estimatedWaitMs = rateLimiter.getEstimatedWaitTime('generate');
@@ -941,9 +975,12 @@ export const generateNextChapter = async (
   let queueWaitMs: number | undefined;
   let requestDurationMs: number | undefined;
 
+  throwIfAborted(opts?.signal);
+
   const result = await rateLimiter.queueRequest(
     'generate',
     async () => {
+      throwIfAborted(opts?.signal);
       opts?.onPhase?.('llm_request_start');
       const start = Date.now();
       // selectedModel is already retrieved above for prompt building
@@ -1001,6 +1038,16 @@ export const generateNextChapter = async (
         } : undefined,
         // Override provider based on user selection
         overrideProvider: selectedModel,
+        // Stream the JSON and surface the partially decoded chapter for live preview
+        onToken: opts?.onChapterStream
+          ? (_token, raw) => opts.onChapterStream?.({
+            title: extractPartialJsonString(raw, 'chapterTitle') || '',
+            content: extractPartialJsonString(raw, 'chapterContent') || '',
+            receivedChars: raw.length,
+          })
+          : undefined,
+        signal: opts?.signal,
+        usageContext: { novelId: state.id, chapterNumber: nextChapterNumber },
       });
       requestDurationMs = Date.now() - start;
       opts?.onPhase?.('llm_request_end', { requestDurationMs });
@@ -1070,6 +1117,9 @@ export const generateNextChapter = async (
     });
   }
 
+  // The steps below call the model again; a cancel must stop them too
+  throwIfAborted(opts?.signal);
+
   if (wordCount < 1500) {
     logger.warn('Generated chapter below minimum word count', 'ai', {
       wordCount,
@@ -1123,6 +1173,7 @@ OUTPUT: Return ONLY the expanded chapter as plain text. No JSON, no markdown hea
           user: expansionPrompt,
           temperature: 0.85, // Slightly lower for more controlled expansion
           maxTokens: 5000, // Increased to allow for longer output
+          signal: opts?.signal,
         });
 
         if (expandedContent) {
@@ -1164,6 +1215,7 @@ Return ONLY the expanded text.`;
                 user: secondExpansionPrompt,
                 temperature: 0.9,
                 maxTokens: 5000,
+                signal: opts?.signal,
               });
 
               if (secondExpansion) {
@@ -1187,6 +1239,7 @@ Return ONLY the expanded text.`;
           }
         }
       } catch (expansionError) {
+        if (isAbortError(expansionError)) throw expansionError;
         logger.warn('Failed to expand chapter content', 'ai', {
           error: expansionError instanceof Error ? expansionError.message : String(expansionError)
         });
@@ -1235,6 +1288,7 @@ Return ONLY the expanded text.`;
   // NEW: Critique-Correction Loop - Auto-Critic Agent using Gemini Flash
   // Evaluates the chapter against a Style Rubric and iteratively refines prose quality
   if (CRITIQUE_CORRECTION_CONFIG.enabled && !opts?.skipRegeneration) {
+    throwIfAborted(opts?.signal);
     try {
       opts?.onPhase?.('critique_start', {
         rubricId: 'literary_xianxia', // Default rubric
@@ -1256,6 +1310,7 @@ Return ONLY the expanded text.`;
         result.chapterSummary || '',
         rubricId,
         {
+          signal: opts?.signal,
           onPhase: (phase, data) => {
             // Map critique phases to our phase callbacks
             if (phase === 'critique_evaluation') {
@@ -1311,6 +1366,7 @@ Return ONLY the expanded text.`;
         estimatedCost: critiqueResult.estimatedCost,
       });
     } catch (critiqueError) {
+      if (isAbortError(critiqueError)) throw critiqueError;
       logger.warn('Critique-Correction Loop failed, continuing without', 'critique', {
         error: critiqueError instanceof Error ? critiqueError.message : String(critiqueError),
       });
@@ -1319,6 +1375,7 @@ Return ONLY the expanded text.`;
   }
 
   // Post-generation quality validation with comprehensive checks
+  throwIfAborted(opts?.signal);
   let finalChapter: Chapter | null = null;
   try {
     const generatedChapter: Chapter = {
@@ -1360,7 +1417,7 @@ Return ONLY the expanded text.`;
           entitiesIncluded
         },
         entitiesIncluded,
-        Math.ceil(builtPrompt.userPrompt.length / 4) // Rough token estimate
+        estimateTokens(builtPrompt.userPrompt)
       );
     } catch (error) {
       console.warn('Failed to save context snapshot:', error);
@@ -1390,7 +1447,8 @@ Return ONLY the expanded text.`;
           generatedChapter,
           state,
           qualityMetrics,
-          QUALITY_CONFIG
+          QUALITY_CONFIG,
+          opts?.signal
         );
 
         if (regenerationResult.success && regenerationResult.chapter) {
@@ -1423,6 +1481,7 @@ Return ONLY the expanded text.`;
           });
         }
       } catch (regenerationError) {
+        if (isAbortError(regenerationError)) throw regenerationError;
         const errorMessage = regenerationError instanceof Error
           ? regenerationError.message || regenerationError.toString() || 'Unknown error'
           : regenerationError
@@ -1463,6 +1522,7 @@ Return ONLY the expanded text.`;
       voiceConsistency: qualityMetrics.voiceConsistencyScore,
     });
   } catch (error) {
+    if (isAbortError(error)) throw error;
     logger.warn('Error in post-generation quality validation', 'ai', {
       error: error instanceof Error ? error.message : String(error),
     });
@@ -1530,6 +1590,7 @@ Return ONLY the expanded text.`;
   // to prevent foreign key constraint violations and ensure consistent IDs.
 
   // NEW: Run Heavenly Loom Clerk audit after chapter generation
+  throwIfAborted(opts?.signal);
   try {
     opts?.onPhase?.('loom_clerk_start');
     const auditStart = Date.now();
@@ -1576,8 +1637,13 @@ Return ONLY the expanded text.`;
       error: loomAuditError instanceof Error ? loomAuditError.message : String(loomAuditError),
     });
   }
+  throwIfAborted(opts?.signal);
 
-  return result;
+  return {
+    ...result,
+    // The prompt was built for this viewpoint; resolved the same way here
+    povCharacterId: resolveNextChapterPov(state, userInstruction)?.id,
+  };
 };
 
 export type PostChapterExtraction = {
@@ -1700,6 +1766,7 @@ export type PostChapterExtraction = {
     threadScope?: 'chapter' | 'arc' | 'novel'; // Scope of the thread
     estimatedDuration?: number; // Estimated chapters to resolution
   }>;
+  secretUpdates?: import('../types/secrets').SecretUpdate[];
 };
 
 export const extractPostChapterUpdates = async (
@@ -1739,6 +1806,11 @@ Your extraction targets:
 5. **ANTAGONISTS**:
    - Identify threats, their power levels, and motivations.
 
+6. **SECRETS**:
+   - Hidden bloodlines, disguised identities, stolen techniques, concealed crimes.
+   - Record who learns an existing secret in this chapter, and how (told, discovered, overheard).
+   - Record a secret as "revealed" only when it becomes public knowledge.
+
 Be EXTREMELY THOROUGH. If a character is mentioned by name, they should likely be in the Codex. If a named move is used, it should be a Technique.
 
 CRITICAL THREAD SCOPING REQUIREMENTS:
@@ -1761,6 +1833,15 @@ CRITICAL THREAD SCOPING REQUIREMENTS:
       `- ${tech.name} (${tech.category} - ${tech.type})`
     ).join('\n') || 'No techniques recorded yet.';
 
+    const secretsContext = (state.secrets || []).length > 0
+      ? state.secrets!.map(secret => {
+          const holders = secret.holders
+            .map(h => state.characterCodex.find(c => c.id === h.characterId)?.name)
+            .filter(Boolean);
+          return `- ${secret.title} (${secret.status}; known by ${holders.join(', ') || 'no one recorded'})`;
+        }).join('\n')
+      : 'No secrets recorded yet.';
+
     const arcContext = activeArc ?
       `Current Arc: ${activeArc.title}\nArc Checklist: ${activeArc.checklist?.map(item => `- ${item.id}: ${item.completed ? '✅' : '❌'}`).join('\n') || 'No checklist items'}` :
       'No active arc.';
@@ -1782,6 +1863,9 @@ ${itemsContext}
 TECHNIQUES:
 ${techniquesContext}
 
+SECRETS:
+${secretsContext}
+
 ${arcContext}
 
 ---
@@ -1898,6 +1982,20 @@ Extract all updates from this chapter. Return ONLY a JSON object with this exact
       "threadScope": "chapter/arc/novel",
       "estimatedDuration": 5
     }
+  ],
+  "secretUpdates": [
+    {
+      "title": "Secret title (match an existing secret exactly when updating)",
+      "action": "create/update",
+      "description": "What the secret is",
+      "category": "bloodline/identity/technique/treasure/crime/relationship/other",
+      "keywords": ["Words that would give the secret away in dialogue"],
+      "subjectName": "Character the secret is about",
+      "status": "hidden/partially_revealed/revealed",
+      "learnedBy": [
+        { "characterName": "Who learned it in this chapter", "how": "original/told/discovered/overheard", "toldByName": "Who told them" }
+      ]
+    }
   ]
 }
 
@@ -1925,6 +2023,7 @@ IMPORTANT:
       scenes: result.scenes?.length || 0,
       antagonistUpdates: result.antagonistUpdates?.length || 0,
       threadUpdates: result.threadUpdates?.length || 0,
+      secretUpdates: result.secretUpdates?.length || 0,
       arcChecklistProgress: result.arcChecklistProgress?.completedItemIds?.length || 0
     });
 
@@ -1952,6 +2051,7 @@ IMPORTANT:
       antagonistUpdates: [],
       systemUpdates: [],
       threadUpdates: [],
+      secretUpdates: [],
     };
   }
 };
@@ -0,0 +1,272 @@
+/**
+ * Audiobook Renderer
+ * Renders chapter scripts to WAV files, one per chapter, with cue markers for
+ * the chapter and its scenes. Synthesized lines go through the TTS audio
+ * cache and finished chapters are recorded in a job, so a render that stops
+ * part-way resumes without paying for audio twice.
+ */
+
+import type { Chapter, NovelState } from '../../types';
+import type {
+  AudioSynthesisProvider,
+  AudiobookCast,
+  AudiobookChapterScript,
+  AudiobookFile,
+  AudiobookMarker,
+  AudiobookRenderJob,
+  AudiobookRenderProgress,
+  AudiobookSegment,
+} from '../../types/audiobook';
+import type { PronunciationEntry } from '../../types/pronunciation';
+import type { TTSCache } from '../ttsProviders/ttsCache';
+import { buildChapterScript } from './audiobookScript';
+import { voiceFor } from './voiceCasting';
+import { normalizeText } from '../../utils/textProcessor';
+import { addNaturalPauses, generateSSML } from '../../utils/ssmlGenerator';
+import { createSilence, encodeWav } from '../../utils/audioUtils';
+import { throwIfAborted } from '../../utils/streaming';
+import { generateUUID } from '../../utils/uuid';
+import { logger } from '../loggingService';
+
+const JOB_STORAGE_KEY = 'audiobook_job';
+
+/** Silence after a segment, in seconds */
+const PAUSES = {
+  segment: 0.3,
+  paragraph: 0.5,
+  heading: 1.2,
+  scene: 1.5,
+};
+
+export type AudioSegmentCache = Pick<TTSCache, 'get' | 'set'>;
+
+export interface AudiobookRenderOptions {
+  provider: AudioSynthesisProvider;
+  cast: AudiobookCast;
+  lexicon?: PronunciationEntry[];
+  /** Audio cache for synthesized lines; null disables caching */
+  cache?: AudioSegmentCache | null;
+  /** An interrupted job for the same chapters to resume */
+  job?: AudiobookRenderJob | null;
+  signal?: AbortSignal;
+  onProgress?: (progress: AudiobookRenderProgress) => void;
+  /** Receives each finished chapter file, e.g. to download it right away */
+  onChapterRendered: (file: AudiobookFile) => void | Promise<void>;
+}
+
+/**
+ * Provider input for a segment: SSML for providers that take it, otherwise
+ * text with the natural pauses written as line breaks. SSML keeps lexicon
+ * phonemes; plain text gets the respellings.
+ */
+export function prepareSegmentInput(
+  segment: AudiobookSegment,
+  provider: AudioSynthesisProvider,
+  lexicon?: PronunciationEntry[]
+): string {
+  if (provider.acceptsSSML) return generateSSML(normalizeText(segment.text), { addPauses: true, lexicon });
+  return addNaturalPauses(normalizeText(segment.text, lexicon))
+    .replace(/\s*<longpause>\s*/g, '\n\n')
+    .replace(/\s*<pause>/g, '\n')
+    .trim();
+}
+
+function pauseAfter(segment: AudiobookSegment): number {
+  if (segment.sceneBreak) return PAUSES.scene;
+  if (segment.kind === 'heading') return PAUSES.heading;
+  return segment.paragraphEnd ? PAUSES.paragraph : PAUSES.segment;
+}
+
+export function audiobookFilename(novel: NovelState, chapterNumber: number): string {
+  const safeTitle = novel.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  return `${safeTitle}_chapter_${String(chapterNumber).padStart(3, '0')}.wav`;
+}
+
+async function synthesizeSegment(
+  input: string,
+  options: AudiobookRenderOptions,
+  speakerId: string | undefined
+): Promise<{ samples: Int16Array; cached: boolean }> {
+  const { provider, cast, cache, signal } = options;
+  const voice = voiceFor(cast, speakerId);
+  const voiceKey = voice.style ? `${voice.voiceName}:${voice.style}` : voice.voiceName;
+
+  if (cache) {
+    try {
+      const hit = await cache.get(input, voiceKey, voice.rate, provider.id);
+      if (hit) return { samples: new Int16Array(hit), cached: true };
+    } catch (error) {
+      logger.warn('Audio cache read failed', 'audiobook');
+    }
+  }
+
+  const samples = await provider.synthesize(input, voice, signal);
+  if (cache) {
+    try {
+      const copy = samples.slice().buffer;
+      await cache.set(input, voiceKey, voice.rate, provider.id, copy, samples.length / provider.sampleRate);
+    } catch (error) {
+      logger.warn('Audio cache write failed', 'audiobook');
+    }
+  }
+  return { samples, cached: false };
+}
+
+/**
+ * Render one chapter script to a WAV file with chapter and scene markers
+ */
+export async function renderChapterAudio(
+  novel: NovelState,
+  script: AudiobookChapterScript,
+  options: AudiobookRenderOptions,
+  report: (segmentIndex: number, cachedSegments: number) => void = () => {}
+): Promise<AudiobookFile> {
+  const { provider } = options;
+  const chunks: Int16Array[] = [];
+  const markers: AudiobookMarker[] = [{ label: `Chapter ${script.chapterNumber}: ${script.title}`, time: 0 }];
+  let samplesSoFar = 0;
+  let cachedSegments = 0;
+  let scene = 1;
+
+  for (let index = 0; index < script.segments.length; index++) {
+    throwIfAborted(options.signal);
+    const segment = script.segments[index];
+    const input = prepareSegmentInput(segment, provider, options.lexicon);
+    if (input) {
+      const { samples, cached } = await synthesizeSegment(input, options, segment.speakerId);
+      if (cached) cachedSegments++;
+      chunks.push(samples);
+      samplesSoFar += samples.length;
+    }
+    const silence = createSilence(pauseAfter(segment), provider.sampleRate);
+    chunks.push(silence);
+    samplesSoFar += silence.length;
+    if (segment.sceneBreak) {
+      scene++;
+      markers.push({ label: `Scene ${scene}`, time: samplesSoFar / provider.sampleRate });
+    }
+    report(index + 1, cachedSegments);
+  }
+
+  const data = encodeWav(
+    chunks,
+    provider.sampleRate,
+    markers.map(marker => ({ sample: Math.round(marker.time * provider.sampleRate), label: marker.label }))
+  );
+  return {
+    chapterId: script.chapterId,
+    chapterNumber: script.chapterNumber,
+    filename: audiobookFilename(novel, script.chapterNumber),
+    data,
+    duration: samplesSoFar / provider.sampleRate,
+    markers,
+  };
+}
+
+export function createRenderJob(novelId: string, chapters: Chapter[]): AudiobookRenderJob {
+  const now = Date.now();
+  return {
+    id: generateUUID(),
+    novelId,
+    chapterIds: chapters.map(ch => ch.id),
+    completed: [],
+    startedAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Render chapters in order, skipping those the job already delivered. The job
+ * is saved after every chapter and cleared once all of them are done.
+ */
+export async function renderAudiobook(
+  novel: NovelState,
+  chapters: Chapter[],
+  options: AudiobookRenderOptions
+): Promise<AudiobookRenderJob> {
+  const sameChapters =
+    options.job &&
+    options.job.novelId === novel.id &&
+    options.job.chapterIds.join('|') === chapters.map(ch => ch.id).join('|');
+  const job: AudiobookRenderJob = sameChapters
+    ? { ...options.job!, completed: [...options.job!.completed] }
+    : createRenderJob(novel.id, chapters);
+  const done = new Set(job.completed.map(c => c.chapterId));
+  saveRenderJob(job);
+
+  for (let chapterIndex = 0; chapterIndex < chapters.length; chapterIndex++) {
+    const chapter = chapters[chapterIndex];
+    if (done.has(chapter.id)) continue;
+
+    const script = buildChapterScript(chapter, novel);
+    const file = await renderChapterAudio(novel, script, options, (segmentIndex, cachedSegments) => {
+      options.onProgress?.({
+        chapterIndex,
+        chapterCount: chapters.length,
+        chapterNumber: chapter.number,
+        segmentIndex,
+        segmentCount: script.segments.length,
+        cachedSegments,
+        fraction: (chapterIndex + segmentIndex / script.segments.length) / chapters.length,
+      });
+    });
+    await options.onChapterRendered(file);
+
+    job.completed.push({
+      chapterId: file.chapterId,
+      chapterNumber: file.chapterNumber,
+      filename: file.filename,
+      duration: file.duration,
+    });
+    job.updatedAt = Date.now();
+    saveRenderJob(job);
+  }
+
+  clearRenderJob(novel.id);
+  return job;
+}
+
+/**
+ * CUE sheet listing each chapter file as a track, for players that read
+ * chapter lists from .cue files
+ */
+export function buildCueSheet(novel: NovelState, job: AudiobookRenderJob): string {
+  const lines = [`TITLE "${novel.title.replace(/"/g, "'")}"`];
+  [...job.completed]
+    .sort((a, b) => a.chapterNumber - b.chapterNumber)
+    .forEach((entry, index) => {
+      const chapter = novel.chapters.find(ch => ch.id === entry.chapterId);
+      const title = `Chapter ${entry.chapterNumber}${chapter?.title ? `: ${chapter.title}` : ''}`;
+      lines.push(`FILE "${entry.filename}" WAVE`);
+      lines.push(`  TRACK ${String(index + 1).padStart(2, '0')} AUDIO`);
+      lines.push(`    TITLE "${title.replace(/"/g, "'")}"`);
+      lines.push('    INDEX 01 00:00:00');
+    });
+  return lines.join('\n') + '\n';
+}
+
+export function loadRenderJob(novelId: string): AudiobookRenderJob | null {
+  try {
+    const stored = localStorage.getItem(`${JOB_STORAGE_KEY}_${novelId}`);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    logger.warn('Failed to load audiobook render job', 'audiobook');
+  }
+  return null;
+}
+
+export function saveRenderJob(job: AudiobookRenderJob): void {
+  try {
+    localStorage.setItem(`${JOB_STORAGE_KEY}_${job.novelId}`, JSON.stringify(job));
+  } catch (error) {
+    logger.warn('Failed to save audiobook render job', 'audiobook');
+  }
+}
+
+export function clearRenderJob(novelId: string): void {
+  try {
+    localStorage.removeItem(`${JOB_STORAGE_KEY}_${novelId}`);
+  } catch (error) {
+    logger.warn('Failed to clear audiobook render job', 'audiobook');
+  }
+}
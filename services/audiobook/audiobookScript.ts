@@ -0,0 +1,62 @@
+/**
+ * Audiobook Script
+ * Splits a chapter into headings, narration and dialogue lines, with each line
+ * of dialogue voiced by the character the dialogue attribution credits
+ */
+
+import type { Chapter, NovelState } from '../../types';
+import type { AudiobookChapterScript, AudiobookSegment } from '../../types/audiobook';
+import { CONFIDENT_ATTRIBUTION, getChapterAttribution } from '../dialogueAttributionService';
+
+function spoken(text: string): string {
+  return text.trim().replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Build the read-aloud script for a chapter. Dialogue goes to the speaker the
+ * shared attribution credits with confidence; other lines stay with the
+ * narrator.
+ */
+export function buildChapterScript(chapter: Chapter, novel: NovelState): AudiobookChapterScript {
+  const content = chapter.content || '';
+  const { paragraphs, utterances } = getChapterAttribution(chapter, novel.characterCodex || []);
+  const segments: AudiobookSegment[] = [
+    { kind: 'heading', text: `Chapter ${chapter.number}. ${chapter.title}`.trim(), paragraphEnd: true },
+  ];
+
+  paragraphs.forEach((paragraph, paragraphIndex) => {
+    if (paragraph.sceneBreakBefore) segments[segments.length - 1].sceneBreak = true;
+
+    const parts: AudiobookSegment[] = [];
+    let last = paragraph.start;
+    for (const line of utterances.filter(u => u.paragraphIndex === paragraphIndex)) {
+      const before = spoken(content.slice(last, line.start));
+      if (before) parts.push({ kind: 'narration', text: before, paragraphEnd: false });
+      const speakerId = line.speakerId && line.confidence >= CONFIDENT_ATTRIBUTION ? line.speakerId : undefined;
+      parts.push({ kind: 'dialogue', text: line.text, speakerId, paragraphEnd: false });
+      last = line.end;
+    }
+    const rest = spoken(content.slice(last, paragraph.end));
+    if (rest) parts.push({ kind: 'narration', text: rest, paragraphEnd: false });
+
+    if (parts.length > 0) parts[parts.length - 1].paragraphEnd = true;
+    segments.push(...parts);
+  });
+
+  return { chapterId: chapter.id, chapterNumber: chapter.number, title: chapter.title, segments };
+}
+
+/**
+ * Characters with attributed lines in the given scripts, most lines first
+ */
+export function speakingCharacters(scripts: AudiobookChapterScript[]): Array<{ characterId: string; lines: number }> {
+  const lines = new Map<string, number>();
+  for (const script of scripts) {
+    for (const segment of script.segments) {
+      if (segment.speakerId) lines.set(segment.speakerId, (lines.get(segment.speakerId) || 0) + 1);
+    }
+  }
+  return [...lines.entries()]
+    .map(([characterId, count]) => ({ characterId, lines: count }))
+    .sort((a, b) => b.lines - a.lines);
+}
@@ -0,0 +1,68 @@
+/**
+ * Audiobook Voice Casting
+ * Assigns a voice profile to the narrator and each speaking character, and
+ * remembers the author's choices per novel
+ */
+
+import type { NovelState } from '../../types';
+import type { AudiobookCast, AudiobookVoiceProfile } from '../../types/audiobook';
+import { logger } from '../loggingService';
+
+const CAST_STORAGE_KEY = 'audiobook_cast';
+
+/**
+ * Default cast: the narrator takes the first voice; characters who speak
+ * take the rest in order of how much they speak, protagonists first,
+ * wrapping around when there are more characters than voices
+ */
+export function castVoices(
+  novel: NovelState,
+  voices: string[],
+  speakers: string[],
+  saved: Partial<AudiobookCast> = {}
+): AudiobookCast {
+  const narrator: AudiobookVoiceProfile = saved.narrator ?? { voiceName: voices[0], rate: 1 };
+  const pool = voices.filter(v => v !== narrator.voiceName);
+  const protagonists = new Set((novel.characterCodex || []).filter(c => c.isProtagonist).map(c => c.id));
+  const ordered = [...speakers].sort((a, b) => Number(protagonists.has(b)) - Number(protagonists.has(a)));
+
+  const characters: Record<string, AudiobookVoiceProfile> = {};
+  let next = 0;
+  for (const characterId of ordered) {
+    const chosen = saved.characters?.[characterId];
+    if (chosen) {
+      characters[characterId] = chosen;
+    } else if (pool.length > 0) {
+      characters[characterId] = { voiceName: pool[next % pool.length], rate: 1 };
+      next++;
+    } else {
+      characters[characterId] = { ...narrator };
+    }
+  }
+  return { narrator, characters };
+}
+
+/**
+ * Voice for a line: its speaker's profile, else the narrator's
+ */
+export function voiceFor(cast: AudiobookCast, speakerId?: string): AudiobookVoiceProfile {
+  return (speakerId && cast.characters[speakerId]) || cast.narrator;
+}
+
+export function loadSavedCast(novelId: string): Partial<AudiobookCast> {
+  try {
+    const stored = localStorage.getItem(`${CAST_STORAGE_KEY}_${novelId}`);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    logger.warn('Failed to load audiobook cast', 'audiobook');
+  }
+  return {};
+}
+
+export function saveCast(novelId: string, cast: AudiobookCast): void {
+  try {
+    localStorage.setItem(`${CAST_STORAGE_KEY}_${novelId}`, JSON.stringify(cast));
+  } catch (error) {
+    logger.warn('Failed to save audiobook cast', 'audiobook');
+  }
+}
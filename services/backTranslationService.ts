@@ -5,11 +5,11 @@
  * n-gram patterns and reduce AI detection. Research shows this is
  * highly effective at reducing detectability.
  * 
- * Uses DeepSeek-V3.2 ("The Writer") for translation tasks as it
- * excels at multilingual tasks and creative writing.
+ * Translation is routed as a prose_editing task, so it goes to
+ * DeepSeek-V3.2 ("The Writer") unless that task is reassigned.
  */
 
-import { deepseekText } from "./deepseekService";
+import { routeTextTask } from "./modelOrchestrator";
 import { rateLimiter } from "./rateLimiter";
 
 export interface BackTranslationResult {
@@ -38,7 +38,7 @@ Text to translate:
 ${text}`;
   
   const translatedText = await rateLimiter.queueRequest('generate', async () => {
-    return await deepseekText({
+    return await routeTextTask('prose_editing', {
       user: translatePrompt,
       temperature: 0.7,
       topP: 0.9,
@@ -53,7 +53,7 @@ Text to translate:
 ${translatedText}`;
   
   const backTranslatedText = await rateLimiter.queueRequest('generate', async () => {
-    return await deepseekText({
+    return await routeTextTask('prose_editing', {
       user: backTranslatePrompt,
       temperature: 0.8, // Slightly higher for more variation
       topP: 0.9,
@@ -0,0 +1,398 @@
+/**
+ * Calendar Service
+ *
+ * In-world dates for the novel: converts day counts to calendar dates, infers
+ * when each chapter takes place from time-skip cues, advances character ages,
+ * and flags contradictions in elapsed time between chapters.
+ */
+
+import type { Chapter, Character, NovelState } from '../types';
+import type { CalendarEra, InWorldDate, NovelCalendar } from '../types/calendar';
+import type { ConsistencyIssue } from './consistencyChecker';
+import { detectSeclusion, detectTimeSkip } from './livingWorld/globalEventGenerator';
+
+export const DEFAULT_CALENDAR: NovelCalendar = {
+  months: Array.from({ length: 12 }, (_, i) => ({ name: `Month ${i + 1}`, days: 30 })),
+  eras: [],
+  storyStartDay: 0,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, fifty: 50, hundred: 100,
+  few: 3, 'a few': 3, several: 4, 'half a': 0.5, 'half an': 0.5,
+};
+
+/** Days in a unit of time; months and years follow the novel's calendar year */
+function unitDays(unit: string, yearLength: number): number {
+  switch (unit.toLowerCase()) {
+    case 'hour': return 1 / 24;
+    case 'day': return 1;
+    case 'week': return 7;
+    case 'month': return yearLength / 12;
+    case 'decade': return yearLength * 10;
+    default: return yearLength;
+  }
+}
+
+const QUANTITY = `(\\d+(?:\\.\\d+)?|half an?|a few|${Object.keys(NUMBER_WORDS).filter(w => !w.includes(' ')).join('|')})`;
+const DURATION_PATTERN = new RegExp(`\\b${QUANTITY}[\\s-]+(hour|day|week|month|year|decade)s?\\b`, 'i');
+const ELAPSED_PATTERN = new RegExp(
+  `\\b${QUANTITY}[\\s-]+(hour|day|week|month|year|decade)s?\\s+(?:later|passed|had passed|have passed|went by|had gone by|after)\\b`,
+  'i'
+);
+const NEXT_DAY_PATTERN = /\b(?:the\s+(?:next|following)\s+(?:day|morning|dawn)|next\s+morning|at\s+dawn\s+the\s+next\s+day)\b/i;
+const PARALLEL_PATTERN = /\b(?:meanwhile|elsewhere|at the same time|back at|years (?:ago|earlier)|flashback|remembered|in the past)\b/i;
+
+/** Opening text searched for the cue that places a chapter in time */
+const OPENING_LENGTH = 600;
+
+export interface ElapsedCue {
+  days: number;
+  cue: string;
+}
+
+export interface ChapterTimelineEntry {
+  chapterId: string;
+  chapterNumber: number;
+  day: number;
+  source: 'manual' | 'inferred';
+  /** Days since the previous chapter opened */
+  elapsedDays: number;
+  /** Text that placed an inferred chapter, e.g. "three days later" */
+  cue?: string;
+  scenes: { sceneId: string; day: number; source: 'manual' | 'inferred' }[];
+}
+
+export function getCalendar(state: Pick<NovelState, 'calendar'>): NovelCalendar {
+  const calendar = state.calendar;
+  if (!calendar) return DEFAULT_CALENDAR;
+  return calendar.months.length > 0 ? calendar : { ...calendar, months: DEFAULT_CALENDAR.months };
+}
+
+export function daysPerYear(calendar: NovelCalendar): number {
+  return calendar.months.reduce((sum, month) => sum + Math.max(1, month.days), 0) || 360;
+}
+
+export function dayToDate(dayCount: number, calendar: NovelCalendar): InWorldDate {
+  const yearLength = daysPerYear(calendar);
+  const whole = Math.floor(dayCount);
+  const year = Math.floor(whole / yearLength) + 1;
+  let remaining = whole - (year - 1) * yearLength;
+
+  for (let i = 0; i < calendar.months.length; i++) {
+    const length = Math.max(1, calendar.months[i].days);
+    if (remaining < length) return { year, month: i + 1, day: remaining + 1 };
+    remaining -= length;
+  }
+  return { year, month: calendar.months.length, day: Math.max(1, calendar.months[calendar.months.length - 1]?.days || 1) };
+}
+
+export function dateToDay(date: InWorldDate, calendar: NovelCalendar): number {
+  const monthIndex = Math.min(Math.max(date.month, 1), calendar.months.length) - 1;
+  const beforeMonth = calendar.months.slice(0, monthIndex).reduce((sum, month) => sum + Math.max(1, month.days), 0);
+  return (date.year - 1) * daysPerYear(calendar) + beforeMonth + Math.max(date.day, 1) - 1;
+}
+
+function eraFor(year: number, calendar: NovelCalendar): CalendarEra | undefined {
+  return [...calendar.eras].sort((a, b) => b.startYear - a.startYear).find(era => era.startYear <= year);
+}
+
+export function formatInWorldDate(dayCount: number, calendar: NovelCalendar): string {
+  const date = dayToDate(dayCount, calendar);
+  const month = calendar.months[date.month - 1]?.name || `Month ${date.month}`;
+  const era = eraFor(date.year, calendar);
+  const year = era ? `Year ${date.year - era.startYear + 1} of the ${era.name}` : `Year ${date.year}`;
+  return `Day ${date.day} of ${month}, ${year}`;
+}
+
+export function formatElapsed(days: number, yearLength = 365): string {
+  if (days < 1) {
+    const hours = Math.round(days * 24);
+    return hours === 0 ? 'no time' : `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  if (days < 60) return `${Math.round(days)} day${Math.round(days) === 1 ? '' : 's'}`;
+  if (days < yearLength * 2) return `${Math.round(days / (yearLength / 12))} months`;
+  return `${Math.round(days / yearLength)} years`;
+}
+
+function quantityValue(raw: string): number {
+  const lower = raw.toLowerCase();
+  return NUMBER_WORDS[lower] ?? parseFloat(lower);
+}
+
+/**
+ * Length of a duration phrase such as "10 years" or "three months", in days
+ */
+export function parseDuration(text: string, yearLength = 365): number | null {
+  const match = text.match(DURATION_PATTERN);
+  if (!match) return null;
+  const value = quantityValue(match[1]);
+  return Number.isFinite(value) ? value * unitDays(match[2], yearLength) : null;
+}
+
+/**
+ * Elapsed-time cue such as "three days later" or "the next morning"
+ */
+export function parseElapsedCue(text: string, yearLength = 365): ElapsedCue | null {
+  const match = text.match(ELAPSED_PATTERN);
+  if (match) {
+    const value = quantityValue(match[1]);
+    if (Number.isFinite(value)) return { days: value * unitDays(match[2], yearLength), cue: match[0] };
+  }
+  const nextDay = text.match(NEXT_DAY_PATTERN);
+  return nextDay ? { days: 1, cue: nextDay[0] } : null;
+}
+
+/** Length of a seclusion the chapter starts, in days */
+function seclusionDays(chapter: Chapter, yearLength: number): { days: number; snippet?: string } | null {
+  const seclusion = detectSeclusion(chapter);
+  if (!seclusion.detected || !seclusion.estimatedDuration) return null;
+  const days = parseDuration(seclusion.estimatedDuration, yearLength);
+  return days ? { days, snippet: seclusion.estimatedDuration } : null;
+}
+
+/**
+ * Days between the previous chapter and this one, read from the text: an
+ * opening cue first, then a detected time skip, then a seclusion the previous
+ * chapter began
+ */
+export function inferElapsedDays(
+  chapter: Chapter,
+  previous: Chapter | undefined,
+  yearLength = 365
+): ElapsedCue | null {
+  if (!previous) return null;
+
+  const opening = parseElapsedCue(chapter.content.slice(0, OPENING_LENGTH), yearLength);
+  if (opening) return opening;
+
+  const skip = detectTimeSkip(chapter, previous);
+  const skipDays = (skip.yearsSkipped || 0) * yearLength + (skip.monthsSkipped || 0) * (yearLength / 12) + (skip.daysSkipped || 0);
+  if (skip.detected && skipDays > 0) return { days: skipDays, cue: skip.contentSnippet || formatElapsed(skipDays, yearLength) };
+
+  const seclusion = seclusionDays(previous, yearLength);
+  if (seclusion) return { days: seclusion.days, cue: `${seclusion.snippet} of seclusion` };
+
+  return null;
+}
+
+/**
+ * When each chapter and scene takes place. Author-set dates win; other
+ * chapters follow the previous one by the elapsed time the text implies.
+ */
+export function buildChapterTimeline(state: NovelState): ChapterTimelineEntry[] {
+  const calendar = getCalendar(state);
+  const yearLength = daysPerYear(calendar);
+  const chapters = [...state.chapters].sort((a, b) => a.number - b.number);
+  const entries: ChapterTimelineEntry[] = [];
+
+  chapters.forEach((chapter, index) => {
+    const previous = chapters[index - 1];
+    const previousEntry = entries[index - 1];
+    let day: number;
+    let cue: string | undefined;
+
+    if (chapter.inWorldTime) {
+      day = chapter.inWorldTime.day;
+    } else if (!previousEntry) {
+      day = calendar.storyStartDay ?? 0;
+    } else {
+      const inferred = inferElapsedDays(chapter, previous, yearLength);
+      day = previousEntry.day + (inferred?.days ?? 0);
+      cue = inferred?.cue;
+    }
+
+    let sceneDay = day;
+    const scenes = [...chapter.scenes]
+      .sort((a, b) => a.number - b.number)
+      .map(scene => {
+        if (scene.inWorldTime) {
+          sceneDay = scene.inWorldTime.day;
+          return { sceneId: scene.id, day: sceneDay, source: 'manual' as const };
+        }
+        sceneDay += parseElapsedCue((scene.content || '').slice(0, OPENING_LENGTH), yearLength)?.days ?? 0;
+        return { sceneId: scene.id, day: sceneDay, source: 'inferred' as const };
+      });
+
+    entries.push({
+      chapterId: chapter.id,
+      chapterNumber: chapter.number,
+      day,
+      source: chapter.inWorldTime ? 'manual' : 'inferred',
+      elapsedDays: previousEntry ? day - previousEntry.day : 0,
+      cue,
+      scenes,
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * The in-world day a chapter takes place on. A chapter not yet added to the
+ * novel is placed after the others.
+ */
+export function chapterInWorldDay(state: NovelState, chapter: Chapter): number {
+  const chapters = state.chapters.some(c => c.id === chapter.id) ? state.chapters : [...state.chapters, chapter];
+  const entry = buildChapterTimeline({ ...state, chapters }).find(e => e.chapterId === chapter.id);
+  return entry?.day ?? getCalendar(state).storyStartDay ?? 0;
+}
+
+/**
+ * A character's age on an in-world day, advanced from `Character.age`. Without
+ * an anchor, the age is taken as of the story's opening day.
+ */
+export function characterAgeOnDay(
+  character: Character,
+  dayCount: number,
+  state: NovelState,
+  timeline: ChapterTimelineEntry[] = buildChapterTimeline(state)
+): number | null {
+  // Extraction can store a bare number despite the string type
+  const base = parseInt(String(character.age ?? '').match(/\d+/)?.[0] || '', 10);
+  if (Number.isNaN(base)) return null;
+
+  const calendar = getCalendar(state);
+  const anchor = character.ageAnchorDay ?? timeline[0]?.day ?? calendar.storyStartDay ?? 0;
+  return base + Math.floor((dayCount - anchor) / daysPerYear(calendar));
+}
+
+/**
+ * Every character's age as of the latest chapter, keyed by character id
+ */
+export function currentCharacterAges(state: NovelState): Map<string, number> {
+  const timeline = buildChapterTimeline(state);
+  const latestDay = timeline[timeline.length - 1]?.day ?? getCalendar(state).storyStartDay ?? 0;
+  const ages = new Map<string, number>();
+  state.characterCodex.forEach(character => {
+    const age = characterAgeOnDay(character, latestDay, state, timeline);
+    if (age !== null) ages.set(character.id, age);
+  });
+  return ages;
+}
+
+/**
+ * Pins an edited age to the latest chapter's date, so it is read as the
+ * character's age now rather than at the start of the story
+ */
+export function anchorCharacterAge(character: Character, state: NovelState): Character {
+  const existing = state.characterCodex.find(c => c.id === character.id);
+  if (existing && existing.age === character.age) return character;
+
+  const timeline = buildChapterTimeline(state);
+  const latest = timeline[timeline.length - 1];
+  return latest ? { ...character, ageAnchorDay: latest.day } : character;
+}
+
+/**
+ * Contradictions in elapsed time between chapters and within chapters
+ */
+export function checkCalendarContinuity(state: NovelState): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const yearLength = daysPerYear(getCalendar(state));
+  const chapters = [...state.chapters].sort((a, b) => a.number - b.number);
+  const timeline = buildChapterTimeline(state);
+
+  chapters.forEach((chapter, index) => {
+    const previous = chapters[index - 1];
+    const entry = timeline[index];
+    if (!previous) return;
+
+    const opening = chapter.content.slice(0, OPENING_LENGTH);
+    const parallel = PARALLEL_PATTERN.test(opening);
+    const cue = parseElapsedCue(opening, yearLength);
+    const seclusion = seclusionDays(previous, yearLength);
+
+    // "Three days later" straight after a ten-year seclusion
+    if (cue && seclusion && !parallel && cue.days < seclusion.days / 2) {
+      issues.push({
+        type: 'timeline-gap',
+        severity: 'warning',
+        chapterNumber: chapter.number,
+        message: `Chapter ${chapter.number} opens "${cue.cue}", but Chapter ${previous.number} began a seclusion of ${seclusion.snippet}.`,
+        suggestion: 'End or interrupt the seclusion on the page, mark the scene as happening elsewhere, or adjust the stated time.',
+        confidence: 0.7,
+        evidence: [cue.cue, `${seclusion.snippet} of seclusion`],
+      });
+    }
+
+    // Author-set dates that disagree with the text
+    if (chapter.inWorldTime && cue && !parallel) {
+      const tolerance = Math.max(1, cue.days * 0.5);
+      if (Math.abs(entry.elapsedDays - cue.days) > tolerance) {
+        issues.push({
+          type: 'timeline-gap',
+          severity: 'warning',
+          chapterNumber: chapter.number,
+          message: `Chapter ${chapter.number} says "${cue.cue}", but its date is ${formatElapsed(entry.elapsedDays, yearLength)} after Chapter ${previous.number}.`,
+          suggestion: 'Change the chapter date in the timeline or the time reference in the text.',
+          confidence: 0.8,
+          evidence: [cue.cue],
+        });
+      }
+    }
+
+    // Time running backwards without a flashback
+    if (entry.elapsedDays < 0 && !parallel) {
+      issues.push({
+        type: 'timeline-gap',
+        severity: 'warning',
+        chapterNumber: chapter.number,
+        message: `Chapter ${chapter.number} is dated ${formatElapsed(-entry.elapsedDays, yearLength)} before Chapter ${previous.number}.`,
+        suggestion: 'Mark the chapter as a flashback or correct its date.',
+        confidence: 0.8,
+      });
+    }
+  });
+
+  timeline.forEach(entry => {
+    let last = entry.day;
+    entry.scenes.forEach((scene, index) => {
+      if (scene.source === 'manual' && scene.day < last) {
+        issues.push({
+          type: 'timeline-gap',
+          severity: 'info',
+          chapterNumber: entry.chapterNumber,
+          message: `Scene ${index + 1} of Chapter ${entry.chapterNumber} is dated before the scene or chapter opening it follows.`,
+          suggestion: 'Check the scene date, or frame the scene as a flashback.',
+          confidence: 0.6,
+        });
+      }
+      last = scene.day;
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Current in-world date, time since the story opened and characters' ages,
+ * formatted for the chapter prompt
+ */
+export function buildCalendarContext(state: NovelState): string | undefined {
+  const timeline = buildChapterTimeline(state);
+  const latest = timeline[timeline.length - 1];
+  const datesKnown = state.calendar || state.chapters.some(c => c.inWorldTime);
+  if (!latest || (!datesKnown && timeline.every(entry => entry.elapsedDays === 0))) return undefined;
+
+  const calendar = getCalendar(state);
+  const lines = [
+    '[IN-WORLD TIME]',
+    `Chapter ${latest.chapterNumber} takes place on ${formatInWorldDate(latest.day, calendar)}` +
+      ` (${formatElapsed(latest.day - timeline[0].day, daysPerYear(calendar))} since the story began).`,
+  ];
+
+  const ages = state.characterCodex
+    .filter(c => c.status !== 'Deceased')
+    .sort((a, b) => Number(!!b.isProtagonist) - Number(!!a.isProtagonist))
+    .map(c => ({ name: c.name, age: characterAgeOnDay(c, latest.day, state, timeline) }))
+    .filter(c => c.age !== null)
+    .slice(0, 8);
+  if (ages.length > 0) {
+    lines.push(`Current ages: ${ages.map(c => `${c.name} ${c.age}`).join(', ')}.`);
+  }
+
+  lines.push('The next chapter must state any passage of time explicitly and stay consistent with these dates.');
+  return lines.join('\n');
+}
@@ -18,6 +18,8 @@ import type {
 import { extractPostChapterUpdates } from './aiService';
 import { saveNovel } from './supabaseService';
 import { generateUUID } from '../utils/uuid';
+import { chapterInWorldDay } from './calendarService';
+import { applySecretUpdates } from './secretService';
 import { logger } from './loggingService';
 import { findMatchingAntagonist, mergeAntagonistInfo } from '../utils/antagonistMatching';
 import { findOrCreateItem } from './itemTechniqueService';
@@ -130,6 +132,8 @@ export async function mergeExtractedData(
 
   // 0) Process character upserts (including relationships, items, techniques)
   let mergedCharacters = [...updatedState.characterCodex];
+  // Ages stated in this chapter are as of its in-world day
+  const ageAnchorDay = chapterInWorldDay(updatedState, chapter);
   
   if (extraction.characterUpserts && extraction.characterUpserts.length > 0) {
     console.log(`[Backfill] Processing ${extraction.characterUpserts.length} character upsert(s) for chapter ${chapter.number}`);
@@ -145,9 +149,11 @@ export async function mergeExtractedData(
         
         console.log(`[Backfill] Updating existing character "${name}" with:`, Object.keys(set));
         
+        const ageStated = typeof set.age === 'string' && set.age.trim();
         const updatedChar: Character = {
           ...existingChar,
-          age: typeof set.age === 'string' && set.age.trim() ? set.age : existingChar.age,
+          age: ageStated ? set.age : existingChar.age,
+          ageAnchorDay: ageStated ? ageAnchorDay : existingChar.ageAnchorDay,
           personality: typeof set.personality === 'string' && set.personality.trim() ? set.personality : existingChar.personality,
           currentCultivation: typeof set.currentCultivation === 'string' && set.currentCultivation.trim() 
             ? set.currentCultivation 
@@ -274,6 +280,7 @@ export async function mergeExtractedData(
           id: generateUUID(),
           name: String(u.name),
           age: String(u?.set?.age || 'Unknown'),
+          ageAnchorDay: u?.set?.age ? ageAnchorDay : undefined,
           personality: String(u?.set?.personality || 'Unknown'),
           currentCultivation: String(u?.set?.currentCultivation || 'Unknown'),
           skills: Array.isArray(u?.addSkills) ? u.addSkills.filter((s: any) => String(s).trim()) : [],
@@ -794,6 +801,14 @@ export async function mergeExtractedData(
     });
   }
 
+  // 7) Secrets and who learned them in this chapter
+  let mergedSecrets = updatedState.secrets;
+  if (extraction.secretUpdates && extraction.secretUpdates.length > 0) {
+    const secretResult = applySecretUpdates(mergedSecrets || [], extraction.secretUpdates, mergedCharacters, chapter.number);
+    mergedSecrets = secretResult.secrets;
+    secretResult.changes.forEach(change => logger.info(`[Backfill] ${change}`, 'backfill'));
+  }
+
   // Update chapter with scenes
   const updatedChapter: Chapter = extractedScenes.length > 0
     ? { ...chapter, scenes: extractedScenes }
@@ -824,6 +839,7 @@ export async function mergeExtractedData(
     antagonists: mergedAntagonists,
     storyThreads: mergedThreads,
     plotLedger: mergedLedger,
+    secrets: mergedSecrets,
     updatedAt: now,
   };
 }
@@ -18,6 +18,7 @@ import { generateUUID } from '../utils/uuid';
 import { runClerkAudit, hasMeaningfulUpdates, getDeltaSummary } from './clerk/clerkAgent';
 import { getOrBuildLoreBible, applyDeltaToLoreBible, createLoreBibleSnapshot } from './loreBible/loreBibleService';
 import { ClerkConfig, DEFAULT_CLERK_CONFIG } from '../types/clerk';
+import type { Secret } from '../types/secrets';
 
 /**
  * Update context tracking after chapter generation
@@ -57,12 +58,21 @@ interface PostChapterExtraction {
   }>;
 }
 
+/**
+ * Novel state the context update changed and the caller should save
+ */
+export interface ContextUpdateResult {
+  /** Secrets ledger after the Clerk's secret updates, when it had any */
+  secrets?: Secret[];
+}
+
 export async function updateContextAfterChapter(
   state: NovelState,
   newChapter: Chapter,
   extraction: PostChapterExtraction,
   clerkConfig?: Partial<ClerkConfig>
-): Promise<void> {
+): Promise<ContextUpdateResult> {
+  const result: ContextUpdateResult = {};
   try {
     // =========================================================================
     // AUTOMATIC THREAD DETECTION
@@ -255,7 +265,7 @@ export async function updateContextAfterChapter(
     // CLERK AGENT - Heavenly Record-Keeper
     // Update the Lore Bible with AI-powered state auditing
     // =========================================================================
-    await runClerkAgentUpdate(state, newChapter, clerkConfig);
+    result.secrets = await runClerkAgentUpdate(state, newChapter, clerkConfig);
 
     // Plot point resolution tracking is handled by:
     // 1. Thread updates (via processThreadUpdates)
@@ -270,17 +280,19 @@ export async function updateContextAfterChapter(
     console.error('Error updating context after chapter:', error);
     // Don't throw - context updates are non-critical
   }
+  return result;
 }
 
 /**
  * Run the Clerk agent to update the Lore Bible
  * This is the "Heavenly Record-Keeper" that maintains narrative consistency
+ * @returns The updated secrets ledger when the Clerk recorded secret changes
  */
 async function runClerkAgentUpdate(
   state: NovelState,
   newChapter: Chapter,
   config?: Partial<ClerkConfig>
-): Promise<void> {
+): Promise<Secret[] | undefined> {
   const finalConfig = { ...DEFAULT_CLERK_CONFIG, ...config };
 
   // Skip if Clerk is disabled
@@ -333,7 +345,8 @@ async function runClerkAgentUpdate(
     // Apply the delta to the Lore Bible
     const { bible: updatedBible, result: applyResult } = applyDeltaToLoreBible(
       currentBible,
-      clerkResult.delta
+      clerkResult.delta,
+      state
     );
 
     if (applyResult.success) {
@@ -370,12 +383,14 @@ async function runClerkAgentUpdate(
       });
     }
 
+    return applyResult.updatedSecrets;
   } catch (error) {
     // Clerk errors are non-critical - log and continue
     logger.error('Clerk agent error', 'clerk', error instanceof Error ? error : undefined, {
       chapterNumber: newChapter.number,
       error: error instanceof Error ? error.message : String(error),
     });
+    return undefined;
   }
 }
 
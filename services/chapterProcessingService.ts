@@ -12,6 +12,8 @@ import type {
     Arc,
 } from '../types';
 import { extractPostChapterUpdates } from './aiService';
+import { chapterInWorldDay } from './calendarService';
+import { applySecretUpdates } from './secretService';
 import { findOrCreateItem, findOrCreateTechnique } from './itemTechniqueService';
 import { generateUUID } from '../utils/uuid';
 import {
@@ -113,8 +115,9 @@ export async function processPostChapterUpdates(
         logger.warn('Consistency system processing failed', 'chapterProcessing');
     }
 
-    // Process character upserts
+    // Process character upserts; ages stated here are as of this chapter's day
     let mergedCharacters = [...novel.characterCodex];
+    const ageAnchorDay = chapterInWorldDay(novel, newChapter);
     extraction.characterUpserts?.forEach((u: any) => {
         const name = String(u?.name || '').trim();
         if (!name) return;
@@ -124,7 +127,10 @@ export async function processPostChapterUpdates(
             let char = { ...mergedCharacters[idx] };
             const set = u?.set || {};
 
-            if (set.age) char.age = set.age;
+            if (set.age) {
+                char.age = String(set.age);
+                char.ageAnchorDay = ageAnchorDay;
+            }
             if (set.personality) char.personality = set.personality;
             if (set.currentCultivation) char.currentCultivation = set.currentCultivation;
             if (set.appearance) char.appearance = set.appearance;
@@ -163,7 +169,8 @@ export async function processPostChapterUpdates(
             const newChar: Character = {
                 id: generateUUID(),
                 name: name,
-                age: u.set?.age || 0,
+                age: u.set?.age ? String(u.set.age) : 'Unknown',
+                ageAnchorDay: u.set?.age ? ageAnchorDay : undefined,
                 personality: u.set?.personality || 'Unknown',
                 currentCultivation: u.set?.currentCultivation || 'Unknown',
                 skills: u.addSkills || [],
@@ -344,6 +351,14 @@ export async function processPostChapterUpdates(
         }
     }
 
+    // Secrets: record new secrets and who learned them in this chapter
+    let secrets = novel.secrets;
+    if (extraction.secretUpdates && extraction.secretUpdates.length > 0) {
+        const secretResult = applySecretUpdates(secrets || [], extraction.secretUpdates, mergedCharacters, newChapter.number);
+        secrets = secretResult.secrets;
+        secretResult.changes.forEach(change => loggerAddLog(change, 'discovery'));
+    }
+
     // Update novel state
     return {
         ...novel,
@@ -356,6 +371,7 @@ export async function processPostChapterUpdates(
         novelTechniques: techniques,
         antagonists: updatedAntagonists,
         storyThreads: updatedThreads,
+        secrets,
         chapters: novel.chapters.map(c => c.id === newChapter.id ? { ...c, scenes: scenes.length > 0 ? scenes : c.scenes } : c),
         updatedAt: Date.now(),
     };
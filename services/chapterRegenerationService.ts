@@ -5,6 +5,7 @@ import { generateNextChapter } from './aiService';
 import { validateChapterQuality } from './chapterQualityValidator';
 import { calculateAIDetectionScore, compareAIDetectionScores } from './aiDetectionScoreTracker';
 import { generateUUID } from '../utils/uuid';
+import { isAbortError, throwIfAborted } from '../utils/streaming';
 import { detectRepetitions } from './repetitionDetector';
 import * as crypto from 'crypto';
 
@@ -276,7 +277,8 @@ async function regenerateChapter(
   failures: string[],
   config: RegenerationConfig,
   attemptNumber: number,
-  userInstruction?: string
+  userInstruction?: string,
+  signal?: AbortSignal
 ): Promise<Chapter> {
   // Build enhanced prompt with failure-specific constraints
   const basePrompt = await buildChapterPrompt(state, userInstruction || 'Regenerate with improved quality and originality');
@@ -314,7 +316,7 @@ async function regenerateChapter(
   };
   
   // Generate new chapter with enhanced constraints
-  const result = await generateNextChapter(state, userInstruction || 'Regenerate with improved quality and originality');
+  const result = await generateNextChapter(state, userInstruction || 'Regenerate with improved quality and originality', { signal });
   
   // Return the regenerated chapter
   return {
@@ -333,7 +335,8 @@ export async function regenerateWithQualityCheck(
   chapter: Chapter,
   state: NovelState,
   metrics: ChapterQualityMetrics,
-  config: RegenerationConfig = QUALITY_CONFIG
+  config: RegenerationConfig = QUALITY_CONFIG,
+  signal?: AbortSignal
 ): Promise<RegenerationResult> {
   const regenerationHistory: Array<{
     attempt: number;
@@ -347,6 +350,7 @@ export async function regenerateWithQualityCheck(
   const maxAttempts = config.maxAttempts;
 
   while (attempts < maxAttempts && shouldRegenerate(currentMetrics, config)) {
+    throwIfAborted(signal);
     attempts++;
     
     console.log(`[Regeneration] Attempt ${attempts}/${maxAttempts} for chapter ${chapter.number}`);
@@ -366,7 +370,9 @@ export async function regenerateWithQualityCheck(
         state,
         currentMetrics.regenerationReasons || [],
         config,
-        attempts
+        attempts,
+        undefined,
+        signal
       );
 
       // Validate regenerated chapter
@@ -420,6 +426,7 @@ export async function regenerateWithQualityCheck(
         };
       }
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error(`[Regeneration] Error on attempt ${attempts}:`, error);
       // Continue to next attempt or return current best
       if (attempts >= maxAttempts) {
@@ -456,6 +463,7 @@ export async function regenerateChapterWithImprovedSettings(
   opts?: {
     onPhase?: (phase: string, data?: Record<string, unknown>) => void;
     onProgress?: (message: string, progress: number) => void;
+    signal?: AbortSignal;
   }
 ): Promise<{ success: boolean; chapter: Chapter; oldMetrics?: any; newMetrics?: any }> {
   const chapter = state.chapters.find(ch => ch.id === chapterId);
@@ -489,6 +497,7 @@ export async function regenerateChapterWithImprovedSettings(
     `use diverse vocabulary, include sentence fragments, add dialogue interruptions, ` +
     `and ensure natural writing imperfections.`,
     {
+      signal: opts?.signal,
       onPhase: (phase, data) => {
         opts?.onPhase?.(phase, data);
         if (phase === 'pass_4_humanization_end') {
@@ -1,4 +1,5 @@
 import { NovelState, Chapter, Character } from '../types';
+import { getChapterAttribution, speakersIn } from './dialogueAttributionService';
 
 /**
  * Character Presence Tracker
@@ -35,16 +36,23 @@ export function trackCharacterPresence(
   chapters: Chapter[],
   characters: Character[]
 ): CharacterPresenceInfo[] {
+  const speakersByChapter = new Map(
+    chapters.map(ch => [ch.id, speakersIn(getChapterAttribution(ch, characters))])
+  );
+
   return characters.map(char => {
     const charNameLower = char.name.toLowerCase();
+    // Named in full, or credited with a line under a short name ("Feng said")
+    const appearsIn = (ch: Chapter) =>
+      (ch.content + ' ' + (ch.summary || '')).toLowerCase().includes(charNameLower) ||
+      Boolean(speakersByChapter.get(ch.id)?.has(char.id));
     const chaptersAppeared: number[] = [];
     let lastAppearanceChapter: number | null = null;
     let activityContext: string | undefined;
 
     // Find all chapters where character appears
     chapters.forEach(ch => {
-      const chContent = (ch.content + ' ' + (ch.summary || '')).toLowerCase();
-      if (chContent.includes(charNameLower)) {
+      if (appearsIn(ch)) {
         chaptersAppeared.push(ch.number);
         lastAppearanceChapter = ch.number;
 
@@ -82,18 +90,12 @@ export function trackCharacterPresence(
 
     // Check last 5 chapters for activity
     const recentChapters = chapters.slice(-5);
-    const appearedInRecent = recentChapters.some(ch => {
-      const chContent = (ch.content + ' ' + (ch.summary || '')).toLowerCase();
-      return chContent.includes(charNameLower);
-    });
+    const appearedInRecent = recentChapters.some(appearsIn);
 
     let recentActivityLevel: 'high' | 'medium' | 'low' | 'none';
     if (appearedInRecent) {
       // Count appearances in recent chapters
-      const recentAppearances = recentChapters.filter(ch => {
-        const chContent = (ch.content + ' ' + (ch.summary || '')).toLowerCase();
-        return chContent.includes(charNameLower);
-      }).length;
+      const recentAppearances = recentChapters.filter(appearsIn).length;
       
       if (recentAppearances >= 3) recentActivityLevel = 'high';
       else if (recentAppearances >= 2) recentActivityLevel = 'medium';
@@ -148,10 +150,7 @@ export function detectMissingCharacters(
 
     // Check if character was active recently but hasn't appeared in last N chapters
     if (presence.wasActiveRecently && presence.lastAppearanceChapter) {
-      const appearedInLastChapters = lastChaptersToCheck.some(ch => {
-        const chContent = (ch.content + ' ' + (ch.summary || '')).toLowerCase();
-        return chContent.includes(presence.characterName.toLowerCase());
-      });
+      const appearedInLastChapters = lastChaptersToCheck.some(ch => presence.chaptersAppeared.includes(ch.number));
 
       if (!appearedInLastChapters) {
         let warningLevel: 'critical' | 'warning' | 'info';
@@ -180,10 +179,7 @@ export function detectMissingCharacters(
         presence.chaptersSinceLastAppearance > 3 &&
         presence.chaptersSinceLastAppearance <= maxChaptersSinceAppearance) {
       // Character was recurring but hasn't appeared recently
-      const appearedInLastChapters = lastChaptersToCheck.some(ch => {
-        const chContent = (ch.content + ' ' + (ch.summary || '')).toLowerCase();
-        return chContent.includes(presence.characterName.toLowerCase());
-      });
+      const appearedInLastChapters = lastChaptersToCheck.some(ch => presence.chaptersAppeared.includes(ch.number));
 
       if (!appearedInLastChapters && !warnings.some(w => w.characterId === presence.characterId)) {
         warnings.push({
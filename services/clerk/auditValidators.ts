@@ -16,8 +16,11 @@ import {
   CharacterStateUpdate,
   ConflictUpdate,
   KarmaDebtUpdate,
+  CultivationAuditResult,
 } from '../../types/clerk';
+import type { SecretUpdate } from '../../types/secrets';
 import { logger } from '../loggingService';
+import { getPowerLevelSystem } from '../powerLevelSystem';
 
 /**
  * Validate a complete Clerk delta
@@ -70,6 +73,13 @@ export function validateClerkDelta(
     errors.push(...powerErrors);
   }
 
+  // Validate secret updates
+  if (delta.updates.secrets) {
+    for (const secretUpdate of delta.updates.secrets) {
+      errors.push(...validateSecretUpdate(secretUpdate, state));
+    }
+  }
+
   // Check for warnings from continuity flags
   if (delta.observations.continuityFlags) {
     for (const flag of delta.observations.continuityFlags) {
@@ -143,6 +153,45 @@ function validateCultivationUpdate(
 ): DeltaValidationError[] {
   const errors: DeltaValidationError[] = [];
 
+  // Novels with their own power ladder are checked against its stages and rules
+  if (state.powerSystems && state.powerSystems.length > 0) {
+    const previousLevel = `${current.realm} ${current.stage || ''}`.trim();
+    const newLevel = `${update.realm || current.realm} ${update.stage ?? current.stage ?? ''}`.trim();
+    const audit = auditCultivationChange(previousLevel, newLevel, state);
+
+    if (audit.stageJump !== undefined && audit.stageJump > 1) {
+      errors.push({
+        field: 'protagonist.cultivation.realm',
+        message: `Suspicious cultivation jump: ${previousLevel} → ${newLevel} (${audit.stageJump} stages on ${audit.ladderName})`,
+        severity: 'warning',
+        invalidValue: update.realm,
+        suggestion: 'Verify this is supported by the chapter text',
+      });
+    }
+
+    if (audit.hasRegression && !audit.regressionAllowed) {
+      errors.push({
+        field: 'protagonist.cultivation.realm',
+        message: `Cultivation regression: ${previousLevel} → ${newLevel}`,
+        severity: 'warning',
+        invalidValue: update.realm,
+        suggestion: 'Ensure regression is explicitly justified (injury, curse, etc.)',
+      });
+    }
+
+    if (update.realm && audit.newStageOrder === 0) {
+      errors.push({
+        field: 'protagonist.cultivation.realm',
+        message: `Unknown cultivation realm "${update.realm}" is not on the novel's power ladder`,
+        severity: 'warning',
+        invalidValue: update.realm,
+        suggestion: 'Use a stage name from the World Bible power system, or add it there',
+      });
+    }
+
+    return errors;
+  }
+
   // Check for unreasonable realm jumps (more than 2 major realms at once)
   if (update.realm && current.realm && update.realm !== current.realm) {
     const knownRealms = getKnownRealmHierarchy(state);
@@ -425,6 +474,33 @@ function validateKarmaDebtUpdate(
   return errors;
 }
 
+/**
+ * Validate a secret update: the characters who learn it should exist
+ */
+function validateSecretUpdate(
+  update: SecretUpdate,
+  state: NovelState
+): DeltaValidationError[] {
+  const errors: DeltaValidationError[] = [];
+
+  for (const entry of update.learnedBy || []) {
+    const known = state.characterCodex.some(
+      c => c.name.toLowerCase() === String(entry.characterName || '').toLowerCase()
+    );
+    if (!known) {
+      errors.push({
+        field: `secrets.${update.title}.learnedBy`,
+        message: `Secret holder "${entry.characterName}" is not a known character`,
+        severity: 'warning',
+        invalidValue: entry,
+        suggestion: 'Verify the character name or add them to the character codex',
+      });
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validate power system updates
  */
@@ -459,6 +535,42 @@ function validatePowerSystemUpdate(
   return errors;
 }
 
+/**
+ * Audit a cultivation change against the novel's power ladder
+ */
+export function auditCultivationChange(
+  previousLevel: string,
+  newLevel: string,
+  state: NovelState,
+  changeReason?: string
+): CultivationAuditResult {
+  const powerSystem = getPowerLevelSystem(state);
+  const previous = powerSystem.parsePowerLevel(previousLevel);
+  const next = powerSystem.parsePowerLevel(newLevel);
+  const comparison = powerSystem.comparePowerLevels(previousLevel, newLevel);
+  const ladder = next?.hierarchyId ? powerSystem.getHierarchy(next.hierarchyId) : null;
+  // Stage orders only compare on one ladder; a move to a parallel path is not a jump
+  const stageJump = previous?.order && next?.order && previous.hierarchyId === next.hierarchyId
+    ? next.order - previous.order
+    : undefined;
+  const known = stageJump !== undefined;
+
+  return {
+    hasBreakthrough: known && comparison < 0,
+    hasRegression: known && comparison > 0,
+    hasInjury: /injur|crippl|wound|backlash/i.test(changeReason || ''),
+    previousLevel,
+    newLevel,
+    changeReason,
+    confidence: known ? 0.9 : 0.4,
+    ladderName: ladder ? ladder.name || ladder.id : undefined,
+    previousStageOrder: previous?.order,
+    newStageOrder: next?.order,
+    stageJump,
+    regressionAllowed: powerSystem.getProgressionRules(newLevel).allowRegression,
+  };
+}
+
 /**
  * Get known realm hierarchy from novel state
  */
@@ -15,7 +15,7 @@ import {
   DEFAULT_CLERK_CONFIG,
   ContinuityFlag,
 } from '../../types/clerk';
-import { deepseekJson } from '../deepseekService';
+import { routeJsonTask } from '../modelOrchestrator';
 import { logger } from '../loggingService';
 import { buildLoreBible } from '../loreBible/loreBibleService';
 import { CLERK_SYSTEM_PROMPT, buildClerkUserPrompt, buildQuickClerkPrompt } from './clerkPrompts';
@@ -56,13 +56,13 @@ export async function runClerkAudit(
     // Build the prompt
     const userPrompt = buildClerkUserPrompt(currentBible, chapter, state);
 
-    // Call DeepSeek
-    const rawResponse = await deepseekJson<ClerkRawResponse>({
-      model: 'deepseek-chat', // Explicitly use deepseek-chat
+    // Call the metadata_extraction provider
+    const rawResponse = await routeJsonTask<ClerkRawResponse>('metadata_extraction', {
       system: CLERK_SYSTEM_PROMPT,
       user: userPrompt,
       temperature: finalConfig.temperature,
       maxTokens: finalConfig.maxTokens,
+      usageContext: { novelId: state.id, chapterNumber: chapter.number },
     });
 
     // Construct the delta
@@ -165,12 +165,12 @@ export async function runQuickClerkAudit(
     const currentBible = buildLoreBible(state, chapter.number - 1);
     const userPrompt = buildQuickClerkPrompt(currentBible, chapter);
 
-    const rawResponse = await deepseekJson<ClerkRawResponse>({
-      model: 'deepseek-chat',
+    const rawResponse = await routeJsonTask<ClerkRawResponse>('metadata_extraction', {
       system: CLERK_SYSTEM_PROMPT,
       user: userPrompt,
       temperature: finalConfig.temperature,
       maxTokens: 2048, // Smaller for quick audit
+      usageContext: { novelId: state.id, chapterNumber: chapter.number },
     });
 
     const delta: ClerkDelta = {
@@ -267,6 +267,7 @@ export function hasMeaningfulUpdates(delta: ClerkDelta): boolean {
   if (updates.activeConflicts?.length) return true;
   if (updates.karmaDebts?.length) return true;
   if (updates.powerSystem && Object.keys(updates.powerSystem).length > 0) return true;
+  if (updates.secrets?.length) return true;
 
   return false;
 }
@@ -308,6 +309,10 @@ export function getDeltaSummary(delta: ClerkDelta): string {
     parts.push(`${updates.karmaDebts.length} karma debts`);
   }
 
+  if (updates.secrets?.length) {
+    parts.push(`${updates.secrets.length} secrets`);
+  }
+
   if (parts.length === 0) {
     return 'No updates';
   }
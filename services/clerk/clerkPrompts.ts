@@ -58,6 +58,12 @@ Use the relationship spectrum: Sworn Enemy → Enemy → Rival → Neutral → A
 - RESOLVED: Threads concluded, promises fulfilled
 - FORESHADOWED: Future events hinted at
 
+#### 5. SECRETS AUDIT
+- NEW SECRETS: Hidden bloodlines, disguised identities, stolen techniques, concealed crimes
+- SPREAD: Who learned an existing secret in this chapter, and how (told, discovered, overheard)
+- PUBLIC: Mark a secret "revealed" only when it becomes common knowledge
+- Use the exact title of a known secret when updating it
+
 ### OUTPUT RULES:
 
 1. Return ONLY a valid JSON object matching the ClerkDelta schema
@@ -103,6 +109,17 @@ export function buildClerkUserPrompt(
     .map(c => `- ${c.name} (${c.status}, ${c.currentCultivation || 'Unknown level'})`)
     .join('\n');
 
+  // Known secrets and their holders, so updates reuse existing titles
+  const secretsContext = (novelState.secrets || [])
+    .slice(0, 20)
+    .map(s => {
+      const holders = s.holders
+        .map(h => novelState.characterCodex.find(c => c.id === h.characterId)?.name)
+        .filter(Boolean);
+      return `- "${s.title}" (${s.status}): known by ${holders.join(', ') || 'no one recorded'}`;
+    })
+    .join('\n') || 'No secrets recorded';
+
   return `
 === CURRENT LORE BIBLE ===
 ${loreBibleJson}
@@ -113,6 +130,9 @@ ${activeThreadsContext}
 === CHARACTER ROSTER (for relationship matching) ===
 ${characterList}
 
+=== KNOWN SECRETS (for matching) ===
+${secretsContext}
+
 === LATEST CHAPTER (Chapter ${chapter.number}: "${chapter.title}") ===
 ${chapterContent}
 
@@ -134,6 +154,9 @@ Think: How did relationships change? Any new debts or resolved obligations?
 STEP 4 - THREAD AUDIT:
 Think: Were any story threads introduced, progressed, or resolved?
 
+STEP 5 - SECRETS AUDIT:
+Think: Was a secret introduced, told to someone, discovered, or made public?
+
 After your analysis, return ONLY a JSON object with this structure:
 
 {
@@ -144,14 +167,16 @@ After your analysis, return ONLY a JSON object with this structure:
     "narrativeAnchors": { /* only include if narrative anchors changed */ },
     "activeConflicts": [ /* only include conflicts that changed */ ],
     "karmaDebts": [ /* only include debts that changed */ ],
-    "powerSystem": { /* only include if power system info changed */ }
+    "powerSystem": { /* only include if power system info changed */ },
+    "secrets": [ /* { "title", "description", "category", "keywords", "subjectName", "status", "learnedBy": [{ "characterName", "how", "toldByName" }] } for secrets that changed */ ]
   },
   "observations": {
     "reasoning": [
       "Step 1: [Your cultivation audit reasoning]",
       "Step 2: [Your inventory audit reasoning]",
       "Step 3: [Your karmic ties reasoning]",
-      "Step 4: [Your thread management reasoning]"
+      "Step 4: [Your thread management reasoning]",
+      "Step 5: [Your secrets audit reasoning]"
     ],
     "warnings": [ /* Any potential consistency issues */ ],
     "continuityFlags": [ /* Flags for attention */ ]
@@ -338,6 +363,7 @@ export const CLERK_DELTA_SCHEMA = {
         activeConflicts: { type: 'array' },
         karmaDebts: { type: 'array' },
         powerSystem: { type: 'object' },
+        secrets: { type: 'array' },
       },
     },
     observations: {
@@ -29,6 +29,9 @@ import {
   ProtagonistUpdate,
   PowerSystemUpdate,
 } from '../../types/clerk';
+import type { NovelState } from '../../types';
+import type { Secret } from '../../types/secrets';
+import { applySecretUpdates } from '../secretService';
 import { logger } from '../loggingService';
 import { generateUUID } from '../../utils/uuid';
 
@@ -40,17 +43,22 @@ export interface DeltaApplyResult {
   updatedBible: LoreBible;
   changesApplied: string[];
   errors: string[];
+  /** The novel's secrets with the delta's secret updates merged in; set only when it had any */
+  updatedSecrets?: Secret[];
 }
 
 /**
- * Apply a Clerk delta to the Lore Bible
+ * Apply a Clerk delta to the Lore Bible. Secrets live on the novel rather than
+ * the bible, so they are merged into the novel's ledger and returned apart.
  */
 export function applyClerkDelta(
   bible: LoreBible,
-  delta: ClerkDelta
+  delta: ClerkDelta,
+  novel: Pick<NovelState, 'secrets' | 'characterCodex'>
 ): DeltaApplyResult {
   const changesApplied: string[] = [];
   const errors: string[] = [];
+  let updatedSecrets: Secret[] | undefined;
 
   // Deep clone the bible to avoid mutations
   const updatedBible: LoreBible = JSON.parse(JSON.stringify(bible));
@@ -119,6 +127,18 @@ export function applyClerkDelta(
       changesApplied.push(...result.changes);
     }
 
+    // Apply secret updates
+    if (delta.updates.secrets && delta.updates.secrets.length > 0) {
+      const result = applySecretUpdates(
+        novel.secrets || [],
+        delta.updates.secrets,
+        novel.characterCodex,
+        delta.chapterNumber
+      );
+      changesApplied.push(...result.changes);
+      updatedSecrets = result.secrets;
+    }
+
     // Update metadata
     updatedBible.asOfChapter = delta.chapterNumber;
     updatedBible.updatedAt = Date.now();
@@ -136,6 +156,7 @@ export function applyClerkDelta(
       updatedBible,
       changesApplied,
       errors,
+      updatedSecrets,
     };
 
   } catch (error) {
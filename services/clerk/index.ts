@@ -18,8 +18,9 @@
  *   const validation = validateClerkDelta(result.delta, loreBible, novelState);
  *   
  *   if (validation.valid) {
- *     // Apply to Lore Bible
- *     const applied = applyClerkDelta(loreBible, result.delta);
+ *     // Apply to Lore Bible; secret updates come back for the novel
+ *     const applied = applyClerkDelta(loreBible, result.delta, novelState);
+ *     if (applied.updatedSecrets) novelState = { ...novelState, secrets: applied.updatedSecrets };
  *   }
  * }
  * ```
@@ -52,6 +53,7 @@ export {
 
 export {
   validateClerkDelta,
+  auditCultivationChange,
   validateAgainstChapterText,
 } from './auditValidators';
 
@@ -0,0 +1,189 @@
+/**
+ * Collaboration Session
+ *
+ * Connects one chapter's TextDocument to the local collaboration relay
+ * (server/collabRelay.js): local edits are sent as operations, remote ones are
+ * applied as they arrive, and cursors are shared as relative positions.
+ * Reconnects on its own; edits made while offline are sent on reconnect.
+ */
+
+import type {
+  CollabClientMessage,
+  CollabCursor,
+  CollabPeer,
+  CollabServerMessage,
+  CollabStatus,
+  CollabUser,
+  CrdtOperation,
+} from '../../types/collab';
+import { TextDocument } from './textDocument';
+import { generateUUID } from '../../utils/uuid';
+import { logger } from '../loggingService';
+
+const MAX_RECONNECT_DELAY_MS = 15000;
+
+export interface CollabSessionEvents {
+  /** Text changed by a collaborator */
+  onRemoteChange: (text: string) => void;
+  onPeersChange: (peers: CollabPeer[]) => void;
+  onStatusChange: (status: CollabStatus) => void;
+}
+
+export class CollabSession {
+  readonly doc: TextDocument;
+  private socket: WebSocket | null = null;
+  private peers = new Map<string, CollabPeer>();
+  private unsent: CrdtOperation[] = [];
+  private cursor: CollabCursor | null = null;
+  private synced = false;
+  /** Whether the document has been synced with the room at least once */
+  private joined = false;
+  private closed = false;
+  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly url: string,
+    private readonly room: string,
+    private readonly user: CollabUser,
+    /** Current editor text: the room's starting text when this peer is the first in it */
+    private readonly getLocalText: () => string,
+    private readonly events: CollabSessionEvents
+  ) {
+    this.doc = new TextDocument(generateUUID().slice(0, 8));
+  }
+
+  connect(): void {
+    if (this.closed) return;
+    this.events.onStatusChange('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      logger.warn('Collaboration relay unreachable', 'collab', { url: this.url, error: error instanceof Error ? error.message : String(error) });
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = 1000;
+      this.send({ type: 'join', room: this.room, clientId: this.doc.clientId, user: this.user });
+    };
+    socket.onmessage = event => {
+      try {
+        this.handleMessage(JSON.parse(String(event.data)) as CollabServerMessage);
+      } catch (error) {
+        logger.warn('Ignoring malformed collaboration message', 'collab', { error: error instanceof Error ? error.message : String(error) });
+      }
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      this.synced = false;
+      this.peers.clear();
+      this.events.onPeersChange([]);
+      if (!this.closed) this.scheduleReconnect();
+    };
+    socket.onerror = () => {
+      // onclose follows and reconnects
+    };
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  get isSynced(): boolean {
+    return this.synced;
+  }
+
+  /** Record the editor's new text as operations and send them (or keep them until reconnected) */
+  applyLocalText(text: string): void {
+    if (!this.joined) return;
+    const ops = this.doc.applyTextChange(text);
+    if (ops.length > 0) this.sendOps(ops);
+  }
+
+  setCursor(start: number, end: number): void {
+    this.cursor = { anchor: this.doc.relativePosition(start), head: this.doc.relativePosition(end) };
+    if (this.synced) this.send({ type: 'presence', cursor: this.cursor });
+  }
+
+  /** The local selection as it stands in the current text */
+  localSelection(): { start: number; end: number } | undefined {
+    if (!this.cursor) return undefined;
+    const anchor = this.doc.absolutePosition(this.cursor.anchor);
+    const head = this.doc.absolutePosition(this.cursor.head);
+    if (anchor === undefined || head === undefined) return undefined;
+    return { start: Math.min(anchor, head), end: Math.max(anchor, head) };
+  }
+
+  private handleMessage(message: CollabServerMessage): void {
+    switch (message.type) {
+      case 'sync': {
+        const before = this.doc.getText();
+        this.doc.apply(message.ops);
+        if (message.seed) {
+          // First in the room: our text (the saved chapter, or what we had
+          // before the relay restarted) becomes the room's
+          if (!this.joined) {
+            this.doc.apply([TextDocument.seedOperation(this.getLocalText())]);
+          }
+          this.unsent = [];
+          this.send({ type: 'ops', ops: this.doc.encodeState() });
+        } else if (this.unsent.length > 0) {
+          this.send({ type: 'ops', ops: this.unsent });
+          this.unsent = [];
+        }
+        this.synced = true;
+        // With no operations yet, another peer is providing the starting text
+        if (message.seed || message.ops.length > 0) this.joined = true;
+        this.peers = new Map(message.peers.map(peer => [peer.clientId, peer]));
+        this.events.onPeersChange([...this.peers.values()]);
+        this.events.onStatusChange('connected');
+        if (this.doc.getText() !== before || message.seed) this.events.onRemoteChange(this.doc.getText());
+        if (this.cursor) this.send({ type: 'presence', cursor: this.cursor });
+        break;
+      }
+      case 'ops':
+        // Edits typed since the last render go in first, so they are not overwritten
+        this.applyLocalText(this.getLocalText());
+        this.joined = true;
+        if (this.doc.apply(message.ops)) this.events.onRemoteChange(this.doc.getText());
+        break;
+      case 'presence':
+        if (message.peer.clientId === this.doc.clientId) return;
+        this.peers.set(message.peer.clientId, message.peer);
+        this.events.onPeersChange([...this.peers.values()]);
+        break;
+      case 'leave':
+        this.peers.delete(message.clientId);
+        this.events.onPeersChange([...this.peers.values()]);
+        break;
+    }
+  }
+
+  private sendOps(ops: CrdtOperation[]): void {
+    if (this.synced && this.socket?.readyState === WebSocket.OPEN) {
+      this.send({ type: 'ops', ops });
+    } else {
+      this.unsent.push(...ops);
+    }
+  }
+
+  private send(message: CollabClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private scheduleReconnect(): void {
+    this.events.onStatusChange('offline');
+    this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  }
+}
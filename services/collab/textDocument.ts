@@ -0,0 +1,253 @@
+/**
+ * Text Document CRDT
+ *
+ * Replicated chapter text (an RGA sequence). Every character is an item with a
+ * unique Lamport id and the id of the item it was typed after; deleted items
+ * stay as tombstones so that positions and comment anchors can still point at
+ * them. Peers applying the same operations in any order end with the same text.
+ */
+
+import type { CommentAnchor, CrdtItemId, CrdtOperation, RelativePosition } from '../../types/collab';
+import type { TextRange } from '../../types/editor';
+
+interface Item {
+  id: CrdtItemId;
+  client: string;
+  clock: number;
+  origin: CrdtItemId | null;
+  char: string;
+  deleted: boolean;
+}
+
+type InsertOperation = Extract<CrdtOperation, { type: 'insert' }>;
+
+const itemId = (client: string, clock: number): CrdtItemId => `${client}:${clock}`;
+
+/** Later items win the place right after their origin */
+function isAfter(a: Item, b: { clock: number; client: string }): boolean {
+  if (a.clock !== b.clock) return a.clock > b.clock;
+  return a.client > b.client;
+}
+
+/** Client id of the starting text, the same on every peer for the same content */
+export function seedClientFor(content: string): string {
+  let hash = 5381;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+  }
+  return `seed-${(hash >>> 0).toString(36)}-${content.length}`;
+}
+
+export class TextDocument {
+  readonly clientId: string;
+  private items: Item[] = [];
+  private byId = new Map<CrdtItemId, Item>();
+  private clock = 0;
+  /** Operations waiting for an item they refer to */
+  private pending: CrdtOperation[] = [];
+  private text = '';
+  private textDirty = false;
+
+  constructor(clientId: string) {
+    this.clientId = clientId;
+  }
+
+  getText(): string {
+    if (this.textDirty) {
+      this.text = this.items.filter(item => !item.deleted).map(item => item.char).join('');
+      this.textDirty = false;
+    }
+    return this.text;
+  }
+
+  /** Operation that puts `content` in an empty document, identical on every peer */
+  static seedOperation(content: string): CrdtOperation {
+    return { type: 'insert', client: seedClientFor(content), clock: 1, origin: null, text: content };
+  }
+
+  insert(index: number, text: string): CrdtOperation | null {
+    if (!text) return null;
+    const origin = index > 0 ? this.visibleItemAt(index - 1)?.id ?? null : null;
+    const op: CrdtOperation = { type: 'insert', client: this.clientId, clock: this.clock + 1, origin, text };
+    this.apply([op]);
+    return op;
+  }
+
+  delete(index: number, length: number): CrdtOperation | null {
+    const ids: CrdtItemId[] = [];
+    let visible = 0;
+    for (const item of this.items) {
+      if (item.deleted) continue;
+      if (visible >= index + length) break;
+      if (visible >= index) ids.push(item.id);
+      visible++;
+    }
+    if (ids.length === 0) return null;
+    const op: CrdtOperation = { type: 'delete', ids };
+    this.apply([op]);
+    return op;
+  }
+
+  /**
+   * Turn the document into `next` with one deletion and one insertion around
+   * the changed middle, which is what a single edit in a textarea produces
+   */
+  applyTextChange(next: string): CrdtOperation[] {
+    const current = this.getText();
+    if (current === next) return [];
+
+    let prefix = 0;
+    const maxPrefix = Math.min(current.length, next.length);
+    while (prefix < maxPrefix && current[prefix] === next[prefix]) prefix++;
+    let suffix = 0;
+    const maxSuffix = Math.min(current.length, next.length) - prefix;
+    while (suffix < maxSuffix && current[current.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++;
+
+    const ops: CrdtOperation[] = [];
+    const removed = this.delete(prefix, current.length - prefix - suffix);
+    if (removed) ops.push(removed);
+    const inserted = this.insert(prefix, next.slice(prefix, next.length - suffix));
+    if (inserted) ops.push(inserted);
+    return ops;
+  }
+
+  /**
+   * Apply local or remote operations. Already applied ones are ignored, and
+   * ones arriving before what they refer to wait until it does.
+   * Returns whether the text changed.
+   */
+  apply(ops: CrdtOperation[]): boolean {
+    let changed = false;
+    let queue = [...this.pending, ...ops];
+    this.pending = [];
+
+    let progressed = true;
+    while (queue.length > 0 && progressed) {
+      progressed = false;
+      const waiting: CrdtOperation[] = [];
+      for (const op of queue) {
+        const result = op.type === 'insert' ? this.integrateInsert(op) : this.integrateDelete(op.ids);
+        if (result === 'waiting') {
+          waiting.push(op);
+        } else {
+          progressed = true;
+          if (result === 'changed') changed = true;
+        }
+      }
+      queue = waiting;
+    }
+    this.pending = queue;
+    if (changed) this.textDirty = true;
+    return changed;
+  }
+
+  private integrateInsert(op: InsertOperation): 'changed' | 'unchanged' | 'waiting' {
+    if (op.origin && !this.byId.has(op.origin)) return 'waiting';
+    let origin = op.origin;
+    let changed = false;
+
+    for (let offset = 0; offset < op.text.length; offset++) {
+      const clock = op.clock + offset;
+      const id = itemId(op.client, clock);
+      if (!this.byId.has(id)) {
+        const item: Item = { id, client: op.client, clock, origin, char: op.text[offset], deleted: false };
+        let index = origin ? this.items.indexOf(this.byId.get(origin)!) + 1 : 0;
+        // Concurrent inserts after the same origin: the later one comes first,
+        // and everything typed after it (which is later still) stays with it
+        while (index < this.items.length && isAfter(this.items[index], item)) index++;
+        this.items.splice(index, 0, item);
+        this.byId.set(id, item);
+        changed = true;
+      }
+      origin = id;
+    }
+    this.clock = Math.max(this.clock, op.clock + op.text.length - 1);
+    return changed ? 'changed' : 'unchanged';
+  }
+
+  private integrateDelete(ids: CrdtItemId[]): 'changed' | 'unchanged' | 'waiting' {
+    if (ids.some(id => !this.byId.has(id))) return 'waiting';
+    let changed = false;
+    ids.forEach(id => {
+      const item = this.byId.get(id)!;
+      if (!item.deleted) {
+        item.deleted = true;
+        changed = true;
+      }
+    });
+    return changed ? 'changed' : 'unchanged';
+  }
+
+  /** The whole document as operations, for a peer or relay that has none of it */
+  encodeState(): CrdtOperation[] {
+    const ops: CrdtOperation[] = [];
+    let run: InsertOperation | null = null;
+    let previous: Item | null = null;
+
+    for (const item of this.items) {
+      const continuesRun = run && previous
+        && item.client === run.client
+        && item.origin === previous.id
+        && item.clock === previous.clock + 1;
+      if (continuesRun) {
+        run!.text += item.char;
+      } else {
+        run = { type: 'insert', client: item.client, clock: item.clock, origin: item.origin, text: item.char };
+        ops.push(run);
+      }
+      previous = item;
+    }
+
+    // Items are listed in document order, so an origin always precedes its run
+    const deleted = this.items.filter(item => item.deleted).map(item => item.id);
+    if (deleted.length > 0) ops.push({ type: 'delete', ids: deleted });
+    return ops;
+  }
+
+  private visibleItemAt(index: number): Item | undefined {
+    let visible = 0;
+    for (const item of this.items) {
+      if (item.deleted) continue;
+      if (visible === index) return item;
+      visible++;
+    }
+    return undefined;
+  }
+
+  /** Visible characters up to and including `id` (or before it, with `inclusive` off) */
+  private offsetOf(id: CrdtItemId, inclusive: boolean): number | undefined {
+    const target = this.byId.get(id);
+    if (!target) return undefined;
+    let visible = 0;
+    for (const item of this.items) {
+      if (item === target) return inclusive && !item.deleted ? visible + 1 : visible;
+      if (!item.deleted) visible++;
+    }
+    return undefined;
+  }
+
+  /** Cursor at `index` as the item it follows */
+  relativePosition(index: number): RelativePosition {
+    return index > 0 ? this.visibleItemAt(index - 1)?.id ?? null : null;
+  }
+
+  /** Current index of a relative position; undefined when its item is unknown */
+  absolutePosition(position: RelativePosition): number | undefined {
+    return position === null ? 0 : this.offsetOf(position, true);
+  }
+
+  anchorRange(range: TextRange): CommentAnchor | undefined {
+    if (range.end <= range.start) return undefined;
+    const start = this.visibleItemAt(range.start);
+    const end = this.visibleItemAt(range.end - 1);
+    return start && end ? { startId: start.id, endId: end.id } : undefined;
+  }
+
+  /** Current range of an anchor, or undefined when it is not from this document */
+  resolveAnchor(anchor: CommentAnchor): TextRange | undefined {
+    const start = this.offsetOf(anchor.startId, false);
+    const end = this.offsetOf(anchor.endId, true);
+    if (start === undefined || end === undefined) return undefined;
+    return { start, end: Math.max(start, end) };
+  }
+}
@@ -38,6 +38,7 @@ export async function getComments(chapterId: string): Promise<EditorComment[]> {
       entityType: comment.entity_type as 'chapter' | 'scene',
       entityId: comment.entity_id,
       textRange: comment.text_range as { start: number; end: number },
+      anchor: comment.anchor || undefined,
       selectedText: comment.selected_text,
       comment: comment.comment,
       author: comment.author as 'user' | 'ai',
@@ -61,6 +62,7 @@ export async function createComment(input: CreateCommentInput): Promise<EditorCo
         entity_type: input.entityType,
         entity_id: input.entityId,
         text_range: input.textRange,
+        anchor: input.anchor || null,
         selected_text: input.selectedText,
         comment: input.comment,
         author: input.author || 'user',
@@ -80,6 +82,7 @@ export async function createComment(input: CreateCommentInput): Promise<EditorCo
       entityType: data.entity_type as 'chapter' | 'scene',
       entityId: data.entity_id,
       textRange: data.text_range as { start: number; end: number },
+      anchor: data.anchor || undefined,
       selectedText: data.selected_text,
       comment: data.comment,
       author: data.author as 'user' | 'ai',
@@ -102,6 +105,14 @@ export async function updateComment(commentId: string, updates: UpdateCommentInp
       updateData.comment = updates.comment;
     }
     
+    if (updates.textRange !== undefined) {
+      updateData.text_range = updates.textRange;
+    }
+
+    if (updates.selectedText !== undefined) {
+      updateData.selected_text = updates.selectedText;
+    }
+
     if (updates.resolved !== undefined) {
       updateData.resolved = updates.resolved;
       if (updates.resolved) {
@@ -129,6 +140,7 @@ export async function updateComment(commentId: string, updates: UpdateCommentInp
       entityType: data.entity_type as 'chapter' | 'scene',
       entityId: data.entity_id,
       textRange: data.text_range as { start: number; end: number },
+      anchor: data.anchor || undefined,
       selectedText: data.selected_text,
       comment: data.comment,
       author: data.author as 'user' | 'ai',
@@ -38,7 +38,7 @@ export class ConsistencyAutoCorrector {
   ): AutoCorrection[] {
     const corrections: AutoCorrection[] = [];
     const graphService = getKnowledgeGraphService();
-    const powerSystem = getPowerLevelSystem();
+    const powerSystem = getPowerLevelSystem(state);
 
     issues.forEach((issue, index) => {
       // Only suggest corrections for certain types
@@ -15,6 +15,8 @@ import { normalize } from '../utils/textProcessor';
 import { getKnowledgeGraphService } from './knowledgeGraphService';
 import { getPowerLevelSystem } from './powerLevelSystem';
 import { getEntityStateTracker } from './entityStateTracker';
+import { checkCalendarContinuity } from './calendarService';
+import { checkPovKnowledge } from './povService';
 
 export interface ConsistencyIssue {
   type: ConsistencyIssueType;
@@ -36,7 +38,8 @@ export type ConsistencyIssueType =
   | 'character-state-mismatch'
   | 'cultivation-jump'
   | 'missing-character'
-  | 'duplicate-event';
+  | 'duplicate-event'
+  | 'pov-knowledge';
 
 export interface ConsistencyReport {
   issues: ConsistencyIssue[];
@@ -235,6 +238,9 @@ function checkMissingCharacters(
 
   // Check if at least one protagonist appears in each chapter
   chapters.forEach(chapter => {
+    // Chapters told from another character's point of view are deliberate
+    if (chapter.povCharacterId && !protagonists.some(p => p.id === chapter.povCharacterId)) return;
+
     const chapterText = (chapter.content || chapter.summary || '').toLowerCase();
     const protagonistPresent = protagonists.some(p => textContainsCharacterName(chapterText, p.name));
     
@@ -296,7 +302,7 @@ function checkRelationshipConsistency(
 export function checkConsistency(state: NovelState): ConsistencyReport {
   const issues: ConsistencyIssue[] = [];
   const graphService = getKnowledgeGraphService();
-  const powerSystem = getPowerLevelSystem();
+  const powerSystem = getPowerLevelSystem(state);
   const stateTracker = getEntityStateTracker();
 
   // Initialize graph if needed
@@ -345,10 +351,14 @@ export function checkConsistency(state: NovelState): ConsistencyReport {
 
   // 2. Check timeline continuity
   issues.push(...checkTimelineContinuity(state.chapters, state.plotLedger));
+  issues.push(...checkCalendarContinuity(state));
 
   // 3. Check for missing characters
   issues.push(...checkMissingCharacters(state, state.chapters));
 
+  // Viewpoint characters referring to facts they have not learned
+  issues.push(...checkPovKnowledge(state));
+
   // 4. Check relationship consistency (enhanced with graph)
   issues.push(...checkRelationshipConsistency(state.characterCodex));
   
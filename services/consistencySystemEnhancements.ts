@@ -27,7 +27,7 @@ export function validatePowerLevelWithContext(
   issues: string[];
   suggestions: string[];
 } {
-  const powerSystem = getPowerLevelSystem();
+  const powerSystem = getPowerLevelSystem(state);
   const graphService = getKnowledgeGraphService();
   
   const issues: string[] = [];
@@ -280,7 +280,7 @@ export function checkCrossEntityConsistency(
   }> = [];
 
   const graphService = getKnowledgeGraphService();
-  const powerSystem = getPowerLevelSystem();
+  const powerSystem = getPowerLevelSystem(state);
 
   // Check power level relationships between characters
   state.characterCodex.forEach(char1 => {
@@ -71,7 +71,8 @@ export function getContextLimitsForModel(model: ModelProvider): ContextLimits {
 
 /**
  * Estimates token count from character count (rough approximation)
- * Generally: 1 token ≈ 4 characters for English text
+ * Generally: 1 token ≈ 4 characters for English text. Only for sizing limits
+ * when no text is at hand; count real text with countTokens from promptEngine/tokenEstimator.
  */
 export function estimateTokensFromChars(charCount: number): number {
   return Math.ceil(charCount / 4);
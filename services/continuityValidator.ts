@@ -1,5 +1,6 @@
 import { NovelState, Chapter, Character } from '../types';
 import { ContinuityValidation } from '../types/improvement';
+import { describeSecretLeak, findSecretLeaks } from './secretService';
 
 /**
  * Continuity Validator
@@ -149,6 +150,22 @@ export class ContinuityValidator {
     };
   }
 
+  /**
+   * Validates secrets: dialogue must not give a secret away to characters
+   * who do not hold it
+   */
+  static validateSecretConsistency(
+    chapter: Chapter,
+    state: NovelState
+  ): { valid: boolean; issues: string[] } {
+    const issues = findSecretLeaks(chapter, state).map(describeSecretLeak);
+
+    return {
+      valid: issues.length === 0,
+      issues,
+    };
+  }
+
   /**
    * Extracts character names from text
    */
@@ -192,11 +209,13 @@ export class ContinuityValidator {
       const continuity = this.validateChapterContinuity(chapter, previousChapter, nextChapter, state);
       const characterConsistency = this.validateCharacterConsistency(chapter, state);
       const worldConsistency = this.validateWorldConsistency(chapter, state);
+      const secretConsistency = this.validateSecretConsistency(chapter, state);
 
       const chapterIssues = [
         ...continuity.issues,
         ...characterConsistency.issues,
         ...worldConsistency.issues,
+        ...secretConsistency.issues,
       ];
 
       chapterValidations.push({
@@ -27,6 +27,7 @@ import { getRubricById, DEFAULT_RUBRICS, calculateWeightedScore } from '../confi
 import { routeJsonTask, routeTextTask } from './modelOrchestrator';
 import { logger } from './loggingService';
 import { generateUUID } from '../utils/uuid';
+import { isAbortError, throwIfAborted } from '../utils/streaming';
 import { CRITIQUE_CORRECTION_CONFIG } from '../constants';
 
 /**
@@ -36,7 +37,8 @@ export async function critiqueChapter(
   chapterContent: string,
   chapterTitle: string,
   rubric: StyleRubric,
-  config: CritiqueCorrectionConfig = CRITIQUE_CORRECTION_CONFIG
+  config: CritiqueCorrectionConfig = CRITIQUE_CORRECTION_CONFIG,
+  signal?: AbortSignal
 ): Promise<CritiqueResult> {
   const startTime = Date.now();
 
@@ -135,6 +137,7 @@ Focus on the most impactful issues. Limit to 10 issues maximum, prioritizing by
       user: userPrompt,
       temperature: config.critiqueTemperature,
       maxTokens: 4096,
+      signal,
     });
 
     // Ensure all criteria have scores (default to 5 if missing)
@@ -183,6 +186,7 @@ Focus on the most impactful issues. Limit to 10 issues maximum, prioritizing by
 
     return critiqueResult;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     logger.error('Error during chapter critique', 'critique', error instanceof Error ? error : undefined);
     
     // Return a default result on error to avoid breaking the loop
@@ -337,7 +341,8 @@ Return the COMPLETE revised chapter content. Do not summarize or truncate.`;
 async function applyCorrections(
   originalContent: string,
   corrections: CorrectionSet,
-  config: CritiqueCorrectionConfig = CRITIQUE_CORRECTION_CONFIG
+  config: CritiqueCorrectionConfig = CRITIQUE_CORRECTION_CONFIG,
+  signal?: AbortSignal
 ): Promise<string> {
   const systemPrompt = `You are an expert prose editor. Your task is to revise a chapter based on specific editorial feedback.
 
@@ -364,6 +369,7 @@ Now provide the COMPLETE revised chapter:`;
       user: userPrompt,
       temperature: config.correctionTemperature,
       maxTokens: 8192,
+      signal,
     });
 
     // Validate that we got substantial content back
@@ -390,6 +396,7 @@ Now provide the COMPLETE revised chapter:`;
 
     return revisedContent.trim();
   } catch (error) {
+    if (isAbortError(error)) throw error;
     logger.error('Error applying corrections', 'critique', error instanceof Error ? error : undefined);
     return originalContent; // Return original on error
   }
@@ -467,13 +474,14 @@ export async function applyCritiqueCorrectionLoop(
   callbacks?.onPhase?.('critique_start', { rubricId: rubric.id, rubricName: rubric.name });
 
   while (iteration < maxIterations) {
+    throwIfAborted(callbacks?.signal);
     iteration++;
 
     // Step 1: Critique the current content
     callbacks?.onPhase?.('critique_evaluation', { iteration });
     callbacks?.onProgress?.(`Evaluating chapter (iteration ${iteration})...`, (iteration - 1) / maxIterations * 100);
 
-    const critique = await critiqueChapter(currentContent, chapterTitle, rubric, config);
+    const critique = await critiqueChapter(currentContent, chapterTitle, rubric, config, callbacks?.signal);
     finalCritique = critique;
 
     // Estimate cost: ~$0.001 per critique (Gemini Flash)
@@ -551,7 +559,7 @@ export async function applyCritiqueCorrectionLoop(
     callbacks?.onProgress?.(`Applying corrections (iteration ${iteration})...`, (iteration - 0.5) / maxIterations * 100);
 
     const previousContent = currentContent;
-    currentContent = await applyCorrections(currentContent, corrections, config);
+    currentContent = await applyCorrections(currentContent, corrections, config, callbacks?.signal);
 
     // Estimate cost: ~$0.001 per correction (DeepSeek)
     estimatedCost += 0.001;
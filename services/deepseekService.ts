@@ -1,5 +1,8 @@
 import { env } from '../utils/env';
 import { recordCacheHit, recordCacheMiss } from './promptCacheMonitor';
+import { withLlmFixture } from './llmFixtureService';
+import { ChatCompletionUsage, createAbortError, isAbortError, readChatCompletionStream, StreamOptions, toLlmUsage } from '../utils/streaming';
+import type { LlmUsage } from '../types/llmProviders';
 
 /**
  * DeepSeek Service - "The Writer"
@@ -22,6 +25,8 @@ import { recordCacheHit, recordCacheMiss } from './promptCacheMonitor';
 
 type DeepSeekModel = 'deepseek-chat' | 'deepseek-reasoner' | 'deepseek-v3.2';
 
+export const DEEPSEEK_DEFAULT_BASE_URL = 'https://api.deepseek.com';
+
 type DeepSeekRole = 'system' | 'user' | 'assistant';
 
 interface DeepSeekMessage {
@@ -30,7 +35,7 @@ interface DeepSeekMessage {
 }
 
 interface DeepSeekChatCompletionRequest {
-  model: DeepSeekModel;
+  model: DeepSeekModel | string;
   messages: DeepSeekMessage[];
   temperature?: number;
   top_p?: number;
@@ -44,13 +49,7 @@ interface DeepSeekChatCompletionResponse {
     message?: { role: DeepSeekRole; content?: string };
     finish_reason?: string;
   }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-    prompt_cache_hit_tokens?: number;
-    prompt_cache_miss_tokens?: number;
-  };
+  usage?: ChatCompletionUsage;
 }
 
 function getDeepSeekApiKey(): string {
@@ -76,23 +75,57 @@ function simpleHash(str: string): string {
   return Math.abs(hash).toString(36);
 }
 
-async function deepseekChat(request: DeepSeekChatCompletionRequest): Promise<{ text: string; usage?: DeepSeekChatCompletionResponse['usage'] }> {
+async function deepseekChat(
+  request: DeepSeekChatCompletionRequest,
+  baseUrl: string = DEEPSEEK_DEFAULT_BASE_URL,
+  stream: StreamOptions = {}
+): Promise<{ text: string; usage?: DeepSeekChatCompletionResponse['usage'] }> {
+  const userPrompt = request.messages[request.messages.length - 1]?.content || '';
+  return withLlmFixture(
+    'deepseek',
+    request.model,
+    request,
+    userPrompt,
+    () => deepseekChatLive(request, baseUrl, stream),
+    stream.onToken
+  );
+}
+
+async function deepseekChatLive(
+  request: DeepSeekChatCompletionRequest,
+  baseUrl: string,
+  stream: StreamOptions
+): Promise<{ text: string; usage?: DeepSeekChatCompletionResponse['usage'] }> {
   const apiKey = getDeepSeekApiKey();
+  const streaming = !!stream.onToken;
 
-  const res = await fetch('https://api.deepseek.com/chat/completions', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(request),
-  });
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      // SSE streaming: tokens arrive as chat.completion.chunk deltas
+      body: JSON.stringify(streaming ? { ...request, stream: true, stream_options: { include_usage: true } } : request),
+      signal: stream.signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw createAbortError();
+    throw error;
+  }
 
   if (!res.ok) {
     const text = await res.text().catch(() => '');
     throw new Error(`DeepSeek API error (${res.status}): ${text || res.statusText}`);
   }
 
+  if (streaming) {
+    // include_usage makes the final chunk carry the usage block, cache hits included
+    return readChatCompletionStream(res, stream.onToken);
+  }
+
   const data = (await res.json()) as DeepSeekChatCompletionResponse;
   const content = data.choices?.[0]?.message?.content;
   return {
@@ -111,12 +144,18 @@ async function deepseekChat(request: DeepSeekChatCompletionRequest): Promise<{ t
  *   - Excellent narrative consistency
  */
 export async function deepseekText(opts: {
-  model?: DeepSeekModel;
+  model?: DeepSeekModel | string;
   system?: string;
   user: string;
   temperature?: number;
   topP?: number;
   maxTokens?: number;
+  baseUrl?: string;
+  /** Stream tokens as they arrive (SSE) */
+  onToken?: StreamOptions['onToken'];
+  signal?: AbortSignal;
+  /** Receives the token usage DeepSeek reports */
+  onUsage?: (usage: LlmUsage) => void;
 }): Promise<string> {
   const messages: DeepSeekMessage[] = [];
   if (opts.system && opts.system.trim() !== '') messages.push({ role: 'system', content: opts.system });
@@ -134,7 +173,7 @@ export async function deepseekText(opts: {
     temperature: opts.temperature,
     top_p: opts.topP,
     max_tokens: maxTokens,
-  });
+  }, opts.baseUrl, { onToken: opts.onToken, signal: opts.signal });
 
   // Track cache usage
   if (result.usage) {
@@ -147,6 +186,8 @@ export async function deepseekText(opts: {
     } else {
       recordCacheMiss('deepseek', cacheKey, totalPromptTokens);
     }
+    const usage = toLlmUsage(result.usage);
+    if (usage) opts.onUsage?.(usage);
   }
 
   return result.text;
@@ -492,12 +533,18 @@ function tryExtractPartialJson<T>(jsonString: string): Partial<T> | null {
  * for truncated or malformed responses.
  */
 export async function deepseekJson<T>(opts: {
-  model?: DeepSeekModel;
+  model?: DeepSeekModel | string;
   system?: string;
   user: string;
   temperature?: number;
   topP?: number;
   maxTokens?: number;
+  baseUrl?: string;
+  /** Stream the raw JSON text as it arrives (SSE) */
+  onToken?: StreamOptions['onToken'];
+  signal?: AbortSignal;
+  /** Receives the token usage DeepSeek reports */
+  onUsage?: (usage: LlmUsage) => void;
 }): Promise<T> {
   const messages: DeepSeekMessage[] = [];
   if (opts.system && opts.system.trim() !== '') messages.push({ role: 'system', content: opts.system });
@@ -516,7 +563,7 @@ export async function deepseekJson<T>(opts: {
     top_p: opts.topP,
     max_tokens: maxTokens,
     response_format: { type: 'json_object' },
-  });
+  }, opts.baseUrl, { onToken: opts.onToken, signal: opts.signal });
 
   const rawResponse = result.text;
 
@@ -531,6 +578,8 @@ export async function deepseekJson<T>(opts: {
     } else {
       recordCacheMiss('deepseek', cacheKey, totalPromptTokens);
     }
+    const usage = toLlmUsage(result.usage);
+    if (usage) opts.onUsage?.(usage);
   }
 
   // Strip markdown, fix control characters, and common issues
@@ -0,0 +1,361 @@
+/**
+ * Dialogue Attribution Service
+ * Splits chapter text into quoted lines and credits each to a character from
+ * the codex: named speech tags first, then the one character an action beat
+ * names, then "he"/"she" resolved to the characters last in view, and for
+ * bare exchanges whoever spoke before last. Every line carries a confidence,
+ * and chapter results are cached per content and codex revision.
+ */
+
+import type { Chapter, Character } from '../types';
+import type {
+  ChapterDialogueAttribution,
+  DialogueAttributionMethod,
+  DialogueParagraph,
+  DialogueUtterance,
+} from '../types/dialogue';
+import { getNameMatchStrategy } from '../utils/characterNameMatching';
+import { isSceneBreak } from '../utils/manuscriptUtils';
+import { hashText } from '../utils/textProcessor';
+
+/**
+ * Double or single quotes, curly or straight. An apostrophe followed by a
+ * letter ("Don’t", "Lin's") never closes a single-quoted line, and one after a
+ * letter never opens one.
+ */
+const QUOTE_PATTERN = /“[^”]*”|"[^"]*"|‘(?:[^’]|’(?=\p{L}))*’|(?<![\p{L}\d])'(?:[^']|'(?=\p{L}))*'(?!\p{L})/gu;
+
+const SPEECH_VERBS =
+  'said|says|asked|asks|replied|replies|answered|shouted|yelled|cried|whispered|murmured|muttered|' +
+  'snapped|growled|sneered|laughed|called|continued|added|demanded|exclaimed|roared|hissed|sighed|' +
+  'told|insisted|warned|promised|admitted|agreed|protested|retorted|barked|mumbled|stammered|pleaded|begged';
+
+const SPEECH_VERB = new RegExp(`\\b(?:${SPEECH_VERBS})\\b`, 'i');
+const PRONOUN_TAG = new RegExp(`\\b(he|she)\\s+(?:${SPEECH_VERBS})\\b|\\b(?:${SPEECH_VERBS})\\s+(he|she)\\b`, 'i');
+/** Narration opening on a pronoun: "He frowned.", "Her eyes narrowed." */
+const PRONOUN_BEAT = /^[\s,.;:—–-]*(he|his|she|her)\b/i;
+
+/** Characters of narration either side of a line searched for its tag */
+const TAG_WINDOW = 60;
+
+/** Characters kept in view for pronoun resolution */
+const RECENT_MENTIONS = 6;
+
+const MAX_CACHED_CHAPTERS = 200;
+
+/** Lines at or above this are safe to credit to their speaker */
+export const CONFIDENT_ATTRIBUTION = 0.5;
+
+const CONFIDENCE = {
+  tag: 0.95,
+  beat: 0.8,
+  pronoun: 0.7,
+  /** Pronoun resolved to a character whose gender the chapter does not show */
+  pronounUnsure: 0.5,
+  turnTaking: 0.65,
+  /** Lost per bare line since the exchange was last anchored */
+  turnDecay: 0.1,
+  turnFloor: 0.35,
+};
+
+type Pronoun = 'he' | 'she';
+
+interface NameEntry {
+  characterId: string;
+  pattern: RegExp;
+  tag: RegExp;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Spellings that identify exactly one character, longest first so that
+ * "Lin Feng" wins over "Lin"
+ */
+function buildNameIndex(characters: Character[]): NameEntry[] {
+  const owners = new Map<string, Set<string>>();
+  for (const character of characters) {
+    if (!character.name?.trim()) continue;
+    for (const variation of getNameMatchStrategy(character.name).variations) {
+      if (!owners.has(variation)) owners.set(variation, new Set());
+      owners.get(variation)!.add(character.id);
+    }
+  }
+  return [...owners.entries()]
+    .filter(([, ids]) => ids.size === 1)
+    .sort(([a], [b]) => b.length - a.length)
+    .map(([variation, ids]) => {
+      const name = escapeRegex(variation);
+      return {
+        characterId: [...ids][0],
+        pattern: new RegExp(`\\b${name}\\b`, 'gi'),
+        tag: new RegExp(`\\b${name}\\s+(?:${SPEECH_VERBS})\\b|\\b(?:${SPEECH_VERBS})\\s+${name}\\b`, 'i'),
+      };
+    });
+}
+
+/** Character ids named in the text, in order of first mention */
+function mentionedCharacters(text: string, names: NameEntry[]): string[] {
+  const found: Array<{ characterId: string; index: number }> = [];
+  let remaining = text;
+  for (const { characterId, pattern } of names) {
+    remaining = remaining.replace(pattern, (match, index: number) => {
+      found.push({ characterId, index });
+      return ' '.repeat(match.length);
+    });
+  }
+  const ordered: string[] = [];
+  found.sort((a, b) => a.index - b.index).forEach(({ characterId }) => {
+    if (!ordered.includes(characterId)) ordered.push(characterId);
+  });
+  return ordered;
+}
+
+function taggedSpeaker(text: string, names: NameEntry[]): string | undefined {
+  return names.find(entry => entry.tag.test(text))?.characterId;
+}
+
+function blankQuotes(paragraph: string): string {
+  return paragraph.replace(QUOTE_PATTERN, match => ' '.repeat(match.length));
+}
+
+/**
+ * Paragraphs with their offsets: blank-line separated, or one per line when
+ * the text has no blank lines. Scene-break markers are dropped and flagged
+ * on the paragraph that follows.
+ */
+function findParagraphs(content: string): DialogueParagraph[] {
+  const separator = /\n\s*\n/.test(content) ? /\n\s*\n/g : /\n/g;
+  const paragraphs: DialogueParagraph[] = [];
+  let sceneBreak = false;
+  let from = 0;
+
+  const add = (rawStart: number, rawEnd: number) => {
+    const raw = content.slice(rawStart, rawEnd);
+    const text = raw.trim();
+    if (!text) return;
+    if (isSceneBreak(text)) {
+      if (paragraphs.length > 0) sceneBreak = true;
+      return;
+    }
+    const start = rawStart + raw.length - raw.trimStart().length;
+    paragraphs.push({ start, end: start + text.length, sceneBreakBefore: sceneBreak });
+    sceneBreak = false;
+  };
+
+  for (const match of content.matchAll(separator)) {
+    add(from, match.index ?? 0);
+    from = (match.index ?? 0) + match[0].length;
+  }
+  add(from, content.length);
+  return paragraphs;
+}
+
+/**
+ * Which pronoun the chapter uses for each character, from sentences of
+ * narration that name that character alone
+ */
+function inferPronouns(narrations: string[], names: NameEntry[]): Map<string, Pronoun> {
+  const counts = new Map<string, { he: number; she: number }>();
+  for (const narration of narrations) {
+    for (const sentence of narration.split(/[.!?]+/)) {
+      const mentioned = mentionedCharacters(sentence, names);
+      if (mentioned.length !== 1) continue;
+      const count = counts.get(mentioned[0]) || { he: 0, she: 0 };
+      count.he += (sentence.match(/\b(?:he|his|himself)\b/gi) || []).length;
+      count.she += (sentence.match(/\b(?:she|herself)\b/gi) || []).length;
+      counts.set(mentioned[0], count);
+    }
+  }
+  const pronouns = new Map<string, Pronoun>();
+  counts.forEach(({ he, she }, characterId) => {
+    if (he > 0 && he >= she * 2) pronouns.set(characterId, 'he');
+    else if (she > 0 && she >= he * 2) pronouns.set(characterId, 'she');
+  });
+  return pronouns;
+}
+
+function toPronoun(word: string): Pronoun {
+  return /^h(?:e|is)$/i.test(word) ? 'he' : 'she';
+}
+
+interface Attribution {
+  speakerId: string | null;
+  confidence: number;
+  method: DialogueAttributionMethod;
+}
+
+const UNKNOWN: Attribution = { speakerId: null, confidence: 0, method: 'unknown' };
+
+/**
+ * Attribute every quoted line in a piece of text. Uncached; chapters should
+ * go through getChapterAttribution.
+ */
+export function attributeDialogue(
+  content: string,
+  characters: Character[]
+): Pick<ChapterDialogueAttribution, 'paragraphs' | 'utterances'> {
+  const names = buildNameIndex(characters);
+  const paragraphs = findParagraphs(content);
+  const texts = paragraphs.map(p => content.slice(p.start, p.end));
+  const narrations = texts.map(blankQuotes);
+  const pronouns = inferPronouns(narrations, names);
+  const utterances: DialogueUtterance[] = [];
+
+  let recentSpeakers: string[] = [];
+  let recentMentions: string[] = [];
+  let bareRun = 0;
+
+  const noteMentions = (ids: string[]) => {
+    recentMentions = [...recentMentions.filter(id => !ids.includes(id)), ...ids].slice(-RECENT_MENTIONS);
+  };
+
+  const resolvePronoun = (pronoun: Pronoun): Attribution => {
+    const candidates = [...recentMentions].reverse();
+    const matched = candidates.find(id => pronouns.get(id) === pronoun);
+    if (matched) return { speakerId: matched, confidence: CONFIDENCE.pronoun, method: 'pronoun' };
+    const unsure = candidates.find(id => !pronouns.has(id));
+    if (unsure) return { speakerId: unsure, confidence: CONFIDENCE.pronounUnsure, method: 'pronoun' };
+    return UNKNOWN;
+  };
+
+  paragraphs.forEach((paragraph, paragraphIndex) => {
+    if (paragraph.sceneBreakBefore) {
+      recentSpeakers = [];
+      recentMentions = [];
+      bareRun = 0;
+    }
+
+    const text = texts[paragraphIndex];
+    const narration = narrations[paragraphIndex];
+    const mentioned = mentionedCharacters(narration, names);
+    const quotes = [...text.matchAll(QUOTE_PATTERN)].filter(match => match[0].slice(1, -1).trim());
+    if (quotes.length === 0) {
+      noteMentions(mentioned);
+      return;
+    }
+
+    // Narration either side of each line, up to the neighbouring lines
+    const windows = quotes.map((match, index) => {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const previousEnd = index > 0 ? (quotes[index - 1].index ?? 0) + quotes[index - 1][0].length : 0;
+      const nextStart = index < quotes.length - 1 ? quotes[index + 1].index ?? text.length : text.length;
+      return {
+        before: text.slice(Math.max(previousEnd, start - TAG_WINDOW), start),
+        after: text.slice(end, Math.min(nextStart, end + TAG_WINDOW)),
+      };
+    });
+    const lineTags = windows.map(({ before, after }) => taggedSpeaker(after, names) ?? taggedSpeaker(before, names));
+
+    // A pronoun tag outranks a beat: in "Mo looked at her. 'Go,' she said." Mo is listening
+    const pronounTag = windows
+      .map(({ before, after }) => after.match(PRONOUN_TAG) || before.match(PRONOUN_TAG))
+      .find(Boolean);
+    const pronounBeat = narration.match(PRONOUN_BEAT)?.[1];
+
+    let paragraphSpeaker: Attribution = UNKNOWN;
+    const named = lineTags.find(Boolean);
+    noteMentions(mentioned);
+    if (named) {
+      paragraphSpeaker = { speakerId: named, confidence: CONFIDENCE.tag, method: 'tag' };
+    } else if (pronounTag) {
+      paragraphSpeaker = resolvePronoun(toPronoun(pronounTag[1] || pronounTag[2]));
+    } else if (mentioned.length === 1) {
+      paragraphSpeaker = { speakerId: mentioned[0], confidence: CONFIDENCE.beat, method: 'beat' };
+    } else if (pronounBeat) {
+      paragraphSpeaker = resolvePronoun(toPronoun(pronounBeat));
+    } else if (!/[\p{L}\p{N}]/u.test(narration) && recentSpeakers.length === 2) {
+      const confidence = Math.max(CONFIDENCE.turnFloor, CONFIDENCE.turnTaking - CONFIDENCE.turnDecay * bareRun);
+      paragraphSpeaker = { speakerId: recentSpeakers[0], confidence, method: 'turn-taking' };
+    }
+
+    quotes.forEach((match, index) => {
+      const start = paragraph.start + (match.index ?? 0);
+      const attribution: Attribution = lineTags[index]
+        ? { speakerId: lineTags[index]!, confidence: CONFIDENCE.tag, method: 'tag' }
+        : paragraphSpeaker;
+      utterances.push({
+        text: match[0].slice(1, -1).trim().replace(/\s*\n\s*/g, ' '),
+        start,
+        end: start + match[0].length,
+        paragraphIndex,
+        ...attribution,
+        tagged: SPEECH_VERB.test(windows[index].after) || SPEECH_VERB.test(windows[index].before),
+      });
+    });
+
+    bareRun = paragraphSpeaker.method === 'turn-taking' ? bareRun + 1 : 0;
+    const speakerId = paragraphSpeaker.speakerId;
+    if (speakerId) {
+      noteMentions([speakerId]);
+      if (recentSpeakers[recentSpeakers.length - 1] !== speakerId) recentSpeakers.push(speakerId);
+      if (recentSpeakers.length > 2) recentSpeakers.shift();
+    }
+  });
+
+  return { paragraphs, utterances };
+}
+
+const cache = new Map<string, ChapterDialogueAttribution>();
+
+function revisionOf(content: string, characters: Character[]): string {
+  const codex = characters.map(c => `${c.id}:${c.name}`).join('|');
+  return `${hashText(content)}.${content.length}.${hashText(codex)}`;
+}
+
+/**
+ * Attribution for a chapter, recomputed only when its content or the codex
+ * names change. The result is shared between callers and must not be mutated.
+ */
+export function getChapterAttribution(chapter: Chapter, characters: Character[]): ChapterDialogueAttribution {
+  const content = chapter.content || '';
+  const revision = revisionOf(content, characters);
+  const cached = cache.get(chapter.id);
+  if (cached && cached.revision === revision) {
+    // Re-insert so eviction drops the least recently used chapter
+    cache.delete(chapter.id);
+    cache.set(chapter.id, cached);
+    return cached;
+  }
+
+  const attribution: ChapterDialogueAttribution = {
+    chapterId: chapter.id,
+    revision,
+    ...attributeDialogue(content, characters),
+  };
+  cache.delete(chapter.id);
+  cache.set(chapter.id, attribution);
+  if (cache.size > MAX_CACHED_CHAPTERS) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  return attribution;
+}
+
+export function clearAttributionCache(): void {
+  cache.clear();
+}
+
+/** Lines credited to a character with at least the given confidence */
+export function linesSpokenBy(
+  attribution: Pick<ChapterDialogueAttribution, 'utterances'>,
+  characterId: string,
+  minConfidence = CONFIDENT_ATTRIBUTION
+): DialogueUtterance[] {
+  return attribution.utterances.filter(u => u.speakerId === characterId && u.confidence >= minConfidence);
+}
+
+/** Ids of characters credited with at least one line */
+export function speakersIn(
+  attribution: Pick<ChapterDialogueAttribution, 'utterances'>,
+  minConfidence = CONFIDENT_ATTRIBUTION
+): Set<string> {
+  return new Set(
+    attribution.utterances
+      .filter(u => u.speakerId && u.confidence >= minConfidence)
+      .map(u => u.speakerId!)
+  );
+}
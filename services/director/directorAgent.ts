@@ -28,7 +28,7 @@ import {
   ArcPositionAnalysis,
   DEFAULT_DIRECTOR_CONFIG,
 } from '../../types/director';
-import { deepseekJson } from '../deepseekService';
+import { routeJsonTask } from '../modelOrchestrator';
 import { logger } from '../loggingService';
 import { generateUUID } from '../../utils/uuid';
 import { DIRECTOR_SYSTEM_PROMPT, buildDirectorUserPrompt } from './directorPrompts';
@@ -106,13 +106,13 @@ export async function runDirectorAgent(
       warningReport,
     });
 
-    // Call DeepSeek
-    const rawResponse = await deepseekJson<DirectorRawResponse>({
-      model: finalConfig.useReasonerMode ? 'deepseek-reasoner' : 'deepseek-chat',
+    // Call the arc_planning provider
+    const rawResponse = await routeJsonTask<DirectorRawResponse>('arc_planning', {
       system: DIRECTOR_SYSTEM_PROMPT,
       user: userPrompt,
       temperature: finalConfig.temperature,
       maxTokens: finalConfig.maxTokens,
+      usageContext: { novelId: state.id, chapterNumber: nextChapterNumber },
     });
 
     // Process response into beat sheet
@@ -0,0 +1,199 @@
+/**
+ * DOCX Export Service
+ * Writes an Office Open XML (.docx) manuscript in standard submission format:
+ * title page with word count, 12pt double-spaced body, chapters starting on a
+ * new page and "#" scene-break markers. Generated fully client-side.
+ */
+
+import { Chapter, NovelState } from '../types';
+import { createZip, escapeXml } from '../utils/zipWriter';
+import { countWords, getChaptersForArc, sortChapters, splitIntoBlocks } from '../utils/manuscriptUtils';
+
+export type DocxChapterSelection =
+  | { mode: 'all' }
+  | { mode: 'range'; fromChapter: number; toChapter: number }
+  | { mode: 'arc'; arcId: string };
+
+export interface DocxExportOptions {
+  /** Author name for the title page and running header */
+  author?: string;
+  /** Which chapters to include (default: all) */
+  selection?: DocxChapterSelection;
+}
+
+const SCENE_BREAK_MARKER = '#';
+
+/**
+ * Resolve the chapters covered by a selection
+ */
+export function selectChapters(novel: NovelState, selection: DocxChapterSelection = { mode: 'all' }): Chapter[] {
+  switch (selection.mode) {
+    case 'range': {
+      const from = Math.min(selection.fromChapter, selection.toChapter);
+      const to = Math.max(selection.fromChapter, selection.toChapter);
+      return sortChapters(novel.chapters).filter(ch => ch.number >= from && ch.number <= to);
+    }
+    case 'arc':
+      return getChaptersForArc(novel, selection.arcId);
+    default:
+      return sortChapters(novel.chapters);
+  }
+}
+
+/**
+ * Split a chapter into scenes. Uses the chapter's Scene records when they carry
+ * prose, otherwise scene-break glyphs inside the chapter content.
+ */
+export function getChapterScenes(chapter: Chapter): string[][] {
+  const sceneRecords = [...(chapter.scenes || [])]
+    .sort((a, b) => a.number - b.number)
+    .filter(scene => scene.content?.trim());
+
+  if (sceneRecords.length > 0) {
+    return sceneRecords.map(scene => splitIntoBlocks(scene.content).filter((b): b is string => b !== null));
+  }
+
+  const scenes: string[][] = [[]];
+  splitIntoBlocks(chapter.content).forEach(block => {
+    if (block === null) scenes.push([]);
+    else scenes[scenes.length - 1].push(block);
+  });
+  return scenes.filter(scene => scene.length > 0);
+}
+
+/**
+ * Round a word count the way manuscript title pages do (nearest 100, or 1,000 past 10k)
+ */
+export function roundWordCount(words: number): number {
+  if (words >= 10000) return Math.round(words / 1000) * 1000;
+  return Math.max(100, Math.round(words / 100) * 100);
+}
+
+function run(text: string, props = ''): string {
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(content: string, style?: string, extraProps = ''): string {
+  const pPr = style || extraProps ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraProps}</w:pPr>` : '';
+  return `<w:p>${pPr}${content}</w:p>`;
+}
+
+function renderTitlePage(novel: NovelState, author: string, wordCount: number): string[] {
+  const tabRight = '<w:tabs><w:tab w:val="right" w:pos="9360"/></w:tabs>';
+  const approx = `about ${roundWordCount(wordCount).toLocaleString('en-US')} words`;
+  const lines = [
+    paragraph(`${run(author || 'Author Name')}<w:r><w:tab/></w:r>${run(approx)}`, 'Contact', tabRight),
+  ];
+  // Push the title to roughly the middle of the page
+  for (let i = 0; i < 10; i++) lines.push(paragraph('', 'Contact'));
+  lines.push(paragraph(run(novel.title.toUpperCase()), 'Title'));
+  if (novel.genre) lines.push(paragraph(run(novel.genre), 'Subtitle'));
+  if (author) lines.push(paragraph(run(`by ${author}`), 'Subtitle'));
+  return lines;
+}
+
+function renderChapter(chapter: Chapter): string[] {
+  const heading = chapter.title ? `Chapter ${chapter.number}: ${chapter.title}` : `Chapter ${chapter.number}`;
+  const lines = [paragraph(run(heading), 'Heading1')];
+
+  getChapterScenes(chapter).forEach((scene, sceneIndex) => {
+    if (sceneIndex > 0) lines.push(paragraph(run(SCENE_BREAK_MARKER), 'SceneBreak'));
+    scene.forEach((block, blockIndex) => {
+      lines.push(paragraph(run(block), blockIndex === 0 ? 'FirstParagraph' : undefined));
+    });
+  });
+
+  return lines;
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="SimSun" w:cs="Times New Roman"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="480" w:lineRule="auto"/><w:ind w:firstLine="720"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="FirstParagraph"><w:name w:val="First Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:firstLine="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Contact"><w:name w:val="Contact"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:jc w:val="center"/><w:ind w:firstLine="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:jc w:val="center"/><w:ind w:firstLine="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="FirstParagraph"/><w:qFormat/><w:pPr><w:keepNext/><w:pageBreakBefore/><w:spacing w:before="2880" w:after="480"/><w:jc w:val="center"/><w:ind w:firstLine="0"/><w:outlineLvl w:val="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="SceneBreak"><w:name w:val="Scene Break"/><w:basedOn w:val="Normal"/><w:next w:val="FirstParagraph"/><w:pPr><w:jc w:val="center"/><w:ind w:firstLine="0"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Header"><w:name w:val="header"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:line="240" w:lineRule="auto"/><w:jc w:val="right"/><w:ind w:firstLine="0"/></w:pPr></w:style>
+</w:styles>
+`;
+
+function renderHeader(novel: NovelState, author: string): string {
+  const surname = author.trim().split(/\s+/).pop() || '';
+  const label = [surname, novel.title.toUpperCase()].filter(Boolean).join(' / ');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:p><w:pPr><w:pStyle w:val="Header"/></w:pPr>${run(`${label} / `)}<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>${run('1')}<w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>
+</w:hdr>
+`;
+}
+
+/**
+ * Build a .docx manuscript for the novel. Returns the raw archive bytes.
+ */
+export function buildDocx(novel: NovelState, options: DocxExportOptions = {}): Uint8Array {
+  const author = options.author?.trim() || '';
+  const chapters = selectChapters(novel, options.selection);
+  const wordCount = chapters.reduce((sum, ch) => sum + (ch.wordCount || countWords(ch.content)), 0);
+
+  const body = [...renderTitlePage(novel, author, wordCount), ...chapters.flatMap(renderChapter)];
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<w:body>
+${body.join('\n')}
+<w:sectPr><w:headerReference w:type="default" r:id="rIdHeader"/><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/><w:titlePg/></w:sectPr>
+</w:body>
+</w:document>
+`;
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`;
+
+  const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rIdHeader" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+</Relationships>
+`;
+
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const coreXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(novel.title)}</dc:title>
+${author ? `<dc:creator>${escapeXml(author)}</dc:creator>` : ''}
+${novel.genre ? `<dc:subject>${escapeXml(novel.genre)}</dc:subject>` : ''}
+<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+</cp:coreProperties>
+`;
+
+  return createZip([
+    { path: '[Content_Types].xml', data: contentTypes },
+    { path: '_rels/.rels', data: rootRels },
+    { path: 'word/document.xml', data: documentXml },
+    { path: 'word/styles.xml', data: STYLES_XML },
+    { path: 'word/header1.xml', data: renderHeader(novel, author) },
+    { path: 'word/_rels/document.xml.rels', data: documentRels },
+    { path: 'docProps/core.xml', data: coreXml },
+  ]);
+}
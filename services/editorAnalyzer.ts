@@ -1,7 +1,7 @@
 import { NovelState, Chapter, Arc } from '../types';
 import { EditorAnalysis, EditorIssue, EditorFix, ChapterBatchEditorInput, ArcEditorInput, EditorServiceOptions, OverallFlowRating, FixStatus } from '../types/editor';
 import { buildChapterBatchAnalysisPrompt, buildArcAnalysisPrompt } from './promptEngine/writers/editorPromptWriter';
-import { deepseekJson } from './deepseekService';
+import { routeJsonTask } from './modelOrchestrator';
 import { SYSTEM_INSTRUCTION } from '../constants';
 import { rateLimiter } from './rateLimiter';
 import { generateUUID } from '../utils/uuid';
@@ -110,9 +110,9 @@ export async function analyzeChapterBatch(
     ]
   }`;
 
-  // Call DeepSeek API (The Clerk for analysis/extraction)
+  // Call the style_critique provider (The Clerk for analysis/extraction)
   const parsed = await rateLimiter.queueRequest('analyze', async () => {
-    return await deepseekJson<{
+    return await routeJsonTask<{
       analysis: {
         overallFlow: string;
         continuityScore: number;
@@ -143,8 +143,7 @@ export async function analyzeChapterBatch(
         insertionLocation?: "before" | "after" | "split";
         isInsertion?: boolean;
       }>;
-    }>({
-      model: 'deepseek-chat',
+    }>('style_critique', {
       system: builtPrompt.systemInstruction || SYSTEM_INSTRUCTION,
       user: builtPrompt.userPrompt + '\n\nReturn ONLY a valid JSON object matching this structure:\n' + jsonSchema + `\n\nCRITICAL JSON FORMATTING REQUIREMENTS:
 1. ALL strings MUST be properly escaped (use \\n for newlines, \\" for quotes, \\\\ for backslashes)
@@ -159,6 +158,7 @@ export async function analyzeChapterBatch(
 10. If you see chapter 16 in the novel, DO NOT use it - only use ${chapters.map(ch => ch.number).join(', ')}.`,
       temperature: 0.7,
       maxTokens: 8192,
+      usageContext: { novelId: novelState.id },
     });
   }, `analyze-${novelState.id}-${startChapter}-${endChapter}`);
 
@@ -614,7 +614,7 @@ export async function analyzeArc(
 
   try {
     parsed = await rateLimiter.queueRequest('analyze-arc', async () => {
-      return await deepseekJson<{
+      return await routeJsonTask<{
         analysis: {
           overallFlow: string;
           continuityScore: number;
@@ -651,8 +651,7 @@ export async function analyzeArc(
           blockingIssues: string[];
           suggestedImprovements: string[];
         };
-      }>({
-        model: 'deepseek-chat',
+      }>('style_critique', {
         system: builtPrompt.systemInstruction || SYSTEM_INSTRUCTION,
         user: builtPrompt.userPrompt + '\n\nReturn ONLY a valid JSON object matching this structure:\n' + jsonSchema + `\n\nCRITICAL JSON FORMATTING REQUIREMENTS (MUST FOLLOW TO AVOID TRUNCATION):
 1. ALL strings MUST be properly escaped (use \\n for newlines, \\" for quotes, \\\\ for backslashes)
@@ -669,6 +668,7 @@ export async function analyzeArc(
 12. If you must choose between including all fixes or valid JSON, choose valid JSON - incomplete fixes can be added later`,
         temperature: 0.7,
         maxTokens: 6000, // Reduced from 8192 for arc analysis to leave room and prevent truncation
+        usageContext: { novelId: novelState.id },
       });
     }, `analyze-arc-${novelState.id}-${arc.id}`);
   } catch (error) {
@@ -0,0 +1,377 @@
+/**
+ * Entity Rename Service
+ *
+ * Renames a character, technique or item wherever the novel refers to it:
+ * chapter and scene prose, and the notes of other entities (relationship
+ * histories, thread descriptions, antagonist notes, arcs, world entries).
+ * Each enabled alias is rewritten as a whole word, so honorifics around it
+ * ("Senior Brother Lin", "Lin-xiong") survive, and names of other entities
+ * that contain an alias ("Lin Yue" when renaming "Lin Feng") are left alone.
+ *
+ * A rename is a change set of whole entities before and after. Applying it
+ * swaps the entities in; undoing swaps back the ones nobody has edited since.
+ */
+
+import type { Chapter, NovelState, Scene } from '../types';
+import type {
+  RenameAlias,
+  RenameChangeSet,
+  RenameCollection,
+  RenameEntityType,
+  RenameFieldChange,
+  RenameReferenceKind,
+  RenameRequest,
+  RenameSnapshot,
+} from '../types/rename';
+import { getNameMatchStrategy } from '../utils/characterNameMatching';
+import { generateCanonicalName } from '../utils/itemMatching';
+import { generateUUID } from '../utils/uuid';
+import { AppError } from '../utils/errorHandling';
+
+const MAX_HISTORY = 20;
+
+const HONORIFIC_BEFORE =
+  /(?:brother|sister|senior|junior|elder|master|lord|lady|miss|madam|patriarch|matriarch|uncle|aunt|grandpa|granny|sir|daoist|teacher|disciple|little|young)\s+$/i;
+const HONORIFIC_AFTER =
+  /^(?:-|')(?:xiong|jie|shixiong|shijie|shidi|shimei|gege|ge|meimei|mei|didi|di|dage|er|qianbei|shifu|laozu|gongzi)(?![\p{L}\p{N}])/iu;
+
+interface Matcher {
+  pattern: RegExp;
+  replacements: Map<string, string>;
+  oldName: string;
+  /** Names of other entities that contain an alias and must not be touched */
+  protectedPattern: RegExp | null;
+}
+
+interface RewriteResult {
+  text: string;
+  counts: Record<RenameReferenceKind, number>;
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wordPattern(words: string[]): RegExp {
+  const alternatives = [...words].sort((a, b) => b.length - a.length).map(escapeRegex).join('|');
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function emptyCounts(): Record<RenameReferenceKind, number> {
+  return { name: 0, alias: 0, honorific: 0 };
+}
+
+/**
+ * Aliases to propose for a rename: the full name, and for personal names with
+ * as many parts as the new one, each distinctive part mapped to its
+ * counterpart (Lin Feng → Chen Hao also rewrites "Lin" and "Feng")
+ */
+export function suggestRenameAliases(oldName: string, newName: string, entityType: RenameEntityType): RenameAlias[] {
+  const aliases: RenameAlias[] = [{ from: oldName.trim(), to: newName.trim(), enabled: true }];
+  if (entityType !== 'character') return aliases;
+
+  const oldParts = oldName.trim().split(/\s+/);
+  const newParts = newName.trim().split(/\s+/);
+  if (oldParts.length < 2 || oldParts.length !== newParts.length) return aliases;
+
+  const distinctive = new Set(getNameMatchStrategy(oldName).variations);
+  oldParts.forEach((part, i) => {
+    if (distinctive.has(part.toLowerCase()) && part !== newParts[i]) {
+      aliases.push({ from: part, to: newParts[i], enabled: true });
+    }
+  });
+  return aliases;
+}
+
+function entityName(novel: NovelState, entityType: RenameEntityType, entityId: string): string | undefined {
+  switch (entityType) {
+    case 'character':
+      return novel.characterCodex.find(c => c.id === entityId)?.name;
+    case 'technique':
+      return novel.novelTechniques?.find(t => t.id === entityId)?.name;
+    case 'item':
+      return novel.novelItems?.find(i => i.id === entityId)?.name;
+  }
+}
+
+function buildMatcher(novel: NovelState, request: RenameRequest, oldName: string): Matcher | null {
+  const aliases = request.aliases.filter(a => a.enabled && a.from.trim() && a.from.trim() !== a.to.trim());
+  if (aliases.length === 0) return null;
+
+  const replacements = new Map<string, string>();
+  aliases.forEach(a => {
+    if (!replacements.has(a.from.trim().toLowerCase())) replacements.set(a.from.trim().toLowerCase(), a.to.trim());
+  });
+  const pattern = wordPattern(aliases.map(a => a.from.trim()));
+
+  const otherNames = [
+    ...novel.characterCodex.filter(c => request.entityType !== 'character' || c.id !== request.entityId).map(c => c.name),
+    ...(novel.novelTechniques ?? []).filter(t => request.entityType !== 'technique' || t.id !== request.entityId).map(t => t.name),
+    ...(novel.novelItems ?? []).filter(i => request.entityType !== 'item' || i.id !== request.entityId).map(i => i.name),
+  ].filter(name => {
+    if (!name) return false;
+    const lower = name.toLowerCase();
+    // Only longer names that contain an alias can shadow it
+    return !replacements.has(lower) && [...replacements.keys()].some(alias => wordPattern([alias]).test(lower));
+  });
+
+  return {
+    pattern,
+    replacements,
+    oldName: oldName.toLowerCase(),
+    protectedPattern: otherNames.length > 0 ? wordPattern(otherNames) : null,
+  };
+}
+
+/** Keeps shouted names shouted */
+function matchCase(match: string, replacement: string): string {
+  return /\p{L}{2}/u.test(match) && match === match.toUpperCase() ? replacement.toUpperCase() : replacement;
+}
+
+function rewriteText(text: string, matcher: Matcher): RewriteResult {
+  const counts = emptyCounts();
+  if (!text) return { text, counts };
+
+  const protectedSpans: Array<[number, number]> = [];
+  if (matcher.protectedPattern) {
+    for (const m of text.matchAll(matcher.protectedPattern)) {
+      protectedSpans.push([m.index ?? 0, (m.index ?? 0) + m[0].length]);
+    }
+  }
+
+  const rewritten = text.replace(matcher.pattern, (match: string, offset: number) => {
+    const end = offset + match.length;
+    if (protectedSpans.some(([start, stop]) => offset < stop && end > start)) return match;
+
+    const lower = match.toLowerCase();
+    if (lower === matcher.oldName) counts.name++;
+    else if (HONORIFIC_BEFORE.test(text.slice(Math.max(0, offset - 24), offset)) || HONORIFIC_AFTER.test(text.slice(end, end + 12))) counts.honorific++;
+    else counts.alias++;
+
+    return matchCase(match, matcher.replacements.get(lower) ?? match);
+  });
+
+  return { text: rewritten, counts };
+}
+
+/** Collects the rewrites of one entity's text fields */
+class ChangeCollector {
+  readonly changes: RenameFieldChange[] = [];
+  readonly counts = emptyCounts();
+
+  constructor(private matcher: Matcher) {}
+
+  text(value: string | undefined, location: string, chapterId?: string): string | undefined {
+    if (!value) return value;
+    const result = rewriteText(value, this.matcher);
+    const references = result.counts.name + result.counts.alias + result.counts.honorific;
+    if (references === 0) return value;
+    (Object.keys(result.counts) as RenameReferenceKind[]).forEach(kind => {
+      this.counts[kind] += result.counts[kind];
+    });
+    this.changes.push({ location, chapterId, before: value, after: result.text, references });
+    return result.text;
+  }
+
+  /** Rewrites the listed fields, returning the same object when nothing changed */
+  fields<T extends object>(entity: T, keys: (keyof T & string)[], label: string, chapterId?: string): T {
+    let updated: T | null = null;
+    keys.forEach(key => {
+      const value = entity[key];
+      if (typeof value !== 'string') return;
+      const next = this.text(value, `${label} · ${key}`, chapterId);
+      if (next !== value) {
+        updated = updated ?? { ...entity };
+        (updated as Record<string, unknown>)[key] = next;
+      }
+    });
+    return updated ?? entity;
+  }
+}
+
+function renameChapter(chapter: Chapter, collector: ChangeCollector): Chapter {
+  const label = `Chapter ${chapter.number}`;
+  const updated = collector.fields(chapter, ['title', 'summary', 'content'], label, chapter.id);
+  let scenesChanged = false;
+  const scenes = (chapter.scenes ?? []).map((scene: Scene) => {
+    const next = collector.fields(scene, ['title', 'summary', 'content'], `${label}, Scene ${scene.number}`, chapter.id);
+    if (next !== scene) scenesChanged = true;
+    return next;
+  });
+  if (!scenesChanged) return updated;
+  return { ...updated, scenes };
+}
+
+/**
+ * Works out every change a rename makes, without touching the novel. Throws
+ * when the entity does not exist or the new name is empty.
+ */
+export function planRename(novel: NovelState, request: RenameRequest): RenameChangeSet {
+  const oldName = entityName(novel, request.entityType, request.entityId);
+  if (oldName === undefined) throw new AppError(`No ${request.entityType} with id ${request.entityId}`, 'RENAME_NOT_FOUND');
+  const newName = request.newName.trim();
+  if (!newName) throw new AppError('The new name cannot be empty', 'RENAME_INVALID');
+
+  const before: RenameSnapshot = { entities: {} };
+  const after: RenameSnapshot = { entities: {} };
+  const matcher = buildMatcher(novel, request, oldName);
+  const collector = matcher ? new ChangeCollector(matcher) : null;
+
+  const record = <T extends { id: string }>(collection: RenameCollection, original: T, updated: T) => {
+    if (original === updated) return;
+    (before.entities[collection] ??= {})[original.id] = original;
+    (after.entities[collection] ??= {})[original.id] = updated;
+  };
+
+  // The entity itself
+  if (request.entityType === 'character') {
+    const character = novel.characterCodex.find(c => c.id === request.entityId)!;
+    if (character.name !== newName) record('characterCodex', character, { ...character, name: newName });
+  } else {
+    const collection = request.entityType === 'technique' ? 'novelTechniques' : 'novelItems';
+    const entity = (novel[collection] ?? []).find(e => e.id === request.entityId)!;
+    if (entity.name !== newName) {
+      record(collection, entity, { ...entity, name: newName, canonicalName: generateCanonicalName(newName) });
+    }
+    // Deprecated name lists on characters
+    const listKey = request.entityType === 'technique' ? 'skills' : 'items';
+    novel.characterCodex.forEach(character => {
+      const current = (after.entities.characterCodex?.[character.id] as typeof character | undefined) ?? character;
+      if (current[listKey]?.includes(oldName)) {
+        record('characterCodex', character, { ...current, [listKey]: current[listKey].map(name => (name === oldName ? newName : name)) });
+      }
+    });
+  }
+
+  if (collector) {
+    const latest = <T extends { id: string }>(collection: RenameCollection, entity: T): T =>
+      (after.entities[collection]?.[entity.id] as T | undefined) ?? entity;
+
+    novel.chapters.forEach(chapter => record('chapters', chapter, renameChapter(chapter, collector)));
+
+    novel.characterCodex.forEach(character => {
+      const current = latest('characterCodex', character);
+      let updated = collector.fields(current, ['notes', 'personality', 'appearance', 'background', 'goals', 'flaws'], current.name);
+      const relationships = (updated.relationships ?? []).map(rel => {
+        const target = novel.characterCodex.find(c => c.id === rel.characterId)?.name ?? 'someone';
+        return collector.fields(rel, ['history', 'impact'], `${current.name} · relationship with ${target}`);
+      });
+      if (relationships.some((rel, i) => rel !== updated.relationships[i])) updated = { ...updated, relationships };
+      record('characterCodex', character, updated);
+    });
+
+    (novel.storyThreads ?? []).forEach(thread =>
+      record('storyThreads', thread, collector.fields(thread, ['title', 'description', 'resolutionNotes'], `Thread: ${thread.title}`))
+    );
+    (novel.antagonists ?? []).forEach(antagonist =>
+      record('antagonists', antagonist, collector.fields(antagonist, ['name', 'description', 'motivation', 'notes'], `Antagonist: ${antagonist.name}`))
+    );
+    novel.worldBible.forEach(entry =>
+      record('worldBible', entry, collector.fields(entry, ['title', 'content'], `World: ${entry.title}`))
+    );
+    novel.plotLedger.forEach(arc =>
+      record('plotLedger', arc, collector.fields(arc, ['title', 'description'], `Arc: ${arc.title}`))
+    );
+    (novel.novelTechniques ?? []).forEach(technique => {
+      const current = latest('novelTechniques', technique);
+      record('novelTechniques', technique, collector.fields(current, ['description', 'history'], `Technique: ${current.name}`));
+    });
+    (novel.novelItems ?? []).forEach(item => {
+      const current = latest('novelItems', item);
+      record('novelItems', item, collector.fields(current, ['description', 'history'], `Item: ${current.name}`));
+    });
+
+    const grandSaga = collector.text(novel.grandSaga, 'Grand saga');
+    if (grandSaga !== novel.grandSaga) {
+      before.grandSaga = novel.grandSaga;
+      after.grandSaga = grandSaga;
+    }
+  }
+
+  return {
+    id: generateUUID(),
+    novelId: novel.id,
+    entityType: request.entityType,
+    entityId: request.entityId,
+    oldName,
+    newName,
+    createdAt: Date.now(),
+    before,
+    after,
+    changes: collector?.changes ?? [],
+    counts: collector?.counts ?? emptyCounts(),
+  };
+}
+
+function sameEntity(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Swaps the entities of `from` for those of `to`, skipping any that changed
+ * since `from` was taken. Returns the new state and the number skipped.
+ */
+function swapSnapshot(novel: NovelState, from: RenameSnapshot, to: RenameSnapshot): { state: NovelState; conflicts: number } {
+  let conflicts = 0;
+  const state: NovelState = { ...novel };
+
+  (Object.keys(to.entities) as RenameCollection[]).forEach(collection => {
+    const targets = to.entities[collection] ?? {};
+    const expected = from.entities[collection] ?? {};
+    const current = (novel[collection] ?? []) as Array<{ id: string }>;
+    const next = current.map(entity => {
+      if (!(entity.id in targets)) return entity;
+      if (!sameEntity(entity, expected[entity.id])) {
+        conflicts++;
+        return entity;
+      }
+      return targets[entity.id];
+    });
+    (state as unknown as Record<string, unknown>)[collection] = next;
+  });
+
+  if (to.grandSaga !== undefined) {
+    if (novel.grandSaga === from.grandSaga) state.grandSaga = to.grandSaga;
+    else conflicts++;
+  }
+
+  return { state, conflicts };
+}
+
+/**
+ * Applies a rename all or nothing: if anything it touches changed since the
+ * preview, the novel is returned as it was along with the conflict count.
+ */
+export function applyRename(novel: NovelState, changeSet: RenameChangeSet): { state: NovelState; conflicts: number } {
+  const result = swapSnapshot(novel, changeSet.before, changeSet.after);
+  return result.conflicts > 0 ? { state: novel, conflicts: result.conflicts } : result;
+}
+
+/** Undoes a rename, keeping any entity edited since it was applied */
+export function revertRename(novel: NovelState, changeSet: RenameChangeSet): { state: NovelState; conflicts: number } {
+  return swapSnapshot(novel, changeSet.after, changeSet.before);
+}
+
+/** The novel as it would be after the rename, for previewing the diff */
+export function previewRenamedNovel(novel: NovelState, changeSet: RenameChangeSet): NovelState {
+  return applyRename(novel, changeSet).state;
+}
+
+// Applied renames per novel, most recent last, for undo
+const history = new Map<string, RenameChangeSet[]>();
+
+export function recordRename(changeSet: RenameChangeSet): void {
+  const entries = [...(history.get(changeSet.novelId) ?? []), changeSet].slice(-MAX_HISTORY);
+  history.set(changeSet.novelId, entries);
+}
+
+export function getLastRename(novelId: string): RenameChangeSet | undefined {
+  const entries = history.get(novelId);
+  return entries?.[entries.length - 1];
+}
+
+/** Removes a rename from the undo history once it has been undone */
+export function forgetRename(changeSet: RenameChangeSet): void {
+  const entries = history.get(changeSet.novelId) ?? [];
+  history.set(changeSet.novelId, entries.filter(e => e.id !== changeSet.id));
+}
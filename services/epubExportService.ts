@@ -0,0 +1,298 @@
+/**
+ * EPUB Export Service
+ * Builds an EPUB 3 package (OPF manifest, nav document, one XHTML file per chapter,
+ * optional arc parts and an auto-generated glossary) fully client-side.
+ */
+
+import { Chapter, NovelState } from '../types';
+import { createZip, escapeXml, ZipEntry } from '../utils/zipWriter';
+import { ChapterPart, groupChaptersByArc, sortChapters, splitIntoBlocks } from '../utils/manuscriptUtils';
+
+export interface EpubExportOptions {
+  /** Author name shown on the title page and in metadata */
+  author?: string;
+  /** Language tag for dc:language (default: 'en') */
+  language?: string;
+  /** Insert a part divider page for each arc in the plot ledger */
+  groupByArc?: boolean;
+  /** Append a glossary built from the world bible, techniques and items */
+  includeGlossary?: boolean;
+  /** Include the grand saga as a synopsis on the front matter */
+  includeSynopsis?: boolean;
+  /** Restrict export to these chapters (defaults to all) */
+  chapters?: Chapter[];
+}
+
+export interface GlossaryEntry {
+  term: string;
+  category: string;
+  definition: string;
+}
+
+interface SpineItem {
+  id: string;
+  href: string;
+  title: string;
+  /** Nested nav entries (chapters within a part) */
+  children?: SpineItem[];
+  /** True for items that appear in the spine but not the table of contents */
+  hidden?: boolean;
+}
+
+const MAX_DEFINITION_LENGTH = 400;
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2 { text-align: center; font-weight: bold; }
+h1.title { margin-top: 30%; font-size: 2em; }
+p { text-indent: 1.5em; margin: 0; }
+p.no-indent, .front p { text-indent: 0; }
+p.scene-break { text-align: center; margin: 1em 0; text-indent: 0; }
+.part { text-align: center; margin-top: 35%; }
+.front { text-align: center; }
+dl.glossary dt { font-weight: bold; margin-top: 0.8em; }
+dl.glossary dd { margin-left: 1.5em; }
+span.category { font-style: italic; font-weight: normal; font-size: 0.85em; }
+`;
+
+/**
+ * Trim a definition to its first paragraph and a sane length
+ */
+function summarizeDefinition(text: string): string {
+  const firstParagraph = (text || '').trim().split(/\n\s*\n/)[0].replace(/\s+/g, ' ');
+  if (firstParagraph.length <= MAX_DEFINITION_LENGTH) return firstParagraph;
+  const cut = firstParagraph.slice(0, MAX_DEFINITION_LENGTH);
+  const lastStop = cut.lastIndexOf('. ');
+  return (lastStop > MAX_DEFINITION_LENGTH / 2 ? cut.slice(0, lastStop + 1) : cut.trimEnd() + '…');
+}
+
+/**
+ * Build glossary entries from the world bible, technique registry and item registry.
+ * Duplicate terms (case-insensitive) keep the first definition found.
+ */
+export function buildGlossary(novel: NovelState): GlossaryEntry[] {
+  const entries = new Map<string, GlossaryEntry>();
+  const add = (term: string, category: string, definition: string) => {
+    const key = term.trim().toLowerCase();
+    if (!key || !definition?.trim() || entries.has(key)) return;
+    entries.set(key, { term: term.trim(), category, definition: summarizeDefinition(definition) });
+  };
+
+  (novel.worldBible || []).forEach(entry => add(entry.title, entry.category, entry.content));
+  (novel.novelTechniques || []).forEach(technique =>
+    add(technique.name, `${technique.type} Technique`, technique.description)
+  );
+  (novel.novelItems || []).forEach(item => add(item.name, item.category, item.description));
+
+  return Array.from(entries.values()).sort((a, b) => a.term.localeCompare(b.term));
+}
+
+function xhtmlDocument(title: string, body: string, language: string, epubType?: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${epubType ? ` epub:type="${epubType}"` : ''}>
+${body}
+</body>
+</html>
+`;
+}
+
+function chapterHeading(chapter: Chapter): string {
+  return chapter.title ? `Chapter ${chapter.number}: ${chapter.title}` : `Chapter ${chapter.number}`;
+}
+
+function renderChapterBody(chapter: Chapter): string {
+  const blocks = splitIntoBlocks(chapter.content);
+  const lines: string[] = [`<section epub:type="chapter">`, `<h2>${escapeXml(chapterHeading(chapter))}</h2>`];
+  blocks.forEach((block, index) => {
+    if (block === null) {
+      lines.push('<p class="scene-break">* * *</p>');
+    } else {
+      const isFirst = index === 0 || blocks[index - 1] === null;
+      lines.push(`<p${isFirst ? ' class="no-indent"' : ''}>${escapeXml(block)}</p>`);
+    }
+  });
+  lines.push('</section>');
+  return lines.join('\n');
+}
+
+function renderTitlePage(novel: NovelState, options: EpubExportOptions): string {
+  const lines = [`<section class="front" epub:type="titlepage">`, `<h1 class="title">${escapeXml(novel.title)}</h1>`];
+  if (options.author) lines.push(`<p>${escapeXml(options.author)}</p>`);
+  if (novel.genre) lines.push(`<p><em>${escapeXml(novel.genre)}</em></p>`);
+  lines.push('</section>');
+  if (options.includeSynopsis && novel.grandSaga?.trim()) {
+    lines.push('<section epub:type="preface">', '<h2>Synopsis</h2>');
+    splitIntoBlocks(novel.grandSaga).forEach(block => {
+      if (block) lines.push(`<p class="no-indent">${escapeXml(block)}</p>`);
+    });
+    lines.push('</section>');
+  }
+  return lines.join('\n');
+}
+
+function renderPartPage(part: ChapterPart, index: number): string {
+  const title = part.arc?.title || 'Prologue';
+  const lines = [`<section class="part" epub:type="part">`, `<h1>Part ${index + 1}</h1>`, `<h2>${escapeXml(title)}</h2>`];
+  if (part.arc?.description) lines.push(`<p class="no-indent">${escapeXml(part.arc.description)}</p>`);
+  lines.push('</section>');
+  return lines.join('\n');
+}
+
+function renderGlossary(entries: GlossaryEntry[]): string {
+  const lines = [`<section epub:type="glossary">`, '<h2>Glossary</h2>', '<dl class="glossary">'];
+  entries.forEach(entry => {
+    lines.push(`<dt>${escapeXml(entry.term)} <span class="category">(${escapeXml(entry.category)})</span></dt>`);
+    lines.push(`<dd>${escapeXml(entry.definition)}</dd>`);
+  });
+  lines.push('</dl>', '</section>');
+  return lines.join('\n');
+}
+
+function renderNavList(items: SpineItem[]): string {
+  const visible = items.filter(item => !item.hidden);
+  if (visible.length === 0) return '';
+  const lines = ['<ol>'];
+  visible.forEach(item => {
+    const children = item.children ? renderNavList(item.children) : '';
+    lines.push(`<li><a href="${item.href}">${escapeXml(item.title)}</a>${children}</li>`);
+  });
+  lines.push('</ol>');
+  return lines.join('\n');
+}
+
+function renderNcx(novel: NovelState, identifier: string, items: SpineItem[]): string {
+  let order = 0;
+  const renderPoints = (list: SpineItem[]): string =>
+    list
+      .filter(item => !item.hidden)
+      .map(item => {
+        order += 1;
+        const children = item.children ? renderPoints(item.children) : '';
+        return `<navPoint id="nav-${item.id}" playOrder="${order}"><navLabel><text>${escapeXml(item.title)}</text></navLabel><content src="${item.href}"/>${children}</navPoint>`;
+      })
+      .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${escapeXml(identifier)}"/></head>
+<docTitle><text>${escapeXml(novel.title)}</text></docTitle>
+<navMap>
+${renderPoints(items)}
+</navMap>
+</ncx>
+`;
+}
+
+/**
+ * Build an EPUB 3 file for the novel. Returns the raw archive bytes.
+ */
+export function buildEpub(novel: NovelState, options: EpubExportOptions = {}): Uint8Array {
+  const language = options.language || 'en';
+  const identifier = `urn:uuid:${novel.id}`;
+  const modified = new Date(novel.updatedAt || Date.now()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const chapters = sortChapters(options.chapters || novel.chapters);
+
+  const files: ZipEntry[] = [];
+  const toc: SpineItem[] = [];
+  const spine: SpineItem[] = [];
+
+  const addDocument = (item: SpineItem, body: string, epubType?: string) => {
+    files.push({ path: `OEBPS/${item.href}`, data: xhtmlDocument(item.title, body, language, epubType) });
+    spine.push(item);
+  };
+
+  const titleItem: SpineItem = { id: 'title', href: 'title.xhtml', title: novel.title };
+  addDocument(titleItem, renderTitlePage(novel, options), 'frontmatter');
+  toc.push(titleItem);
+
+  const addChapter = (chapter: Chapter, parentList: SpineItem[]) => {
+    const item: SpineItem = { id: `chapter-${chapter.number}`, href: `chapter-${chapter.number}.xhtml`, title: chapterHeading(chapter) };
+    addDocument(item, renderChapterBody(chapter), 'bodymatter');
+    parentList.push(item);
+  };
+
+  const parts = options.groupByArc ? groupChaptersByArc(novel, chapters) : [{ arc: null, chapters }];
+  const useParts = options.groupByArc && parts.some(part => part.arc !== null);
+
+  parts.forEach((part, index) => {
+    if (!useParts) {
+      part.chapters.forEach(chapter => addChapter(chapter, toc));
+      return;
+    }
+    const partItem: SpineItem = {
+      id: `part-${index + 1}`,
+      href: `part-${index + 1}.xhtml`,
+      title: part.arc?.title || 'Prologue',
+      children: [],
+    };
+    addDocument(partItem, renderPartPage(part, index), 'bodymatter');
+    toc.push(partItem);
+    part.chapters.forEach(chapter => addChapter(chapter, partItem.children!));
+  });
+
+  if (options.includeGlossary) {
+    const glossary = buildGlossary(novel);
+    if (glossary.length > 0) {
+      const glossaryItem: SpineItem = { id: 'glossary', href: 'glossary.xhtml', title: 'Glossary' };
+      addDocument(glossaryItem, renderGlossary(glossary), 'backmatter');
+      toc.push(glossaryItem);
+    }
+  }
+
+  const navBody = `<nav epub:type="toc" id="toc">\n<h1>Contents</h1>\n${renderNavList(toc)}\n</nav>`;
+
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '<item id="css" href="styles.css" media-type="text/css"/>',
+    ...spine.map(item => `<item id="${item.id}" href="${item.href}" media-type="application/xhtml+xml"/>`),
+  ];
+
+  const metadata = [
+    `<dc:identifier id="bookid">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(novel.title)}</dc:title>`,
+    `<dc:language>${escapeXml(language)}</dc:language>`,
+    `<meta property="dcterms:modified">${modified}</meta>`,
+  ];
+  if (options.author) metadata.push(`<dc:creator>${escapeXml(options.author)}</dc:creator>`);
+  if (novel.genre) metadata.push(`<dc:subject>${escapeXml(novel.genre)}</dc:subject>`);
+  if (novel.grandSaga?.trim()) metadata.push(`<dc:description>${escapeXml(summarizeDefinition(novel.grandSaga))}</dc:description>`);
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="bookid" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join('\n')}
+</metadata>
+<manifest>
+${manifest.join('\n')}
+</manifest>
+<spine toc="ncx">
+${spine.map(item => `<itemref idref="${item.id}"/>`).join('\n')}
+</spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+  return createZip([
+    { path: 'mimetype', data: 'application/epub+zip' },
+    { path: 'META-INF/container.xml', data: container },
+    { path: 'OEBPS/content.opf', data: opf },
+    { path: 'OEBPS/nav.xhtml', data: xhtmlDocument('Contents', navBody, language) },
+    { path: 'OEBPS/toc.ncx', data: renderNcx(novel, identifier, toc) },
+    { path: 'OEBPS/styles.css', data: STYLESHEET },
+    ...files,
+  ]);
+}
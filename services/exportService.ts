@@ -1,4 +1,32 @@
-// ... existing code ...
+import { NovelState } from '../types';
+import { EditorReport } from '../types/editor';
+import { buildEpub, EpubExportOptions } from './epubExportService';
+import { buildDocx, DocxExportOptions } from './docxExportService';
+
+export type NovelExportFormat = 'markdown' | 'text' | 'epub' | 'docx';
+
+export interface NovelExportOptions {
+  /** EPUB-specific options (ignored for other formats) */
+  epub?: EpubExportOptions;
+  /** DOCX-specific options (ignored for other formats) */
+  docx?: DocxExportOptions;
+}
+
+/**
+ * Trigger a browser download for text or binary content
+ */
+export function downloadFile(content: string | Uint8Array | Blob, filename: string, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 export function exportReport(report: EditorReport, format: 'json' | 'csv' | 'html' | 'markdown') {
   const timestamp = new Date(report.createdAt).toISOString().split('T')[0];
   const baseFilename = `editor-report-${report.id.substring(0, 8)}-${timestamp}`;
@@ -36,8 +64,12 @@ export function exportReport(report: EditorReport, format: 'json' | 'csv' | 'htm
 /**
  * Export novel in specified format
  */
-export async function exportNovel(novel: NovelState, format: 'markdown' | 'text'): Promise<void> {
-  let content: string;
+export async function exportNovel(
+  novel: NovelState,
+  format: NovelExportFormat,
+  options: NovelExportOptions = {}
+): Promise<void> {
+  let content: string | Uint8Array;
   let filename: string;
   let mimeType: string;
   
@@ -49,6 +81,14 @@ export async function exportNovel(novel: NovelState, format: 'markdown' | 'text'
     content = exportNovelAsMarkdown(novel);
     filename = `${baseFilename}.md`;
     mimeType = 'text/markdown';
+  } else if (format === 'epub') {
+    content = buildEpub(novel, options.epub);
+    filename = `${baseFilename}.epub`;
+    mimeType = 'application/epub+zip';
+  } else if (format === 'docx') {
+    content = buildDocx(novel, options.docx);
+    filename = `${baseFilename}.docx`;
+    mimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
   } else {
     content = exportNovelAsText(novel);
     filename = `${baseFilename}.txt`;
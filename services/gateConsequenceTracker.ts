@@ -113,6 +113,21 @@ function saveTrackedConsequences(consequences: TrackedConsequence[]): void {
   }
 }
 
+/**
+ * Replace all tracked consequences for a novel (used when restoring a project archive)
+ */
+export function replaceTrackedConsequences(novelId: string, consequences: TrackedConsequence[]): void {
+  try {
+    const stored = localStorage.getItem(CONSEQUENCES_STORAGE_KEY);
+    const existing: TrackedConsequence[] = stored ? JSON.parse(stored) : [];
+    const others = existing.filter(c => c.novelId !== novelId);
+    localStorage.setItem(CONSEQUENCES_STORAGE_KEY, JSON.stringify([...others, ...consequences]));
+  } catch (error) {
+    logger.error('Failed to replace tracked consequences', 'consequenceTracker',
+      error instanceof Error ? error : undefined);
+  }
+}
+
 /**
  * Extract consequences from a resolved gate and start tracking them
  */
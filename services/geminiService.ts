@@ -1,6 +1,10 @@
 import { env } from '../utils/env';
 import { recordCacheHit, recordCacheMiss } from './promptCacheMonitor';
 import { jsonrepair } from 'jsonrepair';
+import { withLlmFixture } from './llmFixtureService';
+import { countTokens } from './promptEngine/tokenEstimator';
+import { createAbortError, isAbortError, readSseData, StreamOptions } from '../utils/streaming';
+import type { LlmUsage } from '../types/llmProviders';
 
 /**
  * Gemini Service - "The Clerk"
@@ -22,6 +26,8 @@ import { jsonrepair } from 'jsonrepair';
 
 type GeminiModel = 'gemini-1.5-flash' | 'gemini-2.0-flash' | 'gemini-2.0-flash-001' | 'gemini-2.5-flash';
 
+export const GEMINI_DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
 interface GeminiContent {
   parts: Array<{ text: string }>;
   role?: string;
@@ -79,28 +85,87 @@ function simpleHash(str: string): string {
   return Math.abs(hash).toString(36);
 }
 
+function toLlmUsage(meta: GeminiChatCompletionResponse['usageMetadata']): LlmUsage | undefined {
+  if (!meta || meta.promptTokenCount === undefined) return undefined;
+  return {
+    promptTokens: meta.promptTokenCount,
+    completionTokens: meta.candidatesTokenCount || 0,
+    cacheHitTokens: meta.cachedContentTokenCount || 0,
+  };
+}
+
 async function geminiChat(
   request: GeminiChatCompletionRequest,
-  model: GeminiModel
-): Promise<{ text: string; cachedTokens?: number }> {
+  model: GeminiModel | string,
+  baseUrl: string = GEMINI_DEFAULT_BASE_URL,
+  stream: StreamOptions = {}
+): Promise<{ text: string; cachedTokens?: number; usage?: LlmUsage }> {
+  const userPrompt = request.contents[request.contents.length - 1]?.parts[0]?.text || '';
+  return withLlmFixture(
+    'gemini',
+    model,
+    request,
+    userPrompt,
+    () => geminiChatLive(request, model, baseUrl, stream),
+    stream.onToken
+  );
+}
+
+async function geminiChatLive(
+  request: GeminiChatCompletionRequest,
+  model: GeminiModel | string,
+  baseUrl: string,
+  stream: StreamOptions
+): Promise<{ text: string; cachedTokens?: number; usage?: LlmUsage }> {
   const apiKey = getGeminiApiKey();
+  const streaming = !!stream.onToken;
 
-  // Gemini API endpoint
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
+  // Gemini API endpoint (streamGenerateContent with alt=sse emits one candidate chunk per event)
+  const root = baseUrl.replace(/\/+$/, '');
+  const url = streaming
+    ? `${root}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+    : `${root}/models/${model}:generateContent?key=${apiKey}`;
 
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(request),
-  });
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal: stream.signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw createAbortError();
+    throw error;
+  }
 
   if (!res.ok) {
     const text = await res.text().catch(() => '');
     throw new Error(`Gemini API error (${res.status}): ${text || res.statusText}`);
   }
 
+  if (streaming && res.body) {
+    let text = '';
+    let cachedTokens: number | undefined;
+    let usage: LlmUsage | undefined;
+    await readSseData(res.body, data => {
+      const chunk = JSON.parse(data) as GeminiChatCompletionResponse;
+      if (chunk.error) {
+        throw new Error(`Gemini API error: ${chunk.error.message}`);
+      }
+      const token = chunk.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+      cachedTokens = chunk.usageMetadata?.cachedContentTokenCount ?? cachedTokens;
+      usage = toLlmUsage(chunk.usageMetadata) ?? usage;
+      if (token) {
+        text += token;
+        stream.onToken?.(token, text);
+      }
+    });
+    return { text, cachedTokens, usage };
+  }
+
   const data = (await res.json()) as GeminiChatCompletionResponse;
   
   if (data.error) {
@@ -113,6 +178,7 @@ async function geminiChat(
   return {
     text: textContent,
     cachedTokens,
+    usage: toLlmUsage(data.usageMetadata),
   };
 }
 
@@ -126,7 +192,7 @@ async function geminiChat(
  *   - Implicit caching for repeated prefixes
  */
 export async function geminiText(opts: {
-  model?: GeminiModel;
+  model?: GeminiModel | string;
   system?: string;
   user: string;
   temperature?: number;
@@ -136,6 +202,12 @@ export async function geminiText(opts: {
     cacheableContent: string;
     dynamicContent: string;
   };
+  baseUrl?: string;
+  /** Stream tokens as they arrive (SSE) */
+  onToken?: StreamOptions['onToken'];
+  signal?: AbortSignal;
+  /** Receives the token usage Gemini reports */
+  onUsage?: (usage: LlmUsage) => void;
 }): Promise<string> {
   // Gemini 2.5 Flash is the default (latest stable version)
   const model = opts.model || 'gemini-2.5-flash';
@@ -176,10 +248,10 @@ export async function geminiText(opts: {
     },
   };
 
-  const result = await geminiChat(request, model);
+  const result = await geminiChat(request, model, opts.baseUrl, { onToken: opts.onToken, signal: opts.signal });
   
   // Track cache usage (Gemini provides cachedContentTokenCount in response)
-  const totalTokens = Math.ceil(userContent.length / 4); // Rough estimate
+  const totalTokens = countTokens(userContent, 'gemini');
   if (result.cachedTokens && result.cachedTokens > 0) {
     // Cache hit
     recordCacheHit('gemini', `gemini:${model}:${simpleHash(userContent.substring(0, 500))}`, result.cachedTokens, totalTokens);
@@ -188,6 +260,7 @@ export async function geminiText(opts: {
     // Cache miss (we tried to use cache but didn't get cached tokens)
     recordCacheMiss('gemini', `gemini:${model}:${simpleHash(userContent.substring(0, 500))}`, totalTokens);
   }
+  if (result.usage) opts.onUsage?.(result.usage);
   
   return result.text;
 }
@@ -421,7 +494,7 @@ function tryFixTruncatedJson(jsonString: string): string {
  *   - Character/item tracking
  */
 export async function geminiJson<T>(opts: {
-  model?: GeminiModel;
+  model?: GeminiModel | string;
   system?: string;
   user: string;
   temperature?: number;
@@ -431,6 +504,12 @@ export async function geminiJson<T>(opts: {
     cacheableContent: string;
     dynamicContent: string;
   };
+  baseUrl?: string;
+  /** Stream tokens as they arrive (SSE) */
+  onToken?: StreamOptions['onToken'];
+  signal?: AbortSignal;
+  /** Receives the token usage Gemini reports */
+  onUsage?: (usage: LlmUsage) => void;
 }): Promise<T> {
   const model = opts.model || 'gemini-2.5-flash';
   const maxOutputTokens = opts.maxTokens || 8192;
@@ -466,11 +545,11 @@ export async function geminiJson<T>(opts: {
     },
   };
 
-  const result = await geminiChat(request, model);
+  const result = await geminiChat(request, model, opts.baseUrl, { onToken: opts.onToken, signal: opts.signal });
   const raw = result.text;
   
   // Track cache usage (Gemini provides cachedContentTokenCount in response)
-  const totalTokens = Math.ceil(userContent.length / 4); // Rough estimate
+  const totalTokens = countTokens(userContent, 'gemini');
   if (result.cachedTokens && result.cachedTokens > 0) {
     // Cache hit
     recordCacheHit('gemini', `gemini:${model}:${simpleHash(userContent.substring(0, 500))}`, result.cachedTokens, totalTokens);
@@ -479,6 +558,7 @@ export async function geminiJson<T>(opts: {
     // Cache miss (we tried to use cache but didn't get cached tokens)
     recordCacheMiss('gemini', `gemini:${model}:${simpleHash(userContent.substring(0, 500))}`, totalTokens);
   }
+  if (result.usage) opts.onUsage?.(result.usage);
 
   // Strip markdown code blocks if present
   let cleaned = stripMarkdownCodeBlocks(raw);
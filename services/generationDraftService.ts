@@ -0,0 +1,73 @@
+/**
+ * Generation Draft Service
+ *
+ * Keeps the partially streamed chapter when generation is cancelled or fails,
+ * so the text can be recovered as a chapter instead of being lost. One draft
+ * is kept per novel in localStorage.
+ */
+
+import { Chapter } from '../types';
+import { generateUUID } from '../utils/uuid';
+import { countWords } from '../utils/manuscriptUtils';
+import { logger } from './loggingService';
+
+const GENERATION_DRAFT_KEY = 'generationDraft';
+
+export interface GenerationDraft {
+  novelId: string;
+  chapterNumber: number;
+  title: string;
+  content: string;
+  reason: 'cancelled' | 'failed';
+  savedAt: number;
+}
+
+/**
+ * Save a partial chapter; empty content is ignored
+ */
+export function saveGenerationDraft(draft: GenerationDraft): boolean {
+  if (!draft.content.trim()) return false;
+  try {
+    localStorage.setItem(`${GENERATION_DRAFT_KEY}_${draft.novelId}`, JSON.stringify(draft));
+    return true;
+  } catch (error) {
+    logger.warn('Failed to save generation draft', 'chapterGeneration', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Get the recoverable draft for a novel, if any
+ */
+export function getGenerationDraft(novelId: string): GenerationDraft | null {
+  try {
+    const stored = localStorage.getItem(`${GENERATION_DRAFT_KEY}_${novelId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearGenerationDraft(novelId: string): void {
+  localStorage.removeItem(`${GENERATION_DRAFT_KEY}_${novelId}`);
+}
+
+/**
+ * Turn a recovered draft into a chapter numbered after the novel's current last chapter
+ */
+export function createChapterFromDraft(draft: GenerationDraft, nextChapterNumber: number): Chapter {
+  const title = draft.title.trim().replace(/^Chapter\s+\d+[:\s]*/i, '');
+  const content = draft.content.trim();
+  return {
+    id: generateUUID(),
+    number: nextChapterNumber,
+    title: title ? `Chapter ${nextChapterNumber}: ${title}` : `Chapter ${nextChapterNumber}`,
+    content,
+    summary: '',
+    wordCount: countWords(content),
+    scenes: [],
+    createdAt: Date.now(),
+  };
+}
@@ -3,20 +3,19 @@
  * Uses LLM to validate and score improvements made to the novel.
  * Provides semantic comparison between before/after states.
  * 
- * Uses Gemini Flash ("The Clerk") for analysis tasks.
+ * Routed as a style_critique task ("The Clerk" unless reassigned).
  */
 
 import { NovelState, Chapter } from '../types';
 import { ImprovementCategory } from '../types/improvement';
-import { deepseekText, deepseekJson } from './deepseekService';
+import { routeTextTask } from './modelOrchestrator';
 
-// Helper function to call Gemini (The Clerk) with validation options
+// Helper function to call the style_critique provider with validation options
 async function callClerk(
   prompt: string,
   options: { maxTokens?: number; temperature?: number } = {}
 ): Promise<string> {
-  return deepseekText({
-    model: 'deepseek-chat',
+  return routeTextTask('style_critique', {
     system: 'You are an expert literary analyst. Analyze the given content and respond with JSON.',
     user: prompt,
     maxTokens: options.maxTokens || 2000,
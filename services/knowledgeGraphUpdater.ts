@@ -36,7 +36,7 @@ export class KnowledgeGraphUpdater {
   ): GraphUpdateResult {
     const graphService = getKnowledgeGraphService();
     const stateTracker = getEntityStateTracker();
-    const powerSystem = getPowerLevelSystem();
+    const powerSystem = getPowerLevelSystem(state);
 
     // Initialize graph if needed
     if (!graphService.getGraph()) {
@@ -17,7 +17,7 @@ import {
   WorldSimulationConfig,
   DEFAULT_WORLD_SIMULATION_CONFIG,
 } from '../../types/livingWorld';
-import { deepseekJson } from '../deepseekService';
+import { routeJsonTask } from '../modelOrchestrator';
 import { logger } from '../loggingService';
 import { generateUUID } from '../../utils/uuid';
 
@@ -285,7 +285,7 @@ async function generateCascadeEvent(
   const prompt = buildCascadePrompt(state, cascade);
 
   try {
-    const response = await deepseekJson<{
+    const response = await routeJsonTask<{
       description: string;
       summary: string;
       affectedEntities: Array<{ name: string; type: string }>;
@@ -293,12 +293,12 @@ async function generateCascadeEvent(
       urgency: string;
       impact: string;
       consequences?: string[];
-    }>({
-      model: config.model,
+    }>('creative_expansion', {
       system: CASCADE_SYSTEM_PROMPT,
       user: prompt,
       temperature: config.temperature,
       maxTokens: 2048,
+      usageContext: { novelId: state.id },
     });
 
     if (!response.description) {
@@ -29,7 +29,7 @@ import {
   DEFAULT_WORLD_SIMULATION_CONFIG,
 } from '../../types/livingWorld';
 import { isLivingWorldPineconeReady, getSimulationCandidates, storeWorldEvents } from './pineconeIntegration';
-import { deepseekJson } from '../deepseekService';
+import { routeJsonTask } from '../modelOrchestrator';
 import { logger } from '../loggingService';
 import { generateUUID } from '../../utils/uuid';
 
@@ -523,13 +523,13 @@ export async function runWorldSimulation(
     // Build user prompt
     const userPrompt = buildSimulationPrompt(worldState, trigger, config);
 
-    // Call DeepSeek
-    const rawResponse = await deepseekJson<LivingWorldRawResponse>({
-      model: config.model,
+    // Call the creative_expansion provider
+    const rawResponse = await routeJsonTask<LivingWorldRawResponse>('creative_expansion', {
       system: LIVING_WORLD_SYSTEM_PROMPT,
       user: userPrompt,
       temperature: config.temperature,
       maxTokens: config.maxTokens,
+      usageContext: { novelId: state.id },
     });
 
     // Process response into events
@@ -13,13 +13,9 @@ import {
   SimulationEntitySnapshot,
   WorldStateSnapshot,
 } from '../../types/livingWorld';
-import {
-  isPineconeReady,
-  queryByText,
-  upsertVectors,
-  PineconeQueryMatch,
-} from '../vectorDb/pineconeService';
-import { generateEmbedding, isEmbeddingServiceAvailable } from '../vectorDb/embeddingService';
+import type { PineconeQueryMatch } from '../vectorDb/pineconeService';
+import { isVectorStoreReady, queryByText, upsertVectors } from '../vectorDb/vectorStore';
+import { generateEmbedding } from '../vectorDb/embeddingService';
 import { logger } from '../loggingService';
 import { generateUUID } from '../../utils/uuid';
 
@@ -41,13 +37,10 @@ interface WorldEventMetadata {
 }
 
 /**
- * Check if Pinecone integration is available for Living World
+ * Check if vector search (Pinecone or the local store) is available for Living World
  */
 export async function isLivingWorldPineconeReady(): Promise<boolean> {
-  const pineconeReady = await isPineconeReady();
-  const embeddingReady = isEmbeddingServiceAvailable();
-  
-  return pineconeReady && embeddingReady;
+  return isVectorStoreReady();
 }
 
 /**
@@ -0,0 +1,149 @@
+/**
+ * LLM Fixture Service
+ *
+ * Record/replay layer underneath the raw DeepSeek and Gemini chat calls
+ * (deepseekText, deepseekJson, geminiText, geminiJson). In "record" mode every
+ * live request→response pair is captured; in "replay" mode responses are served
+ * from loaded fixtures by prompt hash and the network is never touched.
+ *
+ * Fixtures hold the raw model text, so JSON repair and parsing still run on replay.
+ */
+
+import { AppError } from '../utils/errorHandling';
+
+export type LlmFixtureMode = 'off' | 'record' | 'replay';
+
+export type LlmFixtureService = 'deepseek' | 'gemini';
+
+export interface LlmFixtureEntry {
+  service: LlmFixtureService;
+  model: string;
+  /** First characters of the user prompt, for humans reading the fixture file */
+  promptPreview: string;
+  response: string;
+  recordedAt: number;
+}
+
+export interface LlmFixtureFile {
+  version: 1;
+  entries: Record<string, LlmFixtureEntry>;
+}
+
+let mode: LlmFixtureMode = 'off';
+let fixtures: Record<string, LlmFixtureEntry> = {};
+let recordedCount = 0;
+
+/**
+ * cyrb53: fast, well-distributed 53-bit string hash
+ */
+function hashString(str: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Stable JSON: object keys sorted, undefined values dropped
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of a provider request body; identical prompts and settings give identical hashes
+ */
+export function hashLlmRequest(service: LlmFixtureService, model: string, request: unknown): string {
+  return hashString(canonicalJson({ service, model, request }));
+}
+
+export function setLlmFixtureMode(next: LlmFixtureMode): void {
+  mode = next;
+}
+
+export function getLlmFixtureMode(): LlmFixtureMode {
+  return mode;
+}
+
+/**
+ * Load fixtures for replay (merged with anything already loaded)
+ */
+export function loadLlmFixtures(file: LlmFixtureFile): void {
+  if (file.version !== 1 || !file.entries) {
+    throw new AppError(`Unsupported LLM fixture file version: ${String(file.version)}`, 'LLM_FIXTURE_INVALID');
+  }
+  fixtures = { ...fixtures, ...file.entries };
+}
+
+/**
+ * Current fixtures (loaded plus recorded) in file form
+ */
+export function exportLlmFixtures(): LlmFixtureFile {
+  return { version: 1, entries: { ...fixtures } };
+}
+
+/**
+ * Number of responses captured since the last clear
+ */
+export function getRecordedFixtureCount(): number {
+  return recordedCount;
+}
+
+export function clearLlmFixtures(): void {
+  fixtures = {};
+  recordedCount = 0;
+}
+
+/**
+ * Run a raw chat call through the fixture layer.
+ * `call` performs the live request and returns the raw model text. Streaming
+ * callers pass `onToken`; a replayed response is delivered as a single token.
+ */
+export async function withLlmFixture<R extends { text: string }>(
+  service: LlmFixtureService,
+  model: string,
+  request: unknown,
+  promptText: string,
+  call: () => Promise<R>,
+  onToken?: (token: string, text: string) => void
+): Promise<R | { text: string }> {
+  if (mode === 'off') {
+    return call();
+  }
+
+  const hash = hashLlmRequest(service, model, request);
+  const promptPreview = promptText.substring(0, 120);
+
+  if (mode === 'replay') {
+    const entry = fixtures[hash];
+    if (!entry) {
+      throw new AppError(
+        `No recorded ${service} fixture for prompt hash ${hash} ("${promptPreview}"). ` +
+        `Re-record the fixtures in record mode.`,
+        'LLM_FIXTURE_MISSING'
+      );
+    }
+    onToken?.(entry.response, entry.response);
+    return { text: entry.response };
+  }
+
+  const result = await call();
+  fixtures[hash] = { service, model, promptPreview, response: result.text, recordedAt: Date.now() };
+  recordedCount++;
+  return result;
+}
@@ -0,0 +1,88 @@
+import { deepseekJson, deepseekText, DEEPSEEK_DEFAULT_BASE_URL } from '../deepseekService';
+import { geminiJson, geminiText, GEMINI_DEFAULT_BASE_URL } from '../geminiService';
+import { env } from '../../utils/env';
+import { getLlmFixtureMode } from '../llmFixtureService';
+import type { LlmProvider, LlmProviderConfig } from '../../types/llmProviders';
+
+/**
+ * Built-in provider configurations and the DeepSeek/Gemini adapters.
+ * The adapters delegate to the existing services so cache tracking, JSON
+ * repair and fixture replay behave exactly as before. API keys are not needed
+ * while fixtures are being replayed.
+ */
+
+export const BUILT_IN_PROVIDER_CONFIGS: LlmProviderConfig[] = [
+  {
+    id: 'deepseek',
+    name: 'DeepSeek-V3.2 (The Writer)',
+    kind: 'deepseek',
+    baseUrl: DEEPSEEK_DEFAULT_BASE_URL,
+    model: 'deepseek-chat',
+    // Cache hits are billed at $0.014/1M (90% cheaper)
+    costs: { input: 0.14, output: 0.28, cachedInput: 0.014 },
+    builtIn: true,
+    description: 'Trained on Chinese web fiction. Understands cultivation tropes natively.',
+  },
+  {
+    id: 'gemini',
+    name: 'Gemini Flash (The Clerk)',
+    kind: 'gemini',
+    baseUrl: GEMINI_DEFAULT_BASE_URL,
+    model: 'gemini-2.5-flash',
+    costs: { input: 0.10, output: 0.40 },
+    builtIn: true,
+    description: 'Fast and accurate. Suited to state extraction and metadata processing.',
+  },
+  {
+    id: 'local',
+    name: 'Local (OpenAI-compatible)',
+    kind: 'openai-compatible',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    costs: { input: 0, output: 0 },
+    builtIn: true,
+    description: 'llama.cpp, vLLM, Ollama or any server exposing /v1/chat/completions.',
+  },
+];
+
+export function createDeepSeekProvider(config: LlmProviderConfig): LlmProvider {
+  return {
+    config,
+    getConfigurationError: () =>
+      env.deepseek?.apiKey || getLlmFixtureMode() === 'replay' ? null : 'DEEPSEEK_API_KEY is required but not set. Please set DEEPSEEK_API_KEY in your .env.local file.',
+    text: request => deepseekText({
+      model: config.model,
+      baseUrl: config.baseUrl,
+      system: request.system,
+      user: request.user,
+      temperature: request.temperature,
+      topP: request.topP,
+      maxTokens: request.maxTokens,
+      onToken: request.onToken,
+      signal: request.signal,
+      onUsage: request.onUsage,
+    }),
+    json: request => deepseekJson({
+      model: config.model,
+      baseUrl: config.baseUrl,
+      system: request.system,
+      user: request.user,
+      temperature: request.temperature,
+      topP: request.topP,
+      maxTokens: request.maxTokens,
+      onToken: request.onToken,
+      signal: request.signal,
+      onUsage: request.onUsage,
+    }),
+  };
+}
+
+export function createGeminiProvider(config: LlmProviderConfig): LlmProvider {
+  return {
+    config,
+    getConfigurationError: () =>
+      env.gemini?.apiKey || getLlmFixtureMode() === 'replay' ? null : 'GEMINI_API_KEY is required but not set. Please set GEMINI_API_KEY in your .env.local file.',
+    text: request => geminiText({ ...request, model: config.model, baseUrl: config.baseUrl }),
+    json: request => geminiJson({ ...request, model: config.model, baseUrl: config.baseUrl }),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * LLM Providers Module
+ *
+ * Pluggable text/JSON completion backends used by the Model Orchestrator.
+ *
+ * @example
+ * ```typescript
+ * import { saveProviderConfig, getProvider } from './services/llmProviders';
+ *
+ * saveProviderConfig({
+ *   id: 'vllm', name: 'vLLM box', kind: 'openai-compatible',
+ *   baseUrl: 'http://10.0.0.5:8000/v1', model: 'Qwen2.5-32B-Instruct',
+ *   costs: { input: 0, output: 0 },
+ * });
+ * const text = await getProvider('vllm').text({ user: 'Hello' });
+ * ```
+ */
+
+export {
+  registerProviderFactory,
+  getRegisteredProviderKinds,
+  getProviderConfigs,
+  getProviderConfig,
+  saveProviderConfig,
+  removeProviderConfig,
+  getProvider,
+} from './providerRegistry';
+
+export { BUILT_IN_PROVIDER_CONFIGS } from './builtInProviders';
+export { createOpenAiCompatibleProvider, parseJsonCompletion } from './openAiCompatibleProvider';
+export { createMockProvider, installMockProvider, MOCK_PROVIDER_ID } from './mockProvider';
+export type { MockLlmRule, MockLlmCall, MockLlmProvider } from './mockProvider';
+
+export type {
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderCosts,
+  LlmProviderFactory,
+  LlmProviderKind,
+  LlmCompletionRequest,
+} from '../../types/llmProviders';
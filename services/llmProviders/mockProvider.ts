@@ -0,0 +1,94 @@
+import type { LlmCompletionRequest, LlmProvider, LlmProviderConfig } from '../../types/llmProviders';
+import { registerProviderFactory, saveProviderConfig } from './providerRegistry';
+import { AppError } from '../../utils/errorHandling';
+import { throwIfAborted } from '../../utils/streaming';
+
+/**
+ * Scripted Mock Provider
+ *
+ * A deterministic provider for tests. Each request is matched against the
+ * script's rules in order; the first match supplies the response. Rules can be
+ * single-use to script a sequence (e.g. draft → critique → corrected draft).
+ */
+
+export interface MockLlmRule {
+  /** Substring or regex tested against "system\nuser", or a predicate. Omit to match anything. */
+  match?: string | RegExp | ((request: LlmCompletionRequest) => boolean);
+  /** Raw text, a JSON-serialisable value, or a function producing either */
+  response: unknown | ((request: LlmCompletionRequest) => unknown);
+  /** Remove the rule after it has answered once */
+  once?: boolean;
+}
+
+export interface MockLlmCall {
+  kind: 'text' | 'json';
+  request: LlmCompletionRequest;
+}
+
+export interface MockLlmProvider extends LlmProvider {
+  /** Every request served, in order */
+  readonly calls: MockLlmCall[];
+}
+
+export const MOCK_PROVIDER_ID = 'mock';
+
+function matches(rule: MockLlmRule, request: LlmCompletionRequest): boolean {
+  if (!rule.match) return true;
+  if (typeof rule.match === 'function') return rule.match(request);
+  const prompt = `${request.system || ''}\n${request.user}`;
+  return typeof rule.match === 'string' ? prompt.includes(rule.match) : rule.match.test(prompt);
+}
+
+export function createMockProvider(config: LlmProviderConfig, rules: MockLlmRule[]): MockLlmProvider {
+  const remaining = [...rules];
+  const calls: MockLlmCall[] = [];
+
+  const respond = (kind: 'text' | 'json', request: LlmCompletionRequest): string => {
+    throwIfAborted(request.signal);
+    calls.push({ kind, request });
+    const index = remaining.findIndex(rule => matches(rule, request));
+    if (index === -1) {
+      throw new AppError(
+        `Mock LLM has no scripted response for: "${request.user.substring(0, 120)}"`,
+        'LLM_MOCK_UNMATCHED'
+      );
+    }
+    const rule = remaining[index];
+    if (rule.once) remaining.splice(index, 1);
+    const value = typeof rule.response === 'function'
+      ? (rule.response as (r: LlmCompletionRequest) => unknown)(request)
+      : rule.response;
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    // Streaming callers receive the whole scripted response as one token
+    request.onToken?.(text, text);
+    return text;
+  };
+
+  return {
+    config,
+    calls,
+    getConfigurationError: () => null,
+    text: async request => respond('text', request),
+    // Parsing the serialised response means callers never share (and mutate) the script's objects
+    json: async <T>(request: LlmCompletionRequest) => JSON.parse(respond('json', request)) as T,
+  };
+}
+
+/**
+ * Register a scripted provider under the id "mock" and return it.
+ * Assign tasks to it with setTaskProvider(taskType, MOCK_PROVIDER_ID).
+ */
+export function installMockProvider(rules: MockLlmRule[]): MockLlmProvider {
+  const config: LlmProviderConfig = {
+    id: MOCK_PROVIDER_ID,
+    name: 'Scripted mock',
+    kind: 'mock',
+    baseUrl: 'mock://',
+    model: 'scripted',
+    costs: { input: 0, output: 0 },
+  };
+  const provider = createMockProvider(config, rules);
+  registerProviderFactory('mock', () => provider);
+  saveProviderConfig(config);
+  return provider;
+}
@@ -0,0 +1,112 @@
+import { jsonrepair } from 'jsonrepair';
+import type { LlmCompletionRequest, LlmProvider, LlmProviderConfig } from '../../types/llmProviders';
+import { ChatCompletionUsage, createAbortError, isAbortError, readChatCompletionStream, toLlmUsage } from '../../utils/streaming';
+
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Talks to any server exposing `POST {baseUrl}/chat/completions` in the OpenAI
+ * format: llama.cpp server, vLLM, Ollama (`http://localhost:11434/v1`), LM Studio.
+ * Local servers usually ignore the API key, so it is optional.
+ */
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: ChatCompletionUsage;
+  error?: { message?: string };
+}
+
+/**
+ * Parse a JSON completion, tolerating code fences and minor syntax damage
+ */
+export function parseJsonCompletion<T>(raw: string): T {
+  const trimmed = raw.trim();
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch {
+    const unfenced = trimmed.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const start = unfenced.search(/[{[]/);
+    const candidate = start > 0 ? unfenced.slice(start) : unfenced;
+    try {
+      return JSON.parse(candidate) as T;
+    } catch {
+      try {
+        return JSON.parse(jsonrepair(candidate)) as T;
+      } catch (error) {
+        throw new Error(
+          `Model returned invalid JSON: ${error instanceof Error ? error.message : String(error)}\n` +
+          `Preview: ${trimmed.substring(0, 500)}`
+        );
+      }
+    }
+  }
+}
+
+export function createOpenAiCompatibleProvider(config: LlmProviderConfig): LlmProvider {
+  const chat = async (request: LlmCompletionRequest, jsonMode: boolean): Promise<string> => {
+    const messages: ChatMessage[] = [];
+    if (request.system && request.system.trim() !== '') messages.push({ role: 'system', content: request.system });
+    messages.push({ role: 'user', content: request.user });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const streaming = !!request.onToken;
+    let res: Response;
+    try {
+      res = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          temperature: request.temperature,
+          top_p: request.topP,
+          max_tokens: request.maxTokens,
+          ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+          ...(streaming ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw createAbortError();
+      throw error;
+    }
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`${config.name} API error (${res.status}): ${text || res.statusText}`);
+    }
+
+    if (streaming) {
+      const { text, usage } = await readChatCompletionStream(res, request.onToken);
+      const llmUsage = toLlmUsage(usage);
+      if (llmUsage) request.onUsage?.(llmUsage);
+      return text;
+    }
+
+    const data = (await res.json()) as ChatCompletionResponse;
+    if (data.error?.message) {
+      throw new Error(`${config.name} API error: ${data.error.message}`);
+    }
+    const llmUsage = toLlmUsage(data.usage);
+    if (llmUsage) request.onUsage?.(llmUsage);
+    return data.choices?.[0]?.message?.content ?? '';
+  };
+
+  return {
+    config,
+    getConfigurationError: () => {
+      if (!config.baseUrl) return `${config.name} has no base URL configured.`;
+      if (!config.model) return `${config.name} has no model configured.`;
+      return null;
+    },
+    text: request => chat(request, false),
+    json: async <T>(request: LlmCompletionRequest) => parseJsonCompletion<T>(await chat(request, true)),
+  };
+}
@@ -0,0 +1,115 @@
+import type {
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderFactory,
+  LlmProviderKind,
+} from '../../types/llmProviders';
+import { BUILT_IN_PROVIDER_CONFIGS, createDeepSeekProvider, createGeminiProvider } from './builtInProviders';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { logger } from '../loggingService';
+
+/**
+ * LLM Provider Registry
+ *
+ * Holds one factory per provider kind and the list of configured provider
+ * instances. Built-in configs can be edited (base URL, model, costs); extra
+ * instances of any kind can be added. User changes persist in localStorage.
+ */
+
+const PROVIDERS_STORAGE_KEY = 'apexforge.llm.providers';
+
+const factories = new Map<LlmProviderKind | string, LlmProviderFactory>([
+  ['deepseek', createDeepSeekProvider],
+  ['gemini', createGeminiProvider],
+  ['openai-compatible', createOpenAiCompatibleProvider],
+]);
+
+/**
+ * Register (or replace) the factory for a provider kind
+ */
+export function registerProviderFactory(kind: LlmProviderKind | string, factory: LlmProviderFactory): void {
+  factories.set(kind, factory);
+}
+
+/**
+ * Provider kinds that have a registered factory
+ */
+export function getRegisteredProviderKinds(): string[] {
+  return Array.from(factories.keys());
+}
+
+function loadStoredConfigs(): LlmProviderConfig[] {
+  try {
+    const stored = localStorage.getItem(PROVIDERS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    logger.warn('Failed to load LLM provider configs', 'llmProviders', { error });
+    return [];
+  }
+}
+
+function saveStoredConfigs(configs: LlmProviderConfig[]): void {
+  try {
+    localStorage.setItem(PROVIDERS_STORAGE_KEY, JSON.stringify(configs));
+  } catch (error) {
+    logger.warn('Failed to save LLM provider configs', 'llmProviders', { error });
+  }
+}
+
+/**
+ * All configured providers: built-ins (with user overrides applied) followed by user-added ones
+ */
+export function getProviderConfigs(): LlmProviderConfig[] {
+  const stored = loadStoredConfigs();
+  const builtIns = BUILT_IN_PROVIDER_CONFIGS.map(builtIn => {
+    const override = stored.find(config => config.id === builtIn.id);
+    return override
+      ? { ...builtIn, baseUrl: override.baseUrl, model: override.model, apiKey: override.apiKey, costs: { ...override.costs } }
+      : builtIn;
+  });
+  const custom = stored
+    .filter(config => !BUILT_IN_PROVIDER_CONFIGS.some(builtIn => builtIn.id === config.id))
+    .map(config => ({ ...config, builtIn: false }));
+  return [...builtIns, ...custom];
+}
+
+/**
+ * Get a provider config by id
+ */
+export function getProviderConfig(id: string): LlmProviderConfig | undefined {
+  return getProviderConfigs().find(config => config.id === id);
+}
+
+/**
+ * Add or update a provider config. Built-in kinds and names are fixed.
+ */
+export function saveProviderConfig(config: LlmProviderConfig): void {
+  if (!factories.has(config.kind)) {
+    throw new Error(`Unknown LLM provider kind: ${config.kind}`);
+  }
+  const stored = loadStoredConfigs().filter(existing => existing.id !== config.id);
+  saveStoredConfigs([...stored, config]);
+}
+
+/**
+ * Remove a user-added provider, or reset a built-in provider to its defaults
+ */
+export function removeProviderConfig(id: string): void {
+  saveStoredConfigs(loadStoredConfigs().filter(config => config.id !== id));
+}
+
+/**
+ * Instantiate the provider with the given id
+ */
+export function getProvider(id: string): LlmProvider {
+  const config = getProviderConfig(id);
+  if (!config) {
+    throw new Error(`Unknown LLM provider: ${id}`);
+  }
+  const factory = factories.get(config.kind);
+  if (!factory) {
+    throw new Error(`No factory registered for LLM provider kind: ${config.kind}`);
+  }
+  return factory(config);
+}
@@ -19,7 +19,7 @@ import {
   LoomConfig,
   DEFAULT_LOOM_CONFIG,
 } from '../../types/loom';
-import { deepseekJson } from '../deepseekService';
+import { routeJsonTask } from '../modelOrchestrator';
 import { logger } from '../loggingService';
 import { generateUUID } from '../../utils/uuid';
 import {
@@ -179,7 +179,7 @@ export async function runLoomClerkAudit(
   try {
     const userPrompt = buildLoomClerkPrompt(chapter, existingThreads, novelState);
 
-    const rawResponse = await deepseekJson<{
+    const rawResponse = await routeJsonTask<{
       thread_updates: Array<{
         signature: string;
         action: string;
@@ -191,12 +191,12 @@ export async function runLoomClerkAudit(
         logic_reasoning: string;
       }>;
       consistency_warnings: string[];
-    }>({
-      model: config.model,
+    }>('metadata_extraction', {
       system: LOOM_CLERK_SYSTEM_PROMPT,
       user: userPrompt,
       temperature: config.temperature,
       maxTokens: config.maxTokens,
+      usageContext: { novelId: novelState.id, chapterNumber: chapter.number },
     });
 
     // Process and validate thread updates
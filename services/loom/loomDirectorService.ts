@@ -22,7 +22,7 @@ import {
   ConstraintType,
   calculatePayoffHorizon,
 } from '../../types/loom';
-import { deepseekJson } from '../deepseekService';
+import { routeJsonTask } from '../modelOrchestrator';
 import { logger } from '../loggingService';
 import { generateUUID } from '../../utils/uuid';
 import {
@@ -208,7 +208,7 @@ export async function generateDirectorDirective(
       fullLoom
     );
 
-    const rawResponse = await deepseekJson<{
+    const rawResponse = await routeJsonTask<{
       primary_goal: string;
       thread_anchors: Array<{
         signature: string;
@@ -230,12 +230,12 @@ export async function generateDirectorDirective(
       };
       warnings: string[];
       reasoning: string[];
-    }>({
-      model: config.useReasonerMode ? 'deepseek-reasoner' : 'deepseek-chat',
+    }>('arc_planning', {
       system: LOOM_DIRECTOR_SYSTEM_PROMPT,
       user: userPrompt,
       temperature: config.temperature,
       maxTokens: config.maxTokens,
+      usageContext: { novelId: novelState.id, chapterNumber: currentChapter },
     });
 
     // Build thread anchors from response + physics selection
@@ -446,10 +446,16 @@ function buildPowerSystemState(state: NovelState, currentChapter: number): Power
   const protagonist = state.characterCodex.find(c => c.isProtagonist);
   const currentProtagonistRank = protagonist?.currentCultivation || 'Unknown';
 
-  // Build level hierarchy from world bible
+  // Build level hierarchy from the novel's power system or the world bible
   const knownLevelHierarchy: string[] = [];
   const powerLevelEntry = state.worldBible.find(e => e.category === 'PowerLevels');
-  if (powerLevelEntry) {
+  const ladder = state.powerSystems?.[0];
+  if (ladder && ladder.stages.length > 0) {
+    // The novel's own ladder takes precedence over parsing prose
+    [...ladder.stages]
+      .sort((a, b) => a.order - b.order)
+      .forEach(stage => knownLevelHierarchy.push(stage.name));
+  } else if (powerLevelEntry) {
     // Try to extract levels from content
     const levels = powerLevelEntry.content.match(/\d+\.\s*([^:\n]+)/g);
     if (levels) {
@@ -951,10 +957,11 @@ export function getOrBuildLoreBible(state: NovelState): LoreBibleWithHistory {
  */
 export function applyDeltaToLoreBible(
   bible: LoreBibleWithHistory,
-  delta: ClerkDelta
+  delta: ClerkDelta,
+  novel: Pick<NovelState, 'secrets' | 'characterCodex'>
 ): { bible: LoreBibleWithHistory; result: DeltaApplyResult } {
   // Apply the delta
-  const result = applyClerkDelta(bible, delta);
+  const result = applyClerkDelta(bible, delta, novel);
 
   if (!result.success) {
     logger.warn('Delta application had errors', 'loreBibleService', {
@@ -1346,6 +1353,19 @@ export async function loadLoreBibleFromStorage(
   }
 }
 
+/**
+ * Read a persisted Lore Bible without touching the in-memory cache
+ * (used for backups of novels other than the active one)
+ */
+export function readPersistedLoreBible(novelId: string): LoreBibleWithHistory | null {
+  try {
+    const data = localStorage.getItem(`${LORE_BIBLE_STORAGE_KEY}_${novelId}`);
+    return data ? (JSON.parse(data) as LoreBibleWithHistory) : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Delete persisted Lore Bible
  */
@@ -0,0 +1,358 @@
+/**
+ * Manuscript Import Service
+ * Splits an existing manuscript (Markdown, DOCX or plain text) into Chapter and
+ * Scene records using configurable heading detection, and builds a new novel from it.
+ */
+
+import { Chapter, NovelState, Scene } from '../types';
+import { INITIAL_NOVEL_STATE } from '../constants';
+import { generateUUID } from '../utils/uuid';
+import { countWords, isSceneBreak } from '../utils/manuscriptUtils';
+import { isZip, readZip, zipEntryText } from '../utils/zipReader';
+import { AppError } from '../utils/errorHandling';
+
+export interface HeadingDetectionOptions {
+  /** "Chapter 12", "Chapter XII: Title", "Ch. 3 - Title" */
+  english: boolean;
+  /** "第十二章 标题", "第12回" */
+  chinese: boolean;
+  /** Markdown headings at `markdownLevel` ("## Title" by default) */
+  markdown: boolean;
+  markdownLevel: number;
+  /** Optional user regex; group 1 = chapter number, group 2 = title (both optional) */
+  customPattern?: string;
+  /** Extra scene-break lines besides the built-in glyphs ("* * *", "###", "◇◇◇", ...) */
+  sceneBreakMarkers?: string[];
+}
+
+export const DEFAULT_HEADING_OPTIONS: HeadingDetectionOptions = {
+  english: true,
+  chinese: true,
+  markdown: true,
+  markdownLevel: 2,
+  sceneBreakMarkers: [],
+};
+
+export interface ImportedChapterDraft {
+  /** Chapter number parsed from the heading, if any */
+  detectedNumber: number | null;
+  /** Final chapter number to use */
+  number: number;
+  title: string;
+  content: string;
+  scenes: string[];
+  wordCount: number;
+}
+
+export interface ManuscriptSplitResult {
+  chapters: ImportedChapterDraft[];
+  /** Text before the first heading that was not imported as a chapter */
+  frontMatter: string;
+  /** True when detected numbers were unusable and chapters were renumbered */
+  renumbered: boolean;
+}
+
+interface HeadingMatch {
+  number: number | null;
+  title: string;
+}
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+const CHINESE_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000, 万: 10000 };
+
+/**
+ * Parse Chinese (or Arabic) numerals: 十二 -> 12, 一百零三 -> 103, 12 -> 12
+ */
+export function parseChineseNumber(text: string): number | null {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  if (!trimmed) return null;
+
+  let total = 0;
+  let section = 0;
+  let digit = 0;
+  for (const char of trimmed) {
+    if (char in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[char];
+    } else if (char in CHINESE_UNITS) {
+      const unit = CHINESE_UNITS[char];
+      if (unit === 10000) {
+        total += (section + digit) * unit;
+        section = 0;
+      } else {
+        section += (digit || 1) * unit;
+      }
+      digit = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + section + digit;
+}
+
+/**
+ * Parse Roman numerals (I..MMMM); returns null for anything else
+ */
+function parseRomanNumber(text: string): number | null {
+  const values: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+  const lower = text.toLowerCase();
+  if (!/^[ivxlcdm]+$/.test(lower)) return null;
+  let total = 0;
+  for (let i = 0; i < lower.length; i++) {
+    const current = values[lower[i]];
+    const next = values[lower[i + 1]] || 0;
+    total += current < next ? -current : current;
+  }
+  return total > 0 ? total : null;
+}
+
+function cleanTitle(title: string | undefined): string {
+  return (title || '').replace(/^[\s:：.\-–—|]+/, '').replace(/[#*_]+$/g, '').trim();
+}
+
+/**
+ * Whether the text after "Chapter N" reads as a title rather than prose, so
+ * "Chapter 3 was the hardest to write." is not taken for a heading
+ */
+function isHeadingRemainder(rest: string): boolean {
+  const title = cleanTitle(rest);
+  if (!title) return true;
+  if (title.length > 80 || /[.!?]["'”’]?\s+\S/.test(title)) return false;
+  if (/^\s*[:：.\-–—|(]/.test(rest)) return true;
+  // Without a separator it must read like a title: "Chapter 1 The Gate"
+  return /^[^a-z]/.test(title) && !/[,;]/.test(title);
+}
+
+/**
+ * Check a single line against the enabled heading rules
+ */
+export function matchChapterHeading(line: string, options: HeadingDetectionOptions): HeadingMatch | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 160) return null;
+  // Strip markdown emphasis/heading markers so "## Chapter 3" and "**Chapter 3**" still match
+  const bare = trimmed.replace(/^#{1,6}\s+/, '').replace(/^[*_]+|[*_]+$/g, '').trim();
+
+  if (options.customPattern) {
+    try {
+      const match = new RegExp(options.customPattern, 'i').exec(trimmed);
+      if (match) {
+        const number = match[1] ? parseChineseNumber(match[1]) ?? parseRomanNumber(match[1]) : null;
+        return { number, title: cleanTitle(match[2]) };
+      }
+    } catch {
+      // Invalid user regex: ignore and fall through to built-in rules
+    }
+  }
+
+  if (options.english) {
+    const match = /^(?:chapter|ch\.)\s*(\d+|[ivxlcdm]+)\b(.*)$/i.exec(bare);
+    if (match) {
+      const number = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : parseRomanNumber(match[1]);
+      if (number !== null && isHeadingRemainder(match[2])) return { number, title: cleanTitle(match[2]) };
+    }
+  }
+
+  if (options.chinese) {
+    const match = /^第\s*([0-9零〇一二两三四五六七八九十百千万]+)\s*[章回节卷]\s*(.*)$/.exec(bare);
+    if (match) return { number: parseChineseNumber(match[1]), title: cleanTitle(match[2]) };
+  }
+
+  if (options.markdown) {
+    const match = /^(#{1,6})\s+(.+)$/.exec(trimmed);
+    if (match && match[1].length === options.markdownLevel) {
+      return { number: null, title: cleanTitle(match[2]) };
+    }
+  }
+
+  return null;
+}
+
+function isImportSceneBreak(line: string, options: HeadingDetectionOptions): boolean {
+  const trimmed = line.trim();
+  if (!trimmed) return false;
+  if ((options.sceneBreakMarkers || []).some(marker => marker.trim() && trimmed === marker.trim())) return true;
+  return isSceneBreak(trimmed);
+}
+
+/**
+ * Split a chapter body into scenes on scene-break lines
+ */
+function splitScenes(lines: string[], options: HeadingDetectionOptions): string[] {
+  const scenes: string[][] = [[]];
+  lines.forEach(line => {
+    if (isImportSceneBreak(line, options)) scenes.push([]);
+    else scenes[scenes.length - 1].push(line);
+  });
+  return scenes.map(scene => scene.join('\n').trim()).filter(Boolean);
+}
+
+/**
+ * Split manuscript text into chapter drafts.
+ * Detected chapter numbers are kept when they are unique and strictly increasing;
+ * otherwise chapters are numbered sequentially from `startNumber`.
+ */
+export function splitManuscript(
+  text: string,
+  options: HeadingDetectionOptions = DEFAULT_HEADING_OPTIONS,
+  startNumber: number = 1
+): ManuscriptSplitResult {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const sections: Array<{ heading: HeadingMatch; lines: string[] }> = [];
+  const frontMatter: string[] = [];
+
+  lines.forEach(line => {
+    const heading = matchChapterHeading(line, options);
+    if (heading) {
+      sections.push({ heading, lines: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    } else {
+      frontMatter.push(line);
+    }
+  });
+
+  // No headings at all: the whole manuscript becomes a single chapter
+  if (sections.length === 0 && frontMatter.join('').trim()) {
+    sections.push({ heading: { number: null, title: '' }, lines: frontMatter.splice(0) });
+  }
+
+  const detected = sections.map(s => s.heading.number);
+  const useDetected = detected.every((n, i) => n !== null && (i === 0 || n > (detected[i - 1] as number)));
+
+  const chapters = sections
+    .map((section, index): ImportedChapterDraft => {
+      const number = useDetected ? (section.heading.number as number) : startNumber + index;
+      const scenes = splitScenes(section.lines, options);
+      const content = section.lines.join('\n').trim();
+      return {
+        detectedNumber: section.heading.number,
+        number,
+        title: section.heading.title || `Chapter ${number}`,
+        content,
+        scenes,
+        wordCount: countWords(content),
+      };
+    })
+    .filter(chapter => chapter.content.length > 0);
+
+  return {
+    chapters,
+    frontMatter: frontMatter.join('\n').trim(),
+    renumbered: !useDetected,
+  };
+}
+
+/**
+ * Extract plain text from a DOCX file. Word "Title" paragraphs become "# " lines and
+ * "Heading 1" paragraphs become "## " lines so markdown heading detection applies.
+ */
+export async function extractDocxText(bytes: Uint8Array): Promise<string> {
+  const entries = await readZip(bytes);
+  const xml = zipEntryText(entries, 'word/document.xml');
+  if (!xml) {
+    throw new AppError('DOCX file has no word/document.xml', 'IMPORT_INVALID');
+  }
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+  const paragraphs = Array.from(doc.getElementsByTagNameNS(W_NS, 'p'));
+
+  return paragraphs
+    .map(paragraph => {
+      const style = paragraph.getElementsByTagNameNS(W_NS, 'pStyle')[0]?.getAttributeNS(W_NS, 'val')
+        || paragraph.getElementsByTagNameNS(W_NS, 'pStyle')[0]?.getAttribute('w:val')
+        || '';
+      let text = '';
+      const walk = (node: Element) => {
+        Array.from(node.children).forEach(child => {
+          if (child.namespaceURI !== W_NS) return;
+          if (child.localName === 't') text += child.textContent || '';
+          else if (child.localName === 'tab') text += '\t';
+          else if (child.localName === 'br' || child.localName === 'cr') text += '\n';
+          else if (child.localName !== 'pPr' && child.localName !== 'rPr') walk(child);
+        });
+      };
+      walk(paragraph);
+
+      const headingLevel = /^heading(\d)$/i.exec(style.replace(/\s+/g, ''));
+      if (/^title$/i.test(style) && text.trim()) return `# ${text.trim()}\n`;
+      if (headingLevel && text.trim()) return `${'#'.repeat(Number(headingLevel[1]) + 1)} ${text.trim()}\n`;
+      return `${text}\n`;
+    })
+    .join('\n');
+}
+
+/**
+ * Read an uploaded manuscript file into text
+ */
+export async function readManuscriptFile(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (/\.docx$/i.test(file.name) || isZip(bytes)) {
+    return extractDocxText(bytes);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Convert chapter drafts into Chapter records. Scene records are only created when
+ * the chapter contains explicit scene breaks; otherwise back-fill extraction creates them.
+ */
+export function buildChaptersFromDrafts(drafts: ImportedChapterDraft[]): Chapter[] {
+  const now = Date.now();
+  return drafts.map(draft => {
+    const chapterId = generateUUID();
+    const scenes: Scene[] = draft.scenes.length > 1
+      ? draft.scenes.map((sceneText, index) => ({
+          id: generateUUID(),
+          chapterId,
+          number: index + 1,
+          title: `Scene ${index + 1}`,
+          content: sceneText,
+          summary: '',
+          wordCount: countWords(sceneText),
+          tags: [],
+          createdAt: now,
+          updatedAt: now,
+        }))
+      : [];
+
+    return {
+      id: chapterId,
+      number: draft.number,
+      title: draft.title,
+      content: draft.content,
+      summary: '',
+      wordCount: draft.wordCount,
+      scenes,
+      createdAt: now,
+    };
+  });
+}
+
+/**
+ * Create a new novel populated with imported chapters
+ */
+export function createNovelFromManuscript(title: string, genre: string, drafts: ImportedChapterDraft[]): NovelState {
+  const realmId = generateUUID();
+  const now = Date.now();
+  return {
+    ...INITIAL_NOVEL_STATE,
+    id: generateUUID(),
+    title: title.trim() || 'Imported Manuscript',
+    genre,
+    realms: INITIAL_NOVEL_STATE.realms.map(r => ({ ...r, id: realmId })),
+    currentRealmId: realmId,
+    territories: [],
+    worldBible: [],
+    characterCodex: INITIAL_NOVEL_STATE.characterCodex.map(c => ({ ...c, id: generateUUID() })),
+    plotLedger: [],
+    chapters: buildChaptersFromDrafts(drafts),
+    systemLogs: [],
+    tags: [],
+    writingGoals: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
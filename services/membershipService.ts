@@ -0,0 +1,136 @@
+/**
+ * Membership Service
+ * Handles invitations and roles of the people a novel is shared with
+ */
+
+import { supabase } from './supabaseService';
+import type { NovelMember, NovelRole } from '../types/membership';
+import type { NovelMemberRow } from '../types/database';
+import { withRetry } from '../utils/errorHandling';
+import { logger } from './loggingService';
+
+const timestampToNumber = (ts: string | null): number => {
+  return ts ? new Date(ts).getTime() : Date.now();
+};
+
+const toMember = (row: NovelMemberRow): NovelMember => ({
+  id: row.id,
+  novelId: row.novel_id,
+  userId: row.user_id || undefined,
+  email: row.email,
+  role: row.role as NovelRole,
+  invitedAt: timestampToNumber(row.invited_at),
+  acceptedAt: row.accepted_at ? timestampToNumber(row.accepted_at) : undefined,
+});
+
+/**
+ * Fetch everyone a novel is shared with
+ */
+export async function fetchMembers(novelId: string): Promise<NovelMember[]> {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from('novel_members')
+      .select('*')
+      .eq('novel_id', novelId)
+      .order('invited_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching members:', error);
+      throw new Error(`Failed to fetch members: ${error.message}`);
+    }
+
+    return (data || []).map(toMember);
+  });
+}
+
+/**
+ * Invite someone by email; they join the novel the next time they sign in with it
+ */
+export async function inviteMember(novelId: string, email: string, role: NovelRole): Promise<NovelMember> {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from('novel_members')
+      .insert({
+        novel_id: novelId,
+        email: email.trim().toLowerCase(),
+        role,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error inviting member:', error);
+      throw new Error(`Failed to invite member: ${error.message}`);
+    }
+
+    return toMember(data);
+  });
+}
+
+/**
+ * Change a member's role
+ */
+export async function updateMemberRole(memberId: string, role: NovelRole): Promise<NovelMember> {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from('novel_members')
+      .update({ role })
+      .eq('id', memberId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating member role:', error);
+      throw new Error(`Failed to update member role: ${error.message}`);
+    }
+
+    return toMember(data);
+  });
+}
+
+/**
+ * Remove a member or withdraw an invitation
+ */
+export async function removeMember(memberId: string): Promise<void> {
+  return withRetry(async () => {
+    const { error } = await supabase
+      .from('novel_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('Error removing member:', error);
+      throw new Error(`Failed to remove member: ${error.message}`);
+    }
+  });
+}
+
+/**
+ * Roles of a user in the novels shared with them, by novel id. Empty when
+ * the roles migration has not been applied.
+ */
+export async function fetchMemberRoles(userId: string): Promise<Map<string, NovelRole>> {
+  const { data, error } = await supabase
+    .from('novel_members')
+    .select('novel_id, role')
+    .eq('user_id', userId);
+
+  if (error) {
+    logger.warn('Could not load novel memberships', 'supabase', { error: error.message });
+    return new Map();
+  }
+
+  return new Map((data || []).map(row => [row.novel_id as string, row.role as NovelRole]));
+}
+
+/**
+ * Attach the invitations sent to the signed-in user's email to their account
+ */
+export async function acceptPendingInvites(): Promise<number> {
+  const { data, error } = await supabase.rpc('accept_novel_invites');
+  if (error) {
+    logger.warn('Could not accept pending novel invitations', 'supabase', { error: error.message });
+    return 0;
+  }
+  return typeof data === 'number' ? data : 0;
+}
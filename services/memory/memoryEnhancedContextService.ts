@@ -7,7 +7,7 @@
  * 
  * 1. Short-Term (Current Breath): Last 3-5 chapters
  * 2. Mid-Term (Episodic Arc): Arc summaries  
- * 3. Long-Term (Sect Library): Pinecone vector search + Lore Bible
+ * 3. Long-Term (Sect Library): Vector search (Pinecone or local) + Lore Bible
  */
 
 import { NovelState, PromptContext } from '../../types';
@@ -16,7 +16,7 @@ import { gatherMemoryContext, assembleContextWithBudget, MemoryContext, MemoryGa
 import { analyzeChapterContext, getSearchQueries } from './queryAnalyzer';
 import { buildLoreBible, formatLoreBibleForPrompt, formatLoreBibleCompact } from '../loreBible/loreBibleService';
 import { getRelevantArcMemories, formatArcMemoriesCompact, ArcMemorySummary } from './arcMemoryService';
-import { isPineconeReady, getContextForChapterGeneration } from '../vectorDb';
+import { isVectorStoreReady, getContextForChapterGeneration } from '../vectorDb';
 import { estimateTokens } from '../promptEngine/tokenEstimator';
 
 /**
@@ -119,15 +119,14 @@ export async function gatherMemoryEnhancedContext(
   let vectorDbUsed = false;
 
   if (!opts.skipVectorDb) {
-    const pineconeReady = await isPineconeReady();
-    if (pineconeReady && searchQueries.length > 0) {
+    const vectorStoreReady = await isVectorStoreReady();
+    if (vectorStoreReady && searchQueries.length > 0) {
       try {
         const searchResults = await getContextForChapterGeneration(state.id, searchQueries, {
           maxCharacters: 5,
           maxWorldEntries: 3,
           maxPlotElements: 3,
           maxPowerElements: 3,
-          minScore: 0.5,
         });
 
         semanticSearchContext = formatSemanticSearchResults(searchResults);
@@ -303,8 +302,8 @@ export async function getQuickMemoryPreview(
     : 'No arc memories';
 
   // Check vector DB
-  const pineconeReady = await isPineconeReady();
-  const vectorDbStatus = pineconeReady ? 'Connected' : 'Not configured';
+  const vectorStoreReady = await isVectorStoreReady();
+  const vectorDbStatus = vectorStoreReady ? 'Connected' : 'Not configured';
 
   return {
     loreBibleSummary,
@@ -15,7 +15,7 @@ import { LoreBible } from '../../types/loreBible';
 import { logger } from '../loggingService';
 import { buildLoreBible, formatLoreBibleForPrompt, formatLoreBibleCompact } from '../loreBible/loreBibleService';
 import { getRelevantArcMemories, formatArcMemoriesCompact, ArcMemorySummary } from './arcMemoryService';
-import { getContextForChapterGeneration, SemanticSearchResult, isPineconeReady } from '../vectorDb';
+import { getContextForChapterGeneration, SemanticSearchResult, isVectorStoreReady } from '../vectorDb';
 import { extractChapterEnding, buildContinuityBridge } from '../promptEngine/contextGatherer';
 import { getStyleProfile } from '../promptEngine/styleAnalyzer';
 import { estimateTokens } from '../promptEngine/tokenEstimator';
@@ -289,7 +289,7 @@ async function gatherLongTermMemory(
   state: NovelState,
   options: MemoryGatherOptions
 ): Promise<LongTermContext> {
-  const vectorDbAvailable = await isPineconeReady();
+  const vectorDbAvailable = await isVectorStoreReady();
   
   if (!vectorDbAvailable) {
     logger.warn('Vector DB not available, using empty long-term context', 'memoryTierManager');
@@ -316,7 +316,6 @@ async function gatherLongTermMemory(
     maxWorldEntries: 3,
     maxPlotElements: 3,
     maxPowerElements: 3,
-    minScore: 0.5,
   });
   
   // Format search results
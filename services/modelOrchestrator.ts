@@ -1,7 +1,10 @@
-import { deepseekText, deepseekJson } from './deepseekService';
-import { geminiText, geminiJson } from './geminiService';
 import { logger } from './loggingService';
-import { env } from '../utils/env';
+import { getProvider, getProviderConfig } from './llmProviders';
+import type { LlmProvider, LlmProviderConfig, LlmUsage } from '../types/llmProviders';
+import type { UsageContext } from '../types/usageLedger';
+import { countTokens } from './promptEngine/tokenEstimator';
+import { calculateUsageCost, getUsageContext, recordUsage } from './usageLedgerService';
+import { isAbortError, TokenHandler } from '../utils/streaming';
 
 /**
  * Model Orchestrator - Simplified Two-Model Architecture
@@ -14,47 +17,43 @@ import { env } from '../utils/env';
  * Gemini 3 Flash ("The Clerk"):
  *   - Fast, cost-effective for state extraction
  *   - Used for: Metadata extraction, Lore Bible updates, Character/item tracking
+ *
+ * Providers come from the LLM provider registry (services/llmProviders), so any
+ * TaskType can be reassigned from the UI, e.g. to a local OpenAI-compatible server.
  */
 
 /**
- * Cost per 1M tokens (approximate, as of 2025)
+ * Records a completed request in the usage ledger and returns what was recorded.
+ * Uses the provider-reported usage, or counts tokens locally when there is none
+ * (fixture replay, servers that omit usage). Speech synthesis is recorded here
+ * too, though it is not a routable task.
  */
-const MODEL_COSTS = {
-  deepseek: {
-    input: 0.14,  // $0.14 per 1M input tokens (cache miss)
-    output: 0.28, // $0.28 per 1M output tokens
-    // Note: Cache hit is $0.014/1M (90% cheaper)
-  },
-  gemini: {
-    input: 0.10,  // $0.10 per 1M input tokens
-    output: 0.40, // $0.40 per 1M output tokens
-  },
-};
-
-/**
- * Estimates token count (rough approximation: 1 token ≈ 4 characters)
- */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
-/**
- * Estimates cost for a request
- */
-function estimateCost(
-  provider: 'deepseek' | 'gemini',
+export function recordTaskUsage(
+  taskType: TaskType | 'speech_synthesis',
+  config: LlmProviderConfig,
   inputText: string,
-  outputText: string
-): { inputCost: number; outputCost: number; totalCost: number; inputTokens: number; outputTokens: number } {
-  const costs = MODEL_COSTS[provider];
-  const inputTokens = estimateTokens(inputText);
-  const outputTokens = estimateTokens(outputText);
-
-  const inputCost = (inputTokens / 1_000_000) * costs.input;
-  const outputCost = (outputTokens / 1_000_000) * costs.output;
-  const totalCost = inputCost + outputCost;
-
-  return { inputCost, outputCost, totalCost, inputTokens, outputTokens };
+  outputText: string,
+  reported: LlmUsage | undefined,
+  context: UsageContext | undefined
+): { usage: LlmUsage; cost: number } {
+  const usage = reported ?? {
+    promptTokens: countTokens(inputText, config.kind),
+    completionTokens: countTokens(outputText, config.kind),
+    cacheHitTokens: 0,
+  };
+  const cost = calculateUsageCost(config.costs, usage);
+  void recordUsage({
+    ...getUsageContext(),
+    ...context,
+    providerId: config.id,
+    providerKind: config.kind,
+    model: config.model,
+    taskType,
+    ...usage,
+    estimated: !reported,
+    cost,
+  });
+  return { usage, cost };
 }
 
 /**
@@ -85,48 +84,99 @@ export type TaskType =
   | 'style_critique';       // Gemini - Style critique for critique-correction loop
 
 /**
- * MODEL ASSIGNMENTS
+ * DEFAULT MODEL ASSIGNMENTS
  * 
- * DeepSeek is now used for all tasks including prose and analytical extraction.
+ * DeepSeek is used for all tasks including prose and analytical extraction.
+ * Users can reassign any task to another registered provider; see setTaskProvider.
  */
-const MODEL_ASSIGNMENTS: Record<TaskType, { provider: 'deepseek' | 'gemini'; model: string; description: string }> = {
+const DEFAULT_MODEL_ASSIGNMENTS: Record<TaskType, { provider: string; description: string }> = {
   // DeepSeek "The Writer" tasks
-  prose_generation: { provider: 'deepseek', model: 'deepseek-chat', description: 'Chapter generation' },
-  prose_editing: { provider: 'deepseek', model: 'deepseek-chat', description: 'Prose editing and revision' },
-  arc_planning: { provider: 'deepseek', model: 'deepseek-chat', description: 'Story arc planning' },
-  creative_expansion: { provider: 'deepseek', model: 'deepseek-chat', description: 'Creative prose expansion' },
-  drafting: { provider: 'deepseek', model: 'deepseek-chat', description: 'Initial drafting' },
+  prose_generation: { provider: 'deepseek', description: 'Chapter generation' },
+  prose_editing: { provider: 'deepseek', description: 'Prose editing and revision' },
+  arc_planning: { provider: 'deepseek', description: 'Story arc planning' },
+  creative_expansion: { provider: 'deepseek', description: 'Creative prose expansion' },
+  drafting: { provider: 'deepseek', description: 'Initial drafting' },
 
   // All analytical tasks now use DeepSeek-chat ("The Clerk")
-  metadata_extraction: { provider: 'deepseek', model: 'deepseek-chat', description: 'State extraction ("The Clerk")' },
-  lore_dictation: { provider: 'deepseek', model: 'deepseek-chat', description: 'Lore dictation/expansion' },
-  refine_spoken_input: { provider: 'deepseek', model: 'deepseek-chat', description: 'Polishing speech-to-text' },
-  style_critique: { provider: 'deepseek', model: 'deepseek-chat', description: 'Literary style analysis' },
+  metadata_extraction: { provider: 'deepseek', description: 'State extraction ("The Clerk")' },
+  lore_dictation: { provider: 'deepseek', description: 'Lore dictation/expansion' },
+  refine_spoken_input: { provider: 'deepseek', description: 'Polishing speech-to-text' },
+  style_critique: { provider: 'deepseek', description: 'Literary style analysis' },
 };
 
+const TASK_ASSIGNMENTS_STORAGE_KEY = 'apexforge.llm.taskAssignments';
+
 /**
- * Validates that required API keys are available
+ * User-chosen provider ids per task type
  */
-function validateApiKey(provider: 'deepseek' | 'gemini'): void {
-  if (provider === 'deepseek') {
-    if (!env.deepseek?.apiKey) {
-      throw new Error(
-        `DEEPSEEK_API_KEY is required but not set. ` +
-        `Please set DEEPSEEK_API_KEY in your .env.local file.`
-      );
-    }
-  } else if (provider === 'gemini') {
-    if (!env.gemini?.apiKey) {
-      throw new Error(
-        `GEMINI_API_KEY is required but not set. ` +
-        `Please set GEMINI_API_KEY in your .env.local file.`
-      );
-    }
+export function getTaskProviderOverrides(): Partial<Record<TaskType, string>> {
+  try {
+    const stored = localStorage.getItem(TASK_ASSIGNMENTS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Assign a task type to a provider, or pass null to restore the default
+ */
+export function setTaskProvider(taskType: TaskType, providerId: string | null): void {
+  const overrides = getTaskProviderOverrides();
+  if (providerId && providerId !== DEFAULT_MODEL_ASSIGNMENTS[taskType].provider) {
+    overrides[taskType] = providerId;
+  } else {
+    delete overrides[taskType];
+  }
+  try {
+    localStorage.setItem(TASK_ASSIGNMENTS_STORAGE_KEY, JSON.stringify(overrides));
+  } catch {
+    // ignore persistence failures
+  }
+}
+
+/**
+ * Resolves the provider id for a task: user assignment first (if the provider
+ * still exists), then the default
+ */
+function resolveProviderId(taskType: TaskType): string {
+  const assigned = getTaskProviderOverrides()[taskType];
+  if (assigned && getProviderConfig(assigned)) {
+    return assigned;
+  }
+  return DEFAULT_MODEL_ASSIGNMENTS[taskType].provider;
+}
+
+/**
+ * Applies the chapter generation model preference to prose_generation, unless
+ * the user has explicitly assigned that task or the provider no longer exists
+ */
+function resolveRoutedProviderId(taskType: TaskType, overrideProvider?: string): string {
+  if (
+    taskType === 'prose_generation' &&
+    overrideProvider &&
+    !getTaskProviderOverrides()[taskType] &&
+    getProviderConfig(overrideProvider)
+  ) {
+    return overrideProvider;
+  }
+  return resolveProviderId(taskType);
+}
+
+/**
+ * Instantiates a provider and verifies it can be called
+ */
+function resolveProvider(providerId: string): LlmProvider {
+  const provider = getProvider(providerId);
+  const configError = provider.getConfigurationError();
+  if (configError) {
+    throw new Error(configError);
   }
+  return provider;
 }
 
 /**
- * Routes a text generation task to the appropriate model
+ * Routes a text generation task to the provider assigned to it
  * 
  * DeepSeek ("The Writer"): prose_generation, prose_editing, arc_planning, creative_expansion, drafting
  * Gemini ("The Clerk"): metadata_extraction, lore_dictation, refine_spoken_input
@@ -143,59 +193,61 @@ export async function routeTextTask(
       cacheableContent: string;
       dynamicContent: string;
     };
+    onToken?: TokenHandler;
+    signal?: AbortSignal;
+    usageContext?: UsageContext;
   }
 ): Promise<string> {
-  const assignment = MODEL_ASSIGNMENTS[taskType];
+  const assignment = DEFAULT_MODEL_ASSIGNMENTS[taskType];
   if (!assignment) {
     throw new Error(`Unknown task type: ${taskType}`);
   }
 
-  validateApiKey(assignment.provider);
+  const provider = resolveProvider(resolveProviderId(taskType));
+  const { id: providerId, model } = provider.config;
 
   const startTime = Date.now();
-  logger.info(`[${assignment.provider.toUpperCase()}] Routing ${taskType} (${assignment.description})`, 'modelOrchestrator');
+  logger.info(`[${providerId.toUpperCase()}] Routing ${taskType} (${assignment.description})`, 'modelOrchestrator');
 
   try {
-    let result: string;
-
-    if (assignment.provider === 'deepseek') {
-      result = await deepseekText({
-        model: 'deepseek-chat',
-        system: opts.system,
-        user: opts.user,
-        temperature: opts.temperature,
-        topP: opts.topP,
-        maxTokens: opts.maxTokens,
-      });
-    } else {
-      result = await geminiText({
-        model: 'gemini-2.5-flash',
-        system: opts.system,
-        user: opts.user,
-        temperature: opts.temperature,
-        topP: opts.topP,
-        maxTokens: opts.maxTokens,
-        cacheMetadata: opts.cacheMetadata,
-      });
-    }
+    let reportedUsage: LlmUsage | undefined;
+    const result = await provider.text({
+      system: opts.system,
+      user: opts.user,
+      temperature: opts.temperature,
+      topP: opts.topP,
+      maxTokens: opts.maxTokens,
+      cacheMetadata: opts.cacheMetadata,
+      onToken: opts.onToken,
+      signal: opts.signal,
+      onUsage: usage => { reportedUsage = usage; },
+    });
 
     const duration = Date.now() - startTime;
-    logger.info(`[${assignment.provider.toUpperCase()}] Completed ${taskType} in ${duration}ms`, 'modelOrchestrator', {
+    const { cost } = recordTaskUsage(
+      taskType, provider.config, (opts.system || '') + '\n' + opts.user, result, reportedUsage, opts.usageContext
+    );
+    logger.info(`[${providerId.toUpperCase()}] Completed ${taskType} in ${duration}ms`, 'modelOrchestrator', {
       taskType,
-      provider: assignment.provider,
-      model: assignment.model,
+      provider: providerId,
+      model,
       duration,
+      totalCost: cost.toFixed(6),
     });
 
     return result;
   } catch (error) {
     const duration = Date.now() - startTime;
-    logger.error(`[${assignment.provider.toUpperCase()}] Failed ${taskType} after ${duration}ms`, 'modelOrchestrator',
+    if (isAbortError(error)) {
+      logger.info(`[${providerId.toUpperCase()}] Cancelled ${taskType} after ${duration}ms`, 'modelOrchestrator');
+      throw error;
+    }
+    logger.error(`[${providerId.toUpperCase()}] Failed ${taskType} after ${duration}ms`, 'modelOrchestrator',
       error instanceof Error ? error : undefined,
       {
         taskType,
-        provider: assignment.provider,
-        model: assignment.model,
+        provider: providerId,
+        model,
         duration,
       }
     );
@@ -204,12 +256,13 @@ export async function routeTextTask(
 }
 
 /**
- * Routes a JSON generation task to the appropriate model
+ * Routes a JSON generation task to the provider assigned to it
  * 
  * DeepSeek ("The Writer"): prose_generation, prose_editing, arc_planning, creative_expansion, drafting
  * Gemini ("The Clerk"): metadata_extraction, lore_dictation, refine_spoken_input
  * 
- * @param overrideProvider - Optional override for prose_generation task (allows user to choose model)
+ * @param overrideProvider - Optional provider id for prose_generation (the chapter generation model
+ *   preference). Ignored when the user has explicitly assigned prose_generation to a provider.
  */
 export async function routeJsonTask<T>(
   taskType: TaskType,
@@ -223,81 +276,72 @@ export async function routeJsonTask<T>(
       cacheableContent: string;
       dynamicContent: string;
     };
-    overrideProvider?: string; // Optional: 'deepseek' or 'gemini' to override default
+    overrideProvider?: string; // Optional: registered provider id to override default
+    onToken?: TokenHandler; // Optional: stream raw JSON text as it arrives
+    signal?: AbortSignal;
+    usageContext?: UsageContext; // Optional: novel/chapter to bill; defaults to the active usage context
   }
 ): Promise<T> {
-  let assignment = MODEL_ASSIGNMENTS[taskType];
+  const assignment = DEFAULT_MODEL_ASSIGNMENTS[taskType];
   if (!assignment) {
     throw new Error(`Unknown task type: ${taskType}`);
   }
 
-  // Allow overriding provider for prose_generation task
-  if (taskType === 'prose_generation' && opts.overrideProvider) {
-    if (opts.overrideProvider === 'deepseek') {
-      assignment = { provider: 'deepseek', model: 'deepseek-chat', description: 'Chapter generation (DeepSeek override)' };
-    } else if (opts.overrideProvider === 'gemini') {
-      assignment = { provider: 'gemini', model: 'gemini-2.5-flash', description: 'Chapter generation (Gemini override)' };
-    }
-    // Ignore invalid override values - use default
-  }
-
-  validateApiKey(assignment.provider);
+  // Invalid override values are ignored in favour of the assignment
+  const providerId = resolveRoutedProviderId(taskType, opts.overrideProvider);
+  const provider = resolveProvider(providerId);
+  const { model } = provider.config;
 
   const startTime = Date.now();
   const inputText = (opts.system || '') + '\n' + opts.user;
-  logger.info(`[${assignment.provider.toUpperCase()}] Routing ${taskType} JSON (${assignment.description})`, 'modelOrchestrator');
+  logger.info(`[${providerId.toUpperCase()}] Routing ${taskType} JSON (${assignment.description})`, 'modelOrchestrator');
 
   try {
-    let result: T;
-
-    if (assignment.provider === 'deepseek') {
-      result = await deepseekJson<T>({
-        model: 'deepseek-chat',
-        system: opts.system,
-        user: opts.user,
-        temperature: opts.temperature,
-        topP: opts.topP,
-        maxTokens: opts.maxTokens,
-      });
-    } else {
-      result = await geminiJson<T>({
-        model: 'gemini-2.5-flash',
-        system: opts.system,
-        user: opts.user,
-        temperature: opts.temperature,
-        topP: opts.topP,
-        maxTokens: opts.maxTokens,
-        cacheMetadata: opts.cacheMetadata,
-      });
-    }
+    let reportedUsage: LlmUsage | undefined;
+    const result = await provider.json<T>({
+      system: opts.system,
+      user: opts.user,
+      temperature: opts.temperature,
+      topP: opts.topP,
+      maxTokens: opts.maxTokens,
+      cacheMetadata: opts.cacheMetadata,
+      onToken: opts.onToken,
+      signal: opts.signal,
+      onUsage: usage => { reportedUsage = usage; },
+    });
 
     const duration = Date.now() - startTime;
-    const resultJson = JSON.stringify(result);
-    const costEstimate = estimateCost(assignment.provider, inputText, resultJson);
+    const { usage, cost } = recordTaskUsage(
+      taskType, provider.config, inputText, JSON.stringify(result), reportedUsage, opts.usageContext
+    );
 
-    logger.info(`[${assignment.provider.toUpperCase()}] Completed ${taskType} JSON in ${duration}ms`, 'modelOrchestrator', {
+    logger.info(`[${providerId.toUpperCase()}] Completed ${taskType} JSON in ${duration}ms`, 'modelOrchestrator', {
       taskType,
-      provider: assignment.provider,
-      model: assignment.model,
+      provider: providerId,
+      model,
       duration,
-      costEstimate: {
-        inputTokens: costEstimate.inputTokens,
-        outputTokens: costEstimate.outputTokens,
-        totalCost: costEstimate.totalCost.toFixed(6),
-        inputCost: costEstimate.inputCost.toFixed(6),
-        outputCost: costEstimate.outputCost.toFixed(6),
+      usage: {
+        inputTokens: usage.promptTokens,
+        outputTokens: usage.completionTokens,
+        cacheHitTokens: usage.cacheHitTokens,
+        estimated: !reportedUsage,
+        totalCost: cost.toFixed(6),
       },
     });
 
     return result;
   } catch (error) {
     const duration = Date.now() - startTime;
-    logger.error(`[${assignment.provider.toUpperCase()}] Failed ${taskType} JSON after ${duration}ms`, 'modelOrchestrator',
+    if (isAbortError(error)) {
+      logger.info(`[${providerId.toUpperCase()}] Cancelled ${taskType} JSON after ${duration}ms`, 'modelOrchestrator');
+      throw error;
+    }
+    logger.error(`[${providerId.toUpperCase()}] Failed ${taskType} JSON after ${duration}ms`, 'modelOrchestrator',
       error instanceof Error ? error : undefined,
       {
         taskType,
-        provider: assignment.provider,
-        model: assignment.model,
+        provider: providerId,
+        model,
         duration,
       }
     );
@@ -305,26 +349,66 @@ export async function routeJsonTask<T>(
   }
 }
 
+/**
+ * Estimates the cost of a task before it runs, using the provider it would be routed to.
+ * Output is priced at `expectedOutputTokens` since its length is not known yet.
+ */
+export function estimateTaskCost(
+  taskType: TaskType,
+  inputText: string,
+  expectedOutputTokens: number,
+  overrideProvider?: string
+): { providerId: string; inputTokens: number; cost: number } {
+  const providerId = resolveRoutedProviderId(taskType, overrideProvider);
+  const config = getProviderConfig(providerId);
+  if (!config) {
+    return { providerId, inputTokens: 0, cost: 0 };
+  }
+  const inputTokens = countTokens(inputText, config.kind);
+  const cost = calculateUsageCost(config.costs, {
+    promptTokens: inputTokens,
+    completionTokens: expectedOutputTokens,
+    cacheHitTokens: 0,
+  });
+  return { providerId, inputTokens, cost };
+}
+
 /**
  * Gets the model assignment for a task type (for UI display)
  */
 export function getModelAssignment(taskType: TaskType): { provider: string; model: string; description: string } {
-  return MODEL_ASSIGNMENTS[taskType] || { provider: 'unknown', model: 'unknown', description: 'Unknown task' };
+  const assignment = DEFAULT_MODEL_ASSIGNMENTS[taskType];
+  if (!assignment) {
+    return { provider: 'unknown', model: 'unknown', description: 'Unknown task' };
+  }
+  const providerId = resolveProviderId(taskType);
+  return {
+    provider: providerId,
+    model: getProviderConfig(providerId)?.model || 'unknown',
+    description: assignment.description,
+  };
 }
 
 /**
  * Gets all model assignments (for UI display)
  */
 export function getAllModelAssignments(): Record<TaskType, { provider: string; model: string; description: string }> {
-  return MODEL_ASSIGNMENTS;
+  const taskTypes = Object.keys(DEFAULT_MODEL_ASSIGNMENTS) as TaskType[];
+  return Object.fromEntries(
+    taskTypes.map(taskType => [taskType, getModelAssignment(taskType)])
+  ) as Record<TaskType, { provider: string; model: string; description: string }>;
 }
 
 /**
  * Gets the provider role description
  */
-export function getProviderRole(provider: 'deepseek' | 'gemini'): string {
+export function getProviderRole(provider: string): string {
   if (provider === 'deepseek') {
     return 'The Writer - DeepSeek-V3.2 trained on Chinese web fiction, understands cultivation tropes natively';
   }
-  return 'The Clerk - Gemini Flash for fast, accurate state extraction and metadata processing';
+  if (provider === 'gemini') {
+    return 'The Clerk - Gemini Flash for fast, accurate state extraction and metadata processing';
+  }
+  const config = getProviderConfig(provider);
+  return config ? `${config.name} - ${config.model}` : 'Unknown provider';
 }
@@ -16,7 +16,7 @@ import {
   NarrativeSeedType,
   ArcheologistResponse,
 } from '../../types/narrativeForensics';
-import { deepseekJson } from '../deepseekService';
+import { routeJsonTask } from '../modelOrchestrator';
 import { logger } from '../loggingService';
 import { generateUUID } from '../../utils/uuid';
 
@@ -191,12 +191,12 @@ export async function runArcheologistAgent(
       existingThreads
     );
 
-    // Call DeepSeek
-    const response = await deepseekJson<ArcheologistResponse>({
-      model: finalConfig.model,
+    // Call the metadata_extraction provider
+    const response = await routeJsonTask<ArcheologistResponse>('metadata_extraction', {
       system: ARCHEOLOGIST_SYSTEM_PROMPT,
       user: userPrompt,
       temperature: finalConfig.temperature,
+      usageContext: { novelId: novelState.id, chapterNumber: chapter.number },
     });
 
     // Process discovered seeds
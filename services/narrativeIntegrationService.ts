@@ -15,7 +15,7 @@ import {
 } from '../types/narrativeForensics';
 import { LoomThread } from '../types/loom';
 import { ArcMemorySummary, getRelevantArcMemories } from './memory/arcMemoryService';
-import { isPineconeReady, getContextForChapterGeneration } from './vectorDb';
+import { isVectorStoreReady, getContextForChapterGeneration } from './vectorDb';
 import { generateUUID } from '../utils/uuid';
 import { logger } from './loggingService';
 import { calculateThreadHealth } from './storyThreadService';
@@ -194,8 +194,8 @@ export async function enrichThreadWithMemory(
     let vectorSearchResults: any[] = [];
 
     // Get vector search results if available
-    const pineconeReady = await isPineconeReady();
-    if (pineconeReady && searchQueries.length > 0) {
+    const vectorStoreReady = await isVectorStoreReady();
+    if (vectorStoreReady && searchQueries.length > 0) {
         try {
             const results = await getContextForChapterGeneration(novelState.id, searchQueries, {
                 maxCharacters: 3,
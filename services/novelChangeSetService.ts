@@ -0,0 +1,528 @@
+/**
+ * Novel Change Set Service
+ *
+ * Diffs two versions of a NovelState into the row-level inserts, updates and
+ * deletes that take the database from one to the other, so a save only sends
+ * what changed. Row mappers are shared with the full save in supabaseService.
+ * Collections this layer does not model are reported in `unsupportedChanges`;
+ * the caller falls back to a full save for those.
+ */
+
+import type {
+  Antagonist,
+  Arc,
+  Chapter,
+  Character,
+  NovelItem,
+  NovelState,
+  NovelTechnique,
+  Scene,
+  StoryThread,
+  SystemLog,
+  Tag,
+  Territory,
+  WorldEntry,
+  WritingGoal,
+} from '../types';
+import { logger } from './loggingService';
+
+export type DbRow = Record<string, unknown>;
+
+/**
+ * Normalize character status to the values allowed by the database constraint.
+ * Handles complex status strings like "Alive (injured)", "Deceased or Captured", etc.
+ */
+export const normalizeCharacterStatus = (status: string | undefined | null): 'Alive' | 'Deceased' | 'Unknown' => {
+  if (!status) return 'Unknown';
+  const lower = status.trim().toLowerCase();
+
+  // Exact matches first
+  if (lower === 'alive') return 'Alive';
+  if (lower === 'deceased' || lower === 'dead') return 'Deceased';
+  if (lower === 'unknown') return 'Unknown';
+
+  // Complex status strings with parenthetical details, e.g. "Alive (freed from veil)"
+  if (lower.startsWith('alive')) return 'Alive';
+  if (lower.startsWith('deceased') || lower.startsWith('dead')) return 'Deceased';
+
+  // Captured / missing: fate is uncertain
+  if (lower.includes('captured') || lower.includes('missing')) return 'Unknown';
+
+  // Compound statuses like "Deceased or Captured"
+  if (lower.includes('deceased') || lower.includes('dead')) return 'Deceased';
+  if (lower.includes('alive')) return 'Alive';
+
+  logger.warn('Invalid character status, defaulting to Unknown', 'supabase', {
+    invalidStatus: status
+  });
+  return 'Unknown';
+};
+
+// ---------------------------------------------------------------------------
+// Row mappers
+// ---------------------------------------------------------------------------
+
+export const toNovelRow = (novel: NovelState): DbRow => ({
+  id: novel.id,
+  title: novel.title.trim(),
+  genre: novel.genre.trim(),
+  grand_saga: novel.grandSaga || '',
+  total_planned_chapters: novel.totalPlannedChapters || null,
+  power_systems: novel.powerSystems && novel.powerSystems.length > 0 ? novel.powerSystems : null,
+  world_map: novel.worldMap || null,
+  calendar: novel.calendar || null,
+  knowledge_facts: novel.knowledgeFacts && novel.knowledgeFacts.length > 0 ? novel.knowledgeFacts : null,
+  secrets: novel.secrets && novel.secrets.length > 0 ? novel.secrets : null,
+  universe_link: novel.universeLink || null,
+  series: novel.series || null,
+});
+
+export const toChapterRow = (novelId: string, c: Chapter): DbRow => ({
+  id: c.id,
+  novel_id: novelId,
+  number: c.number,
+  title: c.title.trim(),
+  content: c.content.trim(),
+  summary: c.summary || '',
+  logic_audit: c.logicAudit || null,
+  in_world_time: c.inWorldTime || null,
+  pov_character_id: c.povCharacterId || null
+});
+
+export const toSceneRow = (s: Scene): DbRow => ({
+  id: s.id,
+  chapter_id: s.chapterId,
+  number: s.number,
+  title: s.title || '',
+  content: s.content || '',
+  summary: s.summary || '',
+  word_count: s.wordCount || 0,
+  in_world_time: s.inWorldTime || null,
+  pov_character_id: s.povCharacterId || null
+});
+
+export const toTerritoryRow = (t: Territory): DbRow => ({
+  id: t.id,
+  realm_id: t.realmId,
+  name: t.name.trim(),
+  type: t.type,
+  description: t.description || '',
+  map_placement: t.mapPlacement || null
+});
+
+export const toWorldEntryRow = (w: WorldEntry): DbRow => ({
+  id: w.id,
+  realm_id: w.realmId,
+  category: w.category,
+  title: w.title.trim(),
+  content: w.content.trim()
+});
+
+export const toNovelItemRow = (novelId: string, item: NovelItem): DbRow => ({
+  id: item.id,
+  novel_id: novelId,
+  name: item.name.trim(),
+  canonical_name: item.canonicalName,
+  description: item.description || '',
+  category: item.category,
+  powers: item.powers || [],
+  history: item.history || '',
+  first_appeared_chapter: item.firstAppearedChapter || null,
+  last_referenced_chapter: item.lastReferencedChapter || null,
+  updated_at: new Date(item.updatedAt || Date.now()).toISOString()
+});
+
+export const toNovelTechniqueRow = (novelId: string, tech: NovelTechnique): DbRow => ({
+  id: tech.id,
+  novel_id: novelId,
+  name: tech.name.trim(),
+  canonical_name: tech.canonicalName,
+  description: tech.description || '',
+  category: tech.category,
+  type: tech.type,
+  functions: tech.functions || [],
+  history: tech.history || '',
+  first_appeared_chapter: tech.firstAppearedChapter || null,
+  last_referenced_chapter: tech.lastReferencedChapter || null,
+  updated_at: new Date(tech.updatedAt || Date.now()).toISOString()
+});
+
+export const toCharacterRow = (novelId: string, c: Character): DbRow => ({
+  id: c.id,
+  novel_id: novelId,
+  name: c.name.trim(),
+  age: c.age || '',
+  age_anchor_day: c.ageAnchorDay ?? null,
+  personality: c.personality || '',
+  current_cultivation: c.currentCultivation || '',
+  notes: c.notes || '',
+  portrait_url: c.portraitUrl || null,
+  status: normalizeCharacterStatus(c.status),
+  is_protagonist: c.isProtagonist || false
+});
+
+export const toCharacterSkillRows = (char: Character): DbRow[] =>
+  (char.skills || []).map(skill => ({ character_id: char.id, skill }));
+
+export const toCharacterItemRows = (char: Character): DbRow[] =>
+  (char.items || []).map(item => ({ character_id: char.id, item }));
+
+export const toRelationshipRows = (char: Character): DbRow[] =>
+  (char.relationships || []).map(rel => ({
+    character_id: char.id,
+    target_character_id: rel.characterId,
+    type: rel.type,
+    history: rel.history,
+    impact: rel.impact
+  }));
+
+export const toItemPossessionRows = (char: Character): DbRow[] =>
+  (char.itemPossessions || []).map(poss => ({
+    id: poss.id,
+    character_id: poss.characterId,
+    item_id: poss.itemId,
+    status: poss.status,
+    acquired_chapter: poss.acquiredChapter || null,
+    archived_chapter: poss.archivedChapter || null,
+    notes: poss.notes || '',
+    updated_at: new Date(poss.updatedAt || Date.now()).toISOString()
+  }));
+
+export const toTechniqueMasteryRows = (char: Character): DbRow[] =>
+  (char.techniqueMasteries || []).map(mast => ({
+    id: mast.id,
+    character_id: mast.characterId,
+    technique_id: mast.techniqueId,
+    status: mast.status,
+    mastery_level: mast.masteryLevel || 'Novice',
+    learned_chapter: mast.learnedChapter || null,
+    archived_chapter: mast.archivedChapter || null,
+    notes: mast.notes || '',
+    updated_at: new Date(mast.updatedAt || Date.now()).toISOString()
+  }));
+
+export const toArcRow = (novelId: string, a: Arc): DbRow => ({
+  id: a.id,
+  novel_id: novelId,
+  title: a.title.trim(),
+  description: a.description || '',
+  status: a.status,
+  started_at_chapter: typeof a.startedAtChapter === 'number' ? a.startedAtChapter : null,
+  ended_at_chapter: typeof a.endedAtChapter === 'number' ? a.endedAtChapter : null,
+  target_chapters: typeof a.targetChapters === 'number' ? a.targetChapters : null,
+  checklist: a.checklist || [],
+});
+
+export const toSystemLogRow = (novelId: string, l: SystemLog): DbRow => ({
+  id: l.id,
+  novel_id: novelId,
+  message: l.message.trim(),
+  type: l.type,
+  timestamp: new Date(l.timestamp).toISOString()
+});
+
+export const toTagRow = (novelId: string, t: Tag): DbRow => ({
+  id: t.id,
+  novel_id: novelId,
+  name: t.name.trim(),
+  color: t.color || null,
+  category: t.category || null
+});
+
+export const toWritingGoalRow = (novelId: string, g: WritingGoal): DbRow => ({
+  id: g.id,
+  novel_id: novelId,
+  type: g.type,
+  target: g.target,
+  current: g.current || 0,
+  deadline: g.deadline ? new Date(g.deadline).toISOString() : null
+});
+
+export const toAntagonistRow = (novelId: string, a: Antagonist): DbRow => ({
+  id: a.id,
+  novel_id: novelId,
+  name: a.name.trim(),
+  type: a.type,
+  description: a.description || '',
+  motivation: a.motivation || '',
+  power_level: a.powerLevel || '',
+  status: a.status,
+  first_appeared_chapter: a.firstAppearedChapter || null,
+  last_appeared_chapter: a.lastAppearedChapter || null,
+  resolved_chapter: a.resolvedChapter || null,
+  duration_scope: a.durationScope,
+  threat_level: a.threatLevel,
+  notes: a.notes || '',
+});
+
+export const toAntagonistRelationshipRows = (ant: Antagonist): DbRow[] =>
+  (ant.relationships || []).map(rel => ({
+    antagonist_id: ant.id,
+    character_id: rel.characterId,
+    relationship_type: rel.relationshipType,
+    intensity: rel.intensity,
+    history: rel.history || '',
+    current_state: rel.currentState || '',
+  }));
+
+export const toAntagonistArcRows = (ant: Antagonist): DbRow[] =>
+  (ant.arcAssociations || []).map(assoc => ({
+    antagonist_id: ant.id,
+    arc_id: assoc.arcId,
+    role: assoc.role,
+    introduced_in_arc: assoc.introducedInArc || false,
+    resolved_in_arc: assoc.resolvedInArc || false,
+    notes: assoc.notes || '',
+  }));
+
+export const toAntagonistGroupRows = (ant: Antagonist): DbRow[] =>
+  (ant.groupMembers || []).map(member => ({
+    antagonist_id: ant.id,
+    member_character_id: member.memberCharacterId,
+    role_in_group: member.roleInGroup,
+    joined_chapter: member.joinedChapter || null,
+    left_chapter: member.leftChapter || null,
+    notes: member.notes || '',
+  }));
+
+export const toStoryThreadRow = (novelId: string, t: StoryThread): DbRow => ({
+  id: t.id,
+  novel_id: novelId,
+  title: t.title.trim(),
+  type: t.type,
+  status: t.status,
+  priority: t.priority,
+  description: t.description || '',
+  introduced_chapter: t.introducedChapter,
+  last_updated_chapter: t.lastUpdatedChapter,
+  resolved_chapter: t.resolvedChapter || null,
+  related_entity_id: t.relatedEntityId || null,
+  related_entity_type: t.relatedEntityType || null,
+  progression_notes: t.progressionNotes || [],
+  resolution_notes: t.resolutionNotes || null,
+  satisfaction_score: t.satisfactionScore || null,
+  chapters_involved: t.chaptersInvolved || [],
+});
+
+// ---------------------------------------------------------------------------
+// Persistable entities (the same filters the full save applies)
+// ---------------------------------------------------------------------------
+
+/**
+ * Chapters that can be stored: one per number (the longest wins), with a
+ * title, content and a positive number
+ */
+export function persistableChapters(novel: NovelState): Chapter[] {
+  const chaptersByNumber = new Map<number, Chapter>();
+  novel.chapters.forEach(ch => {
+    if (!ch.number) return;
+    const existing = chaptersByNumber.get(ch.number);
+    if (!existing || (ch.content?.length || 0) > (existing.content?.length || 0)) {
+      chaptersByNumber.set(ch.number, ch);
+    }
+  });
+  return Array.from(chaptersByNumber.values())
+    .filter(c => c.title && c.title.trim() !== '' && c.content && c.content.trim() !== '' && c.number > 0);
+}
+
+const hasText = (value: string | undefined | null): boolean => !!value && value.trim() !== '';
+
+const validCharacters = (novel: NovelState) => novel.characterCodex.filter(c => hasText(c.name));
+const validAntagonists = (novel: NovelState) => (novel.antagonists || []).filter(a => hasText(a.name));
+
+// ---------------------------------------------------------------------------
+// Diffing
+// ---------------------------------------------------------------------------
+
+interface Dependent {
+  table: string;
+  column: string;
+}
+
+/** A table of entities keyed by `id` */
+interface EntityTableSpec {
+  table: string;
+  rows: (novel: NovelState) => DbRow[];
+  /** Rows in other tables removed together with a deleted entity */
+  dependents?: Dependent[];
+}
+
+/** Rows owned by a parent entity; replaced as a set whenever they change */
+interface OwnedTableSpec {
+  table: string;
+  ownerColumn: string;
+  onConflict?: string;
+  rowsByOwner: (novel: NovelState) => Map<string, DbRow[]>;
+  /** Failures are logged rather than failing the save, as the full save does */
+  optional?: boolean;
+}
+
+const CHARACTER_DEPENDENTS: Dependent[] = [
+  { table: 'character_skills', column: 'character_id' },
+  { table: 'character_items', column: 'character_id' },
+  { table: 'character_item_possessions', column: 'character_id' },
+  { table: 'character_technique_mastery', column: 'character_id' },
+  { table: 'relationships', column: 'character_id' },
+  { table: 'relationships', column: 'target_character_id' },
+];
+
+const ANTAGONIST_DEPENDENTS: Dependent[] = [
+  'antagonist_relationships',
+  'antagonist_arcs',
+  'antagonist_chapters',
+  'antagonist_groups',
+  'antagonist_progression',
+].map(table => ({ table, column: 'antagonist_id' }));
+
+/** In write order: parents before children */
+const ENTITY_TABLES: EntityTableSpec[] = [
+  { table: 'chapters', rows: n => persistableChapters(n).map(c => toChapterRow(n.id, c)) },
+  {
+    table: 'scenes',
+    rows: n => persistableChapters(n)
+      .flatMap(c => c.scenes || [])
+      .filter(s => s.chapterId && s.number > 0)
+      .map(toSceneRow),
+  },
+  {
+    table: 'territories',
+    rows: n => {
+      const realmIds = new Set(n.realms.map(r => r.id));
+      return n.territories.filter(t => hasText(t.name) && realmIds.has(t.realmId)).map(toTerritoryRow);
+    },
+  },
+  {
+    table: 'world_entries',
+    rows: n => {
+      const realmIds = new Set(n.realms.map(r => r.id));
+      return n.worldBible.filter(w => hasText(w.title) && hasText(w.content) && realmIds.has(w.realmId)).map(toWorldEntryRow);
+    },
+  },
+  { table: 'novel_items', rows: n => (n.novelItems || []).filter(i => hasText(i.name)).map(i => toNovelItemRow(n.id, i)) },
+  { table: 'novel_techniques', rows: n => (n.novelTechniques || []).filter(t => hasText(t.name)).map(t => toNovelTechniqueRow(n.id, t)) },
+  { table: 'characters', rows: n => validCharacters(n).map(c => toCharacterRow(n.id, c)), dependents: CHARACTER_DEPENDENTS },
+  { table: 'arcs', rows: n => n.plotLedger.filter(a => hasText(a.title)).map(a => toArcRow(n.id, a)) },
+  { table: 'system_logs', rows: n => n.systemLogs.filter(l => hasText(l.message)).map(l => toSystemLogRow(n.id, l)) },
+  { table: 'tags', rows: n => (n.tags || []).filter(t => hasText(t.name)).map(t => toTagRow(n.id, t)) },
+  { table: 'writing_goals', rows: n => (n.writingGoals || []).filter(g => g.target > 0).map(g => toWritingGoalRow(n.id, g)) },
+  { table: 'antagonists', rows: n => validAntagonists(n).map(a => toAntagonistRow(n.id, a)), dependents: ANTAGONIST_DEPENDENTS },
+  { table: 'story_threads', rows: n => (n.storyThreads || []).filter(t => hasText(t.title)).map(t => toStoryThreadRow(n.id, t)) },
+];
+
+const byOwner = <T extends { id: string }>(owners: T[], toRows: (owner: T) => DbRow[]) =>
+  new Map(owners.map(owner => [owner.id, toRows(owner)]));
+
+const OWNED_TABLES: OwnedTableSpec[] = [
+  { table: 'character_skills', ownerColumn: 'character_id', onConflict: 'character_id,skill', rowsByOwner: n => byOwner(validCharacters(n), toCharacterSkillRows) },
+  { table: 'character_items', ownerColumn: 'character_id', onConflict: 'character_id,item', rowsByOwner: n => byOwner(validCharacters(n), toCharacterItemRows) },
+  { table: 'relationships', ownerColumn: 'character_id', onConflict: 'character_id,target_character_id', rowsByOwner: n => byOwner(validCharacters(n), toRelationshipRows) },
+  { table: 'character_item_possessions', ownerColumn: 'character_id', onConflict: 'character_id,item_id', rowsByOwner: n => byOwner(validCharacters(n), toItemPossessionRows), optional: true },
+  { table: 'character_technique_mastery', ownerColumn: 'character_id', onConflict: 'character_id,technique_id', rowsByOwner: n => byOwner(validCharacters(n), toTechniqueMasteryRows), optional: true },
+  { table: 'antagonist_relationships', ownerColumn: 'antagonist_id', onConflict: 'antagonist_id,character_id', rowsByOwner: n => byOwner(validAntagonists(n), toAntagonistRelationshipRows), optional: true },
+  { table: 'antagonist_arcs', ownerColumn: 'antagonist_id', onConflict: 'antagonist_id,arc_id', rowsByOwner: n => byOwner(validAntagonists(n), toAntagonistArcRows), optional: true },
+  { table: 'antagonist_groups', ownerColumn: 'antagonist_id', rowsByOwner: n => byOwner(validAntagonists(n), toAntagonistGroupRows), optional: true },
+];
+
+/** NovelState fields persisted only by the full save */
+const UNSUPPORTED_FIELDS: Array<keyof NovelState> = [
+  'realms',
+  'currentRealmId',
+  'characterSystems',
+  'foreshadowingElements',
+  'symbolicElements',
+  'emotionalPayoffs',
+  'subtextElements',
+];
+
+export interface TableChange {
+  table: string;
+  upserts: DbRow[];
+  deletes: string[];
+  dependents: Dependent[];
+}
+
+export interface OwnedRowsChange {
+  table: string;
+  ownerColumn: string;
+  onConflict?: string;
+  optional: boolean;
+  /** Owners whose rows are replaced */
+  owners: string[];
+  rows: DbRow[];
+}
+
+export interface NovelChangeSet {
+  novelId: string;
+  novelRowChanged: boolean;
+  /** In write order; apply deletes in reverse */
+  tables: TableChange[];
+  ownedRows: OwnedRowsChange[];
+  /** Changed fields this layer cannot express; the caller must do a full save */
+  unsupportedChanges: string[];
+}
+
+/**
+ * Compare rows ignoring `updated_at`, which mappers default to "now" when the
+ * entity has no timestamp of its own
+ */
+function rowSignature(row: DbRow | DbRow[] | undefined): string {
+  return JSON.stringify(row, (key, value) => (key === 'updated_at' ? undefined : value));
+}
+
+/**
+ * Diff `previous` (what the database holds) against `next` into per-table
+ * upserts and deletes
+ */
+export function diffNovelForPersistence(previous: NovelState, next: NovelState): NovelChangeSet {
+  const tables = ENTITY_TABLES.map((spec): TableChange => {
+    const before = new Map(spec.rows(previous).map(row => [row.id as string, rowSignature(row)]));
+    const afterRows = spec.rows(next);
+    const afterIds = new Set(afterRows.map(row => row.id as string));
+    return {
+      table: spec.table,
+      upserts: afterRows.filter(row => before.get(row.id as string) !== rowSignature(row)),
+      deletes: Array.from(before.keys()).filter(id => !afterIds.has(id)),
+      dependents: spec.dependents || [],
+    };
+  });
+
+  const ownedRows = OWNED_TABLES.map((spec): OwnedRowsChange => {
+    const before = spec.rowsByOwner(previous);
+    const after = spec.rowsByOwner(next);
+    const owners = Array.from(after.keys()).filter(owner => {
+      const rows = after.get(owner)!;
+      const previousRows = before.get(owner);
+      // A new owner without rows has nothing to replace
+      return previousRows ? rowSignature(previousRows) !== rowSignature(rows) : rows.length > 0;
+    });
+    return {
+      table: spec.table,
+      ownerColumn: spec.ownerColumn,
+      onConflict: spec.onConflict,
+      optional: spec.optional ?? false,
+      owners,
+      rows: owners.flatMap(owner => after.get(owner)!),
+    };
+  });
+
+  return {
+    novelId: next.id,
+    novelRowChanged: rowSignature(toNovelRow(previous)) !== rowSignature(toNovelRow(next)),
+    tables,
+    ownedRows,
+    unsupportedChanges: UNSUPPORTED_FIELDS.filter(
+      field => JSON.stringify(previous[field] ?? null) !== JSON.stringify(next[field] ?? null)
+    ),
+  };
+}
+
+/**
+ * Number of rows a change set writes or deletes, for logging
+ */
+export function countChangeSetRows(changeSet: NovelChangeSet): number {
+  return (
+    changeSet.tables.reduce((sum, change) => sum + change.upserts.length + change.deletes.length, 0) +
+    changeSet.ownedRows.reduce((sum, change) => sum + change.rows.length, 0) +
+    (changeSet.novelRowChanged ? 1 : 0)
+  );
+}
@@ -0,0 +1,292 @@
+/**
+ * Novel Merge Service
+ *
+ * Three-way merge of two divergent copies of a novel against the copy they were
+ * both last synced from. Arrays of entities with an `id` (chapters, characters,
+ * world entries, threads, ...) are merged entity by entity, and scenes inside
+ * chapters likewise; everything else is merged field by field.
+ */
+
+import type { NovelState } from '../types';
+import type {
+  EntityConflict,
+  EntityConflictKind,
+  MergeResolutions,
+  MergeSide,
+  NovelMergeResult,
+} from '../types/novelMerge';
+
+type Entity = { id: string } & Record<string, unknown>;
+
+/** Bumped on every save; never a reason to report a collision */
+const IGNORED_FIELDS = new Set(['updatedAt']);
+/** Entity fields that hold nested keyed collections, merged recursively */
+const NESTED_COLLECTIONS: Record<string, string> = { chapters: 'scenes' };
+const NOVEL_COLLECTION = 'novel';
+
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([key, item]) => item !== undefined && !IGNORED_FIELDS.has(key))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+}
+
+/** Deep equality that ignores key order and updatedAt */
+export function same(a: unknown, b: unknown): boolean {
+  return a === b || stableStringify(a) === stableStringify(b);
+}
+
+function isEntity(value: unknown): value is Entity {
+  return value !== null && typeof value === 'object' && typeof (value as Entity).id === 'string';
+}
+
+/**
+ * True when every side is an entity array (or absent) and at least one has entities
+ */
+function isKeyedCollection(...sides: unknown[]): boolean {
+  let hasEntities = false;
+  for (const side of sides) {
+    if (side === undefined) continue;
+    if (!Array.isArray(side) || !side.every(isEntity)) return false;
+    hasEntities ||= side.length > 0;
+  }
+  return hasEntities;
+}
+
+function entityLabel(entity: Entity): string {
+  const name = entity.title ?? entity.name ?? entity.label ?? entity.id;
+  return typeof entity.number === 'number' ? `#${entity.number} ${name}` : String(name);
+}
+
+function sortByNumber<T>(items: T[]): T[] {
+  const numbered = items.every(item => typeof (item as { number?: unknown }).number === 'number');
+  return numbered
+    ? [...items].sort((a, b) => (a as { number: number }).number - (b as { number: number }).number)
+    : items;
+}
+
+interface MergeContext {
+  conflicts: EntityConflict[];
+  autoMerged: number;
+}
+
+interface FieldMerge {
+  value: Record<string, unknown>;
+  /** Fields where both sides changed differently; `value` holds the local side */
+  collisions: string[];
+}
+
+function mergeFields(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>,
+  context: MergeContext,
+  nested?: { field: string; parentId: string }
+): FieldMerge {
+  const value: Record<string, unknown> = {};
+  const collisions: string[] = [];
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of keys) {
+    const [b, l, r] = [base[key], local[key], remote[key]];
+    let merged: unknown;
+    if (nested?.field === key && isKeyedCollection(b, l, r)) {
+      merged = mergeCollection(key, b as Entity[] | undefined, l as Entity[] | undefined, r as Entity[] | undefined, context, nested.parentId);
+    } else if (IGNORED_FIELDS.has(key)) {
+      merged = typeof l === 'number' && typeof r === 'number' ? Math.max(l, r) : l ?? r;
+    } else if (same(l, r) || same(r, b)) {
+      merged = l;
+    } else if (same(l, b)) {
+      merged = r;
+    } else {
+      merged = l;
+      collisions.push(key);
+    }
+    if (merged !== undefined) value[key] = merged;
+  }
+
+  return { value, collisions };
+}
+
+function mergeCollection(
+  collection: string,
+  base: Entity[] = [],
+  local: Entity[] = [],
+  remote: Entity[] = [],
+  context: MergeContext,
+  parentId?: string
+): Entity[] {
+  const baseById = new Map(base.map(entity => [entity.id, entity]));
+  const localById = new Map(local.map(entity => [entity.id, entity]));
+  const remoteById = new Map(remote.map(entity => [entity.id, entity]));
+  const ids = [...local.map(entity => entity.id), ...remote.map(entity => entity.id).filter(id => !localById.has(id))];
+  const nestedField = NESTED_COLLECTIONS[collection];
+
+  const addConflict = (
+    kind: EntityConflictKind,
+    entity: Entity,
+    fields: string[],
+    l: Entity | undefined,
+    r: Entity | undefined,
+    resolutions: Record<MergeSide, unknown>
+  ) => {
+    context.conflicts.push({
+      key: [collection, parentId, entity.id].filter(Boolean).join(':'),
+      collection,
+      entityId: entity.id,
+      parentId,
+      label: entityLabel(entity),
+      kind,
+      fields,
+      local: l,
+      remote: r,
+      resolutions,
+    });
+  };
+
+  const merged: Entity[] = [];
+  for (const id of ids) {
+    const [b, l, r] = [baseById.get(id), localById.get(id), remoteById.get(id)];
+
+    if (l && r) {
+      if (same(l, r) || (b && same(r, b))) {
+        merged.push(l);
+        continue;
+      }
+      if (b && same(l, b)) {
+        merged.push(r);
+        context.autoMerged++;
+        continue;
+      }
+      const fieldMerge = mergeFields(b ?? {}, l, r, context, nestedField ? { field: nestedField, parentId: id } : undefined);
+      const entity = fieldMerge.value as Entity;
+      merged.push(entity);
+      if (fieldMerge.collisions.length === 0) {
+        context.autoMerged++;
+        continue;
+      }
+      const remoteVariant = { ...entity };
+      fieldMerge.collisions.forEach(field => {
+        if (r[field] === undefined) delete remoteVariant[field];
+        else remoteVariant[field] = r[field];
+      });
+      addConflict(b ? 'both_modified' : 'both_added', entity, fieldMerge.collisions, l, r, { local: entity, remote: remoteVariant });
+    } else if (l) {
+      if (!b) {
+        merged.push(l);
+      } else if (same(l, b)) {
+        // Deleted in the cloud, untouched here
+        context.autoMerged++;
+      } else {
+        merged.push(l);
+        addConflict('modified_deleted', l, [], l, undefined, { local: l, remote: undefined });
+      }
+    } else if (r) {
+      if (!b) {
+        merged.push(r);
+        context.autoMerged++;
+      } else if (!same(r, b)) {
+        addConflict('deleted_modified', r, [], undefined, r, { local: undefined, remote: r });
+      }
+      // Otherwise deleted here and untouched in the cloud: stays deleted
+    }
+  }
+
+  return sortByNumber(merged);
+}
+
+/**
+ * Merge `local` and `remote` against `base`. Non-overlapping edits are combined;
+ * collisions are reported and provisionally resolved in favour of `local`.
+ */
+export function threeWayMergeNovel(base: NovelState, local: NovelState, remote: NovelState): NovelMergeResult {
+  const context: MergeContext = { conflicts: [], autoMerged: 0 };
+  const [b, l, r] = [base, local, remote] as unknown as Array<Record<string, unknown>>;
+
+  const merged: Record<string, unknown> = {};
+  const collisions: string[] = [];
+  const keys = new Set([...Object.keys(b), ...Object.keys(l), ...Object.keys(r)]);
+
+  for (const key of keys) {
+    let value: unknown;
+    if (key === 'id' || key === 'createdAt') {
+      value = l[key];
+    } else if (key === 'updatedAt') {
+      value = Math.max(local.updatedAt, remote.updatedAt);
+    } else if (isKeyedCollection(b[key], l[key], r[key])) {
+      value = mergeCollection(key, b[key] as Entity[], l[key] as Entity[], r[key] as Entity[], context);
+    } else if (same(l[key], r[key]) || same(r[key], b[key])) {
+      value = l[key];
+    } else if (same(l[key], b[key])) {
+      value = r[key];
+      context.autoMerged++;
+    } else {
+      value = l[key];
+      collisions.push(key);
+    }
+    if (value !== undefined) merged[key] = value;
+  }
+
+  if (collisions.length > 0) {
+    const pick = (side: Record<string, unknown>) => Object.fromEntries(collisions.map(field => [field, side[field]]));
+    context.conflicts.unshift({
+      key: NOVEL_COLLECTION,
+      collection: NOVEL_COLLECTION,
+      entityId: local.id,
+      label: local.title,
+      kind: 'both_modified',
+      fields: collisions,
+      local: pick(l),
+      remote: pick(r),
+      resolutions: { local: pick(l), remote: pick(r) },
+    });
+  }
+
+  return {
+    merged: merged as unknown as NovelState,
+    conflicts: context.conflicts,
+    autoMergedCount: context.autoMerged,
+  };
+}
+
+function replaceEntity(entities: Entity[] = [], id: string, replacement: unknown): Entity[] {
+  const without = entities.filter(entity => entity.id !== id);
+  if (replacement === undefined) return without;
+  const index = entities.findIndex(entity => entity.id === id);
+  if (index === -1) return sortByNumber([...without, replacement as Entity]);
+  return entities.map(entity => (entity.id === id ? (replacement as Entity) : entity));
+}
+
+/**
+ * Apply the user's choices to a merge result. Conflicts without a choice keep the local side.
+ */
+export function applyMergeResolutions(result: NovelMergeResult, resolutions: MergeResolutions): NovelState {
+  let novel = { ...result.merged } as unknown as Record<string, unknown>;
+
+  // Parents before children so a chosen chapter still receives its scene choices
+  const ordered = [...result.conflicts].sort((a, b) => Number(Boolean(a.parentId)) - Number(Boolean(b.parentId)));
+  for (const conflict of ordered) {
+    const side = resolutions[conflict.key];
+    if (side !== 'remote') continue;
+    const chosen = conflict.resolutions.remote;
+
+    if (conflict.collection === NOVEL_COLLECTION) {
+      novel = { ...novel, ...(chosen as Record<string, unknown>) };
+    } else if (conflict.parentId) {
+      const parentCollection = Object.keys(NESTED_COLLECTIONS).find(key => NESTED_COLLECTIONS[key] === conflict.collection);
+      if (!parentCollection) continue;
+      novel[parentCollection] = (novel[parentCollection] as Entity[]).map(parent =>
+        parent.id === conflict.parentId
+          ? { ...parent, [conflict.collection]: replaceEntity(parent[conflict.collection] as Entity[], conflict.entityId, chosen) }
+          : parent
+      );
+    } else {
+      novel[conflict.collection] = replaceEntity(novel[conflict.collection] as Entity[], conflict.entityId, chosen);
+    }
+  }
+
+  return novel as unknown as NovelState;
+}
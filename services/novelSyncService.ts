@@ -1,6 +1,9 @@
 import type { NovelState } from '../types';
+import type { MergeResolutions, NovelMergeResult } from '../types/novelMerge';
 import { indexedDbService } from './indexedDbService';
-import { fetchAllNovels, saveNovel } from './supabaseService';
+import { fetchAllNovels, fetchNovel, fetchNovelUpdatedAt, saveNovel } from './supabaseService';
+import { applyMergeResolutions, threeWayMergeNovel } from './novelMergeService';
+import { deleteSyncBase, getSyncBase, saveSyncBase, type NovelSyncBase } from './syncBaseStore';
 import { novelChangeTracker } from '../utils/novelTracking';
 import { formatErrorMessage } from '../utils/errorHandling';
 
@@ -14,6 +17,10 @@ export interface LoadMergedLibraryResult {
 export interface SaveResult {
   supabaseSuccess: boolean;
   localSuccess: boolean;
+  /** Set when another device's changes were merged in before saving; callers should adopt it */
+  mergedNovel?: NovelState;
+  /** True when the cloud save was held back by an unresolved conflict */
+  conflicted?: boolean;
 }
 
 export interface SyncStateSnapshot {
@@ -22,6 +29,7 @@ export interface SyncStateSnapshot {
   pendingSyncIds: string[];
   lastSuccessfulCloudSyncAt: number | null;
   lastCloudErrorMessage: string | null;
+  conflicts: ConflictInfo[];
 }
 
 // Per-novel save queue to prevent overlapping/out-of-order saves
@@ -39,6 +47,8 @@ const deletedNovelIds = new Map<string, number>();
  */
 export function removePendingSync(novelId: string): void {
   pendingCloudSyncIds.delete(novelId);
+  conflicts.delete(novelId);
+  void deleteSyncBase(novelId);
   // Mark as deleted to prevent resurrection
   deletedNovelIds.set(novelId, Date.now());
 }
@@ -62,11 +72,15 @@ const lastSaveTimestamp = new Map<string, number>();
 const MIN_SAVE_INTERVAL = 1000; // Minimum 1 second between saves for same novel
 
 // Track conflicts (when local and remote versions diverge)
-interface ConflictInfo {
+export interface ConflictInfo {
   novelId: string;
   localVersion: number;
   remoteVersion: number;
   conflictAt: number;
+  /** Entity-level merge against the last synced copy, when one was available */
+  merge?: NovelMergeResult;
+  /** The cloud copy the conflict was detected against */
+  remote?: NovelState;
 }
 
 const conflicts = new Map<string, ConflictInfo>();
@@ -84,6 +98,74 @@ let cloudAvailable = true;
 let lastSuccessfulCloudSyncAt: number | null = null;
 let lastCloudErrorMessage: string | null = null;
 
+function registerMergeConflict(local: NovelState, remote: NovelState, merge: NovelMergeResult): void {
+  conflicts.set(local.id, {
+    novelId: local.id,
+    localVersion: local.updatedAt,
+    remoteVersion: remote.updatedAt,
+    conflictAt: Date.now(),
+    merge,
+    remote,
+  });
+  console.warn(`⚠ ${merge.conflicts.length} conflicting change(s) in "${local.title}" need to be resolved before it can sync.`);
+}
+
+/**
+ * Record the novel as just saved to the cloud, so the next divergence has a merge base
+ */
+async function recordCloudSync(novel: NovelState): Promise<void> {
+  const remoteUpdatedAt = await fetchNovelUpdatedAt(novel.id).catch(() => null);
+  await saveSyncBase(novel, remoteUpdatedAt ?? Date.now());
+}
+
+interface ReconcileResult {
+  novel: NovelState;
+  merged: boolean;
+  blocked: boolean;
+  /** What the cloud holds, when known; lets the save send only the difference */
+  cloudState?: NovelState;
+}
+
+/**
+ * Before a cloud save, merge in whatever another device saved since our last
+ * sync. Returns the novel to save, or `blocked` when entities collide.
+ */
+async function reconcileWithCloud(novel: NovelState): Promise<ReconcileResult> {
+  if (conflicts.has(novel.id)) {
+    return { novel, merged: false, blocked: true };
+  }
+
+  const base = await getSyncBase(novel.id);
+  if (!base) {
+    return { novel, merged: false, blocked: false };
+  }
+
+  try {
+    const remoteUpdatedAt = await fetchNovelUpdatedAt(novel.id);
+    if (remoteUpdatedAt === null || remoteUpdatedAt <= base.remoteUpdatedAt) {
+      return { novel, merged: false, blocked: false, cloudState: remoteUpdatedAt === null ? undefined : base.snapshot };
+    }
+
+    const remote = await fetchNovel(novel.id, { bypassCache: true });
+    if (!remote) {
+      return { novel, merged: false, blocked: false };
+    }
+
+    const merge = threeWayMergeNovel(base.snapshot, novel, remote);
+    if (merge.conflicts.length > 0) {
+      registerMergeConflict(novel, remote, merge);
+      return { novel, merged: false, blocked: true };
+    }
+
+    console.log(`⇄ Merged ${merge.autoMergedCount} change(s) from another device into "${novel.title}"`);
+    return { novel: merge.merged, merged: true, blocked: false, cloudState: remote };
+  } catch (error) {
+    // Connectivity problems surface from the save itself
+    console.warn('Could not check for remote changes before saving:', formatErrorMessage(error));
+    return { novel, merged: false, blocked: false };
+  }
+}
+
 export function getSyncStateSnapshot(): SyncStateSnapshot {
   return {
     cloudAvailable,
@@ -144,6 +226,10 @@ export async function loadMergedLibrary(): Promise<LoadMergedLibraryResult> {
   // Merge Logic
   const novelMap = new Map<string, NovelState>();
   const novelsToSyncUp: NovelState[] = [];
+  const syncBases = new Map<string, NovelSyncBase | undefined>(
+    await Promise.all(localNovels.map(async (n) => [n.id, await getSyncBase(n.id)] as const))
+  );
+  const baseUpdates: Promise<void>[] = [];
 
   // 1) Add all cloud novels
   cloudNovels.forEach((n) => novelMap.set(n.id, n));
@@ -184,6 +270,37 @@ export async function loadMergedLibrary(): Promise<LoadMergedLibraryResult> {
       return;
     }
 
+    // With a record of the last sync, decide per side whether it changed since
+    // and three-way merge when both did
+    const base = syncBases.get(local.id);
+    if (base) {
+      const localChanged = local.updatedAt !== base.snapshot.updatedAt;
+      const cloudChanged = cloud.updatedAt > base.remoteUpdatedAt;
+
+      if (!localChanged) {
+        if (cloudChanged) baseUpdates.push(saveSyncBase(cloud, cloud.updatedAt));
+        return;
+      }
+      if (!cloudChanged) {
+        novelMap.set(local.id, local);
+        novelsToSyncUp.push(local);
+        pendingCloudSyncIds.add(local.id);
+        return;
+      }
+
+      const merge = threeWayMergeNovel(base.snapshot, local, cloud);
+      novelMap.set(local.id, merge.merged);
+      pendingCloudSyncIds.add(local.id);
+      if (merge.conflicts.length > 0) {
+        registerMergeConflict(local, cloud, merge);
+      } else {
+        // The cloud copy is now the common ancestor of what gets pushed up
+        baseUpdates.push(saveSyncBase(cloud, cloud.updatedAt));
+        novelsToSyncUp.push(merge.merged);
+      }
+      return;
+    }
+
     const localHasMoreChapters = local.chapters.length > cloud.chapters.length;
     const localIsNewer = local.updatedAt > cloud.updatedAt;
     
@@ -192,9 +309,13 @@ export async function loadMergedLibrary(): Promise<LoadMergedLibraryResult> {
       novelMap.set(local.id, local);
       novelsToSyncUp.push(local);
       pendingCloudSyncIds.add(local.id);
+    } else {
+      baseUpdates.push(saveSyncBase(cloud, cloud.updatedAt));
     }
   });
 
+  await Promise.all(baseUpdates);
+
   const mergedNovels = Array.from(novelMap.values());
 
   // Clean up any deleted novels from IndexedDB that weren't caught above
@@ -253,81 +374,89 @@ export function enqueueSaveNovel(novel: NovelState): Promise<SaveResult> {
       // Update last save timestamp
       lastSaveTimestamp.set(novel.id, Date.now());
 
+      // Merge in saves from other devices first; a collision holds the cloud
+      // save back (the local save below still happens) until it is resolved
+      const reconciled = await reconcileWithCloud(novel);
+      novel = reconciled.novel;
+
       let supabaseSuccess = false;
-      try {
-        // Validate novel before saving
-        if (!novel || !novel.id || !novel.title || novel.title.trim() === '') {
-          throw new Error('Invalid novel data: missing required fields');
-        }
+      if (!reconciled.blocked) {
+        try {
+          // Validate novel before saving
+          if (!novel || !novel.id || !novel.title || novel.title.trim() === '') {
+            throw new Error('Invalid novel data: missing required fields');
+          }
         
-        await saveNovel(novel);
-        supabaseSuccess = true;
-        cloudAvailable = true;
-        lastCloudErrorMessage = null;
-        lastSuccessfulCloudSyncAt = Date.now();
-        pendingCloudSyncIds.delete(novel.id);
-        conflicts.delete(novel.id); // Clear conflict if save succeeded
-        console.log(`✓ Successfully saved novel "${novel.title}" to cloud`);
-      } catch (error) {
-        const errorMsg = formatErrorMessage(error);
-        lastCloudErrorMessage = errorMsg;
-        console.error('❌ Cloud save failed:', errorMsg);
+          await saveNovel(novel, { previous: reconciled.cloudState });
+          await recordCloudSync(novel);
+          supabaseSuccess = true;
+          cloudAvailable = true;
+          lastCloudErrorMessage = null;
+          lastSuccessfulCloudSyncAt = Date.now();
+          pendingCloudSyncIds.delete(novel.id);
+          conflicts.delete(novel.id); // Clear conflict if save succeeded
+          console.log(`✓ Successfully saved novel "${novel.title}" to cloud`);
+        } catch (error) {
+          const errorMsg = formatErrorMessage(error);
+          lastCloudErrorMessage = errorMsg;
+          console.error('❌ Cloud save failed:', errorMsg);
         
-        // Check if it's a network error (offline)
-        const isNetworkError = error instanceof Error && (
-          error.message.includes('network') ||
-          error.message.includes('fetch') ||
-          error.message.includes('timeout') ||
-          error.message.includes('ECONNREFUSED') ||
-          error.message.includes('Failed to fetch')
-        );
+          // Check if it's a network error (offline)
+          const isNetworkError = error instanceof Error && (
+            error.message.includes('network') ||
+            error.message.includes('fetch') ||
+            error.message.includes('timeout') ||
+            error.message.includes('ECONNREFUSED') ||
+            error.message.includes('Failed to fetch')
+          );
         
-        if (isNetworkError) {
-          cloudAvailable = false;
-          console.warn('⚠ Network error detected. Marking cloud as unavailable.');
-        } else {
-          // Only mark as unavailable for non-network errors if it's a critical error
-          const isRetryable = error && typeof error === 'object' && 'retryable' in error 
-            ? (error as any).retryable !== false 
-            : true;
-          
-          if (!isRetryable) {
+          if (isNetworkError) {
             cloudAvailable = false;
+            console.warn('⚠ Network error detected. Marking cloud as unavailable.');
+          } else {
+            // Only mark as unavailable for non-network errors if it's a critical error
+            const isRetryable = error && typeof error === 'object' && 'retryable' in error 
+              ? (error as any).retryable !== false 
+              : true;
+          
+            if (!isRetryable) {
+              cloudAvailable = false;
+            }
           }
-        }
         
-        // Check for conflict (local and remote versions diverge)
-        if (error && typeof error === 'object' && 'code' in error) {
-          const supabaseError = error as any;
-          // Check for conflict-related errors
-          const isConflict = supabaseError.code === 'PGRST116' || 
-                            supabaseError.code === '23505' || // Unique violation
-                            supabaseError.message?.toLowerCase().includes('conflict') ||
-                            supabaseError.message?.toLowerCase().includes('duplicate');
+          // Check for conflict (local and remote versions diverge)
+          if (error && typeof error === 'object' && 'code' in error) {
+            const supabaseError = error as any;
+            // Check for conflict-related errors
+            const isConflict = supabaseError.code === 'PGRST116' || 
+                              supabaseError.code === '23505' || // Unique violation
+                              supabaseError.message?.toLowerCase().includes('conflict') ||
+                              supabaseError.message?.toLowerCase().includes('duplicate');
           
-          if (isConflict) {
-            const conflictInfo: ConflictInfo = {
-              novelId: novel.id,
-              localVersion: novel.updatedAt,
-              remoteVersion: Date.now(), // Would need to get from error response
-              conflictAt: Date.now(),
-            };
-            conflicts.set(novel.id, conflictInfo);
-            console.warn(`⚠ Conflict detected for novel "${novel.title}". Local and remote versions have diverged.`);
+            if (isConflict) {
+              const conflictInfo: ConflictInfo = {
+                novelId: novel.id,
+                localVersion: novel.updatedAt,
+                remoteVersion: Date.now(), // Would need to get from error response
+                conflictAt: Date.now(),
+              };
+              conflicts.set(novel.id, conflictInfo);
+              console.warn(`⚠ Conflict detected for novel "${novel.title}". Local and remote versions have diverged.`);
+            }
           }
-        }
         
-        // Log more details for debugging (only in development)
-        if (process.env.NODE_ENV === 'development') {
-          if (error instanceof Error) {
-            console.error('Error message:', error.message);
-            console.error('Error stack:', error.stack);
-          }
-          // Check if it's a Supabase-specific error
-          if (error && typeof error === 'object' && 'code' in error) {
-            console.error('Error code:', (error as any).code);
-            console.error('Error details:', (error as any).details);
-            console.error('Error hint:', (error as any).hint);
+          // Log more details for debugging (only in development)
+          if (process.env.NODE_ENV === 'development') {
+            if (error instanceof Error) {
+              console.error('Error message:', error.message);
+              console.error('Error stack:', error.stack);
+            }
+            // Check if it's a Supabase-specific error
+            if (error && typeof error === 'object' && 'code' in error) {
+              console.error('Error code:', (error as any).code);
+              console.error('Error details:', (error as any).details);
+              console.error('Error hint:', (error as any).hint);
+            }
           }
         }
       }
@@ -361,7 +490,12 @@ export function enqueueSaveNovel(novel: NovelState): Promise<SaveResult> {
       // Note: updateOriginal is called in NovelContext after successful saves
       // to ensure we use the latest library state version
 
-      return { supabaseSuccess, localSuccess };
+      return {
+        supabaseSuccess,
+        localSuccess,
+        mergedNovel: reconciled.merged ? novel : undefined,
+        conflicted: reconciled.blocked,
+      };
     });
 
   saveQueue.set(novel.id, next);
@@ -382,20 +516,55 @@ export function getConflict(novelId: string): ConflictInfo | undefined {
   return conflicts.get(novelId);
 }
 
+/**
+ * Resolve a merge conflict entity by entity. Conflicts without a choice keep
+ * the local side. Returns the resolved novel, which is saved to the cloud.
+ */
+export async function resolveConflictWithChoices(
+  novelId: string,
+  resolutions: MergeResolutions
+): Promise<NovelState | null> {
+  const conflict = conflicts.get(novelId);
+  if (!conflict?.merge || !conflict.remote) {
+    return null;
+  }
+
+  const resolved = { ...applyMergeResolutions(conflict.merge, resolutions), updatedAt: Date.now() };
+  // The cloud copy becomes the base, so saving the resolution fast-forwards it
+  await saveSyncBase(conflict.remote, conflict.remoteVersion);
+  conflicts.delete(novelId);
+  await enqueueSaveNovel(resolved);
+  return resolved;
+}
+
 /**
  * Resolve conflict by accepting local version
  */
 export async function resolveConflictAcceptLocal(novelId: string, localNovel: NovelState): Promise<void> {
+  const conflict = conflicts.get(novelId);
+  if (conflict?.remote) {
+    // Overwrite rather than merge: treat the cloud copy as already seen
+    await saveSyncBase(conflict.remote, conflict.remoteVersion);
+  }
   conflicts.delete(novelId);
   await enqueueSaveNovel(localNovel);
 }
 
 /**
- * Resolve conflict by accepting remote version (reload from server)
+ * Resolve conflict by accepting remote version (reload from server).
+ * Returns the cloud copy, which replaces the local one.
  */
-export async function resolveConflictAcceptRemote(novelId: string): Promise<void> {
+export async function resolveConflictAcceptRemote(novelId: string): Promise<NovelState | null> {
+  const remote = conflicts.get(novelId)?.remote ?? await fetchNovel(novelId, { bypassCache: true });
   conflicts.delete(novelId);
-  // Would reload from server here
+  if (!remote) {
+    return null;
+  }
+
+  await indexedDbService.saveNovel(remote);
+  await saveSyncBase(remote, remote.updatedAt);
+  pendingCloudSyncIds.delete(novelId);
+  return remote;
 }
 
 export async function syncPendingToCloud(library: NovelState[]): Promise<void> {
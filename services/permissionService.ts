@@ -0,0 +1,86 @@
+/**
+ * Permission Service
+ *
+ * What each novel role may do. With authentication disabled, or on the
+ * signed-in user's own novels, everyone is the author. The same rules are
+ * enforced by the RLS policies in DATABASE_MIGRATION_ROLES.sql.
+ */
+
+import type { NovelState, ViewType } from '../types';
+import type { NovelPermission, NovelRole } from '../types/membership';
+
+export const ROLE_PERMISSIONS: Record<NovelRole, readonly NovelPermission[]> = {
+  author: [
+    'read', 'highlight', 'comment', 'suggest', 'resolve_suggestions', 'edit_content',
+    'edit_world', 'delete_chapter', 'generate', 'rollback', 'manage_members',
+  ],
+  co_writer: ['read', 'highlight', 'comment', 'suggest', 'resolve_suggestions', 'edit_content', 'edit_world'],
+  editor: ['read', 'highlight', 'comment', 'suggest'],
+  beta_reader: ['read', 'highlight'],
+};
+
+export const ROLE_LABELS: Record<NovelRole, string> = {
+  author: 'Author',
+  co_writer: 'Co-writer',
+  editor: 'Editor',
+  beta_reader: 'Beta reader',
+};
+
+export const ROLE_DESCRIPTIONS: Record<NovelRole, string> = {
+  author: 'Everything, including generation, rollback, deleting chapters and managing members',
+  co_writer: 'Writes chapters and the world by hand, and accepts or rejects suggestions',
+  editor: 'Comments and suggests changes without rewriting the text',
+  beta_reader: 'Reads the chapters and highlights passages',
+};
+
+const PERMISSION_ACTIONS: Record<NovelPermission, string> = {
+  read: 'read this novel',
+  highlight: 'highlight passages',
+  comment: 'comment',
+  suggest: 'suggest changes',
+  resolve_suggestions: 'accept or reject suggestions',
+  edit_content: 'edit chapters',
+  edit_world: 'edit the world and plans',
+  delete_chapter: 'delete chapters',
+  generate: 'run generation',
+  rollback: 'roll back changes',
+  manage_members: 'manage members',
+};
+
+/** Views open to roles that cannot edit the world; every other view is the writers' */
+const READER_VIEWS: ReadonlySet<ViewType> = new Set<ViewType>(['dashboard', 'chapters', 'editor', 'search', 'library']);
+
+export function hasPermission(role: NovelRole, permission: NovelPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/** The signed-in user's role in a novel */
+export function getNovelRole(novel: Pick<NovelState, 'accessRole'> | null | undefined): NovelRole {
+  return novel?.accessRole ?? 'author';
+}
+
+/**
+ * Role of a user in a novel loaded from the database. Undefined when
+ * authentication is disabled; a loaded novel without a membership (which RLS
+ * would not return) gets the least access.
+ */
+export function resolveAccessRole(
+  ownerId: string | null | undefined,
+  userId: string | null,
+  memberRole: NovelRole | undefined
+): NovelRole | undefined {
+  if (!userId) return undefined;
+  if (!ownerId || ownerId === userId) return 'author';
+  return memberRole ?? 'beta_reader';
+}
+
+export function isViewAllowed(role: NovelRole, view: ViewType): boolean {
+  return hasPermission(role, 'edit_world') || READER_VIEWS.has(view);
+}
+
+export function permissionDeniedMessage(role: NovelRole, permission: NovelPermission): string {
+  const allowed = (Object.keys(ROLE_PERMISSIONS) as NovelRole[]).filter(r => hasPermission(r, permission));
+  const names = allowed.map(r => `${ROLE_LABELS[r].toLowerCase()}s`);
+  const who = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  return `${ROLE_LABELS[role]}s cannot ${PERMISSION_ACTIONS[permission]}; only ${who} can.`;
+}
@@ -52,7 +52,7 @@ export class PostGenerationConsistencyChecker {
   ): ConsistencyReport {
     const issues: ConsistencyIssue[] = [];
     const graphService = getKnowledgeGraphService();
-    const powerSystem = getPowerLevelSystem();
+    const powerSystem = getPowerLevelSystem(state);
     const stateTracker = getEntityStateTracker();
 
     // Initialize graph if needed
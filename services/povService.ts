@@ -0,0 +1,248 @@
+/**
+ * POV Service
+ *
+ * Viewpoint characters for ensemble novels: who narrates each chapter and
+ * scene, which chapters each character was present for, what they know by a
+ * given chapter, and the viewpoint section of the chapter prompt.
+ */
+
+import type { Chapter, Character, NovelState, Scene } from '../types';
+import type { KnowledgeFact } from '../types/pov';
+import type { ConsistencyIssue } from './consistencyChecker';
+import { textContainsCharacterName } from '../utils/characterNameMatching';
+
+/** Chapters without the viewpoint character listed in the prompt */
+const MAX_UNWITNESSED_CHAPTERS = 5;
+const MAX_FACTS_IN_CONTEXT = 12;
+
+const POV_INSTRUCTION_PATTERNS = [
+  /\bpov\s*[:=-]\s*@?([^\n,.;]+)/i,
+  /\bfrom\s+@?(.+?)['’]s?\s+(?:point of view|perspective|pov|viewpoint)\b/i,
+];
+
+/** Chapter numbers each character was present for, keyed by character id */
+export type WitnessIndex = Map<string, Set<number>>;
+
+/**
+ * Viewpoint character of a chapter. Novels with a single protagonist and no
+ * POV set are read as told from the protagonist's point of view.
+ */
+export function getChapterPovId(chapter: Chapter, state: NovelState): string | undefined {
+  if (chapter.povCharacterId) return chapter.povCharacterId;
+  const protagonists = state.characterCodex.filter(c => c.isProtagonist);
+  return protagonists.length === 1 ? protagonists[0].id : undefined;
+}
+
+export function getScenePovId(scene: Scene, chapter: Chapter, state: NovelState): string | undefined {
+  return scene.povCharacterId || getChapterPovId(chapter, state);
+}
+
+/**
+ * Characters present in a chapter: its viewpoint characters and everyone
+ * named in the text
+ */
+export function getChapterPresence(chapter: Chapter, state: NovelState): Set<string> {
+  const present = new Set<string>();
+  const chapterPov = getChapterPovId(chapter, state);
+  if (chapterPov) present.add(chapterPov);
+  chapter.scenes.forEach(scene => {
+    if (scene.povCharacterId) present.add(scene.povCharacterId);
+  });
+
+  const text = chapter.content || chapter.summary || '';
+  state.characterCodex.forEach(character => {
+    if (textContainsCharacterName(text, character.name)) present.add(character.id);
+  });
+  return present;
+}
+
+export function buildWitnessIndex(state: NovelState): WitnessIndex {
+  const index: WitnessIndex = new Map();
+  state.chapters.forEach(chapter => {
+    getChapterPresence(chapter, state).forEach(characterId => {
+      if (!index.has(characterId)) index.set(characterId, new Set());
+      index.get(characterId)!.add(chapter.number);
+    });
+  });
+  return index;
+}
+
+export function getWitnessedChapters(state: NovelState, characterId: string, index = buildWitnessIndex(state)): number[] {
+  return [...(index.get(characterId) || [])].sort((a, b) => a - b);
+}
+
+/**
+ * Whether a character knows a fact by the given chapter, either as a recorded
+ * holder or by being present when it happened
+ */
+export function knowsFact(
+  fact: KnowledgeFact,
+  characterId: string,
+  chapterNumber: number,
+  index: WitnessIndex
+): boolean {
+  if (fact.holders.some(h => h.characterId === characterId && h.learnedInChapter <= chapterNumber)) return true;
+  return fact.occurredInChapter !== undefined &&
+    fact.occurredInChapter <= chapterNumber &&
+    !!index.get(characterId)?.has(fact.occurredInChapter);
+}
+
+/** Whether anyone in the story knows the fact by the given chapter */
+function factEstablished(fact: KnowledgeFact, chapterNumber: number): boolean {
+  return (fact.occurredInChapter !== undefined && fact.occurredInChapter <= chapterNumber) ||
+    fact.holders.some(h => h.learnedInChapter <= chapterNumber);
+}
+
+/**
+ * Facts a character knows by a chapter, and facts others know that they do not
+ */
+export function getCharacterKnowledge(
+  state: NovelState,
+  characterId: string,
+  chapterNumber: number,
+  index = buildWitnessIndex(state)
+): { known: KnowledgeFact[]; unknown: KnowledgeFact[] } {
+  const known: KnowledgeFact[] = [];
+  const unknown: KnowledgeFact[] = [];
+  (state.knowledgeFacts || []).forEach(fact => {
+    if (knowsFact(fact, characterId, chapterNumber, index)) known.push(fact);
+    else if (factEstablished(fact, chapterNumber)) unknown.push(fact);
+  });
+  return { known, unknown };
+}
+
+function findCharacterInText(state: NovelState, text: string): Character | undefined {
+  const candidate = text.trim();
+  return state.characterCodex.find(c => c.name.toLowerCase() === candidate.toLowerCase()) ||
+    state.characterCodex.find(c => textContainsCharacterName(candidate, c.name));
+}
+
+/**
+ * Viewpoint character for the next chapter: one named in the instruction
+ * ("POV: Mei Lin", "from Mei Lin's perspective"), else whoever narrated the
+ * end of the latest chapter, else the sole protagonist
+ */
+export function resolveNextChapterPov(state: NovelState, userInstruction = ''): Character | undefined {
+  for (const pattern of POV_INSTRUCTION_PATTERNS) {
+    const match = userInstruction.match(pattern);
+    const character = match ? findCharacterInText(state, match[1]) : undefined;
+    if (character) return character;
+  }
+
+  const latest = [...state.chapters].sort((a, b) => b.number - a.number)[0];
+  let povId: string | undefined;
+  if (latest) {
+    const lastScene = [...latest.scenes].sort((a, b) => b.number - a.number)[0];
+    povId = lastScene ? getScenePovId(lastScene, latest, state) : getChapterPovId(latest, state);
+  } else {
+    const protagonists = state.characterCodex.filter(c => c.isProtagonist);
+    povId = protagonists.length === 1 ? protagonists[0].id : undefined;
+  }
+  return state.characterCodex.find(c => c.id === povId);
+}
+
+function isMultiPov(state: NovelState): boolean {
+  return state.chapters.some(c => c.povCharacterId || c.scenes.some(s => s.povCharacterId)) ||
+    (state.knowledgeFacts || []).length > 0;
+}
+
+/**
+ * Viewpoint section of the chapter prompt: who narrates, what they know, and
+ * recent chapters they were not present for
+ */
+export function buildPovContext(state: NovelState, povCharacterId?: string): string | undefined {
+  const pov = povCharacterId
+    ? state.characterCodex.find(c => c.id === povCharacterId)
+    : resolveNextChapterPov(state);
+  if (!pov || !isMultiPov(state)) return undefined;
+
+  const nextChapter = Math.max(...state.chapters.map(c => c.number), 0) + 1;
+  const index = buildWitnessIndex(state);
+  const { known, unknown } = getCharacterKnowledge(state, pov.id, nextChapter, index);
+  const witnessed = index.get(pov.id) || new Set<number>();
+
+  const lines = [
+    `[VIEWPOINT - ${pov.name.toUpperCase()}]`,
+    `Chapter ${nextChapter} is told from ${pov.name}'s point of view. Narration, thoughts and conclusions are limited to what ${pov.name} perceives and knows.`,
+  ];
+
+  if (known.length > 0) {
+    lines.push(`${pov.name} knows:`);
+    known.slice(0, MAX_FACTS_IN_CONTEXT).forEach(fact => lines.push(`- ${fact.description}`));
+  }
+  if (unknown.length > 0) {
+    lines.push(`${pov.name} does NOT know (other characters may; do not let ${pov.name} think, say or act on these):`);
+    unknown.slice(0, MAX_FACTS_IN_CONTEXT).forEach(fact => lines.push(`- ${fact.description}`));
+  }
+
+  const unwitnessed = [...state.chapters]
+    .sort((a, b) => a.number - b.number)
+    .filter(chapter => !witnessed.has(chapter.number))
+    .slice(-MAX_UNWITNESSED_CHAPTERS);
+  if (unwitnessed.length > 0) {
+    lines.push(`${pov.name} was not present for these chapters; their events are unknown to ${pov.name} unless someone tells them:`);
+    unwitnessed.forEach(chapter => {
+      const summary = chapter.summary ? ` — ${chapter.summary.slice(0, 160)}` : '';
+      lines.push(`- Chapter ${chapter.number}: ${chapter.title}${summary}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+function mentionsFact(text: string, fact: KnowledgeFact): string | undefined {
+  const lower = text.toLowerCase();
+  return fact.keywords.find(keyword => {
+    const trimmed = keyword.trim().toLowerCase();
+    if (trimmed.length < 3) return false;
+    const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}\\b`).test(lower);
+  });
+}
+
+/**
+ * Chapters and scenes whose viewpoint character refers to a fact they have
+ * not learned yet
+ */
+export function checkPovKnowledge(state: NovelState): ConsistencyIssue[] {
+  const facts = (state.knowledgeFacts || []).filter(f => f.keywords.length > 0);
+  if (facts.length === 0) return [];
+
+  const issues: ConsistencyIssue[] = [];
+  const index = buildWitnessIndex(state);
+  const names = new Map(state.characterCodex.map(c => [c.id, c.name]));
+
+  [...state.chapters].sort((a, b) => a.number - b.number).forEach(chapter => {
+    const segments = chapter.scenes.some(s => s.content)
+      ? chapter.scenes.map(scene => ({ text: scene.content, povId: getScenePovId(scene, chapter, state), scene }))
+      : [{ text: chapter.content, povId: getChapterPovId(chapter, state), scene: undefined }];
+    const reported = new Set<string>();
+
+    segments.forEach(({ text, povId, scene }) => {
+      if (!povId || !text) return;
+      facts.forEach(fact => {
+        const key = `${povId}:${fact.id}`;
+        if (reported.has(key) || fact.occurredInChapter === chapter.number) return;
+        if (knowsFact(fact, povId, chapter.number, index)) return;
+        const keyword = mentionsFact(text, fact);
+        if (!keyword) return;
+
+        reported.add(key);
+        const povName = names.get(povId) || 'The viewpoint character';
+        const where = scene ? `Scene ${scene.number} of Chapter ${chapter.number}` : `Chapter ${chapter.number}`;
+        issues.push({
+          type: 'pov-knowledge',
+          severity: 'warning',
+          chapterNumber: chapter.number,
+          characterName: povName,
+          message: `${where} is told from ${povName}'s point of view and refers to "${fact.description}", which ${povName} has not learned by then.`,
+          suggestion: `Show ${povName} learning it first, record when they learned it in the knowledge ledger, or move the reference to a character who knows.`,
+          confidence: 0.6,
+          evidence: [keyword],
+        });
+      });
+    });
+  });
+
+  return issues;
+}
@@ -1,168 +1,198 @@
 /**
  * Power Level System
- * 
- * Defines power level hierarchies for Xianxia/Xuanhuan genres and validates progression.
- * Prevents regressions and unrealistic advancement speeds.
+ *
+ * Reads a novel's own power ladders (NovelState.powerSystems) and validates progression.
+ * Prevents regressions and unrealistic advancement speeds. Novels without ladders of
+ * their own fall back to a generic Xianxia cultivation and combat ladder.
  */
 
-export type PowerLevelCategory = 'cultivation' | 'combat' | 'spiritual' | 'body_refinement';
+import type { NovelState } from '../types';
+import type {
+  PowerLevelCategory,
+  PowerLevelHierarchy,
+  PowerLevelProgressionRule,
+  PowerLevelStage,
+} from '../types/powerSystem';
 
-export interface PowerLevelStage {
-  name: string;
-  order: number; // Lower number = lower stage
-  category: PowerLevelCategory;
-  description?: string;
-  typicalBreakthroughTime?: string; // e.g., "3-5 chapters"
-}
+export type { PowerLevelCategory, PowerLevelHierarchy, PowerLevelProgressionRule, PowerLevelStage };
+
+export const DEFAULT_PROGRESSION_RULES: PowerLevelProgressionRule = {
+  maxChaptersPerStage: 10,
+  minChaptersForBreakthrough: 2,
+  allowRegression: false,
+  requireBreakthroughEvent: true,
+};
 
-export interface PowerLevelHierarchy {
-  category: PowerLevelCategory;
-  stages: PowerLevelStage[];
+/**
+ * Generic Xianxia/Xuanhuan ladders, used when a novel defines none and offered
+ * as a starting template in the World Bible
+ */
+export const DEFAULT_POWER_HIERARCHIES: PowerLevelHierarchy[] = [
+  {
+    id: 'cultivation',
+    name: 'Cultivation Realms',
+    category: 'cultivation',
+    stages: [
+      { name: 'Qi Refining', order: 1, category: 'cultivation', description: 'Initial stage of cultivation', typicalBreakthroughTime: '2-3 chapters' },
+      { name: 'Foundation Building', order: 2, category: 'cultivation', description: 'Building foundation for future growth', typicalBreakthroughTime: '3-5 chapters' },
+      { name: 'Core Formation', order: 3, category: 'cultivation', description: 'Forming core within dantian', typicalBreakthroughTime: '5-8 chapters' },
+      { name: 'Nascent Soul', order: 4, category: 'cultivation', description: 'Soul begins to form', typicalBreakthroughTime: '8-12 chapters' },
+      { name: 'Soul Transformation', order: 5, category: 'cultivation', description: 'Soul fully transforms', typicalBreakthroughTime: '10-15 chapters' },
+      { name: 'Void Refinement', order: 6, category: 'cultivation', description: 'Refining void energy', typicalBreakthroughTime: '15-20 chapters' },
+      { name: 'Immortal Ascension', order: 7, category: 'cultivation', description: 'Ascending to immortality', typicalBreakthroughTime: '20+ chapters' },
+    ],
+  },
+  {
+    id: 'combat',
+    name: 'Combat Tiers',
+    category: 'combat',
+    stages: [
+      { name: 'Mortal', order: 1, category: 'combat', description: 'Normal human combat ability' },
+      { name: 'Warrior', order: 2, category: 'combat', description: 'Trained warrior' },
+      { name: 'Expert', order: 3, category: 'combat', description: 'Combat expert' },
+      { name: 'Master', order: 4, category: 'combat', description: 'Master level' },
+      { name: 'Grandmaster', order: 5, category: 'combat', description: 'Grandmaster level' },
+      { name: 'Sage', order: 6, category: 'combat', description: 'Sage level combat' },
+    ],
+  },
+];
+
+/** Sub-stage order used when a ladder does not define its own sub-stages */
+const GENERIC_SUB_STAGE_ORDER: Record<string, number> = {
+  'initial': 1,
+  'beginner': 1,
+  'early': 2,
+  'mid': 3,
+  'middle': 3,
+  'late': 4,
+  'advanced': 4,
+  'peak': 5,
+  'perfected': 5,
+  'perfection': 5,
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function wordPattern(phrase: string): RegExp {
+  return new RegExp(`\\b${escapeRegExp(phrase.toLowerCase()).replace(/\s+/g, '\\s+')}\\b`, 'i');
 }
 
-export interface PowerLevelProgressionRule {
-  maxChaptersPerStage: number; // Maximum chapters to advance one stage
-  minChaptersForBreakthrough: number; // Minimum chapters before breakthrough
-  allowRegression: boolean; // Whether power loss is allowed
-  requireBreakthroughEvent: boolean; // Whether breakthrough must be explicitly described
+export interface ParsedPowerLevel {
+  stageName: string;
+  order: number;
+  subStage?: string; // e.g., "Early", "Mid", "Late", "Peak"
+  /** Position of the sub-stage within its stage, starting at 1 */
+  subStageOrder?: number;
+  /** Ladder the level was matched against */
+  hierarchyId?: string;
 }
 
 export class PowerLevelSystem {
-  private hierarchies: Map<PowerLevelCategory, PowerLevelHierarchy> = new Map();
-  private defaultRules: PowerLevelProgressionRule = {
-    maxChaptersPerStage: 10,
-    minChaptersForBreakthrough: 2,
-    allowRegression: false,
-    requireBreakthroughEvent: true,
-  };
-
-  constructor() {
-    this.initializeDefaultHierarchies();
+  private hierarchies: PowerLevelHierarchy[];
+
+  constructor(hierarchies: PowerLevelHierarchy[] = DEFAULT_POWER_HIERARCHIES) {
+    this.hierarchies = hierarchies.map(hierarchy => ({
+      ...hierarchy,
+      id: hierarchy.id || hierarchy.category,
+      stages: [...hierarchy.stages].sort((a, b) => a.order - b.order),
+    }));
+  }
+
+  getHierarchies(): PowerLevelHierarchy[] {
+    return this.hierarchies;
   }
 
   /**
-   * Initialize default Xianxia/Xuanhuan power level hierarchies
+   * Get hierarchy by ladder id, or the first ladder of a category
    */
-  private initializeDefaultHierarchies(): void {
-    // Cultivation Realm Hierarchy (most common)
-    const cultivationHierarchy: PowerLevelHierarchy = {
-      category: 'cultivation',
-      stages: [
-        { name: 'Qi Refining', order: 1, category: 'cultivation', description: 'Initial stage of cultivation', typicalBreakthroughTime: '2-3 chapters' },
-        { name: 'Foundation Building', order: 2, category: 'cultivation', description: 'Building foundation for future growth', typicalBreakthroughTime: '3-5 chapters' },
-        { name: 'Core Formation', order: 3, category: 'cultivation', description: 'Forming core within dantian', typicalBreakthroughTime: '5-8 chapters' },
-        { name: 'Nascent Soul', order: 4, category: 'cultivation', description: 'Soul begins to form', typicalBreakthroughTime: '8-12 chapters' },
-        { name: 'Soul Transformation', order: 5, category: 'cultivation', description: 'Soul fully transforms', typicalBreakthroughTime: '10-15 chapters' },
-        { name: 'Void Refinement', order: 6, category: 'cultivation', description: 'Refining void energy', typicalBreakthroughTime: '15-20 chapters' },
-        { name: 'Immortal Ascension', order: 7, category: 'cultivation', description: 'Ascending to immortality', typicalBreakthroughTime: '20+ chapters' },
-      ],
-    };
+  getHierarchy(categoryOrId: string): PowerLevelHierarchy | null {
+    return this.hierarchies.find(h => h.id === categoryOrId)
+      || this.hierarchies.find(h => h.category === categoryOrId)
+      || null;
+  }
 
-    // Combat Power Hierarchy
-    const combatHierarchy: PowerLevelHierarchy = {
-      category: 'combat',
-      stages: [
-        { name: 'Mortal', order: 1, category: 'combat', description: 'Normal human combat ability' },
-        { name: 'Warrior', order: 2, category: 'combat', description: 'Trained warrior' },
-        { name: 'Expert', order: 3, category: 'combat', description: 'Combat expert' },
-        { name: 'Master', order: 4, category: 'combat', description: 'Master level' },
-        { name: 'Grandmaster', order: 5, category: 'combat', description: 'Grandmaster level' },
-        { name: 'Sage', order: 6, category: 'combat', description: 'Sage level combat' },
-      ],
-    };
+  private getSubStages(hierarchy: PowerLevelHierarchy, stage: PowerLevelStage): string[] | undefined {
+    const subStages = stage.subStages ?? hierarchy.subStages;
+    return subStages && subStages.length > 0 ? subStages : undefined;
+  }
 
-    this.hierarchies.set('cultivation', cultivationHierarchy);
-    this.hierarchies.set('combat', combatHierarchy);
+  private matchSubStage(
+    levelString: string,
+    hierarchy: PowerLevelHierarchy,
+    stage: PowerLevelStage
+  ): Pick<ParsedPowerLevel, 'subStage' | 'subStageOrder'> {
+    const subStages = this.getSubStages(hierarchy, stage);
+    if (subStages) {
+      // Longest first, so "Half-step Peak" wins over "Peak"
+      const match = subStages
+        .map((name, index) => ({ name, index }))
+        .sort((a, b) => b.name.length - a.name.length)
+        .find(({ name }) => wordPattern(name).test(levelString));
+      return match ? { subStage: match.name, subStageOrder: match.index + 1 } : {};
+    }
+
+    const match = levelString.match(/\b(initial|beginner|early|mid|middle|late|advanced|peak|perfected|perfection)\b/i);
+    if (!match) return {};
+    const subStage = match[1].toLowerCase();
+    return { subStage, subStageOrder: GENERIC_SUB_STAGE_ORDER[subStage] };
   }
 
-  /**
-   * Get hierarchy for a category
-   */
-  getHierarchy(category: PowerLevelCategory): PowerLevelHierarchy | null {
-    return this.hierarchies.get(category) || null;
+  private matchStage(levelString: string, hierarchy: PowerLevelHierarchy): ParsedPowerLevel | null {
+    const normalizedLower = levelString.toLowerCase();
+    const result = (stage: PowerLevelStage): ParsedPowerLevel => ({
+      stageName: stage.name,
+      order: stage.order,
+      hierarchyId: hierarchy.id,
+      ...this.matchSubStage(levelString, hierarchy, stage),
+    });
+
+    // Exact match, then whole-word match, on the stage name or any alias.
+    // Longer names first, so "Core Formation" is not read as a stage called "Core".
+    const named = hierarchy.stages
+      .flatMap(stage => [stage.name, ...(stage.aliases || [])].map(name => ({ stage, name })))
+      .sort((a, b) => b.name.length - a.name.length);
+
+    const exact = named.find(({ name }) => name.toLowerCase() === normalizedLower);
+    if (exact) return { stageName: exact.stage.name, order: exact.stage.order, hierarchyId: hierarchy.id };
+
+    const contained = named.find(({ name }) => wordPattern(name).test(levelString));
+    if (contained) return result(contained.stage);
+
+    // Partial matching for common variations
+    const normalizedWords = normalizedLower.split(/\s+/);
+    for (const { stage, name } of named) {
+      const stageWords = name.toLowerCase().split(/\s+/);
+      const allWordsMatch = stageWords.every(word =>
+        normalizedWords.some(nw => nw.includes(word) || word.includes(nw))
+      );
+      if (allWordsMatch && stageWords.length > 0) {
+        return result(stage);
+      }
+    }
+
+    return null;
   }
 
   /**
    * Parse power level string and determine stage order
    * Handles various formats: "Qi Refining Stage 3", "Foundation Building", "Core Formation Peak"
-   * Enhanced with better pattern matching
+   * Without a category, every ladder is tried so parallel paths parse too.
    */
-  parsePowerLevel(levelString: string, category: PowerLevelCategory = 'cultivation'): {
-    stageName: string;
-    order: number;
-    subStage?: string; // e.g., "Early", "Mid", "Late", "Peak"
-  } | null {
+  parsePowerLevel(levelString: string, category?: string): ParsedPowerLevel | null {
     if (!levelString || levelString.trim() === '') return null;
 
-    const hierarchy = this.getHierarchy(category);
-    if (!hierarchy) return null;
-
     const normalized = levelString.trim();
-    const normalizedLower = normalized.toLowerCase();
-    
-    // Try to match against known stages (enhanced matching)
-    for (const stage of hierarchy.stages) {
-      const stageNameLower = stage.name.toLowerCase();
-      
-      // Exact match
-      if (normalizedLower === stageNameLower) {
-        return {
-          stageName: stage.name,
-          order: stage.order,
-        };
-      }
-
-      // Contains stage name (with word boundaries for better matching)
-      const stagePattern = new RegExp(`\\b${stageNameLower.replace(/\s+/g, '\\s+')}\\b`, 'i');
-      if (stagePattern.test(normalized)) {
-        // Extract sub-stage if present
-        const subStagePatterns = [
-          /\b(initial|beginner)\b/i,
-          /\b(early)\b/i,
-          /\b(mid|middle)\b/i,
-          /\b(late|advanced)\b/i,
-          /\b(peak|perfected|perfection)\b/i,
-        ];
-        
-        let subStage: string | undefined;
-        for (const pattern of subStagePatterns) {
-          const match = normalized.match(pattern);
-          if (match) {
-            subStage = match[1].toLowerCase();
-            break;
-          }
-        }
-
-        return {
-          stageName: stage.name,
-          order: stage.order,
-          subStage,
-        };
-      }
+    const candidates = category
+      ? [this.getHierarchy(category)].filter((h): h is PowerLevelHierarchy => h !== null)
+      : this.hierarchies;
+    if (candidates.length === 0) return null;
+
+    for (const hierarchy of candidates) {
+      const parsed = this.matchStage(normalized, hierarchy);
+      if (parsed) return parsed;
     }
 
-    // Enhanced: Try partial matching for common variations
-    for (const stage of hierarchy.stages) {
-      const stageWords = stage.name.toLowerCase().split(/\s+/);
-      const normalizedWords = normalizedLower.split(/\s+/);
-      
-      // Check if all stage words appear in normalized string
-      const allWordsMatch = stageWords.every(word => 
-        normalizedWords.some(nw => nw.includes(word) || word.includes(nw))
-      );
-      
-      if (allWordsMatch && stageWords.length > 0) {
-        const subStageMatch = normalized.match(/\b(early|mid|middle|late|peak|initial|beginner|advanced|perfected)\b/i);
-        return {
-          stageName: stage.name,
-          order: stage.order,
-          subStage: subStageMatch ? subStageMatch[1] : undefined,
-        };
-      }
-    }
-
-    // If no match found, try to infer order from common patterns
-    // This is a fallback for custom power levels
+    // If no match found, keep the text as a custom level of unknown order
     return {
       stageName: normalized,
       order: 0, // Unknown order
@@ -173,36 +203,21 @@ export class PowerLevelSystem {
    * Compare two power levels
    * Returns: -1 if level1 < level2, 0 if equal, 1 if level1 > level2
    */
-  comparePowerLevels(
-    level1: string,
-    level2: string,
-    category: PowerLevelCategory = 'cultivation'
-  ): number {
+  comparePowerLevels(level1: string, level2: string, category?: string): number {
     const parsed1 = this.parsePowerLevel(level1, category);
     const parsed2 = this.parsePowerLevel(level2, category);
 
     if (!parsed1 || !parsed2) return 0; // Can't compare
+    // Levels on different parallel paths are not comparable
+    if (parsed1.hierarchyId && parsed2.hierarchyId && parsed1.hierarchyId !== parsed2.hierarchyId) return 0;
 
     if (parsed1.order < parsed2.order) return -1;
     if (parsed1.order > parsed2.order) return 1;
 
     // Same stage, compare sub-stages
-    if (parsed1.subStage && parsed2.subStage) {
-      const subStageOrder: Record<string, number> = {
-        'initial': 1,
-        'beginner': 1,
-        'early': 2,
-        'mid': 3,
-        'middle': 3,
-        'late': 4,
-        'advanced': 4,
-        'peak': 5,
-        'perfected': 5,
-      };
-
-      const order1 = subStageOrder[parsed1.subStage.toLowerCase()] || 0;
-      const order2 = subStageOrder[parsed2.subStage.toLowerCase()] || 0;
-
+    const order1 = parsed1.subStageOrder || 0;
+    const order2 = parsed2.subStageOrder || 0;
+    if (order1 && order2) {
       if (order1 < order2) return -1;
       if (order1 > order2) return 1;
     }
@@ -210,6 +225,17 @@ export class PowerLevelSystem {
     return 0;
   }
 
+  /**
+   * Progression rules in force when advancing into `levelString`: defaults,
+   * then the ladder's overrides, then the stage's
+   */
+  getProgressionRules(levelString: string, category?: string): PowerLevelProgressionRule {
+    const parsed = this.parsePowerLevel(levelString, category);
+    const hierarchy = parsed?.hierarchyId ? this.getHierarchy(parsed.hierarchyId) : null;
+    const stage = hierarchy?.stages.find(s => s.name === parsed?.stageName);
+    return { ...DEFAULT_PROGRESSION_RULES, ...hierarchy?.rules, ...stage?.rules };
+  }
+
   /**
    * Validate power level progression
    */
@@ -218,7 +244,7 @@ export class PowerLevelSystem {
     currentLevel: string,
     chaptersSinceLastChange: number,
     hasBreakthroughEvent: boolean,
-    category: PowerLevelCategory = 'cultivation'
+    category?: string
   ): {
     valid: boolean;
     issues: string[];
@@ -226,13 +252,14 @@ export class PowerLevelSystem {
   } {
     const issues: string[] = [];
     const warnings: string[] = [];
+    const rules = this.getProgressionRules(currentLevel, category);
 
     const comparison = this.comparePowerLevels(previousLevel, currentLevel, category);
 
     // Check for regression
     if (comparison > 0) {
       // Current is lower than previous
-      if (!this.defaultRules.allowRegression) {
+      if (!rules.allowRegression) {
         issues.push(
           `Power level regression detected: ${previousLevel} → ${currentLevel}. ` +
           `Regression is not allowed unless explicitly justified.`
@@ -252,13 +279,13 @@ export class PowerLevelSystem {
 
       if (parsedPrev && parsedCurr) {
         const stageJump = parsedCurr.order - parsedPrev.order;
-        
+
         if (stageJump > 1) {
           // Jumped multiple stages
-          if (chaptersSinceLastChange < this.defaultRules.minChaptersForBreakthrough * stageJump) {
+          if (chaptersSinceLastChange < rules.minChaptersForBreakthrough * stageJump) {
             issues.push(
               `Unrealistic power progression: Jumped ${stageJump} stage(s) in ${chaptersSinceLastChange} chapter(s). ` +
-              `Expected at least ${this.defaultRules.minChaptersForBreakthrough * stageJump} chapters for such progression.`
+              `Expected at least ${rules.minChaptersForBreakthrough * stageJump} chapters for such progression.`
             );
           } else {
             warnings.push(
@@ -269,7 +296,7 @@ export class PowerLevelSystem {
         }
 
         // Check if breakthrough event is required
-        if (this.defaultRules.requireBreakthroughEvent && stageJump >= 1 && !hasBreakthroughEvent) {
+        if (rules.requireBreakthroughEvent && stageJump >= 1 && !hasBreakthroughEvent) {
           issues.push(
             `Power level advancement requires a breakthrough event. ` +
             `Current: ${currentLevel}, Previous: ${previousLevel}. ` +
@@ -280,7 +307,7 @@ export class PowerLevelSystem {
     }
 
     // Check advancement speed
-    if (comparison < 0 && chaptersSinceLastChange > this.defaultRules.maxChaptersPerStage) {
+    if (comparison < 0 && chaptersSinceLastChange > rules.maxChaptersPerStage) {
       warnings.push(
         `Slow power progression: ${chaptersSinceLastChange} chapters since last change. ` +
         `Consider advancing the character's power level or adding progression events.`
@@ -295,24 +322,30 @@ export class PowerLevelSystem {
   }
 
   /**
-   * Get next expected power level
+   * Get next expected power level: the next sub-stage if the ladder has one,
+   * otherwise the next stage
    */
-  getNextStage(currentLevel: string, category: PowerLevelCategory = 'cultivation'): string | null {
+  getNextStage(currentLevel: string, category?: string): string | null {
     const parsed = this.parsePowerLevel(currentLevel, category);
-    if (!parsed) return null;
+    if (!parsed || !parsed.hierarchyId) return null;
 
-    const hierarchy = this.getHierarchy(category);
+    const hierarchy = this.getHierarchy(parsed.hierarchyId);
     if (!hierarchy) return null;
 
-    // Find next stage
-    const nextStage = hierarchy.stages.find(s => s.order === parsed.order + 1);
+    const stage = hierarchy.stages.find(s => s.name === parsed.stageName);
+    const subStages = stage ? this.getSubStages(hierarchy, stage) : undefined;
+    if (stage && subStages && parsed.subStageOrder && parsed.subStageOrder < subStages.length) {
+      return `${stage.name} ${subStages[parsed.subStageOrder]}`;
+    }
+
+    const nextStage = hierarchy.stages.find(s => s.order > parsed.order);
     return nextStage?.name || null;
   }
 
   /**
    * Check if a power level string is valid for the category
    */
-  isValidPowerLevel(levelString: string, category: PowerLevelCategory = 'cultivation'): boolean {
+  isValidPowerLevel(levelString: string, category?: string): boolean {
     const parsed = this.parsePowerLevel(levelString, category);
     return parsed !== null && parsed.order > 0;
   }
@@ -320,7 +353,7 @@ export class PowerLevelSystem {
   /**
    * Normalize power level string to canonical form
    */
-  normalizePowerLevel(levelString: string, category: PowerLevelCategory = 'cultivation'): string {
+  normalizePowerLevel(levelString: string, category?: string): string {
     const parsed = this.parsePowerLevel(levelString, category);
     if (!parsed) return levelString;
 
@@ -329,12 +362,39 @@ export class PowerLevelSystem {
     }
     return parsed.stageName;
   }
+
+  /**
+   * One line per ladder, lowest stage first, for prompts
+   */
+  describeLadders(): string[] {
+    return this.hierarchies.map(hierarchy => {
+      const stages = hierarchy.stages.map(stage => {
+        const subStages = this.getSubStages(hierarchy, stage);
+        return subStages ? `${stage.name} (${subStages.join(' → ')})` : stage.name;
+      });
+      return `${hierarchy.name || hierarchy.id}: ${stages.join(' → ')}`;
+    });
+  }
 }
 
-// Singleton instance
+// Default instance for novels without ladders of their own
 let powerLevelSystemInstance: PowerLevelSystem | null = null;
+const novelSystems = new WeakMap<PowerLevelHierarchy[], PowerLevelSystem>();
+
+/**
+ * Power level system for a novel's own ladders, or the default ladders
+ */
+export function getPowerLevelSystem(novel?: Pick<NovelState, 'powerSystems'>): PowerLevelSystem {
+  const ladders = novel?.powerSystems;
+  if (ladders && ladders.length > 0) {
+    let system = novelSystems.get(ladders);
+    if (!system) {
+      system = new PowerLevelSystem(ladders);
+      novelSystems.set(ladders, system);
+    }
+    return system;
+  }
 
-export function getPowerLevelSystem(): PowerLevelSystem {
   if (!powerLevelSystemInstance) {
     powerLevelSystemInstance = new PowerLevelSystem();
   }
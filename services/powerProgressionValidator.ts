@@ -43,7 +43,7 @@ export class PowerProgressionValidator {
   ): PowerProgressionReport {
     const warnings: PowerProgressionWarning[] = [];
     const graphService = getKnowledgeGraphService();
-    const powerSystem = getPowerLevelSystem();
+    const powerSystem = getPowerLevelSystem(state);
 
     // Initialize graph if needed
     if (!graphService.getGraph()) {
@@ -197,7 +197,7 @@ export class PowerProgressionValidator {
 
     // If character hasn't progressed in many chapters, suggest progression
     if (chaptersSinceChange > 8) {
-      const powerSystem = getPowerLevelSystem();
+      const powerSystem = getPowerLevelSystem(state);
       const nextStage = powerSystem.getNextStage(currentLevel);
       
       if (nextStage) {
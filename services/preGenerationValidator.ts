@@ -48,7 +48,7 @@ export class PreGenerationValidator {
     const issues: ValidationIssue[] = [];
     const graphService = getKnowledgeGraphService();
     const stateTracker = getEntityStateTracker();
-    const powerSystem = getPowerLevelSystem();
+    const powerSystem = getPowerLevelSystem(state);
 
     // Initialize graph if needed
     if (!graphService.getGraph()) {
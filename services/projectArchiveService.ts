@@ -0,0 +1,393 @@
+/**
+ * Project Archive Service
+ * Full-fidelity backup and restore of a novel as a single versioned archive.
+ *
+ * The archive bundles the complete NovelState together with the per-novel data
+ * that lives outside it in localStorage (tribulation gates and their history,
+ * gate consequences, living-world events and status, and the Lore Bible snapshot).
+ */
+
+import { NovelState } from '../types';
+import { TribulationGate, TribulationGateConfig, TribulationGateHistoryEntry } from '../types/tribulationGates';
+import { GlobalWorldEvent, LivingWorldStatus } from '../types/livingWorld';
+import { LoreBibleWithHistory } from '../types/loreBible';
+import {
+  getGatesForNovel,
+  getGateHistory,
+  getGateConfig,
+  saveGateConfig,
+  replaceGatesForNovel,
+  replaceGateHistoryForNovel,
+} from './tribulationGateService';
+import { getTrackedConsequences, replaceTrackedConsequences, TrackedConsequence } from './gateConsequenceTracker';
+import {
+  getWorldEvents,
+  saveWorldEvents,
+  getLivingWorldStatus,
+  saveLivingWorldStatus,
+} from './livingWorld/worldStateSimulator';
+import { readPersistedLoreBible, persistLoreBibleToStorage } from './loreBible/loreBibleService';
+import { logger } from './loggingService';
+import { AppError } from '../utils/errorHandling';
+import { generateUUID } from '../utils/uuid';
+import { createZip } from '../utils/zipWriter';
+import { isZip, readZip, zipEntryText } from '../utils/zipReader';
+
+export const PROJECT_ARCHIVE_FORMAT = 'hall-of-jade-project';
+
+/**
+ * Current archive schema version. Bump this and add a migration to
+ * ARCHIVE_MIGRATIONS whenever the archive layout changes.
+ */
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+/**
+ * Per-novel data stored outside NovelState
+ */
+export interface ProjectArchiveLocalData {
+  tribulationGates: TribulationGate[];
+  tribulationGateHistory: TribulationGateHistoryEntry[];
+  tribulationGateConfig?: TribulationGateConfig;
+  gateConsequences: TrackedConsequence[];
+  worldEvents: GlobalWorldEvent[];
+  livingWorldStatus?: LivingWorldStatus;
+  loreBible?: LoreBibleWithHistory | null;
+}
+
+export interface ProjectArchiveManifest {
+  format: typeof PROJECT_ARCHIVE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  novelId: string;
+  title: string;
+  counts: {
+    chapters: number;
+    characters: number;
+    storyThreads: number;
+    worldEvents: number;
+    tribulationGates: number;
+  };
+}
+
+export interface ProjectArchive {
+  manifest: ProjectArchiveManifest;
+  novel: NovelState;
+  localData: ProjectArchiveLocalData;
+}
+
+export interface RestoreOptions {
+  /** IDs of novels already in the library; a collision triggers ID remapping */
+  existingNovelIds?: string[];
+  /** Always assign fresh IDs, even without a collision */
+  forceNewIds?: boolean;
+}
+
+export interface RestoreResult {
+  novel: NovelState;
+  /** True when entity IDs were regenerated to avoid collisions */
+  remapped: boolean;
+  /** Schema version the archive was written with (before migration) */
+  sourceVersion: number;
+}
+
+type RawArchive = Record<string, any>;
+
+const EMPTY_LOCAL_DATA: ProjectArchiveLocalData = {
+  tribulationGates: [],
+  tribulationGateHistory: [],
+  gateConsequences: [],
+  worldEvents: [],
+};
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Version 0 is an unversioned export: a bare NovelState JSON document.
+ */
+const ARCHIVE_MIGRATIONS: Record<number, (raw: RawArchive) => RawArchive> = {
+  0: (raw) => ({
+    manifest: { format: PROJECT_ARCHIVE_FORMAT, schemaVersion: 1, exportedAt: new Date().toISOString() },
+    novel: raw,
+    localData: { ...EMPTY_LOCAL_DATA },
+  }),
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Collect everything needed to reproduce a novel on another machine
+ */
+export function createProjectArchive(novel: NovelState): ProjectArchive {
+  const localData: ProjectArchiveLocalData = {
+    tribulationGates: getGatesForNovel(novel.id),
+    tribulationGateHistory: getGateHistory(novel.id),
+    tribulationGateConfig: getGateConfig(novel.id),
+    gateConsequences: getTrackedConsequences(novel.id),
+    worldEvents: getWorldEvents(novel.id),
+    livingWorldStatus: getLivingWorldStatus(novel.id),
+    loreBible: readPersistedLoreBible(novel.id),
+  };
+
+  return {
+    manifest: {
+      format: PROJECT_ARCHIVE_FORMAT,
+      schemaVersion: PROJECT_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      novelId: novel.id,
+      title: novel.title,
+      counts: {
+        chapters: novel.chapters.length,
+        characters: novel.characterCodex.length,
+        storyThreads: novel.storyThreads?.length || 0,
+        worldEvents: localData.worldEvents.length,
+        tribulationGates: localData.tribulationGates.length,
+      },
+    },
+    novel,
+    localData,
+  };
+}
+
+/**
+ * Serialize an archive into a zip container (manifest.json, novel.json, local-data.json)
+ */
+export function serializeProjectArchive(archive: ProjectArchive): Uint8Array {
+  return createZip([
+    { path: 'manifest.json', data: JSON.stringify(archive.manifest, null, 2) },
+    { path: 'novel.json', data: JSON.stringify(archive.novel) },
+    { path: 'local-data.json', data: JSON.stringify(archive.localData) },
+  ]);
+}
+
+/**
+ * Build and download the project archive for a novel
+ */
+export async function downloadProjectArchive(novel: NovelState): Promise<void> {
+  const archive = createProjectArchive(novel);
+  const bytes = serializeProjectArchive(archive);
+  const timestamp = new Date().toISOString().split('T')[0];
+  const safeTitle = novel.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+  const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'application/zip' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${safeTitle}-${timestamp}.hoj.zip`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  logger.info('Exported project archive', 'projectArchive', {
+    novelId: novel.id,
+    size: bytes.length,
+    ...archive.manifest.counts,
+  });
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Parse archive bytes (zip container or plain JSON) into a raw archive object
+ */
+export async function parseProjectArchive(bytes: Uint8Array): Promise<RawArchive> {
+  try {
+    if (isZip(bytes)) {
+      const entries = await readZip(bytes);
+      const manifest = zipEntryText(entries, 'manifest.json');
+      const novel = zipEntryText(entries, 'novel.json');
+      if (!manifest || !novel) {
+        throw new AppError('Archive is missing manifest.json or novel.json', 'ARCHIVE_INVALID');
+      }
+      const localData = zipEntryText(entries, 'local-data.json');
+      return {
+        manifest: JSON.parse(manifest),
+        novel: JSON.parse(novel),
+        localData: localData ? JSON.parse(localData) : undefined,
+      };
+    }
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError(
+      `Could not read project archive: ${error instanceof Error ? error.message : String(error)}`,
+      'ARCHIVE_INVALID'
+    );
+  }
+}
+
+/**
+ * Detect the schema version of a raw archive
+ */
+function getArchiveVersion(raw: RawArchive): number {
+  if (raw?.manifest?.format === PROJECT_ARCHIVE_FORMAT && typeof raw.manifest.schemaVersion === 'number') {
+    return raw.manifest.schemaVersion;
+  }
+  // Unversioned: a bare NovelState
+  if (raw && typeof raw.id === 'string' && Array.isArray(raw.chapters)) return 0;
+  throw new AppError('File is not a Hall of Jade project archive', 'ARCHIVE_INVALID');
+}
+
+/**
+ * Upgrade a raw archive to the current schema version
+ */
+export function migrateProjectArchive(raw: RawArchive): { archive: ProjectArchive; sourceVersion: number } {
+  const sourceVersion = getArchiveVersion(raw);
+  if (sourceVersion > PROJECT_ARCHIVE_VERSION) {
+    throw new AppError(
+      `Archive was written by a newer version (schema ${sourceVersion}); please update the app`,
+      'ARCHIVE_UNSUPPORTED_VERSION'
+    );
+  }
+
+  let current = raw;
+  for (let version = sourceVersion; version < PROJECT_ARCHIVE_VERSION; version++) {
+    const migrate = ARCHIVE_MIGRATIONS[version];
+    if (!migrate) {
+      throw new AppError(`No migration from archive schema ${version}`, 'ARCHIVE_UNSUPPORTED_VERSION');
+    }
+    current = migrate(current);
+  }
+
+  const novel = current.novel as NovelState;
+  if (!novel || typeof novel.id !== 'string' || !Array.isArray(novel.chapters)) {
+    throw new AppError('Archive does not contain a valid novel', 'ARCHIVE_INVALID');
+  }
+
+  const archive: ProjectArchive = {
+    manifest: {
+      ...current.manifest,
+      format: PROJECT_ARCHIVE_FORMAT,
+      schemaVersion: PROJECT_ARCHIVE_VERSION,
+      novelId: novel.id,
+      title: novel.title,
+    },
+    novel: {
+      ...novel,
+      realms: novel.realms || [],
+      territories: novel.territories || [],
+      worldBible: novel.worldBible || [],
+      characterCodex: novel.characterCodex || [],
+      plotLedger: novel.plotLedger || [],
+      systemLogs: novel.systemLogs || [],
+      tags: novel.tags || [],
+      writingGoals: novel.writingGoals || [],
+    },
+    localData: { ...EMPTY_LOCAL_DATA, ...(current.localData || {}) },
+  };
+
+  return { archive, sourceVersion };
+}
+
+/**
+ * Collect every `id` value in a JSON tree
+ */
+function collectIds(value: unknown, ids: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectIds(item, ids));
+  } else if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.id === 'string' && record.id) ids.add(record.id);
+    Object.values(record).forEach(child => collectIds(child, ids));
+  }
+}
+
+/**
+ * Replace every string (and object key) that matches a remapped ID
+ */
+function applyIdMap<T>(value: T, idMap: Map<string, string>): T {
+  if (typeof value === 'string') {
+    return (idMap.get(value) ?? value) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => applyIdMap(item, idMap)) as unknown as T;
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      result[idMap.get(key) ?? key] = applyIdMap(child, idMap);
+    });
+    return result as T;
+  }
+  return value;
+}
+
+/**
+ * Assign fresh IDs to the novel and every entity in the archive.
+ * Foreign keys (chapterId, characterId, novelId, ...) are rewritten consistently.
+ */
+export function remapArchiveIds(archive: ProjectArchive): ProjectArchive {
+  const ids = new Set<string>();
+  collectIds(archive.novel, ids);
+  collectIds(archive.localData, ids);
+
+  const idMap = new Map<string, string>();
+  ids.forEach(id => idMap.set(id, generateUUID()));
+
+  const novel = applyIdMap(archive.novel, idMap);
+  return {
+    manifest: { ...archive.manifest, novelId: novel.id },
+    novel,
+    localData: applyIdMap(archive.localData, idMap),
+  };
+}
+
+/**
+ * Write the archive's local-only data back to localStorage
+ */
+async function restoreLocalData(novelId: string, localData: ProjectArchiveLocalData): Promise<void> {
+  replaceGatesForNovel(novelId, localData.tribulationGates);
+  replaceGateHistoryForNovel(novelId, localData.tribulationGateHistory);
+  if (localData.tribulationGateConfig) saveGateConfig(novelId, localData.tribulationGateConfig);
+  replaceTrackedConsequences(novelId, localData.gateConsequences);
+
+  saveWorldEvents(novelId, localData.worldEvents);
+  if (localData.livingWorldStatus) {
+    saveLivingWorldStatus(novelId, {
+      ...localData.livingWorldStatus,
+      undiscoveredEvents: localData.worldEvents.filter(e => !e.isDiscovered).length,
+    });
+  }
+
+  if (localData.loreBible) {
+    const result = await persistLoreBibleToStorage({ ...localData.loreBible, novelId });
+    if (!result.success) {
+      logger.warn('Failed to restore Lore Bible snapshot', 'projectArchive', { novelId, error: result.error });
+    }
+  }
+}
+
+/**
+ * Restore a project archive. Writes local-only data to storage and returns the
+ * novel for the caller to add to the library (which persists it to IndexedDB/Supabase).
+ */
+export async function restoreProjectArchive(
+  bytes: Uint8Array,
+  options: RestoreOptions = {}
+): Promise<RestoreResult> {
+  const raw = await parseProjectArchive(bytes);
+  const { archive: migrated, sourceVersion } = migrateProjectArchive(raw);
+
+  const collides = (options.existingNovelIds || []).includes(migrated.novel.id);
+  const remapped = options.forceNewIds || collides;
+  const archive = remapped ? remapArchiveIds(migrated) : migrated;
+
+  const novel: NovelState = {
+    ...archive.novel,
+    title: collides ? `${archive.novel.title} (Restored)` : archive.novel.title,
+    updatedAt: Date.now(),
+  };
+
+  await restoreLocalData(novel.id, archive.localData);
+
+  logger.info('Restored project archive', 'projectArchive', {
+    novelId: novel.id,
+    sourceVersion,
+    remapped,
+    chapters: novel.chapters.length,
+  });
+
+  return { novel, remapped, sourceVersion };
+}
@@ -5,6 +5,7 @@
 
 import type { NovelState } from '../types';
 import type { CacheMetadata, CacheProvider } from '../types/cache';
+import { estimateTokens } from './promptEngine/tokenEstimator';
 
 /**
  * Simple hash function for generating cache keys
@@ -137,8 +138,7 @@ export function createCacheMetadata(
 ): CacheMetadata | null {
   const cacheKey = generateCacheKey(novelState, cacheableContent);
   
-  // Estimate tokens (rough: 1 token ≈ 4 characters)
-  const estimatedCacheableTokens = Math.ceil(cacheableContent.length / 4);
+  const estimatedCacheableTokens = estimateTokens(cacheableContent);
   
   // Check minimum requirements
   const { PROVIDER_CACHE_REQUIREMENTS } = require('../types/cache');
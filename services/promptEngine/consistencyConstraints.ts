@@ -31,7 +31,7 @@ export function generateConsistencyConstraints(
 ): ConsistencyConstraints {
   const constraints: ConsistencyConstraint[] = [];
   const graphService = getKnowledgeGraphService();
-  const powerSystem = getPowerLevelSystem();
+  const powerSystem = getPowerLevelSystem(state);
 
   // Initialize graph if needed
   if (!graphService.getGraph()) {
@@ -93,6 +93,18 @@ export function generateConsistencyConstraints(
     // This would be added when location tracking is implemented
   });
 
+  // The novel's own power ladders, so the model uses its stage names and order
+  if (state.powerSystems && state.powerSystems.length > 0) {
+    powerSystem.describeLadders().forEach(ladder => {
+      constraints.push({
+        type: 'world_rule',
+        constraint: `Power Ladder (lowest to highest) - ${ladder}. ` +
+          `Use only these stage names for power levels and never skip stages without a described breakthrough.`,
+        severity: 'critical',
+      });
+    });
+  }
+
   // World rule constraints
   const currentRealm = state.realms.find(r => r.id === state.currentRealmId);
   if (currentRealm) {
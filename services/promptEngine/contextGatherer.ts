@@ -10,6 +10,10 @@ import { getOverduePromises, getHighPriorityPendingPromises } from '../promiseTr
 import { compileComprehensiveContext } from '../contextCompilationService';
 import { textContainsCharacterName } from '../../utils/characterNameMatching';
 import { generateFaceGraphContext, queryConnectionToWronged } from '../faceGraph';
+import { buildGeographyContext } from '../worldMapService';
+import { buildCalendarContext } from '../calendarService';
+import { buildPovContext } from '../povService';
+import { buildSeriesContext } from '../sequelService';
 
 /**
  * Context Gatherer
@@ -506,6 +510,7 @@ export async function gatherPromptContext(
     includeFullChapterText?: boolean; // Include full chapter text (not summaries) for recent chapters
     includeFullCharacterProgression?: boolean; // Track character progression across all chapters
     includeAllActiveThreads?: boolean; // Include all active plot threads from entire novel
+    povCharacterId?: string; // Viewpoint character of the chapter being written
   } = {}
 ): Promise<PromptContext> {
   const {
@@ -518,6 +523,7 @@ export async function gatherPromptContext(
     includeFullChapterText = false,
     includeFullCharacterProgression = false,
     includeAllActiveThreads = false,
+    povCharacterId,
   } = options;
 
   const currentRealm = state.realms.find(r => r.id === state.currentRealmId) || null;
@@ -866,6 +872,43 @@ export async function gatherPromptContext(
     symbolismContext = undefined;
   }
 
+  // In-world date and character ages as of the latest chapter
+  let calendarContext: string | undefined;
+  try {
+    calendarContext = buildCalendarContext(state);
+  } catch (error) {
+    console.warn('Error generating calendar context:', error);
+    calendarContext = undefined;
+  }
+
+  // What the viewpoint character knows and has not witnessed
+  let povContext: string | undefined;
+  try {
+    povContext = buildPovContext(state, povCharacterId);
+  } catch (error) {
+    console.warn('Error generating POV context:', error);
+    povContext = undefined;
+  }
+
+  // Geography between the locations in play (last chapter and active arc)
+  let geographyContext: string | undefined;
+  try {
+    const locationText = [previousChapter?.content, activeArc?.description].filter(Boolean).join('\n');
+    geographyContext = buildGeographyContext(state, locationText);
+  } catch (error) {
+    console.warn('Error generating geography context:', error);
+    geographyContext = undefined;
+  }
+
+  // Where the previous book of the series ended (opening chapters of a sequel)
+  let seriesContext: string | undefined;
+  try {
+    seriesContext = buildSeriesContext(state);
+  } catch (error) {
+    console.warn('Error generating series context:', error);
+    seriesContext = undefined;
+  }
+
   // Extract Grand Saga characters
   let grandSagaCharacters: Character[] | undefined;
   let grandSagaExtractedNames: Array<{ name: string; confidence: number; context: string }> | undefined;
@@ -1057,6 +1100,10 @@ export async function gatherPromptContext(
     emotionalPayoffContext,
     pacingContext,
     symbolismContext,
+    geographyContext,
+    calendarContext,
+    povContext,
+    seriesContext,
     arcContext,
     antagonistContext,
     systemContext,
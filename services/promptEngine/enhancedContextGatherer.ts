@@ -97,7 +97,7 @@ export async function gatherEnhancedPromptContext(
     enhancedContext.powerProgression = buildPowerProgressionContext(
       retrievedContext.powerLevelProgression,
       graphService,
-      getPowerLevelSystem()
+      getPowerLevelSystem(state)
     );
   }
 
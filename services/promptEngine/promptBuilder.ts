@@ -7,6 +7,7 @@ import { analyzePromptForCaching } from '../promptCacheAnalyzer';
 import { createCacheMetadata } from '../promptCacheService';
 import type { CacheProvider } from '../../types/cache';
 import { getContextLimitsForModel, type ModelProvider } from '../contextWindowManager';
+import { resolveNextChapterPov } from '../povService';
 
 /**
  * Prompt Builder
@@ -215,6 +216,7 @@ export async function buildPrompt(
     includeFullCharacterProgression: modelLimits?.includeFullCharacterProgression ?? false,
     includeAllActiveThreads: modelLimits?.includeAllActiveThreads ?? false,
     includeFullChapterText: modelLimits?.includeFullChapterText ?? false,
+    povCharacterId: resolveNextChapterPov(state, task.userInstruction)?.id,
   });
 
   // Get prompt rules
@@ -517,6 +519,30 @@ export async function buildPrompt(
     promptSections.push('');
   }
 
+  // 7.10.1. In-World Time Context (current date and character ages)
+  if (context.calendarContext) {
+    promptSections.push(context.calendarContext);
+    promptSections.push('');
+  }
+
+  // 7.10.2. Viewpoint Context (POV character's knowledge and blind spots)
+  if (context.povContext) {
+    promptSections.push(context.povContext);
+    promptSections.push('');
+  }
+
+  // 7.10.3. Geography Context (distances and routes between locations in play)
+  if (context.geographyContext) {
+    promptSections.push(context.geographyContext);
+    promptSections.push('');
+  }
+
+  // 7.10.4. Series Context (where the previous book ended)
+  if (context.seriesContext) {
+    promptSections.push(context.seriesContext);
+    promptSections.push('');
+  }
+
   // 7.11. Face Graph Context (Social Network Memory - Karma, Feuds, Debts)
   if (context.faceGraphContext) {
     promptSections.push(context.faceGraphContext);
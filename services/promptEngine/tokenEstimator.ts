@@ -1,30 +1,65 @@
 /**
  * Token Estimator
- * Provides utilities to estimate token usage for prompts
- * Rough estimate: 1 token ≈ 4 characters for English text
+ * Counts prompt tokens with a bundled BPE tokenizer chosen per provider, so
+ * budgets hold for CJK cultivation terms and names where chars/4 undercounts.
  */
 
+import { countTokens as countO200kTokens } from 'gpt-tokenizer/encoding/o200k_base';
+import { countTokens as countCl100kTokens } from 'gpt-tokenizer/encoding/cl100k_base';
+import type { LlmProviderKind } from '../../types/llmProviders';
+
+type TokenCounter = (text: string) => number;
+
+// Prompts are user text: special-token markers are counted as ordinary text instead of throwing
+const PLAIN_TEXT = { disallowedSpecial: new Set<string>() };
+
+const o200k: TokenCounter = text => countO200kTokens(text, PLAIN_TEXT);
+const cl100k: TokenCounter = text => countCl100kTokens(text, PLAIN_TEXT);
+
 /**
- * Estimates token count for a given text
- * Uses rough approximation: 1 token ≈ 4 characters
+ * Closest bundled vocabulary for each provider kind. DeepSeek's ~128K byte-level
+ * BPE tracks cl100k; Gemini's 256K SentencePiece vocabulary and current
+ * OpenAI-compatible models track the larger multilingual o200k.
+ */
+const TOKENIZER_BY_PROVIDER: Record<LlmProviderKind, TokenCounter> = {
+  deepseek: cl100k,
+  gemini: o200k,
+  'openai-compatible': o200k,
+  mock: o200k,
+};
+
+/** Provider whose tokenizer is used when the caller does not name one (the default writer) */
+export const DEFAULT_TOKENIZER_PROVIDER: LlmProviderKind = 'deepseek';
+
+/**
+ * Counts tokens in text using the tokenizer for the given provider kind
  */
-export function estimateTokens(text: string): number {
+export function countTokens(text: string, provider: LlmProviderKind = DEFAULT_TOKENIZER_PROVIDER): number {
   if (!text) return 0;
-  // Rough estimate: 1 token ≈ 4 characters for English
-  // Add 20% buffer for JSON formatting, special characters, etc.
-  return Math.ceil(text.length / 4 * 1.2);
+  return TOKENIZER_BY_PROVIDER[provider](text);
+}
+
+/**
+ * Estimates token count for a given text
+ * Kept for existing callers; delegates to the provider tokenizer
+ */
+export function estimateTokens(text: string, provider?: LlmProviderKind): number {
+  return countTokens(text, provider);
 }
 
 /**
  * Estimates total token usage for a built prompt
  */
-export function estimatePromptTokens(prompt: { systemInstruction: string; userPrompt: string }): {
+export function estimatePromptTokens(
+  prompt: { systemInstruction: string; userPrompt: string },
+  provider?: LlmProviderKind
+): {
   systemTokens: number;
   userTokens: number;
   totalTokens: number;
 } {
-  const systemTokens = estimateTokens(prompt.systemInstruction);
-  const userTokens = estimateTokens(prompt.userPrompt);
+  const systemTokens = countTokens(prompt.systemInstruction, provider);
+  const userTokens = countTokens(prompt.userPrompt, provider);
   const totalTokens = systemTokens + userTokens;
 
   return {
@@ -36,8 +71,10 @@ export function estimatePromptTokens(prompt: { systemInstruction: string; userPr
 
 /**
  * Gets a warning message if token usage is high
+ * Accepts a token total or the prompt text itself, which is counted with the provider tokenizer
  */
-export function getTokenWarning(totalTokens: number): string | null {
+export function getTokenWarning(usage: number | string, provider?: LlmProviderKind): string | null {
+  const totalTokens = typeof usage === 'string' ? countTokens(usage, provider) : usage;
   if (totalTokens > 80000) {
     return '⚠️ Very high token usage (>80k). This may hit rate limits or be expensive.';
   } else if (totalTokens > 50000) {
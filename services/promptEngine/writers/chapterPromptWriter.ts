@@ -14,6 +14,7 @@ import { validateChapterGenerationQuality, checkOriginalityPreparation } from '.
 import { getContextLimitsForModel, type ModelProvider } from '../../contextWindowManager';
 import { detectEconomicScene, formatMarketForPrompt } from '../../market/marketService';
 import { suggestThreadResolutions } from '../../storyThreadService';
+import { resolveNextChapterPov } from '../../povService';
 
 /**
  * Chapter Prompt Writer
@@ -99,7 +100,12 @@ export async function buildChapterPrompt(
     ? `ACTIVE ARC FOCUS: "${activeArc.title}"\nArc intent: ${activeArc.description}\n${arcStageHint}\nThis chapter MUST advance this arc in a concrete way (new obstacle, new leverage, a decisive choice, or a measurable escalation of stakes).`
     : 'ACTIVE ARC FOCUS: None. Advance the Grand Saga through meaningful plot and character movement.';
 
-  const protagonistDirective = protagonists.length > 0
+  // Ensemble novels name a viewpoint character; it replaces the protagonist anchor
+  const povCharacter = resolveNextChapterPov(state, userInstruction);
+  const ensemblePov = povCharacter && (protagonists.length !== 1 || povCharacter.id !== protagonists[0].id);
+  const protagonistDirective = ensemblePov
+    ? `VIEWPOINT CHARACTER: ${povCharacter.name}\nTell this chapter from ${povCharacter.name}'s point of view. Do not head-hop into other characters' thoughts, and keep ${povCharacter.name}'s knowledge within what the [VIEWPOINT] context says they know.`
+    : protagonists.length > 0
     ? `PROTAGONIST ANCHOR: ${protagonists.length === 1 ? protagonists[0].name : protagonists.map(p => p.name).join(', ')}\nKeep POV/scene focus centered on the protagonist’s goals, pressures, and consequential choices (unless the user instruction explicitly demands otherwise).`
     : 'PROTAGONIST ANCHOR: None specified.';
 
@@ -0,0 +1,176 @@
+/**
+ * Pronunciation Service
+ * Builds and stores the per-novel pronunciation lexicon: pinyin names and
+ * terms from the codex, techniques, items and world bible get a suggested
+ * English respelling, and the author's edits are kept across reseeding.
+ */
+
+import type { NovelState } from '../types';
+import type { PronunciationEntry, PronunciationSource } from '../types/pronunciation';
+import { logger } from './loggingService';
+
+const LEXICON_STORAGE_KEY = 'pronunciation_lexicon';
+
+/** Cultivation vocabulary seeded when the prose uses it */
+const GLOSSARY: Array<Omit<PronunciationEntry, 'source' | 'enabled'>> = [
+  { term: 'Dantian', alias: 'dahn-tyen', phoneme: 'tän.tʰjɛn' },
+  { term: 'Qi', alias: 'chee', phoneme: 'tɕʰi' },
+  { term: 'Xianxia', alias: 'shyen-shyah', phoneme: 'ɕjɛn.ɕja' },
+  { term: 'Wuxia', alias: 'woo-shyah', phoneme: 'u.ɕja' },
+  { term: 'Jianghu', alias: 'jyahng-hoo', phoneme: 'tɕjaŋ.xu' },
+  { term: 'Qigong', alias: 'chee-goong', phoneme: 'tɕʰi.kʊŋ' },
+  { term: 'Daoist', alias: 'dow-ist' },
+];
+
+const INITIALS = ['zh', 'ch', 'sh', 'b', 'p', 'm', 'f', 'd', 't', 'n', 'l', 'g', 'k', 'h', 'j', 'q', 'x', 'r', 'z', 'c', 's', 'y', 'w', ''];
+
+/** Pinyin finals and their English respelling, longest first */
+const FINALS: Array<[string, string]> = [
+  ['iang', 'yahng'], ['iong', 'yoong'], ['uang', 'wahng'],
+  ['ang', 'ahng'], ['eng', 'ung'], ['ing', 'ing'], ['ong', 'oong'],
+  ['ian', 'yen'], ['iao', 'yow'], ['uai', 'why'], ['uan', 'wahn'],
+  ['ai', 'eye'], ['ei', 'ay'], ['ao', 'ow'], ['ou', 'oh'], ['an', 'ahn'], ['en', 'un'], ['in', 'in'],
+  ['un', 'oon'], ['ia', 'yah'], ['ie', 'yeh'], ['iu', 'yo'], ['ua', 'wah'], ['uo', 'waw'], ['ui', 'way'],
+  ['ue', 'weh'], ['er', 'ar'], ['a', 'ah'], ['o', 'aw'], ['e', 'uh'], ['i', 'ee'], ['u', 'oo'], ['ü', 'ew'], ['v', 'ew'],
+];
+
+const INITIAL_SOUNDS: Record<string, string> = { x: 'sh', q: 'ch', zh: 'j', c: 'ts' };
+
+/** Finals English readers reliably get wrong */
+const DISTINCTIVE_FINALS = new Set(['iang', 'iong', 'ong', 'eng', 'ian', 'iao', 'ai', 'ei', 'ao', 'ou', 'iu', 'uo', 'ui', 'ue']);
+
+/** English words that happen to parse as pinyin */
+const ENGLISH_WORDS = new Set(['long', 'song', 'gong', 'dong', 'tong', 'pong', 'bong', 'you', 'due', 'sue', 'cue', 'hue', 'lou', 'cou']);
+
+interface Syllable {
+  initial: string;
+  final: string;
+}
+
+/**
+ * Split a word into pinyin syllables, or null if it is not pinyin
+ */
+function segmentPinyin(word: string): Syllable[] | null {
+  const lower = word.toLowerCase();
+  const memo = new Map<number, Syllable[] | null>();
+  const from = (index: number): Syllable[] | null => {
+    if (index === lower.length) return [];
+    if (memo.has(index)) return memo.get(index)!;
+    let result: Syllable[] | null = null;
+    for (const initial of INITIALS) {
+      if (!lower.startsWith(initial, index)) continue;
+      for (const [final] of FINALS) {
+        if (!lower.startsWith(final, index + initial.length)) continue;
+        const rest = from(index + initial.length + final.length);
+        if (rest) {
+          result = [{ initial, final }, ...rest];
+          break;
+        }
+      }
+      if (result) break;
+    }
+    memo.set(index, result);
+    return result;
+  };
+  return from(0);
+}
+
+function respellSyllable({ initial, final }: Syllable): string {
+  // y- and w- already carry the glide the final would add
+  if (initial === 'y' && final === 'an') return 'yen';
+  if (initial === 'y' && final === 'e') return 'yeh';
+  if (initial === 'y' && (final === 'i' || final === 'in' || final === 'ing')) return `y${FINALS.find(f => f[0] === final)![1]}`;
+  if (initial === 'w' && final === 'o') return 'waw';
+  if (['z', 'c', 's', 'zh', 'ch', 'sh', 'r'].includes(initial) && final === 'i') {
+    return `${INITIAL_SOUNDS[initial] ?? initial}ih`;
+  }
+  const sound = FINALS.find(f => f[0] === final)![1];
+  return (INITIAL_SOUNDS[initial] ?? initial) + sound;
+}
+
+/**
+ * Suggested English respelling of a pinyin word, or null when the word is not
+ * pinyin or English readers would say it well enough as written
+ */
+export function suggestRespelling(word: string): string | null {
+  if (ENGLISH_WORDS.has(word.toLowerCase())) return null;
+  const syllables = segmentPinyin(word);
+  if (!syllables || syllables.length === 0) return null;
+  const distinctive = syllables.some(s => s.initial in INITIAL_SOUNDS || DISTINCTIVE_FINALS.has(s.final));
+  if (!distinctive) return null;
+  const respelled = syllables.map(respellSyllable).join('-');
+  return word[0] === word[0].toUpperCase() ? respelled[0].toUpperCase() + respelled.slice(1) : respelled;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Lexicon entries suggested by the novel's own names and terms
+ */
+export function seedLexicon(novel: NovelState): PronunciationEntry[] {
+  const seen = new Set<string>();
+  const entries: PronunciationEntry[] = [];
+  const add = (name: string | undefined, source: PronunciationSource) => {
+    for (const word of (name || '').split(/[^\p{L}']+/u)) {
+      const key = word.toLowerCase();
+      if (word.length < 2 || seen.has(key)) continue;
+      const alias = suggestRespelling(word);
+      if (!alias) continue;
+      seen.add(key);
+      entries.push({ term: word, alias, source, enabled: true });
+    }
+  };
+
+  (novel.characterCodex || []).forEach(c => add(c.name, 'character'));
+  (novel.novelTechniques || []).forEach(t => add(t.name, 'technique'));
+  (novel.novelItems || []).forEach(i => add(i.name, 'item'));
+  (novel.worldBible || []).forEach(w => add(w.title, 'world'));
+
+  const prose = (novel.chapters || []).map(ch => ch.content).join('\n');
+  for (const term of GLOSSARY) {
+    const key = term.term.toLowerCase();
+    if (seen.has(key)) {
+      // Prefer the curated respelling and IPA over the generated one
+      const existing = entries.find(e => e.term.toLowerCase() === key)!;
+      Object.assign(existing, term);
+      continue;
+    }
+    if (new RegExp(`\\b${escapeRegex(term.term)}\\b`, 'i').test(prose)) {
+      seen.add(key);
+      entries.push({ ...term, source: 'glossary', enabled: true });
+    }
+  }
+
+  return entries.sort((a, b) => a.term.localeCompare(b.term));
+}
+
+export function loadSavedLexicon(novelId: string): PronunciationEntry[] {
+  try {
+    const stored = localStorage.getItem(`${LEXICON_STORAGE_KEY}_${novelId}`);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    logger.warn('Failed to load pronunciation lexicon', 'pronunciation');
+  }
+  return [];
+}
+
+export function saveLexicon(novelId: string, entries: PronunciationEntry[]): void {
+  try {
+    localStorage.setItem(`${LEXICON_STORAGE_KEY}_${novelId}`, JSON.stringify(entries));
+  } catch (error) {
+    logger.warn('Failed to save pronunciation lexicon', 'pronunciation');
+  }
+}
+
+/**
+ * The novel's lexicon: saved entries as the author left them, plus seeds for
+ * names and terms added since
+ */
+export function getLexicon(novel: NovelState): PronunciationEntry[] {
+  const saved = loadSavedLexicon(novel.id);
+  const known = new Set(saved.map(e => e.term.toLowerCase()));
+  const fresh = seedLexicon(novel).filter(e => !known.has(e.term.toLowerCase()));
+  return [...saved, ...fresh];
+}
@@ -0,0 +1,146 @@
+/**
+ * Find and Replace
+ *
+ * Novel-wide find-and-replace over chapter text. Finding lists every hit with
+ * its surrounding text and the replacement it would get, so the writer can
+ * review and deselect hits before anything changes; applying rewrites only
+ * the selected hits whose text is still what was found.
+ */
+
+import type { Chapter, NovelState } from '../../types';
+import type { FindReplaceOptions, ReplaceField, ReplaceHit } from '../../types/search';
+import { AppError } from '../../utils/errorHandling';
+
+const CONTEXT_CHARS = 40;
+const MAX_HITS = 5000;
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function buildFindPattern(find: string, options: FindReplaceOptions = {}): RegExp {
+  if (!find) throw new AppError('Enter the text to find', 'INVALID_SEARCH_PATTERN');
+  let source = options.regex ? find : escapeRegex(find);
+  let flags = options.caseSensitive ? 'g' : 'gi';
+  if (options.wholeWord) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+    flags += 'u';
+  }
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new AppError(
+      `Invalid regular expression: ${error instanceof Error ? error.message : find}`,
+      'INVALID_SEARCH_PATTERN'
+    );
+  }
+}
+
+/** Expands $&, $1..$99, $<name> and $$ in a regex replacement */
+function expandReplacement(replacement: string, match: RegExpMatchArray): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const group = parseInt(ref, 10);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+}
+
+function inRange(chapter: Chapter, options: FindReplaceOptions): boolean {
+  const range = options.chapterRange;
+  if (!range) return true;
+  return (range.from === undefined || chapter.number >= range.from) && (range.to === undefined || chapter.number <= range.to);
+}
+
+export function findInNovel(
+  novel: NovelState,
+  find: string,
+  replace: string,
+  options: FindReplaceOptions = {}
+): ReplaceHit[] {
+  const pattern = buildFindPattern(find, options);
+  const fields: ReplaceField[] = options.fields?.length ? options.fields : ['content'];
+  const hits: ReplaceHit[] = [];
+
+  const chapters = [...novel.chapters].filter(c => inRange(c, options)).sort((a, b) => a.number - b.number);
+  for (const chapter of chapters) {
+    for (const field of fields) {
+      const text = chapter[field] || '';
+      for (const match of text.matchAll(pattern)) {
+        if (match[0].length === 0) continue;
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        hits.push({
+          id: `${chapter.id}:${field}:${start}`,
+          chapterId: chapter.id,
+          chapterNumber: chapter.number,
+          chapterTitle: chapter.title,
+          field,
+          start,
+          end,
+          match: match[0],
+          replacement: options.regex ? expandReplacement(replace, match) : replace,
+          before: text.slice(Math.max(0, start - CONTEXT_CHARS), start).replace(/^.*\n/s, ''),
+          after: text.slice(end, end + CONTEXT_CHARS).replace(/\n.*$/s, ''),
+        });
+        if (hits.length >= MAX_HITS) return hits;
+      }
+    }
+  }
+
+  return hits;
+}
+
+export interface ReplaceOutcome {
+  /** Chapters with at least one replacement, already rewritten */
+  chapters: Chapter[];
+  applied: number;
+  /** Hits whose text had changed since they were found */
+  skipped: number;
+}
+
+export function applyReplacements(novel: NovelState, hits: ReplaceHit[]): ReplaceOutcome {
+  const byChapter = new Map<string, ReplaceHit[]>();
+  hits.forEach(hit => byChapter.set(hit.chapterId, [...(byChapter.get(hit.chapterId) ?? []), hit]));
+
+  const chapters: Chapter[] = [];
+  let applied = 0;
+  let skipped = 0;
+
+  byChapter.forEach((chapterHits, chapterId) => {
+    const chapter = novel.chapters.find(c => c.id === chapterId);
+    if (!chapter) {
+      skipped += chapterHits.length;
+      return;
+    }
+
+    const updated: Chapter = { ...chapter };
+    let changed = false;
+    (['title', 'summary', 'content'] as ReplaceField[]).forEach(field => {
+      // Last hit first, so earlier offsets stay valid; overlapping hits are skipped
+      const fieldHits = chapterHits.filter(h => h.field === field).sort((a, b) => b.start - a.start);
+      let text = updated[field] || '';
+      let limit = Infinity;
+      fieldHits.forEach(hit => {
+        if (hit.end > limit || text.slice(hit.start, hit.end) !== hit.match) {
+          skipped++;
+          return;
+        }
+        text = text.slice(0, hit.start) + hit.replacement + text.slice(hit.end);
+        limit = hit.start;
+        applied++;
+        changed = true;
+      });
+      updated[field] = text;
+    });
+
+    if (!changed) return;
+    if (updated.wordCount !== undefined) {
+      updated.wordCount = updated.content.split(/\s+/).filter(x => x).length;
+    }
+    chapters.push(updated);
+  });
+
+  return { chapters, applied, skipped };
+}
@@ -0,0 +1,99 @@
+/**
+ * Search Query Parser
+ *
+ * Splits a search box query into terms, phrases, exclusions, filters and a
+ * regular expression (see ParsedSearchQuery for the syntax).
+ */
+
+import type { ChapterRange, ParsedSearchQuery, SearchDocumentType } from '../../types/search';
+import { tokenize } from './searchIndex';
+
+const TYPE_ALIASES: Record<string, SearchDocumentType> = {
+  chapter: 'chapter',
+  chapters: 'chapter',
+  scene: 'scene',
+  scenes: 'scene',
+  character: 'character',
+  characters: 'character',
+  world: 'world',
+  lore: 'world',
+};
+
+// A regex literal, an optionally negated quoted phrase, or any other word
+const QUERY_TOKEN = /\/((?:\\.|[^/\\])+)\/([a-z]*)|(-?)"([^"]*)"?|\S+/g;
+
+/** `10`, `10..40`, `10-40`, `10..` or `..40` */
+export function parseChapterRange(value: string): ChapterRange | null {
+  const match = value.match(/^(\d*)(?:(\.\.|-)(\d*))?$/);
+  if (!match || (!match[1] && !match[3])) return null;
+  const from = match[1] ? parseInt(match[1], 10) : undefined;
+  if (!match[2]) return { from, to: from };
+  const to = match[3] ? parseInt(match[3], 10) : undefined;
+  if (from !== undefined && to !== undefined && from > to) return { from: to, to: from };
+  return { from, to };
+}
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+    types: [],
+    errors: [],
+  };
+
+  for (const match of query.matchAll(QUERY_TOKEN)) {
+    const [token, regexSource, regexFlags, negation, phrase] = match;
+
+    if (regexSource !== undefined) {
+      try {
+        // Searching always scans every match
+        parsed.regex = new RegExp(regexSource, regexFlags.replace(/[gy]/g, '') + 'g');
+      } catch (error) {
+        parsed.errors.push(`Invalid regular expression: ${error instanceof Error ? error.message : regexSource}`);
+      }
+      continue;
+    }
+
+    if (phrase !== undefined) {
+      const words = tokenize(phrase);
+      if (words.length === 0) continue;
+      const target = negation ? parsed.excludedPhrases : parsed.phrases;
+      target.push(words.join(' '));
+      continue;
+    }
+
+    const field = token.match(/^(type|chapter|ch):(.+)$/i);
+    if (field) {
+      const [, name, value] = field;
+      if (name.toLowerCase() === 'type') {
+        const type = TYPE_ALIASES[value.toLowerCase()];
+        if (type) {
+          if (!parsed.types.includes(type)) parsed.types.push(type);
+        } else {
+          parsed.errors.push(`Unknown type "${value}" (use chapter, scene, character or world)`);
+        }
+      } else {
+        const range = parseChapterRange(value);
+        if (range) parsed.chapterRange = range;
+        else parsed.errors.push(`Invalid chapter range "${value}" (use chapter:10 or chapter:10..40)`);
+      }
+      continue;
+    }
+
+    if (token.startsWith('-') && token.length > 1) {
+      parsed.excludedTerms.push(...tokenize(token.slice(1)));
+      continue;
+    }
+
+    parsed.terms.push(...tokenize(token));
+  }
+
+  return parsed;
+}
+
+/** Whether the query asks for anything beyond filters */
+export function hasSearchCriteria(parsed: ParsedSearchQuery): boolean {
+  return parsed.terms.length > 0 || parsed.phrases.length > 0 || parsed.regex !== undefined;
+}
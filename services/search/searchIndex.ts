@@ -0,0 +1,238 @@
+/**
+ * Search Index
+ *
+ * Incremental inverted index over a novel's chapters, scenes, characters and
+ * world entries. Each term maps to the documents containing it, weighted by
+ * the field it appears in. Documents are re-tokenized only when the object
+ * they were built from changes, so syncing after an edit touches one chapter.
+ */
+
+import type { Chapter, NovelState } from '../../types';
+import type { SearchDocumentType } from '../../types/search';
+
+export type SearchField = 'title' | 'summary' | 'content';
+
+/** Weight of a term occurrence per field: a hit in a title outranks many in prose */
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  summary: 5,
+  content: 1,
+};
+
+export interface SearchDocument {
+  /** `type:id` */
+  key: string;
+  type: SearchDocumentType;
+  id: string;
+  title: string;
+  /** Chapter a chapter or scene document belongs to */
+  chapterId?: string;
+  chapterNumber?: number;
+  fields: Record<SearchField, string>;
+  /** Entity the document was built from; a new object means it changed */
+  source: object;
+}
+
+interface IndexedDocument extends SearchDocument {
+  termWeights: Map<string, number>;
+  /** Weighted number of terms, for length normalization */
+  length: number;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export function tokenize(text: string): string[] {
+  return (text || '').toLowerCase().match(WORD) ?? [];
+}
+
+function chapterDocuments(chapter: Chapter): SearchDocument[] {
+  return [
+    {
+      key: `chapter:${chapter.id}`,
+      type: 'chapter',
+      id: chapter.id,
+      title: `Chapter ${chapter.number}: ${chapter.title}`,
+      chapterId: chapter.id,
+      chapterNumber: chapter.number,
+      fields: { title: chapter.title, summary: chapter.summary, content: chapter.content },
+      source: chapter,
+    },
+    ...(chapter.scenes ?? []).map((scene): SearchDocument => ({
+      key: `scene:${scene.id}`,
+      type: 'scene',
+      id: scene.id,
+      title: `Ch ${chapter.number}, Scene ${scene.number}: ${scene.title || 'Untitled'}`,
+      chapterId: chapter.id,
+      chapterNumber: chapter.number,
+      fields: { title: scene.title, summary: scene.summary, content: scene.content },
+      source: scene,
+    })),
+  ];
+}
+
+export function documentsFromNovel(novel: NovelState): SearchDocument[] {
+  return [
+    ...novel.chapters.flatMap(chapterDocuments),
+    ...novel.characterCodex.map((character): SearchDocument => ({
+      key: `character:${character.id}`,
+      type: 'character',
+      id: character.id,
+      title: character.name,
+      fields: {
+        title: character.name,
+        summary: character.currentCultivation,
+        content: [character.notes, character.personality].filter(Boolean).join('\n'),
+      },
+      source: character,
+    })),
+    ...novel.worldBible.map((entry): SearchDocument => ({
+      key: `world:${entry.id}`,
+      type: 'world',
+      id: entry.id,
+      title: `${entry.category}: ${entry.title}`,
+      fields: { title: entry.title, summary: '', content: entry.content },
+      source: entry,
+    })),
+  ];
+}
+
+export class SearchIndex {
+  private docs = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number>>();
+  /** Sorted terms for prefix lookups; rebuilt when the vocabulary changes */
+  private vocabulary: string[] | null = null;
+  private totalLength = 0;
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  get averageLength(): number {
+    return this.docs.size > 0 ? this.totalLength / this.docs.size : 0;
+  }
+
+  getDocument(key: string): SearchDocument | undefined {
+    return this.docs.get(key);
+  }
+
+  documentLength(key: string): number {
+    return this.docs.get(key)?.length ?? 0;
+  }
+
+  documents(): SearchDocument[] {
+    return [...this.docs.values()];
+  }
+
+  upsert(doc: SearchDocument): void {
+    this.remove(doc.key);
+
+    const termWeights = new Map<string, number>();
+    let length = 0;
+    (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+      const weight = FIELD_WEIGHTS[field];
+      tokenize(doc.fields[field]).forEach(term => {
+        termWeights.set(term, (termWeights.get(term) ?? 0) + weight);
+        length += weight;
+      });
+    });
+
+    termWeights.forEach((weight, term) => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+        this.vocabulary = null;
+      }
+      posting.set(doc.key, weight);
+    });
+
+    this.docs.set(doc.key, { ...doc, termWeights, length });
+    this.totalLength += length;
+  }
+
+  remove(key: string): void {
+    const doc = this.docs.get(key);
+    if (!doc) return;
+    doc.termWeights.forEach((_, term) => {
+      const posting = this.postings.get(term);
+      if (!posting) return;
+      posting.delete(key);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+        this.vocabulary = null;
+      }
+    });
+    this.totalLength -= doc.length;
+    this.docs.delete(key);
+  }
+
+  /** Re-indexes the documents that changed and drops the ones that are gone */
+  sync(documents: SearchDocument[]): void {
+    const seen = new Set<string>();
+    documents.forEach(doc => {
+      seen.add(doc.key);
+      const existing = this.docs.get(doc.key);
+      if (!existing || existing.source !== doc.source || existing.chapterNumber !== doc.chapterNumber) {
+        this.upsert(doc);
+      }
+    });
+    [...this.docs.keys()].forEach(key => {
+      if (!seen.has(key)) this.remove(key);
+    });
+  }
+
+  /** Re-indexes one chapter and its scenes, dropping scenes it no longer has */
+  syncChapter(chapter: Chapter): void {
+    const documents = chapterDocuments(chapter);
+    const current = new Set(documents.map(doc => doc.key));
+    const stale = [...this.docs.values()].filter(doc => doc.chapterId === chapter.id && !current.has(doc.key));
+    stale.forEach(doc => this.remove(doc.key));
+    documents.forEach(doc => this.upsert(doc));
+  }
+
+  /** Documents containing exactly this term, with its weighted frequency */
+  exact(term: string): ReadonlyMap<string, number> {
+    return this.postings.get(term) ?? new Map();
+  }
+
+  /** Indexed terms starting with `prefix`, including the prefix itself */
+  expand(prefix: string): string[] {
+    if (!this.vocabulary) this.vocabulary = [...this.postings.keys()].sort();
+    const vocabulary = this.vocabulary;
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vocabulary[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+    const terms: string[] = [];
+    for (let i = low; i < vocabulary.length && vocabulary[i].startsWith(prefix); i++) {
+      terms.push(vocabulary[i]);
+    }
+    return terms;
+  }
+}
+
+const indexes = new Map<string, SearchIndex>();
+
+/** The novel's index, brought up to date with its current state */
+export function getSearchIndex(novel: NovelState): SearchIndex {
+  let index = indexes.get(novel.id);
+  if (!index) {
+    index = new SearchIndex();
+    indexes.set(novel.id, index);
+  }
+  index.sync(documentsFromNovel(novel));
+  return index;
+}
+
+/** Updates a saved chapter in the novel's index, if one has been built */
+export function indexChapter(novelId: string, chapter: Chapter): void {
+  indexes.get(novelId)?.syncChapter(chapter);
+}
+
+export function clearSearchIndex(novelId?: string): void {
+  if (novelId) indexes.delete(novelId);
+  else indexes.clear();
+}
@@ -1,153 +1,207 @@
-import { NovelState, Chapter, Scene, Character, WorldEntry } from '../types';
+import { NovelState } from '../types';
+import type { ParsedSearchQuery, SearchDocumentType } from '../types/search';
+import { parseSearchQuery, hasSearchCriteria } from './search/queryParser';
+import { FIELD_WEIGHTS, SearchDocument, SearchField, SearchIndex, getSearchIndex } from './search/searchIndex';
+
+export { parseSearchQuery } from './search/queryParser';
+export { indexChapter, clearSearchIndex } from './search/searchIndex';
+export { findInNovel, applyReplacements } from './search/findReplace';
 
 export interface SearchResult {
-  type: 'chapter' | 'scene' | 'character' | 'world';
+  type: SearchDocumentType;
   id: string;
   title: string;
   content: string;
   matchScore: number;
   context?: string;
+  /** Occurrences of the query in the document's text */
+  hitCount?: number;
 }
 
 export interface SearchOptions {
   query: string;
-  types?: ('chapter' | 'scene' | 'character' | 'world')[];
+  types?: SearchDocumentType[];
   limit?: number;
 }
 
-export const searchNovel = (novel: NovelState, options: SearchOptions): SearchResult[] => {
-  const { query, types = ['chapter', 'scene', 'character', 'world'], limit = 50 } = options;
-  const lowerQuery = query.toLowerCase();
-  const results: SearchResult[] = [];
+const FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+/** BM25 term saturation and length normalization */
+const K1 = 1.2;
+const B = 0.75;
+/** Share of the score a term gets for words it only starts */
+const PREFIX_WEIGHT = 0.5;
+const MAX_COUNTED_HITS = 999;
+
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+const WORD_END = '(?![\\p{L}\\p{N}])';
 
-  if (types.includes('chapter')) {
-    novel.chapters.forEach(chapter => {
-      const titleMatch = chapter.title.toLowerCase().includes(lowerQuery);
-      const contentMatch = chapter.content.toLowerCase().includes(lowerQuery);
-      const summaryMatch = chapter.summary.toLowerCase().includes(lowerQuery);
-      
-      if (titleMatch || contentMatch || summaryMatch) {
-        let matchScore = 0;
-        if (titleMatch) matchScore += 10;
-        if (summaryMatch) matchScore += 5;
-        if (contentMatch) matchScore += 1;
-        
-        // Find context around match
-        let context = '';
-        if (contentMatch) {
-          const index = chapter.content.toLowerCase().indexOf(lowerQuery);
-          const start = Math.max(0, index - 50);
-          const end = Math.min(chapter.content.length, index + query.length + 50);
-          context = chapter.content.substring(start, end);
-          if (start > 0) context = '...' + context;
-          if (end < chapter.content.length) context = context + '...';
-        }
-        
-        results.push({
-          type: 'chapter',
-          id: chapter.id,
-          title: `Chapter ${chapter.number}: ${chapter.title}`,
-          content: chapter.summary || chapter.content.substring(0, 200),
-          matchScore,
-          context
-        });
-      }
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Matches a phrase's words in order, separated by anything that is not a word */
+function phrasePattern(phrase: string): RegExp {
+  const words = phrase.split(' ').map(escapeRegex).join('[^\\p{L}\\p{N}]+');
+  return new RegExp(`${WORD_START}${words}${WORD_END}`, 'giu');
+}
+
+/** Pattern used to locate the query in a document, for context and hit counts */
+function highlightPattern(parsed: ParsedSearchQuery): RegExp {
+  if (parsed.phrases.length > 0) return phrasePattern(parsed.phrases[0]);
+  if (parsed.regex) return parsed.regex;
+  return new RegExp(`${WORD_START}(?:${parsed.terms.map(escapeRegex).join('|')})`, 'giu');
+}
+
+function fieldsMatch(doc: SearchDocument, pattern: RegExp): number {
+  return FIELDS.reduce((score, field) => {
+    pattern.lastIndex = 0;
+    return pattern.test(doc.fields[field] || '') ? score + FIELD_WEIGHTS[field] : score;
+  }, 0);
+}
+
+function bm25(index: SearchIndex, key: string, weight: number, documentFrequency: number): number {
+  const idf = Math.log(1 + (index.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  const lengthRatio = index.averageLength > 0 ? index.documentLength(key) / index.averageLength : 1;
+  return idf * (weight * (K1 + 1)) / (weight + K1 * (1 - B + B * lengthRatio));
+}
+
+/** Scores of the documents containing a term, as a whole word or a word prefix */
+function termScores(index: SearchIndex, term: string): Map<string, number> {
+  const scores = new Map<string, number>();
+  index.expand(term).forEach(word => {
+    const postings = index.exact(word);
+    const share = word === term ? 1 : PREFIX_WEIGHT;
+    postings.forEach((weight, key) => {
+      scores.set(key, (scores.get(key) ?? 0) + share * bm25(index, key, weight, postings.size));
     });
+  });
+  return scores;
+}
+
+function phraseScores(index: SearchIndex, phrase: string): Map<string, number> {
+  const words = phrase.split(' ');
+  // Candidates contain every word; the text decides whether they are adjacent
+  let candidates: string[] = [...index.exact(words[0]).keys()];
+  words.slice(1).forEach(word => {
+    const postings = index.exact(word);
+    candidates = candidates.filter(key => postings.has(key));
+  });
+  const pattern = phrasePattern(phrase);
+  const scores = new Map<string, number>();
+  candidates.forEach(key => {
+    const doc = index.getDocument(key);
+    const fieldWeight = doc ? fieldsMatch(doc, pattern) : 0;
+    if (fieldWeight === 0) return;
+    const wordScore = words.reduce((sum, word) => {
+      const postings = index.exact(word);
+      return sum + bm25(index, key, postings.get(key) ?? 0, postings.size);
+    }, 0);
+    // Phrases outrank the same words scattered through the text
+    scores.set(key, 2 * wordScore + fieldWeight);
+  });
+  return scores;
+}
+
+function intersect(current: Map<string, number> | null, next: Map<string, number>): Map<string, number> {
+  if (!current) return next;
+  const merged = new Map<string, number>();
+  current.forEach((score, key) => {
+    const other = next.get(key);
+    if (other !== undefined) merged.set(key, score + other);
+  });
+  return merged;
+}
+
+function contextAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 50);
+  const end = Math.min(text.length, index + length + 50);
+  let context = text.substring(start, end);
+  if (start > 0) context = '...' + context;
+  if (end < text.length) context = context + '...';
+  return context;
+}
+
+function preview(doc: SearchDocument): string {
+  switch (doc.type) {
+    case 'character':
+      return doc.fields.content || doc.fields.summary;
+    case 'world':
+      return doc.fields.content.substring(0, 200);
+    default:
+      return doc.fields.summary || doc.fields.content.substring(0, 200);
   }
+}
 
-  if (types.includes('scene')) {
-    novel.chapters.forEach(chapter => {
-      chapter.scenes.forEach(scene => {
-        const titleMatch = scene.title.toLowerCase().includes(lowerQuery);
-        const contentMatch = scene.content.toLowerCase().includes(lowerQuery);
-        const summaryMatch = scene.summary.toLowerCase().includes(lowerQuery);
-        
-        if (titleMatch || contentMatch || summaryMatch) {
-          let matchScore = 0;
-          if (titleMatch) matchScore += 10;
-          if (summaryMatch) matchScore += 5;
-          if (contentMatch) matchScore += 1;
-          
-          let context = '';
-          if (contentMatch) {
-            const index = scene.content.toLowerCase().indexOf(lowerQuery);
-            const start = Math.max(0, index - 50);
-            const end = Math.min(scene.content.length, index + query.length + 50);
-            context = scene.content.substring(start, end);
-            if (start > 0) context = '...' + context;
-            if (end < scene.content.length) context = context + '...';
-          }
-          
-          results.push({
-            type: 'scene',
-            id: scene.id,
-            title: `Ch ${chapter.number}, Scene ${scene.number}: ${scene.title || 'Untitled'}`,
-            content: scene.summary || scene.content.substring(0, 200),
-            matchScore,
-            context
-          });
-        }
-      });
-    });
+function inChapterRange(doc: SearchDocument, parsed: ParsedSearchQuery): boolean {
+  const range = parsed.chapterRange;
+  if (!range) return true;
+  // Characters and world entries are not tied to chapters
+  if (doc.chapterNumber === undefined) return false;
+  return (range.from === undefined || doc.chapterNumber >= range.from) && (range.to === undefined || doc.chapterNumber <= range.to);
+}
+
+export const searchNovel = (novel: NovelState, options: SearchOptions): SearchResult[] => {
+  const { query, types = ['chapter', 'scene', 'character', 'world'], limit = 50 } = options;
+  const parsed = parseSearchQuery(query);
+  if (!hasSearchCriteria(parsed)) return [];
+
+  const allowedTypes = parsed.types.length > 0 ? types.filter(t => parsed.types.includes(t)) : types;
+  const index = getSearchIndex(novel);
+
+  let scores: Map<string, number> | null = null;
+  for (const term of parsed.terms) {
+    scores = intersect(scores, termScores(index, term));
+  }
+  for (const phrase of parsed.phrases) {
+    scores = intersect(scores, phraseScores(index, phrase));
   }
 
-  if (types.includes('character')) {
-    novel.characterCodex.forEach(character => {
-      const nameMatch = character.name.toLowerCase().includes(lowerQuery);
-      const notesMatch = character.notes.toLowerCase().includes(lowerQuery);
-      const cultivationMatch = character.currentCultivation.toLowerCase().includes(lowerQuery);
-      
-      if (nameMatch || notesMatch || cultivationMatch) {
-        let matchScore = 0;
-        if (nameMatch) matchScore += 10;
-        if (cultivationMatch) matchScore += 5;
-        if (notesMatch) matchScore += 1;
-        
-        results.push({
-          type: 'character',
-          id: character.id,
-          title: character.name,
-          content: character.notes || `${character.currentCultivation} - ${character.personality}`,
-          matchScore
-        });
-      }
+  // A regular expression cannot use the index; it scans what the rest of the query left
+  const regex = parsed.regex;
+  if (regex) {
+    const candidates = scores ? [...scores.keys()] : index.documents().map(d => d.key);
+    const regexScores = new Map<string, number>();
+    candidates.forEach(key => {
+      const doc = index.getDocument(key);
+      if (!doc || !allowedTypes.includes(doc.type) || !inChapterRange(doc, parsed)) return;
+      const fieldWeight = fieldsMatch(doc, regex);
+      if (fieldWeight > 0) regexScores.set(key, fieldWeight);
     });
+    scores = intersect(scores, regexScores);
   }
 
-  if (types.includes('world')) {
-    novel.worldBible.forEach(entry => {
-      const titleMatch = entry.title.toLowerCase().includes(lowerQuery);
-      const contentMatch = entry.content.toLowerCase().includes(lowerQuery);
-      
-      if (titleMatch || contentMatch) {
-        let matchScore = 0;
-        if (titleMatch) matchScore += 10;
-        if (contentMatch) matchScore += 1;
-        
-        let context = '';
-        if (contentMatch) {
-          const index = entry.content.toLowerCase().indexOf(lowerQuery);
-          const start = Math.max(0, index - 50);
-          const end = Math.min(entry.content.length, index + query.length + 50);
-          context = entry.content.substring(start, end);
-          if (start > 0) context = '...' + context;
-          if (end < entry.content.length) context = context + '...';
-        }
-        
-        results.push({
-          type: 'world',
-          id: entry.id,
-          title: `${entry.category}: ${entry.title}`,
-          content: entry.content.substring(0, 200),
-          matchScore,
-          context
-        });
-      }
+  const excluded = new Set<string>();
+  parsed.excludedTerms.forEach(term => index.exact(term).forEach((_, key) => excluded.add(key)));
+  const excludedPatterns = parsed.excludedPhrases.map(phrasePattern);
+
+  const results: SearchResult[] = [];
+  const pattern = highlightPattern(parsed);
+  (scores ?? new Map<string, number>()).forEach((score, key) => {
+    const doc = index.getDocument(key);
+    if (!doc || excluded.has(key) || !allowedTypes.includes(doc.type) || !inChapterRange(doc, parsed)) return;
+    if (excludedPatterns.some(p => fieldsMatch(doc, p) > 0)) return;
+
+    let context: string | undefined;
+    let hitCount = 0;
+    for (const match of doc.fields.content.matchAll(pattern)) {
+      if (!match[0]) continue;
+      if (hitCount === 0) context = contextAround(doc.fields.content, match.index ?? 0, match[0].length);
+      if (++hitCount >= MAX_COUNTED_HITS) break;
+    }
+
+    results.push({
+      type: doc.type,
+      id: doc.id,
+      title: doc.title,
+      content: preview(doc),
+      matchScore: Math.round(score * 100) / 100,
+      context,
+      hitCount,
     });
-  }
+  });
 
-  // Sort by match score and limit results
   return results
     .sort((a, b) => b.matchScore - a.matchScore)
     .slice(0, limit);
 };
+
@@ -0,0 +1,246 @@
+/**
+ * Secret Service
+ *
+ * The secrets ledger: who holds each secret as of a chapter, merging secret
+ * updates reported by chapter extraction, the who-knows-what matrix, and
+ * detection of dialogue that gives a secret away to someone who should not
+ * hear it.
+ */
+
+import type { Chapter, Character, NovelState } from '../types';
+import type { Secret, SecretHolder, SecretUpdate } from '../types/secrets';
+import { textContainsCharacterName } from '../utils/characterNameMatching';
+import { generateUUID } from '../utils/uuid';
+
+const QUOTE_PATTERN = /["“]([^"”]{3,})["”]/g;
+const SPEECH_VERBS = /\b(?:said|says|asked|asks|whispered|whispers|murmured|replied|answered|shouted|hissed|muttered|told|continued|added|explained|admitted|confessed)\b/i;
+/** Characters either side of a quote searched for its dialogue tag */
+const TAG_WINDOW = 80;
+
+export interface SecretMatrixCell {
+  knows: boolean;
+  revealedInChapter?: number;
+  how?: SecretHolder['how'] | 'public';
+}
+
+export interface SecretLeak {
+  secretId: string;
+  secretTitle: string;
+  chapterNumber: number;
+  quote: string;
+  keyword: string;
+  speakerName?: string;
+  /** Characters who heard the line without holding the secret */
+  listenerNames: string[];
+  /** The speaker does not hold the secret either */
+  speakerUnaware: boolean;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function findCharacter(characters: Character[], name: string | undefined): Character | undefined {
+  if (!name || !name.trim()) return undefined;
+  return characters.find(c => sameName(c.name, name)) ||
+    characters.find(c => textContainsCharacterName(name, c.name));
+}
+
+/**
+ * Whether a character holds a secret by the given chapter: as a recorded
+ * holder, or because it has become public knowledge
+ */
+export function holdsSecret(secret: Secret, characterId: string, chapterNumber: number): boolean {
+  if (secret.status === 'revealed' && (secret.publiclyRevealedInChapter ?? 0) <= chapterNumber) return true;
+  return secret.holders.some(h => h.characterId === characterId && h.revealedInChapter <= chapterNumber);
+}
+
+/**
+ * Merge secret updates from a chapter into the ledger. Secrets are matched by
+ * title; holders are added once, keeping the earliest chapter they learned it.
+ */
+export function applySecretUpdates(
+  secrets: Secret[],
+  updates: SecretUpdate[],
+  characters: Character[],
+  chapterNumber: number
+): { secrets: Secret[]; changes: string[] } {
+  const merged = [...secrets];
+  const changes: string[] = [];
+  const now = Date.now();
+
+  updates.forEach(update => {
+    const title = String(update.title || '').trim();
+    if (!title) return;
+
+    const index = merged.findIndex(s => sameName(s.title, title));
+    const existing = index >= 0 ? merged[index] : undefined;
+    const secret: Secret = existing ? { ...existing, holders: [...existing.holders] } : {
+      id: generateUUID(),
+      title,
+      description: update.description || '',
+      category: update.category || 'other',
+      keywords: [],
+      status: 'hidden',
+      holders: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (existing && update.description) secret.description = update.description;
+    if (update.category) secret.category = update.category;
+    if (update.keywords?.length) {
+      secret.keywords = [...new Set([...secret.keywords, ...update.keywords.map(k => k.trim()).filter(Boolean)])];
+    }
+    const subject = findCharacter(characters, update.subjectName);
+    if (subject) secret.subjectCharacterId = subject.id;
+    if (update.status && update.status !== secret.status) {
+      secret.status = update.status;
+      if (update.status === 'revealed') secret.publiclyRevealedInChapter = chapterNumber;
+      changes.push(`Secret "${title}" is now ${update.status.replace('_', ' ')}`);
+    }
+
+    (update.learnedBy || []).forEach(entry => {
+      const character = findCharacter(characters, entry.characterName);
+      if (!character) return;
+      const holderIndex = secret.holders.findIndex(h => h.characterId === character.id);
+      if (holderIndex >= 0 && secret.holders[holderIndex].revealedInChapter <= chapterNumber) return;
+
+      const holder: SecretHolder = {
+        characterId: character.id,
+        revealedInChapter: chapterNumber,
+        how: entry.how || 'told',
+        toldByCharacterId: findCharacter(characters, entry.toldByName)?.id,
+      };
+      if (holderIndex >= 0) secret.holders[holderIndex] = holder;
+      else secret.holders.push(holder);
+      changes.push(`${character.name} learned "${title}"`);
+    });
+
+    secret.updatedAt = now;
+    if (existing) {
+      merged[index] = secret;
+    } else {
+      merged.push(secret);
+      changes.unshift(`Secret recorded: "${title}"`);
+    }
+  });
+
+  return { secrets: merged, changes };
+}
+
+/**
+ * Who knows what, as of a chapter: one row per secret, keyed by character id
+ */
+export function buildSecretMatrix(
+  state: NovelState,
+  chapterNumber = Math.max(...state.chapters.map(c => c.number), 0)
+): Map<string, Map<string, SecretMatrixCell>> {
+  const matrix = new Map<string, Map<string, SecretMatrixCell>>();
+  (state.secrets || []).forEach(secret => {
+    const row = new Map<string, SecretMatrixCell>();
+    state.characterCodex.forEach(character => {
+      const holder = secret.holders.find(h => h.characterId === character.id && h.revealedInChapter <= chapterNumber);
+      if (holder) {
+        row.set(character.id, { knows: true, revealedInChapter: holder.revealedInChapter, how: holder.how });
+      } else if (holdsSecret(secret, character.id, chapterNumber)) {
+        row.set(character.id, { knows: true, revealedInChapter: secret.publiclyRevealedInChapter, how: 'public' });
+      } else {
+        row.set(character.id, { knows: false });
+      }
+    });
+    matrix.set(secret.id, row);
+  });
+  return matrix;
+}
+
+function charactersIn(text: string, characters: Character[]): Character[] {
+  return characters.filter(c => c.name.trim().length > 1 && textContainsCharacterName(text, c.name));
+}
+
+/**
+ * Speaker of a quote: a character named beside a speech verb just after the
+ * quote, else just before it
+ */
+function findSpeaker(before: string, after: string, characters: Character[]): Character | undefined {
+  const afterTag = after.slice(0, TAG_WINDOW).split(/["“]/)[0];
+  if (SPEECH_VERBS.test(afterTag)) {
+    const tagged = charactersIn(afterTag, characters);
+    if (tagged.length > 0) return tagged[0];
+  }
+  // An action beat before the line ("Mo leaned closer.") names the speaker
+  const beforeTag = before.slice(-TAG_WINDOW).split(/["”]/).pop() || '';
+  return charactersIn(beforeTag, characters)[0];
+}
+
+/**
+ * Dialogue that mentions a secret in front of characters who do not hold it.
+ * Listeners are the characters named around the line, outside quotes. A
+ * holder recorded as learning the secret in this very chapter is not a leak.
+ */
+export function findSecretLeaks(chapter: Chapter, state: NovelState): SecretLeak[] {
+  const secrets = (state.secrets || []).filter(s => s.keywords.length > 0 && s.status !== 'revealed');
+  if (secrets.length === 0 || !chapter.content) return [];
+
+  const leaks: SecretLeak[] = [];
+  const reported = new Set<string>();
+  const paragraphs = chapter.content.split(/\n\s*\n/);
+  const narration = paragraphs.map(p => p.replace(QUOTE_PATTERN, ' '));
+  const povCharacter = state.characterCodex.find(c => c.id === chapter.povCharacterId);
+
+  paragraphs.forEach((paragraph, index) => {
+    const quotes = [...paragraph.matchAll(QUOTE_PATTERN)];
+    if (quotes.length === 0) return;
+
+    const nearby = [narration[index - 1], narration[index], narration[index + 1]].filter(Boolean).join('\n');
+    const present = charactersIn(nearby, state.characterCodex);
+    if (povCharacter && !present.includes(povCharacter)) present.push(povCharacter);
+
+    quotes.forEach(match => {
+      const quote = match[1];
+      const start = match.index ?? 0;
+      const speaker = findSpeaker(paragraph.slice(0, start), paragraph.slice(start + match[0].length), state.characterCodex);
+
+      secrets.forEach(secret => {
+        const keyword = secret.keywords.find(k => k.trim().length > 2 && quote.toLowerCase().includes(k.trim().toLowerCase()));
+        if (!keyword) return;
+
+        // Learning it in this chapter on the record is the reveal, not a leak
+        const knowsByNow = (id: string) => holdsSecret(secret, id, chapter.number);
+        const listeners = present.filter(c => c.id !== speaker?.id && !knowsByNow(c.id));
+        const speakerUnaware = !!speaker && !knowsByNow(speaker.id);
+        if (listeners.length === 0 && !speakerUnaware) return;
+
+        const key = `${secret.id}:${speaker?.id || ''}:${listeners.map(l => l.id).join(',')}`;
+        if (reported.has(key)) return;
+        reported.add(key);
+
+        leaks.push({
+          secretId: secret.id,
+          secretTitle: secret.title,
+          chapterNumber: chapter.number,
+          quote: quote.length > 120 ? `${quote.slice(0, 117)}...` : quote,
+          keyword,
+          speakerName: speaker?.name,
+          listenerNames: listeners.map(l => l.name),
+          speakerUnaware,
+        });
+      });
+    });
+  });
+
+  return leaks;
+}
+
+/** One-line description of a leak for validation reports */
+export function describeSecretLeak(leak: SecretLeak): string {
+  const speaker = leak.speakerName || 'A character';
+  const parts: string[] = [];
+  if (leak.listenerNames.length > 0) {
+    parts.push(`${speaker} reveals the secret "${leak.secretTitle}" in dialogue to ${leak.listenerNames.join(', ')}, who ${leak.listenerNames.length === 1 ? 'is' : 'are'} not recorded as knowing it`);
+  }
+  if (leak.speakerUnaware) {
+    parts.push(`${speaker} speaks of the secret "${leak.secretTitle}" without being recorded as knowing it`);
+  }
+  return `Chapter ${leak.chapterNumber}: ${parts.join('; ')} ("${leak.quote}")`;
+}
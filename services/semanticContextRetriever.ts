@@ -70,7 +70,7 @@ export class SemanticContextRetriever {
    */
   retrieveContext(state: NovelState, query: ContextQuery): RetrievedContext {
     const graphService = getKnowledgeGraphService();
-    const powerSystem = getPowerLevelSystem();
+    const powerSystem = getPowerLevelSystem(state);
 
     // Initialize graph if needed
     if (!graphService.getGraph()) {
@@ -0,0 +1,239 @@
+/**
+ * Sequel Service
+ *
+ * Starts the next book of a series from the state its predecessor ended in:
+ * the world, cast, techniques and ledgers are carried over under new ids, the
+ * cast takes the cultivation and status of the final lore bible, and the lore
+ * bible itself is kept on the sequel as its starting point.
+ */
+
+import type { Character, NovelState } from '../types';
+import type { LoreBible } from '../types/loreBible';
+import type { Secret } from '../types/secrets';
+import type { KnowledgeFact } from '../types/pov';
+import type { WorldMapState } from '../types/worldMap';
+import { buildLoreBible, formatLoreBibleCompact, readPersistedLoreBible } from './loreBible/loreBibleService';
+import { buildChapterTimeline, currentCharacterAges, getCalendar } from './calendarService';
+import { buildWitnessIndex, knowsFact } from './povService';
+import { generateUUID } from '../utils/uuid';
+
+/** Chapters of a sequel that are given the predecessor's ending in the prompt */
+const SERIES_CONTEXT_CHAPTERS = 3;
+
+/** Number of a novel's final chapter, which survives gaps left by deletions */
+function lastChapterNumber(novel: NovelState): number {
+  return Math.max(...novel.chapters.map(c => c.number), 0);
+}
+
+/**
+ * Lore bible at the end of a novel: the persisted one when it is current
+ * (it carries the Clerk's updates), otherwise rebuilt from the novel
+ */
+export function getFinalLoreBible(novel: NovelState): LoreBible {
+  const lastChapter = lastChapterNumber(novel);
+  const persisted = readPersistedLoreBible(novel.id);
+  if (persisted && persisted.asOfChapter === lastChapter) return persisted;
+  return buildLoreBible(novel, lastChapter);
+}
+
+function remap(ids: Map<string, string>, id: string | undefined): string | undefined {
+  return id ? ids.get(id) : undefined;
+}
+
+function fresh<T extends { id: string }>(items: T[] | undefined, ids: Map<string, string>): T[] {
+  return (items || []).map(item => {
+    const id = generateUUID();
+    ids.set(item.id, id);
+    return { ...item, id };
+  });
+}
+
+/** Cultivation written the way the codex writes it, e.g. "Nascent Soul (Middle)" */
+function formatCultivation(realm: string, stage: string): string {
+  if (!realm || realm === 'Unknown') return '';
+  return stage && stage !== 'Unknown' ? `${realm} (${stage})` : realm;
+}
+
+/**
+ * New novel continuing a finished one. Chapters, arcs and logs start empty;
+ * everything the story world holds at the end of the predecessor carries over.
+ */
+export function createSequel(
+  predecessor: NovelState,
+  title: string,
+  finalLoreBible: LoreBible = getFinalLoreBible(predecessor)
+): NovelState {
+  const now = Date.now();
+  const novelId = generateUUID();
+  const realmIds = new Map<string, string>();
+  const territoryIds = new Map<string, string>();
+  const worldEntryIds = new Map<string, string>();
+  const characterIds = new Map<string, string>();
+  const itemIds = new Map<string, string>();
+  const techniqueIds = new Map<string, string>();
+  const tagIds = new Map<string, string>();
+
+  const realms = fresh(predecessor.realms, realmIds);
+  const territories = fresh(predecessor.territories, territoryIds).map(territory => ({
+    ...territory,
+    realmId: remap(realmIds, territory.realmId) || '',
+    createdByChapterId: undefined,
+    lastUpdatedByChapterId: undefined,
+  }));
+  const worldBible = fresh(predecessor.worldBible, worldEntryIds).map(entry => ({
+    ...entry,
+    realmId: remap(realmIds, entry.realmId) || '',
+  }));
+  const novelItems = fresh(predecessor.novelItems, itemIds).map(item => ({ ...item, novelId, createdAt: now, updatedAt: now }));
+  const novelTechniques = fresh(predecessor.novelTechniques, techniqueIds).map(technique => ({
+    ...technique,
+    novelId,
+    createdAt: now,
+    updatedAt: now,
+    createdByChapterId: undefined,
+    lastUpdatedByChapterId: undefined,
+  }));
+
+  // Ages move on to the in-world day the predecessor ends on
+  const timeline = buildChapterTimeline(predecessor);
+  const finalDay = timeline[timeline.length - 1]?.day ?? getCalendar(predecessor).storyStartDay;
+  const ages = currentCharacterAges(predecessor);
+  predecessor.characterCodex.forEach(character => characterIds.set(character.id, generateUUID()));
+
+  const characterCodex: Character[] = predecessor.characterCodex.map(character => {
+    const id = characterIds.get(character.id)!;
+    const age = ages.get(character.id);
+    const snapshot = finalLoreBible.majorCharacters.find(c => c.id === character.id || c.name === character.name);
+    const isLoreProtagonist = finalLoreBible.protagonist.identity.name === character.name;
+    const cultivation = isLoreProtagonist
+      ? formatCultivation(finalLoreBible.protagonist.cultivation.realm, finalLoreBible.protagonist.cultivation.stage)
+      : snapshot?.cultivation;
+
+    return {
+      ...character,
+      id,
+      age: age !== undefined ? String(character.age ?? '').replace(/\d+/, String(age)) : character.age,
+      ageAnchorDay: age !== undefined ? finalDay : undefined,
+      currentCultivation: cultivation || character.currentCultivation,
+      status: snapshot?.status || character.status,
+      relationships: character.relationships
+        .filter(r => characterIds.has(r.characterId))
+        .map(r => ({ ...r, characterId: characterIds.get(r.characterId)! })),
+      techniqueMasteries: character.techniqueMasteries
+        ?.filter(m => techniqueIds.has(m.techniqueId))
+        .map(m => ({ ...m, id: generateUUID(), characterId: id, techniqueId: techniqueIds.get(m.techniqueId)!, learnedChapter: undefined })),
+      itemPossessions: character.itemPossessions
+        ?.filter(p => itemIds.has(p.itemId))
+        .map(p => ({ ...p, id: generateUUID(), characterId: id, itemId: itemIds.get(p.itemId)!, acquiredChapter: undefined })),
+      createdByChapterId: undefined,
+      lastUpdatedByChapterId: undefined,
+      updateHistory: undefined,
+    };
+  });
+
+  // Everything known by the end of the predecessor is known from the start
+  const secrets: Secret[] = (predecessor.secrets || []).map(secret => ({
+    ...secret,
+    id: generateUUID(),
+    subjectCharacterId: remap(characterIds, secret.subjectCharacterId),
+    publiclyRevealedInChapter: secret.status === 'revealed' ? 0 : undefined,
+    holders: secret.holders
+      .filter(h => characterIds.has(h.characterId))
+      .map(h => ({
+        ...h,
+        characterId: characterIds.get(h.characterId)!,
+        revealedInChapter: 0,
+        toldByCharacterId: remap(characterIds, h.toldByCharacterId),
+      })),
+  }));
+
+  const witnessIndex = buildWitnessIndex(predecessor);
+  const lastChapter = lastChapterNumber(predecessor);
+  const knowledgeFacts: KnowledgeFact[] = (predecessor.knowledgeFacts || []).map(fact => ({
+    ...fact,
+    id: generateUUID(),
+    occurredInChapter: undefined,
+    holders: predecessor.characterCodex
+      .filter(c => knowsFact(fact, c.id, lastChapter, witnessIndex))
+      .map(c => ({ characterId: characterIds.get(c.id)!, learnedInChapter: 0, source: fact.holders.find(h => h.characterId === c.id)?.source || 'witnessed' })),
+  }));
+
+  // Routes whose territories did not carry over are dropped
+  const worldMap: WorldMapState | undefined = predecessor.worldMap && {
+    canvases: predecessor.worldMap.canvases
+      .filter(canvas => realmIds.has(canvas.realmId))
+      .map(canvas => ({ ...canvas, realmId: realmIds.get(canvas.realmId)! })),
+    routes: predecessor.worldMap.routes
+      .filter(route => territoryIds.has(route.fromTerritoryId) && territoryIds.has(route.toTerritoryId))
+      .map(route => ({
+        ...route,
+        id: generateUUID(),
+        realmId: remap(realmIds, route.realmId) || '',
+        fromTerritoryId: territoryIds.get(route.fromTerritoryId)!,
+        toTerritoryId: territoryIds.get(route.toTerritoryId)!,
+      })),
+  };
+
+  // Power ladders keep their ids, so only the other collections are remapped
+  const linkedIds = { realms: realmIds, worldBible: worldEntryIds, characters: characterIds, techniques: techniqueIds };
+  const universeLink = predecessor.universeLink && {
+    ...predecessor.universeLink,
+    links: predecessor.universeLink.links.map(link => link.collection === 'powerSystems'
+      ? link
+      : { ...link, novelEntityId: linkedIds[link.collection].get(link.novelEntityId) || link.novelEntityId }),
+  };
+
+  return {
+    id: novelId,
+    title: title.trim() || `${predecessor.title} II`,
+    genre: predecessor.genre,
+    realms,
+    currentRealmId: remap(realmIds, predecessor.currentRealmId) || realms[0]?.id || '',
+    territories,
+    worldMap,
+    worldBible,
+    characterCodex,
+    novelItems,
+    novelTechniques,
+    plotLedger: [],
+    chapters: [],
+    grandSaga: '',
+    systemLogs: [],
+    tags: fresh(predecessor.tags, tagIds).map(tag => ({ ...tag, novelId, createdAt: now })),
+    writingGoals: [],
+    powerSystems: predecessor.powerSystems,
+    calendar: (predecessor.calendar || finalDay !== undefined)
+      ? { ...getCalendar(predecessor), storyStartDay: finalDay }
+      : undefined,
+    secrets: secrets.length > 0 ? secrets : undefined,
+    knowledgeFacts: knowledgeFacts.length > 0 ? knowledgeFacts : undefined,
+    universeLink,
+    series: {
+      bookNumber: (predecessor.series?.bookNumber ?? 1) + 1,
+      predecessorId: predecessor.id,
+      predecessorTitle: predecessor.title,
+      startingLoreBible: finalLoreBible,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Where the previous book left off, for the opening chapters of a sequel
+ */
+export function buildSeriesContext(state: NovelState): string | undefined {
+  if (!state.series || state.chapters.length >= SERIES_CONTEXT_CHAPTERS) return undefined;
+  const { bookNumber, predecessorTitle, startingLoreBible } = state.series;
+
+  const lines = [
+    `[SERIES - BOOK ${bookNumber}]`,
+    `This novel continues "${predecessorTitle}". The story picks up from where that book ended:`,
+    formatLoreBibleCompact(startingLoreBible),
+  ];
+  const promises = startingLoreBible.narrativeAnchors.pendingPromises;
+  if (promises.length > 0) {
+    lines.push(`Unresolved from Book ${bookNumber - 1}: ${promises.slice(0, 5).map(p => p.description).join('; ')}`);
+  }
+  return lines.join('\n');
+}
@@ -1,8 +1,11 @@
 import { supabase } from './supabaseService';
 import { Chapter, NovelState } from '../types';
 import { StyleCheck, StyleCheckType, StyleCheckSeverity, TextRange } from '../types/editor';
+import type { ChapterDialogueAttribution } from '../types/dialogue';
 import { withRetry } from '../utils/errorHandling';
 import { analyzeWritingStyle } from './contextAnalysis';
+import { getChapterPovId, getScenePovId } from './povService';
+import { attributeDialogue, CONFIDENT_ATTRIBUTION, getChapterAttribution } from './dialogueAttributionService';
 
 /**
  * Style Checker Service
@@ -132,10 +135,56 @@ function checkPOV(content: string): StyleCheck[] {
   return checks;
 }
 
+const INNER_STATE_VERBS = 'thought|wondered|felt|realized|realised|knew|sensed|feared|hoped|suspected|decided|remembered';
+
 /**
- * Check dialogue formatting
+ * Check that only the viewpoint character's thoughts are narrated. Other
+ * characters' inner states ("Mei Lin wondered...") in a scene told from
+ * someone else's point of view are head-hopping.
  */
-function checkDialogue(content: string): StyleCheck[] {
+function checkViewpointCharacter(chapter: Chapter, novelState: NovelState): StyleCheck[] {
+  const checks: StyleCheck[] = [];
+  const content = chapter.content;
+  const segments = chapter.scenes.some(s => s.content && content.includes(s.content))
+    ? chapter.scenes.map(scene => ({ text: scene.content, povId: getScenePovId(scene, chapter, novelState) }))
+    : [{ text: content, povId: getChapterPovId(chapter, novelState) }];
+
+  segments.forEach(({ text, povId }) => {
+    const pov = novelState.characterCodex.find(c => c.id === povId);
+    if (!pov || !text) return;
+    const offset = Math.max(0, content.indexOf(text));
+
+    novelState.characterCodex
+      .filter(c => c.id !== pov.id && c.name.trim().length > 2)
+      .forEach(other => {
+        const name = other.name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const pattern = new RegExp(`\\b${name}\\s+(?:${INNER_STATE_VERBS})\\b`, 'g');
+
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+          const start = offset + match.index;
+          checks.push({
+            id: `pov-character-${start}`,
+            chapterId: '',
+            checkType: 'pov',
+            location: { start, end: start + match[0].length },
+            severity: 'warning',
+            message: `"${match[0]}" narrates ${other.name}'s thoughts in a scene told from ${pov.name}'s point of view.`,
+            suggestion: `Show ${other.name}'s reaction through what ${pov.name} can see or hear, or move it to a scene from ${other.name}'s point of view.`,
+            checkedAt: Date.now(),
+          });
+        }
+      });
+  });
+
+  return checks;
+}
+
+/**
+ * Check dialogue formatting. Without an attribution for the chapter, lines
+ * are attributed from the content alone.
+ */
+function checkDialogue(content: string, attribution?: Pick<ChapterDialogueAttribution, 'utterances'>): StyleCheck[] {
   const checks: StyleCheck[] = [];
   
   // Check for unclosed quotes
@@ -154,26 +203,21 @@ function checkDialogue(content: string): StyleCheck[] {
     });
   }
   
-  // Check for dialogue tags (he said, she said, etc.)
-  const dialogueTagPattern = /["'""][^"'"]*["'""]\s*[^.!?]*$/gm;
-  const dialogueMatches = content.match(/["'""][^"'"]*["'"]/g) || [];
+  // Runs of lines with no speech tag whose speaker cannot be told from context either
+  const utterances = attribution?.utterances ?? attributeDialogue(content, []).utterances;
   let consecutiveDialogueWithoutTags = 0;
-  
-  dialogueMatches.forEach((dialogue, index) => {
-    const dialogueEnd = content.indexOf(dialogue) + dialogue.length;
-    const next50Chars = content.substring(dialogueEnd, dialogueEnd + 50);
-    
-    // Check if there's a dialogue tag after this dialogue
-    const hasTag = /(said|asked|replied|answered|exclaimed|whispered|shouted|muttered)/i.test(next50Chars);
-    
-    if (!hasTag && dialogueMatches.length > 1) {
+
+  utterances.forEach((line, index) => {
+    const unclear = !line.tagged && line.confidence < CONFIDENT_ATTRIBUTION;
+
+    if (unclear && utterances.length > 1) {
       consecutiveDialogueWithoutTags++;
       if (consecutiveDialogueWithoutTags >= 3) {
         checks.push({
           id: `dialogue-tags-${index}`,
           chapterId: '',
           checkType: 'dialogue',
-          location: { start: content.indexOf(dialogue), end: dialogueEnd },
+          location: { start: line.start, end: line.end },
           severity: 'info',
           message: 'Multiple consecutive dialogue lines without tags. Consider adding dialogue tags for clarity.',
           suggestion: 'Add dialogue tags (he said, she asked, etc.) to help readers identify speakers.',
@@ -405,8 +449,14 @@ export async function checkChapter(chapter: Chapter, novelState?: NovelState): P
   const allChecks: StyleCheck[] = [];
   
   // Run all checks
-  const povChecks = checkPOV(chapter.content);
-  const dialogueChecks = checkDialogue(chapter.content);
+  const povChecks = [
+    ...checkPOV(chapter.content),
+    ...(novelState ? checkViewpointCharacter(chapter, novelState) : []),
+  ];
+  const dialogueChecks = checkDialogue(
+    chapter.content,
+    getChapterAttribution(chapter, novelState?.characterCodex || [])
+  );
   const pacingChecks = checkPacing(chapter.content);
   const varietyChecks = checkSentenceVariety(chapter.content);
   const structureChecks = checkStructure(chapter.content);
@@ -1,15 +1,46 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { NovelState, Character, Chapter, Scene, Arc, NovelItem, NovelTechnique, CharacterItemPossession, CharacterTechniqueMastery, Antagonist, ForeshadowingElement, SymbolicElement, EmotionalPayoffMoment, SubtextElement, StoryThread, CharacterSystem, ForeshadowingType, ForeshadowingStatus, ForeshadowingSubtlety, EmotionalPayoffType, EmotionalIntensity, SubtextType } from '../types';
+import { NovelState, Character, Scene, Arc, NovelItem, NovelTechnique, CharacterItemPossession, CharacterTechniqueMastery, Antagonist, ForeshadowingElement, SymbolicElement, EmotionalPayoffMoment, SubtextElement, StoryThread, CharacterSystem, ForeshadowingType, ForeshadowingStatus, ForeshadowingSubtlety, EmotionalPayoffType, EmotionalIntensity, SubtextType } from '../types';
 import { NovelRow, RealmRow, CharacterRow, ChapterRow, ArcRow, SceneRow, SystemLogRow, TagRow, WritingGoalRow, NovelItemRow, NovelTechniqueRow, CharacterItemPossessionRow, CharacterTechniqueMasteryRow, CharacterSkillRow, CharacterItemRow, RelationshipRow, ForeshadowingElementRow, SymbolicElementRow, EmotionalPayoffRow, SubtextElementRow } from '../types/database';
 import { EditorReport, EditorFix, RecurringIssuePattern, PatternOccurrence } from '../types/editor';
+import type { NovelRole } from '../types/membership';
 import { SUPABASE_CONFIG, AUTHENTICATION_ENABLED } from '../config/supabase';
 import { withRetry, isRetryableError, AppError } from '../utils/errorHandling';
 import { fetchAntagonists } from './antagonistService';
 import { fetchSystems } from './systemService';
 import { fetchStoryThreads } from './threadService';
+import { acceptPendingInvites, fetchMemberRoles } from './membershipService';
+import { hasPermission, permissionDeniedMessage, resolveAccessRole } from './permissionService';
 import { logger } from './loggingService';
 import { queryCache } from './queryCache';
 import { isJsonChapterContent, extractChapterContent, extractChapterMetadata } from '../utils/chapterContentRepair';
+import {
+  countChangeSetRows,
+  diffNovelForPersistence,
+  persistableChapters,
+  toAntagonistArcRows,
+  toAntagonistGroupRows,
+  toAntagonistRelationshipRows,
+  toAntagonistRow,
+  toArcRow,
+  toCharacterItemRows,
+  toCharacterRow,
+  toCharacterSkillRows,
+  toChapterRow,
+  toItemPossessionRows,
+  toNovelItemRow,
+  toNovelRow,
+  toNovelTechniqueRow,
+  toRelationshipRows,
+  toSceneRow,
+  toStoryThreadRow,
+  toSystemLogRow,
+  toTagRow,
+  toTechniqueMasteryRows,
+  toTerritoryRow,
+  toWorldEntryRow,
+  toWritingGoalRow,
+  type NovelChangeSet,
+} from './novelChangeSetService';
 
 // Singleton pattern to prevent multiple GoTrueClient instances
 let supabaseInstance: SupabaseClient | null = null;
@@ -137,7 +168,8 @@ export async function getCurrentUserId(): Promise<string | null> {
  * Fetches all novels for the current authenticated user.
  * 
  * Uses query caching to reduce database load. Results are cached for 30 seconds.
- * Automatically filters by user_id if authentication is enabled.
+ * Automatically filters by user_id if authentication is enabled, adding the
+ * novels shared with the user and their role in each.
  * Fetches all related data including realms, characters, chapters, arcs, etc.
  * 
  * @returns {Promise<NovelState[]>} Promise that resolves to an array of novel states
@@ -168,8 +200,14 @@ export const fetchAllNovels = async (): Promise<NovelState[]> => {
       .from('novels')
       .select('*');
 
+    let memberRoles = new Map<string, NovelRole>();
     if (userId) {
-      query = query.eq('user_id', userId); // Filter by user_id when authenticated
+      await acceptPendingInvites();
+      memberRoles = await fetchMemberRoles(userId);
+      const sharedIds = [...memberRoles.keys()];
+      query = sharedIds.length > 0
+        ? query.or(`user_id.eq.${userId},id.in.(${sharedIds.join(',')})`)
+        : query.eq('user_id', userId); // Filter by user_id when authenticated
     }
 
     const { data: novels, error } = await query
@@ -266,6 +304,8 @@ export const fetchAllNovels = async (): Promise<NovelState[]> => {
             summary: s.summary || '',
             wordCount: s.word_count || 0,
             tags: [],
+            inWorldTime: (s.in_world_time as Scene['inWorldTime']) || undefined,
+            povCharacterId: s.pov_character_id || undefined,
             createdAt: timestampToNumber(s.created_at),
             updatedAt: timestampToNumber(s.updated_at),
           });
@@ -442,6 +482,7 @@ export const fetchAllNovels = async (): Promise<NovelState[]> => {
             id: char.id,
             name: char.name,
             age: char.age || '',
+            ageAnchorDay: typeof char.age_anchor_day === 'number' ? char.age_anchor_day : undefined,
             personality: char.personality || '',
             currentCultivation: char.current_cultivation || '',
             notes: char.notes || '',
@@ -525,6 +566,15 @@ export const fetchAllNovels = async (): Promise<NovelState[]> => {
           genre: novel.genre,
           grandSaga: novel.grand_saga || '',
           totalPlannedChapters: typeof novel.total_planned_chapters === 'number' ? novel.total_planned_chapters : undefined,
+          powerSystems: Array.isArray(novel.power_systems) ? novel.power_systems : undefined,
+          worldMap: novel.world_map || undefined,
+          calendar: novel.calendar || undefined,
+          knowledgeFacts: Array.isArray(novel.knowledge_facts) ? novel.knowledge_facts : undefined,
+          secrets: Array.isArray(novel.secrets) ? novel.secrets : undefined,
+          universeLink: novel.universe_link || undefined,
+          series: novel.series || undefined,
+          ownerId: novel.user_id || undefined,
+          accessRole: resolveAccessRole(novel.user_id, userId, memberRoles.get(novel.id)),
           currentRealmId: novel.current_realm_id || '',
           realms: realmsRows.map((r) => ({
             id: r.id,
@@ -538,6 +588,7 @@ export const fetchAllNovels = async (): Promise<NovelState[]> => {
             name: t.name,
             type: t.type,
             description: t.description,
+            mapPlacement: t.map_placement || undefined,
           })),
           worldBible: worldEntriesRows.map((w) => ({
             id: w.id,
@@ -603,6 +654,8 @@ export const fetchAllNovels = async (): Promise<NovelState[]> => {
               summary,
               logicAudit,
               scenes: scenesByChapter.get(c.id) || [],
+              inWorldTime: (c.in_world_time as NovelState['chapters'][0]['inWorldTime']) || undefined,
+              povCharacterId: c.pov_character_id || undefined,
               createdAt: timestampToNumber(c.created_at),
             };
           }),
@@ -669,13 +722,157 @@ export const fetchAllNovels = async (): Promise<NovelState[]> => {
  * Fetches a single novel by ID.
  * 
  * @param id - The ID of the novel to fetch
+ * @param options.bypassCache - Re-read from the database even if the library is cached
  * @returns {Promise<NovelState | null>} Promise that resolves to the novel state or null if not found
  */
-export const fetchNovel = async (id: string): Promise<NovelState | null> => {
+export const fetchNovel = async (id: string, options: { bypassCache?: boolean } = {}): Promise<NovelState | null> => {
+  if (options.bypassCache) {
+    queryCache.invalidate('novels:');
+  }
   const novels = await fetchAllNovels();
   return novels.find(n => n.id === id) || null;
 };
 
+/**
+ * Fetches only a novel's last cloud save time, bypassing the query cache.
+ * Lets sync cheaply check whether another device has saved the novel.
+ * 
+ * @param id - The ID of the novel
+ * @returns {Promise<number | null>} Promise that resolves to `updated_at` in ms, or null if the novel does not exist
+ */
+export const fetchNovelUpdatedAt = async (id: string): Promise<number | null> => {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from('novels')
+      .select('updated_at')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? timestampToNumber(data.updated_at) : null;
+  }, {
+    maxRetries: 2,
+    retryable: isRetryableError,
+  });
+};
+
+/**
+ * Repair chapters saved with JSON content and reject chapters the database
+ * would refuse
+ */
+function prepareNovelForSave(novel: NovelState): NovelState {
+  // Auto-repair chapters with JSON content (bug fix: extract chapterContent from malformed saves)
+  const chaptersWithJsonContent = novel.chapters.filter(c => isJsonChapterContent(c.content));
+  if (chaptersWithJsonContent.length > 0) {
+    logger.warn('Detected chapters with JSON content, auto-repairing', 'supabase', {
+      chapterNumbers: chaptersWithJsonContent.map(c => c.number),
+    });
+
+    // Auto-repair the chapters
+    novel = {
+      ...novel,
+      chapters: novel.chapters.map(chapter => {
+        if (isJsonChapterContent(chapter.content)) {
+          const actualContent = extractChapterContent(chapter.content);
+          const metadata = extractChapterMetadata(chapter.content);
+
+          if (actualContent) {
+            logger.info(`Auto-repaired Chapter ${chapter.number}: extracted ${actualContent.length} chars from JSON`, 'supabase');
+            return {
+              ...chapter,
+              content: actualContent,
+              title: chapter.title || metadata?.title || chapter.title,
+              summary: chapter.summary || metadata?.summary || chapter.summary,
+              logicAudit: chapter.logicAudit || metadata?.logicAudit,
+            };
+          }
+        }
+        return chapter;
+      }),
+    };
+  }
+
+  // Validate chapters have positive numbers
+  const invalidChapters = novel.chapters.filter(c => c.number <= 0);
+  if (invalidChapters.length > 0) {
+    throw new Error(`Chapters must have positive numbers. Invalid chapters: ${invalidChapters.map(c => c.number).join(', ')}`);
+  }
+
+  // Validate chapters have non-empty titles and content
+  const emptyChapters = novel.chapters.filter(c =>
+    !c.title || c.title.trim() === '' || !c.content || c.content.trim() === ''
+  );
+  if (emptyChapters.length > 0) {
+    throw new Error(`Chapters must have non-empty titles and content. Invalid chapters: ${emptyChapters.map(c => c.number).join(', ')}`);
+  }
+
+  return novel;
+}
+
+const changeSetError = (table: string, error: { message: string; code?: string }) =>
+  new AppError(`Failed to save ${table}: ${error.message}`, error.code || 'DATABASE_ERROR', undefined, isRetryableError(error));
+
+/**
+ * Write a change set: the novel row, upserts parents-first, replaced owned
+ * rows, then deletes children-first so no foreign key is tripped
+ */
+async function applyNovelChangeSet(changeSet: NovelChangeSet, novel: NovelState): Promise<void> {
+  // Always touched, so other devices can tell the novel changed
+  const { error: novelError } = await supabase
+    .from('novels')
+    .update({
+      ...(changeSet.novelRowChanged ? toNovelRow(novel) : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', changeSet.novelId);
+  if (novelError) throw changeSetError('novel', novelError);
+
+  for (const change of changeSet.tables) {
+    if (change.upserts.length === 0) continue;
+    const { error } = await supabase.from(change.table).upsert(change.upserts, { onConflict: 'id' });
+    if (error) throw changeSetError(change.table, error);
+  }
+
+  for (const change of changeSet.ownedRows) {
+    if (change.owners.length === 0) continue;
+    try {
+      const { error: deleteError } = await supabase.from(change.table).delete().in(change.ownerColumn, change.owners);
+      if (deleteError) throw deleteError;
+      if (change.rows.length > 0) {
+        const { error } = change.onConflict
+          ? await supabase.from(change.table).upsert(change.rows, { onConflict: change.onConflict })
+          : await supabase.from(change.table).insert(change.rows);
+        if (error) throw error;
+      }
+    } catch (error) {
+      if (!change.optional) throw changeSetError(change.table, error as { message: string; code?: string });
+      logger.warn(`Failed to save ${change.table}`, 'supabase', {
+        error: error instanceof Error ? error.message : (error as { message?: string })?.message,
+      });
+    }
+  }
+
+  for (const change of [...changeSet.tables].reverse()) {
+    if (change.deletes.length === 0) continue;
+    const dependentResults = await Promise.all(
+      change.dependents.map(async dep => ({
+        table: dep.table,
+        error: (await supabase.from(dep.table).delete().in(dep.column, change.deletes)).error,
+      }))
+    );
+    const failed = dependentResults.find(result => result.error);
+    if (failed?.error) throw changeSetError(failed.table, failed.error);
+    const { error } = await supabase.from(change.table).delete().in('id', change.deletes);
+    if (error) throw changeSetError(change.table, error);
+  }
+
+  logger.info(`Saved ${countChangeSetRows(changeSet)} changed row(s) for "${novel.title}"`, 'supabase', {
+    novelId: novel.id,
+  });
+}
+
 /**
  * Saves a complete novel state to the database
  * 
@@ -683,7 +880,11 @@ export const fetchNovel = async (id: string): Promise<NovelState | null> => {
  * Validates required fields before saving.
  * Uses transactions to ensure data consistency.
  * 
+ * When `options.previous` holds the state the database was last saved with,
+ * only the rows that changed since are written (see novelChangeSetService).
+ * 
  * @param novel - The novel state to save
+ * @param options - `previous`: the last saved state, enabling an incremental save
  * @returns Promise that resolves when save is complete
  * @throws {AppError} If user is not authenticated or validation fails
  * @throws {Error} If database save fails
@@ -691,10 +892,10 @@ export const fetchNovel = async (id: string): Promise<NovelState | null> => {
  * @example
  * ```typescript
  * await saveNovel(updatedNovel);
- * console.log('Novel saved successfully');
+ * await saveNovel(updatedNovel, { previous: lastSavedNovel });
  * ```
  */
-export const saveNovel = async (novel: NovelState): Promise<void> => {
+export const saveNovel = async (novel: NovelState, options: { previous?: NovelState } = {}): Promise<void> => {
   // Validate required fields before saving (non-retryable errors)
   if (!novel.title || novel.title.trim() === '') {
     throw new AppError('Novel title cannot be empty', 'VALIDATION_ERROR', undefined, false);
@@ -710,6 +911,9 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
     if (AUTHENTICATION_ENABLED && !userId) {
       throw new AppError('User must be authenticated to save novels', 'AUTH_ERROR', 401, false);
     }
+    if (novel.accessRole && !hasPermission(novel.accessRole, 'edit_content')) {
+      throw new AppError(permissionDeniedMessage(novel.accessRole, 'edit_content'), 'AUTH_ERROR', 403, false);
+    }
 
     // Validate currentRealmId - must be a valid UUID present in the novel's realms.
     // IMPORTANT: The DB has a FK from novels.current_realm_id -> realms.id.
@@ -725,65 +929,32 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
         ? novel.currentRealmId
         : null;
 
-    // Auto-repair chapters with JSON content (bug fix: extract chapterContent from malformed saves)
-    const chaptersWithJsonContent = novel.chapters.filter(c => isJsonChapterContent(c.content));
-    if (chaptersWithJsonContent.length > 0) {
-      logger.warn('Detected chapters with JSON content, auto-repairing', 'supabase', {
-        chapterNumbers: chaptersWithJsonContent.map(c => c.number),
-      });
-
-      // Auto-repair the chapters
-      novel = {
-        ...novel,
-        chapters: novel.chapters.map(chapter => {
-          if (isJsonChapterContent(chapter.content)) {
-            const actualContent = extractChapterContent(chapter.content);
-            const metadata = extractChapterMetadata(chapter.content);
-
-            if (actualContent) {
-              logger.info(`Auto-repaired Chapter ${chapter.number}: extracted ${actualContent.length} chars from JSON`, 'supabase');
-              return {
-                ...chapter,
-                content: actualContent,
-                title: chapter.title || metadata?.title || chapter.title,
-                summary: chapter.summary || metadata?.summary || chapter.summary,
-                logicAudit: chapter.logicAudit || metadata?.logicAudit,
-              };
-            }
-          }
-          return chapter;
-        }),
-      };
-    }
+    novel = prepareNovelForSave(novel);
 
-    // Validate chapters have positive numbers
-    const invalidChapters = novel.chapters.filter(c => c.number <= 0);
-    if (invalidChapters.length > 0) {
-      throw new Error(`Chapters must have positive numbers. Invalid chapters: ${invalidChapters.map(c => c.number).join(', ')}`);
-    }
-
-    // Validate chapters have non-empty titles and content
-    const emptyChapters = novel.chapters.filter(c =>
-      !c.title || c.title.trim() === '' || !c.content || c.content.trim() === ''
-    );
-    if (emptyChapters.length > 0) {
-      throw new Error(`Chapters must have non-empty titles and content. Invalid chapters: ${emptyChapters.map(c => c.number).join(', ')}`);
+    if (options.previous) {
+      const changeSet = diffNovelForPersistence(options.previous, novel);
+      if (changeSet.unsupportedChanges.length === 0) {
+        await applyNovelChangeSet(changeSet, novel);
+        queryCache.invalidate(`novels:${userId || 'anonymous'}`);
+        queryCache.invalidate(`novel:${novel.id}:`);
+        return;
+      }
+      logger.info('Changes outside the incremental save, saving the whole novel', 'supabase', {
+        novelId: novel.id,
+        fields: changeSet.unsupportedChanges,
+      });
     }
 
     // Step 1: upsert novel WITHOUT current_realm_id to avoid FK violation during initial writes.
     const novelData: any = {
-      id: novel.id,
-      title: novel.title.trim(),
-      genre: novel.genre.trim(),
-      grand_saga: novel.grandSaga || '',
-      total_planned_chapters: novel.totalPlannedChapters || null,
+      ...toNovelRow(novel),
       current_realm_id: null,
       updated_at: new Date().toISOString()
     };
 
-    // Only add user_id if authentication is enabled
+    // Only add user_id if authentication is enabled; co-writers save on the owner's behalf
     if (userId) {
-      novelData.user_id = userId;
+      novelData.user_id = novel.ownerId || userId;
     }
 
     const { error: novelError } = await supabase
@@ -1046,30 +1217,12 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
     // Upsert Chapters EARLY (before deletion) to prevent loss if save fails
     if (novel.chapters.length > 0) {
       // Deduplicate chapters by number to prevent unique constraint violations
-      const chaptersByNumber = new Map<number, Chapter>();
-      novel.chapters.forEach(ch => {
-        if (!ch.number) return;
-        const existing = chaptersByNumber.get(ch.number);
-        if (!existing || (ch.content?.length || 0) > (existing.content?.length || 0)) {
-          chaptersByNumber.set(ch.number, ch);
-        }
-      });
-
-      const uniqueChapters = Array.from(chaptersByNumber.values());
-      const validChapters = uniqueChapters.filter(c => c.title && c.title.trim() !== '' && c.content && c.content.trim() !== '' && c.number > 0);
+      const validChapters = persistableChapters(novel);
 
       if (validChapters.length > 0) {
         const { error: chaptersError } = await supabase
           .from('chapters')
-          .upsert(validChapters.map(c => ({
-            id: c.id,
-            novel_id: novelId,
-            number: c.number,
-            title: c.title.trim(),
-            content: c.content.trim(),
-            summary: c.summary || '',
-            logic_audit: c.logicAudit || null
-          })), { onConflict: 'id' });
+          .upsert(validChapters.map(c => toChapterRow(novelId, c)), { onConflict: 'id' });
 
         if (chaptersError) throw new Error(`Failed to save chapters: ${chaptersError.message}`);
       }
@@ -1089,15 +1242,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
         if (validScenes.length > 0) {
           const { error: scenesError } = await supabase
             .from('scenes')
-            .upsert(validScenes.map(s => ({
-              id: s.id,
-              chapter_id: s.chapterId,
-              number: s.number,
-              title: s.title || '',
-              content: s.content || '',
-              summary: s.summary || '',
-              word_count: s.wordCount || 0
-            })), { onConflict: 'id' });
+            .upsert(validScenes.map(toSceneRow), { onConflict: 'id' });
 
           if (scenesError) throw new Error(`Failed to save scenes: ${scenesError.message}`);
         }
@@ -1120,13 +1265,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
       if (validTerritories.length > 0) {
         const { error: territoriesError } = await supabase
           .from('territories')
-          .upsert(validTerritories.map(t => ({
-            id: t.id,
-            realm_id: t.realmId,
-            name: t.name.trim(),
-            type: t.type,
-            description: t.description || ''
-          })), { onConflict: 'id' });
+          .upsert(validTerritories.map(toTerritoryRow), { onConflict: 'id' });
 
         if (territoriesError) throw new Error(`Failed to save territories: ${territoriesError.message}`);
       }
@@ -1147,73 +1286,18 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
     if (validWorldEntries.length > 0) {
       const { error: worldError } = await supabase
         .from('world_entries')
-        .upsert(validWorldEntries.map(w => ({
-          id: w.id,
-          realm_id: w.realmId,
-          category: w.category,
-          title: w.title.trim(),
-          content: w.content.trim()
-        })), { onConflict: 'id' });
+        .upsert(validWorldEntries.map(toWorldEntryRow), { onConflict: 'id' });
 
       if (worldError) throw worldError;
     }
 
-    // Helper function to normalize character status to match database constraint
-    // Handles complex status strings like "Alive (injured)", "Deceased or Captured", etc.
-    const normalizeCharacterStatus = (status: string | undefined | null): 'Alive' | 'Deceased' | 'Unknown' => {
-      if (!status) return 'Unknown';
-      const normalized = status.trim();
-      // Case-insensitive matching
-      const lower = normalized.toLowerCase();
-
-      // Exact matches first
-      if (lower === 'alive') return 'Alive';
-      if (lower === 'deceased' || lower === 'dead') return 'Deceased';
-      if (lower === 'unknown') return 'Unknown';
-
-      // Handle complex status strings with parenthetical details
-      // e.g., "Alive (freed from veil)", "Alive (injured, embedded in jade)", etc.
-      if (lower.startsWith('alive')) return 'Alive';
-
-      // Handle deceased variations
-      if (lower.startsWith('deceased') || lower.startsWith('dead')) return 'Deceased';
-
-      // Handle "Captured" as a special case - treat as Unknown since fate is uncertain
-      if (lower === 'captured' || lower.includes('captured')) return 'Unknown';
-
-      // Handle "Missing" or similar uncertain statuses
-      if (lower === 'missing' || lower.includes('missing')) return 'Unknown';
-
-      // Handle compound statuses like "Deceased or Captured"
-      if (lower.includes('deceased') || lower.includes('dead')) return 'Deceased';
-      if (lower.includes('alive')) return 'Alive';
-
-      // Default to 'Unknown' if value doesn't match any pattern
-      logger.warn('Invalid character status, defaulting to Unknown', 'supabase', {
-        invalidStatus: status
-      });
-      return 'Unknown';
-    };
-
     // Upsert Novel Items (canonical items registry)
     if (novel.novelItems && novel.novelItems.length > 0) {
       const validItems = novel.novelItems.filter(item => item.name && item.name.trim() !== '');
       if (validItems.length > 0) {
         const { error: itemsError } = await supabase
           .from('novel_items')
-          .upsert(validItems.map(item => ({
-            id: item.id,
-            novel_id: novelId,
-            name: item.name.trim(),
-            canonical_name: item.canonicalName,
-            description: item.description || '',
-            category: item.category,
-            powers: item.powers || [],
-            history: item.history || '',
-            first_appeared_chapter: item.firstAppearedChapter || null,
-            last_referenced_chapter: item.lastReferencedChapter || null,
-            updated_at: new Date(item.updatedAt || Date.now()).toISOString()
-          })), { onConflict: 'id' });
+          .upsert(validItems.map(item => toNovelItemRow(novelId, item)), { onConflict: 'id' });
 
         if (itemsError) throw new Error(`Failed to save novel items: ${itemsError.message}`);
       }
@@ -1225,20 +1309,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
       if (validTechniques.length > 0) {
         const { error: techniquesError } = await supabase
           .from('novel_techniques')
-          .upsert(validTechniques.map(tech => ({
-            id: tech.id,
-            novel_id: novelId,
-            name: tech.name.trim(),
-            canonical_name: tech.canonicalName,
-            description: tech.description || '',
-            category: tech.category,
-            type: tech.type,
-            functions: tech.functions || [],
-            history: tech.history || '',
-            first_appeared_chapter: tech.firstAppearedChapter || null,
-            last_referenced_chapter: tech.lastReferencedChapter || null,
-            updated_at: new Date(tech.updatedAt || Date.now()).toISOString()
-          })), { onConflict: 'id' });
+          .upsert(validTechniques.map(tech => toNovelTechniqueRow(novelId, tech)), { onConflict: 'id' });
 
         if (techniquesError) throw new Error(`Failed to save novel techniques: ${techniquesError.message}`);
       }
@@ -1250,18 +1321,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
       if (validCharacters.length > 0) {
         const { error: charsError } = await supabase
           .from('characters')
-          .upsert(validCharacters.map(c => ({
-            id: c.id,
-            novel_id: novelId,
-            name: c.name.trim(),
-            age: c.age || '',
-            personality: c.personality || '',
-            current_cultivation: c.currentCultivation || '',
-            notes: c.notes || '',
-            portrait_url: c.portraitUrl || null,
-            status: normalizeCharacterStatus(c.status),
-            is_protagonist: c.isProtagonist || false
-          })), { onConflict: 'id' });
+          .upsert(validCharacters.map(c => toCharacterRow(novelId, c)), { onConflict: 'id' });
 
         if (charsError) throw new Error(`Failed to save characters: ${charsError.message}`);
 
@@ -1286,45 +1346,12 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
 
         validCharacters.forEach(char => {
           // Backward compatibility: save old skills/items format
-          if (char.skills) char.skills.forEach(skill => skillsInserts.push({ character_id: char.id, skill }));
-          if (char.items) char.items.forEach(item => itemsInserts.push({ character_id: char.id, item }));
+          skillsInserts.push(...toCharacterSkillRows(char));
+          itemsInserts.push(...toCharacterItemRows(char));
           // New format: item possessions and technique masteries
-          if (char.itemPossessions) {
-            char.itemPossessions.forEach(poss => {
-              possessionsInserts.push({
-                id: poss.id,
-                character_id: poss.characterId,
-                item_id: poss.itemId,
-                status: poss.status,
-                acquired_chapter: poss.acquiredChapter || null,
-                archived_chapter: poss.archivedChapter || null,
-                notes: poss.notes || '',
-                updated_at: new Date(poss.updatedAt || Date.now()).toISOString()
-              });
-            });
-          }
-          if (char.techniqueMasteries) {
-            char.techniqueMasteries.forEach(mast => {
-              masteriesInserts.push({
-                id: mast.id,
-                character_id: mast.characterId,
-                technique_id: mast.techniqueId,
-                status: mast.status,
-                mastery_level: mast.masteryLevel || 'Novice',
-                learned_chapter: mast.learnedChapter || null,
-                archived_chapter: mast.archivedChapter || null,
-                notes: mast.notes || '',
-                updated_at: new Date(mast.updatedAt || Date.now()).toISOString()
-              });
-            });
-          }
-          if (char.relationships) char.relationships.forEach(rel => relationshipsInserts.push({
-            character_id: char.id,
-            target_character_id: rel.characterId,
-            type: rel.type,
-            history: rel.history,
-            impact: rel.impact
-          }));
+          possessionsInserts.push(...toItemPossessionRows(char));
+          masteriesInserts.push(...toTechniqueMasteryRows(char));
+          relationshipsInserts.push(...toRelationshipRows(char));
         });
 
         // Use upsert for tables with unique constraints to avoid 409 conflicts
@@ -1394,17 +1421,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
       if (validArcs.length > 0) {
         const { error: arcsError } = await supabase
           .from('arcs')
-          .upsert(validArcs.map(a => ({
-            id: a.id,
-            novel_id: novelId,
-            title: a.title.trim(),
-            description: a.description || '',
-            status: a.status,
-            started_at_chapter: typeof a.startedAtChapter === 'number' ? a.startedAtChapter : null,
-            ended_at_chapter: typeof a.endedAtChapter === 'number' ? a.endedAtChapter : null,
-            target_chapters: typeof a.targetChapters === 'number' ? a.targetChapters : null,
-            checklist: a.checklist || [],
-          })), { onConflict: 'id' });
+          .upsert(validArcs.map(a => toArcRow(novelId, a)), { onConflict: 'id' });
 
         if (arcsError) throw new Error(`Failed to save arcs: ${arcsError.message}`);
       }
@@ -1417,13 +1434,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
     if (validLogs.length > 0) {
       const { error: logsError } = await supabase
         .from('system_logs')
-        .upsert(validLogs.map(l => ({
-          id: l.id,
-          novel_id: novelId,
-          message: l.message.trim(),
-          type: l.type,
-          timestamp: new Date(l.timestamp).toISOString()
-        })), { onConflict: 'id' });
+        .upsert(validLogs.map(l => toSystemLogRow(novelId, l)), { onConflict: 'id' });
 
       if (logsError) {
         throw new AppError(
@@ -1441,13 +1452,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
       if (validTags.length > 0) {
         const { error: tagsError } = await supabase
           .from('tags')
-          .upsert(validTags.map(t => ({
-            id: t.id,
-            novel_id: novelId,
-            name: t.name.trim(),
-            color: t.color || null,
-            category: t.category || null
-          })), { onConflict: 'id' });
+          .upsert(validTags.map(t => toTagRow(novelId, t)), { onConflict: 'id' });
 
         if (tagsError) throw new Error(`Failed to save tags: ${tagsError.message}`);
       }
@@ -1459,14 +1464,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
       if (validGoals.length > 0) {
         const { error: goalsError } = await supabase
           .from('writing_goals')
-          .upsert(validGoals.map(g => ({
-            id: g.id,
-            novel_id: novelId,
-            type: g.type,
-            target: g.target,
-            current: g.current || 0,
-            deadline: g.deadline ? new Date(g.deadline).toISOString() : null
-          })), { onConflict: 'id' });
+          .upsert(validGoals.map(g => toWritingGoalRow(novelId, g)), { onConflict: 'id' });
 
         if (goalsError) throw new Error(`Failed to save writing goals: ${goalsError.message}`);
       }
@@ -1478,22 +1476,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
       if (validAntagonists.length > 0) {
         const { error: antagonistsError } = await supabase
           .from('antagonists')
-          .upsert(validAntagonists.map(a => ({
-            id: a.id,
-            novel_id: novelId,
-            name: a.name.trim(),
-            type: a.type,
-            description: a.description || '',
-            motivation: a.motivation || '',
-            power_level: a.powerLevel || '',
-            status: a.status,
-            first_appeared_chapter: a.firstAppearedChapter || null,
-            last_appeared_chapter: a.lastAppearedChapter || null,
-            resolved_chapter: a.resolvedChapter || null,
-            duration_scope: a.durationScope,
-            threat_level: a.threatLevel,
-            notes: a.notes || '',
-          })), { onConflict: 'id' });
+          .upsert(validAntagonists.map(a => toAntagonistRow(novelId, a)), { onConflict: 'id' });
 
         if (antagonistsError) throw new Error(`Failed to save antagonists: ${antagonistsError.message}`);
       }
@@ -1505,24 +1488,7 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
       if (validThreads.length > 0) {
         const { error: threadsError } = await supabase
           .from('story_threads')
-          .upsert(validThreads.map(t => ({
-            id: t.id,
-            novel_id: novelId,
-            title: t.title.trim(),
-            type: t.type,
-            status: t.status,
-            priority: t.priority,
-            description: t.description || '',
-            introduced_chapter: t.introducedChapter,
-            last_updated_chapter: t.lastUpdatedChapter,
-            resolved_chapter: t.resolvedChapter || null,
-            related_entity_id: t.relatedEntityId || null,
-            related_entity_type: t.relatedEntityType || null,
-            progression_notes: t.progressionNotes || [],
-            resolution_notes: t.resolutionNotes || null,
-            satisfaction_score: t.satisfactionScore || null,
-            chapters_involved: t.chaptersInvolved || [],
-          })), { onConflict: 'id' });
+          .upsert(validThreads.map(t => toStoryThreadRow(novelId, t)), { onConflict: 'id' });
 
         if (threadsError) throw new Error(`Failed to save story threads: ${threadsError.message}`);
       }
@@ -1543,63 +1509,21 @@ export const saveNovel = async (novel: NovelState): Promise<void> => {
         ]);
 
         // Insert relationships
-        const relationshipInserts: any[] = [];
-        validAntagonists.forEach(ant => {
-          if (ant.relationships) {
-            ant.relationships.forEach(rel => {
-              relationshipInserts.push({
-                antagonist_id: ant.id,
-                character_id: rel.characterId,
-                relationship_type: rel.relationshipType,
-                intensity: rel.intensity,
-                history: rel.history || '',
-                current_state: rel.currentState || '',
-              });
-            });
-          }
-        });
+        const relationshipInserts = validAntagonists.flatMap(toAntagonistRelationshipRows);
         if (relationshipInserts.length > 0) {
           await supabase.from('antagonist_relationships')
             .upsert(relationshipInserts, { onConflict: 'antagonist_id,character_id' });
         }
 
         // Insert arc associations
-        const arcAssociationInserts: any[] = [];
-        validAntagonists.forEach(ant => {
-          if (ant.arcAssociations) {
-            ant.arcAssociations.forEach(assoc => {
-              arcAssociationInserts.push({
-                antagonist_id: ant.id,
-                arc_id: assoc.arcId,
-                role: assoc.role,
-                introduced_in_arc: assoc.introducedInArc || false,
-                resolved_in_arc: assoc.resolvedInArc || false,
-                notes: assoc.notes || '',
-              });
-            });
-          }
-        });
+        const arcAssociationInserts = validAntagonists.flatMap(toAntagonistArcRows);
         if (arcAssociationInserts.length > 0) {
           await supabase.from('antagonist_arcs')
             .upsert(arcAssociationInserts, { onConflict: 'antagonist_id,arc_id' });
         }
 
         // Insert group members
-        const groupMemberInserts: any[] = [];
-        validAntagonists.forEach(ant => {
-          if (ant.groupMembers) {
-            ant.groupMembers.forEach(member => {
-              groupMemberInserts.push({
-                antagonist_id: ant.id,
-                member_character_id: member.memberCharacterId,
-                role_in_group: member.roleInGroup,
-                joined_chapter: member.joinedChapter || null,
-                left_chapter: member.leftChapter || null,
-                notes: member.notes || '',
-              });
-            });
-          }
-        });
+        const groupMemberInserts = validAntagonists.flatMap(toAntagonistGroupRows);
         if (groupMemberInserts.length > 0) {
           await supabase.from('antagonist_groups').insert(groupMemberInserts);
         }
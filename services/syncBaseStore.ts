@@ -0,0 +1,95 @@
+/**
+ * Sync Base Store
+ *
+ * Keeps, per novel, the copy last synced with the cloud. It is the common
+ * ancestor for three-way merges when this device and another one have both
+ * edited a novel since then.
+ */
+
+import type { NovelState } from '../types';
+import { logger } from './loggingService';
+
+export interface NovelSyncBase {
+  novelId: string;
+  snapshot: NovelState;
+  /** Cloud `updated_at` as of that sync, to tell whether another device has saved since */
+  remoteUpdatedAt: number;
+  syncedAt: number;
+}
+
+const DB_NAME = 'novel_sync_bases';
+const DB_VERSION = 1;
+const STORE_NAME = 'bases';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openStore(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'novelId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+function isStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openStore();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getSyncBase(novelId: string): Promise<NovelSyncBase | undefined> {
+  if (!isStoreAvailable()) return undefined;
+  try {
+    return await run<NovelSyncBase | undefined>('readonly', store => store.get(novelId));
+  } catch (error) {
+    logger.warn('Failed to read sync base', 'novelSync', {
+      novelId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Record `novel` as the state both this device and the cloud now agree on
+ */
+export async function saveSyncBase(novel: NovelState, remoteUpdatedAt: number): Promise<void> {
+  if (!isStoreAvailable()) return;
+  const base: NovelSyncBase = { novelId: novel.id, snapshot: novel, remoteUpdatedAt, syncedAt: Date.now() };
+  try {
+    await run('readwrite', store => store.put(base));
+  } catch (error) {
+    logger.warn('Failed to save sync base', 'novelSync', {
+      novelId: novel.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export async function deleteSyncBase(novelId: string): Promise<void> {
+  if (!isStoreAvailable()) return;
+  try {
+    await run('readwrite', store => store.delete(novelId));
+  } catch {
+    // A stale base only costs an unnecessary merge later
+  }
+}
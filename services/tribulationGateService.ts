@@ -501,6 +501,44 @@ export function deleteGatesForNovel(novelId: string): number {
   }
 }
 
+/**
+ * Replace all stored gates for a novel (used when restoring a project archive)
+ */
+export function replaceGatesForNovel(novelId: string, gates: TribulationGate[]): void {
+  try {
+    const stored = localStorage.getItem(GATES_STORAGE_KEY);
+    const allGates: TribulationGate[] = stored ? JSON.parse(stored) : [];
+    const remaining = allGates.filter(g => g.novelId !== novelId);
+    
+    localStorage.setItem(GATES_STORAGE_KEY, JSON.stringify([...remaining, ...gates]));
+  } catch (error) {
+    logger.error('Failed to replace gates for novel', 'tribulationGate',
+      error instanceof Error ? error : undefined, {
+        novelId,
+      }
+    );
+  }
+}
+
+/**
+ * Replace all gate history entries for a novel (used when restoring a project archive)
+ */
+export function replaceGateHistoryForNovel(novelId: string, entries: TribulationGateHistoryEntry[]): void {
+  try {
+    const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+    const history: TribulationGateHistoryEntry[] = stored ? JSON.parse(stored) : [];
+    const remaining = history.filter(h => h.novelId !== novelId);
+    
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify([...remaining, ...entries]));
+  } catch (error) {
+    logger.error('Failed to replace gate history for novel', 'tribulationGate',
+      error instanceof Error ? error : undefined, {
+        novelId,
+      }
+    );
+  }
+}
+
 /**
  * Format a gate for display
  */
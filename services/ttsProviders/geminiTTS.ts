@@ -0,0 +1,125 @@
+/**
+ * Gemini TTS Provider
+ * Renders text to PCM audio with Gemini's speech models, for offline
+ * audiobook rendering where browser speechSynthesis cannot produce files
+ */
+
+import { env } from '../../utils/env';
+import { base64ToPcm16 } from '../../utils/audioUtils';
+import { GEMINI_DEFAULT_BASE_URL } from '../geminiService';
+import { createAbortError, isAbortError } from '../../utils/streaming';
+import { AppError } from '../../utils/errorHandling';
+import { recordTaskUsage } from '../modelOrchestrator';
+import type { AudiobookVoiceProfile, AudioSynthesisProvider } from '../../types/audiobook';
+import type { LlmProviderConfig } from '../../types/llmProviders';
+
+const GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+/** USD per million tokens; audio output is billed far above text */
+const GEMINI_TTS_COSTS = { input: 0.5, output: 10 };
+
+/** Prebuilt Gemini voices */
+export const GEMINI_TTS_VOICES = [
+  'Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr',
+  'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome',
+  'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar', 'Alnilam', 'Schedar',
+  'Gacrux', 'Pulcherrima', 'Achird', 'Zubenelgenubi', 'Vindemiatrix',
+  'Sadachbia', 'Sadaltager', 'Sulafat', 'Callirrhoe', 'Autonoe',
+];
+
+interface GeminiSpeechResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ inlineData?: { mimeType?: string; data?: string } }> };
+  }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  error?: { message: string };
+}
+
+/**
+ * Gemini speech models take natural-language direction rather than rate
+ * controls, so pace and style are phrased as an instruction before the text
+ */
+function directionFor(voice: AudiobookVoiceProfile): string {
+  const directions: string[] = [];
+  if (voice.rate < 0.9) directions.push('slowly');
+  else if (voice.rate > 1.1) directions.push('briskly');
+  if (voice.style) directions.push(voice.style);
+  return directions.length > 0 ? `Read ${directions.join(', ')}: ` : '';
+}
+
+export class GeminiTTSProvider implements AudioSynthesisProvider {
+  readonly id = 'gemini';
+  readonly sampleRate = 24000;
+  readonly acceptsSSML = false;
+  readonly voices = GEMINI_TTS_VOICES;
+
+  constructor(private baseUrl: string = GEMINI_DEFAULT_BASE_URL) {}
+
+  isAvailable(): boolean {
+    return !!env.gemini.apiKey;
+  }
+
+  async synthesize(text: string, voice: AudiobookVoiceProfile, signal?: AbortSignal): Promise<Int16Array> {
+    const apiKey = env.gemini.apiKey;
+    if (!apiKey) {
+      throw new AppError('GEMINI_API_KEY is required to render audio', 'TTS_UNAVAILABLE');
+    }
+
+    const prompt = directionFor(voice) + text;
+    const url = `${this.baseUrl.replace(/\/+$/, '')}/models/${GEMINI_TTS_MODEL}:generateContent?key=${apiKey}`;
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: prompt }] }],
+          generationConfig: {
+            responseModalities: ['AUDIO'],
+            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.voiceName } } },
+          },
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw createAbortError();
+      throw error;
+    }
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => '');
+      throw new AppError(`Gemini TTS error (${res.status}): ${body || res.statusText}`, 'TTS_FAILED', res.status, res.status === 429 || res.status >= 500);
+    }
+
+    const data = (await res.json()) as GeminiSpeechResponse;
+    if (data.error) {
+      throw new AppError(`Gemini TTS error: ${data.error.message}`, 'TTS_FAILED');
+    }
+    const audio = data.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+    if (!audio) {
+      throw new AppError('Gemini TTS returned no audio', 'TTS_FAILED');
+    }
+    this.recordUsage(prompt, data.usageMetadata);
+    return base64ToPcm16(audio);
+  }
+
+  private recordUsage(prompt: string, usage: GeminiSpeechResponse['usageMetadata']): void {
+    const config: LlmProviderConfig = {
+      id: 'gemini',
+      name: 'Gemini TTS',
+      kind: 'gemini',
+      baseUrl: this.baseUrl,
+      model: GEMINI_TTS_MODEL,
+      costs: GEMINI_TTS_COSTS,
+    };
+    const reported = usage && {
+      promptTokens: usage.promptTokenCount ?? 0,
+      completionTokens: usage.candidatesTokenCount ?? 0,
+      cacheHitTokens: 0,
+    };
+    recordTaskUsage('speech_synthesis', config, prompt, '', reported, undefined);
+  }
+}
+
+// Singleton instance
+export const geminiTTS = new GeminiTTSProvider();
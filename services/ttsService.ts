@@ -5,6 +5,7 @@
 
 import { BrowserTTSProvider, BrowserTTSOptions } from './ttsProviders/browserTTS';
 import { normalizeText } from '../utils/textProcessor';
+import type { PronunciationEntry } from '../types/pronunciation';
 
 export type TTSProvider = 'browser' | 'auto';
 
@@ -14,6 +15,7 @@ export interface TTSOptions {
   rate?: number; // Speed: 0.1 to 10
   pitch?: number; // 0 to 2
   volume?: number; // 0 to 1
+  lexicon?: PronunciationEntry[]; // Respellings for names and terms
   onProgress?: (progress: number) => void; // 0 to 1
 }
 
@@ -77,11 +79,12 @@ export class TTSService {
       rate = 1.0,
       pitch = 1.0,
       volume = 1.0,
+      lexicon,
       onProgress
     } = options;
 
     // Normalize text
-    const normalizedText = normalizeText(text);
+    const normalizedText = normalizeText(text, lexicon);
 
     // Select provider
     const selectedProvider = this.selectProvider(provider);
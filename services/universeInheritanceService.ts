@@ -0,0 +1,368 @@
+/**
+ * Universe Inheritance Service
+ *
+ * Keeps a novel's copies of shared universe entities in step with the
+ * universe. Each sync is a three-way merge per field against the universe
+ * state last synced: fields the novel left alone follow the universe, fields
+ * it changed are kept as per-novel overrides.
+ */
+
+import type { NovelState } from '../types';
+import type {
+  Universe,
+  UniverseCollection,
+  UniverseEntityLink,
+  UniverseLink,
+  UniverseOverride,
+} from '../types/universe';
+import { generateUUID } from '../utils/uuid';
+import { same } from './novelMergeService';
+
+type Entity = Record<string, unknown>;
+
+export const UNIVERSE_COLLECTIONS: UniverseCollection[] = ['realms', 'worldBible', 'characters', 'techniques', 'powerSystems'];
+
+/** NovelState field holding each universe collection */
+const NOVEL_FIELDS: Record<UniverseCollection, 'realms' | 'worldBible' | 'characterCodex' | 'novelTechniques' | 'powerSystems'> = {
+  realms: 'realms',
+  worldBible: 'worldBible',
+  characters: 'characterCodex',
+  techniques: 'novelTechniques',
+  powerSystems: 'powerSystems',
+};
+
+/** Fields inherited from the universe; everything else belongs to the novel */
+const SHARED_FIELDS: Record<UniverseCollection, string[]> = {
+  realms: ['name', 'description'],
+  worldBible: ['category', 'title', 'content'],
+  characters: ['name', 'age', 'personality', 'currentCultivation', 'appearance', 'background', 'goals', 'flaws', 'notes', 'portraitUrl', 'status'],
+  techniques: ['name', 'canonicalName', 'description', 'category', 'type', 'functions'],
+  powerSystems: ['name', 'category', 'stages', 'subStages', 'rules'],
+};
+
+/** Per-novel character state that never travels through the universe */
+const CHARACTER_NOVEL_FIELDS = ['relationships', 'techniqueMasteries', 'itemPossessions', 'createdByChapterId', 'lastUpdatedByChapterId', 'updateHistory', 'ageAnchorDay'];
+
+export const COLLECTION_LABELS: Record<UniverseCollection, string> = {
+  realms: 'Realms',
+  worldBible: 'World entries',
+  characters: 'Characters',
+  techniques: 'Techniques',
+  powerSystems: 'Power ladders',
+};
+
+/** Power ladders may lack an id; the built-in ones are keyed by category */
+function entityId(collection: UniverseCollection, entity: Entity): string {
+  if (collection === 'powerSystems') return String(entity.id ?? entity.category);
+  return String(entity.id);
+}
+
+export function entityLabel(collection: UniverseCollection, entity: Entity): string {
+  const label = collection === 'worldBible' ? entity.title : entity.name ?? entity.category;
+  return String(label || entityId(collection, entity));
+}
+
+function readCollection(novel: NovelState, collection: UniverseCollection): Entity[] {
+  return ((novel[NOVEL_FIELDS[collection]] as unknown as Entity[] | undefined) || []);
+}
+
+function writeCollection(novel: NovelState, collection: UniverseCollection, items: Entity[]): NovelState {
+  return { ...novel, [NOVEL_FIELDS[collection]]: items };
+}
+
+function sharedFields(collection: UniverseCollection, entity: Entity): Entity {
+  const shared: Entity = {};
+  SHARED_FIELDS[collection].forEach(field => {
+    if (entity[field] !== undefined) shared[field] = entity[field];
+  });
+  return shared;
+}
+
+/** Copy of an entity without its per-novel state, under a new id */
+function detach(collection: UniverseCollection, entity: Entity, id: string): Entity {
+  const copy: Entity = { ...entity, id };
+  if (collection === 'characters') {
+    CHARACTER_NOVEL_FIELDS.forEach(field => delete copy[field]);
+    copy.relationships = [];
+  }
+  if (collection === 'techniques') {
+    delete copy.createdByChapterId;
+    delete copy.lastUpdatedByChapterId;
+  }
+  return copy;
+}
+
+function newEntityId(collection: UniverseCollection, entity: Entity): string {
+  // Power ladders are keyed by id or category across novels, so they keep it
+  return collection === 'powerSystems' ? entityId(collection, entity) : generateUUID();
+}
+
+/** Universe entity id to novel entity id, for one collection */
+function linkMap(links: UniverseEntityLink[], collection: UniverseCollection): Map<string, string> {
+  return new Map(links.filter(l => l.collection === collection).map(l => [l.universeEntityId, l.novelEntityId]));
+}
+
+/** Copy a universe entity into the novel */
+function inherit(collection: UniverseCollection, entity: Entity, novel: NovelState, links: UniverseEntityLink[]): Entity {
+  const copy = detach(collection, entity, newEntityId(collection, entity));
+  const now = Date.now();
+  if (collection === 'worldBible') {
+    copy.realmId = linkMap(links, 'realms').get(String(entity.realmId)) || novel.currentRealmId || novel.realms[0]?.id || '';
+  }
+  if (collection === 'techniques') {
+    copy.novelId = novel.id;
+    copy.createdAt = now;
+    copy.updatedAt = now;
+  }
+  if (collection === 'characters') {
+    copy.skills = Array.isArray(entity.skills) ? entity.skills : [];
+    copy.items = Array.isArray(entity.items) ? entity.items : [];
+  }
+  return copy;
+}
+
+function matchesByName(collection: UniverseCollection, a: Entity, b: Entity): boolean {
+  if (collection === 'powerSystems') return entityId(collection, a) === entityId(collection, b);
+  const label = (e: Entity) => entityLabel(collection, e).trim().toLowerCase();
+  return label(a) === label(b);
+}
+
+/**
+ * Start a universe from a novel: its shared entities become the universe's,
+ * and the novel is linked to them with no overrides
+ */
+export function createUniverseFromNovel(novel: NovelState, name: string): { universe: Universe; novel: NovelState } {
+  const now = Date.now();
+  const links: UniverseEntityLink[] = [];
+  const collections = {} as Record<UniverseCollection, Entity[]>;
+
+  UNIVERSE_COLLECTIONS.forEach(collection => {
+    collections[collection] = readCollection(novel, collection).map(entity => {
+      const shared = detach(collection, entity, newEntityId(collection, entity));
+      links.push({
+        collection,
+        universeEntityId: entityId(collection, shared),
+        novelEntityId: entityId(collection, entity),
+        base: sharedFields(collection, shared),
+      });
+      return shared;
+    });
+  });
+
+  // World entries point at the universe's copies of their realms
+  const realmIds = new Map(links.filter(l => l.collection === 'realms').map(l => [l.novelEntityId, l.universeEntityId]));
+  collections.worldBible = collections.worldBible.map(entry => ({ ...entry, realmId: realmIds.get(String(entry.realmId)) || '' }));
+
+  const universe: Universe = {
+    id: generateUUID(),
+    name: name.trim() || novel.title,
+    description: '',
+    realms: collections.realms as unknown as Universe['realms'],
+    worldBible: collections.worldBible as unknown as Universe['worldBible'],
+    characters: collections.characters as unknown as Universe['characters'],
+    techniques: collections.techniques as unknown as Universe['techniques'],
+    powerSystems: collections.powerSystems as unknown as Universe['powerSystems'],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return {
+    universe,
+    novel: {
+      ...novel,
+      universeLink: { universeId: universe.id, links, excludedIds: [], syncedAt: now },
+      updatedAt: now,
+    },
+  };
+}
+
+/**
+ * Link a novel to a universe, or bring a linked novel up to date with it.
+ * Universe entities the novel lacks are copied in (or linked to a novel entity
+ * of the same name); fields the novel has not overridden take the universe's
+ * current values. Entities removed from the universe stay in the novel, unlinked.
+ */
+export function syncNovelWithUniverse(novel: NovelState, universe: Universe): { novel: NovelState; changes: string[] } {
+  const previous: UniverseLink | undefined = novel.universeLink?.universeId === universe.id ? novel.universeLink : undefined;
+  const excludedIds = new Set(previous?.excludedIds || []);
+  const links: UniverseEntityLink[] = [];
+  const changes: string[] = [];
+  let result = novel;
+
+  UNIVERSE_COLLECTIONS.forEach(collection => {
+    const items = [...readCollection(result, collection)];
+    const universeItems = (universe[collection] as unknown as Entity[]) || [];
+    const linkedNovelIds = new Set<string>();
+
+    universeItems.forEach(universeEntity => {
+      const universeId = entityId(collection, universeEntity);
+      if (excludedIds.has(universeId)) return;
+      const label = entityLabel(collection, universeEntity);
+      const shared = sharedFields(collection, universeEntity);
+      const existingLink = previous?.links.find(l => l.collection === collection && l.universeEntityId === universeId);
+
+      if (existingLink) {
+        const index = items.findIndex(item => entityId(collection, item) === existingLink.novelEntityId);
+        if (index < 0) {
+          // Deleted in the novel: opt out rather than copying it back in
+          excludedIds.add(universeId);
+          return;
+        }
+        const updated = { ...items[index] };
+        const inherited = SHARED_FIELDS[collection].filter(field =>
+          same(updated[field], existingLink.base[field]) && !same(shared[field], existingLink.base[field])
+        );
+        inherited.forEach(field => {
+          updated[field] = shared[field];
+        });
+        if (inherited.length > 0) {
+          items[index] = updated;
+          changes.push(`${label}: ${inherited.join(', ')} updated from the universe`);
+        }
+        linkedNovelIds.add(existingLink.novelEntityId);
+        links.push({ ...existingLink, base: shared });
+        return;
+      }
+
+      const match = items.find(item => !linkedNovelIds.has(entityId(collection, item)) && matchesByName(collection, item, universeEntity));
+      if (match) {
+        linkedNovelIds.add(entityId(collection, match));
+        links.push({ collection, universeEntityId: universeId, novelEntityId: entityId(collection, match), base: shared });
+        changes.push(`${label}: linked to the universe`);
+        return;
+      }
+
+      const copy = inherit(collection, universeEntity, result, links);
+      items.push(copy);
+      linkedNovelIds.add(entityId(collection, copy));
+      links.push({ collection, universeEntityId: universeId, novelEntityId: entityId(collection, copy), base: shared });
+      changes.push(`${label}: inherited from the universe`);
+    });
+
+    result = writeCollection(result, collection, items);
+  });
+
+  if (!result.currentRealmId && result.realms.length > 0) {
+    result = { ...result, currentRealmId: result.realms[0].id };
+  }
+
+  const now = Date.now();
+  return {
+    novel: {
+      ...result,
+      universeLink: { universeId: universe.id, links, excludedIds: [...excludedIds], syncedAt: now },
+      updatedAt: now,
+    },
+    changes,
+  };
+}
+
+/** Linked entities whose shared fields the novel has changed */
+export function getUniverseOverrides(novel: NovelState): UniverseOverride[] {
+  const link = novel.universeLink;
+  if (!link) return [];
+
+  const overrides: UniverseOverride[] = [];
+  link.links.forEach(entityLink => {
+    const entity = readCollection(novel, entityLink.collection)
+      .find(item => entityId(entityLink.collection, item) === entityLink.novelEntityId);
+    if (!entity) return;
+    const fields = SHARED_FIELDS[entityLink.collection].filter(field => !same(entity[field], entityLink.base[field]));
+    if (fields.length === 0) return;
+    overrides.push({
+      collection: entityLink.collection,
+      novelEntityId: entityLink.novelEntityId,
+      universeEntityId: entityLink.universeEntityId,
+      label: entityLabel(entityLink.collection, entity),
+      fields,
+    });
+  });
+  return overrides;
+}
+
+/** Novel entities not shared with the linked universe */
+export function getUnsharedEntities(novel: NovelState): Array<{ collection: UniverseCollection; id: string; label: string }> {
+  const linked = new Set((novel.universeLink?.links || []).map(l => `${l.collection}:${l.novelEntityId}`));
+  return UNIVERSE_COLLECTIONS.flatMap(collection =>
+    readCollection(novel, collection)
+      .filter(entity => !linked.has(`${collection}:${entityId(collection, entity)}`))
+      .map(entity => ({ collection, id: entityId(collection, entity), label: entityLabel(collection, entity) }))
+  );
+}
+
+/**
+ * Write a novel entity's shared fields to the universe, adding it to the
+ * universe when it is not linked yet. The novel is left with no override.
+ */
+export function publishToUniverse(
+  novel: NovelState,
+  universe: Universe,
+  collection: UniverseCollection,
+  novelEntityId: string
+): { novel: NovelState; universe: Universe } {
+  const link = novel.universeLink;
+  const entity = readCollection(novel, collection).find(item => entityId(collection, item) === novelEntityId);
+  if (!link || link.universeId !== universe.id || !entity) return { novel, universe };
+
+  const now = Date.now();
+  const universeItems = [...((universe[collection] as unknown as Entity[]) || [])];
+  const existingLink = link.links.find(l => l.collection === collection && l.novelEntityId === novelEntityId);
+  let links = link.links;
+
+  const existingIndex = existingLink
+    ? universeItems.findIndex(item => entityId(collection, item) === existingLink.universeEntityId)
+    : -1;
+
+  if (existingLink && existingIndex >= 0) {
+    const updated = { ...universeItems[existingIndex], ...sharedFields(collection, entity) };
+    universeItems[existingIndex] = updated;
+    links = links.map(l => (l === existingLink ? { ...l, base: sharedFields(collection, updated) } : l));
+  } else {
+    const shared = detach(collection, entity, newEntityId(collection, entity));
+    if (collection === 'worldBible') {
+      const realmLink = link.links.find(l => l.collection === 'realms' && l.novelEntityId === entity.realmId);
+      shared.realmId = realmLink?.universeEntityId || '';
+    }
+    universeItems.push(shared);
+    links = [
+      ...links.filter(l => l !== existingLink),
+      { collection, universeEntityId: entityId(collection, shared), novelEntityId, base: sharedFields(collection, shared) },
+    ];
+  }
+
+  return {
+    universe: { ...universe, [collection]: universeItems, updatedAt: now },
+    novel: { ...novel, universeLink: { ...link, links }, updatedAt: now },
+  };
+}
+
+/** Drop a novel entity's overrides so it follows the universe again */
+export function revertToUniverse(
+  novel: NovelState,
+  universe: Universe,
+  collection: UniverseCollection,
+  novelEntityId: string
+): NovelState {
+  const link = novel.universeLink;
+  const entityLink = link?.links.find(l => l.collection === collection && l.novelEntityId === novelEntityId);
+  const universeEntity = ((universe[collection] as unknown as Entity[]) || [])
+    .find(item => entityId(collection, item) === entityLink?.universeEntityId);
+  if (!link || !entityLink || !universeEntity) return novel;
+
+  const shared = sharedFields(collection, universeEntity);
+  const items = readCollection(novel, collection).map(item => {
+    if (entityId(collection, item) !== novelEntityId) return item;
+    const reverted = { ...item };
+    SHARED_FIELDS[collection].forEach(field => {
+      if (shared[field] === undefined) delete reverted[field];
+      else reverted[field] = shared[field];
+    });
+    return reverted;
+  });
+
+  return {
+    ...writeCollection(novel, collection, items),
+    universeLink: { ...link, links: link.links.map(l => (l === entityLink ? { ...l, base: shared } : l)) },
+    updatedAt: Date.now(),
+  };
+}
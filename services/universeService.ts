@@ -0,0 +1,93 @@
+/**
+ * Universe Service
+ * Handles CRUD operations for shared universes
+ */
+
+import { supabase, getCurrentUserId } from './supabaseService';
+import type { Universe } from '../types/universe';
+import { withRetry } from '../utils/errorHandling';
+
+const timestampToNumber = (ts: string | null): number => {
+  return ts ? new Date(ts).getTime() : Date.now();
+};
+
+/**
+ * Fetch all universes of the current user
+ */
+export async function fetchUniverses(): Promise<Universe[]> {
+  return withRetry(async () => {
+    const userId = await getCurrentUserId();
+    let query = supabase
+      .from('universes')
+      .select('*')
+      .order('created_at', { ascending: true });
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching universes:', error);
+      throw new Error(`Failed to fetch universes: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      name: row.name,
+      description: row.description || '',
+      realms: row.realms || [],
+      worldBible: row.world_bible || [],
+      characters: row.characters || [],
+      techniques: row.techniques || [],
+      powerSystems: row.power_systems || [],
+      createdAt: timestampToNumber(row.created_at),
+      updatedAt: timestampToNumber(row.updated_at),
+    }));
+  });
+}
+
+/**
+ * Save a universe
+ */
+export async function saveUniverse(universe: Universe): Promise<void> {
+  return withRetry(async () => {
+    const userId = await getCurrentUserId();
+    const { error } = await supabase
+      .from('universes')
+      .upsert({
+        id: universe.id,
+        ...(userId ? { user_id: userId } : {}),
+        name: universe.name,
+        description: universe.description,
+        realms: universe.realms,
+        world_bible: universe.worldBible,
+        characters: universe.characters,
+        techniques: universe.techniques,
+        power_systems: universe.powerSystems,
+        created_at: new Date(universe.createdAt).toISOString(),
+        updated_at: new Date(universe.updatedAt).toISOString(),
+      }, { onConflict: 'id' });
+
+    if (error) {
+      console.error('Error saving universe:', error);
+      throw new Error(`Failed to save universe: ${error.message}`);
+    }
+  });
+}
+
+/**
+ * Delete a universe; linked novels keep their copies of its entities
+ */
+export async function deleteUniverse(universeId: string): Promise<void> {
+  return withRetry(async () => {
+    const { error } = await supabase
+      .from('universes')
+      .delete()
+      .eq('id', universeId);
+
+    if (error) {
+      console.error('Error deleting universe:', error);
+      throw new Error(`Failed to delete universe: ${error.message}`);
+    }
+  });
+}
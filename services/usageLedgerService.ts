@@ -0,0 +1,296 @@
+/**
+ * Usage Ledger Service
+ *
+ * Persists one entry per routed LLM request in IndexedDB (provider, model,
+ * task, novel, chapter, reported tokens and cost) and enforces the monthly and
+ * per-novel budgets kept in localStorage.
+ */
+
+import type { LlmProviderCosts, LlmUsage } from '../types/llmProviders';
+import type {
+  BudgetCheckResult,
+  UsageBudget,
+  UsageBudgets,
+  UsageContext,
+  UsageLedgerEntry,
+  UsageSummary,
+  UsageTotals,
+} from '../types/usageLedger';
+import { generateUUID } from '../utils/uuid';
+import { logger } from './loggingService';
+
+const DB_NAME = 'usage_ledger';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const BUDGETS_STORAGE_KEY = 'apexforge.llm.budgets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let activeContext: UsageContext = {};
+
+function openLedger(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp', { unique: false });
+          store.createIndex('novelId', 'novelId', { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+function isLedgerAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Attribute subsequent requests to a novel (and chapter) unless a request names its own
+ */
+export function setUsageContext(context: UsageContext | null): void {
+  activeContext = context ? { ...context } : {};
+}
+
+export function getUsageContext(): UsageContext {
+  return { ...activeContext };
+}
+
+/**
+ * Cost in USD of a request, billing cache hits at the cached-input rate when the provider has one
+ */
+export function calculateUsageCost(costs: LlmProviderCosts, usage: LlmUsage): number {
+  const cacheHits = Math.min(usage.cacheHitTokens, usage.promptTokens);
+  const cachedRate = costs.cachedInput ?? costs.input;
+  return (
+    ((usage.promptTokens - cacheHits) * costs.input +
+      cacheHits * cachedRate +
+      usage.completionTokens * costs.output) / 1_000_000
+  );
+}
+
+/**
+ * Append an entry to the ledger. Never throws: a failed write is logged and
+ * must not fail the generation that produced it.
+ */
+export async function recordUsage(
+  entry: Omit<UsageLedgerEntry, 'id' | 'timestamp'>
+): Promise<UsageLedgerEntry | null> {
+  if (!isLedgerAvailable()) return null;
+
+  const record: UsageLedgerEntry = {
+    ...entry,
+    id: generateUUID(),
+    timestamp: Date.now(),
+  };
+  try {
+    const db = await openLedger();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(record);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    return record;
+  } catch (error) {
+    logger.warn('Failed to record LLM usage', 'usageLedger', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Ledger entries, oldest first, optionally limited to a novel and/or a start time
+ */
+export async function getUsageEntries(filter: { novelId?: string; since?: number } = {}): Promise<UsageLedgerEntry[]> {
+  if (!isLedgerAvailable()) return [];
+
+  const db = await openLedger();
+  const entries = await new Promise<UsageLedgerEntry[]>((resolve, reject) => {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const request = filter.novelId
+      ? store.index('novelId').getAll(filter.novelId)
+      : filter.since
+        ? store.index('timestamp').getAll(IDBKeyRange.lowerBound(filter.since))
+        : store.getAll();
+    request.onsuccess = () => resolve(request.result as UsageLedgerEntry[]);
+    request.onerror = () => reject(request.error);
+  });
+
+  return entries
+    .filter(entry => !filter.since || entry.timestamp >= filter.since)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export async function clearUsageLedger(): Promise<void> {
+  if (!isLedgerAvailable()) return;
+  const db = await openLedger();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Midnight on the first day of the month containing `date` (local time)
+ */
+export function getMonthStart(date: Date = new Date()): number {
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cacheHitTokens: 0,
+  cost: 0,
+});
+
+function addToTotals(totals: UsageTotals, entry: UsageLedgerEntry): void {
+  totals.requests++;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.cacheHitTokens += entry.cacheHitTokens;
+  totals.cost += entry.cost;
+}
+
+export function summarizeUsage(entries: UsageLedgerEntry[]): UsageSummary {
+  const summary: UsageSummary = { total: emptyTotals(), byProvider: {}, byTask: {}, byNovel: {} };
+  for (const entry of entries) {
+    addToTotals(summary.total, entry);
+    addToTotals(summary.byProvider[entry.providerId] ??= emptyTotals(), entry);
+    addToTotals(summary.byTask[entry.taskType] ??= emptyTotals(), entry);
+    if (entry.novelId) {
+      addToTotals(summary.byNovel[entry.novelId] ??= emptyTotals(), entry);
+    }
+  }
+  return summary;
+}
+
+export function getUsageBudgets(): UsageBudgets {
+  try {
+    const stored = localStorage.getItem(BUDGETS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return { monthly: parsed.monthly, novels: parsed.novels || {} };
+  } catch {
+    return { novels: {} };
+  }
+}
+
+function saveUsageBudgets(budgets: UsageBudgets): void {
+  try {
+    localStorage.setItem(BUDGETS_STORAGE_KEY, JSON.stringify(budgets));
+  } catch (error) {
+    logger.warn('Failed to save usage budgets', 'usageLedger', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Set the monthly cap, or pass null to remove it
+ */
+export function setMonthlyBudget(budget: UsageBudget | null): void {
+  const budgets = getUsageBudgets();
+  if (budget) {
+    budgets.monthly = budget;
+  } else {
+    delete budgets.monthly;
+  }
+  saveUsageBudgets(budgets);
+}
+
+/**
+ * Set a novel's cap, or pass null to remove it
+ */
+export function setNovelBudget(novelId: string, budget: UsageBudget | null): void {
+  const budgets = getUsageBudgets();
+  if (budget) {
+    budgets.novels[novelId] = budget;
+  } else {
+    delete budgets.novels[novelId];
+  }
+  saveUsageBudgets(budgets);
+}
+
+/**
+ * Compare spend plus the next request's estimate against the caps. The
+ * strictest outcome wins: any blocking cap that would be exceeded blocks.
+ */
+export function evaluateBudget(
+  budgets: UsageBudgets,
+  novelId: string,
+  spend: { monthSpent: number; novelSpent: number },
+  estimatedCost: number
+): BudgetCheckResult {
+  const checks: Array<{ label: string; spent: number; budget?: UsageBudget }> = [
+    { label: 'Monthly', spent: spend.monthSpent, budget: budgets.monthly },
+    { label: 'Novel', spent: spend.novelSpent, budget: budgets.novels[novelId] },
+  ];
+
+  let status: BudgetCheckResult['status'] = 'ok';
+  const messages: string[] = [];
+  for (const { label, spent, budget } of checks) {
+    if (!budget || spent + estimatedCost <= budget.limitUsd) continue;
+    messages.push(
+      `${label} budget of $${budget.limitUsd.toFixed(2)} would be exceeded ` +
+      `($${spent.toFixed(4)} spent + ~$${estimatedCost.toFixed(4)} for this request).`
+    );
+    if (budget.action === 'block') {
+      status = 'block';
+    } else if (status === 'ok') {
+      status = 'warn';
+    }
+  }
+
+  return {
+    status,
+    message: messages.length > 0 ? messages.join(' ') : undefined,
+    ...spend,
+    estimatedCost,
+  };
+}
+
+/**
+ * Check a novel's caps against the ledger before spending `estimatedCost`
+ */
+export async function checkUsageBudget(novelId: string, estimatedCost: number): Promise<BudgetCheckResult> {
+  const budgets = getUsageBudgets();
+  if (!budgets.monthly && !budgets.novels[novelId]) {
+    return { status: 'ok', monthSpent: 0, novelSpent: 0, estimatedCost };
+  }
+
+  const sumCost = (entries: UsageLedgerEntry[]) => entries.reduce((sum, entry) => sum + entry.cost, 0);
+  let monthEntries: UsageLedgerEntry[];
+  let novelEntries: UsageLedgerEntry[];
+  try {
+    [monthEntries, novelEntries] = await Promise.all([
+      budgets.monthly ? getUsageEntries({ since: getMonthStart() }) : Promise.resolve([]),
+      budgets.novels[novelId] ? getUsageEntries({ novelId }) : Promise.resolve([]),
+    ]);
+  } catch (error) {
+    // An unreadable ledger should not lock the user out of generating
+    logger.warn('Failed to read usage ledger for budget check', 'usageLedger', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { status: 'ok', monthSpent: 0, novelSpent: 0, estimatedCost };
+  }
+
+  return evaluateBudget(
+    budgets,
+    novelId,
+    { monthSpent: sumCost(monthEntries), novelSpent: sumCost(novelEntries) },
+    estimatedCost
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * Embedding Backends
+ *
+ * The embedding service can run against OpenAI, a local OpenAI-compatible
+ * embeddings server (Ollama, LM Studio, llama.cpp) or a lexical fallback that
+ * hashes words into a fixed-size vector and needs no network at all.
+ */
+
+import { env } from '../../utils/env';
+import { EMBEDDING_CONFIG } from '../../config/pinecone';
+import { logger } from '../loggingService';
+
+export type EmbeddingBackendId = 'openai' | 'local' | 'lexical';
+
+export interface EmbeddingBackendSettings {
+  /** 'auto' uses OpenAI when a key is configured and the lexical fallback otherwise */
+  backend: EmbeddingBackendId | 'auto';
+  /** Base URL of a local OpenAI-compatible server, e.g. http://localhost:11434/v1 */
+  localBaseUrl: string;
+  localModel: string;
+}
+
+export interface EmbeddingBatchOutput {
+  embeddings: number[][];
+  totalTokens: number;
+}
+
+export interface EmbeddingBackend {
+  id: EmbeddingBackendId;
+  label: string;
+  /** Model name, included in cache keys so switching models never reuses vectors */
+  model: string;
+  maxBatchSize: number;
+  /** True when requests leave the machine and batches should be paced */
+  remote: boolean;
+  /** Similarity below which a match is treated as noise by default */
+  defaultMinScore: number;
+  isAvailable(): boolean;
+  embed(texts: string[]): Promise<EmbeddingBatchOutput>;
+}
+
+const SETTINGS_STORAGE_KEY = 'apexforge.embeddings.settings';
+
+const DEFAULT_SETTINGS: EmbeddingBackendSettings = {
+  backend: 'auto',
+  localBaseUrl: 'http://localhost:11434/v1',
+  localModel: 'nomic-embed-text',
+};
+
+export const LEXICAL_EMBEDDING_DIMENSION = 512;
+
+export function getEmbeddingSettings(): EmbeddingBackendSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_SETTINGS };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveEmbeddingSettings(settings: Partial<EmbeddingBackendSettings>): EmbeddingBackendSettings {
+  const next = { ...getEmbeddingSettings(), ...settings };
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    logger.warn('Failed to save embedding settings', 'embeddingService', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return next;
+}
+
+/**
+ * POST to an OpenAI-compatible /embeddings endpoint and return vectors in input order
+ */
+async function requestEmbeddings(
+  url: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string> = {}
+): Promise<EmbeddingBatchOutput> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
+    throw new Error(`Embedding API error: ${error.error?.message || response.statusText}`);
+  }
+
+  const data = await response.json();
+  const embeddings: number[][] = [];
+  (data.data as Array<{ embedding: number[]; index: number }>).forEach((item, position) => {
+    embeddings[item.index ?? position] = item.embedding;
+  });
+  return { embeddings, totalTokens: data.usage?.total_tokens || 0 };
+}
+
+const openAiBackend: EmbeddingBackend = {
+  id: 'openai',
+  label: 'OpenAI',
+  model: EMBEDDING_CONFIG.model,
+  maxBatchSize: EMBEDDING_CONFIG.maxBatchSize,
+  remote: true,
+  defaultMinScore: 0.5,
+  isAvailable: () => Boolean(env.openai?.apiKey),
+  embed: texts => requestEmbeddings(
+    'https://api.openai.com/v1/embeddings',
+    { model: EMBEDDING_CONFIG.model, input: texts, dimensions: EMBEDDING_CONFIG.dimension },
+    { Authorization: `Bearer ${env.openai?.apiKey}` }
+  ),
+};
+
+function createLocalModelBackend(settings: EmbeddingBackendSettings): EmbeddingBackend {
+  const baseUrl = settings.localBaseUrl.trim().replace(/\/+$/, '');
+  return {
+    id: 'local',
+    label: 'Local model',
+    model: settings.localModel,
+    maxBatchSize: 32,
+    remote: false,
+    defaultMinScore: 0.5,
+    isAvailable: () => Boolean(baseUrl && settings.localModel),
+    embed: texts => requestEmbeddings(`${baseUrl}/embeddings`, { model: settings.localModel, input: texts }),
+  };
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+  'he', 'her', 'his', 'i', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'she', 'that', 'the',
+  'their', 'them', 'they', 'this', 'to', 'was', 'were', 'will', 'with', 'you',
+]);
+
+// Han, Hiragana, Katakana and Hangul are written without spaces between words
+const UNSPACED_SCRIPT = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+function lexicalTokens(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    if (UNSPACED_SCRIPT.test(word)) {
+      // Character bigrams stand in for words in unspaced scripts
+      const chars = Array.from(word);
+      if (chars.length === 1) tokens.push(chars[0]);
+      for (let i = 0; i < chars.length - 1; i++) tokens.push(chars[i] + chars[i + 1]);
+    } else if (!STOP_WORDS.has(word)) {
+      tokens.push(word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+    }
+  }
+  return tokens;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hash words into a fixed-size, L2-normalised vector (log-scaled term
+ * frequency, signed buckets to cancel out collisions)
+ */
+export function embedLexical(text: string, dimension: number = LEXICAL_EMBEDDING_DIMENSION): number[] {
+  const counts = new Map<string, number>();
+  for (const token of lexicalTokens(text)) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+
+  const vector = new Array<number>(dimension).fill(0);
+  for (const [token, count] of counts) {
+    const hash = fnv1a(token);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimension] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+const lexicalBackend: EmbeddingBackend = {
+  id: 'lexical',
+  label: 'Lexical (offline)',
+  model: `hashed-bow-${LEXICAL_EMBEDDING_DIMENSION}`,
+  maxBatchSize: 1000,
+  remote: false,
+  // Word-overlap similarity runs lower than neural embeddings for related text
+  defaultMinScore: 0.15,
+  isAvailable: () => true,
+  embed: async texts => ({ embeddings: texts.map(text => embedLexical(text)), totalTokens: 0 }),
+};
+
+/**
+ * The backend the embedding service uses under the current settings
+ */
+export function getActiveEmbeddingBackend(): EmbeddingBackend {
+  const settings = getEmbeddingSettings();
+  switch (settings.backend) {
+    case 'openai':
+      return openAiBackend;
+    case 'local':
+      return createLocalModelBackend(settings);
+    case 'lexical':
+      return lexicalBackend;
+    default:
+      return openAiBackend.isAvailable() ? openAiBackend : lexicalBackend;
+  }
+}
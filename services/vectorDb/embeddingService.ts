@@ -1,13 +1,13 @@
 /**
  * Embedding Service
  * 
- * Generates vector embeddings using OpenAI's text-embedding-3-small model.
+ * Generates vector embeddings with the active embedding backend (OpenAI, a local
+ * model server, or the offline lexical fallback).
  * Provides batching, caching, and error handling for efficient embedding operations.
  */
 
-import { env } from '../../utils/env';
-import { EMBEDDING_CONFIG } from '../../config/pinecone';
 import { logger } from '../loggingService';
+import { getActiveEmbeddingBackend, type EmbeddingBackend } from './embeddingBackends';
 
 export interface EmbeddingResult {
   text: string;
@@ -26,9 +26,9 @@ const embeddingCache = new Map<string, number[]>();
 const CACHE_MAX_SIZE = 1000;
 
 /**
- * Generate a cache key for a text
+ * Generate a cache key for a text embedded by a backend
  */
-function getCacheKey(text: string): string {
+function getCacheKey(text: string, backend: EmbeddingBackend): string {
   // Simple hash for cache key
   let hash = 0;
   for (let i = 0; i < text.length; i++) {
@@ -36,26 +36,36 @@ function getCacheKey(text: string): string {
     hash = ((hash << 5) - hash) + char;
     hash = hash & hash;
   }
-  return `emb_${hash}_${text.length}`;
+  return `emb_${backend.id}_${backend.model}_${hash}_${text.length}`;
+}
+
+function cacheEmbedding(cacheKey: string, embedding: number[]): void {
+  if (embeddingCache.size >= CACHE_MAX_SIZE) {
+    // Remove oldest entries (first 100)
+    const keys = Array.from(embeddingCache.keys()).slice(0, 100);
+    keys.forEach(key => embeddingCache.delete(key));
+  }
+  embeddingCache.set(cacheKey, embedding);
 }
 
 /**
  * Check if embedding is available
  */
 export function isEmbeddingServiceAvailable(): boolean {
-  return Boolean(env.openai?.apiKey);
+  return getActiveEmbeddingBackend().isAvailable();
 }
 
 /**
  * Generate embedding for a single text
  */
 export async function generateEmbedding(text: string): Promise<number[] | null> {
-  if (!isEmbeddingServiceAvailable()) {
-    logger.warn('Embedding service unavailable - OpenAI API key not configured', 'embeddingService');
+  const backend = getActiveEmbeddingBackend();
+  if (!backend.isAvailable()) {
+    logger.warn('Embedding service unavailable - backend not configured', 'embeddingService', { backend: backend.id });
     return null;
   }
 
-  const cacheKey = getCacheKey(text);
+  const cacheKey = getCacheKey(text, backend);
   
   // Check cache first
   const cached = embeddingCache.get(cacheKey);
@@ -65,38 +75,18 @@ export async function generateEmbedding(text: string): Promise<number[] | null>
   }
 
   try {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${env.openai?.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: EMBEDDING_CONFIG.model,
-        input: text,
-        dimensions: EMBEDDING_CONFIG.dimension,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-      throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
+    const { embeddings, totalTokens } = await backend.embed([text]);
+    const embedding = embeddings[0];
+    if (!embedding) {
+      throw new Error('Embedding backend returned no vector');
     }
 
-    const data = await response.json();
-    const embedding = data.data[0].embedding as number[];
-
-    // Cache the result
-    if (embeddingCache.size >= CACHE_MAX_SIZE) {
-      // Remove oldest entries (first 100)
-      const keys = Array.from(embeddingCache.keys()).slice(0, 100);
-      keys.forEach(key => embeddingCache.delete(key));
-    }
-    embeddingCache.set(cacheKey, embedding);
+    cacheEmbedding(cacheKey, embedding);
 
     logger.debug('Generated embedding', 'embeddingService', undefined, { 
+      backend: backend.id,
       textLength: text.length, 
-      tokens: data.usage?.total_tokens 
+      tokens: totalTokens,
     });
 
     return embedding;
@@ -111,8 +101,9 @@ export async function generateEmbedding(text: string): Promise<number[] | null>
  * Automatically chunks large batches to stay within API limits
  */
 export async function generateEmbeddingsBatch(texts: string[]): Promise<BatchEmbeddingResult> {
-  if (!isEmbeddingServiceAvailable()) {
-    logger.warn('Embedding service unavailable - OpenAI API key not configured', 'embeddingService');
+  const backend = getActiveEmbeddingBackend();
+  if (!backend.isAvailable()) {
+    logger.warn('Embedding service unavailable - backend not configured', 'embeddingService', { backend: backend.id });
     return {
       results: [],
       totalTokens: 0,
@@ -128,8 +119,7 @@ export async function generateEmbeddingsBatch(texts: string[]): Promise<BatchEmb
   const uncachedTexts: { index: number; text: string }[] = [];
   
   texts.forEach((text, index) => {
-    const cacheKey = getCacheKey(text);
-    const cached = embeddingCache.get(cacheKey);
+    const cached = embeddingCache.get(getCacheKey(text, backend));
     if (cached) {
       results[index] = { text, embedding: cached };
     } else {
@@ -143,56 +133,27 @@ export async function generateEmbeddingsBatch(texts: string[]): Promise<BatchEmb
   }
 
   // Process uncached texts in batches
-  const batchSize = EMBEDDING_CONFIG.maxBatchSize;
+  const batchSize = backend.maxBatchSize;
   
   for (let i = 0; i < uncachedTexts.length; i += batchSize) {
     const batch = uncachedTexts.slice(i, i + batchSize);
-    const batchTexts = batch.map(item => item.text);
 
     try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${env.openai?.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: EMBEDDING_CONFIG.model,
-          input: batchTexts,
-          dimensions: EMBEDDING_CONFIG.dimension,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: { message: response.statusText } }));
-        throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
-      }
-
-      const data = await response.json();
-      totalTokens += data.usage?.total_tokens || 0;
+      const output = await backend.embed(batch.map(item => item.text));
+      totalTokens += output.totalTokens;
 
       // Map embeddings back to original indices
-      data.data.forEach((item: { embedding: number[]; index: number }) => {
-        const originalItem = batch[item.index];
-        const embedding = item.embedding;
-        
-        results[originalItem.index] = { 
-          text: originalItem.text, 
-          embedding 
-        };
-
-        // Cache the result
-        const cacheKey = getCacheKey(originalItem.text);
-        if (embeddingCache.size >= CACHE_MAX_SIZE) {
-          const keys = Array.from(embeddingCache.keys()).slice(0, 100);
-          keys.forEach(key => embeddingCache.delete(key));
-        }
-        embeddingCache.set(cacheKey, embedding);
+      batch.forEach((item, position) => {
+        const embedding = output.embeddings[position];
+        if (!embedding) return;
+        results[item.index] = { text: item.text, embedding };
+        cacheEmbedding(getCacheKey(item.text, backend), embedding);
       });
 
       logger.debug('Generated batch embeddings', 'embeddingService', undefined, { 
+        backend: backend.id,
         batchSize: batch.length, 
-        tokens: data.usage?.total_tokens 
+        tokens: output.totalTokens,
       });
 
     } catch (error) {
@@ -201,7 +162,7 @@ export async function generateEmbeddingsBatch(texts: string[]): Promise<BatchEmb
     }
 
     // Rate limiting - small delay between batches
-    if (i + batchSize < uncachedTexts.length) {
+    if (backend.remote && i + batchSize < uncachedTexts.length) {
       await new Promise(resolve => setTimeout(resolve, 100));
     }
   }
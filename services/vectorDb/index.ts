@@ -15,18 +15,42 @@ export {
   combineFieldsForEmbedding,
 } from './embeddingService';
 
-// Pinecone service
+// Embedding backends
 export {
-  isPineconeReady,
-  ensureIndexExists,
+  getActiveEmbeddingBackend,
+  getEmbeddingSettings,
+  saveEmbeddingSettings,
+  embedLexical,
+  type EmbeddingBackend,
+  type EmbeddingBackendId,
+  type EmbeddingBackendSettings,
+} from './embeddingBackends';
+
+// Vector store (Pinecone or local, depending on configuration)
+export {
+  getActiveVectorStore,
+  isVectorStoreReady,
   upsertVectors,
   queryVectors,
   queryByText,
   deleteVectors,
   deleteAllVectorsForNovel,
+  getNovelStats,
+  type VectorStoreKind,
+} from './vectorStore';
+
+// Local vector store
+export {
+  matchesMetadataFilter,
+  cosineSimilarity,
+} from './localVectorStore';
+
+// Pinecone service
+export {
+  isPineconeReady,
+  ensureIndexExists,
   fetchVectors,
   getIndexStats,
-  getNovelStats,
   type PineconeVector,
   type PineconeQueryMatch,
   type PineconeQueryResult,
@@ -1,14 +1,15 @@
 /**
  * Indexing Pipeline
  * 
- * Manages the indexing of novel entities into Pinecone for semantic search.
+ * Manages the indexing of novel entities into the vector store for semantic search.
  * Supports full re-indexing, incremental updates, and background sync.
  */
 
 import { NovelState, Character, Chapter, WorldEntry, NovelItem, NovelTechnique, Antagonist, StoryThread, Arc, Territory } from '../../types';
 import { logger } from '../loggingService';
 import { generateEmbedding, generateEmbeddingsBatch, combineFieldsForEmbedding, prepareTextForEmbedding } from './embeddingService';
-import { upsertVectors, deleteVectors, deleteAllVectorsForNovel, getNovelStats, PineconeVector, isPineconeReady } from './pineconeService';
+import type { PineconeVector } from './pineconeService';
+import { upsertVectors, deleteVectors, deleteAllVectorsForNovel, getNovelStats, isVectorStoreReady } from './vectorStore';
 
 /**
  * Entity types that can be indexed
@@ -505,14 +506,14 @@ export async function fullReindex(state: NovelState): Promise<IndexingResult> {
 
   logger.info('Starting full reindex', 'indexingPipeline', { novelId: state.id });
 
-  // Check if Pinecone is ready
-  const ready = await isPineconeReady();
+  // Check if the vector store is ready
+  const ready = await isVectorStoreReady();
   if (!ready) {
     return {
       success: false,
       indexedCount: 0,
       failedCount: 0,
-      errors: ['Pinecone service not available'],
+      errors: ['Vector store not available'],
       duration: Date.now() - startTime,
     };
   }
@@ -643,9 +644,9 @@ export async function fullReindex(state: NovelState): Promise<IndexingResult> {
     }
   }
 
-  // Upsert all vectors to Pinecone
+  // Upsert all vectors to the vector store
   if (vectors.length > 0) {
-    logger.debug('Upserting vectors to Pinecone', 'indexingPipeline', undefined, { count: vectors.length });
+    logger.debug('Upserting vectors', 'indexingPipeline', undefined, { count: vectors.length });
     const result = await upsertVectors(state.id, vectors);
     if (result.errors.length > 0) {
       errors.push(...result.errors);
@@ -697,14 +698,14 @@ export async function incrementalIndex(
     changedEntities,
   });
 
-  // Check if Pinecone is ready
-  const ready = await isPineconeReady();
+  // Check if the vector store is ready
+  const ready = await isVectorStoreReady();
   if (!ready) {
     return {
       success: false,
       indexedCount: 0,
       failedCount: 0,
-      errors: ['Pinecone service not available'],
+      errors: ['Vector store not available'],
       duration: Date.now() - startTime,
     };
   }
@@ -853,7 +854,7 @@ export async function incrementalIndex(
     }
   }
 
-  // Upsert all vectors to Pinecone
+  // Upsert all vectors to the vector store
   if (vectors.length > 0) {
     const result = await upsertVectors(state.id, vectors);
     if (result.errors.length > 0) {
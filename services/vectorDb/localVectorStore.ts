@@ -0,0 +1,256 @@
+/**
+ * Local Vector Store
+ *
+ * Offline counterpart of the Pinecone service: vectors are kept in IndexedDB,
+ * searched by exact cosine similarity, and filtered with the same metadata
+ * operators Pinecone accepts. A novel's vectors are loaded into memory on first
+ * use, which keeps brute-force search fast at the scale of a single novel.
+ * Without IndexedDB (tests, private browsing) the store is memory-only.
+ */
+
+import { getNamespaceForNovel } from '../../config/pinecone';
+import { logger } from '../loggingService';
+import type { DeleteResult, PineconeQueryMatch, PineconeQueryResult, PineconeVector, UpsertResult } from './pineconeService';
+
+interface StoredVector extends PineconeVector {
+  /** `${namespace}::${id}` */
+  key: string;
+  namespace: string;
+}
+
+const DB_NAME = 'local_vector_store';
+const DB_VERSION = 1;
+const STORE_NAME = 'vectors';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const loadedNamespaces = new Map<string, Map<string, StoredVector>>();
+
+function isPersistent(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openStore(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('namespace', 'namespace', { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Namespace for a novel's vectors from one embedding space. Vectors from
+ * different backends are not comparable, so each backend gets its own.
+ */
+export function getLocalNamespace(novelId: string, spaceId: string): string {
+  return `${getNamespaceForNovel(novelId)}::${spaceId}`;
+}
+
+async function loadNamespace(namespace: string): Promise<Map<string, StoredVector>> {
+  const loaded = loadedNamespaces.get(namespace);
+  if (loaded) return loaded;
+
+  const vectors = new Map<string, StoredVector>();
+  if (isPersistent()) {
+    const db = await openStore();
+    const records = await new Promise<StoredVector[]>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('namespace').getAll(namespace);
+      request.onsuccess = () => resolve(request.result as StoredVector[]);
+      request.onerror = () => reject(request.error);
+    });
+    records.forEach(record => vectors.set(record.id, record));
+  }
+  loadedNamespaces.set(namespace, vectors);
+  return vectors;
+}
+
+async function writeRecords(put: StoredVector[], deleteKeys: string[]): Promise<void> {
+  if (!isPersistent() || (put.length === 0 && deleteKeys.length === 0)) return;
+  const db = await openStore();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    put.forEach(record => store.put(record));
+    deleteKeys.forEach(key => store.delete(key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function compare(value: unknown, operand: unknown, test: (a: number | string, b: number | string) => boolean): boolean {
+  if (typeof value === 'number' && typeof operand === 'number') return test(value, operand);
+  if (typeof value === 'string' && typeof operand === 'string') return test(value, operand);
+  return false;
+}
+
+function equals(value: unknown, operand: unknown): boolean {
+  // Pinecone list metadata matches when any element matches
+  return Array.isArray(value) ? value.includes(operand) : value === operand;
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+    return equals(value, condition);
+  }
+
+  return Object.entries(condition as Record<string, unknown>).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq': return equals(value, operand);
+      case '$ne': return value !== undefined && !equals(value, operand);
+      case '$in': return Array.isArray(operand) && operand.some(option => equals(value, option));
+      case '$nin': return Array.isArray(operand) && !operand.some(option => equals(value, option));
+      case '$gt': return compare(value, operand, (a, b) => a > b);
+      case '$gte': return compare(value, operand, (a, b) => a >= b);
+      case '$lt': return compare(value, operand, (a, b) => a < b);
+      case '$lte': return compare(value, operand, (a, b) => a <= b);
+      case '$exists': return (value !== undefined) === Boolean(operand);
+      default:
+        logger.warn('Unsupported metadata filter operator', 'localVectorStore', { operator });
+        return false;
+    }
+  });
+}
+
+/**
+ * Evaluate a Pinecone-style metadata filter ($eq, $ne, $in, $nin, $gt, $gte,
+ * $lt, $lte, $exists, $and, $or, and bare values as equality)
+ */
+export function matchesMetadataFilter(metadata: Record<string, any> | undefined, filter?: Record<string, any>): boolean {
+  if (!filter) return true;
+  const fields = metadata || {};
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as Record<string, any>[]).every(clause => matchesMetadataFilter(fields, clause));
+    }
+    if (key === '$or') {
+      return (condition as Record<string, any>[]).some(clause => matchesMetadataFilter(fields, clause));
+    }
+    return matchesCondition(fields[key], condition);
+  });
+}
+
+/**
+ * Insert or replace vectors in a namespace
+ */
+export async function upsertLocalVectors(namespace: string, vectors: PineconeVector[]): Promise<UpsertResult> {
+  try {
+    const stored = await loadNamespace(namespace);
+    const records = vectors.map(vector => ({ ...vector, key: `${namespace}::${vector.id}`, namespace }));
+    await writeRecords(records, []);
+    records.forEach(record => stored.set(record.id, record));
+    return { upsertedCount: records.length, errors: [] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Local vector upsert failed', 'localVectorStore', error instanceof Error ? error : new Error(message));
+    return { upsertedCount: 0, errors: [message] };
+  }
+}
+
+/**
+ * Top-K vectors in a namespace by cosine similarity, after metadata filtering
+ */
+export async function queryLocalVectors(
+  namespace: string,
+  queryVector: number[],
+  options: {
+    topK?: number;
+    filter?: Record<string, any>;
+    includeValues?: boolean;
+    includeMetadata?: boolean;
+  } = {}
+): Promise<PineconeQueryResult | null> {
+  const { topK = 10, filter, includeValues = false, includeMetadata = true } = options;
+
+  try {
+    const stored = await loadNamespace(namespace);
+    const matches: PineconeQueryMatch[] = [];
+    for (const record of stored.values()) {
+      if (!matchesMetadataFilter(record.metadata, filter)) continue;
+      matches.push({
+        id: record.id,
+        score: cosineSimilarity(queryVector, record.values),
+        values: includeValues ? record.values : undefined,
+        metadata: includeMetadata ? record.metadata : undefined,
+      });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return { matches: matches.slice(0, topK), namespace };
+  } catch (error) {
+    logger.error('Local vector query failed', 'localVectorStore', error instanceof Error ? error : new Error(String(error)));
+    return null;
+  }
+}
+
+export async function deleteLocalVectors(namespace: string, ids: string[]): Promise<DeleteResult> {
+  try {
+    const stored = await loadNamespace(namespace);
+    await writeRecords([], ids.map(id => `${namespace}::${id}`));
+    ids.forEach(id => stored.delete(id));
+    return { success: true, deletedCount: ids.length };
+  } catch (error) {
+    logger.error('Local vector delete failed', 'localVectorStore', error instanceof Error ? error : new Error(String(error)));
+    return { success: false };
+  }
+}
+
+/**
+ * Delete every namespace that starts with `prefix` (all embedding spaces of a novel)
+ */
+export async function deleteLocalNamespaces(prefix: string): Promise<DeleteResult> {
+  try {
+    for (const namespace of loadedNamespaces.keys()) {
+      if (namespace.startsWith(prefix)) loadedNamespaces.delete(namespace);
+    }
+    if (!isPersistent()) return { success: true };
+
+    const db = await openStore();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).index('namespace').openCursor(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    return { success: true };
+  } catch (error) {
+    logger.error('Local vector namespace delete failed', 'localVectorStore', error instanceof Error ? error : new Error(String(error)));
+    return { success: false };
+  }
+}
+
+export async function countLocalVectors(namespace: string): Promise<number> {
+  return (await loadNamespace(namespace)).size;
+}
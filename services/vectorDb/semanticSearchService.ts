@@ -2,13 +2,15 @@
  * Semantic Search Service
  * 
  * Provides high-level semantic search capabilities over the novel's indexed entities.
- * Uses Pinecone for vector similarity search with metadata filtering.
+ * Uses the active vector store (Pinecone or local) for similarity search with metadata filtering.
  */
 
 import { NovelState } from '../../types';
 import { logger } from '../loggingService';
-import { queryByText, queryVectors, isPineconeReady, PineconeQueryMatch } from './pineconeService';
+import type { PineconeQueryMatch } from './pineconeService';
+import { queryByText, queryVectors, isVectorStoreReady } from './vectorStore';
 import { generateEmbedding } from './embeddingService';
+import { getActiveEmbeddingBackend } from './embeddingBackends';
 import type { IndexableEntityType, VectorMetadata } from './indexingPipeline';
 
 /**
@@ -146,7 +148,7 @@ function matchToResult(match: PineconeQueryMatch): SemanticSearchResult | null {
 export async function semanticSearch(options: SemanticSearchQuery): Promise<SemanticSearchResults> {
   const startTime = Date.now();
   const topK = options.topK || 10;
-  const minScore = options.minScore || 0.5;
+  const minScore = options.minScore ?? getActiveEmbeddingBackend().defaultMinScore;
 
   logger.debug('Performing semantic search', 'semanticSearchService', undefined, {
     query: options.query.substring(0, 100),
@@ -155,10 +157,10 @@ export async function semanticSearch(options: SemanticSearchQuery): Promise<Sema
     topK,
   });
 
-  // Check if Pinecone is available
-  const ready = await isPineconeReady();
+  // Check if the vector store is available
+  const ready = await isVectorStoreReady();
   if (!ready) {
-    logger.warn('Pinecone not available for semantic search', 'semanticSearchService');
+    logger.warn('Vector store not available for semantic search', 'semanticSearchService');
     return {
       results: [],
       query: options.query,
@@ -235,7 +237,7 @@ export async function searchCharacters(
     novelId,
     types: ['character'],
     topK: options.topK || 5,
-    minScore: options.minScore || 0.5,
+    minScore: options.minScore,
     status: options.status,
   });
 }
@@ -253,7 +255,7 @@ export async function searchWorldBuilding(
     novelId,
     types: ['world_entry', 'territory'],
     topK: options.topK || 5,
-    minScore: options.minScore || 0.5,
+    minScore: options.minScore,
   });
 }
 
@@ -270,7 +272,7 @@ export async function searchPowerElements(
     novelId,
     types: ['technique', 'item'],
     topK: options.topK || 5,
-    minScore: options.minScore || 0.5,
+    minScore: options.minScore,
   });
 }
 
@@ -291,7 +293,7 @@ export async function searchPlotElements(
     novelId,
     types: ['story_thread', 'antagonist', 'arc'],
     topK: options.topK || 5,
-    minScore: options.minScore || 0.5,
+    minScore: options.minScore,
     status,
   });
 }
@@ -308,7 +310,7 @@ export async function searchAll(
     query,
     novelId,
     topK: options.topK || 10,
-    minScore: options.minScore || 0.5,
+    minScore: options.minScore,
   });
 }
 
@@ -341,7 +343,7 @@ export async function multiQuerySearch(
       novelId,
       types: options.types,
       topK: Math.ceil(topK / queries.length) + 3, // Get a few extra per query
-      minScore: options.minScore || 0.5,
+      minScore: options.minScore,
     })
   );
 
@@ -480,7 +482,7 @@ export async function getContextForChapterGeneration(
     maxWorldEntries = 3,
     maxPlotElements = 3,
     maxPowerElements = 3,
-    minScore = 0.5,
+    minScore,
   } = options;
 
   logger.debug('Getting context for chapter generation', 'semanticSearchService', undefined, {
@@ -0,0 +1,127 @@
+/**
+ * Vector Store
+ *
+ * Single entry point for vector storage and search. Uses Pinecone when it is
+ * configured and the active embedding backend produces vectors for its index
+ * (OpenAI), and the local IndexedDB store otherwise, so indexing and semantic
+ * search behave the same with or without a network.
+ */
+
+import { getNamespaceForNovel, isPineconeConfigured } from '../../config/pinecone';
+import { logger } from '../loggingService';
+import { getActiveEmbeddingBackend, type EmbeddingBackend } from './embeddingBackends';
+import { generateEmbedding } from './embeddingService';
+import {
+  countLocalVectors,
+  deleteLocalNamespaces,
+  deleteLocalVectors,
+  getLocalNamespace,
+  queryLocalVectors,
+  upsertLocalVectors,
+} from './localVectorStore';
+import * as pinecone from './pineconeService';
+import type { DeleteResult, PineconeQueryResult, PineconeVector, UpsertResult } from './pineconeService';
+
+export type VectorStoreKind = 'pinecone' | 'local';
+
+export interface VectorQueryOptions {
+  topK?: number;
+  filter?: Record<string, any>;
+  includeValues?: boolean;
+  includeMetadata?: boolean;
+}
+
+function usesPinecone(backend: EmbeddingBackend): boolean {
+  return backend.id === 'openai' && isPineconeConfigured();
+}
+
+/**
+ * Which store indexing and search currently go to
+ */
+export function getActiveVectorStore(): VectorStoreKind {
+  return usesPinecone(getActiveEmbeddingBackend()) ? 'pinecone' : 'local';
+}
+
+function localNamespace(novelId: string, backend: EmbeddingBackend): string {
+  return getLocalNamespace(novelId, `${backend.id}:${backend.model}`);
+}
+
+/**
+ * Check that vectors can be both embedded and stored
+ */
+export async function isVectorStoreReady(): Promise<boolean> {
+  const backend = getActiveEmbeddingBackend();
+  if (!backend.isAvailable()) {
+    return false;
+  }
+  return usesPinecone(backend) ? pinecone.isPineconeReady() : true;
+}
+
+export async function upsertVectors(novelId: string, vectors: PineconeVector[]): Promise<UpsertResult> {
+  const backend = getActiveEmbeddingBackend();
+  return usesPinecone(backend)
+    ? pinecone.upsertVectors(novelId, vectors)
+    : upsertLocalVectors(localNamespace(novelId, backend), vectors);
+}
+
+export async function queryVectors(
+  novelId: string,
+  queryVector: number[],
+  options: VectorQueryOptions = {}
+): Promise<PineconeQueryResult | null> {
+  const backend = getActiveEmbeddingBackend();
+  return usesPinecone(backend)
+    ? pinecone.queryVectors(novelId, queryVector, options)
+    : queryLocalVectors(localNamespace(novelId, backend), queryVector, options);
+}
+
+/**
+ * Query by text (generates embedding and queries)
+ */
+export async function queryByText(
+  novelId: string,
+  text: string,
+  options: Omit<VectorQueryOptions, 'includeValues'> = {}
+): Promise<PineconeQueryResult | null> {
+  const embedding = await generateEmbedding(text);
+  if (!embedding) {
+    logger.warn('Cannot query by text - no embedding generated', 'vectorStore');
+    return null;
+  }
+  return queryVectors(novelId, embedding, options);
+}
+
+export async function deleteVectors(novelId: string, ids: string[]): Promise<DeleteResult> {
+  const backend = getActiveEmbeddingBackend();
+  return usesPinecone(backend)
+    ? pinecone.deleteVectors(novelId, ids)
+    : deleteLocalVectors(localNamespace(novelId, backend), ids);
+}
+
+/**
+ * Delete all vectors for a novel. Locally this clears every embedding space,
+ * so vectors left behind by a previously selected backend go too.
+ */
+export async function deleteAllVectorsForNovel(novelId: string): Promise<DeleteResult> {
+  return usesPinecone(getActiveEmbeddingBackend())
+    ? pinecone.deleteAllVectorsForNovel(novelId)
+    : deleteLocalNamespaces(`${getNamespaceForNovel(novelId)}::`);
+}
+
+export async function getNovelStats(novelId: string): Promise<{
+  vectorCount: number;
+  namespace: string;
+} | null> {
+  const backend = getActiveEmbeddingBackend();
+  if (usesPinecone(backend)) {
+    return pinecone.getNovelStats(novelId);
+  }
+
+  const namespace = localNamespace(novelId, backend);
+  try {
+    return { vectorCount: await countLocalVectors(namespace), namespace };
+  } catch (error) {
+    logger.error('Failed to read local vector stats', 'vectorStore', error instanceof Error ? error : new Error(String(error)));
+    return null;
+  }
+}
@@ -1,6 +1,8 @@
 import { NovelState, Chapter, Character, VoiceAnalysis } from '../types';
 import { generateUUID } from '../utils/uuid';
 import { analyzeWritingStyle } from './contextAnalysis';
+import { getChapterAttribution, linesSpokenBy } from './dialogueAttributionService';
+import type { DialogueUtterance } from '../types/dialogue';
 
 /**
  * Voice Analysis Service
@@ -92,15 +94,21 @@ function analyzeCharacterVoices(
     return mentionCount >= 5;
   });
 
+  const attributions = new Map(chapters.map(ch => [ch.id, getChapterAttribution(ch, characters)]));
+
   majorCharacters.forEach(character => {
-    const characterChapters = chapters.filter(ch => 
-      (ch.content + ' ' + ch.summary).toLowerCase().includes(character.name.toLowerCase())
+    const spokenLines = new Map(
+      chapters.map(ch => [ch.id, linesSpokenBy(attributions.get(ch.id)!, character.id)])
+    );
+    const characterChapters = chapters.filter(ch =>
+      (ch.content + ' ' + ch.summary).toLowerCase().includes(character.name.toLowerCase()) ||
+      spokenLines.get(ch.id)!.length > 0
     );
 
     if (characterChapters.length === 0) return;
 
     // Extract dialogue for this character
-    const dialogue = extractCharacterDialogue(characterChapters, character.name);
+    const dialogue = extractCharacterDialogue(characterChapters, spokenLines);
 
     // Analyze dialogue patterns
     const speechPatterns = analyzeSpeechPatterns(dialogue, character.name);
@@ -145,34 +153,14 @@ function analyzeCharacterVoices(
 }
 
 /**
- * Extracts dialogue for a character
+ * Extracts the dialogue attributed to a character
  */
-function extractCharacterDialogue(chapters: Chapter[], characterName: string): string[] {
-  const dialogue: string[] = [];
-  const nameLower = characterName.toLowerCase();
-
-  chapters.forEach(chapter => {
-    const content = chapter.content;
-    // Extract quoted text (dialogue)
-    const dialogueMatches = content.match(/"[^"]*"/g) || [];
-    
-    dialogueMatches.forEach(match => {
-      // Check if dialogue might be from this character
-      // (Simplified: check if character name appears nearby)
-      const matchIndex = content.indexOf(match);
-      const context = content.substring(Math.max(0, matchIndex - 100), matchIndex + match.length + 100).toLowerCase();
-      
-      if (context.includes(nameLower) || context.includes('said') || context.includes('asked')) {
-        // Clean dialogue (remove quotes)
-        const cleanDialogue = match.replace(/^"|"$/g, '');
-        if (cleanDialogue.length > 10) {
-          dialogue.push(cleanDialogue);
-        }
-      }
-    });
-  });
-
-  return dialogue;
+function extractCharacterDialogue(chapters: Chapter[], spokenLines: Map<string, DialogueUtterance[]>): string[] {
+  return chapters.flatMap(chapter =>
+    (spokenLines.get(chapter.id) || [])
+      .map(line => line.text)
+      .filter(text => text.length > 10)
+  );
 }
 
 /**
@@ -1,4 +1,5 @@
 import { NovelState, Chapter, Character, WorldEntry, NovelItem, NovelTechnique, Territory } from '../types';
+import { estimateTokens } from './promptEngine/tokenEstimator';
 
 /**
  * Story Constants - Extracted from World Bible
@@ -157,8 +158,6 @@ export class WorldBibleExtractor {
    * Builds a compact constraint prompt (max ~2000 tokens) for large novels
    */
   static buildCompactConstraintPrompt(constants: StoryConstants, maxTokens: number = 2000): string {
-    const estimateTokens = (text: string): number => Math.ceil(text.length / 4 * 1.2);
-    
     let prompt = 'CRITICAL STORY CONSTANTS - DO NOT CHANGE:\n\n';
     let currentTokens = estimateTokens(prompt);
 
@@ -250,7 +249,7 @@ export class WorldBibleExtractor {
 
     // Check if we should use compact version based on size
     const fullPrompt = this.buildFullConstraintPrompt(constants);
-    const estimatedTokens = Math.ceil(fullPrompt.length / 4 * 1.2);
+    const estimatedTokens = estimateTokens(fullPrompt);
     
     // Auto-switch to compact if over 2000 tokens
     if (estimatedTokens > 2000) {
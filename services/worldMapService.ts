@@ -0,0 +1,252 @@
+/**
+ * World Map Service
+ *
+ * Spatial queries over the world map: where territories sit relative to each
+ * other, the shortest known route between them, and the geography section of
+ * the chapter prompt.
+ */
+
+import type { NovelState, Territory } from '../types';
+import {
+  WORLD_MAP_WIDTH,
+  type MapPoint,
+  type RealmMapCanvas,
+  type TerritoryMapPlacement,
+  type TravelRoute,
+  type TravelTimeUnit,
+  type WorldMapState,
+} from '../types/worldMap';
+
+const HOURS_PER_UNIT: Record<TravelTimeUnit, number> = {
+  hours: 1,
+  days: 24,
+  weeks: 24 * 7,
+  months: 24 * 30,
+};
+
+const COMPASS = ['east', 'north-east', 'north', 'north-west', 'west', 'south-west', 'south', 'south-east'];
+
+/** Locations compared in one prompt; pairs grow quadratically */
+const MAX_LOCATIONS_IN_CONTEXT = 5;
+
+export interface RouteLeg {
+  route: TravelRoute;
+  from: Territory;
+  to: Territory;
+}
+
+export interface FoundRoute {
+  legs: RouteLeg[];
+  /** Total travel time in hours; undefined when any leg has no travel time */
+  totalHours?: number;
+}
+
+export function createEmptyWorldMap(): WorldMapState {
+  return { canvases: [], routes: [] };
+}
+
+export function getRealmCanvas(worldMap: WorldMapState | undefined, realmId: string): RealmMapCanvas {
+  return worldMap?.canvases.find(c => c.realmId === realmId) || { realmId };
+}
+
+/**
+ * Centre of a territory's placement: the pin itself, or the polygon centroid
+ */
+export function getPlacementCenter(placement: TerritoryMapPlacement): MapPoint {
+  if (placement.kind === 'pin') return placement.point;
+
+  const { points } = placement;
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+
+  if (Math.abs(area) < 1e-9) {
+    // Degenerate outline: fall back to the vertex average
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    };
+  }
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+}
+
+/**
+ * Eight-point compass direction from one point to another (north is up)
+ */
+export function compassDirection(from: MapPoint, to: MapPoint): string {
+  const angle = Math.atan2(from.y - to.y, to.x - from.x);
+  const sector = Math.round(angle / (Math.PI / 4));
+  return COMPASS[(sector + 8) % 8];
+}
+
+/**
+ * Straight-line distance in the canvas's in-world unit, or null without a scale
+ */
+export function mapDistance(from: MapPoint, to: MapPoint, canvas: RealmMapCanvas): { value: number; unit: string } | null {
+  if (!canvas.widthDistance || canvas.widthDistance <= 0) return null;
+  const units = Math.hypot(to.x - from.x, to.y - from.y);
+  return {
+    value: (units / WORLD_MAP_WIDTH) * canvas.widthDistance,
+    unit: canvas.distanceUnit || 'units',
+  };
+}
+
+export function routeHours(route: TravelRoute): number | undefined {
+  if (route.travelTime === undefined || route.travelTime < 0) return undefined;
+  return route.travelTime * HOURS_PER_UNIT[route.travelTimeUnit || 'days'];
+}
+
+export function formatTravelHours(hours: number): string {
+  if (hours < 24) return `${Math.round(hours * 10) / 10} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.round((hours / 24) * 10) / 10;
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+/**
+ * Quickest known route between two territories. Legs without a travel time
+ * are weighted by the average known leg so they neither vanish nor dominate.
+ */
+export function findRoute(state: NovelState, fromId: string, toId: string): FoundRoute | null {
+  const routes = state.worldMap?.routes || [];
+  const territories = new Map(state.territories.map(t => [t.id, t]));
+  if (fromId === toId || !territories.has(fromId) || !territories.has(toId)) return null;
+
+  const known = routes.map(routeHours).filter((h): h is number => h !== undefined);
+  const fallbackWeight = known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 1;
+
+  const adjacency = new Map<string, { route: TravelRoute; next: string }[]>();
+  routes.forEach(route => {
+    if (!territories.has(route.fromTerritoryId) || !territories.has(route.toTerritoryId)) return;
+    // Routes are travelled both ways
+    const add = (a: string, b: string) => adjacency.set(a, [...(adjacency.get(a) || []), { route, next: b }]);
+    add(route.fromTerritoryId, route.toTerritoryId);
+    add(route.toTerritoryId, route.fromTerritoryId);
+  });
+
+  const cost = new Map<string, number>([[fromId, 0]]);
+  const previous = new Map<string, { route: TravelRoute; from: string }>();
+  const visited = new Set<string>();
+
+  while (true) {
+    let current: string | null = null;
+    let currentCost = Infinity;
+    for (const [id, value] of cost) {
+      if (!visited.has(id) && value < currentCost) {
+        current = id;
+        currentCost = value;
+      }
+    }
+    if (current === null) return null;
+    if (current === toId) break;
+    visited.add(current);
+
+    for (const { route, next } of adjacency.get(current) || []) {
+      const candidate = currentCost + (routeHours(route) ?? fallbackWeight);
+      if (candidate < (cost.get(next) ?? Infinity)) {
+        cost.set(next, candidate);
+        previous.set(next, { route, from: current });
+      }
+    }
+  }
+
+  const legs: RouteLeg[] = [];
+  for (let at = toId; at !== fromId; ) {
+    const step = previous.get(at)!;
+    legs.unshift({ route: step.route, from: territories.get(step.from)!, to: territories.get(at)! });
+    at = step.from;
+  }
+
+  const hours = legs.map(leg => routeHours(leg.route));
+  return {
+    legs,
+    totalHours: hours.every(h => h !== undefined) ? hours.reduce((a, b) => a! + b!, 0) : undefined,
+  };
+}
+
+function describeLeg(leg: RouteLeg): string {
+  const hours = routeHours(leg.route);
+  const details = [hours !== undefined ? formatTravelHours(hours) : null, leg.route.travelMode].filter(Boolean);
+  const via = leg.route.name ? ` via ${leg.route.name}` : '';
+  return `${leg.to.name}${via}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+/**
+ * Territories of the current realm named in the text, in order of first
+ * mention. Longer names are matched first so "Blackstone City" is not also
+ * counted as "Blackstone".
+ */
+export function findMentionedTerritories(state: NovelState, text: string): Territory[] {
+  if (!text) return [];
+  const candidates = state.territories
+    .filter(t => t.realmId === state.currentRealmId && t.name.trim().length > 1)
+    .sort((a, b) => b.name.length - a.name.length);
+
+  // Matches are blanked out at the same length so positions stay comparable
+  let remaining = text;
+  const found: { territory: Territory; position: number }[] = [];
+  candidates.forEach(territory => {
+    const escaped = territory.name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`\\b${escaped}\\b`, 'gi');
+    const position = remaining.search(pattern);
+    if (position >= 0) {
+      found.push({ territory, position });
+      remaining = remaining.replace(pattern, match => ' '.repeat(match.length));
+    }
+  });
+  return found.sort((a, b) => a.position - b.position).map(entry => entry.territory);
+}
+
+/**
+ * Distances, directions and routes between the locations mentioned in `text`,
+ * formatted for the chapter prompt
+ */
+export function buildGeographyContext(state: NovelState, text: string): string | undefined {
+  const mentioned = findMentionedTerritories(state, text).slice(0, MAX_LOCATIONS_IN_CONTEXT);
+  if (mentioned.length < 2) return undefined;
+
+  const canvas = getRealmCanvas(state.worldMap, state.currentRealmId);
+  const lines: string[] = [];
+
+  for (let i = 0; i < mentioned.length; i++) {
+    for (let j = i + 1; j < mentioned.length; j++) {
+      const from = mentioned[i];
+      const to = mentioned[j];
+      const facts: string[] = [];
+
+      if (from.mapPlacement && to.mapPlacement) {
+        const a = getPlacementCenter(from.mapPlacement);
+        const b = getPlacementCenter(to.mapPlacement);
+        const distance = mapDistance(a, b, canvas);
+        facts.push(
+          `${to.name} lies ${compassDirection(a, b)} of ${from.name}` +
+          (distance ? `, about ${Math.round(distance.value)} ${distance.unit} as the crow flies` : '')
+        );
+      }
+
+      const route = findRoute(state, from.id, to.id);
+      if (route) {
+        const total = route.totalHours !== undefined ? ` — ${formatTravelHours(route.totalHours)} in total` : '';
+        facts.push(`Route: ${from.name} → ${route.legs.map(describeLeg).join(' → ')}${total}`);
+      }
+
+      if (facts.length > 0) {
+        lines.push(`- ${facts.join('. ')}.`);
+      }
+    }
+  }
+
+  if (lines.length === 0) return undefined;
+  return [
+    '[GEOGRAPHY - LOCATIONS IN PLAY]',
+    'Keep distances, directions and travel times consistent with the world map:',
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,19 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { exportLlmFixtures, loadLlmFixtures } from '../../services/llmFixtureService';
+
+/**
+ * Test helpers for LLM fixture files (Node only).
+ *
+ * Record a run with setLlmFixtureMode('record') and save it here; later runs
+ * load the file and replay the responses.
+ */
+
+export function loadLlmFixtureFile(path: string): void {
+  loadLlmFixtures(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+export function saveLlmFixtureFile(path: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(exportLlmFixtures(), null, 2) + '\n');
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildChapterScript } from '../../../services/audiobook/audiobookScript';
+import { castVoices, voiceFor } from '../../../services/audiobook/voiceCasting';
+import {
+  buildCueSheet,
+  loadRenderJob,
+  renderAudiobook,
+  AudioSegmentCache,
+} from '../../../services/audiobook/audiobookRenderer';
+import type { AudioSynthesisProvider } from '../../../types/audiobook';
+import type { Chapter, Character, NovelState } from '../../../types';
+
+const character = (id: string, name: string): Character => ({
+  id, name, isProtagonist: id === 'lin', age: '', personality: '', currentCultivation: '',
+  skills: [], items: [], notes: '', status: 'Alive', relationships: [],
+});
+
+const chapter = (number: number, content: string): Chapter => ({
+  id: `ch-${number}`, number, title: `Trial ${number}`, content, summary: '', scenes: [], createdAt: 0,
+});
+
+const novel = (chapters: Chapter[]): NovelState => ({
+  id: 'novel-1',
+  title: 'Jade Sky',
+  chapters,
+  characterCodex: [character('lin', 'Lin Feng'), character('su', 'Su Yan')],
+  plotLedger: [],
+} as unknown as NovelState);
+
+const dialogue = [
+  '"You came," said Su Yan.',
+  'Lin Feng nodded. "I promised."',
+  '"And the elders?"',
+  '"They will not know."',
+  '* * *',
+  'Dawn broke over the peak.',
+].join('\n\n');
+
+/** Ten samples per character of input, so durations are predictable */
+const fakeProvider = (calls: string[]): AudioSynthesisProvider => ({
+  id: 'fake',
+  sampleRate: 1000,
+  acceptsSSML: false,
+  voices: ['Narrator', 'A', 'B'],
+  isAvailable: () => true,
+  synthesize: async (text, voice) => {
+    calls.push(`${voice.voiceName}:${text}`);
+    return new Int16Array(text.length * 10).fill(100);
+  },
+});
+
+const memoryCache = (): AudioSegmentCache => {
+  const store = new Map<string, ArrayBuffer>();
+  const key = (text: string, voice: string, speed: number, provider: string) => `${provider}|${voice}|${speed}|${text}`;
+  return {
+    get: async (text, voice, speed, provider) => store.get(key(text, voice, speed, provider)) ?? null,
+    set: async (text, voice, speed, provider, audio) => {
+      store.set(key(text, voice, speed, provider), audio);
+    },
+  };
+};
+
+describe('audiobook', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('attributes dialogue by tag, mention and turn-taking', () => {
+    const script = buildChapterScript(chapter(1, dialogue), novel([]));
+    const lines = script.segments.filter(s => s.kind === 'dialogue').map(s => [s.text, s.speakerId]);
+    expect(lines).toEqual([
+      ['You came,', 'su'],
+      ['I promised.', 'lin'],
+      ['And the elders?', 'su'],
+      ['They will not know.', 'lin'],
+    ]);
+    expect(script.segments[0]).toMatchObject({ kind: 'heading', text: 'Chapter 1. Trial 1' });
+    expect(script.segments.find(s => s.sceneBreak)?.text).toBe('They will not know.');
+
+    const cast = castVoices(novel([]), ['Narrator', 'A', 'B'], ['su', 'lin']);
+    expect(cast.characters).toEqual({ lin: { voiceName: 'A', rate: 1 }, su: { voiceName: 'B', rate: 1 } });
+    expect(voiceFor(cast, undefined).voiceName).toBe('Narrator');
+  });
+
+  it('renders WAV files with chapter and scene cue markers', async () => {
+    const calls: string[] = [];
+    const state = novel([chapter(1, dialogue)]);
+    const files: Array<{ data: Uint8Array; markers: Array<{ label: string; time: number }> }> = [];
+    await renderAudiobook(state, state.chapters, {
+      provider: fakeProvider(calls),
+      cast: castVoices(state, ['Narrator', 'A', 'B'], ['lin', 'su']),
+      onChapterRendered: file => {
+        files.push(file);
+      },
+    });
+
+    expect(calls).toContain('B:You came,');
+    expect(calls).toContain('Narrator:Lin Feng nodded.');
+    expect(files).toHaveLength(1);
+    const text = new TextDecoder().decode(files[0].data);
+    expect(text.startsWith('RIFF')).toBe(true);
+    expect(text).toContain('WAVEfmt ');
+    expect(text).toContain('cue ');
+    expect(text).toContain('Chapter 1: Trial 1');
+    expect(files[0].markers.map(m => m.label)).toEqual(['Chapter 1: Trial 1', 'Scene 2']);
+    expect(files[0].markers[1].time).toBeGreaterThan(0);
+    expect(loadRenderJob(state.id)).toBeNull();
+  });
+
+  it('resumes an interrupted render from the saved job and the audio cache', async () => {
+    const state = novel([chapter(1, dialogue), chapter(2, 'Silence.')]);
+    const cache = memoryCache();
+    const cast = castVoices(state, ['Narrator', 'A', 'B'], ['lin', 'su']);
+    const first: string[] = [];
+    const failing: AudioSynthesisProvider = {
+      ...fakeProvider(first),
+      synthesize: async (text, voice) => {
+        if (text === 'Silence.') throw new Error('quota exceeded');
+        return fakeProvider(first).synthesize(text, voice);
+      },
+    };
+    await expect(
+      renderAudiobook(state, state.chapters, { provider: failing, cast, cache, onChapterRendered: () => {} })
+    ).rejects.toThrow('quota exceeded');
+
+    const job = loadRenderJob(state.id);
+    expect(job?.completed.map(c => c.chapterNumber)).toEqual([1]);
+
+    const second: string[] = [];
+    const delivered: number[] = [];
+    const finished = await renderAudiobook(state, state.chapters, {
+      provider: fakeProvider(second),
+      cast,
+      cache,
+      job,
+      onChapterRendered: file => {
+        delivered.push(file.chapterNumber);
+      },
+    });
+    expect(delivered).toEqual([2]);
+    // The chapter 2 heading was synthesized before the failure, so only the prose is new
+    expect(second).toEqual(['Narrator:Silence.']);
+    expect(buildCueSheet(state, finished)).toContain('FILE "jade_sky_chapter_002.wav" WAVE');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildChapterTimeline,
+  chapterInWorldDay,
+  checkCalendarContinuity,
+  currentCharacterAges,
+  formatInWorldDate,
+} from '../../../services/calendarService';
+import type { Chapter, Character, NovelState } from '../../../types';
+import type { NovelCalendar } from '../../../types/calendar';
+
+const calendar: NovelCalendar = {
+  months: [
+    { name: 'Frost Moon', days: 40 },
+    { name: 'Bloom Moon', days: 40 },
+    { name: 'Ember Moon', days: 20 },
+  ],
+  eras: [{ name: 'Azure Dragon Era', startYear: 3 }],
+  storyStartDay: 0,
+};
+
+const chapter = (number: number, content: string): Chapter => ({
+  id: `ch-${number}`, number, title: `Chapter ${number}`, content, summary: '', scenes: [], createdAt: 0,
+});
+
+const character: Character = {
+  id: 'char-1', name: 'Lin Feng', isProtagonist: true, age: '16', personality: '', currentCultivation: '',
+  skills: [], items: [], notes: '', status: 'Alive', relationships: [],
+};
+
+function novel(chapters: Chapter[]): NovelState {
+  return {
+    id: 'novel-1',
+    title: 'Jade Manuscripts',
+    genre: 'Xianxia',
+    chapters,
+    plotLedger: [],
+    grandSaga: '',
+    characterCodex: [character],
+    tags: [],
+    realms: [],
+    territories: [],
+    worldBible: [],
+    systemLogs: [],
+    writingGoals: [],
+    createdAt: 0,
+    updatedAt: 0,
+    currentRealmId: '',
+    calendar,
+  };
+}
+
+describe('calendarService', () => {
+  it('formats dates with custom month lengths and era-relative years', () => {
+    // Year 4 (second year of the era), 45 days in: Day 6 of Bloom Moon
+    expect(formatInWorldDate(3 * 100 + 45, calendar)).toBe('Day 6 of Bloom Moon, Year 2 of the Azure Dragon Era');
+    expect(formatInWorldDate(0, calendar)).toBe('Day 1 of Frost Moon, Year 1');
+  });
+
+  it('places chapters by time cues and seclusions, advancing ages', () => {
+    const state = novel([
+      chapter(1, 'Lin Feng entered seclusion, vowing 10 years of cultivation before he would emerge.'),
+      chapter(2, 'The mountain mist had thinned by the time the cave seal finally cracked.'),
+      chapter(3, 'Three days later, the sect elders summoned him.'),
+    ]);
+
+    const timeline = buildChapterTimeline(state);
+
+    expect(timeline.map(entry => entry.day)).toEqual([0, 1000, 1003]);
+    expect(timeline[2].cue).toBe('Three days later');
+    expect(currentCharacterAges(state).get('char-1')).toBe(26);
+  });
+
+  it('advances ages stored as bare numbers', () => {
+    const state = novel([
+      chapter(1, 'Lin Feng entered seclusion, vowing 10 years of cultivation before he would emerge.'),
+      chapter(2, 'The cave seal finally cracked.'),
+    ]);
+    // Chapter processing can write the LLM's number straight into the codex
+    state.characterCodex = [{ ...character, age: 16 as unknown as string }];
+
+    expect(currentCharacterAges(state).get('char-1')).toBe(26);
+  });
+
+  it('anchors a newcomer\'s age to the chapter that introduces them', () => {
+    const state = novel([
+      chapter(1, 'Lin Feng entered seclusion, vowing 10 years of cultivation before he would emerge.'),
+      chapter(2, 'The cave seal finally cracked.'),
+    ]);
+    const incoming = chapter(3, 'Three days later, a 20-year-old envoy arrived.');
+
+    const ageAnchorDay = chapterInWorldDay(state, incoming);
+    state.chapters.push(incoming);
+    state.characterCodex = [{ ...character, id: 'char-2', name: 'Envoy', age: '20', ageAnchorDay }];
+
+    expect(ageAnchorDay).toBe(1003);
+    expect(currentCharacterAges(state).get('char-2')).toBe(20);
+  });
+
+  it('flags a short time cue straight after a long seclusion', () => {
+    const state = novel([
+      chapter(1, 'Lin Feng entered seclusion, vowing 10 years of cultivation before he would emerge.'),
+      chapter(2, 'Three days later, he walked into the market square.'),
+    ]);
+
+    const issues = checkCalendarContinuity(state);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('timeline-gap');
+    expect(issues[0].message).toContain('10 years');
+    expect(checkCalendarContinuity(novel([
+      chapter(1, 'Lin Feng entered seclusion, vowing 10 years of cultivation before he would emerge.'),
+      chapter(2, 'Meanwhile, three days later, his rival reached the capital.'),
+    ]))).toHaveLength(0);
+  });
+});
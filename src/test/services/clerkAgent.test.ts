@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.DEEPSEEK_API_KEY = 'test-key';
+});
+
+vi.mock('../../../services/usageLedgerService', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../../services/usageLedgerService')>()),
+  recordUsage: vi.fn(async () => null),
+}));
+
+import { runQuickClerkAudit } from '../../../services/clerk/clerkAgent';
+import { recordUsage } from '../../../services/usageLedgerService';
+import type { Chapter, NovelState } from '../../../types';
+
+const chapter: Chapter = {
+  id: 'ch-3', number: 3, title: 'Chapter 3', content: 'Lin Feng broke through to Foundation Establishment.',
+  summary: '', scenes: [], createdAt: 0,
+};
+
+const novel: NovelState = {
+  id: 'novel-1', title: 'Jade Manuscripts', genre: 'Xianxia', chapters: [chapter], plotLedger: [],
+  grandSaga: '', characterCodex: [], tags: [], realms: [], territories: [], worldBible: [],
+  systemLogs: [], writingGoals: [], createdAt: 0, updatedAt: 0, currentRealmId: '',
+};
+
+describe('clerkAgent', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('bills its request to the usage ledger under the routed task', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ index: 0, message: { role: 'assistant', content: '{"updates": {}, "observations": {}}' } }],
+        usage: { prompt_tokens: 900, completion_tokens: 40, total_tokens: 940 },
+      }),
+    }));
+
+    const result = await runQuickClerkAudit(novel, chapter);
+
+    expect(result.success).toBe(true);
+    expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({
+      taskType: 'metadata_extraction',
+      providerId: 'deepseek',
+      novelId: 'novel-1',
+      chapterNumber: 3,
+      promptTokens: 900,
+      completionTokens: 40,
+      estimated: false,
+    }));
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../services/supabaseService', () => ({
+  supabase: {},
+}));
+
+import {
+  attributeDialogue,
+  clearAttributionCache,
+  getChapterAttribution,
+  speakersIn,
+} from '../../../services/dialogueAttributionService';
+import { checkDialogueOnly } from '../../../services/styleCheckerService';
+import { trackCharacterPresence } from '../../../services/characterPresenceTracker';
+import type { Chapter, Character } from '../../../types';
+
+const character = (id: string, name: string): Character => ({
+  id, name, isProtagonist: false, age: '', personality: '', currentCultivation: '',
+  skills: [], items: [], notes: '', status: 'Alive', relationships: [],
+});
+
+const chapter = (id: string, number: number, content: string): Chapter =>
+  ({ id, number, title: `Chapter ${number}`, content, summary: '', scenes: [], createdAt: 0 }) as Chapter;
+
+const codex = [character('lin', 'Lin Feng'), character('su', 'Su Yue')];
+
+describe('dialogueAttributionService', () => {
+  beforeEach(() => clearAttributionCache());
+
+  it('credits tags, beats, pronouns and turn-taking with falling confidence', () => {
+    const content = [
+      'Lin Feng drew his sword. He watched the gate.',
+      'Su Yue stepped out of the mist. She smiled at him.',
+      '"You are late," said Su Yue.',
+      'Lin Feng sheathed the blade. "The road was long."',
+      '"And the elders?"',
+      '"They do not know."',
+      'He looked away. "Nor will they," he said.',
+    ].join('\n\n');
+
+    const { utterances } = attributeDialogue(content, codex);
+    expect(utterances.map(u => [u.text, u.speakerId, u.method, u.confidence])).toEqual([
+      ['You are late,', 'su', 'tag', 0.95],
+      ['The road was long.', 'lin', 'beat', 0.8],
+      ['And the elders?', 'su', 'turn-taking', 0.65],
+      ['They do not know.', 'lin', 'turn-taking', 0.55],
+      ['Nor will they,', 'lin', 'pronoun', 0.7],
+    ]);
+    expect(content.slice(utterances[0].start, utterances[0].end)).toBe('"You are late,"');
+    expect(utterances.map(u => u.tagged)).toEqual([true, false, false, false, true]);
+  });
+
+  it('reads single-quoted dialogue without stopping at apostrophes', () => {
+    const content = [
+      '‘Don’t go,’ Su Yue said.',
+      "'Your master's sword is ready,' said Lin Feng. The boys' horses waited.",
+    ].join('\n\n');
+
+    const { utterances } = attributeDialogue(content, codex);
+    expect(utterances.map(u => [u.text, u.speakerId, u.method])).toEqual([
+      ['Don’t go,', 'su', 'tag'],
+      ["Your master's sword is ready,", 'lin', 'tag'],
+    ]);
+  });
+
+  it('caches per chapter revision and recomputes when the prose or codex changes', () => {
+    const first = chapter('ch-1', 1, '"Wait," Su Yue whispered.');
+    const attribution = getChapterAttribution(first, codex);
+    expect(getChapterAttribution({ ...first }, codex)).toBe(attribution);
+
+    const edited = getChapterAttribution({ ...first, content: '"Wait," Lin Feng whispered.' }, codex);
+    expect(edited).not.toBe(attribution);
+    expect(edited.utterances[0].speakerId).toBe('lin');
+
+    const renamed = getChapterAttribution(first, [character('lin', 'Lin Feng'), character('su', 'Mei Ling')]);
+    expect(renamed.revision).not.toBe(attribution.revision);
+    expect(renamed.utterances[0].speakerId).toBeNull();
+  });
+
+  it('keeps recently read chapters when the cache evicts', () => {
+    const first = chapter('ch-0', 0, '"Stay," Su Yue said.');
+    const attribution = getChapterAttribution(first, codex);
+    for (let n = 1; n <= 200; n++) {
+      getChapterAttribution(chapter(`ch-${n}`, n, '"Go."'), codex);
+      if (n === 100) getChapterAttribution(first, codex);
+    }
+    expect(getChapterAttribution(first, codex)).toBe(attribution);
+  });
+
+  it('feeds presence tracking and the style checker', () => {
+    const chapters = [
+      chapter('ch-1', 1, 'Su Yue and Lin Feng met at dawn.'),
+      chapter('ch-2', 2, '"Again," Feng said. The courtyard was empty.'),
+    ];
+    expect(speakersIn(getChapterAttribution(chapters[1], codex))).toEqual(new Set(['lin']));
+    const lin = trackCharacterPresence(chapters, codex).find(p => p.characterId === 'lin')!;
+    expect(lin.chaptersAppeared).toEqual([1, 2]);
+
+    const bare = '"One."\n\n"Two."\n\n"Three."\n\n"Four," he said.';
+    const flagged = checkDialogueOnly(bare).filter(c => c.id.startsWith('dialogue-tags'));
+    expect(flagged).toHaveLength(1);
+    expect(bare.slice(flagged[0].location.start, flagged[0].location.end)).toBe('"Three."');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildDocx, getChapterScenes, roundWordCount, selectChapters } from '../../../services/docxExportService';
+import { NovelState, Chapter } from '../../../types';
+
+const createChapter = (num: number, content: string): Chapter => ({
+  id: `ch-${num}`,
+  number: num,
+  title: `Title ${num}`,
+  content,
+  summary: '',
+  scenes: [],
+  createdAt: Date.now(),
+});
+
+const mockNovel: NovelState = {
+  id: 'novel-1',
+  title: 'Jade Manuscript',
+  genre: 'Xianxia',
+  chapters: [1, 2, 3, 4].map(n => createChapter(n, `Chapter ${n} prose.`)),
+  plotLedger: [
+    { id: 'arc-1', title: 'Outer Sect', description: '', status: 'completed', startedAtChapter: 1, endedAtChapter: 2 },
+    { id: 'arc-2', title: 'Inner Sect', description: '', status: 'active', startedAtChapter: 3 },
+  ],
+  grandSaga: '',
+  characterCodex: [],
+  tags: [],
+  realms: [],
+  territories: [],
+  worldBible: [],
+  systemLogs: [],
+  writingGoals: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  currentRealmId: 'r1',
+};
+
+describe('DOCX Export Service', () => {
+  it('selects chapter ranges and single arcs', () => {
+    expect(selectChapters(mockNovel, { mode: 'range', fromChapter: 3, toChapter: 2 }).map(c => c.number)).toEqual([2, 3]);
+    expect(selectChapters(mockNovel, { mode: 'arc', arcId: 'arc-2' }).map(c => c.number)).toEqual([3, 4]);
+    expect(selectChapters(mockNovel).length).toBe(4);
+  });
+
+  it('splits scenes from scene records or scene-break glyphs', () => {
+    const fromGlyphs = createChapter(1, 'First.\n\n***\n\nSecond.\n\nThird.');
+    expect(getChapterScenes(fromGlyphs)).toEqual([['First.'], ['Second.', 'Third.']]);
+
+    const fromRecords: Chapter = {
+      ...fromGlyphs,
+      scenes: [
+        { id: 's2', chapterId: 'ch-1', number: 2, title: '', content: 'Later.', summary: '', wordCount: 1, tags: [], createdAt: 0, updatedAt: 0 },
+        { id: 's1', chapterId: 'ch-1', number: 1, title: '', content: 'Earlier.', summary: '', wordCount: 1, tags: [], createdAt: 0, updatedAt: 0 },
+      ],
+    };
+    expect(getChapterScenes(fromRecords)).toEqual([['Earlier.'], ['Later.']]);
+  });
+
+  it('rounds manuscript word counts', () => {
+    expect(roundWordCount(12)).toBe(100);
+    expect(roundWordCount(4349)).toBe(4300);
+    expect(roundWordCount(81500)).toBe(82000);
+  });
+
+  it('produces a document with one heading per selected chapter', () => {
+    const bytes = buildDocx(mockNovel, { author: 'Lin Mo', selection: { mode: 'arc', arcId: 'arc-1' } });
+    const text = new TextDecoder().decode(bytes);
+    expect(text).toContain('[Content_Types].xml');
+    expect(text.match(/w:val="Heading1"\/>/g)?.length).toBe(2);
+    expect(text).toContain('Mo / JADE MANUSCRIPT / ');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  planRename,
+  applyRename,
+  revertRename,
+  suggestRenameAliases,
+} from '../../../services/entityRenameService';
+import { generateNovelDiff } from '../../../services/changeTracker';
+import type { Chapter, Character, NovelState, NovelTechnique } from '../../../types';
+
+const character = (id: string, name: string, extra: Partial<Character> = {}): Character => ({
+  id, name, isProtagonist: false, age: '', personality: '', currentCultivation: '',
+  skills: [], items: [], notes: '', status: 'Alive', relationships: [], ...extra,
+});
+
+const chapter = (number: number, content: string): Chapter => ({
+  id: `ch-${number}`, number, title: `Chapter ${number}`, content, summary: '', scenes: [], createdAt: 0,
+});
+
+const technique: NovelTechnique = {
+  id: 'tech-1', novelId: 'novel-1', name: 'Azure Dragon Fist', canonicalName: 'azure dragon fist',
+  description: 'A fist art', category: 'Core', type: 'Cultivation', functions: [], history: '',
+  createdAt: 0, updatedAt: 0,
+} as NovelTechnique;
+
+const novel = (): NovelState => ({
+  id: 'novel-1',
+  grandSaga: 'Lin Feng rises.',
+  chapters: [
+    chapter(1, 'Lin Feng bowed. "Senior Brother Lin, wait!" Lin Yue called after Lin-xiong.'),
+    chapter(2, 'Nobody mentioned him. He used the Azure Dragon Fist.'),
+  ],
+  characterCodex: [
+    character('lin', 'Lin Feng', { skills: ['Azure Dragon Fist'] }),
+    character('yue', 'Lin Yue', {
+      relationships: [{ characterId: 'lin', type: 'Sibling', history: 'Raised by Lin Feng after the fire', impact: '' }],
+    }),
+  ],
+  storyThreads: [{ id: 'thread-1', title: 'Feng and the sect', description: 'Lin Feng must avenge the clan' }],
+  antagonists: [{ id: 'ant-1', name: 'Elder Mo', description: '', motivation: '', notes: 'Hates Lin Feng' }],
+  worldBible: [],
+  plotLedger: [],
+  novelTechniques: [technique],
+} as unknown as NovelState);
+
+const renameLinFeng = (state: NovelState) =>
+  planRename(state, {
+    entityType: 'character',
+    entityId: 'lin',
+    newName: 'Chen Hao',
+    aliases: suggestRenameAliases('Lin Feng', 'Chen Hao', 'character'),
+  });
+
+describe('entityRenameService', () => {
+  it('rewrites names, aliases and honorifics without touching other entities that share an alias', () => {
+    const state = novel();
+    const changeSet = renameLinFeng(state);
+    const renamed = applyRename(state, changeSet).state;
+
+    expect(renamed.chapters[0].content).toBe(
+      'Chen Hao bowed. "Senior Brother Chen, wait!" Lin Yue called after Chen-xiong.'
+    );
+    expect(changeSet.counts).toEqual({ name: 5, alias: 1, honorific: 2 });
+    expect(renamed.characterCodex[0].name).toBe('Chen Hao');
+    expect(renamed.characterCodex[1].name).toBe('Lin Yue');
+    expect(renamed.characterCodex[1].relationships[0].history).toBe('Raised by Chen Hao after the fire');
+    expect(renamed.storyThreads?.[0]).toMatchObject({ title: 'Hao and the sect', description: 'Chen Hao must avenge the clan' });
+    expect(renamed.antagonists?.[0].notes).toBe('Hates Chen Hao');
+    expect(renamed.grandSaga).toBe('Chen Hao rises.');
+    // Untouched entities keep their identity
+    expect(renamed.chapters[1]).toBe(state.chapters[1]);
+
+    const diff = generateNovelDiff(state, renamed, 'rename');
+    expect(diff.summary.chaptersChanged).toBe(1);
+  });
+
+  it('renames a technique, its canonical name and the characters that list it', () => {
+    const state = novel();
+    const changeSet = planRename(state, {
+      entityType: 'technique',
+      entityId: 'tech-1',
+      newName: 'Azure Serpent Fist',
+      aliases: suggestRenameAliases('Azure Dragon Fist', 'Azure Serpent Fist', 'technique'),
+    });
+    const renamed = applyRename(state, changeSet).state;
+    expect(renamed.novelTechniques?.[0]).toMatchObject({ name: 'Azure Serpent Fist', canonicalName: 'azureserpentfist' });
+    expect(renamed.characterCodex[0].skills).toEqual(['Azure Serpent Fist']);
+    expect(renamed.chapters[1].content).toBe('Nobody mentioned him. He used the Azure Serpent Fist.');
+    expect(() => planRename(state, { ...changeSet, entityId: 'missing', aliases: [] })).toThrow(/No technique/);
+  });
+
+  it('applies nothing when an entity changed since the preview', () => {
+    const state = novel();
+    const changeSet = renameLinFeng(state);
+    const edited: NovelState = {
+      ...state,
+      antagonists: state.antagonists?.map(a => ({ ...a, notes: 'Still hunting Lin Feng' })),
+    };
+
+    const result = applyRename(edited, changeSet);
+    expect(result.conflicts).toBe(1);
+    expect(result.state).toBe(edited);
+  });
+
+  it('undoes a rename in one step, keeping entities edited since', () => {
+    const state = novel();
+    const changeSet = renameLinFeng(state);
+    const renamed = applyRename(state, changeSet).state;
+
+    const edited: NovelState = {
+      ...renamed,
+      antagonists: renamed.antagonists?.map(a => ({ ...a, notes: 'Hates Chen Hao deeply' })),
+    };
+    const undone = revertRename(edited, changeSet);
+    expect(undone.conflicts).toBe(1);
+    expect(undone.state.chapters).toEqual(state.chapters);
+    expect(undone.state.characterCodex).toEqual(state.characterCodex);
+    expect(undone.state.grandSaga).toBe('Lin Feng rises.');
+    expect(undone.state.antagonists?.[0].notes).toBe('Hates Chen Hao deeply');
+  });
+});
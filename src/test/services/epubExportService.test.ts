@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { buildEpub, buildGlossary } from '../../../services/epubExportService';
+import { NovelState, Chapter } from '../../../types';
+
+const decoder = new TextDecoder();
+
+/** Read STORE-only zip entries back into a path -> text map */
+function readZip(bytes: Uint8Array): Map<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    files.set(name, decoder.decode(bytes.subarray(start, start + size)));
+    offset = start + size;
+  }
+  return files;
+}
+
+const createChapter = (num: number, content: string): Chapter => ({
+  id: `ch-${num}`,
+  number: num,
+  title: `Title ${num}`,
+  content,
+  summary: '',
+  scenes: [],
+  createdAt: Date.now(),
+});
+
+const mockNovel: NovelState = {
+  id: 'novel-1',
+  title: 'Jade & Thunder',
+  genre: 'Xianxia',
+  chapters: [
+    createChapter(2, 'Second chapter.'),
+    createChapter(1, 'The sect gate opened.\n\n* * *\n\nLin Feng <stepped> inside.'),
+  ],
+  plotLedger: [
+    { id: 'arc-1', title: 'Outer Sect', description: 'Trials', status: 'completed', startedAtChapter: 1, endedAtChapter: 1 },
+    { id: 'arc-2', title: 'Inner Sect', description: '', status: 'active', startedAtChapter: 2 },
+  ],
+  grandSaga: '',
+  characterCodex: [],
+  tags: [],
+  realms: [],
+  territories: [],
+  worldBible: [
+    { id: 'w1', category: 'Sects', title: 'Azure Cloud Sect', content: 'A righteous sect.', realmId: 'r1' },
+  ],
+  novelTechniques: [
+    {
+      id: 't1', novelId: 'novel-1', name: 'Thunder Palm', canonicalName: 'thunder palm', description: 'A palm strike.',
+      category: 'Core', type: 'Combat', functions: [], history: '', createdAt: 0, updatedAt: 0,
+    },
+  ],
+  novelItems: [],
+  systemLogs: [],
+  writingGoals: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  currentRealmId: 'r1',
+};
+
+describe('EPUB Export Service', () => {
+  it('writes the mimetype entry first and uncompressed', () => {
+    const bytes = buildEpub(mockNovel);
+    const files = readZip(bytes);
+    expect(Array.from(files.keys())[0]).toBe('mimetype');
+    expect(files.get('mimetype')).toBe('application/epub+zip');
+    expect(files.get('META-INF/container.xml')).toContain('OEBPS/content.opf');
+  });
+
+  it('creates one XHTML document per chapter in reading order', () => {
+    const files = readZip(buildEpub(mockNovel));
+    const opf = files.get('OEBPS/content.opf')!;
+    expect(opf.indexOf('idref="chapter-1"')).toBeLessThan(opf.indexOf('idref="chapter-2"'));
+    expect(files.get('OEBPS/chapter-1.xhtml')).toContain('Lin Feng &lt;stepped&gt; inside.');
+    expect(files.get('OEBPS/chapter-1.xhtml')).toContain('class="scene-break"');
+    expect(files.get('OEBPS/nav.xhtml')).toContain('Chapter 2: Title 2');
+  });
+
+  it('adds arc parts and a glossary when requested', () => {
+    const files = readZip(buildEpub(mockNovel, { groupByArc: true, includeGlossary: true }));
+    expect(files.get('OEBPS/part-1.xhtml')).toContain('Outer Sect');
+    expect(files.get('OEBPS/part-2.xhtml')).toContain('Inner Sect');
+    expect(files.get('OEBPS/glossary.xhtml')).toContain('Thunder Palm');
+  });
+
+  it('builds a sorted, de-duplicated glossary', () => {
+    const glossary = buildGlossary({
+      ...mockNovel,
+      novelItems: [
+        {
+          id: 'i1', novelId: 'novel-1', name: 'azure cloud sect', canonicalName: '', description: 'Duplicate',
+          category: 'Treasure', powers: [], history: '', createdAt: 0, updatedAt: 0,
+        },
+      ],
+    });
+    expect(glossary.map(entry => entry.term)).toEqual(['Azure Cloud Sect', 'Thunder Palm']);
+    expect(glossary[0].definition).toBe('A righteous sect.');
+  });
+});
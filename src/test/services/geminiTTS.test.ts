@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.GEMINI_API_KEY = 'test-key';
+});
+
+vi.mock('../../../services/usageLedgerService', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../../services/usageLedgerService')>()),
+  recordUsage: vi.fn(async () => null),
+}));
+
+import { GeminiTTSProvider } from '../../../services/ttsProviders/geminiTTS';
+import { recordUsage } from '../../../services/usageLedgerService';
+
+describe('geminiTTS', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('bills each rendered segment to the usage ledger', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        candidates: [{ content: { parts: [{ inlineData: { mimeType: 'audio/L16', data: 'AAAAAA==' } }] } }],
+        usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 150 },
+      }),
+    }));
+
+    const samples = await new GeminiTTSProvider().synthesize('The gate opened.', { voiceName: 'Kore', rate: 1 });
+
+    expect(samples).toHaveLength(2);
+    expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({
+      taskType: 'speech_synthesis',
+      providerId: 'gemini',
+      model: 'gemini-2.5-flash-preview-tts',
+      promptTokens: 12,
+      completionTokens: 150,
+      estimated: false,
+      cost: (12 * 0.5 + 150 * 10) / 1_000_000,
+    }));
+  });
+});
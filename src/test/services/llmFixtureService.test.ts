@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.hoisted(() => {
+  process.env.DEEPSEEK_API_KEY = 'test-key';
+  process.env.GEMINI_API_KEY = 'test-key';
+});
+
+import { deepseekJson, deepseekText } from '../../../services/deepseekService';
+import { geminiJson } from '../../../services/geminiService';
+import {
+  clearLlmFixtures,
+  getRecordedFixtureCount,
+  setLlmFixtureMode,
+} from '../../../services/llmFixtureService';
+import { installMockProvider, MOCK_PROVIDER_ID } from '../../../services/llmProviders';
+import { setTaskProvider } from '../../../services/modelOrchestrator';
+import { applyCritiqueCorrectionLoop } from '../../../services/critiqueCorrectionService';
+import { DEFAULT_RUBRICS } from '../../../config/styleRubrics';
+import { CRITIQUE_CORRECTION_CONFIG } from '../../../constants';
+import { loadLlmFixtureFile, saveLlmFixtureFile } from '../llmFixtures';
+
+const deepseekResponse = (content: string) => ({
+  ok: true,
+  json: async () => ({ choices: [{ index: 0, message: { role: 'assistant', content } }] }),
+});
+
+describe('LLM fixture record/replay', () => {
+  beforeEach(() => {
+    clearLlmFixtures();
+  });
+
+  afterEach(() => {
+    setLlmFixtureMode('off');
+    vi.unstubAllGlobals();
+  });
+
+  it('records live responses and replays them without the network', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(deepseekResponse('{"name": "Lin Feng",}'))
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ candidates: [{ content: { parts: [{ text: '{"realm": "Foundation"}' }] } }] }),
+      }));
+
+    setLlmFixtureMode('record');
+    await deepseekJson({ system: 'Extract', user: 'Who is the hero?' });
+    await geminiJson({ user: 'Which realm?' });
+    expect(getRecordedFixtureCount()).toBe(2);
+
+    const dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+    const file = join(dir, 'pipeline.json');
+    try {
+      saveLlmFixtureFile(file);
+      clearLlmFixtures();
+      loadLlmFixtureFile(file);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    const offline = vi.fn().mockRejectedValue(new Error('network disabled'));
+    vi.stubGlobal('fetch', offline);
+    setLlmFixtureMode('replay');
+
+    // Raw text is stored, so JSON repair still runs on replay
+    await expect(deepseekJson({ system: 'Extract', user: 'Who is the hero?' })).resolves.toEqual({ name: 'Lin Feng' });
+    await expect(geminiJson({ user: 'Which realm?' })).resolves.toEqual({ realm: 'Foundation' });
+    expect(offline).not.toHaveBeenCalled();
+  });
+
+  it('fails loudly when a replayed prompt was never recorded', async () => {
+    setLlmFixtureMode('replay');
+    await expect(deepseekText({ user: 'Unrecorded prompt' })).rejects.toThrow('No recorded deepseek fixture');
+  });
+});
+
+describe('Scripted mock provider', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('drives the critique-correction loop end to end', async () => {
+    const rubric = DEFAULT_RUBRICS[0];
+    const scores = (value: number) => Object.fromEntries(rubric.criteria.map(c => [c.id, value]));
+    const revised = 'The revised chapter. '.repeat(40);
+
+    const mock = installMockProvider([
+      {
+        match: 'Chapter Critique Request',
+        once: true,
+        response: {
+          criteriaScores: scores(3),
+          issues: [{
+            criterionId: rubric.criteria[0].id,
+            criterionName: rubric.criteria[0].name,
+            severity: 'major',
+            description: 'Flat prose',
+            suggestedFix: 'Add sensory detail',
+          }],
+          strengths: [],
+          summary: 'Needs work',
+        },
+      },
+      { match: 'Original Chapter Content', response: revised },
+      { match: 'Chapter Critique Request', response: { criteriaScores: scores(10), issues: [], strengths: ['Vivid'], summary: 'Good' } },
+    ]);
+    setTaskProvider('style_critique', MOCK_PROVIDER_ID);
+    setTaskProvider('prose_editing', MOCK_PROVIDER_ID);
+
+    const result = await applyCritiqueCorrectionLoop(
+      'The original chapter.',
+      'Dawn',
+      'Summary',
+      rubric,
+      undefined,
+      { ...CRITIQUE_CORRECTION_CONFIG, enabled: true, maxIterations: 3 }
+    );
+
+    expect(result.finalContent).toBe(revised.trim());
+    expect(result.finalCritique.passesThreshold).toBe(true);
+    expect(mock.calls.map(call => call.kind)).toEqual(['json', 'text', 'json']);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getProvider,
+  getProviderConfigs,
+  parseJsonCompletion,
+  removeProviderConfig,
+  saveProviderConfig,
+} from '../../../services/llmProviders';
+import { getModelAssignment, routeJsonTask, setTaskProvider } from '../../../services/modelOrchestrator';
+
+describe('LLM Provider Registry', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('exposes the built-in providers', () => {
+    expect(getProviderConfigs().map(p => p.id)).toEqual(['deepseek', 'gemini', 'local']);
+  });
+
+  it('applies overrides to built-ins and resets them on removal', () => {
+    const local = getProviderConfigs().find(p => p.id === 'local')!;
+    saveProviderConfig({ ...local, name: 'Renamed', model: 'qwen2.5' });
+    const updated = getProviderConfigs().find(p => p.id === 'local')!;
+    expect(updated.model).toBe('qwen2.5');
+    expect(updated.name).toBe('Local (OpenAI-compatible)');
+
+    removeProviderConfig('local');
+    expect(getProviderConfigs().find(p => p.id === 'local')!.model).toBe('llama3.1');
+  });
+
+  it('calls an OpenAI-compatible endpoint and parses JSON', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: '```json\n{"title": "Dawn"}\n```' } }] }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    saveProviderConfig({
+      id: 'vllm', name: 'vLLM', kind: 'openai-compatible',
+      baseUrl: 'http://127.0.0.1:8000/v1/', model: 'qwen', apiKey: 'secret', costs: { input: 0, output: 0 },
+    });
+
+    const result = await getProvider('vllm').json<{ title: string }>({ system: 'sys', user: 'hi' });
+    expect(result.title).toBe('Dawn');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://127.0.0.1:8000/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe('qwen');
+    expect(body.messages).toHaveLength(2);
+    expect(body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('routes a task to its assigned provider', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: '{"ok": true}' } }] }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    setTaskProvider('metadata_extraction', 'local');
+    expect(getModelAssignment('metadata_extraction')).toMatchObject({ provider: 'local', model: 'llama3.1' });
+
+    await expect(routeJsonTask<{ ok: boolean }>('metadata_extraction', { user: 'extract' })).resolves.toEqual({ ok: true });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+
+    setTaskProvider('metadata_extraction', null);
+    expect(getModelAssignment('metadata_extraction').provider).toBe('deepseek');
+  });
+
+  it('repairs slightly malformed JSON', () => {
+    expect(parseJsonCompletion<{ a: number }>('Here you go: {"a": 1,}')).toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { matchesMetadataFilter } from '../../../services/vectorDb/localVectorStore';
+import { embedLexical, saveEmbeddingSettings } from '../../../services/vectorDb/embeddingBackends';
+import { deleteAllVectorsForNovel, getActiveVectorStore, getNovelStats, upsertVectors } from '../../../services/vectorDb/vectorStore';
+import { semanticSearch } from '../../../services/vectorDb/semanticSearchService';
+
+const indexed = (entityId: string, entityType: string, text: string, extra: Record<string, unknown> = {}) => ({
+  id: `${entityType}_${entityId}`,
+  values: embedLexical(text),
+  metadata: { entityId, entityType, name: entityId, ...extra },
+});
+
+describe('localVectorStore', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    saveEmbeddingSettings({ backend: 'lexical' });
+    await deleteAllVectorsForNovel('novel-1');
+  });
+
+  it('evaluates Pinecone-style metadata filters', () => {
+    const metadata = { entityType: 'character', chapterNumber: 12, status: 'active', tags: ['sect', 'elder'] };
+
+    expect(matchesMetadataFilter(metadata, { entityType: { $eq: 'character' } })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { entityType: 'item' })).toBe(false);
+    expect(matchesMetadataFilter(metadata, { $and: [{ chapterNumber: { $gte: 10 } }, { chapterNumber: { $lte: 12 } }] })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { status: { $in: ['resolved', 'abandoned'] } })).toBe(false);
+    expect(matchesMetadataFilter(metadata, { $or: [{ status: { $ne: 'active' } }, { tags: { $eq: 'elder' } }] })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { missing: { $ne: 'x' } })).toBe(false);
+  });
+
+  it('scores related text above unrelated text with the lexical backend', () => {
+    const query = embedLexical('sword cultivation breakthrough');
+    const related = embedLexical('He broke through in sword cultivation after years of practice with the sword.');
+    const unrelated = embedLexical('The merchant counted copper coins at the market stall.');
+    const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+    expect(dot(query, related)).toBeGreaterThan(0.3);
+    expect(dot(query, unrelated)).toBeCloseTo(0, 1);
+  });
+
+  it('serves semantic search offline from the local store', async () => {
+    expect(getActiveVectorStore()).toBe('local');
+
+    await upsertVectors('novel-1', [
+      indexed('lin', 'character', 'Lin Feng, a sword cultivator of the Azure Cloud Sect'),
+      indexed('jade-sword', 'item', 'Azure jade sword forged in the Cloud Sect furnace'),
+      indexed('market', 'world_entry', 'Copper coins and rice at the mortal market'),
+    ]);
+    expect((await getNovelStats('novel-1'))?.vectorCount).toBe(3);
+
+    const { results } = await semanticSearch({ novelId: 'novel-1', query: 'Azure Cloud Sect sword', types: ['character'] });
+    expect(results.map(result => result.id)).toEqual(['lin']);
+
+    const all = await semanticSearch({ novelId: 'novel-1', query: 'Azure Cloud Sect sword' });
+    expect(all.results.map(result => result.id)).not.toContain('market');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_HEADING_OPTIONS,
+  buildChaptersFromDrafts,
+  extractDocxText,
+  matchChapterHeading,
+  parseChineseNumber,
+  splitManuscript,
+} from '../../../services/manuscriptImportService';
+import { buildDocx } from '../../../services/docxExportService';
+import { NovelState } from '../../../types';
+
+describe('Manuscript Import Service', () => {
+  it('parses Chinese numerals', () => {
+    expect(parseChineseNumber('十二')).toBe(12);
+    expect(parseChineseNumber('一百零三')).toBe(103);
+    expect(parseChineseNumber('两千')).toBe(2000);
+    expect(parseChineseNumber('42')).toBe(42);
+  });
+
+  it('detects English, Chinese and markdown headings', () => {
+    expect(matchChapterHeading('Chapter 12: The Gate', DEFAULT_HEADING_OPTIONS)).toEqual({ number: 12, title: 'The Gate' });
+    expect(matchChapterHeading('CHAPTER XIV', DEFAULT_HEADING_OPTIONS)).toEqual({ number: 14, title: '' });
+    expect(matchChapterHeading('第十二章 天劫', DEFAULT_HEADING_OPTIONS)).toEqual({ number: 12, title: '天劫' });
+    expect(matchChapterHeading('## The Outer Sect', DEFAULT_HEADING_OPTIONS)).toEqual({ number: null, title: 'The Outer Sect' });
+    expect(matchChapterHeading('# Book Title', DEFAULT_HEADING_OPTIONS)).toBeNull();
+    expect(matchChapterHeading('He walked on.', DEFAULT_HEADING_OPTIONS)).toBeNull();
+  });
+
+  it('does not take prose that opens with "Chapter" for a heading', () => {
+    expect(matchChapterHeading('Chapter 1 The Beginning', DEFAULT_HEADING_OPTIONS)).toEqual({ number: 1, title: 'The Beginning' });
+    expect(matchChapterHeading('Ch. 4 - Ashes, Again', DEFAULT_HEADING_OPTIONS)).toEqual({ number: 4, title: 'Ashes, Again' });
+    expect(matchChapterHeading('Chapter 3 was the hardest to write.', DEFAULT_HEADING_OPTIONS)).toBeNull();
+    expect(matchChapterHeading('Chapter 9 of the sect records had burned. Nobody knew why.', DEFAULT_HEADING_OPTIONS)).toBeNull();
+  });
+
+  it('supports a custom heading pattern', () => {
+    const options = { ...DEFAULT_HEADING_OPTIONS, customPattern: '^Episode (\\d+)[:\\s]*(.*)$' };
+    expect(matchChapterHeading('Episode 7: Storm', options)).toEqual({ number: 7, title: 'Storm' });
+  });
+
+  it('splits chapters and scenes, keeping detected numbers', () => {
+    const text = [
+      '# My Novel',
+      'Copyright notice',
+      'Chapter 3: Arrival',
+      'He arrived.',
+      '',
+      '* * *',
+      '',
+      'Night fell.',
+      'Chapter 4',
+      'Morning came.',
+    ].join('\n');
+    const result = splitManuscript(text);
+    expect(result.renumbered).toBe(false);
+    expect(result.frontMatter).toContain('Copyright notice');
+    expect(result.chapters.map(c => c.number)).toEqual([3, 4]);
+    expect(result.chapters[0].title).toBe('Arrival');
+    expect(result.chapters[0].scenes).toEqual(['He arrived.', 'Night fell.']);
+    expect(result.chapters[1].title).toBe('Chapter 4');
+  });
+
+  it('renumbers sequentially when headings have no usable numbers', () => {
+    const result = splitManuscript('## Alpha\nOne.\n## Beta\nTwo.', DEFAULT_HEADING_OPTIONS, 10);
+    expect(result.renumbered).toBe(true);
+    expect(result.chapters.map(c => c.number)).toEqual([10, 11]);
+  });
+
+  it('only creates Scene records for chapters with explicit breaks', () => {
+    const [withBreaks, single] = buildChaptersFromDrafts(splitManuscript('Chapter 1\nA.\n***\nB.\nChapter 2\nC.').chapters);
+    expect(withBreaks.scenes).toHaveLength(2);
+    expect(withBreaks.scenes[1].chapterId).toBe(withBreaks.id);
+    expect(single.scenes).toHaveLength(0);
+  });
+
+  it('extracts headings and paragraphs from DOCX files', async () => {
+    const novel = {
+      id: 'n', title: 'Round Trip', genre: '', grandSaga: '', plotLedger: [],
+      chapters: [{ id: 'c1', number: 1, title: 'Dawn', content: 'First line.\n\n***\n\nSecond scene.', summary: '', scenes: [], createdAt: 0 }],
+    } as unknown as NovelState;
+    const text = await extractDocxText(buildDocx(novel));
+    const result = splitManuscript(text);
+    expect(result.chapters).toHaveLength(1);
+    expect(result.chapters[0].title).toBe('Dawn');
+    expect(result.chapters[0].scenes).toEqual(['First line.', 'Second scene.']);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { countChangeSetRows, diffNovelForPersistence } from '../../../services/novelChangeSetService';
+import type { Chapter, Character, NovelState } from '../../../types';
+
+const chapter = (id: string, number: number, content: string): Chapter => ({
+  id, number, title: `Chapter ${number}`, content, summary: '', scenes: [], createdAt: 1,
+});
+
+const character = (id: string, name: string, relationships: Character['relationships'] = []): Character => ({
+  id, name, age: '', personality: '', currentCultivation: '', skills: [], items: [], notes: '', status: 'Alive', relationships,
+});
+
+function novel(chapterCount: number): NovelState {
+  return {
+    id: 'novel-1',
+    title: 'Jade Manuscripts',
+    genre: 'Xianxia',
+    chapters: Array.from({ length: chapterCount }, (_, i) => chapter(`ch-${i + 1}`, i + 1, `Text of chapter ${i + 1}.`)),
+    plotLedger: [],
+    grandSaga: '',
+    characterCodex: [
+      character('char-1', 'Lin Feng', [{ characterId: 'char-2', type: 'Rival', history: '', impact: '' }]),
+      character('char-2', 'Mo Chen'),
+    ],
+    tags: [],
+    realms: [{ id: 'realm-1', name: 'Mortal Realm', description: '', status: 'current' }],
+    territories: [],
+    worldBible: [],
+    systemLogs: [],
+    writingGoals: [],
+    createdAt: 0,
+    updatedAt: 100,
+    currentRealmId: 'realm-1',
+  };
+}
+
+const tableChange = (changeSet: ReturnType<typeof diffNovelForPersistence>, table: string) =>
+  changeSet.tables.find(change => change.table === table)!;
+
+describe('novelChangeSetService', () => {
+  it('sends only the chapter that changed out of a long novel', () => {
+    const previous = novel(500);
+    const next: NovelState = {
+      ...previous,
+      chapters: previous.chapters.map(c => (c.id === 'ch-250' ? { ...c, content: 'Rewritten.' } : c)),
+      updatedAt: 200,
+    };
+
+    const changeSet = diffNovelForPersistence(previous, next);
+
+    expect(changeSet.unsupportedChanges).toEqual([]);
+    expect(tableChange(changeSet, 'chapters').upserts.map(row => row.id)).toEqual(['ch-250']);
+    expect(changeSet.novelRowChanged).toBe(false);
+    expect(countChangeSetRows(changeSet)).toBe(1);
+  });
+
+  it('deletes removed entities with their dependents and replaces changed owned rows', () => {
+    const previous = novel(2);
+    const next: NovelState = {
+      ...previous,
+      characterCodex: [{ ...previous.characterCodex[0], relationships: [] }],
+    };
+
+    const changeSet = diffNovelForPersistence(previous, next);
+    const characters = tableChange(changeSet, 'characters');
+
+    expect(characters.upserts).toEqual([]);
+    expect(characters.deletes).toEqual(['char-2']);
+    expect(characters.dependents).toContainEqual({ table: 'relationships', column: 'target_character_id' });
+    const relationships = changeSet.ownedRows.find(change => change.table === 'relationships')!;
+    expect(relationships.owners).toEqual(['char-1']);
+    expect(relationships.rows).toEqual([]);
+  });
+
+  it('reports changes it cannot express so the caller saves the whole novel', () => {
+    const previous = novel(1);
+    const next: NovelState = {
+      ...previous,
+      realms: [...previous.realms, { id: 'realm-2', name: 'Spirit Realm', description: '', status: 'future' }],
+    };
+
+    expect(diffNovelForPersistence(previous, next).unsupportedChanges).toEqual(['realms']);
+  });
+});
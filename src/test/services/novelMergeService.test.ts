@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { applyMergeResolutions, threeWayMergeNovel } from '../../../services/novelMergeService';
+import type { Chapter, NovelState, Scene } from '../../../types';
+
+const scene = (id: string, number: number, content: string): Scene => ({
+  id,
+  chapterId: 'ch-1',
+  number,
+  title: `Scene ${number}`,
+  content,
+  summary: '',
+  wordCount: content.split(' ').length,
+  tags: [],
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+const chapter = (id: string, number: number, title: string, scenes: Scene[] = []): Chapter => ({
+  id, number, title, content: `${title} text`, summary: `${title} summary`, scenes, createdAt: 1,
+});
+
+function baseNovel(): NovelState {
+  return {
+    id: 'novel-1',
+    title: 'Jade Manuscripts',
+    genre: 'Xianxia',
+    chapters: [
+      chapter('ch-1', 1, 'Dawn', [scene('s-1', 1, 'The gate.'), scene('s-2', 2, 'The hall.')]),
+      chapter('ch-2', 2, 'Dusk'),
+    ],
+    plotLedger: [],
+    grandSaga: '',
+    characterCodex: [
+      { id: 'char-1', name: 'Lin Feng', age: '16', personality: '', currentCultivation: '', skills: [], items: [], notes: '', status: 'Alive', relationships: [] },
+    ],
+    tags: [],
+    realms: [],
+    territories: [],
+    worldBible: [],
+    systemLogs: [],
+    writingGoals: [],
+    createdAt: 0,
+    updatedAt: 100,
+    currentRealmId: '',
+  };
+}
+
+describe('novelMergeService', () => {
+  it('combines non-overlapping edits from both sides', () => {
+    const base = baseNovel();
+    const local: NovelState = {
+      ...base,
+      updatedAt: 200,
+      chapters: base.chapters.map(c => (c.id === 'ch-2' ? { ...c, title: 'Dusk Falls' } : c)),
+    };
+    const remote: NovelState = {
+      ...base,
+      updatedAt: 300,
+      chapters: [...base.chapters, chapter('ch-3', 3, 'Night')],
+      characterCodex: base.characterCodex.map(c => ({ ...c, notes: 'Sword saint' })),
+    };
+
+    const { merged, conflicts, autoMergedCount } = threeWayMergeNovel(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(autoMergedCount).toBe(2);
+    expect(merged.chapters.map(c => c.title)).toEqual(['Dawn', 'Dusk Falls', 'Night']);
+    expect(merged.characterCodex[0].notes).toBe('Sword saint');
+    expect(merged.updatedAt).toBe(300);
+  });
+
+  it('merges different scenes of the same chapter and different fields of the same entity', () => {
+    const base = baseNovel();
+    const editScene = (novel: NovelState, sceneId: string, content: string, title?: string): NovelState => ({
+      ...novel,
+      chapters: novel.chapters.map(c => c.id !== 'ch-1' ? c : {
+        ...c,
+        title: title ?? c.title,
+        scenes: c.scenes.map(s => (s.id === sceneId ? { ...s, content, updatedAt: 50 } : s)),
+      }),
+    });
+
+    const local = editScene(base, 's-1', 'The jade gate.', 'First Dawn');
+    const remote = editScene(base, 's-2', 'The ancestral hall.');
+
+    const { merged, conflicts } = threeWayMergeNovel(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.chapters[0].title).toBe('First Dawn');
+    expect(merged.chapters[0].scenes.map(s => s.content)).toEqual(['The jade gate.', 'The ancestral hall.']);
+  });
+
+  it('reports only colliding entities and applies the chosen side', () => {
+    const base = baseNovel();
+    const local: NovelState = {
+      ...base,
+      characterCodex: base.characterCodex.map(c => ({ ...c, notes: 'Hidden heir' })),
+      chapters: base.chapters.filter(c => c.id !== 'ch-2'),
+    };
+    const remote: NovelState = {
+      ...base,
+      title: 'Jade Manuscripts II',
+      characterCodex: base.characterCodex.map(c => ({ ...c, notes: 'Exiled prince' })),
+      chapters: base.chapters.map(c => (c.id === 'ch-2' ? { ...c, summary: 'Revised' } : c)),
+    };
+
+    const result = threeWayMergeNovel(base, local, remote);
+
+    expect(result.merged.title).toBe('Jade Manuscripts II');
+    expect(result.conflicts.map(c => [c.key, c.kind, c.fields])).toEqual([
+      ['chapters:ch-2', 'deleted_modified', []],
+      ['characterCodex:char-1', 'both_modified', ['notes']],
+    ]);
+    expect(result.merged.characterCodex[0].notes).toBe('Hidden heir');
+    expect(result.merged.chapters).toHaveLength(1);
+
+    const resolved = applyMergeResolutions(result, { 'characterCodex:char-1': 'remote', 'chapters:ch-2': 'remote' });
+    expect(resolved.characterCodex[0].notes).toBe('Exiled prince');
+    expect(resolved.chapters.map(c => c.summary)).toEqual([base.chapters[0].summary, 'Revised']);
+  });
+});
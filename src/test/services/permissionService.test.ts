@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNovelRole,
+  hasPermission,
+  isViewAllowed,
+  permissionDeniedMessage,
+  resolveAccessRole,
+} from '../../../services/permissionService';
+
+describe('permissionService', () => {
+  it('lets editors suggest but not edit, and beta readers only read and highlight', () => {
+    expect(hasPermission('editor', 'suggest')).toBe(true);
+    expect(hasPermission('editor', 'edit_content')).toBe(false);
+    expect(hasPermission('editor', 'resolve_suggestions')).toBe(false);
+    expect(hasPermission('co_writer', 'edit_content')).toBe(true);
+    expect(hasPermission('co_writer', 'generate')).toBe(false);
+    expect(hasPermission('co_writer', 'delete_chapter')).toBe(false);
+    expect(hasPermission('beta_reader', 'highlight')).toBe(true);
+    expect(hasPermission('beta_reader', 'comment')).toBe(false);
+    expect(getNovelRole({})).toBe('author');
+    expect(getNovelRole({ accessRole: 'editor' })).toBe('editor');
+  });
+
+  it('resolves the role of the signed-in user from ownership and membership', () => {
+    expect(resolveAccessRole('owner', null, undefined)).toBeUndefined();
+    expect(resolveAccessRole('owner', 'owner', 'editor')).toBe('author');
+    expect(resolveAccessRole(null, 'someone', undefined)).toBe('author');
+    expect(resolveAccessRole('owner', 'someone', 'co_writer')).toBe('co_writer');
+    expect(resolveAccessRole('owner', 'someone', undefined)).toBe('beta_reader');
+  });
+
+  it('keeps readers out of world views and explains denied actions', () => {
+    expect(isViewAllowed('co_writer', 'world-bible')).toBe(true);
+    expect(isViewAllowed('editor', 'editor')).toBe(true);
+    expect(isViewAllowed('beta_reader', 'world-bible')).toBe(false);
+    expect(permissionDeniedMessage('co_writer', 'generate')).toBe(
+      'Co-writers cannot run generation; only authors can.'
+    );
+    expect(permissionDeniedMessage('beta_reader', 'comment')).toBe(
+      'Beta readers cannot comment; only authors, co-writers and editors can.'
+    );
+  });
+});
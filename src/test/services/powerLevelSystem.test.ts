@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { getPowerLevelSystem, PowerLevelSystem } from '../../../services/powerLevelSystem';
+import { auditCultivationChange } from '../../../services/clerk/auditValidators';
+import type { NovelState } from '../../../types';
+import type { PowerLevelHierarchy } from '../../../types/powerSystem';
+
+const bodyPath: PowerLevelHierarchy = {
+  id: 'body',
+  name: 'Body Tempering Path',
+  category: 'body_refinement',
+  subStages: ['First Layer', 'Second Layer', 'Third Layer'],
+  stages: [
+    { name: 'Copper Skin', order: 1, category: 'body_refinement', aliases: ['Bronze Hide'] },
+    { name: 'Iron Bone', order: 2, category: 'body_refinement' },
+    {
+      name: 'Jade Marrow',
+      order: 3,
+      category: 'body_refinement',
+      subStages: ['Cloudy', 'Clear', 'Flawless'],
+      rules: { allowRegression: true },
+    },
+  ],
+};
+
+function novel(powerSystems?: PowerLevelHierarchy[]): NovelState {
+  return {
+    id: 'novel-1',
+    title: 'Jade Manuscripts',
+    genre: 'Xianxia',
+    chapters: [],
+    plotLedger: [],
+    grandSaga: '',
+    characterCodex: [],
+    tags: [],
+    realms: [],
+    territories: [],
+    worldBible: [],
+    systemLogs: [],
+    writingGoals: [],
+    createdAt: 0,
+    updatedAt: 0,
+    currentRealmId: '',
+    powerSystems,
+  };
+}
+
+describe('PowerLevelSystem', () => {
+  it('orders stages and sub-stages from a custom ladder, including aliases', () => {
+    const system = new PowerLevelSystem([bodyPath]);
+
+    expect(system.parsePowerLevel('Bronze Hide Second Layer')).toMatchObject({
+      stageName: 'Copper Skin',
+      subStage: 'Second Layer',
+      subStageOrder: 2,
+    });
+    expect(system.comparePowerLevels('Jade Marrow Flawless', 'Jade Marrow Cloudy')).toBe(1);
+    expect(system.comparePowerLevels('Iron Bone Third Layer', 'Jade Marrow Cloudy')).toBe(-1);
+    expect(system.getNextStage('Iron Bone Second Layer')).toBe('Iron Bone Third Layer');
+    expect(system.getNextStage('Iron Bone Third Layer')).toBe('Jade Marrow');
+  });
+
+  it('applies per-stage rules over the defaults', () => {
+    const system = new PowerLevelSystem([bodyPath]);
+
+    const backToCopperSkin = system.validateProgression('Iron Bone', 'Copper Skin', 3, false);
+    expect(backToCopperSkin.valid).toBe(false);
+
+    const withinJadeMarrow = system.validateProgression('Jade Marrow Clear', 'Jade Marrow Cloudy', 3, false);
+    expect(withinJadeMarrow.valid).toBe(true);
+    expect(withinJadeMarrow.warnings[0]).toContain('regression');
+  });
+
+  it('uses the novel ladder when present and the default ladder otherwise', () => {
+    expect(getPowerLevelSystem(novel([bodyPath])).isValidPowerLevel('Iron Bone')).toBe(true);
+    expect(getPowerLevelSystem(novel()).isValidPowerLevel('Iron Bone')).toBe(false);
+    expect(getPowerLevelSystem(novel()).isValidPowerLevel('Core Formation')).toBe(true);
+
+    const audit = auditCultivationChange('Copper Skin', 'Jade Marrow', novel([bodyPath]));
+    expect(audit).toMatchObject({ hasBreakthrough: true, stageJump: 2, ladderName: 'Body Tempering Path' });
+  });
+
+  it('does not count a move onto a parallel ladder as a stage jump', () => {
+    const soulPath: PowerLevelHierarchy = {
+      id: 'soul',
+      name: 'Soul Path',
+      category: 'spiritual',
+      stages: [
+        { name: 'Spirit Spark', order: 1, category: 'spiritual' },
+        { name: 'Soul Lantern', order: 2, category: 'spiritual' },
+        { name: 'Divine Sea', order: 3, category: 'spiritual' },
+        { name: 'Heavenly Soul', order: 4, category: 'spiritual' },
+      ],
+    };
+
+    const audit = auditCultivationChange('Copper Skin', 'Heavenly Soul', novel([bodyPath, soulPath]));
+    expect(audit).toMatchObject({ hasBreakthrough: false, hasRegression: false, ladderName: 'Soul Path' });
+    expect(audit.stageJump).toBeUndefined();
+  });
+});
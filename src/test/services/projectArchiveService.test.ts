@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../services/supabaseService', () => ({
+  supabase: {},
+}));
+
+import {
+  createProjectArchive,
+  migrateProjectArchive,
+  parseProjectArchive,
+  remapArchiveIds,
+  restoreProjectArchive,
+  serializeProjectArchive,
+  PROJECT_ARCHIVE_VERSION,
+} from '../../../services/projectArchiveService';
+import { getWorldEvents, saveWorldEvents } from '../../../services/livingWorld/worldStateSimulator';
+import { NovelState } from '../../../types';
+import { GlobalWorldEvent } from '../../../types/livingWorld';
+
+const mockNovel: NovelState = {
+  id: 'novel-1',
+  title: 'Archive Test',
+  genre: 'Xianxia',
+  chapters: [
+    { id: 'ch-1', number: 1, title: 'One', content: 'Text', summary: '', scenes: [
+      { id: 'sc-1', chapterId: 'ch-1', number: 1, title: '', content: '', summary: '', wordCount: 0, tags: [], createdAt: 0, updatedAt: 0 },
+    ], createdAt: 0 },
+  ],
+  plotLedger: [],
+  grandSaga: '',
+  characterCodex: [
+    { id: 'char-1', name: 'Lin', age: '16', personality: '', currentCultivation: '', skills: [], items: [], notes: '', status: 'Alive',
+      relationships: [{ characterId: 'char-2', type: 'Rival', history: '', impact: '' }] },
+    { id: 'char-2', name: 'Wei', age: '17', personality: '', currentCultivation: '', skills: [], items: [], notes: '', status: 'Alive', relationships: [] },
+  ],
+  tags: [],
+  realms: [{ id: 'realm-1', name: 'Mortal', description: '', status: 'current' }],
+  territories: [],
+  worldBible: [],
+  systemLogs: [],
+  writingGoals: [],
+  createdAt: 0,
+  updatedAt: 0,
+  currentRealmId: 'realm-1',
+};
+
+describe('Project Archive Service', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('round-trips a novel and its local data through the zip container', async () => {
+    saveWorldEvents('novel-1', [{ id: 'evt-1', novelId: 'novel-1', isDiscovered: false } as unknown as GlobalWorldEvent]);
+    const bytes = serializeProjectArchive(createProjectArchive(mockNovel));
+
+    const raw = await parseProjectArchive(bytes);
+    const { archive, sourceVersion } = migrateProjectArchive(raw);
+    expect(sourceVersion).toBe(PROJECT_ARCHIVE_VERSION);
+    expect(archive.novel.chapters[0].scenes[0].id).toBe('sc-1');
+    expect(archive.localData.worldEvents).toHaveLength(1);
+  });
+
+  it('migrates unversioned NovelState JSON', () => {
+    const { archive, sourceVersion } = migrateProjectArchive(JSON.parse(JSON.stringify(mockNovel)));
+    expect(sourceVersion).toBe(0);
+    expect(archive.manifest.schemaVersion).toBe(PROJECT_ARCHIVE_VERSION);
+    expect(archive.localData.tribulationGates).toEqual([]);
+  });
+
+  it('rejects files that are not archives', () => {
+    expect(() => migrateProjectArchive({ hello: 'world' })).toThrow('not a Hall of Jade project archive');
+  });
+
+  it('remaps IDs consistently across references', () => {
+    const remapped = remapArchiveIds(createProjectArchive(mockNovel));
+    const [lin, wei] = remapped.novel.characterCodex;
+    expect(remapped.novel.id).not.toBe('novel-1');
+    expect(lin.id).not.toBe('char-1');
+    expect(lin.relationships[0].characterId).toBe(wei.id);
+    expect(remapped.novel.chapters[0].scenes[0].chapterId).toBe(remapped.novel.chapters[0].id);
+    expect(remapped.novel.currentRealmId).toBe(remapped.novel.realms[0].id);
+  });
+
+  it('restores as a copy with new IDs when the novel already exists', async () => {
+    saveWorldEvents('novel-1', [{ id: 'evt-1', novelId: 'novel-1', isDiscovered: true } as unknown as GlobalWorldEvent]);
+    const bytes = serializeProjectArchive(createProjectArchive(mockNovel));
+
+    const result = await restoreProjectArchive(bytes, { existingNovelIds: ['novel-1'] });
+    expect(result.remapped).toBe(true);
+    expect(result.novel.title).toBe('Archive Test (Restored)');
+    const events = getWorldEvents(result.novel.id);
+    expect(events).toHaveLength(1);
+    expect(events[0].novelId).toBe(result.novel.id);
+  });
+});
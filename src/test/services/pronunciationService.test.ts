@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getLexicon,
+  saveLexicon,
+  seedLexicon,
+  suggestRespelling,
+} from '../../../services/pronunciationService';
+import { normalizeText } from '../../../utils/textProcessor';
+import { generateSSML } from '../../../utils/ssmlGenerator';
+import type { Character, NovelState } from '../../../types';
+import type { PronunciationEntry } from '../../../types/pronunciation';
+
+const character = (id: string, name: string): Character => ({
+  id, name, isProtagonist: false, age: '', personality: '', currentCultivation: '',
+  skills: [], items: [], notes: '', status: 'Alive', relationships: [],
+});
+
+const novel = (names: string[]): NovelState => ({
+  id: 'novel-1',
+  chapters: [{ id: 'ch-1', number: 1, title: 'One', content: 'Qi surged through his dantian.', summary: '', scenes: [] }],
+  characterCodex: names.map((name, i) => character(`c${i}`, name)),
+  novelTechniques: [{ id: 't1', name: 'Long Sword of the Qingyun Peak' }],
+  novelItems: [],
+  worldBible: [{ id: 'w1', title: 'Azure Cloud Sect', content: '' }],
+} as unknown as NovelState);
+
+describe('pronunciationService', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('seeds respellings for pinyin names and the glossary terms the prose uses', () => {
+    expect(suggestRespelling('Xiao')).toBe('Shyow');
+    expect(suggestRespelling('Zhang')).toBe('Jahng');
+    expect(suggestRespelling('Lin')).toBeNull();
+    expect(suggestRespelling('Azure')).toBeNull();
+    expect(suggestRespelling('Long')).toBeNull();
+
+    const seeded = seedLexicon(novel(['Xiao Yan', 'Elder Mo']));
+    expect(seeded.map(e => [e.term, e.alias, e.source])).toEqual([
+      ['Dantian', 'dahn-tyen', 'glossary'],
+      ['Qi', 'chee', 'glossary'],
+      ['Qingyun', 'Ching-yoon', 'technique'],
+      ['Xiao', 'Shyow', 'character'],
+    ]);
+  });
+
+  it('applies the lexicon as respellings in plain text and phonemes or aliases in SSML', () => {
+    const lexicon: PronunciationEntry[] = [
+      { term: 'Dantian', alias: 'dahn-tyen', phoneme: 'tän.tʰjɛn', source: 'glossary', enabled: true },
+      { term: 'Xiao Yan', alias: 'Shyow Yen', source: 'custom', enabled: true },
+      { term: 'Xiao', alias: 'Shyow', source: 'character', enabled: true },
+      { term: 'Qi', alias: 'chee', source: 'glossary', enabled: false },
+    ];
+    expect(normalizeText('Xiao Yan felt his dantian stir. Xiao-ge nodded. Qi flowed.', lexicon)).toBe(
+      'Shyow Yen felt his dahn-tyen stir. Shyow-ge nodded. Qi flowed.'
+    );
+
+    const ssml = generateSSML('His Dantian hummed. Xiao laughed.', { lexicon });
+    expect(ssml).toContain('<phoneme alphabet="ipa" ph="tän.tʰjɛn">Dantian</phoneme>');
+    expect(ssml).toContain('<sub alias="Shyow">Xiao</sub>');
+    expect(ssml.startsWith('<speak>')).toBe(true);
+  });
+
+  it('keeps saved edits and switched-off seeds while adding new names', () => {
+    const state = novel(['Xiao Yan']);
+    const lexicon = getLexicon(state).map(e =>
+      e.term === 'Xiao' ? { ...e, alias: 'Syow' } : e.term === 'Qi' ? { ...e, enabled: false } : e
+    );
+    saveLexicon(state.id, lexicon);
+
+    const grown = getLexicon(novel(['Xiao Yan', 'Zhang Wei']));
+    expect(grown.find(e => e.term === 'Xiao')?.alias).toBe('Syow');
+    expect(grown.find(e => e.term === 'Qi')?.enabled).toBe(false);
+    expect(grown.find(e => e.term === 'Zhang')).toMatchObject({ alias: 'Jahng', source: 'character' });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  searchNovel,
+  parseSearchQuery,
+  indexChapter,
+  clearSearchIndex,
+  findInNovel,
+  applyReplacements,
+} from '../../../services/searchService';
+import type { Chapter, Character, NovelState } from '../../../types';
+
+const chapter = (number: number, content: string, title = `Chapter ${number}`): Chapter => ({
+  id: `ch-${number}`, number, title, content, summary: '', scenes: [], createdAt: 0,
+});
+
+const character = (id: string, name: string, notes: string): Character => ({
+  id, name, isProtagonist: false, age: '', personality: '', currentCultivation: '',
+  skills: [], items: [], notes, status: 'Alive', relationships: [],
+});
+
+const novel = (chapters: Chapter[]): NovelState => ({
+  id: 'novel-1',
+  chapters,
+  characterCodex: [character('mo', 'Elder Mo', 'Grand elder of the Azure Cloud Sect')],
+  worldBible: [],
+} as unknown as NovelState);
+
+const chapters = [
+  chapter(1, 'Lin Feng knelt before the gate of the Azure Cloud Sect.'),
+  chapter(12, 'The Azure Cloud Sect burned. Demons poured over the cloud walls.', 'The Azure Fall'),
+  chapter(30, 'Far from any sect, a cloud drifted over the azure lake.'),
+];
+
+describe('searchService', () => {
+  beforeEach(() => clearSearchIndex());
+
+  it('parses phrases, exclusions, filters and regular expressions', () => {
+    const parsed = parseSearchQuery('sect "azure cloud" -demon type:chapters chapter:10..40 /mo+/i');
+    expect(parsed.terms).toEqual(['sect']);
+    expect(parsed.phrases).toEqual(['azure cloud']);
+    expect(parsed.excludedTerms).toEqual(['demon']);
+    expect(parsed.types).toEqual(['chapter']);
+    expect(parsed.chapterRange).toEqual({ from: 10, to: 40 });
+    expect(parsed.regex?.flags).toContain('i');
+    expect(parseSearchQuery('chapter:abc /(/').errors).toHaveLength(2);
+  });
+
+  it('ranks indexed results and applies the query syntax', () => {
+    const state = novel(chapters);
+    const phrase = searchNovel(state, { query: '"azure cloud"' });
+    expect(phrase.map(r => r.id)).toEqual(expect.arrayContaining(['ch-1', 'ch-12', 'mo']));
+    expect(phrase.map(r => r.id)).not.toContain('ch-30');
+    // The title hit outranks the prose-only ones
+    expect(searchNovel(state, { query: 'azure' })[0].id).toBe('ch-12');
+    expect(searchNovel(state, { query: '"azure cloud" -demons' }).map(r => r.id)).not.toContain('ch-12');
+    expect(searchNovel(state, { query: 'sect type:character' }).map(r => r.id)).toEqual(['mo']);
+    expect(searchNovel(state, { query: 'sect chapter:10..40' }).map(r => r.id).sort()).toEqual(['ch-12', 'ch-30']);
+    expect(searchNovel(state, { query: '/cloud walls?/' }).map(r => r.id)).toEqual(['ch-12']);
+    expect(searchNovel(state, { query: 'dem' })[0].hitCount).toBe(1);
+
+    const edited = chapter(30, 'The Azure Cloud Sect rebuilt its walls.');
+    indexChapter(state.id, edited);
+    const after = searchNovel(novel([chapters[0], chapters[1], edited]), { query: '"cloud sect"' });
+    expect(after.map(r => r.id)).toContain('ch-30');
+  });
+
+  it('previews and applies novel-wide replacements', () => {
+    const state = novel(chapters);
+    const hits = findInNovel(state, 'Azure Cloud Sect', 'Jade Sky Sect', { fields: ['content', 'title'] });
+    expect(hits.map(h => h.chapterNumber)).toEqual([1, 12]);
+    expect(hits[0].before).toBe('Lin Feng knelt before the gate of the ');
+
+    const regexHits = findInNovel(state, '(\\w+) Cloud Sect', '$1 Sky Sect', { regex: true, chapterRange: { from: 10 } });
+    expect(regexHits.map(h => h.replacement)).toEqual(['Azure Sky Sect']);
+
+    const stale = { ...hits[1], match: 'something else' };
+    const outcome = applyReplacements(state, [hits[0], stale]);
+    expect(outcome.applied).toBe(1);
+    expect(outcome.skipped).toBe(1);
+    expect(outcome.chapters[0].content).toBe('Lin Feng knelt before the gate of the Jade Sky Sect.');
+    expect(() => findInNovel(state, '(', '', { regex: true })).toThrow(/Invalid regular expression/);
+  });
+});
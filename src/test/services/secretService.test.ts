@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applySecretUpdates, buildSecretMatrix, findSecretLeaks } from '../../../services/secretService';
+import { mergeExtractedData } from '../../../services/chapterBackfillService';
+import { applyClerkDelta } from '../../../services/clerk/deltaApplicator';
+import { buildLoreBible } from '../../../services/loreBible/loreBibleService';
+import type { Chapter, Character, NovelState } from '../../../types';
+import type { Secret } from '../../../types/secrets';
+import type { ClerkDelta } from '../../../types/clerk';
+
+vi.mock('../../../services/supabaseService', () => ({ supabase: {} }));
+
+const character = (id: string, name: string, isProtagonist = false): Character => ({
+  id, name, isProtagonist, age: '', personality: '', currentCultivation: '',
+  skills: [], items: [], notes: '', status: 'Alive', relationships: [],
+});
+
+const characters = [character('lin', 'Lin Feng', true), character('su', 'Su Yan'), character('mo', 'Elder Mo')];
+
+const chapter = (number: number, content: string): Chapter => ({
+  id: `ch-${number}`, number, title: `Chapter ${number}`, content, summary: '', scenes: [], createdAt: 0,
+});
+
+const bloodline: Secret = {
+  id: 'secret-1',
+  title: "Lin Feng's phoenix bloodline",
+  description: 'Lin Feng carries the blood of the Phoenix clan',
+  category: 'bloodline',
+  keywords: ['phoenix bloodline'],
+  subjectCharacterId: 'lin',
+  status: 'hidden',
+  holders: [
+    { characterId: 'lin', revealedInChapter: 1, how: 'original' },
+    { characterId: 'su', revealedInChapter: 2, how: 'told', toldByCharacterId: 'lin' },
+  ],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+function novel(chapters: Chapter[], secrets: Secret[] = [bloodline]): NovelState {
+  return {
+    id: 'novel-1',
+    title: 'Jade Manuscripts',
+    genre: 'Xianxia',
+    chapters,
+    plotLedger: [],
+    grandSaga: '',
+    characterCodex: characters,
+    tags: [],
+    realms: [],
+    territories: [],
+    worldBible: [],
+    systemLogs: [],
+    writingGoals: [],
+    createdAt: 0,
+    updatedAt: 0,
+    currentRealmId: '',
+    secrets,
+  };
+}
+
+describe('secretService', () => {
+  it('merges extracted secret updates by title and records who learned them', () => {
+    const first = applySecretUpdates([], [{
+      title: 'Elder Mo poisoned the patriarch',
+      category: 'crime',
+      keywords: ['poison'],
+      subjectName: 'Elder Mo',
+      learnedBy: [{ characterName: 'Elder Mo', how: 'original' }],
+    }], characters, 3);
+
+    expect(first.secrets).toHaveLength(1);
+    expect(first.secrets[0]).toMatchObject({ category: 'crime', subjectCharacterId: 'mo', status: 'hidden' });
+
+    const second = applySecretUpdates(first.secrets, [{
+      title: 'elder mo poisoned the patriarch',
+      status: 'partially_revealed',
+      learnedBy: [
+        { characterName: 'Su Yan', how: 'overheard' },
+        { characterName: 'Elder Mo', how: 'told' },
+      ],
+    }], characters, 5);
+
+    expect(second.secrets).toHaveLength(1);
+    expect(second.secrets[0].status).toBe('partially_revealed');
+    expect(second.secrets[0].holders).toEqual([
+      { characterId: 'mo', revealedInChapter: 3, how: 'original', toldByCharacterId: undefined },
+      { characterId: 'su', revealedInChapter: 5, how: 'overheard', toldByCharacterId: undefined },
+    ]);
+    expect(second.changes).toContain('Su Yan learned "elder mo poisoned the patriarch"');
+  });
+
+  it('shows who knows each secret as of a chapter', () => {
+    const state = novel([chapter(1, ''), chapter(2, '')]);
+
+    const beforeTelling = buildSecretMatrix(state, 1).get('secret-1')!;
+    expect(beforeTelling.get('lin')).toEqual({ knows: true, revealedInChapter: 1, how: 'original' });
+    expect(beforeTelling.get('su')).toEqual({ knows: false });
+
+    expect(buildSecretMatrix(state).get('secret-1')!.get('su')).toMatchObject({ knows: true, how: 'told' });
+
+    const revealed = novel(state.chapters, [{ ...bloodline, status: 'revealed', publiclyRevealedInChapter: 2 }]);
+    expect(buildSecretMatrix(revealed).get('secret-1')!.get('mo')).toEqual({ knows: true, revealedInChapter: 2, how: 'public' });
+  });
+
+  it('reads the matrix as of the last chapter number when chapters were deleted', () => {
+    const suLearnsLate = { ...bloodline, holders: [bloodline.holders[0], { ...bloodline.holders[1], revealedInChapter: 3 }] };
+    const state = novel([chapter(1, ''), chapter(3, '')], [suLearnsLate]);
+
+    expect(buildSecretMatrix(state).get('secret-1')!.get('su')).toMatchObject({ knows: true, revealedInChapter: 3 });
+  });
+
+  it('records the secrets a backfilled chapter reveals', async () => {
+    const state = novel([chapter(1, ''), chapter(2, 'Elder Mo listened at the door.')]);
+
+    const merged = await mergeExtractedData(state, state.chapters[1], {
+      characterUpserts: [],
+      worldEntryUpserts: [],
+      territoryUpserts: [],
+      scenes: [],
+      arcChecklistProgress: null,
+      secretUpdates: [{ title: "Lin Feng's phoenix bloodline", learnedBy: [{ characterName: 'Elder Mo', how: 'overheard' }] }],
+    });
+
+    expect(merged.secrets![0].holders).toContainEqual(
+      expect.objectContaining({ characterId: 'mo', revealedInChapter: 2, how: 'overheard' })
+    );
+  });
+
+  it('flags dialogue that reveals a secret to a character who does not hold it', () => {
+    const leaking = chapter(3, [
+      'Elder Mo stood at the gate while Lin Feng and Su Yan argued.',
+      '"Your phoenix bloodline will get us killed," Su Yan said.',
+    ].join('\n\n'));
+
+    const leaks = findSecretLeaks(leaking, novel([leaking]));
+
+    expect(leaks).toHaveLength(1);
+    expect(leaks[0]).toMatchObject({ speakerName: 'Su Yan', listenerNames: ['Elder Mo'], speakerUnaware: false });
+
+    const alone = chapter(3, [
+      'Lin Feng and Su Yan were alone in the cave.',
+      '"Your phoenix bloodline will get us killed," Su Yan said.',
+    ].join('\n\n'));
+    expect(findSecretLeaks(alone, novel([alone]))).toHaveLength(0);
+  });
+
+  it('merges the secrets of a Clerk delta into the novel\'s ledger', () => {
+    const state = novel([chapter(1, 'Lin Feng bled gold.'), chapter(2, 'Su Yan saw the flames.')]);
+    const delta: ClerkDelta = {
+      chapterNumber: 3,
+      timestamp: 0,
+      updates: {
+        secrets: [{
+          title: "Lin Feng's phoenix bloodline",
+          learnedBy: [{ characterName: 'Elder Mo', how: 'overheard' }],
+        }],
+      },
+      observations: { reasoning: [], warnings: [], continuityFlags: [] },
+    };
+
+    const result = applyClerkDelta(buildLoreBible(state, 2), delta, state);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedSecrets).toHaveLength(1);
+    expect(result.updatedSecrets![0].holders).toContainEqual(
+      expect.objectContaining({ characterId: 'mo', revealedInChapter: 3, how: 'overheard' })
+    );
+    expect(result.changesApplied.some(change => change.includes('Elder Mo'))).toBe(true);
+    expect(state.secrets![0].holders).toHaveLength(2);
+  });
+});
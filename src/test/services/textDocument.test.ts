@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { TextDocument } from '../../../services/collab/textDocument';
+import type { CrdtOperation } from '../../../types/collab';
+
+/** Three peers starting from the same saved chapter text */
+function peers(content: string): TextDocument[] {
+  const seed = TextDocument.seedOperation(content);
+  return ['anna', 'bo', 'cy'].map(client => {
+    const doc = new TextDocument(client);
+    doc.apply([seed]);
+    return doc;
+  });
+}
+
+describe('TextDocument', () => {
+  it('converges when concurrent edits arrive in different orders', () => {
+    const [a, b, c] = peers('The sect gate opened.');
+
+    const fromA = a.applyTextChange('The outer sect gate opened.');
+    const fromB = b.applyTextChange('The sect gate opened slowly.');
+    const fromC = c.applyTextChange('The sect gate creaked.');
+
+    a.apply([...fromC, ...fromB]);
+    b.apply([...fromA, ...fromC]);
+    c.apply([...fromB, ...fromA]);
+
+    expect(a.getText()).toBe(b.getText());
+    expect(b.getText()).toBe(c.getText());
+    expect(a.getText()).toContain('outer sect');
+    expect(a.getText()).toContain('creaked');
+    expect(a.getText()).not.toContain('opened');
+  });
+
+  it('keeps operations that arrive before what they refer to until it does', () => {
+    const [a, b] = peers('Qi');
+    const first = a.insert(2, ' gathered') as CrdtOperation;
+    const second = a.insert(11, ' slowly') as CrdtOperation;
+    const removal = a.delete(0, 3) as CrdtOperation;
+
+    expect(b.apply([removal, second])).toBe(false);
+    expect(b.getText()).toBe('Qi');
+    b.apply([first]);
+
+    expect(b.getText()).toBe('gathered slowly');
+    expect(b.getText()).toBe(a.getText());
+
+    const joiner = new TextDocument('dee');
+    joiner.apply(a.encodeState());
+    expect(joiner.getText()).toBe('gathered slowly');
+  });
+
+  it('moves comment anchors and cursors with concurrent edits around them', () => {
+    const [a, b] = peers('Lin Feng drew his sword.');
+    const anchor = a.anchorRange({ start: 9, end: 23 })!;
+    const cursor = a.relativePosition(8);
+
+    a.apply([b.insert(0, 'At dawn, ')!, b.insert(17, ' slowly')!, b.insert(33, ' jade')!]);
+    const range = a.resolveAnchor(anchor)!;
+
+    expect(a.getText()).toBe('At dawn, Lin Feng slowly drew his jade sword.');
+    expect(a.getText().slice(range.start, range.end)).toBe('drew his jade sword');
+    expect(a.getText().slice(0, a.absolutePosition(cursor))).toBe('At dawn, Lin Feng');
+
+    a.apply([b.delete(25, 5)!]);
+    const shrunk = a.resolveAnchor(anchor)!;
+    expect(a.getText().slice(shrunk.start, shrunk.end)).toBe('his jade sword');
+    expect(new TextDocument('eve').resolveAnchor(anchor)).toBeUndefined();
+  });
+});
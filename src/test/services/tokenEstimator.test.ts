@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { countTokens, estimatePromptTokens, getTokenWarning } from '../../../services/promptEngine/tokenEstimator';
+
+describe('tokenEstimator', () => {
+  it('counts CJK cultivation terms well above chars/4', () => {
+    const text = '筑基期的林枫感到丹田中的灵气翻涌，元婴老祖的威压从天而降。';
+    expect(countTokens(text)).toBeGreaterThan(Math.ceil(text.length / 4) * 2);
+  });
+
+  it('uses the tokenizer of the requested provider', () => {
+    const text = 'Lin Feng entered the 筑基期 (Foundation Establishment) realm; 丹田 burned.';
+    expect(countTokens(text, 'deepseek')).not.toBe(countTokens(text, 'gemini'));
+    expect(countTokens('', 'gemini')).toBe(0);
+  });
+
+  it('treats special-token markers in prompts as plain text', () => {
+    expect(() => countTokens('The scroll read <|endoftext|>')).not.toThrow();
+  });
+
+  it('feeds real counts into prompt estimates and warnings', () => {
+    const estimate = estimatePromptTokens({ systemInstruction: 'You are a novelist.', userPrompt: 'Write chapter one.' });
+    expect(estimate.totalTokens).toBe(estimate.systemTokens + estimate.userTokens);
+    expect(getTokenWarning(estimate.totalTokens)).toBeNull();
+    expect(getTokenWarning('修仙 '.repeat(20000))).not.toBeNull();
+  });
+});
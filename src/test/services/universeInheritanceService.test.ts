@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createUniverseFromNovel,
+  getUniverseOverrides,
+  syncNovelWithUniverse,
+} from '../../../services/universeInheritanceService';
+import { createSequel } from '../../../services/sequelService';
+import { buildLoreBible } from '../../../services/loreBible/loreBibleService';
+import type { Chapter, Character, NovelState } from '../../../types';
+
+const character = (id: string, name: string, isProtagonist = false): Character => ({
+  id, name, isProtagonist, age: '18', personality: 'Stubborn', currentCultivation: 'Qi Condensation',
+  skills: [], items: [], notes: '', status: 'Alive', relationships: [],
+});
+
+const chapter = (number: number, content: string): Chapter => ({
+  id: `ch-${number}`, number, title: `Chapter ${number}`, content, summary: '', scenes: [], createdAt: 0,
+});
+
+function novel(id: string, characterCodex: Character[], chapters: Chapter[] = []): NovelState {
+  return {
+    id,
+    title: `Novel ${id}`,
+    genre: 'Xianxia',
+    chapters,
+    plotLedger: [],
+    grandSaga: '',
+    characterCodex,
+    tags: [],
+    realms: [{ id: `${id}-realm`, name: 'Azure Continent', description: 'Mortal lands', status: 'current' }],
+    territories: [],
+    worldBible: [],
+    systemLogs: [],
+    writingGoals: [],
+    createdAt: 0,
+    updatedAt: 0,
+    currentRealmId: `${id}-realm`,
+  };
+}
+
+describe('universeInheritanceService', () => {
+  it('inherits universe edits on fields the novel left alone and keeps its overrides', () => {
+    const first = novel('a', [character('lin', 'Lin Feng', true), character('mo', 'Elder Mo')]);
+    const { universe, novel: linkedFirst } = createUniverseFromNovel(first, 'Azure Saga');
+    const { novel: second } = syncNovelWithUniverse(novel('b', []), universe);
+
+    const inheritedMo = second.characterCodex.find(c => c.name === 'Elder Mo')!;
+    const overridden: NovelState = {
+      ...second,
+      characterCodex: second.characterCodex.map(c => (c.id === inheritedMo.id ? { ...c, status: 'Deceased' } : c)),
+    };
+    expect(getUniverseOverrides(overridden)).toEqual([
+      expect.objectContaining({ collection: 'characters', novelEntityId: inheritedMo.id, label: 'Elder Mo', fields: ['status'] }),
+    ]);
+
+    const edited = {
+      ...universe,
+      characters: universe.characters.map(c => (c.name === 'Elder Mo' ? { ...c, personality: 'Scheming', status: 'Alive' as const } : c)),
+    };
+    const { novel: synced, changes } = syncNovelWithUniverse(overridden, edited);
+    const mo = synced.characterCodex.find(c => c.id === inheritedMo.id)!;
+
+    expect(mo.personality).toBe('Scheming');
+    expect(mo.status).toBe('Deceased');
+    expect(changes).toEqual(['Elder Mo: personality updated from the universe']);
+    expect(linkedFirst.universeLink?.links).toHaveLength(3);
+  });
+
+  it('copies new universe entities in, links same-named ones and excludes ones the novel deleted', () => {
+    const { universe } = createUniverseFromNovel(novel('a', [character('lin', 'Lin Feng', true), character('mo', 'Elder Mo')]), 'Azure Saga');
+    const own = character('own-lin', 'Lin Feng', true);
+    const { novel: linked, changes } = syncNovelWithUniverse(novel('b', [own]), universe);
+
+    expect(linked.characterCodex.map(c => c.name)).toEqual(['Lin Feng', 'Elder Mo']);
+    expect(linked.characterCodex[0].id).toBe('own-lin');
+    expect(linked.realms.map(r => r.name)).toEqual(['Azure Continent']);
+    expect(changes).toContain('Lin Feng: linked to the universe');
+    expect(changes).toContain('Elder Mo: inherited from the universe');
+
+    const withoutMo = { ...linked, characterCodex: linked.characterCodex.filter(c => c.name !== 'Elder Mo') };
+    const { novel: resynced } = syncNovelWithUniverse(withoutMo, universe);
+
+    expect(resynced.characterCodex.map(c => c.name)).toEqual(['Lin Feng']);
+    expect(resynced.universeLink?.excludedIds).toHaveLength(1);
+  });
+
+  it('starts a sequel from the final lore bible with the cast under new ids', () => {
+    const lin = { ...character('lin', 'Lin Feng', true), relationships: [{ characterId: 'su', type: 'Ally', history: '', impact: '' }] };
+    const predecessor = novel('a', [lin, character('su', 'Su Yan')], [chapter(1, 'Lin Feng broke through.')]);
+    const loreBible = buildLoreBible(predecessor, 1);
+    loreBible.protagonist.cultivation.realm = 'Foundation Establishment';
+    loreBible.protagonist.cultivation.stage = 'Early';
+
+    const sequel = createSequel(predecessor, 'Azure Heavens', loreBible);
+    const sequelLin = sequel.characterCodex.find(c => c.name === 'Lin Feng')!;
+    const sequelSu = sequel.characterCodex.find(c => c.name === 'Su Yan')!;
+
+    expect(sequel.id).not.toBe(predecessor.id);
+    expect(sequel.chapters).toEqual([]);
+    expect(sequel.series).toMatchObject({ bookNumber: 2, predecessorId: 'a', predecessorTitle: 'Novel a' });
+    expect(sequelLin.id).not.toBe('lin');
+    expect(sequelLin.currentCultivation).toBe('Foundation Establishment (Early)');
+    expect(sequelLin.relationships[0].characterId).toBe(sequelSu.id);
+    expect(sequel.currentRealmId).toBe(sequel.realms[0].id);
+  });
+
+  it('carries the world map over and reads the final chapter by number', () => {
+    const territory = (id: string, name: string) => ({ id, realmId: 'a-realm', name, type: 'Neutral' as const, description: '' });
+    const predecessor: NovelState = {
+      // Chapter 2 was deleted, so the book ends on chapter 3
+      ...novel('a', [character('lin', 'Lin Feng', true)], [chapter(1, 'Lin Feng set out.'), chapter(3, 'Lin Feng arrived.')]),
+      territories: [territory('t-sect', 'Azure Sect'), territory('t-city', 'Jade City')],
+      worldMap: {
+        canvases: [{ realmId: 'a-realm', widthDistance: 900, distanceUnit: 'li' }],
+        routes: [{ id: 'r-1', realmId: 'a-realm', fromTerritoryId: 't-sect', toTerritoryId: 't-city', name: 'Old Salt Road' }],
+      },
+    };
+
+    const sequel = createSequel(predecessor, 'Azure Heavens');
+    const [sect, city] = sequel.territories;
+
+    expect(sequel.series?.startingLoreBible.asOfChapter).toBe(3);
+    expect(sequel.worldMap?.canvases).toEqual([{ realmId: sequel.realms[0].id, widthDistance: 900, distanceUnit: 'li' }]);
+    expect(sequel.worldMap?.routes).toEqual([
+      expect.objectContaining({ realmId: sequel.realms[0].id, fromTerritoryId: sect.id, toTerritoryId: city.id, name: 'Old Salt Road' }),
+    ]);
+    expect(sect.id).not.toBe('t-sect');
+  });
+
+  it('gives the sequel its own tags and leaves the predecessor\'s untouched', () => {
+    const predecessor = {
+      ...novel('a', [character('lin', 'Lin Feng', true)]),
+      tags: [{ id: 'tag-1', novelId: 'a', name: 'Tournament', category: 'plot' as const, createdAt: 0 }],
+    };
+
+    const sequel = createSequel(predecessor, 'Azure Heavens', buildLoreBible(predecessor, 0));
+
+    expect(predecessor.tags).toEqual([{ id: 'tag-1', novelId: 'a', name: 'Tournament', category: 'plot', createdAt: 0 }]);
+    expect(sequel.tags).toHaveLength(1);
+    expect(sequel.tags[0]).toMatchObject({ name: 'Tournament', category: 'plot', novelId: sequel.id });
+    expect(sequel.tags[0].id).not.toBe('tag-1');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.DEEPSEEK_API_KEY = 'test-key';
+});
+
+import {
+  calculateUsageCost,
+  evaluateBudget,
+  getUsageBudgets,
+  setMonthlyBudget,
+  setNovelBudget,
+  summarizeUsage,
+} from '../../../services/usageLedgerService';
+import { deepseekText } from '../../../services/deepseekService';
+import type { UsageLedgerEntry } from '../../../types/usageLedger';
+
+const entry = (overrides: Partial<UsageLedgerEntry>): UsageLedgerEntry => ({
+  id: Math.random().toString(36),
+  timestamp: Date.now(),
+  providerId: 'deepseek',
+  providerKind: 'deepseek',
+  model: 'deepseek-chat',
+  taskType: 'prose_generation',
+  promptTokens: 1000,
+  completionTokens: 500,
+  cacheHitTokens: 0,
+  estimated: false,
+  cost: 0.01,
+  ...overrides,
+});
+
+describe('usageLedgerService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('bills cache hits at the cached-input rate', () => {
+    const costs = { input: 0.14, output: 0.28, cachedInput: 0.014 };
+    const cost = calculateUsageCost(costs, { promptTokens: 1_000_000, completionTokens: 1_000_000, cacheHitTokens: 500_000 });
+    expect(cost).toBeCloseTo(0.5 * 0.14 + 0.5 * 0.014 + 0.28, 6);
+    expect(calculateUsageCost({ input: 1, output: 2 }, { promptTokens: 1_000_000, completionTokens: 0, cacheHitTokens: 1_000_000 })).toBe(1);
+  });
+
+  it('summarises spend by provider, task and novel', () => {
+    const summary = summarizeUsage([
+      entry({ novelId: 'a', cost: 0.02 }),
+      entry({ novelId: 'b', taskType: 'metadata_extraction', providerId: 'gemini', cost: 0.01, cacheHitTokens: 200 }),
+      entry({ cost: 0.005 }),
+    ]);
+    expect(summary.total.requests).toBe(3);
+    expect(summary.total.cost).toBeCloseTo(0.035);
+    expect(summary.byProvider.gemini.cacheHitTokens).toBe(200);
+    expect(summary.byTask.prose_generation.requests).toBe(2);
+    expect(Object.keys(summary.byNovel)).toEqual(['a', 'b']);
+  });
+
+  it('warns or blocks when a cap would be exceeded', () => {
+    setMonthlyBudget({ limitUsd: 10, action: 'warn' });
+    setNovelBudget('novel-1', { limitUsd: 1, action: 'block' });
+    const budgets = getUsageBudgets();
+
+    expect(evaluateBudget(budgets, 'novel-1', { monthSpent: 2, novelSpent: 0.5 }, 0.1).status).toBe('ok');
+    expect(evaluateBudget(budgets, 'novel-2', { monthSpent: 9.95, novelSpent: 0 }, 0.1).status).toBe('warn');
+
+    const blocked = evaluateBudget(budgets, 'novel-1', { monthSpent: 9.95, novelSpent: 0.95 }, 0.1);
+    expect(blocked.status).toBe('block');
+    expect(blocked.message).toContain('Monthly budget');
+    expect(blocked.message).toContain('Novel budget');
+
+    setNovelBudget('novel-1', null);
+    expect(getUsageBudgets().novels['novel-1']).toBeUndefined();
+  });
+
+  it('reports DeepSeek usage including prompt cache hits', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 3, total_tokens: 123, prompt_cache_hit_tokens: 64 },
+      }),
+    }));
+
+    const onUsage = vi.fn();
+    await deepseekText({ user: 'Greet', onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 120, completionTokens: 3, cacheHitTokens: 64 });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { buildGeographyContext, compassDirection, findRoute } from '../../../services/worldMapService';
+import type { NovelState, Territory } from '../../../types';
+import type { TravelRoute } from '../../../types/worldMap';
+
+const territory = (id: string, name: string, x: number, y: number): Territory => ({
+  id, realmId: 'realm-1', name, type: 'Neutral', description: '', mapPlacement: { kind: 'pin', point: { x, y } },
+});
+
+const route = (id: string, from: string, to: string, travelTime?: number): TravelRoute => ({
+  id, realmId: 'realm-1', fromTerritoryId: from, toTerritoryId: to, travelTime, travelTimeUnit: 'days',
+});
+
+function novel(routes: TravelRoute[]): NovelState {
+  return {
+    id: 'novel-1',
+    title: 'Jade Manuscripts',
+    genre: 'Xianxia',
+    chapters: [],
+    plotLedger: [],
+    grandSaga: '',
+    characterCodex: [],
+    tags: [],
+    realms: [{ id: 'realm-1', name: 'Mortal Realm', description: '', status: 'current' }],
+    territories: [
+      territory('sect', 'Azure Cloud Sect', 100, 100),
+      territory('valley', 'Pine Valley', 500, 100),
+      territory('city', 'Blackstone City', 500, 500),
+    ],
+    worldBible: [],
+    systemLogs: [],
+    writingGoals: [],
+    createdAt: 0,
+    updatedAt: 0,
+    currentRealmId: 'realm-1',
+    worldMap: { canvases: [{ realmId: 'realm-1', widthDistance: 1000, distanceUnit: 'li' }], routes },
+  };
+}
+
+describe('worldMapService', () => {
+  it('reads compass directions with north at the top of the map', () => {
+    expect(compassDirection({ x: 0, y: 100 }, { x: 0, y: 0 })).toBe('north');
+    expect(compassDirection({ x: 0, y: 0 }, { x: 100, y: 100 })).toBe('south-east');
+  });
+
+  it('prefers the quicker route and totals its travel time', () => {
+    const state = novel([
+      route('r1', 'sect', 'valley', 2),
+      route('r2', 'valley', 'city', 3),
+      route('r3', 'sect', 'city', 10),
+    ]);
+
+    const found = findRoute(state, 'sect', 'city')!;
+
+    expect(found.legs.map(leg => leg.route.id)).toEqual(['r1', 'r2']);
+    expect(found.totalHours).toBe(5 * 24);
+  });
+
+  it('describes distance and route between locations mentioned in the text', () => {
+    const state = novel([route('r1', 'sect', 'valley', 2)]);
+
+    const context = buildGeographyContext(state, 'He left the Azure Cloud Sect at dawn, bound for Pine Valley.');
+
+    expect(context).toContain('Pine Valley lies east of Azure Cloud Sect, about 400 li as the crow flies');
+    expect(context).toContain('Route: Azure Cloud Sect → Pine Valley (2 days)');
+    expect(buildGeographyContext(state, 'Only Pine Valley is named here.')).toBeUndefined();
+  });
+});
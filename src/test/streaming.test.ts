@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.DEEPSEEK_API_KEY = 'test-key';
+});
+
+const orchestrator = vi.hoisted(() => ({ routeJsonTask: vi.fn(), routeTextTask: vi.fn() }));
+vi.mock('../../services/modelOrchestrator', () => orchestrator);
+
+import { createAbortError, extractPartialJsonString, isAbortError, readChatCompletionStream } from '../../utils/streaming';
+import { deepseekText } from '../../services/deepseekService';
+import { applyCritiqueCorrectionLoop } from '../../services/critiqueCorrectionService';
+import { CRITIQUE_CORRECTION_CONFIG } from '../../constants';
+
+function sseResponse(events: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) controller.enqueue(encoder.encode(event));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+describe('streaming', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('accumulates chat completion chunks split across reads', async () => {
+    const tokens: string[] = [];
+    const whole = delta('The sect ') + delta('gates opened.') + 'data: [DONE]\n\n';
+    const res = sseResponse([whole.slice(0, 17), whole.slice(17, 60), whole.slice(60)]);
+
+    const { text } = await readChatCompletionStream(res, token => tokens.push(token));
+
+    expect(text).toBe('The sect gates opened.');
+    expect(tokens).toEqual(['The sect ', 'gates opened.']);
+  });
+
+  it('decodes unterminated JSON string fields for live preview', () => {
+    const raw = '{"chapterTitle": "Dawn", "chapterContent": "He said \\"run\\"\\nand fl';
+    expect(extractPartialJsonString(raw, 'chapterTitle')).toBe('Dawn');
+    expect(extractPartialJsonString(raw, 'chapterContent')).toBe('He said "run"\nand fl');
+    expect(extractPartialJsonString('{"chapterTitle": "Da', 'chapterContent')).toBeNull();
+  });
+
+  it('rejects with GENERATION_ABORTED when the signal fires', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    })));
+
+    const controller = new AbortController();
+    const pending = deepseekText({ user: 'Write', onToken: () => undefined, signal: controller.signal });
+    controller.abort();
+
+    const error = await pending.catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(error.code).toBe('GENERATION_ABORTED');
+  });
+
+  it('stops the critique loop on cancel instead of carrying on with defaults', async () => {
+    const controller = new AbortController();
+    orchestrator.routeJsonTask.mockImplementation(async () => {
+      controller.abort();
+      throw createAbortError();
+    });
+    orchestrator.routeTextTask.mockResolvedValue('Revised prose. '.repeat(100));
+
+    const error = await applyCritiqueCorrectionLoop(
+      'The sect gates opened. '.repeat(100),
+      'Dawn',
+      '',
+      'literary_xianxia',
+      { signal: controller.signal },
+      { ...CRITIQUE_CORRECTION_CONFIG, enabled: true }
+    ).catch(e => e);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(orchestrator.routeTextTask).not.toHaveBeenCalled();
+  });
+});
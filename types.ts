@@ -26,6 +26,8 @@ export interface Territory {
   name: string;
   type: 'Empire' | 'Kingdom' | 'Neutral' | 'Hidden';
   description: string;
+  /** Pin or outline on the realm's world map canvas */
+  mapPlacement?: import('./types/worldMap').TerritoryMapPlacement;
   // Chapter tracking for rollback
   createdByChapterId?: string;
   lastUpdatedByChapterId?: string;
@@ -103,6 +105,8 @@ export interface Character {
   /** Explicit main character flag (supports multiple protagonists) */
   isProtagonist?: boolean;
   age: string;
+  /** In-world day on which `age` was true; ages advance from there */
+  ageAnchorDay?: number;
   personality: string;
   currentCultivation: string;
   /** Physical appearance description */
@@ -152,6 +156,10 @@ export interface Scene {
   summary: string;
   wordCount: number;
   tags: string[];
+  /** When the scene takes place in the story */
+  inWorldTime?: import('./types/calendar').InWorldTimestamp;
+  /** Viewpoint character when it differs from the chapter's */
+  povCharacterId?: string;
   createdAt: number;
   updatedAt: number;
 }
@@ -165,6 +173,10 @@ export interface Chapter {
   logicAudit?: LogicAudit;
   wordCount?: number;
   scenes: Scene[];
+  /** When the chapter opens in the story; inferred from time cues when absent */
+  inWorldTime?: import('./types/calendar').InWorldTimestamp;
+  /** Character whose point of view the chapter is told from */
+  povCharacterId?: string;
   createdAt: number;
   // Chapter regeneration tracking
   needsRegeneration?: boolean;
@@ -495,6 +507,24 @@ export interface NovelState {
   };
   /** Global Market State for economic simulation (Spirit Stone Market) */
   globalMarketState?: import('./types/market').GlobalMarketState;
+  /** In-world calendar (months, eras, story start) */
+  calendar?: import('./types/calendar').NovelCalendar;
+  /** Facts tracked per viewpoint character: who learned what, and when */
+  knowledgeFacts?: import('./types/pov').KnowledgeFact[];
+  /** Secrets ledger: who holds each secret and since which chapter */
+  secrets?: import('./types/secrets').Secret[];
+  /** Shared universe this novel inherits realms, characters and lore from */
+  universeLink?: import('./types/universe').UniverseLink;
+  /** Place in a series, set on sequels */
+  series?: import('./types/universe').SeriesInfo;
+  /** Owning user, who is always the novel's author; set when loaded with sign-in enabled */
+  ownerId?: string;
+  /** The signed-in user's role in this novel; not persisted, absent means author */
+  accessRole?: import('./types/membership').NovelRole;
+  /** Map canvases and travel routes between territories */
+  worldMap?: import('./types/worldMap').WorldMapState;
+  /** Power ladders for this novel; the generic cultivation ladder is used when absent */
+  powerSystems?: import('./types/powerSystem').PowerLevelHierarchy[];
   /** Total number of chapters planned for the novel (optional, defaults to heuristic estimate) */
   totalPlannedChapters?: number;
   updatedAt: number;
@@ -502,7 +532,7 @@ export interface NovelState {
   narrativeForensicsScan?: import('./types/narrativeForensics').ExcavationResult;
 }
 
-export type ViewType = 'dashboard' | 'world-bible' | 'characters' | 'chapters' | 'editor' | 'planning' | 'library' | 'world-map' | 'storyboard' | 'timeline' | 'beatsheet' | 'matrix' | 'analytics' | 'search' | 'goals' | 'antagonists' | 'character-systems' | 'story-threads' | 'loom' | 'structure-visualizer' | 'engagement-dashboard' | 'tension-curve' | 'theme-evolution' | 'character-psychology' | 'device-dashboard' | 'draft-comparison' | 'excellence-scorecard' | 'improvement-history' | 'memory-dashboard' | 'face-graph' | 'narrative-forensics';
+export type ViewType = 'dashboard' | 'world-bible' | 'characters' | 'chapters' | 'editor' | 'planning' | 'library' | 'world-map' | 'storyboard' | 'timeline' | 'beatsheet' | 'matrix' | 'analytics' | 'search' | 'goals' | 'antagonists' | 'character-systems' | 'story-threads' | 'loom' | 'structure-visualizer' | 'engagement-dashboard' | 'tension-curve' | 'theme-evolution' | 'character-psychology' | 'device-dashboard' | 'draft-comparison' | 'excellence-scorecard' | 'improvement-history' | 'memory-dashboard' | 'face-graph' | 'narrative-forensics' | 'universe' | 'members';
 
 // Style Analysis Types
 export interface WritingStyleMetrics {
@@ -608,6 +638,10 @@ export interface PromptContext {
   emotionalPayoffContext?: string;
   pacingContext?: string;
   symbolismContext?: string;
+  geographyContext?: string; // Distances, directions and routes between locations in play
+  calendarContext?: string; // Current in-world date, time elapsed and character ages
+  povContext?: string; // Viewpoint character, what they know and what they have not witnessed
+  seriesContext?: string; // Where the previous book of the series ended
   antagonistContext?: string;
   systemContext?: string; // Character systems that help the protagonist
   grandSagaCharacters?: Character[]; // Characters mentioned in Grand Saga
@@ -0,0 +1,94 @@
+/**
+ * Audiobook Type Definitions
+ *
+ * Offline rendering of chapters into audio files: the per-line script with
+ * attributed speakers, the voice cast, and the resumable render job.
+ */
+
+/** A voice as a synthesis provider knows it, tuned for one role */
+export interface AudiobookVoiceProfile {
+  /** Provider voice name, e.g. "Kore" */
+  voiceName: string;
+  /** Speaking rate, 1 = normal */
+  rate: number;
+  /** Delivery hint passed to providers that accept one, e.g. "gravelly and slow" */
+  style?: string;
+}
+
+/** A TTS backend that returns audio rather than speaking live */
+export interface AudioSynthesisProvider {
+  id: string;
+  /** Mono 16-bit PCM sample rate of the returned audio */
+  sampleRate: number;
+  /** Whether input may be SSML; plain-text providers get pause-annotated text */
+  acceptsSSML: boolean;
+  voices: string[];
+  isAvailable(): boolean;
+  synthesize(text: string, voice: AudiobookVoiceProfile, signal?: AbortSignal): Promise<Int16Array>;
+}
+
+/** Who reads what: the narrator plus one profile per character id */
+export interface AudiobookCast {
+  narrator: AudiobookVoiceProfile;
+  characters: Record<string, AudiobookVoiceProfile>;
+}
+
+export type AudiobookSegmentKind = 'heading' | 'narration' | 'dialogue';
+
+/** One stretch of text read by a single voice */
+export interface AudiobookSegment {
+  kind: AudiobookSegmentKind;
+  text: string;
+  /** Character speaking, for dialogue the speaker could be attributed to */
+  speakerId?: string;
+  /** The segment closes a paragraph (longer pause after it) */
+  paragraphEnd: boolean;
+  /** A scene break follows the segment */
+  sceneBreak?: boolean;
+}
+
+export interface AudiobookChapterScript {
+  chapterId: string;
+  chapterNumber: number;
+  title: string;
+  segments: AudiobookSegment[];
+}
+
+/** A named position in a rendered file, written as a WAV cue point */
+export interface AudiobookMarker {
+  label: string;
+  /** Offset from the start of the file, in seconds */
+  time: number;
+}
+
+export interface AudiobookFile {
+  chapterId: string;
+  chapterNumber: number;
+  filename: string;
+  data: Uint8Array;
+  duration: number;
+  markers: AudiobookMarker[];
+}
+
+export interface AudiobookRenderProgress {
+  chapterIndex: number;
+  chapterCount: number;
+  chapterNumber: number;
+  segmentIndex: number;
+  segmentCount: number;
+  /** Segments reused from the audio cache rather than synthesized */
+  cachedSegments: number;
+  /** Overall completion, 0 to 1 */
+  fraction: number;
+}
+
+/** Persisted state of a render so an interrupted one can pick up where it stopped */
+export interface AudiobookRenderJob {
+  id: string;
+  novelId: string;
+  chapterIds: string[];
+  /** Chapters whose files were already delivered */
+  completed: Array<{ chapterId: string; chapterNumber: number; filename: string; duration: number }>;
+  startedAt: number;
+  updatedAt: number;
+}
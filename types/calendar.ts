@@ -0,0 +1,40 @@
+/**
+ * Calendar Type Definitions
+ *
+ * In-world calendar and in-story time. A moment in the story is a day count
+ * since the calendar's epoch (year 1, first month, first day = day 0), which
+ * keeps elapsed-time arithmetic independent of month lengths and era names.
+ */
+
+export interface CalendarMonth {
+  name: string; // e.g., "Frost Moon"
+  days: number;
+}
+
+export interface CalendarEra {
+  name: string; // e.g., "Azure Dragon Era"
+  /** Absolute year the era begins; years within the era count from 1 */
+  startYear: number;
+}
+
+export interface NovelCalendar {
+  months: CalendarMonth[];
+  /** Sorted by startYear; the latest era that has started names the year */
+  eras: CalendarEra[];
+  /** Day the story opens on, used when the first chapter has no date */
+  storyStartDay?: number;
+}
+
+/** Calendar date with 1-based month and day and an absolute year */
+export interface InWorldDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface InWorldTimestamp {
+  /** Days since the calendar epoch; fractions are hours */
+  day: number;
+  /** Set by the author, or inferred from time-skip cues in the text */
+  source: 'manual' | 'inferred';
+}
@@ -18,6 +18,7 @@ import {
   ItemPossessionState,
   PromiseRecord,
 } from './loreBible';
+import type { SecretUpdate } from './secrets';
 
 // ============================================================================
 // DELTA UPDATE TYPES
@@ -193,6 +194,8 @@ export interface ClerkDelta {
     karmaDebts?: KarmaDebtUpdate[];
     /** Power system updates */
     powerSystem?: PowerSystemUpdate;
+    /** Secrets created, spread or made public in this chapter */
+    secrets?: SecretUpdate[];
   };
   
   /** Clerk's reasoning and observations */
@@ -264,6 +267,14 @@ export interface CultivationAuditResult {
   newLevel?: string;
   changeReason?: string;
   confidence: number;
+  /** Ladder from the novel's power systems the new level was found on */
+  ladderName?: string;
+  previousStageOrder?: number;
+  newStageOrder?: number;
+  /** Major stages advanced; negative for regression */
+  stageJump?: number;
+  /** Whether the ladder's rules for the new stage permit regression */
+  regressionAllowed?: boolean;
 }
 
 /**
@@ -0,0 +1,78 @@
+/**
+ * Collaborative Editing Type Definitions
+ *
+ * Operations of the chapter text CRDT, the messages exchanged with the local
+ * collaboration relay, and the presence of the writers in a chapter.
+ */
+
+/** Item id written as `client:clock`; unique across every peer of a document */
+export type CrdtItemId = string;
+
+export type CrdtOperation =
+  | {
+      type: 'insert';
+      client: string;
+      /** Lamport clock of the first character; the rest follow consecutively */
+      clock: number;
+      /** Item the text was typed after, or null at the start of the document */
+      origin: CrdtItemId | null;
+      text: string;
+    }
+  | { type: 'delete'; ids: CrdtItemId[] };
+
+/**
+ * A position that moves with the text around it: the item a cursor sits after,
+ * or null for the start of the document
+ */
+export type RelativePosition = CrdtItemId | null;
+
+export interface CollabUser {
+  name: string;
+  color: string;
+}
+
+export interface CollabCursor {
+  anchor: RelativePosition;
+  head: RelativePosition;
+}
+
+export interface CollabPeer {
+  clientId: string;
+  user: CollabUser;
+  cursor?: CollabCursor;
+}
+
+/** A collaborator with their cursor resolved against the current text */
+export interface ResolvedPeer {
+  clientId: string;
+  user: CollabUser;
+  selection?: { start: number; end: number };
+}
+
+export type CollabStatus = 'disabled' | 'connecting' | 'connected' | 'offline';
+
+export type CollabClientMessage =
+  | { type: 'join'; room: string; clientId: string; user: CollabUser }
+  | { type: 'ops'; ops: CrdtOperation[] }
+  | { type: 'presence'; cursor: CollabCursor };
+
+export type CollabServerMessage =
+  | {
+      type: 'sync';
+      ops: CrdtOperation[];
+      peers: CollabPeer[];
+      /** The room was empty: this peer provides the starting text */
+      seed: boolean;
+    }
+  | { type: 'ops'; clientId: string; ops: CrdtOperation[] }
+  | { type: 'presence'; peer: CollabPeer }
+  | { type: 'leave'; clientId: string };
+
+/**
+ * Comment anchor on the first and last commented characters, so the range
+ * follows concurrent edits around and inside it
+ */
+export interface CommentAnchor {
+  startId: CrdtItemId;
+  endId: CrdtItemId;
+}
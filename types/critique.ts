@@ -235,6 +235,8 @@ export interface CritiqueCorrectionCallbacks {
   onProgress?: (message: string, progress: number) => void;
   onCritiqueResult?: (result: CritiqueResult, iteration: number) => void;
   onCorrectionApplied?: (corrections: CorrectionSet, newContent: string) => void;
+  /** Cancels the loop; it rejects with a GENERATION_ABORTED AppError */
+  signal?: AbortSignal;
 }
 
 /**
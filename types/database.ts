@@ -30,6 +30,7 @@ import type {
   SystemProgression,
   SystemChapterAppearance,
 } from '../types';
+import type { TerritoryMapPlacement } from './worldMap';
 
 // Base database row type (includes timestamps and user_id)
 interface BaseDatabaseRow {
@@ -61,6 +62,7 @@ export interface TerritoryRow extends BaseDatabaseRow {
   name: string;
   description: string;
   type: 'Empire' | 'Kingdom' | 'Neutral' | 'Hidden';
+  map_placement: TerritoryMapPlacement | null;
 }
 
 // World entry row from database
@@ -96,6 +98,8 @@ export interface ChapterRow extends BaseDatabaseRow {
   content: string;
   summary: string | null;
   logic_audit: unknown | null; // JSONB
+  in_world_time?: unknown | null; // JSONB
+  pov_character_id?: string | null;
 }
 
 // Arc row from database
@@ -118,6 +122,8 @@ export interface SceneRow extends BaseDatabaseRow {
   content: string;
   summary: string | null;
   word_count: number | null;
+  in_world_time?: unknown | null; // JSONB
+  pov_character_id?: string | null;
   user_id?: string | null;
 }
 
@@ -316,6 +322,18 @@ export interface SystemChapterAppearanceRow extends BaseDatabaseRow {
   notes: string | null;
 }
 
+// Novel member row from database
+export interface NovelMemberRow {
+  id: string;
+  novel_id: string;
+  user_id: string | null;
+  email: string;
+  role: string;
+  invited_by: string | null;
+  invited_at: string | null;
+  accepted_at: string | null;
+}
+
 // Helper type for Supabase query results
 export type SupabaseQueryResult<T> = {
   data: T[] | null;
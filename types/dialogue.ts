@@ -0,0 +1,51 @@
+/**
+ * Dialogue Attribution Type Definitions
+ *
+ * Quoted lines of a chapter with the character each is credited to, shared by
+ * voice analysis, presence tracking, style checks and read-aloud.
+ */
+
+/** How a line's speaker was decided, strongest first */
+export type DialogueAttributionMethod =
+  /** A named speech tag: "said Lin Feng", "Lin Feng asked" */
+  | 'tag'
+  /** The one character named in the paragraph's narration */
+  | 'beat'
+  /** A pronoun tag or beat ("she said", "He frowned.") resolved to a recent character */
+  | 'pronoun'
+  /** A bare line in an exchange, credited to whoever spoke before last */
+  | 'turn-taking'
+  | 'unknown';
+
+export interface DialogueUtterance {
+  /** The spoken words, without quotation marks */
+  text: string;
+  /** Offsets of the quotation, marks included, in the chapter content */
+  start: number;
+  end: number;
+  /** Index into the attribution's paragraphs */
+  paragraphIndex: number;
+  /** Character id from the codex, or null when nobody can be credited */
+  speakerId: string | null;
+  /** 0-1; 0 for unknown speakers */
+  confidence: number;
+  method: DialogueAttributionMethod;
+  /** A speech verb sits beside the line, whether or not it names anyone */
+  tagged: boolean;
+}
+
+export interface DialogueParagraph {
+  /** Offsets of the trimmed paragraph in the chapter content */
+  start: number;
+  end: number;
+  /** A scene break separates this paragraph from the one before */
+  sceneBreakBefore: boolean;
+}
+
+export interface ChapterDialogueAttribution {
+  chapterId: string;
+  /** Content and codex fingerprint the result was computed from */
+  revision: string;
+  paragraphs: DialogueParagraph[];
+  utterances: DialogueUtterance[];
+}
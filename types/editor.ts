@@ -1,4 +1,5 @@
 import { Chapter, Arc, NovelState } from '../types';
+import type { CommentAnchor } from './collab';
 
 export type EditorTriggerType = 'chapter_batch' | 'arc_complete' | 'manual';
 export type IssueSeverity = 'minor' | 'major';
@@ -197,6 +198,8 @@ export interface EditorComment {
   entityType: 'chapter' | 'scene';
   entityId: string; // Chapter ID or Scene ID
   textRange: TextRange;
+  /** Anchor in the co-editing document the comment was made in; textRange is the fallback */
+  anchor?: CommentAnchor;
   selectedText: string; // Snippet of commented text
   comment: string;
   author: 'user' | 'ai';
@@ -275,6 +278,7 @@ export interface CreateCommentInput {
   entityType: 'chapter' | 'scene';
   entityId: string;
   textRange: TextRange;
+  anchor?: CommentAnchor;
   selectedText: string;
   comment: string;
   author?: 'user' | 'ai';
@@ -313,6 +317,8 @@ export interface CreateHighlightInput {
 export interface UpdateCommentInput {
   comment?: string;
   resolved?: boolean;
+  textRange?: TextRange;
+  selectedText?: string;
 }
 
 /**
@@ -0,0 +1,85 @@
+/**
+ * LLM Provider Type Definitions
+ *
+ * Providers are registered by kind (DeepSeek, Gemini, any OpenAI-compatible server)
+ * and configured per instance with a base URL, model and cost table. The Model
+ * Orchestrator resolves each TaskType to a configured provider instance.
+ */
+
+/**
+ * Provider implementation families. Each kind has a factory in the registry.
+ * 'mock' is the scripted provider used by tests.
+ */
+export type LlmProviderKind = 'deepseek' | 'gemini' | 'openai-compatible' | 'mock';
+
+/**
+ * Cost per 1M tokens in USD
+ */
+export interface LlmProviderCosts {
+  input: number;
+  output: number;
+  /** Price for prompt tokens served from the provider's cache; defaults to `input` */
+  cachedInput?: number;
+}
+
+/**
+ * Token usage as reported by the provider for one request
+ */
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Prompt tokens served from cache (DeepSeek prompt_cache_hit_tokens, Gemini cachedContentTokenCount) */
+  cacheHitTokens: number;
+}
+
+/**
+ * A configured provider instance (e.g. "DeepSeek", "Local llama.cpp")
+ */
+export interface LlmProviderConfig {
+  id: string;
+  name: string;
+  kind: LlmProviderKind;
+  /** API base URL; for OpenAI-compatible servers this is the `/v1` root */
+  baseUrl: string;
+  model: string;
+  /** Optional key for providers that do not read theirs from the environment */
+  apiKey?: string;
+  costs: LlmProviderCosts;
+  /** Built-in providers can be reconfigured but not removed */
+  builtIn?: boolean;
+  description?: string;
+}
+
+/**
+ * Request shape shared by every provider
+ */
+export interface LlmCompletionRequest {
+  system?: string;
+  user: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  cacheMetadata?: {
+    cacheableContent: string;
+    dynamicContent: string;
+  };
+  /** Stream tokens as they arrive; receives the chunk and the full text so far */
+  onToken?: (token: string, text: string) => void;
+  /** Abort the request; providers reject with a GENERATION_ABORTED AppError */
+  signal?: AbortSignal;
+  /** Receives the provider-reported token usage, when the provider reports it */
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+/**
+ * A provider instance able to serve text and JSON completions
+ */
+export interface LlmProvider {
+  readonly config: LlmProviderConfig;
+  /** Returns a message describing what is missing, or null when the provider can be called */
+  getConfigurationError(): string | null;
+  text(request: LlmCompletionRequest): Promise<string>;
+  json<T>(request: LlmCompletionRequest): Promise<T>;
+}
+
+export type LlmProviderFactory = (config: LlmProviderConfig) => LlmProvider;
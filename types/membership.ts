@@ -0,0 +1,33 @@
+/**
+ * Membership Type Definitions
+ *
+ * People invited to a novel and the role each holds in it. The novel's owner
+ * is always its author and has no membership row.
+ */
+
+export type NovelRole = 'author' | 'co_writer' | 'editor' | 'beta_reader';
+
+/** Actions a role may or may not take on a novel */
+export type NovelPermission =
+  | 'read'
+  | 'highlight'
+  | 'comment'
+  | 'suggest'
+  | 'resolve_suggestions'
+  | 'edit_content'
+  | 'edit_world'
+  | 'delete_chapter'
+  | 'generate'
+  | 'rollback'
+  | 'manage_members';
+
+export interface NovelMember {
+  id: string;
+  novelId: string;
+  /** Set once the invitee has signed in with the invited email */
+  userId?: string;
+  email: string;
+  role: NovelRole;
+  invitedAt: number;
+  acceptedAt?: number;
+}
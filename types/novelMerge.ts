@@ -0,0 +1,51 @@
+/**
+ * Novel Merge Type Definitions
+ *
+ * Results of a three-way merge between the last synced copy of a novel (the
+ * base), this device's copy and the cloud copy. Entities are matched by id, so
+ * edits to different chapters, scenes, characters, threads or world entries
+ * combine automatically and only true collisions are reported.
+ */
+
+import type { NovelState } from '../types';
+
+export type MergeSide = 'local' | 'remote';
+
+export type EntityConflictKind =
+  /** Both sides changed the same field(s) to different values */
+  | 'both_modified'
+  /** Both sides added an entity with the same id but different content */
+  | 'both_added'
+  /** Changed here, deleted in the cloud */
+  | 'modified_deleted'
+  /** Deleted here, changed in the cloud */
+  | 'deleted_modified';
+
+export interface EntityConflict {
+  /** Identifies the conflict when recording a resolution */
+  key: string;
+  /** NovelState field holding the entity, 'scenes' for scenes, or 'novel' for novel-level fields */
+  collection: string;
+  entityId: string;
+  /** Chapter id for scenes */
+  parentId?: string;
+  label: string;
+  kind: EntityConflictKind;
+  /** Fields both sides changed differently (empty when one side deleted the entity) */
+  fields: string[];
+  local?: unknown;
+  remote?: unknown;
+  /** The entity as it will be stored if that side wins; undefined means deleted */
+  resolutions: Record<MergeSide, unknown>;
+}
+
+export interface NovelMergeResult {
+  /** Merged novel with every conflict provisionally resolved in favour of the local side */
+  merged: NovelState;
+  conflicts: EntityConflict[];
+  /** Entities taken from the cloud or combined field by field without a collision */
+  autoMergedCount: number;
+}
+
+/** Chosen side per conflict key; unlisted conflicts keep the local side */
+export type MergeResolutions = Record<string, MergeSide>;
@@ -0,0 +1,27 @@
+/**
+ * Viewpoint Type Definitions
+ *
+ * What each viewpoint character knows. A fact is known to everyone present in
+ * the chapter where it happens on the page, and to the holders recorded for
+ * it from the chapter in which they learned it.
+ */
+
+export type KnowledgeSource = 'witnessed' | 'told' | 'deduced';
+
+export interface KnowledgeHolder {
+  characterId: string;
+  learnedInChapter: number;
+  source: KnowledgeSource;
+}
+
+export interface KnowledgeFact {
+  id: string;
+  description: string; // e.g., "Elder Mo poisoned the old patriarch"
+  /** Names or phrases whose appearance in a chapter refers to this fact */
+  keywords: string[];
+  /** Chapter where the fact happens on the page; characters present witness it */
+  occurredInChapter?: number;
+  holders: KnowledgeHolder[];
+  createdAt: number;
+  updatedAt: number;
+}
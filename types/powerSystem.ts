@@ -0,0 +1,44 @@
+/**
+ * Power System Type Definitions
+ *
+ * Per-novel power ladders: ordered realms with optional sub-stages
+ * (Early/Mid/Late/Peak), realm-specific names, and progression rules that can
+ * be tightened or relaxed per stage. A novel may run several ladders in
+ * parallel, e.g. a Qi path alongside body and soul paths.
+ */
+
+export type PowerLevelCategory = 'cultivation' | 'combat' | 'spiritual' | 'body_refinement';
+
+export interface PowerLevelProgressionRule {
+  maxChaptersPerStage: number; // Maximum chapters to advance one stage
+  minChaptersForBreakthrough: number; // Minimum chapters before breakthrough
+  allowRegression: boolean; // Whether power loss is allowed
+  requireBreakthroughEvent: boolean; // Whether breakthrough must be explicitly described
+}
+
+export interface PowerLevelStage {
+  name: string;
+  order: number; // Lower number = lower stage
+  category: PowerLevelCategory;
+  description?: string;
+  typicalBreakthroughTime?: string; // e.g., "3-5 chapters"
+  /** Other names the text uses for this stage (e.g. a realm's local name) */
+  aliases?: string[];
+  /** Sub-stages in ascending order; overrides the ladder's default */
+  subStages?: string[];
+  /** Rules that apply when advancing into this stage */
+  rules?: Partial<PowerLevelProgressionRule>;
+}
+
+export interface PowerLevelHierarchy {
+  /** Stable id; defaults to the category for the built-in ladders */
+  id?: string;
+  /** Display name, e.g. "Body Tempering Path" */
+  name?: string;
+  category: PowerLevelCategory;
+  stages: PowerLevelStage[];
+  /** Default sub-stages for every stage, in ascending order */
+  subStages?: string[];
+  /** Ladder-wide overrides of the default progression rules */
+  rules?: Partial<PowerLevelProgressionRule>;
+}
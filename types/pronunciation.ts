@@ -0,0 +1,20 @@
+/**
+ * Pronunciation Lexicon Type Definitions
+ *
+ * Per-novel respellings and IPA for names and terms that speech engines
+ * mispronounce, applied when text is read aloud or rendered to audio.
+ */
+
+export type PronunciationSource = 'character' | 'technique' | 'item' | 'world' | 'glossary' | 'custom';
+
+export interface PronunciationEntry {
+  /** The word or phrase as written in the prose */
+  term: string;
+  /** Spoken respelling, e.g. "dahn-tyen"; used by every engine */
+  alias: string;
+  /** IPA, used by engines that accept SSML phonemes */
+  phoneme?: string;
+  source: PronunciationSource;
+  /** Seeded entries are switched off rather than deleted so reseeding keeps them off */
+  enabled: boolean;
+}
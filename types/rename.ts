@@ -0,0 +1,69 @@
+/**
+ * Entity Rename Type Definitions
+ *
+ * A rename of a character, technique or item across the novel, computed as a
+ * change set of whole entities that can be applied and undone as one step.
+ */
+
+export type RenameEntityType = 'character' | 'technique' | 'item';
+
+/** One spelling of the old name and what it becomes */
+export interface RenameAlias {
+  from: string;
+  to: string;
+  enabled: boolean;
+}
+
+export interface RenameRequest {
+  entityType: RenameEntityType;
+  entityId: string;
+  newName: string;
+  /** Every spelling to rewrite, the full old name included */
+  aliases: RenameAlias[];
+}
+
+/**
+ * How a reference was written: the full name, another alias, or an alias
+ * carrying an honorific (Senior Brother Lin, Lin-xiong, Feng'er)
+ */
+export type RenameReferenceKind = 'name' | 'alias' | 'honorific';
+
+export interface RenameFieldChange {
+  /** Where the text lives, e.g. "Chapter 3 · content" or "Su Yan · relationship history" */
+  location: string;
+  /** Chapter holding the text, for prose changes */
+  chapterId?: string;
+  before: string;
+  after: string;
+  references: number;
+}
+
+/** Entities of the novel's collections touched by a rename, keyed by id */
+export type RenameCollection =
+  | 'chapters'
+  | 'characterCodex'
+  | 'storyThreads'
+  | 'antagonists'
+  | 'worldBible'
+  | 'plotLedger'
+  | 'novelTechniques'
+  | 'novelItems';
+
+export interface RenameSnapshot {
+  entities: Partial<Record<RenameCollection, Record<string, { id: string }>>>;
+  grandSaga?: string;
+}
+
+export interface RenameChangeSet {
+  id: string;
+  novelId: string;
+  entityType: RenameEntityType;
+  entityId: string;
+  oldName: string;
+  newName: string;
+  createdAt: number;
+  before: RenameSnapshot;
+  after: RenameSnapshot;
+  changes: RenameFieldChange[];
+  counts: Record<RenameReferenceKind, number>;
+}
@@ -0,0 +1,62 @@
+/**
+ * Search Type Definitions
+ *
+ * Parsed search queries and the hits of novel-wide find-and-replace.
+ */
+
+export type SearchDocumentType = 'chapter' | 'scene' | 'character' | 'world';
+
+/** Inclusive range of chapter numbers; an open end is unbounded */
+export interface ChapterRange {
+  from?: number;
+  to?: number;
+}
+
+/**
+ * A search query broken into its parts:
+ *   dragon sect           every term must start a word of the document
+ *   "jade emperor"        exact phrase
+ *   -demon -"blood pact"  excluded terms and phrases
+ *   type:character        only these kinds of documents (repeatable)
+ *   chapter:10..40        only chapters and scenes in this range
+ *   /azure (sky|cloud)/i  regular expression
+ */
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  excludedPhrases: string[];
+  types: SearchDocumentType[];
+  chapterRange?: ChapterRange;
+  regex?: RegExp;
+  /** Problems with the query, such as an invalid regular expression */
+  errors: string[];
+}
+
+export type ReplaceField = 'title' | 'summary' | 'content';
+
+export interface FindReplaceOptions {
+  regex?: boolean;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  chapterRange?: ChapterRange;
+  /** Fields of each chapter to search; defaults to the content only */
+  fields?: ReplaceField[];
+}
+
+/** One occurrence found by find-and-replace, with what it would become */
+export interface ReplaceHit {
+  /** Stable within one search: `chapterId:field:start` */
+  id: string;
+  chapterId: string;
+  chapterNumber: number;
+  chapterTitle: string;
+  field: ReplaceField;
+  start: number;
+  end: number;
+  match: string;
+  replacement: string;
+  /** Text just before and after the match, for the preview */
+  before: string;
+  after: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * Secret Type Definitions
+ *
+ * Secrets the plot turns on (a hidden bloodline, a disguised identity, a
+ * stolen technique), who holds each one, and the chapter each holder learned it.
+ */
+
+export type SecretCategory = 'bloodline' | 'identity' | 'technique' | 'treasure' | 'crime' | 'relationship' | 'other';
+
+/** `revealed` means public knowledge: every character knows from that chapter on */
+export type SecretRevealStatus = 'hidden' | 'partially_revealed' | 'revealed';
+
+export type SecretLearnedHow = 'original' | 'told' | 'discovered' | 'overheard';
+
+export interface SecretHolder {
+  characterId: string;
+  revealedInChapter: number;
+  how: SecretLearnedHow;
+  /** Character who told them, when `how` is told */
+  toldByCharacterId?: string;
+}
+
+export interface Secret {
+  id: string;
+  title: string; // e.g., "Lin Feng's Phoenix bloodline"
+  description: string;
+  category: SecretCategory;
+  /** Names or phrases whose use in dialogue gives the secret away */
+  keywords: string[];
+  /** Character the secret is about, if any */
+  subjectCharacterId?: string;
+  status: SecretRevealStatus;
+  publiclyRevealedInChapter?: number;
+  holders: SecretHolder[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Secret change reported by chapter extraction or the Clerk; characters are
+ * named rather than referenced by id
+ */
+export interface SecretUpdate {
+  title: string;
+  action?: 'create' | 'update';
+  description?: string;
+  category?: SecretCategory;
+  keywords?: string[];
+  subjectName?: string;
+  status?: SecretRevealStatus;
+  learnedBy?: Array<{
+    characterName: string;
+    how?: SecretLearnedHow;
+    toldByName?: string;
+  }>;
+}
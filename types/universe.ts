@@ -0,0 +1,62 @@
+/**
+ * Universe Type Definitions
+ *
+ * A universe owns the realms, world entries, characters, techniques and power
+ * ladders shared by the novels of a series. Each linked novel keeps its own
+ * copy of every shared entity; a field the novel has changed since the last
+ * sync is a per-novel override, every other field follows the universe.
+ */
+
+import type { Character, NovelTechnique, Realm, WorldEntry } from '../types';
+import type { LoreBible } from './loreBible';
+import type { PowerLevelHierarchy } from './powerSystem';
+
+export interface Universe {
+  id: string;
+  name: string;
+  description: string;
+  realms: Realm[];
+  worldBible: WorldEntry[];
+  characters: Character[];
+  techniques: NovelTechnique[];
+  powerSystems: PowerLevelHierarchy[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Universe collections, named as on `Universe` */
+export type UniverseCollection = 'realms' | 'worldBible' | 'characters' | 'techniques' | 'powerSystems';
+
+export interface UniverseEntityLink {
+  collection: UniverseCollection;
+  universeEntityId: string;
+  novelEntityId: string;
+  /** Shared fields of the universe entity as of the last sync */
+  base: Record<string, unknown>;
+}
+
+export interface UniverseLink {
+  universeId: string;
+  links: UniverseEntityLink[];
+  /** Universe entities the novel deleted; they are not copied back in */
+  excludedIds: string[];
+  syncedAt: number;
+}
+
+/** Fields of one linked entity the novel has changed from the universe */
+export interface UniverseOverride {
+  collection: UniverseCollection;
+  novelEntityId: string;
+  universeEntityId: string;
+  label: string;
+  fields: string[];
+}
+
+/** Position of a novel in a series, and where its predecessor left off */
+export interface SeriesInfo {
+  bookNumber: number;
+  predecessorId: string;
+  predecessorTitle: string;
+  /** Lore bible at the end of the predecessor, the sequel's starting state */
+  startingLoreBible: LoreBible;
+}
@@ -0,0 +1,73 @@
+/**
+ * Usage Ledger Type Definitions
+ *
+ * Every routed LLM request is recorded with the provider's reported token usage
+ * and its cost, so spend can be summarised per novel, task and month and
+ * checked against user-defined budgets before a chapter is generated.
+ */
+
+import type { LlmProviderKind } from './llmProviders';
+
+/**
+ * Novel/chapter a request is attributed to
+ */
+export interface UsageContext {
+  novelId?: string;
+  chapterNumber?: number;
+}
+
+export interface UsageLedgerEntry extends UsageContext {
+  id: string;
+  timestamp: number;
+  providerId: string;
+  providerKind: LlmProviderKind;
+  model: string;
+  /** TaskType from the model orchestrator */
+  taskType: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Prompt tokens served from the provider's cache (DeepSeek prompt_cache_hit_tokens) */
+  cacheHitTokens: number;
+  /** True when the provider reported no usage and tokens were counted locally */
+  estimated: boolean;
+  /** USD */
+  cost: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cacheHitTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byProvider: Record<string, UsageTotals>;
+  byTask: Record<string, UsageTotals>;
+  byNovel: Record<string, UsageTotals>;
+}
+
+/**
+ * A spending cap in USD. 'warn' lets generation continue with a warning; 'block' stops it.
+ */
+export interface UsageBudget {
+  limitUsd: number;
+  action: 'warn' | 'block';
+}
+
+export interface UsageBudgets {
+  /** Cap on all spend in the current calendar month */
+  monthly?: UsageBudget;
+  /** Caps on lifetime spend per novel, keyed by novel id */
+  novels: Record<string, UsageBudget>;
+}
+
+export interface BudgetCheckResult {
+  status: 'ok' | 'warn' | 'block';
+  message?: string;
+  monthSpent: number;
+  novelSpent: number;
+  estimatedCost: number;
+}
@@ -0,0 +1,51 @@
+/**
+ * World Map Type Definitions
+ *
+ * Spatial layout of territories on a per-realm canvas and the travel routes
+ * between them. Coordinates are in map units on a fixed WORLD_MAP_WIDTH by
+ * WORLD_MAP_HEIGHT canvas, with y growing southward.
+ */
+
+export const WORLD_MAP_WIDTH = 1000;
+export const WORLD_MAP_HEIGHT = 650;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+/** Where a territory sits on its realm's canvas */
+export type TerritoryMapPlacement =
+  | { kind: 'pin'; point: MapPoint }
+  | { kind: 'polygon'; points: MapPoint[] };
+
+export type TravelTimeUnit = 'hours' | 'days' | 'weeks' | 'months';
+
+export interface TravelRoute {
+  id: string;
+  realmId: string;
+  fromTerritoryId: string;
+  toTerritoryId: string;
+  name?: string; // e.g., "Old Salt Road"
+  /** Bends between the two territories, for drawing only */
+  waypoints?: MapPoint[];
+  travelTime?: number;
+  travelTimeUnit?: TravelTimeUnit;
+  travelMode?: string; // e.g., "on foot", "flying sword", "caravan"
+  notes?: string;
+}
+
+/** Canvas settings for one realm */
+export interface RealmMapCanvas {
+  realmId: string;
+  /** Uploaded map image as a data URL; blank canvas when absent */
+  backgroundImage?: string;
+  /** In-world distance spanned by the full canvas width, for scale */
+  widthDistance?: number;
+  distanceUnit?: string; // e.g., "li", "miles"
+}
+
+export interface WorldMapState {
+  canvases: RealmMapCanvas[];
+  routes: TravelRoute[];
+}
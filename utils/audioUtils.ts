@@ -216,3 +216,106 @@ export function audioBufferToArrayBuffer(audioBuffer: AudioBuffer): ArrayBuffer
   
   return int16Data.buffer;
 }
+
+/**
+ * Decode base64 PCM16 (little-endian) into samples without an AudioContext
+ */
+export function base64ToPcm16(base64: string): Int16Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length - (binaryString.length % 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Int16Array(bytes.buffer);
+}
+
+/**
+ * Silent PCM16 samples of the given length
+ */
+export function createSilence(seconds: number, sampleRate: number): Int16Array {
+  return new Int16Array(Math.max(0, Math.round(seconds * sampleRate)));
+}
+
+/**
+ * Encode mono PCM16 chunks as a WAV file. Cue points are written as a `cue `
+ * chunk with `LIST/adtl` labels, which audio editors and players show as markers.
+ */
+export function encodeWav(
+  chunks: Int16Array[],
+  sampleRate: number,
+  cues: Array<{ sample: number; label: string }> = []
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const dataLength = chunks.reduce((sum, chunk) => sum + chunk.length * 2, 0);
+  const labels = cues.map(cue => {
+    const text = encoder.encode(cue.label);
+    // Zero-terminated, padded to an even length
+    return { text, size: text.length + 1, padded: text.length + 1 + ((text.length + 1) % 2) };
+  });
+  const cueChunkLength = cues.length > 0 ? 12 + cues.length * 24 : 0;
+  const listLength = cues.length > 0 ? 12 + labels.reduce((sum, l) => sum + 12 + l.padded, 0) : 0;
+  const totalLength = 44 + dataLength + cueChunkLength + listLength;
+
+  const bytes = new Uint8Array(totalLength);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  const writeTag = (tag: string) => {
+    bytes.set(encoder.encode(tag), offset);
+    offset += 4;
+  };
+  const writeUint32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const writeUint16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+
+  writeTag('RIFF');
+  writeUint32(totalLength - 8);
+  writeTag('WAVE');
+  writeTag('fmt ');
+  writeUint32(16);
+  writeUint16(1); // PCM
+  writeUint16(1); // mono
+  writeUint32(sampleRate);
+  writeUint32(sampleRate * 2);
+  writeUint16(2);
+  writeUint16(16);
+  writeTag('data');
+  writeUint32(dataLength);
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i++) {
+      view.setInt16(offset, chunk[i], true);
+      offset += 2;
+    }
+  }
+
+  if (cues.length > 0) {
+    writeTag('cue ');
+    writeUint32(cueChunkLength - 8);
+    writeUint32(cues.length);
+    cues.forEach((cue, index) => {
+      writeUint32(index + 1);
+      writeUint32(cue.sample);
+      writeTag('data');
+      writeUint32(0);
+      writeUint32(0);
+      writeUint32(cue.sample);
+    });
+
+    writeTag('LIST');
+    writeUint32(listLength - 8);
+    writeTag('adtl');
+    labels.forEach((label, index) => {
+      writeTag('labl');
+      writeUint32(4 + label.size);
+      writeUint32(index + 1);
+      bytes.set(label.text, offset);
+      offset += label.padded;
+    });
+  }
+
+  return bytes;
+}
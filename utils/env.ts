@@ -126,6 +126,10 @@ export const env = {
   openai: {
     apiKey: getOptionalApiKey(process.env.OPENAI_API_KEY),
   },
+  // Optional: local relay for co-editing chapters (npm run server), e.g. ws://localhost:3001/collab
+  collab: {
+    url: import.meta.env.VITE_COLLAB_URL || '',
+  },
 } as const;
 
 /**
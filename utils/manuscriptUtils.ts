@@ -0,0 +1,115 @@
+/**
+ * Manuscript utilities shared by the book exporters
+ * Groups chapters into arc "parts" and splits prose into paragraphs.
+ */
+
+import { Arc, Chapter, NovelState } from '../types';
+
+export interface ChapterPart {
+  /** Arc this part belongs to, or null for chapters outside any arc */
+  arc: Arc | null;
+  chapters: Chapter[];
+}
+
+/**
+ * Lines that authors commonly use as scene breaks
+ */
+const SCENE_BREAK_PATTERN = /^\s*(?:\*\s*){3,}$|^\s*(?:#\s*){1,3}$|^\s*(?:-\s*){3,}$|^\s*(?:~\s*){3,}$|^\s*[◇◆※❖✦]+\s*$/;
+
+/**
+ * Check whether a line is a scene-break marker ("* * *", "###", "---", "◇◇◇", ...)
+ */
+export function isSceneBreak(line: string): boolean {
+  return SCENE_BREAK_PATTERN.test(line);
+}
+
+/**
+ * Return chapters sorted by number
+ */
+export function sortChapters(chapters: Chapter[]): Chapter[] {
+  return [...chapters].sort((a, b) => a.number - b.number);
+}
+
+/**
+ * Resolve the chapter range covered by each arc.
+ * Arcs without an explicit end run until the next arc starts.
+ */
+export function getArcChapterRanges(arcs: Arc[]): Array<{ arc: Arc; start: number; end: number }> {
+  const started = arcs
+    .filter(arc => typeof arc.startedAtChapter === 'number')
+    .sort((a, b) => (a.startedAtChapter || 0) - (b.startedAtChapter || 0));
+
+  return started.map((arc, index) => {
+    const start = arc.startedAtChapter as number;
+    const next = started[index + 1];
+    const end = arc.endedAtChapter ?? (next ? (next.startedAtChapter as number) - 1 : Number.POSITIVE_INFINITY);
+    return { arc, start, end };
+  });
+}
+
+/**
+ * Group chapters into parts based on the novel's plot ledger.
+ * Chapters not covered by any arc are kept in their own (arc: null) parts,
+ * preserving reading order.
+ */
+export function groupChaptersByArc(novel: NovelState, chapters: Chapter[] = novel.chapters): ChapterPart[] {
+  const ranges = getArcChapterRanges(novel.plotLedger || []);
+  const parts: ChapterPart[] = [];
+
+  for (const chapter of sortChapters(chapters)) {
+    const range = ranges.find(r => chapter.number >= r.start && chapter.number <= r.end);
+    const arc = range ? range.arc : null;
+    const last = parts[parts.length - 1];
+    if (last && last.arc?.id === arc?.id) {
+      last.chapters.push(chapter);
+    } else {
+      parts.push({ arc, chapters: [chapter] });
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Get the chapters covered by a single arc
+ */
+export function getChaptersForArc(novel: NovelState, arcId: string): Chapter[] {
+  const range = getArcChapterRanges(novel.plotLedger || []).find(r => r.arc.id === arcId);
+  if (!range) return [];
+  return sortChapters(novel.chapters).filter(ch => ch.number >= range.start && ch.number <= range.end);
+}
+
+/**
+ * Split prose into blocks: paragraphs and scene breaks (returned as null).
+ * Blank lines separate paragraphs; if the text has none, single newlines do.
+ */
+export function splitIntoBlocks(text: string): Array<string | null> {
+  if (!text || !text.trim()) return [];
+
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  const rawBlocks = /\n\s*\n/.test(normalized) ? normalized.split(/\n\s*\n/) : normalized.split('\n');
+  const blocks: Array<string | null> = [];
+
+  for (const raw of rawBlocks) {
+    const block = raw.trim();
+    if (!block) continue;
+    if (isSceneBreak(block)) {
+      if (blocks.length > 0 && blocks[blocks.length - 1] !== null) blocks.push(null);
+      continue;
+    }
+    blocks.push(block.replace(/\s*\n\s*/g, ' '));
+  }
+
+  while (blocks.length > 0 && blocks[blocks.length - 1] === null) blocks.pop();
+  return blocks;
+}
+
+/**
+ * Count words, treating each CJK character as a word
+ */
+export function countWords(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(/[㐀-鿿豈-﫿]/g)?.length || 0;
+  const latin = text.replace(/[㐀-鿿豈-﫿]/g, ' ').split(/\s+/).filter(Boolean).length;
+  return cjk + latin;
+}
@@ -3,10 +3,19 @@
  * For better prosody and natural pauses in TTS
  */
 
+import type { PronunciationEntry } from '../types/pronunciation';
+import { applyPronunciations } from './textProcessor';
+
 export interface SSMLOptions {
   addPauses?: boolean;
   emphasizeParagraphs?: boolean;
   pauseDuration?: number; // in seconds
+  /** Names and terms to speak as IPA phonemes or respelled aliases */
+  lexicon?: PronunciationEntry[];
+}
+
+function escapeSSML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 }
 
 /**
@@ -17,9 +26,24 @@ export function generateSSML(text: string, options: SSMLOptions = {}): string {
   const {
     addPauses = true,
     emphasizeParagraphs = false,
-    pauseDuration = 0.5
+    pauseDuration = 0.5,
+    lexicon
   } = options;
 
+  // Lexicon terms become placeholders first so sentence splitting cannot cut through their tags
+  const pronunciations: string[] = [];
+  if (lexicon && lexicon.length > 0) {
+    text = applyPronunciations(text, lexicon, (entry, matched) => {
+      const phoneme = entry.phoneme?.trim();
+      pronunciations.push(
+        phoneme
+          ? `<phoneme alphabet="ipa" ph="${escapeSSML(phoneme)}">${escapeSSML(matched)}</phoneme>`
+          : `<sub alias="${escapeSSML(entry.alias.trim())}">${escapeSSML(matched)}</sub>`
+      );
+      return `\uE000${pronunciations.length - 1}\uE001`;
+    });
+  }
+
   let ssml = '<speak>';
   
   // Split into paragraphs
@@ -55,6 +79,9 @@ export function generateSSML(text: string, options: SSMLOptions = {}): string {
   
   ssml += '</speak>';
   
+  if (pronunciations.length > 0) {
+    ssml = ssml.replace(/\uE000(\d+)\uE001/g, (_, index) => pronunciations[Number(index)]);
+  }
   return ssml;
 }
 
@@ -0,0 +1,178 @@
+/**
+ * Streaming helpers for LLM responses: Server-Sent Events parsing, OpenAI-style
+ * delta accumulation, abort detection and partial-JSON field extraction for
+ * live previews of JSON-mode generations.
+ */
+
+import { AppError } from './errorHandling';
+import type { LlmUsage } from '../types/llmProviders';
+
+/**
+ * Called for every streamed chunk with the chunk and the full text so far
+ */
+export type TokenHandler = (token: string, text: string) => void;
+
+export interface StreamOptions {
+  onToken?: TokenHandler;
+  signal?: AbortSignal;
+}
+
+/**
+ * OpenAI-style usage block; DeepSeek adds the prompt cache fields
+ */
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens?: number;
+  prompt_cache_hit_tokens?: number;
+  prompt_cache_miss_tokens?: number;
+}
+
+/**
+ * True for fetch/stream aborts and for our own GENERATION_ABORTED errors
+ */
+export function isAbortError(error: unknown): boolean {
+  if (error instanceof AppError && error.code === 'GENERATION_ABORTED') return true;
+  // DOMException is not an Error subclass in every runtime, so check the name
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+export function createAbortError(): AppError {
+  return new AppError('Generation cancelled', 'GENERATION_ABORTED', undefined, false, true);
+}
+
+/**
+ * Throw GENERATION_ABORTED if the signal has fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw createAbortError();
+}
+
+/**
+ * Read an SSE body, calling `onData` with each event's data payload.
+ * Stops at the OpenAI-style "[DONE]" sentinel.
+ */
+export async function readSseData(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushEvent = (event: string): boolean => {
+    const data = event
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (!data) return false;
+    if (data.trim() === '[DONE]') return true;
+    onData(data);
+    return false;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        if (flushEvent(event)) return;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+    if (buffer.trim()) flushEvent(buffer);
+  } catch (error) {
+    if (isAbortError(error)) throw createAbortError();
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Normalise an OpenAI-style usage block
+ */
+export function toLlmUsage(usage?: ChatCompletionUsage | null): LlmUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    cacheHitTokens: usage.prompt_cache_hit_tokens || 0,
+  };
+}
+
+/**
+ * Accumulate an OpenAI/DeepSeek `chat.completion.chunk` stream into the full text.
+ * The usage block arrives on the final chunk when `stream_options.include_usage` is set.
+ */
+export async function readChatCompletionStream(
+  res: Response,
+  onToken?: TokenHandler
+): Promise<{ text: string; usage?: ChatCompletionUsage }> {
+  if (!res.body) {
+    throw new Error('Streaming response has no body');
+  }
+  let text = '';
+  let usage: ChatCompletionUsage | undefined;
+  await readSseData(res.body, data => {
+    let chunk: { choices?: Array<{ delta?: { content?: string } }>; usage?: ChatCompletionUsage | null };
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return; // keep-alive comments or malformed chunks
+    }
+    if (chunk.usage) usage = chunk.usage;
+    const token = chunk.choices?.[0]?.delta?.content;
+    if (token) {
+      text += token;
+      onToken?.(token, text);
+    }
+  });
+  return { text, usage };
+}
+
+/**
+ * Decode the (possibly unterminated) string value of `field` from partial JSON.
+ * Returns null until the field's opening quote has arrived.
+ *
+ * extractPartialJsonString('{"chapterContent":"He ran\\nfa', 'chapterContent') === 'He ran\nfa'
+ */
+export function extractPartialJsonString(raw: string, field: string): string | null {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(raw);
+  if (!match) return null;
+
+  let result = '';
+  for (let i = match.index + match[0].length; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') return result;
+    if (char !== '\\') {
+      result += char;
+      continue;
+    }
+    const next = raw[i + 1];
+    if (next === undefined) break; // escape split across chunks
+    i++;
+    switch (next) {
+      case 'n': result += '\n'; break;
+      case 't': result += '\t'; break;
+      case 'r': result += '\r'; break;
+      case 'b': result += '\b'; break;
+      case 'f': result += '\f'; break;
+      case 'u': {
+        const hex = raw.slice(i + 1, i + 5);
+        if (hex.length < 4) return result;
+        result += String.fromCharCode(parseInt(hex, 16));
+        i += 4;
+        break;
+      }
+      default: result += next;
+    }
+  }
+  return result;
+}
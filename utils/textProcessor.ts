@@ -3,6 +3,8 @@
  * Handles chunking, normalization, and text preprocessing
  */
 
+import type { PronunciationEntry } from '../types/pronunciation';
+
 export interface TextChunk {
   text: string;
   startIndex: number;
@@ -18,14 +20,52 @@ export function normalize(text: string): string {
   return text.trim().replace(/\s+/g, ' ');
 }
 
+const lexiconPatterns = new WeakMap<PronunciationEntry[], { pattern: RegExp; byTerm: Map<string, PronunciationEntry> } | null>();
+
+/**
+ * Replace every whole-word occurrence of an enabled lexicon term, longest
+ * terms first, with whatever `render` returns for it
+ */
+export function applyPronunciations(
+  text: string,
+  lexicon: PronunciationEntry[],
+  render: (entry: PronunciationEntry, matched: string) => string
+): string {
+  let compiled = lexiconPatterns.get(lexicon);
+  if (compiled === undefined) {
+    const entries = lexicon
+      .filter(entry => entry.enabled && entry.term.trim() && (entry.alias.trim() || entry.phoneme?.trim()))
+      .sort((a, b) => b.term.length - a.term.length);
+    compiled = entries.length === 0 ? null : {
+      pattern: new RegExp(
+        `(?<![\\p{L}\\p{N}])(?:${entries.map(e => e.term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(?![\\p{L}\\p{N}])`,
+        'giu'
+      ),
+      byTerm: new Map(entries.map(entry => [entry.term.trim().toLowerCase(), entry])),
+    };
+    lexiconPatterns.set(lexicon, compiled);
+  }
+  if (!compiled) return text;
+  const { pattern, byTerm } = compiled;
+  return text.replace(pattern, matched => {
+    const entry = byTerm.get(matched.toLowerCase());
+    return entry ? render(entry, matched) : matched;
+  });
+}
+
 /**
- * Normalize text for better TTS pronunciation
+ * Normalize text for better TTS pronunciation. Lexicon entries are spoken as
+ * their respelling, since plain-text engines cannot take IPA.
  */
-export function normalizeText(text: string): string {
+export function normalizeText(text: string, lexicon?: PronunciationEntry[]): string {
   let normalized = text.trim();
   
   // Normalize whitespace
   normalized = normalized.replace(/\s+/g, ' ');
+
+  if (lexicon && lexicon.length > 0) {
+    normalized = applyPronunciations(normalized, lexicon, (entry, matched) => entry.alias.trim() || matched);
+  }
   
   // Handle common abbreviations
   normalized = normalized.replace(/\bDr\./g, 'Doctor');
@@ -0,0 +1,87 @@
+/**
+ * Minimal ZIP container reader
+ * Reads STORE and DEFLATE entries in the browser (DEFLATE via DecompressionStream),
+ * which covers archives written by zipWriter and by word processors.
+ */
+
+export interface ZipFileEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Check whether the bytes start with a ZIP local file header ("PK\x03\x04")
+ */
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress ZIP entries (DecompressionStream unavailable)');
+  }
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Locate the end-of-central-directory record
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) return i;
+  }
+  throw new Error('Invalid ZIP file: end of central directory not found');
+}
+
+/**
+ * Read every file in a ZIP archive using its central directory
+ */
+export async function readZip(bytes: Uint8Array): Promise<ZipFileEntry[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let cursor = view.getUint32(eocd + 16, true);
+  const entries: ZipFileEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(cursor, true) !== 0x02014b50) {
+      throw new Error('Invalid ZIP file: corrupt central directory');
+    }
+    const method = view.getUint16(cursor + 10, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const path = textDecoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = bytes.subarray(start, start + compressedSize);
+
+    if (method === 0) {
+      entries.push({ path, data: raw });
+    } else if (method === 8) {
+      entries.push({ path, data: await inflateRaw(raw) });
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${path}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Read a ZIP entry as UTF-8 text
+ */
+export function zipEntryText(entries: ZipFileEntry[], path: string): string | null {
+  const entry = entries.find(e => e.path === path);
+  return entry ? textDecoder.decode(entry.data) : null;
+}